@@ -185,10 +185,16 @@ async function generateReactWebviewsBundle() {
 		entryPoints: {
 			'connectionDialog': 'src/reactviews/pages/ConnectionDialog/index.tsx',
 			'executionPlan': 'src/reactviews/pages/ExecutionPlan/index.tsx',
+			'executionPlanComparison': 'src/reactviews/pages/ExecutionPlanComparison/index.tsx',
 			'tableDesigner': 'src/reactviews/pages/TableDesigner/index.tsx',
 			'objectExplorerFilter': 'src/reactviews/pages/ObjectExplorerFilter/index.tsx',
 			'queryResult': 'src/reactviews/pages/QueryResult/index.tsx',
 			'userSurvey': 'src/reactviews/pages/UserSurvey/index.tsx',
+			'schemaCompare': 'src/reactviews/pages/SchemaCompare/index.tsx',
+			'flatFileImport': 'src/reactviews/pages/FlatFileImport/index.tsx',
+			'generateScripts': 'src/reactviews/pages/GenerateScripts/index.tsx',
+			'erDiagram': 'src/reactviews/pages/ErDiagram/index.tsx',
+			'queryBuilder': 'src/reactviews/pages/QueryBuilder/index.tsx',
 		},
 		bundle: true,
 		outdir: 'out/src/reactviews/assets',
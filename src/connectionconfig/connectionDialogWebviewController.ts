@@ -38,6 +38,10 @@ import {
 import {
     ConnectionDialog as Loc,
     Common as LocCommon,
+    environmentDevelopment,
+    environmentNone,
+    environmentProduction,
+    environmentTest,
     refreshTokenLabel,
 } from "../constants/locConstants";
 import {
@@ -70,11 +74,13 @@ import { getConnectionDisplayName } from "../models/connectionInfo";
 import { getErrorMessage } from "../utils/utils";
 import { l10n } from "vscode";
 import {
+    ConnectionEnvironment,
     CredentialsQuickPickItemType,
     IConnectionCredentialsQuickPickItem,
     IConnectionProfile,
 } from "../models/interfaces";
 import { IAccount, ITenant } from "../models/contracts/azure";
+import { parseConnectionString } from "../models/connectionStringFormats";
 
 export class ConnectionDialogWebviewController extends ReactWebviewPanelController<
     ConnectionDialogWebviewState,
@@ -355,7 +361,7 @@ export class ConnectionDialogWebviewController extends ReactWebviewPanelControll
         ) {
             return this.state.connectionComponents.mainOptions;
         }
-        return ["connectionString", "profileName"];
+        return ["connectionString", "profileName", "environment"];
     }
 
     private getFormComponent(
@@ -530,6 +536,30 @@ export class ConnectionDialogWebviewController extends ReactWebviewPanelControll
             isAdvancedOption: false,
         };
 
+        components["environment"] = {
+            propertyName: "environment",
+            label: Loc.environment,
+            required: false,
+            type: FormItemType.Dropdown,
+            tooltip: Loc.environmentTooltip,
+            options: [
+                { displayName: environmentNone, value: "" },
+                {
+                    displayName: environmentDevelopment,
+                    value: ConnectionEnvironment.Development,
+                },
+                {
+                    displayName: environmentTest,
+                    value: ConnectionEnvironment.Test,
+                },
+                {
+                    displayName: environmentProduction,
+                    value: ConnectionEnvironment.Production,
+                },
+            ],
+            isAdvancedOption: false,
+        };
+
         components["savePassword"] = {
             propertyName: "savePassword",
             label: Loc.savePassword,
@@ -596,6 +626,7 @@ export class ConnectionDialogWebviewController extends ReactWebviewPanelControll
             type: FormItemType.TextArea,
             propertyName: "connectionString",
             label: Loc.connectionString,
+            tooltip: Loc.connectionStringTooltip,
             required: true,
             validate: (value: string) => {
                 if (
@@ -1173,6 +1204,15 @@ export class ConnectionDialogWebviewController extends ReactWebviewPanelControll
     ): Promise<ConnectionDialogWebviewState> {
         this.clearFormError();
         this.state.connectionStatus = ApiStatus.Loading;
+        try {
+            await this.convertConnectionString();
+        } catch (error) {
+            this.state.formError = Loc.invalidConnectionString(
+                getErrorMessage(error),
+            );
+            this.state.connectionStatus = ApiStatus.Error;
+            return state;
+        }
         this.updateState();
 
         const cleanedConnection: IConnectionDialogProfile = structuredClone(
@@ -1611,6 +1651,30 @@ export class ConnectionDialogWebviewController extends ReactWebviewPanelControll
         }, new Map<K, V[]>());
     }
 
+    /** The tools service only accepts ADO.NET connection strings, so JDBC, ODBC and URI
+     * connection strings are converted to connection parameters */
+    private async convertConnectionString() {
+        if (
+            this.state.selectedInputMode !==
+            ConnectionInputMode.ConnectionString
+        ) {
+            return;
+        }
+        const parsedConnection = parseConnectionString(
+            this.state.connectionProfile.connectionString ?? "",
+        );
+        if (!parsedConnection) {
+            return;
+        }
+        this.state.connectionProfile = {
+            ...this.state.connectionProfile,
+            ...parsedConnection,
+            connectionString: undefined,
+        };
+        this.state.selectedInputMode = ConnectionInputMode.Parameters;
+        await this.updateItemVisibility();
+    }
+
     /** Cleans up a connection profile by clearing the properties that aren't being used
      * (e.g. due to form selections, like authType and inputMode) */
     private cleanConnection(connection: IConnectionDialogProfile) {
@@ -1637,11 +1701,19 @@ export class ConnectionDialogWebviewController extends ReactWebviewPanelControll
             ConnectionInputMode.ConnectionString
         ) {
             Object.keys(connection).forEach((key) => {
-                if (key !== "connectionString" && key !== "profileName") {
+                if (
+                    key !== "connectionString" &&
+                    key !== "profileName" &&
+                    key !== "environment"
+                ) {
                     connection[key] = undefined;
                 }
             });
         }
+
+        if (!connection.environment) {
+            connection.environment = undefined;
+        }
     }
 
     private async loadConnections(): Promise<{
@@ -6,7 +6,7 @@
 import * as Constants from "../constants/constants";
 import * as LocalizedConstants from "../constants/locConstants";
 import * as Utils from "../models/utils";
-import { IConnectionProfile } from "../models/interfaces";
+import { IConnectionGroup, IConnectionProfile } from "../models/interfaces";
 import { IConnectionConfig } from "./iconnectionconfig";
 import VscodeWrapper from "../controllers/vscodeWrapper";
 
@@ -121,6 +121,115 @@ export class ConnectionConfig implements IConnectionConfig {
         return found;
     }
 
+    /**
+     * Get all connection groups, sorted by name. Groups from the workspace settings
+     * follow the groups from the user settings.
+     */
+    public getConnectionGroups(
+        getWorkspaceGroups: boolean,
+    ): IConnectionGroup[] {
+        const compareGroupFunc = (a: IConnectionGroup, b: IConnectionGroup) =>
+            a.name.localeCompare(b.name);
+
+        let groups = this.getGroupsFromSettings().sort(compareGroupFunc);
+        if (getWorkspaceGroups) {
+            const userGroupIds = new Set(groups.map((group) => group.id));
+            groups = groups.concat(
+                this.getGroupsFromSettings(false)
+                    .filter((group) => !userGroupIds.has(group.id))
+                    .sort(compareGroupFunc),
+            );
+        }
+
+        // filter any group missing an id or a name
+        return groups.filter((group) => group.id && group.name);
+    }
+
+    /**
+     * Add a new connection group to the user settings.
+     */
+    public async addConnectionGroup(group: IConnectionGroup): Promise<void> {
+        const groups = this.getGroupsFromSettings();
+        groups.push(group);
+        return await this.writeGroupsToSettings(groups);
+    }
+
+    /**
+     * Replace the connection group with the same id in the user settings.
+     * @returns true if the group was found
+     */
+    public async updateConnectionGroup(
+        group: IConnectionGroup,
+    ): Promise<boolean> {
+        const groups = this.getGroupsFromSettings();
+        const index = groups.findIndex((value) => value.id === group.id);
+        if (index < 0) {
+            return false;
+        }
+        groups[index] = group;
+        await this.writeGroupsToSettings(groups);
+        return true;
+    }
+
+    /**
+     * Remove a connection group from the user settings. The connections and groups in it
+     * are moved to the group's parent, so no connection is removed with the group.
+     * @returns true if the group was found
+     */
+    public async removeConnectionGroup(groupId: string): Promise<boolean> {
+        const groups = this.getGroupsFromSettings();
+        const group = groups.find((value) => value.id === groupId);
+        if (!group) {
+            return false;
+        }
+
+        const profiles = this.getProfilesFromSettings();
+        if (profiles.some((profile) => profile.groupId === groupId)) {
+            await this.writeProfilesToSettings(
+                profiles.map((profile) =>
+                    profile.groupId === groupId
+                        ? this.withGroupId(profile, group.parentId)
+                        : profile,
+                ),
+            );
+        }
+
+        await this.writeGroupsToSettings(
+            groups
+                .filter((value) => value.id !== groupId)
+                .map((value) =>
+                    value.parentId === groupId
+                        ? { ...value, parentId: group.parentId }
+                        : value,
+                ),
+        );
+        return true;
+    }
+
+    /**
+     * Move a connection in the user settings to a connection group.
+     * @param groupId the id of the group, or undefined to move the connection out of all groups
+     * @returns true if the connection was found
+     */
+    public async setConnectionGroup(
+        profile: IConnectionProfile,
+        groupId: string | undefined,
+    ): Promise<boolean> {
+        let found = false;
+        const profiles = this.getProfilesFromSettings().map((value) => {
+            if (Utils.isSameProfile(value, profile)) {
+                found = true;
+                return this.withGroupId(value, groupId);
+            }
+            return value;
+        });
+
+        if (found) {
+            await this.writeProfilesToSettings(profiles);
+        }
+        return found;
+    }
+
     /**
      * Get all profiles from the settings.
      * This is public for testing only.
@@ -159,6 +268,48 @@ export class ConnectionConfig implements IConnectionConfig {
         return profiles;
     }
 
+    /**
+     * Get the connection groups from the settings.
+     * @param global When `true` groups come from user settings, otherwise from workspace settings
+     */
+    private getGroupsFromSettings(global: boolean = true): IConnectionGroup[] {
+        const configuration = this._vscodeWrapper.getConfiguration(
+            Constants.extensionName,
+            this._vscodeWrapper.activeTextEditorUri,
+        );
+        const configValue = configuration.inspect<IConnectionGroup[]>(
+            Constants.connectionGroupsArrayName,
+        );
+        const groups = global
+            ? configValue?.globalValue
+            : (configValue?.workspaceValue ?? []).concat(
+                  configValue?.workspaceFolderValue ?? [],
+              );
+        // copy the groups so the cached settings are not changed
+        return (groups ?? []).map((group) => ({ ...group }));
+    }
+
+    private withGroupId(
+        profile: IConnectionProfile,
+        groupId: string | undefined,
+    ): IConnectionProfile {
+        const updatedProfile = { ...profile, groupId: groupId };
+        if (!groupId) {
+            delete updatedProfile.groupId;
+        }
+        return updatedProfile;
+    }
+
+    private async writeGroupsToSettings(
+        groups: IConnectionGroup[],
+    ): Promise<void> {
+        await this._vscodeWrapper.setConfiguration(
+            Constants.extensionName,
+            Constants.connectionGroupsArrayName,
+            groups,
+        );
+    }
+
     /**
      * Replace existing profiles in the user settings with a new set of profiles.
      * @param profiles the set of profiles to insert into the settings file.
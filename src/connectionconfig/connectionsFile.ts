@@ -0,0 +1,237 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as LocalizedConstants from "../constants/locConstants";
+import * as Utils from "../models/utils";
+import { IConnectionGroup, IConnectionProfile } from "../models/interfaces";
+
+/**
+ * Version of the format of the connections files, increased on breaking changes
+ */
+export const connectionsFileVersion = 1;
+
+/**
+ * A file of connection profiles that can be shared with other users
+ */
+export interface ConnectionsFile {
+    version: number;
+    connections: IConnectionProfile[];
+    groups?: IConnectionGroup[];
+}
+
+/**
+ * How the imported connections that already exist are handled
+ */
+export enum ImportConflictResolution {
+    Skip = "skip",
+    Replace = "replace",
+    KeepBoth = "keepBoth",
+}
+
+export interface ConnectionImportItem {
+    profile: IConnectionProfile;
+    /**
+     * The existing connection the imported one replaces, if any
+     */
+    replaces?: IConnectionProfile;
+}
+
+export interface ConnectionsImportPlan {
+    connections: ConnectionImportItem[];
+    /**
+     * Groups that don't exist yet and have to be added
+     */
+    groups: IConnectionGroup[];
+    /**
+     * Number of imported connections that were skipped because they already exist
+     */
+    skippedCount: number;
+}
+
+/**
+ * Removes the password from an ADO.NET or ODBC connection string
+ */
+function removeConnectionStringPassword(connectionString: string): string {
+    return connectionString.replace(
+        /(^|;)\s*(password|pwd)\s*=\s*(\{(?:[^}]|\}\})*\}|[^;]*)\s*(;|$)/gi,
+        "$1",
+    );
+}
+
+/**
+ * Creates the content of a connections file, without the secrets of the connections
+ * @param profiles the connection profiles to export
+ * @param groups the connection groups to export, or undefined to leave the groups out
+ */
+export function createConnectionsFile(
+    profiles: IConnectionProfile[],
+    groups: IConnectionGroup[] | undefined,
+): ConnectionsFile {
+    const connections = profiles.map((profile) => {
+        const connection = { ...profile };
+        delete connection.password;
+        delete connection.azureAccountToken;
+        delete connection.expiresOn;
+        delete connection.emptyPasswordInput;
+        connection.savePassword = false;
+        if (connection.connectionString) {
+            connection.connectionString = removeConnectionStringPassword(
+                connection.connectionString,
+            );
+        }
+        if (!groups) {
+            delete connection.groupId;
+        }
+        return connection;
+    });
+
+    return {
+        version: connectionsFileVersion,
+        connections: connections,
+        groups: groups?.map((group) => ({ ...group })),
+    };
+}
+
+/**
+ * Reads the content of a connections file
+ * @throws an error with a localized message when the content isn't a connections file
+ */
+export function parseConnectionsFile(content: string): ConnectionsFile {
+    let file: ConnectionsFile;
+    try {
+        file = JSON.parse(content);
+    } catch {
+        throw new Error(LocalizedConstants.msgInvalidConnectionsFile);
+    }
+    if (
+        !file ||
+        typeof file !== "object" ||
+        !Array.isArray(file.connections) ||
+        (file.groups !== undefined && !Array.isArray(file.groups))
+    ) {
+        throw new Error(LocalizedConstants.msgInvalidConnectionsFile);
+    }
+    if (file.version > connectionsFileVersion) {
+        throw new Error(
+            LocalizedConstants.msgUnsupportedConnectionsFileVersion(
+                file.version,
+            ),
+        );
+    }
+    return {
+        version: file.version,
+        connections: file.connections.filter(
+            (c) => c && (c.server || c.connectionString),
+        ),
+        groups: file.groups?.filter((g) => g && g.id && g.name),
+    };
+}
+
+/**
+ * Gets the connections and groups to add when importing a connections file. Imported groups are
+ * matched to the existing groups by id, then by name and parent, so importing a file twice
+ * doesn't duplicate its groups.
+ */
+export function planConnectionsImport(
+    file: ConnectionsFile,
+    existingProfiles: IConnectionProfile[],
+    existingGroups: IConnectionGroup[],
+    resolution: ImportConflictResolution,
+): ConnectionsImportPlan {
+    // maps the ids of the imported groups to the ids they get after the import
+    const groupIds = new Map<string, string>();
+    const groups: IConnectionGroup[] = [];
+    const allGroups = [...existingGroups];
+    const importedGroups = file.groups ?? [];
+
+    const importGroup = (group: IConnectionGroup, depth: number) => {
+        if (groupIds.has(group.id)) {
+            return;
+        }
+        const parent = importedGroups.find((g) => g.id === group.parentId);
+        // imports the parents first, the depth guards against cycles in the file
+        if (parent && depth < importedGroups.length) {
+            importGroup(parent, depth + 1);
+        }
+        const parentId = group.parentId
+            ? groupIds.get(group.parentId)
+            : undefined;
+        const existing =
+            allGroups.find((g) => g.id === group.id) ??
+            allGroups.find(
+                (g) => g.name === group.name && g.parentId === parentId,
+            );
+        if (existing) {
+            groupIds.set(group.id, existing.id);
+            return;
+        }
+        const newGroup = { ...group, parentId: parentId };
+        if (!parentId) {
+            delete newGroup.parentId;
+        }
+        groups.push(newGroup);
+        allGroups.push(newGroup);
+        groupIds.set(group.id, newGroup.id);
+    };
+    importedGroups.forEach((group) => importGroup(group, 0));
+
+    const connections: ConnectionImportItem[] = [];
+    const profileNames = new Set(
+        existingProfiles.map((p) => p.profileName).filter((n) => n),
+    );
+    let skippedCount = 0;
+    for (const imported of file.connections) {
+        const profile = { ...imported };
+        const groupId = profile.groupId
+            ? groupIds.get(profile.groupId)
+            : undefined;
+        if (groupId) {
+            profile.groupId = groupId;
+        } else {
+            delete profile.groupId;
+        }
+
+        const existing = existingProfiles.find((p) =>
+            Utils.isSameProfile(p, profile),
+        );
+        if (!existing) {
+            connections.push({ profile: profile });
+        } else if (resolution === ImportConflictResolution.Replace) {
+            connections.push({ profile: profile, replaces: existing });
+        } else if (resolution === ImportConflictResolution.KeepBoth) {
+            const baseName = profile.profileName || profile.server;
+            let copy = 2;
+            while (profileNames.has(`${baseName} (${copy})`)) {
+                copy++;
+            }
+            profile.profileName = `${baseName} (${copy})`;
+            connections.push({ profile: profile });
+        } else {
+            skippedCount++;
+            continue;
+        }
+        if (profile.profileName) {
+            profileNames.add(profile.profileName);
+        }
+    }
+
+    return {
+        connections: connections,
+        groups: groups,
+        skippedCount: skippedCount,
+    };
+}
+
+/**
+ * Whether importing a connections file replaces or duplicates existing connections
+ */
+export function hasImportConflicts(
+    file: ConnectionsFile,
+    existingProfiles: IConnectionProfile[],
+): boolean {
+    return file.connections.some((imported) =>
+        existingProfiles.some((p) => Utils.isSameProfile(p, imported)),
+    );
+}
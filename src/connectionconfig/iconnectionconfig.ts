@@ -3,7 +3,7 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { IConnectionProfile } from "../models/interfaces";
+import { IConnectionGroup, IConnectionProfile } from "../models/interfaces";
 
 /**
  * Interface for a configuration file that stores connection profiles
@@ -15,4 +15,12 @@ export interface IConnectionConfig {
     addConnection(profile: IConnectionProfile): Promise<void>;
     getConnections(getWorkspaceConnections: boolean): IConnectionProfile[];
     removeConnection(profile: IConnectionProfile): Promise<boolean>;
+    getConnectionGroups(getWorkspaceGroups: boolean): IConnectionGroup[];
+    addConnectionGroup(group: IConnectionGroup): Promise<void>;
+    updateConnectionGroup(group: IConnectionGroup): Promise<boolean>;
+    removeConnectionGroup(groupId: string): Promise<boolean>;
+    setConnectionGroup(
+        profile: IConnectionProfile,
+        groupId: string | undefined,
+    ): Promise<boolean>;
 }
@@ -17,9 +17,19 @@ export const connectionApplicationName = "vscode-mssql";
 export const outputChannelName = "MSSQL";
 export const connectionConfigFilename = "settings.json";
 export const connectionsArrayName = "connections";
+export const connectionGroupsArrayName = "connectionGroups";
 export const disconnectedServerLabel = "disconnectedServer";
 export const serverLabel = "Server";
 export const folderLabel = "Folder";
+export const connectionGroupLabel = "connectionGroup";
+export const connectionGroupColors = [
+    "red",
+    "orange",
+    "yellow",
+    "green",
+    "blue",
+    "purple",
+];
 export const cmdRunQuery = "mssql.runQuery";
 export const cmdRunCurrentStatement = "mssql.runCurrentStatement";
 export const cmdCancelQuery = "mssql.cancelQuery";
@@ -40,6 +50,8 @@ export const cmdRunQueryHistory = "mssql.runQueryHistory";
 export const cmdStartQueryHistory = "mssql.startQueryHistoryCapture";
 export const cmdPauseQueryHistory = "mssql.pauseQueryHistoryCapture";
 export const cmdCommandPaletteQueryHistory = "mssql.commandPaletteQueryHistory";
+export const cmdSearchQueryHistory = "mssql.searchQueryHistory";
+export const cmdClearQueryHistorySearch = "mssql.clearQueryHistorySearch";
 export const cmdNewQuery = "mssql.newQuery";
 export const cmdManageConnectionProfiles = "mssql.manageProfiles";
 export const cmdClearPooledConnections = "mssql.clearPooledConnections";
@@ -68,12 +80,26 @@ export const cmdScriptCreate = "mssql.scriptCreate";
 export const cmdScriptDelete = "mssql.scriptDelete";
 export const cmdScriptExecute = "mssql.scriptExecute";
 export const cmdScriptAlter = "mssql.scriptAlter";
+export const cmdScriptWithOptions = "mssql.scriptWithOptions";
 export const cmdToggleSqlCmd = "mssql.toggleSqlCmd";
 export const cmdCopyObjectName = "mssql.copyObjectName";
+export const cmdAddConnectionGroup = "mssql.addConnectionGroup";
+export const cmdRenameConnectionGroup = "mssql.renameConnectionGroup";
+export const cmdRemoveConnectionGroup = "mssql.removeConnectionGroup";
+export const cmdSetConnectionGroupColor = "mssql.setConnectionGroupColor";
+export const cmdConnectAllInConnectionGroup =
+    "mssql.connectAllInConnectionGroup";
+export const cmdDisconnectAllInConnectionGroup =
+    "mssql.disconnectAllInConnectionGroup";
+export const cmdExportConnections = "mssql.exportConnections";
+export const cmdImportConnections = "mssql.importConnections";
 export const cmdFilterNode = "mssql.filterNode";
 export const cmdFilterNodeWithExistingFilters =
     "mssql.filterNodeWithExistingFilters";
 export const cmdClearFilters = "mssql.clearFilters";
+export const cmdApplyFilterPreset = "mssql.applyFilterPreset";
+export const cmdFindObject = "mssql.findObject";
+export const cmdCopyConnectionString = "mssql.copyConnectionString";
 export const cmdOpenExtension = "extension.open";
 export const cmdLoadCompletionExtension = "mssql.loadCompletionExtension";
 export const cmdAzureSignIn = "azure-account.login";
@@ -84,8 +110,16 @@ export const cmdAadAddAccount = "mssql.addAadAccount";
 export const cmdClearAzureTokenCache = "mssql.clearAzureAccountTokenCache";
 export const cmdShowExecutionPlanInResults = "mssql.showExecutionPlanInResults";
 export const cmdEnableActualPlan = "mssql.enableActualPlan";
+export const cmdCompareExecutionPlans = "mssql.compareExecutionPlans";
+export const cmdSchemaCompare = "mssql.schemaCompare";
+export const cmdImportFlatFile = "mssql.importFlatFile";
+export const cmdGenerateScripts = "mssql.generateScripts";
+export const cmdGenerateSchemaDocs = "mssql.generateSchemaDocs";
+export const cmdShowErDiagram = "mssql.showErDiagram";
+export const cmdOpenQueryBuilder = "mssql.openQueryBuilder";
 export const cmdDisableActualPlan = "mssql.disableActualPlan";
 export const cmdNewTable = "mssql.newTable";
+export const cmdNewTableFromFile = "mssql.newTableFromFile";
 export const cmdEditTable = "mssql.editTable";
 export const cmdEditConnection = "mssql.editConnection";
 export const cmdLaunchUserFeedback = "mssql.userFeedback";
@@ -165,6 +199,10 @@ export const configMyConnections = "connections";
 export const configSaveAsCsv = "saveAsCsv";
 export const configSaveAsJson = "saveAsJson";
 export const configSaveAsExcel = "saveAsExcel";
+export const configSaveAsMarkdown = "saveAsMarkdown";
+export const configSaveAsXml = "saveAsXml";
+export const configSaveAsHtml = "saveAsHtml";
+export const configSaveAsInsert = "saveAsInsert";
 export const configRecentConnections = "recentConnections";
 export const configMaxRecentConnections = "maxRecentConnections";
 export const configCopyRemoveNewLine = "copyRemoveNewLine";
@@ -186,6 +224,14 @@ export const configPersistQueryResultTabs = "persistQueryResultTabs";
 export const configQueryHistoryLimit = "queryHistoryLimit";
 export const configEnableQueryHistoryCapture = "enableQueryHistoryCapture";
 export const configEnableQueryHistoryFeature = "enableQueryHistoryFeature";
+export const configQueryHistoryStorage = "queryHistoryStorage";
+export const configPromptForQueryParameters = "promptForQueryParameters";
+export const configProductionGuardsUpdateDeleteWithoutWhere =
+    "productionGuards.confirmUpdateDeleteWithoutWhere";
+export const configProductionGuardsDrop = "productionGuards.confirmDrop";
+export const configProductionGuardsTruncate =
+    "productionGuards.confirmTruncate";
+export const configScripting = "scripting";
 export const configEnableExperimentalFeatures =
     "mssql.enableExperimentalFeatures";
 export const configEnableRichExperiences = "mssql.enableRichExperiences";
@@ -324,6 +324,52 @@ export let msgPromptProfileUpdateFailed = l10n.t(
 export let msgUnableToExpand = l10n.t(
     "Unable to expand. Please check logs for more information.",
 );
+export let selectFilterPreset = l10n.t("Select a filter preset to apply");
+export let msgNoFilterPresets = l10n.t(
+    "There are no filter presets for this type of node. Save the filters of a node as a preset in the filter settings first.",
+);
+export let findObjectPlaceholder = l10n.t(
+    "Search tables, views, procedures, functions and columns by name",
+);
+export let findObjectDatabasePlaceholder = l10n.t(
+    "Select the database to search",
+);
+export function findObjectTitle(databaseName: string) {
+    return l10n.t({
+        message: "Find Object in {0}",
+        args: [databaseName],
+        comment: ["{0} is the database name"],
+    });
+}
+export function msgObjectNotFoundInObjectExplorer(objectName: string) {
+    return l10n.t({
+        message:
+            "{0} could not be found in Object Explorer. It may be hidden by a filter.",
+        args: [objectName],
+        comment: ["{0} is the object name"],
+    });
+}
+export let msgChooseConnectionStringFormat = l10n.t(
+    "Choose the format of the connection string",
+);
+export function msgConnectionStringCopied(format: string) {
+    return l10n.t({
+        message:
+            "{0} connection string copied to clipboard. The password was replaced with a placeholder.",
+        args: [format],
+        comment: ["{0} is the format of the connection string, such as JDBC"],
+    });
+}
+export let msgFindObjectNoConnection = l10n.t(
+    "Select a connected server or database in Object Explorer to find objects in.",
+);
+export let databaseObjectTypeNames: { [type: string]: string } = {
+    Table: l10n.t("Table"),
+    View: l10n.t("View"),
+    StoredProcedure: l10n.t("Stored Procedure"),
+    Function: l10n.t("Function"),
+    Column: l10n.t("Column"),
+};
 export let msgPromptFirewallRuleCreated = l10n.t(
     "Firewall rule successfully created.",
 );
@@ -338,6 +384,107 @@ export let msgRunQueryHistory = l10n.t("Run Query History");
 export let msgInvalidIpAddress = l10n.t("Invalid IP Address");
 export let msgInvalidRuleName = l10n.t("Invalid Firewall rule name");
 export let msgNoQueriesAvailable = l10n.t("No Queries Available");
+export let msgSearchQueryHistoryText = l10n.t(
+    "Search query text (leave empty to match any query)",
+);
+export let msgSearchQueryHistoryServer = l10n.t(
+    "Filter by server (leave empty to match any server)",
+);
+export let msgSearchQueryHistoryDatabase = l10n.t(
+    "Filter by database (leave empty to match any database)",
+);
+export let msgSearchQueryHistoryFrom = l10n.t(
+    "Show queries run on or after this date (YYYY-MM-DD, optional)",
+);
+export let msgSearchQueryHistoryTo = l10n.t(
+    "Show queries run on or before this date (YYYY-MM-DD, optional)",
+);
+export let msgInvalidQueryHistoryDate = l10n.t(
+    "Please enter a valid date in the format YYYY-MM-DD",
+);
+export let msgNoMatchingQueryHistory = l10n.t(
+    "No query history entries match the search criteria",
+);
+export function queryHistoryEntryDetails(rowCount: number, durationMs: number) {
+    return l10n.t({
+        message: "{0} rows, {1} ms",
+        args: [rowCount, durationMs],
+        comment: ["{0} is the number of rows", "{1} is the duration in ms"],
+    });
+}
+export function queryHistorySearchMessage(filterDescription: string) {
+    return l10n.t({
+        message: "Filtered by: {0}",
+        args: [filterDescription],
+        comment: ["{0} is the description of the active search filter"],
+    });
+}
+export function msgEnterSqlCmdVariableValue(variableName: string) {
+    return l10n.t({
+        message: "Enter a value for the SQLCMD variable {0}",
+        args: [variableName],
+        comment: [
+            "{0} is the SQLCMD variable reference, such as $(DatabaseName)",
+        ],
+    });
+}
+export function msgEnterQueryParameterValue(parameterName: string) {
+    return l10n.t({
+        message:
+            "Enter a value for {0}. Text is quoted unless it is a number, NULL or already quoted",
+        args: [parameterName],
+        comment: ["{0} is the variable name, such as @CustomerId"],
+    });
+}
+export let msgResultSetNotEditable = l10n.t(
+    "These results cannot be edited. Only results from a single table that include its key columns can be edited.",
+);
+export let msgResultSetKeyIncomplete = l10n.t(
+    "These results cannot be edited because they do not include all the columns of the primary key or of a unique index of the table.",
+);
+export function msgResultEditsCommitted(count: number) {
+    return l10n.t({
+        message:
+            "Committed {0} row change(s). Run the query again to make more changes to the results.",
+        args: [count],
+        comment: ["{0} is the number of changed rows"],
+    });
+}
+export function msgCommitResultEditsFailed(errorMessage: string) {
+    return l10n.t({
+        message: "Failed to commit changes, no rows were changed: {0}",
+        args: [errorMessage],
+        comment: ["{0} is the error message"],
+    });
+}
+export function msgConfirmProductionQuery(
+    serverName: string,
+    statements: string,
+) {
+    return l10n.t({
+        message:
+            'You are connected to the production server "{0}" and the query contains: {1}. Are you sure you want to run it?',
+        args: [serverName, statements],
+        comment: [
+            "{0} is the server name",
+            "{1} is a list of statements, such as UPDATE without WHERE, DROP",
+        ],
+    });
+}
+export let runQueryAnyway = l10n.t("Run Query");
+export let updateWithoutWhere = l10n.t("UPDATE without WHERE");
+export let deleteWithoutWhere = l10n.t("DELETE without WHERE");
+export let environmentDevelopment = l10n.t("Development");
+export let environmentTest = l10n.t("Test");
+export let environmentProduction = l10n.t("Production");
+export let environmentNone = l10n.t("None");
+export function connectionEnvironmentTooltip(environment: string) {
+    return l10n.t({
+        message: "Environment: {0}",
+        args: [environment],
+        comment: ["{0} is the environment, such as Production"],
+    });
+}
 export let retryLabel = l10n.t("Retry");
 export let createFirewallRuleLabel = l10n.t("Create Firewall Rule");
 export function msgConnecting(serverName: string, documentName: string) {
@@ -526,6 +673,13 @@ export let saveExcelLabel = l10n.t("Save as Excel");
 export let fileTypeCSVLabel = l10n.t("CSV");
 export let fileTypeJSONLabel = l10n.t("JSON");
 export let fileTypeExcelLabel = l10n.t("Excel");
+export let fileTypeMarkdownLabel = l10n.t("Markdown");
+export let fileTypeXMLLabel = l10n.t("XML");
+export let fileTypeHTMLLabel = l10n.t("HTML");
+export let fileTypeSQLLabel = l10n.t("SQL");
+export let msgResultSetNotAvailable = l10n.t(
+    "The result set is no longer available. Please run the query again.",
+);
 export let resultPaneLabel = l10n.t("Results");
 export let selectAll = l10n.t("Select all");
 export let copyLabel = l10n.t("Copy");
@@ -563,6 +717,97 @@ export let flavorDescriptionNone = l10n.t(
 );
 export let msgAddConnection = l10n.t("Add Connection");
 export let msgConnect = l10n.t("Connect");
+export let connectionGroupNamePrompt = l10n.t("Connection group name");
+export let connectionGroupNamePlaceholder = l10n.t(
+    "Enter a name for the connection group",
+);
+export let connectionGroupNameRequired = l10n.t(
+    "Connection group name is required",
+);
+export let connectionGroupColorPlaceholder = l10n.t(
+    "Choose a color for the connection group",
+);
+export let connectionGroupNoColor = l10n.t("No color");
+export let connectionGroupColorRed = l10n.t("Red");
+export let connectionGroupColorOrange = l10n.t("Orange");
+export let connectionGroupColorYellow = l10n.t("Yellow");
+export let connectionGroupColorGreen = l10n.t("Green");
+export let connectionGroupColorBlue = l10n.t("Blue");
+export let connectionGroupColorPurple = l10n.t("Purple");
+export let removeConnectionGroupAction = l10n.t("Remove Group");
+export function removeConnectionGroupConfirmation(groupName: string) {
+    return l10n.t({
+        message:
+            'Are you sure you want to remove the connection group "{0}"? Its connections and groups will be moved to the parent group.',
+        args: [groupName],
+        comment: ["{0} is the name of the connection group"],
+    });
+}
+export let msgCannotMoveConnectionGroupIntoItself = l10n.t(
+    "A connection group cannot be moved into itself or one of its subgroups.",
+);
+export let connectionsFileFilter = l10n.t("Connections");
+export let msgNoConnectionsToExport = l10n.t(
+    "There are no saved connections to export.",
+);
+export let includeConnectionGroupsPrompt = l10n.t(
+    "Include the connection groups in the exported file?",
+);
+export let includeConnectionGroups = l10n.t("Include Groups");
+export let excludeConnectionGroups = l10n.t("Connections Only");
+export function msgConnectionsExported(count: number, fileName: string) {
+    return l10n.t({
+        message:
+            "Exported {0} connection(s) to {1}. Passwords and tokens are not included.",
+        args: [count, fileName],
+        comment: [
+            "{0} is the number of connections",
+            "{1} is the name of the file",
+        ],
+    });
+}
+export let msgInvalidConnectionsFile = l10n.t(
+    "The file is not a valid connections file.",
+);
+export function msgUnsupportedConnectionsFileVersion(version: number) {
+    return l10n.t({
+        message:
+            "The connections file has version {0}, which is not supported by this version of the extension.",
+        args: [version],
+        comment: ["{0} is the version of the connections file"],
+    });
+}
+export let msgNoConnectionsToImport = l10n.t(
+    "The file does not contain any new connections to import.",
+);
+export let importConflictPlaceholder = l10n.t(
+    "Some connections in the file already exist. How should they be imported?",
+);
+export let importConflictSkip = l10n.t("Skip Existing Connections");
+export let importConflictReplace = l10n.t("Replace Existing Connections");
+export let importConflictKeepBoth = l10n.t("Import as Copies");
+export let importConnectionsPreviewPlaceholder = l10n.t(
+    "Select the connections to import",
+);
+export let importConnectionReplaces = l10n.t("Replaces existing connection");
+export let importConnectionNew = l10n.t("New connection");
+export function importConnectionGroupDetail(groupName: string) {
+    return l10n.t({
+        message: "Group: {0}",
+        args: [groupName],
+        comment: ["{0} is the name of the connection group"],
+    });
+}
+export function msgConnectionsImported(count: number, groupCount: number) {
+    return l10n.t({
+        message: "Imported {0} connection(s) and {1} connection group(s).",
+        args: [count, groupCount],
+        comment: [
+            "{0} is the number of connections",
+            "{1} is the number of connection groups",
+        ],
+    });
+}
 export let azureSignIn = l10n.t("Azure: Sign In");
 export let azureSignInDescription = l10n.t(
     "Sign in to your Azure subscription",
@@ -655,8 +900,326 @@ export let parameters = l10n.t("Parameters");
 export let loading = l10n.t("Loading");
 export let executionPlan = l10n.t("Execution Plan");
 export let executionPlanFileFilter = l10n.t("SQL Plan Files");
+export let svgFileFilter = l10n.t("SVG Images");
+export let pngFileFilter = l10n.t("PNG Images");
+export let htmlFileFilter = l10n.t("HTML Files");
+export let compareLastTwoExecutionPlans = l10n.t(
+    "Compare the last two plans of the current editor",
+);
+export let compareExecutionPlanFiles = l10n.t(
+    "Compare execution plan files...",
+);
+export let msgChooseExecutionPlansToCompare = l10n.t(
+    "Choose the execution plans to compare",
+);
+export let selectFirstExecutionPlan = l10n.t("Select the first execution plan");
+export let selectSecondExecutionPlan = l10n.t(
+    "Select the second execution plan",
+);
+export let previousExecutionPlan = l10n.t("Previous plan");
+export let latestExecutionPlan = l10n.t("Latest plan");
+export function compareExecutionPlansTitle(
+    firstPlan: string,
+    secondPlan: string,
+) {
+    return l10n.t({
+        message: "{0} vs. {1}",
+        args: [firstPlan, secondPlan],
+        comment: ["{0} is the first plan name", "{1} is the second plan name"],
+    });
+}
+export let schemaCompareTitle = l10n.t("Schema Compare");
+export let selectSchemaCompareSource = l10n.t("Select the source to compare");
+export let selectSchemaCompareTarget = l10n.t(
+    "Select the target to compare with",
+);
+export let schemaCompareDatabase = l10n.t("Database");
+export let schemaCompareDacpac = l10n.t("Data-tier Application (.dacpac)");
+export let schemaCompareProject = l10n.t("SQL Database Project");
+export let schemaCompareDatabasePlaceholder = l10n.t(
+    "Select the database to compare",
+);
+export let dacpacFileFilter = l10n.t("Data-tier Application Files");
+export let sqlProjectFileFilter = l10n.t("SQL Database Projects");
+export let schemaCompareApply = l10n.t("Apply");
+export function msgSchemaCompareApplyConfirmation(targetName: string) {
+    return l10n.t({
+        message:
+            "Are you sure you want to apply the included changes to {0}? The changes cannot be undone.",
+        args: [targetName],
+        comment: ["{0} is the target database or project name"],
+    });
+}
+export function msgSchemaCompareChangesApplied(targetName: string) {
+    return l10n.t({
+        message: "The changes were applied to {0}",
+        args: [targetName],
+        comment: ["{0} is the target database or project name"],
+    });
+}
+export function msgSchemaCompareBlockingDependencies(objectNames: string) {
+    return l10n.t({
+        message:
+            "The difference cannot be included or excluded because of these dependencies: {0}",
+        args: [objectNames],
+        comment: ["{0} is a comma separated list of object names"],
+    });
+}
 export let scriptCopiedToClipboard = l10n.t("Script copied to clipboard");
 export let copied = l10n.t("Copied");
+export let tableDataFileFilter = l10n.t("CSV and JSON Files");
+export let msgTableFileEmpty = l10n.t(
+    "The file does not contain any columns to create a table from.",
+);
+export let msgInvalidTableJsonFile = l10n.t(
+    "The JSON file must contain an array of objects.",
+);
+export function msgPopulateTableFromFileFailed(error: string) {
+    return l10n.t({
+        message: "Unable to add the columns of the file to the table: {0}",
+        args: [error],
+        comment: ["{0} is the error message"],
+    });
+}
+export function msgInsertFileRows(rowCount: number, tableName: string) {
+    return l10n.t({
+        message: "Insert the {0} row(s) of the file into {1}?",
+        args: [rowCount, tableName],
+        comment: ["{0} is the number of rows", "{1} is the name of the table"],
+    });
+}
+export let insertRows = l10n.t("Insert Rows");
+export function flatFileImportTitle(databaseName: string) {
+    return l10n.t({
+        message: "Import Data - {0}",
+        args: [databaseName],
+        comment: ["{0} is the database name"],
+    });
+}
+export function msgFlatFileImportConnectionFailed(databaseName: string) {
+    return l10n.t({
+        message: "Unable to connect to the database {0}.",
+        args: [databaseName],
+        comment: ["{0} is the database name"],
+    });
+}
+export let msgFlatFileValueRequired = l10n.t(
+    "The column does not allow NULL values.",
+);
+export function msgFlatFileInvalidValue(value: string, dataType: string) {
+    return l10n.t({
+        message: "'{0}' is not a valid {1} value.",
+        args: [value, dataType],
+        comment: ["{0} is the value", "{1} is the data type of the column"],
+    });
+}
+export function msgFlatFileValueOutOfRange(value: string, dataType: string) {
+    return l10n.t({
+        message: "'{0}' is out of the range of {1}.",
+        args: [value, dataType],
+        comment: ["{0} is the value", "{1} is the data type of the column"],
+    });
+}
+export function msgFlatFileValueTooLong(maxLength: number) {
+    return l10n.t({
+        message: "The value is longer than {0} characters.",
+        args: [maxLength],
+        comment: ["{0} is the maximum length of the column"],
+    });
+}
+export function importFlatFileTaskName(fileName: string, tableName: string) {
+    return l10n.t({
+        message: "Import {0} into {1}",
+        args: [fileName, tableName],
+        comment: ["{0} is the file name", "{1} is the table name"],
+    });
+}
+export function msgFlatFileImportProgress(
+    importedRowCount: number,
+    rowCount: number,
+) {
+    return l10n.t({
+        message: "{0} of {1} row(s) inserted",
+        args: [importedRowCount, rowCount],
+        comment: [
+            "{0} is the number of inserted rows",
+            "{1} is the number of rows of the file",
+        ],
+    });
+}
+export function msgFlatFileImportFailed(
+    importedRowCount: number,
+    error: string,
+) {
+    return l10n.t({
+        message: "{0} row(s) were inserted before the import failed: {1}",
+        args: [importedRowCount, error],
+        comment: [
+            "{0} is the number of inserted rows",
+            "{1} is the error message",
+        ],
+    });
+}
+export function generateScriptsTitle(databaseName: string) {
+    return l10n.t({
+        message: "Generate Scripts - {0}",
+        args: [databaseName],
+        comment: ["{0} is the database name"],
+    });
+}
+export function msgGenerateScriptsConnectionFailed(databaseName: string) {
+    return l10n.t({
+        message: "Unable to connect to the database {0}.",
+        args: [databaseName],
+        comment: ["{0} is the database name"],
+    });
+}
+export let sqlScriptFileFilter = l10n.t("SQL Files");
+export let selectScriptsFolder = l10n.t("Select Folder");
+export let msgGenerateScriptsFailed = l10n.t("Generating the scripts failed.");
+export function scriptWithOptionsPlaceholder(objectName: string) {
+    return l10n.t({
+        message: "Select the options to script {0} with",
+        args: [objectName],
+        comment: ["{0} is the name of the object"],
+    });
+}
+export let scriptingIncludePermissions = l10n.t("Include permissions");
+export let scriptingIncludeCollation = l10n.t("Include collation");
+export let scriptingIncludeIfNotExists = l10n.t(
+    "Check whether the object exists",
+);
+export let scriptingIncludeExtendedProperties = l10n.t(
+    "Include extended properties",
+);
+export let scriptingCreateOrAlter = l10n.t("Use CREATE OR ALTER");
+export let scriptingIncludeStatistics = l10n.t("Include statistics");
+export let scriptingTargetVersionPlaceholder = l10n.t(
+    "Select the version of SQL Server the script is compatible with",
+);
+export let scriptingMatchServerVersion = l10n.t("Match the server version");
+export let scriptingCurrentSetting = l10n.t("Current setting");
+export function sqlServerVersion(version: string) {
+    return l10n.t({
+        message: "SQL Server {0}",
+        args: [version],
+        comment: ["{0} is the version, such as 2019"],
+    });
+}
+export let schemaDocsFormatPlaceholder = l10n.t(
+    "Select the format of the documentation",
+);
+export function schemaDocsTitle(databaseName: string) {
+    return l10n.t({
+        message: "{0} Schema Documentation",
+        args: [databaseName],
+        comment: ["{0} is the database name"],
+    });
+}
+export function schemaDocsProgressTitle(databaseName: string) {
+    return l10n.t({
+        message: "Generating the documentation of {0}",
+        args: [databaseName],
+        comment: ["{0} is the database name"],
+    });
+}
+export function msgSchemaDocsConnectionFailed(databaseName: string) {
+    return l10n.t({
+        message: "Unable to connect to the database {0}.",
+        args: [databaseName],
+        comment: ["{0} is the database name"],
+    });
+}
+export function msgSchemaDocsFailed(error: string) {
+    return l10n.t({
+        message: "Generating the documentation failed: {0}",
+        args: [error],
+        comment: ["{0} is the error message"],
+    });
+}
+export function msgSchemaDocsGenerated(fileName: string) {
+    return l10n.t({
+        message: "The documentation was saved to {0}.",
+        args: [fileName],
+        comment: ["{0} is the name of the file"],
+    });
+}
+export let openSchemaDocs = l10n.t("Open Documentation");
+export let schemaDocsLabels = {
+    contents: l10n.t("Contents"),
+    tables: l10n.t("Tables"),
+    views: l10n.t("Views"),
+    storedProcedures: l10n.t("Stored Procedures"),
+    functions: l10n.t("Functions"),
+    columns: l10n.t("Columns"),
+    indexes: l10n.t("Indexes"),
+    foreignKeys: l10n.t("Foreign Keys"),
+    referencedBy: l10n.t("Referenced By"),
+    parameters: l10n.t("Parameters"),
+    definition: l10n.t("Definition"),
+    returns: l10n.t("Returns"),
+    name: l10n.t("Name"),
+    type: l10n.t("Type"),
+    nullable: l10n.t("Nullable"),
+    key: l10n.t("Key"),
+    identity: l10n.t("Identity"),
+    defaultValue: l10n.t("Default"),
+    description: l10n.t("Description"),
+    unique: l10n.t("Unique"),
+    includedColumns: l10n.t("Included Columns"),
+    references: l10n.t("References"),
+    onDelete: l10n.t("On Delete"),
+    onUpdate: l10n.t("On Update"),
+    table: l10n.t("Table"),
+    foreignKey: l10n.t("Foreign Key"),
+    output: l10n.t("Output"),
+};
+export function erDiagramTitle(databaseName: string) {
+    return l10n.t({
+        message: "ER Diagram - {0}",
+        args: [databaseName],
+        comment: ["{0} is the database name"],
+    });
+}
+export function msgErDiagramConnectionFailed(databaseName: string) {
+    return l10n.t({
+        message: "Unable to connect to the database {0}.",
+        args: [databaseName],
+        comment: ["{0} is the database name"],
+    });
+}
+export function queryBuilderTitle(databaseName: string) {
+    return l10n.t({
+        message: "Query Builder - {0}",
+        args: [databaseName],
+        comment: ["{0} is the database name"],
+    });
+}
+export function msgQueryBuilderConnectionFailed(databaseName: string) {
+    return l10n.t({
+        message: "Unable to connect to the database {0}.",
+        args: [databaseName],
+        comment: ["{0} is the database name"],
+    });
+}
+export function msgQueryBuilderOtherDatabase(
+    objectName: string,
+    databaseName: string,
+) {
+    return l10n.t({
+        message:
+            "{0} can't be added to the query because it isn't in the database {1}.",
+        args: [objectName, databaseName],
+        comment: ["{0} is the object name", "{1} is the database name"],
+    });
+}
+export let newQueryPlaceholder = l10n.t("Choose how to write the new query");
+export let newQueryInEditor = l10n.t("Query Editor");
+export let newQueryInEditorDetail = l10n.t("Write the query in a new editor");
+export let newQueryWithQueryBuilder = l10n.t("Query Builder");
+export let newQueryWithQueryBuilderDetail = l10n.t(
+    "Build the query from the tables and views of a database",
+);
 
 export let openQueryResultsInTabByDefaultPrompt = l10n.t(
     "Do you want to always display query results in a new tab instead of the query pane?",
@@ -684,9 +1247,16 @@ export class ConnectionDialog {
     public static selectATenant = l10n.t("Select a tenant");
     public static tenantIdIsRequired = l10n.t("Tenant ID is required");
     public static profileName = l10n.t("Profile Name");
+    public static environment = l10n.t("Environment");
+    public static environmentTooltip = l10n.t(
+        "Production connections are highlighted in the status bar and ask for confirmation before running destructive queries",
+    );
     public static serverIsRequired = l10n.t("Server is required");
     public static usernameIsRequired = l10n.t("User name is required");
     public static connectionString = l10n.t("Connection String");
+    public static connectionStringTooltip = l10n.t(
+        "ADO.NET, JDBC, ODBC and URI (sqlserver://) connection strings are supported",
+    );
     public static connectionStringIsRequired = l10n.t(
         "Connection string is required",
     );
@@ -727,6 +1297,14 @@ export class ConnectionDialog {
         });
     };
 
+    public static invalidConnectionString = (error: string) => {
+        return l10n.t({
+            message: "The connection string could not be read: {0}",
+            args: [error],
+            comment: ["{0} is the error message"],
+        });
+    };
+
     public static errorCreatingFirewallRule = (
         ruleInfo: string,
         error: string,
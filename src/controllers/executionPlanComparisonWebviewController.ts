@@ -0,0 +1,172 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as ep from "../reactviews/pages/ExecutionPlan/executionPlanInterfaces";
+import * as vscode from "vscode";
+import * as LocalizedConstants from "../constants/locConstants";
+import { ApiStatus } from "../sharedInterfaces/webview";
+import { ReactWebviewPanelController } from "./reactWebviewPanelController";
+import {
+    ExecutionPlanComparisonReducers,
+    ExecutionPlanComparisonWebviewState,
+} from "../sharedInterfaces/executionPlanComparison";
+import { ExecutionPlanService } from "../services/executionPlanService";
+import {
+    getMatchingRegions,
+    getOperatorCostDeltas,
+} from "./sharedExecutionPlanUtils";
+import { getErrorMessage } from "../utils/utils";
+import { sqlPlanLanguageId } from "../constants/constants";
+import { sendActionEvent } from "../telemetry/telemetry";
+import {
+    TelemetryActions,
+    TelemetryViews,
+} from "../sharedInterfaces/telemetry";
+
+/**
+ * An execution plan to compare along with the name it is displayed with
+ */
+export interface ExecutionPlanComparisonInput {
+    title: string;
+    xml: string;
+}
+
+export class ExecutionPlanComparisonWebviewController extends ReactWebviewPanelController<
+    ExecutionPlanComparisonWebviewState,
+    ExecutionPlanComparisonReducers
+> {
+    constructor(
+        context: vscode.ExtensionContext,
+        public executionPlanService: ExecutionPlanService, // public for testing purposes
+        firstPlan: ExecutionPlanComparisonInput,
+        secondPlan: ExecutionPlanComparisonInput,
+    ) {
+        super(
+            context,
+            "executionPlanComparison",
+            {
+                loadState: ApiStatus.Loading,
+                firstPlan: {
+                    title: firstPlan.title,
+                    xml: firstPlan.xml,
+                    matchingRegions: [],
+                },
+                secondPlan: {
+                    title: secondPlan.title,
+                    xml: secondPlan.xml,
+                    matchingRegions: [],
+                },
+                operatorDeltas: [],
+                highlightMatchingRegions: true,
+            },
+            {
+                title: LocalizedConstants.compareExecutionPlansTitle(
+                    firstPlan.title,
+                    secondPlan.title,
+                ),
+                viewColumn: vscode.ViewColumn.Active,
+                iconPath: {
+                    dark: vscode.Uri.joinPath(
+                        context.extensionUri,
+                        "media",
+                        "executionPlan_dark.svg",
+                    ),
+                    light: vscode.Uri.joinPath(
+                        context.extensionUri,
+                        "media",
+                        "executionPlan_light.svg",
+                    ),
+                },
+            },
+        );
+        this.registerRpcHandlers();
+    }
+
+    private registerRpcHandlers() {
+        this.registerReducer("compareExecutionPlans", async (state) => {
+            return this.compareExecutionPlans(state);
+        });
+        this.registerReducer("swapPlans", async (state) => {
+            return this.compareExecutionPlans({
+                ...state,
+                firstPlan: state.secondPlan,
+                secondPlan: state.firstPlan,
+            });
+        });
+        this.registerReducer("toggleMatchingRegions", async (state) => {
+            return {
+                ...state,
+                highlightMatchingRegions: !state.highlightMatchingRegions,
+            };
+        });
+    }
+
+    private async compareExecutionPlans(
+        state: ExecutionPlanComparisonWebviewState,
+    ): Promise<ExecutionPlanComparisonWebviewState> {
+        const startTime = performance.now(); // timer for telemetry
+        const firstPlanFile = this.getPlanFile(state.firstPlan.xml);
+        const secondPlanFile = this.getPlanFile(state.secondPlan.xml);
+        try {
+            const [firstGraphs, secondGraphs, comparison] = await Promise.all([
+                this.executionPlanService.getExecutionPlan(firstPlanFile),
+                this.executionPlanService.getExecutionPlan(secondPlanFile),
+                this.executionPlanService.compareExecutionPlanGraph(
+                    firstPlanFile,
+                    secondPlanFile,
+                ),
+            ]);
+            sendActionEvent(
+                TelemetryViews.ExecutionPlan,
+                TelemetryActions.CompareExecutionPlans,
+                {},
+                {
+                    loadTimeInMs: performance.now() - startTime,
+                },
+            );
+
+            return {
+                ...state,
+                loadState: ApiStatus.Loaded,
+                errorMessage: undefined,
+                firstPlan: {
+                    ...state.firstPlan,
+                    graph: firstGraphs.graphs[0],
+                    matchingRegions: getMatchingRegions(
+                        comparison.firstComparisonResult,
+                    ),
+                },
+                secondPlan: {
+                    ...state.secondPlan,
+                    graph: secondGraphs.graphs[0],
+                    matchingRegions: getMatchingRegions(
+                        comparison.secondComparisonResult,
+                    ),
+                },
+                operatorDeltas: getOperatorCostDeltas(
+                    comparison.firstComparisonResult,
+                    comparison.secondComparisonResult,
+                ),
+            };
+        } catch (e) {
+            return {
+                ...state,
+                loadState: ApiStatus.Error,
+                errorMessage: getErrorMessage(e),
+            };
+        }
+    }
+
+    /**
+     * Only the first statement of each plan is compared
+     */
+    private getPlanFile(xml: string): ep.ExecutionPlanGraphInfo {
+        return {
+            graphFileContent: xml,
+            graphFileType: `.${sqlPlanLanguageId}`,
+            planIndexInFile: 0,
+        };
+    }
+}
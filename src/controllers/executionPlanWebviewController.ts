@@ -10,6 +10,7 @@ import { ReactWebviewPanelController } from "./reactWebviewPanelController";
 import UntitledSqlDocumentService from "../controllers/untitledSqlDocumentService";
 import {
     createExecutionPlanGraphs,
+    exportExecutionPlan,
     saveExecutionPlan,
     showPlanXml,
     showQuery,
@@ -94,5 +95,8 @@ export class ExecutionPlanWebviewController extends ReactWebviewPanelController<
         this.registerReducer("updateTotalCost", async (state, payload) => {
             return updateTotalCost(state, payload);
         });
+        this.registerReducer("exportExecutionPlan", async (state, payload) => {
+            return exportExecutionPlan(state, payload);
+        });
     }
 }
@@ -5,8 +5,10 @@
 
 import * as events from "events";
 import * as fs from "fs";
+import * as os from "os";
 import * as path from "path";
 import * as vscode from "vscode";
+import * as vscodeMssql from "vscode-mssql";
 import { IConnectionInfo } from "vscode-mssql";
 import { AzureResourceController } from "../azure/azureResourceController";
 import * as Constants from "../constants/constants";
@@ -31,7 +33,16 @@ import { IPrompter } from "../prompts/question";
 import { Deferred } from "../protocol";
 import { QueryHistoryNode } from "../queryHistory/queryHistoryNode";
 import { QueryHistoryProvider } from "../queryHistory/queryHistoryProvider";
+import { QueryHistoryStore } from "../queryHistory/queryHistoryStore";
+import { QueryParameterUI } from "../views/queryParameterUI";
 import { ScriptingService } from "../scripting/scriptingService";
+import {
+    ScriptingSettings,
+    ScriptingSwitch,
+    matchServerCompatibility,
+    scriptCompatibilityVersions,
+} from "../scripting/scriptingSettings";
+import { ScriptCompatibilityOption } from "../sharedInterfaces/generateScripts";
 import { AzureAccountService } from "../services/azureAccountService";
 import { AzureResourceService } from "../services/azureResourceService";
 import { DacFxService } from "../services/dacFxService";
@@ -39,6 +50,7 @@ import { SqlProjectsService } from "../services/sqlProjectsService";
 import { SchemaCompareService } from "../services/schemaCompareService";
 import { SqlTasksService } from "../services/sqlTasksService";
 import StatusView from "../views/statusView";
+import { QueryHistoryUI } from "../views/queryHistoryUI";
 import { IConnectionProfile, ISelectionData } from "./../models/interfaces";
 import ConnectionManager from "./connectionManager";
 import UntitledSqlDocumentService from "./untitledSqlDocumentService";
@@ -50,16 +62,44 @@ import {
 } from "../sharedInterfaces/telemetry";
 import { TableDesignerService } from "../services/tableDesignerService";
 import { TableDesignerWebviewController } from "../tableDesigner/tableDesignerWebviewController";
+import { SchemaCompareWebviewController } from "../schemaCompare/schemaCompareWebviewController";
+import { FlatFileImportWebviewController } from "../flatFileImport/flatFileImportWebviewController";
+import { GenerateScriptsWebviewController } from "../generateScripts/generateScriptsWebviewController";
+import { ErDiagramWebviewController } from "../erDiagram/erDiagramWebviewController";
+import { QueryBuilderWebviewController } from "../queryBuilder/queryBuilderWebviewController";
 import { ConnectionDialogWebviewController } from "../connectionconfig/connectionDialogWebviewController";
 import { ObjectExplorerFilter } from "../objectExplorer/objectExplorerFilter";
+import { ObjectExplorerFilterStore } from "../objectExplorer/objectExplorerFilterStore";
 import { ExecutionPlanService } from "../services/executionPlanService";
 import { ExecutionPlanWebviewController } from "./executionPlanWebviewController";
+import {
+    ExecutionPlanComparisonInput,
+    ExecutionPlanComparisonWebviewController,
+} from "./executionPlanComparisonWebviewController";
 import { QueryResultWebviewController } from "../queryResult/queryResultWebViewController";
 import { MssqlProtocolHandler } from "../mssqlProtocolHandler";
 import { getErrorMessage, isIConnectionInfo } from "../utils/utils";
 import { getStandardNPSQuestions, UserSurvey } from "../nps/userSurvey";
 import { ExecutionPlanOptions } from "../models/contracts/queryExecute";
 import { ObjectExplorerDragAndDropController } from "../objectExplorer/objectExplorerDragAndDropController";
+import { ConnectionGroupNode } from "../objectExplorer/connectionGroupNode";
+import { ObjectExplorerSearch } from "../objectExplorer/objectExplorerSearch";
+import { SchemaDocsGenerator } from "../schemaDocs/schemaDocsGenerator";
+import {
+    ConnectionStringFormat,
+    buildConnectionString,
+    exportFormats,
+} from "../models/connectionStringFormats";
+import { TableFileData, readTableFile } from "../tableDesigner/tableFromFile";
+import {
+    ConnectionImportItem,
+    ConnectionsFile,
+    ImportConflictResolution,
+    createConnectionsFile,
+    hasImportConflicts,
+    parseConnectionsFile,
+    planConnectionsImport,
+} from "../connectionconfig/connectionsFile";
 
 /**
  * The main controller class that initializes the extension
@@ -72,6 +112,7 @@ export default class MainController implements vscode.Disposable {
     private _statusview: StatusView;
     private _connectionMgr: ConnectionManager;
     private _prompter: IPrompter;
+    private _queryParameterUI: QueryParameterUI;
     private _vscodeWrapper: VscodeWrapper;
     private _initialized: boolean = false;
     private _lastSavedUri: string | undefined;
@@ -80,6 +121,7 @@ export default class MainController implements vscode.Disposable {
     private _lastOpenedTimer: Utils.Timer | undefined;
     private _untitledSqlDocumentService: UntitledSqlDocumentService;
     private _objectExplorerProvider: ObjectExplorerProvider;
+    private _objectExplorerFilterStore: ObjectExplorerFilterStore;
     private _queryHistoryProvider: QueryHistoryProvider;
     private _scriptingService: ScriptingService;
     private _queryHistoryRegistered: boolean = false;
@@ -169,6 +211,12 @@ export default class MainController implements vscode.Disposable {
         return this.configuration.get(Constants.configEnableRichExperiences);
     }
 
+    private get isQueryParameterPromptEnabled(): boolean {
+        return this._vscodeWrapper
+            .getConfiguration(Constants.extensionConfigSectionName)
+            .get<boolean>(Constants.configPromptForQueryParameters, true);
+    }
+
     /**
      * Initializes the extension
      */
@@ -233,7 +281,7 @@ export default class MainController implements vscode.Disposable {
             });
             this.registerCommand(Constants.cmdNewQuery);
             this._event.on(Constants.cmdNewQuery, () =>
-                this.runAndLogErrors(this.onNewQuery()),
+                this.runAndLogErrors(this.onNewQueryCommand()),
             );
             this.registerCommand(Constants.cmdRebuildIntelliSenseCache);
             this._event.on(Constants.cmdRebuildIntelliSenseCache, () => {
@@ -276,6 +324,17 @@ export default class MainController implements vscode.Disposable {
             this._event.on(Constants.cmdDisableActualPlan, () => {
                 this.onToggleActualPlan(false);
             });
+            this.registerCommandWithArgs(Constants.cmdCompareExecutionPlans);
+            this._event.on(
+                Constants.cmdCompareExecutionPlans,
+                (uri: vscode.Uri) => {
+                    this.onCompareExecutionPlans(uri).catch((err) => {
+                        void vscode.window.showErrorMessage(
+                            getErrorMessage(err),
+                        );
+                    });
+                },
+            );
             this.initializeObjectExplorer();
 
             this.registerCommandWithArgs(
@@ -415,6 +474,7 @@ export default class MainController implements vscode.Disposable {
         node: TreeNodeInfo,
         operation: ScriptOperation,
         executeScript: boolean = false,
+        scriptingSettings?: ScriptingSettings,
     ): Promise<void> {
         const nodeUri = ObjectExplorerUtils.getNodeUri(node);
         let connectionCreds = Object.assign({}, node.connectionInfo);
@@ -441,6 +501,7 @@ export default class MainController implements vscode.Disposable {
             node,
             nodeUri,
             operation,
+            scriptingSettings,
         );
         const editor =
             await this._untitledSqlDocumentService.newQuery(selectStatement);
@@ -516,6 +577,108 @@ export default class MainController implements vscode.Disposable {
         );
     }
 
+    /**
+     * Lets the user change the scripting settings for a single CREATE script of a node, starting
+     * from the mssql.scripting settings
+     */
+    public async scriptNodeWithOptions(node: TreeNodeInfo): Promise<void> {
+        const settings = this._scriptingService.getScriptingSettings();
+        const switches: {
+            key: ScriptingSwitch;
+            label: string;
+        }[] = [
+            {
+                key: "includePermissions",
+                label: LocalizedConstants.scriptingIncludePermissions,
+            },
+            {
+                key: "includeCollation",
+                label: LocalizedConstants.scriptingIncludeCollation,
+            },
+            {
+                key: "includeIfNotExists",
+                label: LocalizedConstants.scriptingIncludeIfNotExists,
+            },
+            {
+                key: "includeExtendedProperties",
+                label: LocalizedConstants.scriptingIncludeExtendedProperties,
+            },
+            {
+                key: "createOrAlter",
+                label: LocalizedConstants.scriptingCreateOrAlter,
+            },
+        ];
+        const statisticsItem: vscode.QuickPickItem = {
+            label: LocalizedConstants.scriptingIncludeStatistics,
+            picked: settings.scriptStatistics !== "ScriptStatsNone",
+        };
+        const switchItems = switches.map((option) => ({
+            label: option.label,
+            picked: settings[option.key],
+            key: option.key,
+        }));
+        const selected = await vscode.window.showQuickPick(
+            [...switchItems, statisticsItem],
+            {
+                canPickMany: true,
+                placeHolder: LocalizedConstants.scriptWithOptionsPlaceholder(
+                    this._scriptingService.getObjectFromNode(node).name,
+                ),
+            },
+        );
+        if (!selected) {
+            return;
+        }
+
+        const compatibilityItems = [
+            {
+                label: LocalizedConstants.scriptingMatchServerVersion,
+                value: matchServerCompatibility,
+            },
+            ...Object.values(ScriptCompatibilityOption).map((option) => ({
+                label: LocalizedConstants.sqlServerVersion(
+                    scriptCompatibilityVersions[option],
+                ),
+                value: option as string,
+            })),
+        ];
+        const compatibility = await vscode.window.showQuickPick(
+            compatibilityItems.map((item) => ({
+                ...item,
+                description:
+                    item.value === settings.targetCompatibility
+                        ? LocalizedConstants.scriptingCurrentSetting
+                        : undefined,
+            })),
+            {
+                placeHolder:
+                    LocalizedConstants.scriptingTargetVersionPlaceholder,
+            },
+        );
+        if (!compatibility) {
+            return;
+        }
+
+        const scriptingSettings: ScriptingSettings = {
+            ...settings,
+            targetCompatibility: compatibility.value,
+            scriptStatistics: !selected.includes(statisticsItem)
+                ? "ScriptStatsNone"
+                : settings.scriptStatistics === "ScriptStatsNone"
+                  ? "ScriptStatsDDL"
+                  : settings.scriptStatistics,
+        };
+        for (const item of switchItems) {
+            scriptingSettings[item.key] = selected.includes(item);
+        }
+        await this.scriptNode(
+            node,
+            ScriptOperation.Create,
+            false,
+            scriptingSettings,
+        );
+    }
+
     /**
      * Returns a flag indicating if the extension is initialized
      */
@@ -534,6 +697,10 @@ export default class MainController implements vscode.Disposable {
 
         // Init CodeAdapter for use when user response to questions is needed
         this._prompter = new CodeAdapter(this._vscodeWrapper);
+        this._queryParameterUI = new QueryParameterUI(
+            this._prompter,
+            this._context.workspaceState,
+        );
 
         // Init Query Results Webview Controller
         this._queryResultWebviewController = new QueryResultWebviewController(
@@ -562,6 +729,7 @@ export default class MainController implements vscode.Disposable {
             this._statusview,
             this._prompter,
         );
+        this._outputContentProvider.setConnectionManager(this._connectionMgr);
 
         void this.showOnLaunchPrompts();
 
@@ -700,22 +868,334 @@ export default class MainController implements vscode.Disposable {
         return undefined;
     }
 
+    /**
+     * Adds a connection group to the root of Object Explorer or to another group
+     * @param parentNode the group to add the new group to
+     */
+    private async onAddConnectionGroup(
+        parentNode?: ConnectionGroupNode,
+    ): Promise<void> {
+        const name = await this.promptForConnectionGroupName();
+        if (!name) {
+            return;
+        }
+        await this._connectionMgr.connectionStore.connectionConfig.addConnectionGroup(
+            {
+                id: Utils.generateGuid(),
+                name: name,
+                parentId: parentNode?.groupId,
+            },
+        );
+        this._objectExplorerProvider.refresh(undefined);
+    }
+
+    private async onRenameConnectionGroup(
+        node: ConnectionGroupNode,
+    ): Promise<void> {
+        const name = await this.promptForConnectionGroupName(node.group.name);
+        if (!name || name === node.group.name) {
+            return;
+        }
+        await this._connectionMgr.connectionStore.connectionConfig.updateConnectionGroup(
+            { ...node.group, name: name },
+        );
+        this._objectExplorerProvider.refresh(undefined);
+    }
+
+    private async onRemoveConnectionGroup(
+        node: ConnectionGroupNode,
+    ): Promise<void> {
+        const choice = await vscode.window.showWarningMessage(
+            LocalizedConstants.removeConnectionGroupConfirmation(
+                node.group.name,
+            ),
+            { modal: true },
+            LocalizedConstants.removeConnectionGroupAction,
+        );
+        if (choice !== LocalizedConstants.removeConnectionGroupAction) {
+            return;
+        }
+        await this._connectionMgr.connectionStore.connectionConfig.removeConnectionGroup(
+            node.groupId,
+        );
+        this._objectExplorerProvider.refresh(undefined);
+    }
+
+    private async onSetConnectionGroupColor(
+        node: ConnectionGroupNode,
+    ): Promise<void> {
+        const colorNames: Record<string, string> = {
+            red: LocalizedConstants.connectionGroupColorRed,
+            orange: LocalizedConstants.connectionGroupColorOrange,
+            yellow: LocalizedConstants.connectionGroupColorYellow,
+            green: LocalizedConstants.connectionGroupColorGreen,
+            blue: LocalizedConstants.connectionGroupColorBlue,
+            purple: LocalizedConstants.connectionGroupColorPurple,
+        };
+        const items: (vscode.QuickPickItem & { color?: string })[] = [
+            {
+                label: LocalizedConstants.connectionGroupNoColor,
+                color: undefined,
+            },
+            ...Constants.connectionGroupColors.map((color) => ({
+                label: `$(circle-filled) ${colorNames[color]}`,
+                color: color,
+                picked: color === node.group.color,
+            })),
+        ];
+        const choice = await vscode.window.showQuickPick(items, {
+            placeHolder: LocalizedConstants.connectionGroupColorPlaceholder,
+        });
+        if (!choice) {
+            return;
+        }
+        await this._connectionMgr.connectionStore.connectionConfig.updateConnectionGroup(
+            { ...node.group, color: choice.color },
+        );
+        this._objectExplorerProvider.refresh(undefined);
+    }
+
+    private async promptForConnectionGroupName(
+        value?: string,
+    ): Promise<string | undefined> {
+        const name = await vscode.window.showInputBox({
+            prompt: LocalizedConstants.connectionGroupNamePrompt,
+            placeHolder: LocalizedConstants.connectionGroupNamePlaceholder,
+            value: value,
+            validateInput: (input) =>
+                input.trim()
+                    ? undefined
+                    : LocalizedConstants.connectionGroupNameRequired,
+        });
+        return name?.trim();
+    }
+
+    /**
+     * Writes the saved connections, and optionally their groups, to a JSON file that can be
+     * shared with other users. Passwords and tokens are not written to the file.
+     */
+    private async onExportConnections(): Promise<void> {
+        const connectionConfig =
+            this._connectionMgr.connectionStore.connectionConfig;
+        const profiles = connectionConfig.getConnections(true);
+        if (profiles.length === 0) {
+            void vscode.window.showInformationMessage(
+                LocalizedConstants.msgNoConnectionsToExport,
+            );
+            return;
+        }
+
+        let groups = connectionConfig.getConnectionGroups(true);
+        if (groups.length > 0) {
+            const choice = await vscode.window.showQuickPick(
+                [
+                    LocalizedConstants.includeConnectionGroups,
+                    LocalizedConstants.excludeConnectionGroups,
+                ],
+                {
+                    placeHolder:
+                        LocalizedConstants.includeConnectionGroupsPrompt,
+                },
+            );
+            if (!choice) {
+                return;
+            }
+            if (choice === LocalizedConstants.excludeConnectionGroups) {
+                groups = undefined;
+            }
+        }
+
+        const saveUri = await vscode.window.showSaveDialog({
+            defaultUri: vscode.Uri.file(
+                path.join(os.homedir(), "connections.json"),
+            ),
+            filters: {
+                [LocalizedConstants.connectionsFileFilter]: ["json"],
+            },
+        });
+        if (!saveUri) {
+            return;
+        }
+
+        const file = createConnectionsFile(profiles, groups);
+        await vscode.workspace.fs.writeFile(
+            saveUri,
+            Buffer.from(JSON.stringify(file, undefined, 4), "utf8"),
+        );
+        void vscode.window.showInformationMessage(
+            LocalizedConstants.msgConnectionsExported(
+                file.connections.length,
+                path.basename(saveUri.fsPath),
+            ),
+        );
+        sendActionEvent(
+            TelemetryViews.ObjectExplorer,
+            TelemetryActions.ExportConnections,
+            {
+                includeGroups: (!!groups).toString(),
+            },
+            {
+                connectionCount: file.connections.length,
+            },
+        );
+    }
+
+    /**
+     * Adds the connections, and the groups they belong to, from a file created by the export
+     * command. The user chooses how to handle connections that already exist and which of the
+     * connections to add.
+     */
+    private async onImportConnections(): Promise<void> {
+        const openUris = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            filters: {
+                [LocalizedConstants.connectionsFileFilter]: ["json"],
+            },
+        });
+        if (!openUris || openUris.length === 0) {
+            return;
+        }
+
+        let file: ConnectionsFile;
+        try {
+            const content = await vscode.workspace.fs.readFile(openUris[0]);
+            file = parseConnectionsFile(Buffer.from(content).toString("utf8"));
+        } catch (err) {
+            void vscode.window.showErrorMessage(getErrorMessage(err));
+            return;
+        }
+
+        const connectionConfig =
+            this._connectionMgr.connectionStore.connectionConfig;
+        const existingProfiles = connectionConfig.getConnections(true);
+        const existingGroups = connectionConfig.getConnectionGroups(true);
+
+        let resolution = ImportConflictResolution.Skip;
+        if (hasImportConflicts(file, existingProfiles)) {
+            const resolutions: (vscode.QuickPickItem & {
+                resolution: ImportConflictResolution;
+            })[] = [
+                {
+                    label: LocalizedConstants.importConflictSkip,
+                    resolution: ImportConflictResolution.Skip,
+                },
+                {
+                    label: LocalizedConstants.importConflictReplace,
+                    resolution: ImportConflictResolution.Replace,
+                },
+                {
+                    label: LocalizedConstants.importConflictKeepBoth,
+                    resolution: ImportConflictResolution.KeepBoth,
+                },
+            ];
+            const choice = await vscode.window.showQuickPick(resolutions, {
+                placeHolder: LocalizedConstants.importConflictPlaceholder,
+            });
+            if (!choice) {
+                return;
+            }
+            resolution = choice.resolution;
+        }
+
+        const plan = planConnectionsImport(
+            file,
+            existingProfiles,
+            existingGroups,
+            resolution,
+        );
+        if (plan.connections.length === 0) {
+            void vscode.window.showInformationMessage(
+                LocalizedConstants.msgNoConnectionsToImport,
+            );
+            return;
+        }
+
+        // preview what will be added, all the connections are selected by default
+        const allGroups = [...existingGroups, ...plan.groups];
+        const previewItems: (vscode.QuickPickItem & {
+            item: ConnectionImportItem;
+        })[] = plan.connections.map((item) => {
+            const group = allGroups.find((g) => g.id === item.profile.groupId);
+            return {
+                label: item.profile.profileName || item.profile.server,
+                description: item.replaces
+                    ? LocalizedConstants.importConnectionReplaces
+                    : LocalizedConstants.importConnectionNew,
+                detail: group
+                    ? LocalizedConstants.importConnectionGroupDetail(group.name)
+                    : undefined,
+                picked: true,
+                item: item,
+            };
+        });
+        const selected = await vscode.window.showQuickPick(previewItems, {
+            canPickMany: true,
+            placeHolder: LocalizedConstants.importConnectionsPreviewPlaceholder,
+        });
+        if (!selected || selected.length === 0) {
+            return;
+        }
+
+        // only add the groups used by the selected connections and their parents
+        const usedGroupIds = new Set<string>();
+        for (const { item } of selected) {
+            let groupId = item.profile.groupId;
+            while (groupId && !usedGroupIds.has(groupId)) {
+                usedGroupIds.add(groupId);
+                groupId = allGroups.find((g) => g.id === groupId)?.parentId;
+            }
+        }
+        const groupsToAdd = plan.groups.filter((g) => usedGroupIds.has(g.id));
+        for (const group of groupsToAdd) {
+            await connectionConfig.addConnectionGroup(group);
+        }
+        // adding a connection replaces the saved connection with the same profile
+        for (const { item } of selected) {
+            await connectionConfig.addConnection(item.profile);
+        }
+        this._objectExplorerProvider.refresh(undefined);
+
+        void vscode.window.showInformationMessage(
+            LocalizedConstants.msgConnectionsImported(
+                selected.length,
+                groupsToAdd.length,
+            ),
+        );
+        sendActionEvent(
+            TelemetryViews.ObjectExplorer,
+            TelemetryActions.ImportConnections,
+            {
+                conflictResolution: resolution,
+            },
+            {
+                connectionCount: selected.length,
+                groupCount: groupsToAdd.length,
+                skippedCount: plan.skippedCount,
+            },
+        );
+    }
+
     /**
      * Initializes the Object Explorer commands
      */
     private initializeObjectExplorer(): void {
         const self = this;
         // Register the object explorer tree provider
+        this._objectExplorerFilterStore = new ObjectExplorerFilterStore(
+            this._context.globalState,
+        );
         this._objectExplorerProvider = new ObjectExplorerProvider(
             this._connectionMgr,
+            this._objectExplorerFilterStore,
         );
         this.objectExplorerTree = vscode.window.createTreeView(
             "objectExplorer",
             {
                 treeDataProvider: this._objectExplorerProvider,
                 canSelectMany: false,
-                dragAndDropController:
-                    new ObjectExplorerDragAndDropController(),
+                dragAndDropController: new ObjectExplorerDragAndDropController(
+                    this._objectExplorerProvider,
+                ),
             },
         );
         this._context.subscriptions.push(this.objectExplorerTree);
@@ -724,7 +1204,10 @@ export default class MainController implements vscode.Disposable {
         this._context.subscriptions.push(
             this.objectExplorerTree.onDidChangeSelection(
                 (e: vscode.TreeViewSelectionChangeEvent<TreeNodeInfo>) => {
-                    if (e.selection?.length > 0) {
+                    if (
+                        e.selection?.length > 0 &&
+                        !(e.selection[0] instanceof ConnectionGroupNode)
+                    ) {
                         self._objectExplorerProvider.currentNode =
                             e.selection[0];
                     }
@@ -884,6 +1367,88 @@ export default class MainController implements vscode.Disposable {
             ),
         );
 
+        // Connection groups
+        this._context.subscriptions.push(
+            vscode.commands.registerCommand(
+                Constants.cmdAddConnectionGroup,
+                async (node?: ConnectionGroupNode) =>
+                    await this.onAddConnectionGroup(node),
+            ),
+        );
+
+        this._context.subscriptions.push(
+            vscode.commands.registerCommand(
+                Constants.cmdRenameConnectionGroup,
+                async (node: ConnectionGroupNode) =>
+                    await this.onRenameConnectionGroup(node),
+            ),
+        );
+
+        this._context.subscriptions.push(
+            vscode.commands.registerCommand(
+                Constants.cmdRemoveConnectionGroup,
+                async (node: ConnectionGroupNode) =>
+                    await this.onRemoveConnectionGroup(node),
+            ),
+        );
+
+        this._context.subscriptions.push(
+            vscode.commands.registerCommand(
+                Constants.cmdSetConnectionGroupColor,
+                async (node: ConnectionGroupNode) =>
+                    await this.onSetConnectionGroupColor(node),
+            ),
+        );
+
+        this._context.subscriptions.push(
+            vscode.commands.registerCommand(
+                Constants.cmdConnectAllInConnectionGroup,
+                async (node: ConnectionGroupNode) => {
+                    const disconnectedNodes = this._objectExplorerProvider
+                        .getConnectionNodesInGroup(node)
+                        .filter((n) => !n.sessionId);
+                    // connect one at a time, the sessions are matched to the nodes as they are created
+                    for (const disconnectedNode of disconnectedNodes) {
+                        await self.createObjectExplorerSession(
+                            disconnectedNode.connectionInfo,
+                        );
+                    }
+                },
+            ),
+        );
+
+        this._context.subscriptions.push(
+            vscode.commands.registerCommand(
+                Constants.cmdDisconnectAllInConnectionGroup,
+                async (node: ConnectionGroupNode) => {
+                    const connectedNodes = this._objectExplorerProvider
+                        .getConnectionNodesInGroup(node)
+                        .filter((n) => !!n.sessionId);
+                    for (const connectedNode of connectedNodes) {
+                        await this._objectExplorerProvider.removeObjectExplorerNode(
+                            connectedNode,
+                            true,
+                        );
+                    }
+                    return this._objectExplorerProvider.refresh(undefined);
+                },
+            ),
+        );
+
+        this._context.subscriptions.push(
+            vscode.commands.registerCommand(
+                Constants.cmdExportConnections,
+                async () => await this.onExportConnections(),
+            ),
+        );
+
+        this._context.subscriptions.push(
+            vscode.commands.registerCommand(
+                Constants.cmdImportConnections,
+                async () => await this.onImportConnections(),
+            ),
+        );
+
         if (this.isRichExperiencesEnabled) {
             this._context.subscriptions.push(
                 vscode.commands.registerCommand(
@@ -919,6 +1484,54 @@ export default class MainController implements vscode.Disposable {
                 ),
             );
 
+            this._context.subscriptions.push(
+                vscode.commands.registerCommand(
+                    Constants.cmdNewTableFromFile,
+                    async (node: TreeNodeInfo) => {
+                        const fileUris = await vscode.window.showOpenDialog({
+                            canSelectMany: false,
+                            filters: {
+                                [LocalizedConstants.tableDataFileFilter]: [
+                                    "csv",
+                                    "tsv",
+                                    "txt",
+                                    "json",
+                                ],
+                            },
+                        });
+                        if (!fileUris || fileUris.length === 0) {
+                            return;
+                        }
+                        let tableFileData: TableFileData;
+                        try {
+                            const content = await vscode.workspace.fs.readFile(
+                                fileUris[0],
+                            );
+                            tableFileData = readTableFile(
+                                Buffer.from(content).toString("utf8"),
+                                path.basename(fileUris[0].fsPath),
+                            );
+                        } catch (err) {
+                            void vscode.window.showErrorMessage(
+                                getErrorMessage(err),
+                            );
+                            return;
+                        }
+                        const reactPanel = new TableDesignerWebviewController(
+                            this._context,
+                            this.tableDesignerService,
+                            this._connectionMgr,
+                            this._untitledSqlDocumentService,
+                            node,
+                            this._objectExplorerProvider,
+                            this.objectExplorerTree,
+                            tableFileData,
+                        );
+                        reactPanel.revealToForeground();
+                    },
+                ),
+            );
+
             this._context.subscriptions.push(
                 vscode.commands.registerCommand(
                     Constants.cmdEditTable,
@@ -937,33 +1550,144 @@ export default class MainController implements vscode.Disposable {
                 ),
             );
 
+            this._context.subscriptions.push(
+                vscode.commands.registerCommand(
+                    Constants.cmdSchemaCompare,
+                    async (source?: TreeNodeInfo | vscode.Uri) => {
+                        const schemaCompare =
+                            new SchemaCompareWebviewController(
+                                this._context,
+                                this.schemaCompareService,
+                                this._connectionMgr,
+                                this.sqlProjectsService,
+                                source,
+                            );
+                        schemaCompare.revealToForeground();
+                    },
+                ),
+            );
+
+            this._context.subscriptions.push(
+                vscode.commands.registerCommand(
+                    Constants.cmdImportFlatFile,
+                    async (node: TreeNodeInfo) => {
+                        const flatFileImport =
+                            new FlatFileImportWebviewController(
+                                this._context,
+                                this._connectionMgr,
+                                this.sqlTasksService,
+                                node,
+                            );
+                        flatFileImport.revealToForeground();
+                    },
+                ),
+            );
+
+            this._context.subscriptions.push(
+                vscode.commands.registerCommand(
+                    Constants.cmdGenerateScripts,
+                    async (node: TreeNodeInfo) => {
+                        const generateScripts =
+                            new GenerateScriptsWebviewController(
+                                this._context,
+                                this._connectionMgr,
+                                this._scriptingService,
+                                node,
+                            );
+                        generateScripts.revealToForeground();
+                    },
+                ),
+            );
+
+            this._context.subscriptions.push(
+                vscode.commands.registerCommand(
+                    Constants.cmdShowErDiagram,
+                    async (node: TreeNodeInfo) => {
+                        const erDiagram = new ErDiagramWebviewController(
+                            this._context,
+                            this._connectionMgr,
+                            this._objectExplorerProvider,
+                            node,
+                        );
+                        erDiagram.revealToForeground();
+                    },
+                ),
+            );
+
+            this._context.subscriptions.push(
+                vscode.commands.registerCommand(
+                    Constants.cmdOpenQueryBuilder,
+                    async (node?: TreeNodeInfo) => {
+                        let connectionInfo: IConnectionInfo;
+                        let initialTable: { schema: string; name: string };
+                        if (node) {
+                            connectionInfo = {
+                                ...node.connectionInfo,
+                                database:
+                                    ObjectExplorerUtils.getDatabaseName(node),
+                            };
+                            const typeName = node.metadata?.metadataTypeName;
+                            if (typeName === "Table" || typeName === "View") {
+                                initialTable = {
+                                    schema: node.metadata.schema,
+                                    name: node.metadata.name,
+                                };
+                            }
+                        } else {
+                            // from the command palette, with the connection of the query editor
+                            connectionInfo =
+                                this._connectionMgr.getConnectionInfo(
+                                    this._vscodeWrapper.activeTextEditorUri,
+                                )?.credentials ??
+                                (await this._connectionMgr.connectionUI.promptForConnection());
+                            if (!connectionInfo) {
+                                return;
+                            }
+                        }
+                        this.openQueryBuilder(connectionInfo, initialTable);
+                    },
+                ),
+            );
+
+            const applyFilters = async (
+                node: TreeNodeInfo,
+                filters: vscodeMssql.NodeFilter[],
+            ) => {
+                node.filters = filters;
+                await this._objectExplorerFilterStore.setNodeFilters(
+                    node,
+                    filters,
+                );
+                if (
+                    node.collapsibleState ===
+                    vscode.TreeItemCollapsibleState.Collapsed
+                ) {
+                    await this._objectExplorerProvider.refreshNode(node);
+                } else if (
+                    node.collapsibleState ===
+                    vscode.TreeItemCollapsibleState.Expanded
+                ) {
+                    await this._objectExplorerProvider.expandNode(
+                        node,
+                        node.sessionId,
+                        undefined,
+                    );
+                }
+                await this.objectExplorerTree.reveal(node, {
+                    select: true,
+                    focus: true,
+                    expand: true,
+                });
+            };
+
             const filterNode = async (node: TreeNodeInfo) => {
                 const filters = await ObjectExplorerFilter.getFilters(
                     this._context,
                     node,
+                    this._objectExplorerFilterStore,
                 );
                 if (filters) {
-                    node.filters = filters;
-                    if (
-                        node.collapsibleState ===
-                        vscode.TreeItemCollapsibleState.Collapsed
-                    ) {
-                        await this._objectExplorerProvider.refreshNode(node);
-                    } else if (
-                        node.collapsibleState ===
-                        vscode.TreeItemCollapsibleState.Expanded
-                    ) {
-                        await this._objectExplorerProvider.expandNode(
-                            node,
-                            node.sessionId,
-                            undefined,
-                        );
-                    }
-                    await this.objectExplorerTree.reveal(node, {
-                        select: true,
-                        focus: true,
-                        expand: true,
-                    });
+                    await applyFilters(node, filters);
                 } else {
                     // User cancelled the operation. Do nothing and focus on the node
                     await this.objectExplorerTree.reveal(node, {
@@ -993,6 +1717,10 @@ export default class MainController implements vscode.Disposable {
                     Constants.cmdClearFilters,
                     async (node: TreeNodeInfo) => {
                         node.filters = [];
+                        await this._objectExplorerFilterStore.setNodeFilters(
+                            node,
+                            [],
+                        );
                         await this._objectExplorerProvider.refreshNode(node);
                         await this.objectExplorerTree.reveal(node, {
                             select: true,
@@ -1003,6 +1731,53 @@ export default class MainController implements vscode.Disposable {
                 ),
             );
 
+            this._context.subscriptions.push(
+                vscode.commands.registerCommand(
+                    Constants.cmdApplyFilterPreset,
+                    async (node: TreeNodeInfo) => {
+                        const nodeType =
+                            ObjectExplorerFilterStore.getNodeType(node);
+                        const presets =
+                            this._objectExplorerFilterStore.getPresets(
+                                nodeType,
+                            );
+                        if (presets.length === 0) {
+                            void this._vscodeWrapper.showInformationMessage(
+                                LocalizedConstants.msgNoFilterPresets,
+                            );
+                            return;
+                        }
+                        const picked = await vscode.window.showQuickPick(
+                            presets.map((preset) => ({
+                                label: preset.name,
+                                description: preset.filters
+                                    .map((f) => f.name)
+                                    .join(", "),
+                                preset: preset,
+                            })),
+                            {
+                                placeHolder:
+                                    LocalizedConstants.selectFilterPreset,
+                            },
+                        );
+                        if (!picked) {
+                            return;
+                        }
+                        sendActionEvent(
+                            TelemetryViews.ObjectExplorerFilter,
+                            TelemetryActions.ApplyFilterPreset,
+                            {
+                                nodeType: nodeType,
+                            },
+                            {
+                                filterCount: picked.preset.filters.length,
+                            },
+                        );
+                        await applyFilters(node, picked.preset.filters);
+                    },
+                ),
+            );
+
             this._context.subscriptions.push(
                 vscode.window.registerWebviewViewProvider(
                     "queryResult",
@@ -1061,6 +1836,66 @@ export default class MainController implements vscode.Disposable {
             ),
         );
 
+        // Script with options
+        this._context.subscriptions.push(
+            vscode.commands.registerCommand(
+                Constants.cmdScriptWithOptions,
+                async (node: TreeNodeInfo) =>
+                    await this.scriptNodeWithOptions(node),
+            ),
+        );
+
+        // Generate schema documentation
+        const schemaDocsGenerator = new SchemaDocsGenerator(
+            this._connectionMgr,
+            this._scriptingService,
+        );
+        this._context.subscriptions.push(
+            vscode.commands.registerCommand(
+                Constants.cmdGenerateSchemaDocs,
+                async (node: TreeNodeInfo) =>
+                    await schemaDocsGenerator.generate(node),
+            ),
+        );
+
+        this._context.subscriptions.push(
+            vscode.commands.registerCommand(
+                Constants.cmdCopyConnectionString,
+                async (node?: TreeNodeInfo) => {
+                    node = node ?? this._objectExplorerProvider.currentNode;
+                    if (!node?.connectionInfo) {
+                        return;
+                    }
+                    const format = await vscode.window.showQuickPick(
+                        exportFormats,
+                        {
+                            placeHolder:
+                                LocalizedConstants.msgChooseConnectionStringFormat,
+                        },
+                    );
+                    if (!format) {
+                        return;
+                    }
+                    await this._vscodeWrapper.clipboardWriteText(
+                        buildConnectionString(
+                            node.connectionInfo,
+                            format as ConnectionStringFormat,
+                        ),
+                    );
+                    void this._vscodeWrapper.showInformationMessage(
+                        LocalizedConstants.msgConnectionStringCopied(format),
+                    );
+                    sendActionEvent(
+                        TelemetryViews.ObjectExplorer,
+                        TelemetryActions.CopyConnectionString,
+                        {
+                            format: format,
+                        },
+                    );
+                },
+            ),
+        );
+
         // Copy object name command
         this._context.subscriptions.push(
             vscode.commands.registerCommand(
@@ -1106,6 +1941,45 @@ export default class MainController implements vscode.Disposable {
             ),
         );
 
+        // Find object command
+        const objectExplorerSearch = new ObjectExplorerSearch(
+            this._connectionMgr,
+            this._objectExplorerProvider,
+        );
+        this._context.subscriptions.push(
+            vscode.commands.registerCommand(
+                Constants.cmdFindObject,
+                async (node?: TreeNodeInfo) => {
+                    node = node ?? this._objectExplorerProvider.currentNode;
+                    if (
+                        !node?.sessionId ||
+                        node.context.type === Constants.disconnectedServerLabel
+                    ) {
+                        void this._vscodeWrapper.showInformationMessage(
+                            LocalizedConstants.msgFindObjectNoConnection,
+                        );
+                        return;
+                    }
+                    const objectNode =
+                        await objectExplorerSearch.findObject(node);
+                    sendActionEvent(
+                        TelemetryViews.ObjectExplorer,
+                        TelemetryActions.FindObject,
+                        {
+                            found: (!!objectNode).toString(),
+                            objectType: objectNode?.nodeType,
+                        },
+                    );
+                    if (objectNode) {
+                        await this.objectExplorerTree.reveal(objectNode, {
+                            select: true,
+                            focus: true,
+                        });
+                    }
+                },
+            ),
+        );
+
         // Reveal Query Results command
         this._context.subscriptions.push(
             vscode.commands.registerCommand(
@@ -1152,20 +2026,43 @@ export default class MainController implements vscode.Disposable {
                 this._untitledSqlDocumentService,
                 this._statusview,
                 this._prompter,
+                new QueryHistoryStore(
+                    this._context.globalState,
+                    this._context.workspaceState,
+                ),
             );
 
+            const queryHistoryTreeView = vscode.window.createTreeView(
+                "queryHistory",
+                {
+                    treeDataProvider: this._queryHistoryProvider,
+                },
+            );
             this._context.subscriptions.push(
-                vscode.window.registerTreeDataProvider(
-                    "queryHistory",
-                    this._queryHistoryProvider,
-                ),
+                queryHistoryTreeView,
+                this._queryHistoryProvider.onDidChangeFilter((filter) => {
+                    queryHistoryTreeView.message = filter
+                        ? LocalizedConstants.queryHistorySearchMessage(
+                              QueryHistoryUI.describeFilter(filter),
+                          )
+                        : undefined;
+                    void vscode.commands.executeCommand(
+                        "setContext",
+                        "mssql.queryHistoryFiltered",
+                        !!filter,
+                    );
+                }),
             );
 
             // Command to refresh Query History
             this._context.subscriptions.push(
                 vscode.commands.registerCommand(
                     Constants.cmdRefreshQueryHistory,
-                    (ownerUri: string, hasError: boolean) => {
+                    async (
+                        ownerUri: string,
+                        hasError: boolean,
+                        durationMs?: number,
+                    ) => {
                         config = this._vscodeWrapper.getConfiguration(
                             Constants.extensionConfigSectionName,
                         );
@@ -1180,10 +2077,11 @@ export default class MainController implements vscode.Disposable {
                             queryHistoryCaptureEnabled
                         ) {
                             const timeStamp = new Date();
-                            this._queryHistoryProvider.refresh(
+                            await this._queryHistoryProvider.refresh(
                                 ownerUri,
                                 timeStamp,
                                 hasError,
+                                durationMs,
                             );
                         }
                     },
@@ -1194,8 +2092,8 @@ export default class MainController implements vscode.Disposable {
             this._context.subscriptions.push(
                 vscode.commands.registerCommand(
                     Constants.cmdClearAllQueryHistory,
-                    () => {
-                        this._queryHistoryProvider.clearAll();
+                    async () => {
+                        await this._queryHistoryProvider.clearAll();
                     },
                 ),
             );
@@ -1204,8 +2102,8 @@ export default class MainController implements vscode.Disposable {
             this._context.subscriptions.push(
                 vscode.commands.registerCommand(
                     Constants.cmdDeleteQueryHistory,
-                    (node: QueryHistoryNode) => {
-                        this._queryHistoryProvider.deleteQueryHistoryEntry(
+                    async (node: QueryHistoryNode) => {
+                        await this._queryHistoryProvider.deleteQueryHistoryEntry(
                             node,
                         );
                     },
@@ -1266,6 +2164,26 @@ export default class MainController implements vscode.Disposable {
                     },
                 ),
             );
+
+            // Command to search the query history
+            this._context.subscriptions.push(
+                vscode.commands.registerCommand(
+                    Constants.cmdSearchQueryHistory,
+                    async () => {
+                        await this._queryHistoryProvider.searchQueryHistory();
+                    },
+                ),
+            );
+
+            // Command to clear the query history search filter
+            this._context.subscriptions.push(
+                vscode.commands.registerCommand(
+                    Constants.cmdClearQueryHistorySearch,
+                    () => {
+                        this._queryHistoryProvider.clearQueryHistorySearch();
+                    },
+                ),
+            );
             this._queryHistoryRegistered = true;
         }
     }
@@ -1604,12 +2522,31 @@ export default class MainController implements vscode.Disposable {
                 return;
             }
 
+            // Ask for the values of unassigned SQLCMD and @ variables before running
+            let substitutedQuery: string;
+            if (self.isQueryParameterPromptEnabled) {
+                const queryText = editor.document.getText(selectionToTrim);
+                const resolvedQuery =
+                    await self._queryParameterUI.promptForQueryParameters(
+                        uri,
+                        queryText,
+                    );
+                if (resolvedQuery === undefined) {
+                    return;
+                }
+                if (resolvedQuery !== queryText) {
+                    substitutedQuery = resolvedQuery;
+                }
+            }
+
             await self._outputContentProvider.runQuery(
                 self._statusview,
                 uri,
                 querySelection,
                 title,
                 self._executionPlanOptions,
+                undefined,
+                substitutedQuery,
             );
         } catch (err) {
             console.warn(`Unexpected error running query : ${err}`);
@@ -1865,6 +2802,66 @@ export default class MainController implements vscode.Disposable {
     /**
      * Opens a new query and creates new connection
      */
+    /**
+     * Handles the New Query command. When rich experiences are enabled, the query can also be
+     * built with the query builder instead of being written in an editor.
+     */
+    private async onNewQueryCommand(): Promise<boolean> {
+        if (!this.canRunCommand()) {
+            return false;
+        }
+        if (this.isRichExperiencesEnabled) {
+            const choice = await vscode.window.showQuickPick(
+                [
+                    {
+                        label: LocalizedConstants.newQueryInEditor,
+                        detail: LocalizedConstants.newQueryInEditorDetail,
+                        useQueryBuilder: false,
+                    },
+                    {
+                        label: LocalizedConstants.newQueryWithQueryBuilder,
+                        detail: LocalizedConstants.newQueryWithQueryBuilderDetail,
+                        useQueryBuilder: true,
+                    },
+                ],
+                {
+                    placeHolder: LocalizedConstants.newQueryPlaceholder,
+                },
+            );
+            if (!choice) {
+                return false;
+            }
+            if (choice.useQueryBuilder) {
+                const connectionInfo =
+                    await this._connectionMgr.connectionUI.promptForConnection();
+                if (!connectionInfo) {
+                    return false;
+                }
+                this.openQueryBuilder(connectionInfo);
+                return true;
+            }
+        }
+        return await this.onNewQuery();
+    }
+
+    /**
+     * Opens the query builder for the database of a connection
+     * @param initialTable The table or view the query starts with
+     */
+    private openQueryBuilder(
+        connectionInfo: IConnectionInfo,
+        initialTable?: { schema: string; name: string },
+    ): void {
+        const queryBuilder = new QueryBuilderWebviewController(
+            this._context,
+            this._connectionMgr,
+            this._untitledSqlDocumentService,
+            connectionInfo,
+            initialTable,
+        );
+        queryBuilder.revealToForeground();
+    }
+
     public async onNewQuery(
         node?: TreeNodeInfo,
         content?: string,
@@ -2120,6 +3117,13 @@ export default class MainController implements vscode.Disposable {
         if (e.affectsConfiguration(Constants.extensionName)) {
             // Query History settings change
             this.onChangeQueryHistoryConfig();
+            if (
+                e.affectsConfiguration(
+                    `${Constants.extensionName}.${Constants.configQueryHistoryStorage}`,
+                )
+            ) {
+                this._queryHistoryProvider?.reloadPersistedHistory();
+            }
 
             // Connections change
             let needsRefresh = false;
@@ -2199,7 +3203,8 @@ export default class MainController implements vscode.Disposable {
                 )
             ) {
                 let errorFoundWhileRefreshing = false;
-                (await this._objectExplorerProvider.getChildren()).forEach(
+                // connections in groups are not returned at the root, refresh all of them
+                this._objectExplorerProvider.rootTreeNodeArray.forEach(
                     (n: TreeNodeInfo) => {
                         try {
                             void this._objectExplorerProvider.refreshNode(n);
@@ -2216,6 +3221,18 @@ export default class MainController implements vscode.Disposable {
                 }
             }
 
+            // connections may have been moved between groups
+            if (
+                e.affectsConfiguration(
+                    `${Constants.extensionName}.${Constants.connectionGroupsArrayName}`,
+                ) ||
+                e.affectsConfiguration(
+                    `${Constants.extensionName}.${Constants.connectionsArrayName}`,
+                )
+            ) {
+                needsRefresh = true;
+            }
+
             if (needsRefresh) {
                 this._objectExplorerProvider.refresh(undefined);
             }
@@ -2277,6 +3294,101 @@ export default class MainController implements vscode.Disposable {
         void this.connectionManager.removeAccount(prompter);
     }
 
+    /**
+     * Opens a side-by-side comparison of two execution plans. The plans are either the
+     * last two plans of the active editor or .sqlplan files picked by the user.
+     * @param uri the .sqlplan file to use as the first plan, if invoked from the explorer
+     */
+    public async onCompareExecutionPlans(uri?: vscode.Uri): Promise<void> {
+        let plans: ExecutionPlanComparisonInput[] | undefined;
+        const editorUri = this._vscodeWrapper.activeTextEditorUri;
+        const history =
+            !uri && editorUri
+                ? this._queryResultWebviewController.getExecutionPlanHistory(
+                      editorUri,
+                  )
+                : [];
+        if (history.length === 2) {
+            const choice = await vscode.window.showQuickPick(
+                [
+                    LocalizedConstants.compareLastTwoExecutionPlans,
+                    LocalizedConstants.compareExecutionPlanFiles,
+                ],
+                {
+                    placeHolder:
+                        LocalizedConstants.msgChooseExecutionPlansToCompare,
+                },
+            );
+            if (!choice) {
+                return;
+            }
+            if (choice === LocalizedConstants.compareLastTwoExecutionPlans) {
+                plans = [
+                    {
+                        title: LocalizedConstants.previousExecutionPlan,
+                        xml: history[0],
+                    },
+                    {
+                        title: LocalizedConstants.latestExecutionPlan,
+                        xml: history[1],
+                    },
+                ];
+            }
+        }
+
+        if (!plans) {
+            const firstPlan = uri
+                ? await this.readExecutionPlanFile(uri)
+                : await this.selectExecutionPlanFile(
+                      LocalizedConstants.selectFirstExecutionPlan,
+                  );
+            if (!firstPlan) {
+                return;
+            }
+            const secondPlan = await this.selectExecutionPlanFile(
+                LocalizedConstants.selectSecondExecutionPlan,
+            );
+            if (!secondPlan) {
+                return;
+            }
+            plans = [firstPlan, secondPlan];
+        }
+
+        const comparisonController =
+            new ExecutionPlanComparisonWebviewController(
+                this._context,
+                this.executionPlanService,
+                plans[0],
+                plans[1],
+            );
+        comparisonController.revealToForeground();
+    }
+
+    private async selectExecutionPlanFile(
+        title: string,
+    ): Promise<ExecutionPlanComparisonInput | undefined> {
+        const uris = await vscode.window.showOpenDialog({
+            title: title,
+            canSelectMany: false,
+            filters: {
+                [LocalizedConstants.executionPlanFileFilter]: [
+                    Constants.sqlPlanLanguageId,
+                ],
+            },
+        });
+        return uris?.length ? this.readExecutionPlanFile(uris[0]) : undefined;
+    }
+
+    private async readExecutionPlanFile(
+        uri: vscode.Uri,
+    ): Promise<ExecutionPlanComparisonInput> {
+        const contents = await vscode.workspace.fs.readFile(uri);
+        return {
+            title: path.basename(uri.fsPath),
+            xml: Buffer.from(contents).toString("utf8"),
+        };
+    }
+
     public addAadAccount(): void {
         void this.connectionManager.addAccount();
     }
@@ -10,12 +10,15 @@ import StatusView from "../views/statusView";
 import SqlToolsServerClient from "../languageservice/serviceclient";
 import { QueryNotificationHandler } from "./queryNotificationHandler";
 import VscodeWrapper from "./vscodeWrapper";
+import ConnectionManager from "./connectionManager";
 import {
     BatchSummary,
     QueryExecuteParams,
     QueryExecuteRequest,
     QueryExecuteStatementParams,
     QueryExecuteStatementRequest,
+    QueryExecuteStringParams,
+    QueryExecuteStringRequest,
     QueryExecuteCompleteNotificationResult,
     QueryExecuteSubsetResult,
     QueryExecuteResultSetCompleteNotificationParams,
@@ -28,6 +31,8 @@ import {
     QueryExecutionOptions,
     DbCellValue,
     ExecutionPlanOptions,
+    SimpleExecuteParams,
+    SimpleExecuteRequest,
 } from "../models/contracts/queryExecute";
 import {
     QueryDisposeParams,
@@ -39,6 +44,8 @@ import {
     QueryCancelRequest,
 } from "../models/contracts/queryCancel";
 import {
+    ConnectionEnvironment,
+    IConnectionProfile,
     ISlickRange,
     ISelectionData,
     IResultMessage,
@@ -53,6 +60,36 @@ import {
     TelemetryActions,
     TelemetryViews,
 } from "../sharedInterfaces/telemetry";
+import { ResultRowEdit } from "../sharedInterfaces/queryResult";
+import {
+    generateEditScript,
+    getEditTargetTable,
+    getUniqueKeysQuery,
+    hasCompleteKey,
+} from "../models/resultEditScript";
+import {
+    findGuardedStatements,
+    GuardedStatementType,
+} from "../models/queryGuards";
+
+// the settings that turn the confirmation for each kind of statement on or off
+const productionGuardSettings: Record<GuardedStatementType, string> = {
+    [GuardedStatementType.UpdateWithoutWhere]:
+        Constants.configProductionGuardsUpdateDeleteWithoutWhere,
+    [GuardedStatementType.DeleteWithoutWhere]:
+        Constants.configProductionGuardsUpdateDeleteWithoutWhere,
+    [GuardedStatementType.Drop]: Constants.configProductionGuardsDrop,
+    [GuardedStatementType.Truncate]: Constants.configProductionGuardsTruncate,
+};
+
+const guardedStatementLabels: Record<GuardedStatementType, string> = {
+    [GuardedStatementType.UpdateWithoutWhere]:
+        LocalizedConstants.updateWithoutWhere,
+    [GuardedStatementType.DeleteWithoutWhere]:
+        LocalizedConstants.deleteWithoutWhere,
+    [GuardedStatementType.Drop]: "DROP",
+    [GuardedStatementType.Truncate]: "TRUNCATE TABLE",
+};
 
 export interface IResultSet {
     columns: string[];
@@ -69,6 +106,7 @@ export default class QueryRunner {
     private _batchSetMessages: { [batchId: number]: IResultMessage[] } = {};
     private _isExecuting: boolean;
     private _resultLineOffset: number;
+    private _resultColumnOffset: number = 0;
     private _totalElapsedMilliseconds: number;
     private _hasCompleted: boolean;
     private _isSqlCmd: boolean = false;
@@ -86,6 +124,7 @@ export default class QueryRunner {
         private _client?: SqlToolsServerClient,
         private _notificationHandler?: QueryNotificationHandler,
         private _vscodeWrapper?: VscodeWrapper,
+        private _connectionManager?: ConnectionManager,
     ) {
         if (!_client) {
             this._client = SqlToolsServerClient.instance;
@@ -167,8 +206,18 @@ export default class QueryRunner {
         return queryCancelResult;
     }
 
-    // Pulls the query text from the current document/selection and initiates the query
+    /**
+     * Pulls the query text from the current document/selection and initiates the query
+     */
     public async runStatement(line: number, column: number): Promise<void> {
+        // the statement at the position is found by the service, so check the whole document
+        if (
+            !(await this.confirmProductionQuery(
+                async () => await this.getQueryText(undefined),
+            ))
+        ) {
+            return;
+        }
         await this.doRunQuery(
             <ISelectionData>{
                 startLine: line,
@@ -195,13 +244,51 @@ export default class QueryRunner {
         );
     }
 
-    // Pulls the query text from the current document/selection and initiates the query
+    /**
+     * Pulls the query text from the current document/selection and initiates the query
+     * @param substitutedQuery the selected text with its query parameters replaced. When set,
+     * this text is executed instead of the document contents.
+     */
     public async runQuery(
         selection: ISelectionData,
         executionPlanOptions?: ExecutionPlanOptions,
         promise?: Deferred<boolean>,
+        substitutedQuery?: string,
     ): Promise<void> {
+        if (
+            !(await this.confirmProductionQuery(
+                async () =>
+                    substitutedQuery ?? (await this.getQueryText(selection)),
+            ))
+        ) {
+            promise?.resolve(false);
+            return;
+        }
         await this.doRunQuery(selection, async (onSuccess, onError) => {
+            if (substitutedQuery !== undefined) {
+                // the service parses the substituted text on its own, so the batches on its first
+                // line start at the column of the selection in the document
+                this._resultColumnOffset = selection
+                    ? selection.startColumn
+                    : 0;
+                this._uriToQueryStringMap.set(this._ownerUri, substitutedQuery);
+                if (promise) {
+                    this._uriToQueryPromiseMap.set(this._ownerUri, promise);
+                }
+                let queryStringDetails: QueryExecuteStringParams = {
+                    ownerUri: this._ownerUri,
+                    executionPlanOptions: executionPlanOptions,
+                    query: substitutedQuery,
+                };
+                await this._client
+                    .sendRequest(
+                        QueryExecuteStringRequest.type,
+                        queryStringDetails,
+                    )
+                    .then(onSuccess, onError);
+                return;
+            }
+
             // Put together the request
             let queryDetails: QueryExecuteParams = {
                 ownerUri: this._ownerUri,
@@ -209,25 +296,7 @@ export default class QueryRunner {
                 querySelection: selection,
             };
 
-            const doc = await this._vscodeWrapper.openTextDocument(
-                this._vscodeWrapper.parseUri(this._ownerUri),
-            );
-            let queryString: string;
-            if (selection) {
-                let range = this._vscodeWrapper.range(
-                    this._vscodeWrapper.position(
-                        selection.startLine,
-                        selection.startColumn,
-                    ),
-                    this._vscodeWrapper.position(
-                        selection.endLine,
-                        selection.endColumn,
-                    ),
-                );
-                queryString = doc.getText(range);
-            } else {
-                queryString = doc.getText();
-            }
+            const queryString = await this.getQueryText(selection);
 
             // Set the query string for the uri
             this._uriToQueryStringMap.set(this._ownerUri, queryString);
@@ -242,6 +311,80 @@ export default class QueryRunner {
         });
     }
 
+    /**
+     * Gets the text of the selection, or of the whole document when there is no selection
+     */
+    private async getQueryText(selection: ISelectionData): Promise<string> {
+        const doc = await this._vscodeWrapper.openTextDocument(
+            this._vscodeWrapper.parseUri(this._ownerUri),
+        );
+        if (selection) {
+            let range = this._vscodeWrapper.range(
+                this._vscodeWrapper.position(
+                    selection.startLine,
+                    selection.startColumn,
+                ),
+                this._vscodeWrapper.position(
+                    selection.endLine,
+                    selection.endColumn,
+                ),
+            );
+            return doc.getText(range);
+        }
+        return doc.getText();
+    }
+
+    /**
+     * Asks for confirmation before running a query with destructive statements against
+     * a connection tagged as production. Each kind of statement can be turned off in the settings.
+     * The connection is looked up from the owner uri, so every way of running a query is guarded.
+     * @param getQuery gets the text of the query, only called for production connections
+     * @returns false if the query should not be run
+     */
+    private async confirmProductionQuery(
+        getQuery: () => Promise<string>,
+    ): Promise<boolean> {
+        const connection = this._connectionManager?.getConnectionInfo(
+            this._ownerUri,
+        )?.credentials;
+        if (
+            (<IConnectionProfile>connection)?.environment !==
+            ConnectionEnvironment.Production
+        ) {
+            return true;
+        }
+        const config = this._vscodeWrapper.getConfiguration(
+            Constants.extensionConfigSectionName,
+        );
+        const statements = findGuardedStatements(await getQuery()).filter(
+            (type) => config.get<boolean>(productionGuardSettings[type], true),
+        );
+        if (statements.length === 0) {
+            return true;
+        }
+
+        const choice = await this._vscodeWrapper.showWarningMessageAdvanced(
+            LocalizedConstants.msgConfirmProductionQuery(
+                connection.server,
+                statements
+                    .map((type) => guardedStatementLabels[type])
+                    .join(", "),
+            ),
+            { modal: true },
+            [LocalizedConstants.runQueryAnyway],
+        );
+        const confirmed = choice === LocalizedConstants.runQueryAnyway;
+        sendActionEvent(
+            TelemetryViews.QueryEditor,
+            TelemetryActions.ConfirmProductionQuery,
+            {
+                statements: statements.join(","),
+                confirmed: confirmed.toString(),
+            },
+        );
+        return confirmed;
+    }
+
     // Pulls the query text from the current document/selection and initiates the query
     private async doRunQuery(
         selection: ISelectionData,
@@ -253,6 +396,7 @@ export default class QueryRunner {
 
         // Update internal state to show that we're executing the query
         this._resultLineOffset = selection ? selection.startLine : 0;
+        this._resultColumnOffset = 0;
         this._isExecuting = true;
         this._totalElapsedMilliseconds = 0;
         this._statusView.executingQuery(this.uri);
@@ -310,14 +454,7 @@ export default class QueryRunner {
         this._hasCompleted = true;
         this._batchSets = result.batchSummaries;
 
-        this._batchSets.map((batch) => {
-            if (batch.selection) {
-                batch.selection.startLine =
-                    batch.selection.startLine + this._resultLineOffset;
-                batch.selection.endLine =
-                    batch.selection.endLine + this._resultLineOffset;
-            }
-        });
+        this._batchSets.map((batch) => this.offsetBatchSelection(batch));
 
         // We're done with this query so shut down any waiting mechanisms
         const promise = this._uriToQueryPromiseMap.get(result.ownerUri);
@@ -363,10 +500,7 @@ export default class QueryRunner {
         let batch = result.batchSummary;
 
         // Recalculate the start and end lines, relative to the result line offset
-        if (batch.selection) {
-            batch.selection.startLine += this._resultLineOffset;
-            batch.selection.endLine += this._resultLineOffset;
-        }
+        this.offsetBatchSelection(batch);
 
         // Set the result sets as an empty array so that as result sets complete we can add to the list
         batch.resultSetSummaries = [];
@@ -379,6 +513,23 @@ export default class QueryRunner {
         this.eventEmitter.emit("batchStart", batch);
     }
 
+    /**
+     * Moves the selection of a batch from the executed text to its position in the document
+     */
+    private offsetBatchSelection(batch: BatchSummary): void {
+        if (!batch.selection) {
+            return;
+        }
+        if (batch.selection.startLine === 0) {
+            batch.selection.startColumn += this._resultColumnOffset;
+        }
+        if (batch.selection.endLine === 0) {
+            batch.selection.endColumn += this._resultColumnOffset;
+        }
+        batch.selection.startLine += this._resultLineOffset;
+        batch.selection.endLine += this._resultLineOffset;
+    }
+
     public handleBatchComplete(
         result: QueryExecuteBatchNotificationParams,
     ): void {
@@ -522,6 +673,76 @@ export default class QueryRunner {
         }
     }
 
+    /**
+     * Generates the script that applies the edits made in the grid to a result set
+     * @param batchId The id of the batch the result set belongs to
+     * @param resultId The id of the edited result set
+     * @param edits The pending edits of the result set
+     * @param useTransaction Whether to wrap the statements in a transaction
+     * @returns A promise that will be rejected if the result set cannot be edited, because it does
+     * not come from a single table or does not include all the columns of a key of that table
+     */
+    public async getEditScript(
+        batchId: number,
+        resultId: number,
+        edits: ResultRowEdit[],
+        useTransaction: boolean,
+    ): Promise<string> {
+        const columns =
+            this.batchSets[batchId]?.resultSetSummaries[resultId]?.columnInfo ??
+            [];
+        const tableName = getEditTargetTable(columns);
+        if (!tableName) {
+            throw new Error(LocalizedConstants.msgResultSetNotEditable);
+        }
+        let params = new SimpleExecuteParams();
+        params.ownerUri = this.uri;
+        params.queryString = getUniqueKeysQuery(tableName);
+        const result = await this._client.sendRequest(
+            SimpleExecuteRequest.type,
+            params,
+        );
+        const uniqueKeys = new Map<string, string[]>();
+        for (const [indexId, column] of result.rows) {
+            if (!uniqueKeys.has(indexId.displayValue)) {
+                uniqueKeys.set(indexId.displayValue, []);
+            }
+            uniqueKeys.get(indexId.displayValue).push(column.displayValue);
+        }
+        if (!hasCompleteKey(columns, [...uniqueKeys.values()])) {
+            throw new Error(LocalizedConstants.msgResultSetKeyIncomplete);
+        }
+        return generateEditScript(tableName, columns, edits, {
+            useTransaction: useTransaction,
+        });
+    }
+
+    /**
+     * Commits the edits made in the grid to a result set in a single transaction. The script runs on
+     * a separate connection so the results of this query are kept.
+     * @returns A promise that resolves to the number of changed rows, and will be rejected if any
+     * of the changes could not be saved
+     */
+    public async commitEdits(
+        batchId: number,
+        resultId: number,
+        edits: ResultRowEdit[],
+    ): Promise<number> {
+        let params = new SimpleExecuteParams();
+        params.ownerUri = this.uri;
+        params.queryString = await this.getEditScript(
+            batchId,
+            resultId,
+            edits,
+            true,
+        );
+        const result = await this._client.sendRequest(
+            SimpleExecuteRequest.type,
+            params,
+        );
+        return Number(result.rows[0]?.[0]?.displayValue ?? 0);
+    }
+
     /**
      * Disposes the Query from the service client
      * @returns A promise that will be rejected if a problem occured
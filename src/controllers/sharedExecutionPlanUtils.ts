@@ -6,6 +6,7 @@
 import { getErrorMessage, getUniqueFilePath } from "../utils/utils";
 import { homedir } from "os";
 import {
+    ExecutionGraphComparisonResult,
     ExecutionPlanGraphInfo,
     ExecutionPlanReducers,
     ExecutionPlanWebviewState,
@@ -21,7 +22,16 @@ import {
 } from "../sharedInterfaces/telemetry";
 import { sendActionEvent } from "../telemetry/telemetry";
 import { sqlPlanLanguageId } from "../constants/constants";
-import { executionPlanFileFilter } from "../constants/locConstants";
+import {
+    executionPlanFileFilter,
+    htmlFileFilter,
+    pngFileFilter,
+    svgFileFilter,
+} from "../constants/locConstants";
+import {
+    ComparisonRegion,
+    OperatorCostDelta,
+} from "../sharedInterfaces/executionPlanComparison";
 
 export async function saveExecutionPlan(
     state: QueryResultWebviewState | ExecutionPlanWebviewState,
@@ -48,6 +58,44 @@ export async function saveExecutionPlan(
     return state;
 }
 
+export async function exportExecutionPlan(
+    state: QueryResultWebviewState | ExecutionPlanWebviewState,
+    payload: ExecutionPlanReducers["exportExecutionPlan"],
+) {
+    const fileFilters = {
+        svg: svgFileFilter,
+        png: pngFileFilter,
+        html: htmlFileFilter,
+    };
+    let folder = vscode.Uri.file(homedir());
+
+    const saveUri = await vscode.window.showSaveDialog({
+        defaultUri: await getUniqueFilePath(folder, `plan`, payload.format),
+        filters: {
+            [fileFilters[payload.format]]: [`.${payload.format}`],
+        },
+    });
+
+    if (saveUri) {
+        await vscode.workspace.fs.writeFile(
+            saveUri,
+            Buffer.from(
+                payload.content,
+                payload.format === "png" ? "base64" : "utf8",
+            ),
+        );
+        sendActionEvent(
+            TelemetryViews.ExecutionPlan,
+            TelemetryActions.ExportExecutionPlan,
+            {
+                format: payload.format,
+            },
+        );
+    }
+
+    return state;
+}
+
 export async function showPlanXml(
     state: QueryResultWebviewState | ExecutionPlanWebviewState,
     payload: ExecutionPlanReducers["showPlanXml"],
@@ -169,3 +217,93 @@ export function formatXml(xmlContents: string): string {
         return xmlContents;
     }
 }
+
+/**
+ * Gets the roots of the subtrees in a compared plan that have a match in the other plan.
+ * A node starts a new region when it has a match and its parent is not part of the same group.
+ */
+export function getMatchingRegions(
+    comparisonResult: ExecutionGraphComparisonResult,
+): ComparisonRegion[] {
+    const regions: ComparisonRegion[] = [];
+    const visit = (
+        node: ExecutionGraphComparisonResult,
+        parentGroupIndex: number | undefined,
+    ) => {
+        if (!node) {
+            return;
+        }
+        if (node.hasMatch && node.groupIndex !== parentGroupIndex) {
+            regions.push({
+                nodeId: `${node.baseNode.id}`,
+                groupIndex: node.groupIndex,
+            });
+        }
+        for (const child of node.children ?? []) {
+            visit(child, node.hasMatch ? node.groupIndex : undefined);
+        }
+    };
+    visit(comparisonResult, undefined);
+    return regions;
+}
+
+/**
+ * Calculates the cost difference of every operator in the first plan against its
+ * match in the second plan. Operators without a match are listed with only one side set.
+ */
+export function getOperatorCostDeltas(
+    firstComparisonResult: ExecutionGraphComparisonResult,
+    secondComparisonResult: ExecutionGraphComparisonResult,
+): OperatorCostDelta[] {
+    const flatten = (
+        node: ExecutionGraphComparisonResult,
+    ): ExecutionGraphComparisonResult[] =>
+        node ? [node, ...(node.children ?? []).flatMap((c) => flatten(c))] : [];
+
+    const secondNodes = flatten(secondComparisonResult);
+    const secondNodesById = new Map(
+        secondNodes.map((n) => [`${n.baseNode.id}`, n]),
+    );
+    const matchedSecondNodeIds = new Set<string>();
+    const deltas: OperatorCostDelta[] = [];
+
+    for (const first of flatten(firstComparisonResult)) {
+        const match = first.hasMatch
+            ? first.matchingNodesId
+                  ?.map((id) => secondNodesById.get(`${id}`))
+                  .find(
+                      (n) => n && !matchedSecondNodeIds.has(`${n.baseNode.id}`),
+                  )
+            : undefined;
+        const delta: OperatorCostDelta = {
+            operator: first.baseNode.name,
+            groupIndex: match ? first.groupIndex : -1,
+            firstNodeId: `${first.baseNode.id}`,
+            firstCost: first.baseNode.cost,
+            firstSubtreeCost: first.baseNode.subTreeCost,
+        };
+        if (match) {
+            matchedSecondNodeIds.add(`${match.baseNode.id}`);
+            delta.secondNodeId = `${match.baseNode.id}`;
+            delta.secondCost = match.baseNode.cost;
+            delta.secondSubtreeCost = match.baseNode.subTreeCost;
+            delta.costDelta = match.baseNode.cost - first.baseNode.cost;
+            delta.subtreeCostDelta =
+                match.baseNode.subTreeCost - first.baseNode.subTreeCost;
+        }
+        deltas.push(delta);
+    }
+
+    for (const second of secondNodes) {
+        if (!matchedSecondNodeIds.has(`${second.baseNode.id}`)) {
+            deltas.push({
+                operator: second.baseNode.name,
+                groupIndex: -1,
+                secondNodeId: `${second.baseNode.id}`,
+                secondCost: second.baseNode.cost,
+                secondSubtreeCost: second.baseNode.subTreeCost,
+            });
+        }
+    }
+    return deltas;
+}
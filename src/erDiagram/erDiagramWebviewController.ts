@@ -0,0 +1,328 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { homedir } from "os";
+import * as vscode from "vscode";
+import * as Constants from "../constants/constants";
+import * as LocalizedConstants from "../constants/locConstants";
+import ConnectionManager from "../controllers/connectionManager";
+import { ReactWebviewPanelController } from "../controllers/reactWebviewPanelController";
+import { SimpleExecuteRequest } from "../models/contracts/queryExecute";
+import { generateGuid } from "../models/utils";
+import { ObjectExplorerProvider } from "../objectExplorer/objectExplorerProvider";
+import {
+    DatabaseObjectType,
+    ObjectExplorerSearch,
+} from "../objectExplorer/objectExplorerSearch";
+import { ObjectExplorerUtils } from "../objectExplorer/objectExplorerUtils";
+import { TreeNodeInfo } from "../objectExplorer/treeNodeInfo";
+import { Deferred } from "../protocol";
+import { formatDataType, getObjectKey } from "../schemaDocs/schemaDocsUtils";
+import {
+    ErDiagramForeignKey,
+    ErDiagramReducers,
+    ErDiagramTable,
+    ErDiagramWebviewState,
+} from "../sharedInterfaces/erDiagram";
+import {
+    TelemetryActions,
+    TelemetryViews,
+} from "../sharedInterfaces/telemetry";
+import { ApiStatus } from "../sharedInterfaces/webview";
+import { sendActionEvent } from "../telemetry/telemetry";
+import { getErrorMessage, getUniqueFilePath } from "../utils/utils";
+
+const connectionUriScheme = "erDiagram";
+
+const columnsQuery = `SELECT s.name, t.name, c.name, ty.name, c.max_length, c.precision, c.scale,
+    c.is_nullable,
+    CASE WHEN EXISTS (SELECT 1 FROM sys.index_columns ic
+        JOIN sys.indexes i ON i.object_id = ic.object_id AND i.index_id = ic.index_id
+        WHERE i.is_primary_key = 1 AND ic.object_id = c.object_id AND ic.column_id = c.column_id)
+    THEN 1 ELSE 0 END
+FROM sys.columns c
+JOIN sys.tables t ON t.object_id = c.object_id
+JOIN sys.schemas s ON s.schema_id = t.schema_id
+JOIN sys.types ty ON ty.user_type_id = c.user_type_id
+WHERE t.is_ms_shipped = 0
+ORDER BY s.name, t.name, c.column_id`;
+
+const foreignKeysQuery = `SELECT s.name, t.name, fk.name, pc.name, rs.name, rt.name, rc.name
+FROM sys.foreign_keys fk
+JOIN sys.tables t ON t.object_id = fk.parent_object_id
+JOIN sys.schemas s ON s.schema_id = t.schema_id
+JOIN sys.tables rt ON rt.object_id = fk.referenced_object_id
+JOIN sys.schemas rs ON rs.schema_id = rt.schema_id
+JOIN sys.foreign_key_columns fkc ON fkc.constraint_object_id = fk.object_id
+JOIN sys.columns pc ON pc.object_id = fkc.parent_object_id AND pc.column_id = fkc.parent_column_id
+JOIN sys.columns rc ON rc.object_id = fkc.referenced_object_id AND rc.column_id = fkc.referenced_column_id
+WHERE t.is_ms_shipped = 0
+ORDER BY s.name, t.name, fk.name, fkc.constraint_column_id`;
+
+/**
+ * Shows the tables of a database, or of a schema, with the foreign keys between them
+ */
+export class ErDiagramWebviewController extends ReactWebviewPanelController<
+    ErDiagramWebviewState,
+    ErDiagramReducers
+> {
+    private _connectionUri = `${connectionUriScheme}:${generateGuid()}`;
+    private _objectExplorerSearch: ObjectExplorerSearch;
+
+    constructor(
+        context: vscode.ExtensionContext,
+        private _connectionManager: ConnectionManager,
+        objectExplorerProvider: ObjectExplorerProvider,
+        private _node: TreeNodeInfo,
+    ) {
+        super(
+            context,
+            "erDiagram",
+            {
+                loadStatus: ApiStatus.Loading,
+                databaseName: ObjectExplorerUtils.getDatabaseName(_node),
+                tables: [],
+                foreignKeys: [],
+                schemas: [],
+                selectedSchemas: [],
+            },
+            {
+                title: LocalizedConstants.erDiagramTitle(
+                    ObjectExplorerUtils.getDatabaseName(_node),
+                ),
+                viewColumn: vscode.ViewColumn.Active,
+                iconPath: {
+                    dark: vscode.Uri.joinPath(
+                        context.extensionUri,
+                        "media",
+                        "erDiagram_dark.svg",
+                    ),
+                    light: vscode.Uri.joinPath(
+                        context.extensionUri,
+                        "media",
+                        "erDiagram_light.svg",
+                    ),
+                },
+            },
+        );
+        this._objectExplorerSearch = new ObjectExplorerSearch(
+            _connectionManager,
+            objectExplorerProvider,
+        );
+        this.registerRpcHandlers();
+        this.registerDisposable({
+            dispose: () => {
+                void this._connectionManager.disconnect(this._connectionUri);
+            },
+        });
+        void this.loadDiagram();
+    }
+
+    /**
+     * Loads the tables and foreign keys of the database. The diagram of a schema node starts
+     * with only the tables of the schema.
+     * @param isRefresh Whether the diagram is reloaded, which keeps the selected schemas
+     */
+    private async loadDiagram(isRefresh: boolean = false): Promise<void> {
+        const databaseName = this.state.databaseName;
+        try {
+            if (!this._connectionManager.isConnected(this._connectionUri)) {
+                const connected = await this._connectionManager.connect(
+                    this._connectionUri,
+                    {
+                        ...this._node.connectionInfo,
+                        database: databaseName,
+                    },
+                    new Deferred<boolean>(),
+                );
+                if (!connected) {
+                    throw new Error(
+                        LocalizedConstants.msgErDiagramConnectionFailed(
+                            databaseName,
+                        ),
+                    );
+                }
+            }
+            const [columnRows, foreignKeyRows] = await Promise.all(
+                [columnsQuery, foreignKeysQuery].map((query) =>
+                    this._connectionManager.client.sendRequest(
+                        SimpleExecuteRequest.type,
+                        { ownerUri: this._connectionUri, queryString: query },
+                    ),
+                ),
+            );
+
+            const foreignKeys = new Map<string, ErDiagramForeignKey>();
+            for (const row of foreignKeyRows.rows) {
+                const [schema, table, name, column] = row.map(
+                    (cell) => cell.displayValue,
+                );
+                const key = `${getObjectKey(schema, table)}.${name}`;
+                let foreignKey = foreignKeys.get(key);
+                if (!foreignKey) {
+                    foreignKey = {
+                        name: name,
+                        schema: schema,
+                        table: table,
+                        columns: [],
+                        referencedSchema: row[4].displayValue,
+                        referencedTable: row[5].displayValue,
+                        referencedColumns: [],
+                    };
+                    foreignKeys.set(key, foreignKey);
+                }
+                foreignKey.columns.push(column);
+                foreignKey.referencedColumns.push(row[6].displayValue);
+            }
+            const foreignKeyColumns = new Set<string>();
+            for (const foreignKey of foreignKeys.values()) {
+                for (const column of foreignKey.columns) {
+                    foreignKeyColumns.add(
+                        `${getObjectKey(foreignKey.schema, foreignKey.table)}.${column}`,
+                    );
+                }
+            }
+
+            const tables = new Map<string, ErDiagramTable>();
+            for (const row of columnRows.rows) {
+                const [schema, table, column] = row.map(
+                    (cell) => cell.displayValue,
+                );
+                const key = getObjectKey(schema, table);
+                if (!tables.has(key)) {
+                    tables.set(key, {
+                        schema: schema,
+                        name: table,
+                        columns: [],
+                    });
+                }
+                tables.get(key).columns.push({
+                    name: column,
+                    dataType: formatDataType(
+                        row[3].displayValue,
+                        Number(row[4].displayValue),
+                        Number(row[5].displayValue),
+                        Number(row[6].displayValue),
+                    ),
+                    isNullable: row[7].displayValue === "1",
+                    isPrimaryKey: row[8].displayValue === "1",
+                    isForeignKey: foreignKeyColumns.has(`${key}.${column}`),
+                });
+            }
+
+            const schemas = [
+                ...new Set([...tables.values()].map((t) => t.schema)),
+            ];
+            const isSchemaNode =
+                this._node.metadata?.metadataTypeName === "Schema";
+            this.state = {
+                ...this.state,
+                loadStatus: ApiStatus.Loaded,
+                tables: [...tables.values()],
+                foreignKeys: [...foreignKeys.values()],
+                schemas: schemas,
+                selectedSchemas: isRefresh
+                    ? this.state.selectedSchemas.filter((s) =>
+                          schemas.includes(s),
+                      )
+                    : isSchemaNode
+                      ? [this._node.metadata.name]
+                      : schemas,
+                errorMessage: undefined,
+            };
+            sendActionEvent(
+                TelemetryViews.ErDiagram,
+                TelemetryActions.Load,
+                {
+                    isSchemaNode: isSchemaNode.toString(),
+                },
+                {
+                    tableCount: tables.size,
+                    foreignKeyCount: foreignKeys.size,
+                },
+            );
+        } catch (e) {
+            this.state = {
+                ...this.state,
+                loadStatus: ApiStatus.Error,
+                errorMessage: getErrorMessage(e),
+            };
+        }
+    }
+
+    private registerRpcHandlers() {
+        this.registerReducer("setSelectedSchemas", async (state, payload) => {
+            return {
+                ...state,
+                selectedSchemas: payload.schemas,
+            };
+        });
+        this.registerReducer("openTable", async (state, payload) => {
+            const tableNode = await this._objectExplorerSearch.findObjectNode(
+                this._node,
+                state.databaseName,
+                {
+                    type: DatabaseObjectType.Table,
+                    schema: payload.schema,
+                    name: payload.name,
+                },
+            );
+            if (tableNode) {
+                await vscode.commands.executeCommand(
+                    Constants.cmdEditTable,
+                    tableNode,
+                );
+            } else {
+                void vscode.window.showWarningMessage(
+                    LocalizedConstants.msgObjectNotFoundInObjectExplorer(
+                        getObjectKey(payload.schema, payload.name),
+                    ),
+                );
+            }
+            return state;
+        });
+        this.registerReducer("exportDiagram", async (state, payload) => {
+            const fileFilters = {
+                svg: LocalizedConstants.svgFileFilter,
+                png: LocalizedConstants.pngFileFilter,
+            };
+            const saveUri = await vscode.window.showSaveDialog({
+                defaultUri: await getUniqueFilePath(
+                    vscode.Uri.file(homedir()),
+                    state.databaseName,
+                    payload.format,
+                ),
+                filters: {
+                    [fileFilters[payload.format]]: [payload.format],
+                },
+            });
+            if (saveUri) {
+                await vscode.workspace.fs.writeFile(
+                    saveUri,
+                    Buffer.from(
+                        payload.content,
+                        payload.format === "png" ? "base64" : "utf8",
+                    ),
+                );
+                sendActionEvent(
+                    TelemetryViews.ErDiagram,
+                    TelemetryActions.ExportErDiagram,
+                    {
+                        format: payload.format,
+                    },
+                );
+            }
+            return state;
+        });
+        this.registerReducer("refresh", async (state) => {
+            this.state = {
+                ...state,
+                loadStatus: ApiStatus.Loading,
+            };
+            await this.loadDiagram(true);
+            return this.state;
+        });
+    }
+}
@@ -0,0 +1,332 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as LocalizedConstants from "../constants/locConstants";
+import {
+    FlatFileColumnMapping,
+    FlatFileImportTable,
+    FlatFileTargetColumn,
+    FlatFileValidationError,
+} from "../sharedInterfaces/flatFileImport";
+import { quoteName } from "../tableDesigner/tableFromFile";
+
+/**
+ * Maximum number of rows in a single INSERT ... VALUES statement
+ */
+const insertBatchSize = 1000;
+
+const integerRanges: { [type: string]: [number, number] } = {
+    tinyint: [0, 255],
+    smallint: [-32768, 32767],
+    int: [-2147483648, 2147483647],
+};
+
+const numericTypes = [
+    "tinyint",
+    "smallint",
+    "int",
+    "bigint",
+    "decimal",
+    "numeric",
+    "money",
+    "smallmoney",
+    "float",
+    "real",
+];
+
+const textTypes = ["char", "varchar", "nchar", "nvarchar"];
+
+const dateTypes = [
+    "date",
+    "datetime",
+    "datetime2",
+    "smalldatetime",
+    "datetimeoffset",
+];
+
+export interface FlatFileImportBatch {
+    script: string;
+    rowCount: number;
+}
+
+/**
+ * Maps the target columns to the file columns with the same name, ignoring the case, spaces,
+ * underscores, dashes and dots. Identity columns are left out unless they are mapped by the user, since
+ * their values are usually generated.
+ */
+export function getDefaultMappings(
+    targetColumns: FlatFileTargetColumn[],
+    fileColumns: string[],
+): FlatFileColumnMapping[] {
+    const normalize = (name: string) =>
+        name.toLowerCase().replace(/[\s_\-.]/g, "");
+    const fileColumnNames = fileColumns.map(normalize);
+    return targetColumns.map((column) => {
+        const index = fileColumnNames.indexOf(normalize(column.name));
+        return {
+            targetColumn: column.name,
+            fileColumn:
+                index >= 0 && column.isInsertable && !column.isIdentity
+                    ? index
+                    : undefined,
+        };
+    });
+}
+
+/**
+ * Gets the names of the target columns that need a value, but aren't mapped to a file column
+ */
+export function getUnmappedRequiredColumns(
+    targetColumns: FlatFileTargetColumn[],
+    mappings: FlatFileColumnMapping[],
+): string[] {
+    return targetColumns
+        .filter(
+            (column) =>
+                column.isInsertable &&
+                !column.allowNulls &&
+                !column.hasDefault &&
+                !column.isIdentity &&
+                getFileColumn(mappings, column) === undefined,
+        )
+        .map((column) => column.name);
+}
+
+/**
+ * Checks that the values of the mapped file columns can be converted to the types of the
+ * target columns
+ * @param maxErrors the maximum number of errors to return, all the errors are counted
+ */
+export function validateRows(
+    targetColumns: FlatFileTargetColumn[],
+    mappings: FlatFileColumnMapping[],
+    rows: (string | undefined)[][],
+    maxErrors: number,
+): { errors: FlatFileValidationError[]; errorCount: number } {
+    const errors: FlatFileValidationError[] = [];
+    let errorCount = 0;
+    const mappedColumns = getMappedColumns(targetColumns, mappings);
+    rows.forEach((row, rowIndex) => {
+        for (const { column, fileColumn } of mappedColumns) {
+            const message = validateValue(row[fileColumn], column);
+            if (message === undefined) {
+                continue;
+            }
+            errorCount++;
+            if (errors.length < maxErrors) {
+                errors.push({
+                    row: rowIndex,
+                    fileColumn: fileColumn,
+                    targetColumn: column.name,
+                    message: message,
+                });
+            }
+        }
+    });
+    return { errors: errors, errorCount: errorCount };
+}
+
+/**
+ * Gets the batches of INSERT statements that add the rows of the file to the table. Each
+ * batch returns the number of rows it inserted.
+ */
+export function getImportBatches(
+    table: FlatFileImportTable,
+    targetColumns: FlatFileTargetColumn[],
+    mappings: FlatFileColumnMapping[],
+    rows: (string | undefined)[][],
+): FlatFileImportBatch[] {
+    const tableName = `${quoteName(table.schema)}.${quoteName(table.name)}`;
+    const mappedColumns = getMappedColumns(targetColumns, mappings);
+    const columnNames = mappedColumns
+        .map(({ column }) => quoteName(column.name))
+        .join(", ");
+    const hasIdentity = mappedColumns.some(({ column }) => column.isIdentity);
+
+    const batches: FlatFileImportBatch[] = [];
+    for (let start = 0; start < rows.length; start += insertBatchSize) {
+        const batchRows = rows.slice(start, start + insertBatchSize);
+        const values = batchRows.map(
+            (row) =>
+                `(${mappedColumns.map(({ column, fileColumn }) => toSqlLiteral(row[fileColumn], column)).join(", ")})`,
+        );
+        let statements = [
+            `INSERT INTO ${tableName} (${columnNames})\nVALUES\n    ${values.join(",\n    ")};`,
+            "SELECT @@ROWCOUNT AS [RowCount];",
+        ];
+        if (hasIdentity) {
+            // the identity insert is turned off when the batch fails as well, since it stays on
+            // for the session otherwise
+            const identityInsertOff = `SET IDENTITY_INSERT ${tableName} OFF;`;
+            statements = [
+                `SET IDENTITY_INSERT ${tableName} ON;`,
+                "BEGIN TRY",
+                ...statements,
+                "END TRY",
+                "BEGIN CATCH",
+                identityInsertOff,
+                "THROW;",
+                "END CATCH",
+                identityInsertOff,
+            ];
+        }
+        batches.push({
+            script: statements.join("\n"),
+            rowCount: batchRows.length,
+        });
+    }
+    return batches;
+}
+
+/**
+ * Checks that a value of the file can be converted to the type of its target column
+ * @returns the localized error message, or undefined when the value is valid
+ */
+export function validateValue(
+    value: string | undefined,
+    column: FlatFileTargetColumn,
+): string | undefined {
+    if (value === undefined) {
+        return column.allowNulls
+            ? undefined
+            : LocalizedConstants.msgFlatFileValueRequired;
+    }
+    const invalidValue = LocalizedConstants.msgFlatFileInvalidValue(
+        value,
+        column.dataType,
+    );
+    const trimmed = value.trim();
+    switch (column.type) {
+        case "bit":
+            return /^(true|false|0|1)$/i.test(trimmed)
+                ? undefined
+                : invalidValue;
+        case "tinyint":
+        case "smallint":
+        case "int": {
+            if (!/^[-+]?\d+$/.test(trimmed)) {
+                return invalidValue;
+            }
+            const [min, max] = integerRanges[column.type];
+            const number = Number(trimmed);
+            return number >= min && number <= max
+                ? undefined
+                : LocalizedConstants.msgFlatFileValueOutOfRange(
+                      value,
+                      column.dataType,
+                  );
+        }
+        case "bigint": {
+            const match = /^([-+]?)0*(\d+)$/.exec(trimmed);
+            if (!match) {
+                return invalidValue;
+            }
+            const limit =
+                match[1] === "-"
+                    ? "9223372036854775808"
+                    : "9223372036854775807";
+            const digits = match[2];
+            return digits.length < limit.length ||
+                (digits.length === limit.length && digits <= limit)
+                ? undefined
+                : LocalizedConstants.msgFlatFileValueOutOfRange(
+                      value,
+                      column.dataType,
+                  );
+        }
+        case "decimal":
+        case "numeric": {
+            const match = /^[-+]?0*(\d*)(\.\d*)?$/.exec(trimmed);
+            if (!match || !/\d/.test(trimmed)) {
+                return invalidValue;
+            }
+            return match[1].length <= column.precision - column.scale
+                ? undefined
+                : LocalizedConstants.msgFlatFileValueOutOfRange(
+                      value,
+                      column.dataType,
+                  );
+        }
+        case "money":
+        case "smallmoney":
+            return /^[-+]?(\d+\.?\d*|\.\d+)$/.test(trimmed)
+                ? undefined
+                : invalidValue;
+        case "float":
+        case "real":
+            return trimmed !== "" && isFinite(Number(trimmed))
+                ? undefined
+                : invalidValue;
+        case "uniqueidentifier":
+            return /^\{?[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\}?$/i.test(
+                trimmed,
+            )
+                ? undefined
+                : invalidValue;
+        case "time":
+            return /^\d{1,2}:\d{2}(:\d{2}(\.\d{1,7})?)?$/.test(trimmed)
+                ? undefined
+                : invalidValue;
+        case "binary":
+        case "varbinary": {
+            if (!/^0x([0-9a-f]{2})*$/i.test(trimmed)) {
+                return invalidValue;
+            }
+            return column.maxLength < 0 ||
+                (trimmed.length - 2) / 2 <= column.maxLength
+                ? undefined
+                : LocalizedConstants.msgFlatFileValueTooLong(column.maxLength);
+        }
+    }
+    if (dateTypes.includes(column.type)) {
+        return isNaN(Date.parse(trimmed)) ? invalidValue : undefined;
+    }
+    if (textTypes.includes(column.type)) {
+        return column.maxLength < 0 || value.length <= column.maxLength
+            ? undefined
+            : LocalizedConstants.msgFlatFileValueTooLong(column.maxLength);
+    }
+    return undefined;
+}
+
+function getFileColumn(
+    mappings: FlatFileColumnMapping[],
+    column: FlatFileTargetColumn,
+): number | undefined {
+    return mappings.find((m) => m.targetColumn === column.name)?.fileColumn;
+}
+
+function getMappedColumns(
+    targetColumns: FlatFileTargetColumn[],
+    mappings: FlatFileColumnMapping[],
+): { column: FlatFileTargetColumn; fileColumn: number }[] {
+    return targetColumns
+        .map((column) => ({
+            column: column,
+            fileColumn: getFileColumn(mappings, column),
+        }))
+        .filter((m) => m.column.isInsertable && m.fileColumn !== undefined);
+}
+
+function toSqlLiteral(
+    value: string | undefined,
+    column: FlatFileTargetColumn,
+): string {
+    if (value === undefined) {
+        return "NULL";
+    }
+    const trimmed = value.trim();
+    if (column.type === "bit") {
+        return /^(true|1)$/i.test(trimmed) ? "1" : "0";
+    }
+    if (
+        numericTypes.includes(column.type) ||
+        column.type === "binary" ||
+        column.type === "varbinary"
+    ) {
+        return trimmed;
+    }
+    return `N'${value.replace(/'/g, "''")}'`;
+}
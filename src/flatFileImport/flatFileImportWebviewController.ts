@@ -0,0 +1,449 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from "path";
+import * as vscode from "vscode";
+import * as LocalizedConstants from "../constants/locConstants";
+import ConnectionManager from "../controllers/connectionManager";
+import { ReactWebviewPanelController } from "../controllers/reactWebviewPanelController";
+import { SimpleExecuteRequest } from "../models/contracts/queryExecute";
+import { generateGuid } from "../models/utils";
+import { ObjectExplorerUtils } from "../objectExplorer/objectExplorerUtils";
+import { TreeNodeInfo } from "../objectExplorer/treeNodeInfo";
+import { Deferred } from "../protocol";
+import { SqlTasksService, TaskStatus } from "../services/sqlTasksService";
+import {
+    FlatFileImportReducers,
+    FlatFileImportTable,
+    FlatFileImportWebviewState,
+    FlatFileTargetColumn,
+} from "../sharedInterfaces/flatFileImport";
+import {
+    TelemetryActions,
+    TelemetryViews,
+} from "../sharedInterfaces/telemetry";
+import { ApiStatus } from "../sharedInterfaces/webview";
+import { quoteName, readTableFile } from "../tableDesigner/tableFromFile";
+import { sendActionEvent } from "../telemetry/telemetry";
+import { getErrorMessage } from "../utils/utils";
+import {
+    getDefaultMappings,
+    getImportBatches,
+    getUnmappedRequiredColumns,
+    validateRows,
+} from "./flatFileImportUtils";
+
+const connectionUriScheme = "flatFileImport";
+
+/**
+ * Number of rows of the file shown in the preview
+ */
+const previewRowCount = 50;
+
+/**
+ * Maximum number of validation errors listed in the webview
+ */
+const maxValidationErrors = 100;
+
+const tablesQuery = `SELECT s.name, t.name
+FROM sys.tables t
+JOIN sys.schemas s ON s.schema_id = t.schema_id
+WHERE t.is_ms_shipped = 0
+ORDER BY s.name, t.name`;
+
+/**
+ * Imports the rows of a CSV, TSV or JSON file into an existing table, after the user maps the
+ * columns of the file to the columns of the table
+ */
+export class FlatFileImportWebviewController extends ReactWebviewPanelController<
+    FlatFileImportWebviewState,
+    FlatFileImportReducers
+> {
+    private _connectionUri = `${connectionUriScheme}:${generateGuid()}`;
+    private _databaseName: string;
+    private _rows: (string | undefined)[][] = [];
+    private _isImportCanceled = false;
+
+    constructor(
+        context: vscode.ExtensionContext,
+        private _connectionManager: ConnectionManager,
+        private _sqlTasksService: SqlTasksService,
+        private _node: TreeNodeInfo,
+    ) {
+        super(
+            context,
+            "flatFileImport",
+            {
+                loadStatus: ApiStatus.Loading,
+                tables: [],
+                targetColumns: [],
+                fileColumns: [],
+                previewRows: [],
+                rowCount: 0,
+                mappings: [],
+                unmappedRequiredColumns: [],
+                validationErrors: [],
+                validationErrorCount: 0,
+                importStatus: ApiStatus.NotStarted,
+                importedRowCount: 0,
+            },
+            {
+                title: LocalizedConstants.flatFileImportTitle(
+                    ObjectExplorerUtils.getDatabaseName(_node),
+                ),
+                viewColumn: vscode.ViewColumn.Active,
+                iconPath: {
+                    dark: vscode.Uri.joinPath(
+                        context.extensionUri,
+                        "media",
+                        "flatFileImport_dark.svg",
+                    ),
+                    light: vscode.Uri.joinPath(
+                        context.extensionUri,
+                        "media",
+                        "flatFileImport_light.svg",
+                    ),
+                },
+            },
+        );
+        this.registerRpcHandlers();
+        this.registerDisposable({
+            dispose: () => {
+                this._isImportCanceled = true;
+                void this._connectionManager.disconnect(this._connectionUri);
+            },
+        });
+        void this.initialize();
+    }
+
+    /**
+     * Connects to the database of the node and loads its tables, and the columns of the table
+     * when the node is a table
+     */
+    private async initialize(): Promise<void> {
+        this._databaseName = ObjectExplorerUtils.getDatabaseName(this._node);
+        try {
+            const connected = await this._connectionManager.connect(
+                this._connectionUri,
+                {
+                    ...this._node.connectionInfo,
+                    database: this._databaseName,
+                },
+                new Deferred<boolean>(),
+            );
+            if (!connected) {
+                throw new Error(
+                    LocalizedConstants.msgFlatFileImportConnectionFailed(
+                        this._databaseName,
+                    ),
+                );
+            }
+            const result = await this.executeQuery(tablesQuery);
+            const tables = result.rows.map((row) => ({
+                schema: row[0].displayValue,
+                name: row[1].displayValue,
+            }));
+            this.state = { ...this.state, tables: tables };
+
+            const table =
+                this._node.nodeType === "Table"
+                    ? tables.find(
+                          (t) =>
+                              t.schema === this._node.metadata.schema &&
+                              t.name === this._node.metadata.name,
+                      )
+                    : undefined;
+            this.state = table
+                ? await this.loadTable(this.state, table)
+                : { ...this.state, loadStatus: ApiStatus.Loaded };
+        } catch (e) {
+            this.state = {
+                ...this.state,
+                loadStatus: ApiStatus.Error,
+                errorMessage: getErrorMessage(e),
+            };
+        }
+    }
+
+    private registerRpcHandlers() {
+        this.registerReducer("selectTable", async (state, payload) => {
+            this.state = {
+                ...state,
+                loadStatus: ApiStatus.Loading,
+                errorMessage: undefined,
+            };
+            try {
+                return await this.loadTable(this.state, payload);
+            } catch (e) {
+                return {
+                    ...this.state,
+                    loadStatus: ApiStatus.Error,
+                    errorMessage: getErrorMessage(e),
+                };
+            }
+        });
+        this.registerReducer("selectFile", async (state) => {
+            const fileUris = await vscode.window.showOpenDialog({
+                canSelectMany: false,
+                filters: {
+                    [LocalizedConstants.tableDataFileFilter]: [
+                        "csv",
+                        "tsv",
+                        "txt",
+                        "json",
+                    ],
+                },
+            });
+            if (!fileUris || fileUris.length === 0) {
+                return state;
+            }
+            try {
+                const fileName = path.basename(fileUris[0].fsPath);
+                const content = await vscode.workspace.fs.readFile(fileUris[0]);
+                const data = readTableFile(
+                    Buffer.from(content).toString("utf8"),
+                    fileName,
+                );
+                this._rows = data.rows;
+                const fileColumns = data.columns.map((c) => c.name);
+                return this.validate({
+                    ...state,
+                    fileName: fileName,
+                    fileColumns: fileColumns,
+                    previewRows: data.rows.slice(0, previewRowCount),
+                    rowCount: data.rows.length,
+                    mappings: getDefaultMappings(
+                        state.targetColumns,
+                        fileColumns,
+                    ),
+                    importStatus: ApiStatus.NotStarted,
+                    importedRowCount: 0,
+                    errorMessage: undefined,
+                });
+            } catch (e) {
+                return { ...state, errorMessage: getErrorMessage(e) };
+            }
+        });
+        this.registerReducer("setColumnMapping", async (state, payload) => {
+            return this.validate({
+                ...state,
+                mappings: state.mappings.map((m) =>
+                    m.targetColumn === payload.targetColumn ? payload : m,
+                ),
+            });
+        });
+        this.registerReducer("importData", async (state) => {
+            return this.importData(state);
+        });
+    }
+
+    private async loadTable(
+        state: FlatFileImportWebviewState,
+        table: FlatFileImportTable,
+    ): Promise<FlatFileImportWebviewState> {
+        const objectName = `${quoteName(table.schema)}.${quoteName(table.name)}`;
+        const result = await this.executeQuery(`SELECT c.name,
+    TYPE_NAME(c.system_type_id),
+    CASE WHEN c.max_length > 0 AND TYPE_NAME(c.system_type_id) IN ('nchar', 'nvarchar') THEN c.max_length / 2 ELSE c.max_length END,
+    c.precision,
+    c.scale,
+    CAST(c.is_nullable AS int),
+    CAST(CASE WHEN c.default_object_id <> 0 THEN 1 ELSE 0 END AS int),
+    CAST(c.is_identity AS int),
+    CAST(c.is_computed AS int)
+FROM sys.columns c
+WHERE c.object_id = OBJECT_ID(N'${objectName.replace(/'/g, "''")}')
+ORDER BY c.column_id`);
+        const targetColumns = result.rows.map((row) =>
+            toTargetColumn(row.map((cell) => cell.displayValue)),
+        );
+        return this.validate({
+            ...state,
+            loadStatus: ApiStatus.Loaded,
+            table: table,
+            targetColumns: targetColumns,
+            mappings: getDefaultMappings(targetColumns, state.fileColumns),
+            importStatus: ApiStatus.NotStarted,
+            importedRowCount: 0,
+        });
+    }
+
+    private validate(
+        state: FlatFileImportWebviewState,
+    ): FlatFileImportWebviewState {
+        const { errors, errorCount } = validateRows(
+            state.targetColumns,
+            state.mappings,
+            this._rows,
+            maxValidationErrors,
+        );
+        return {
+            ...state,
+            unmappedRequiredColumns: getUnmappedRequiredColumns(
+                state.targetColumns,
+                state.mappings,
+            ),
+            validationErrors: errors,
+            validationErrorCount: errorCount,
+        };
+    }
+
+    /**
+     * Inserts the rows in batches, reporting the progress through a task so it stays visible when
+     * the webview is closed
+     */
+    private async importData(
+        state: FlatFileImportWebviewState,
+    ): Promise<FlatFileImportWebviewState> {
+        const startTime = performance.now(); // timer for telemetry
+        const tableName = `${state.table.schema}.${state.table.name}`;
+        const batches = getImportBatches(
+            state.table,
+            state.targetColumns,
+            state.mappings,
+            this._rows,
+        );
+        this._isImportCanceled = false;
+        const taskId = this._sqlTasksService.createTask(
+            LocalizedConstants.importFlatFileTaskName(
+                state.fileName,
+                tableName,
+            ),
+            this._node.connectionInfo.server,
+            this._databaseName,
+            () => {
+                this._isImportCanceled = true;
+            },
+        );
+        this.state = {
+            ...state,
+            importStatus: ApiStatus.Loading,
+            importedRowCount: 0,
+            errorMessage: undefined,
+        };
+
+        let importedRowCount = 0;
+        let status = TaskStatus.Succeeded;
+        let errorMessage: string | undefined;
+        try {
+            for (const batch of batches) {
+                if (this._isImportCanceled) {
+                    status = TaskStatus.Canceled;
+                    break;
+                }
+                await this._sqlTasksService.updateTask(
+                    taskId,
+                    TaskStatus.InProgress,
+                    LocalizedConstants.msgFlatFileImportProgress(
+                        importedRowCount,
+                        state.rowCount,
+                    ),
+                );
+                const result = await this.executeQuery(batch.script);
+                importedRowCount += Number(
+                    result.rows[0]?.[0]?.displayValue ?? batch.rowCount,
+                );
+                this.state = {
+                    ...this.state,
+                    importedRowCount: importedRowCount,
+                };
+            }
+        } catch (e) {
+            status = TaskStatus.Failed;
+            errorMessage = LocalizedConstants.msgFlatFileImportFailed(
+                importedRowCount,
+                getErrorMessage(e),
+            );
+        }
+
+        await this._sqlTasksService.updateTask(
+            taskId,
+            status,
+            errorMessage ??
+                LocalizedConstants.msgFlatFileImportProgress(
+                    importedRowCount,
+                    state.rowCount,
+                ),
+        );
+        sendActionEvent(
+            TelemetryViews.FlatFileImport,
+            TelemetryActions.ImportFlatFile,
+            {
+                status: TaskStatus[status],
+                fileType: path.extname(state.fileName).toLowerCase(),
+            },
+            {
+                rowCount: state.rowCount,
+                importedRowCount: importedRowCount,
+                mappedColumnCount: state.mappings.filter(
+                    (m) => m.fileColumn !== undefined,
+                ).length,
+                importTimeInMs: performance.now() - startTime,
+            },
+        );
+        return {
+            ...this.state,
+            importStatus:
+                status === TaskStatus.Failed
+                    ? ApiStatus.Error
+                    : status === TaskStatus.Succeeded
+                      ? ApiStatus.Loaded
+                      : ApiStatus.NotStarted,
+            importedRowCount: importedRowCount,
+            errorMessage: errorMessage,
+        };
+    }
+
+    private executeQuery(query: string) {
+        return this._connectionManager.client.sendRequest(
+            SimpleExecuteRequest.type,
+            { ownerUri: this._connectionUri, queryString: query },
+        );
+    }
+}
+
+/**
+ * Creates a target column from a row of the columns query
+ */
+function toTargetColumn(values: string[]): FlatFileTargetColumn {
+    const [
+        name,
+        type,
+        maxLength,
+        precision,
+        scale,
+        isNullable,
+        hasDefault,
+        isIdentity,
+        isComputed,
+    ] = values;
+    let dataType = type;
+    if (
+        [
+            "char",
+            "varchar",
+            "nchar",
+            "nvarchar",
+            "binary",
+            "varbinary",
+        ].includes(type)
+    ) {
+        dataType = `${type}(${maxLength === "-1" ? "max" : maxLength})`;
+    } else if (type === "decimal" || type === "numeric") {
+        dataType = `${type}(${precision}, ${scale})`;
+    }
+    return {
+        name: name,
+        type: type,
+        dataType: dataType,
+        maxLength: Number(maxLength),
+        precision: Number(precision),
+        scale: Number(scale),
+        allowNulls: isNullable === "1",
+        hasDefault: hasDefault === "1",
+        isIdentity: isIdentity === "1",
+        isInsertable: isComputed !== "1" && type !== "timestamp",
+    };
+}
@@ -0,0 +1,128 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import {
+    IScriptingParams,
+    ScriptOperation,
+} from "../models/contracts/scripting/scriptingRequest";
+import {
+    GenerateScriptsObject,
+    GenerateScriptsObjectType,
+    GenerateScriptsOptions,
+    ScriptCompatibilityOption,
+    TargetDatabaseEngineEdition,
+} from "../sharedInterfaces/generateScripts";
+
+/**
+ * Gets the type of an object from the type column of sys.objects
+ * @returns the type, or undefined when objects of the type can't be scripted by the wizard
+ */
+export function getObjectType(
+    sysObjectType: string,
+): GenerateScriptsObjectType | undefined {
+    switch (sysObjectType.trim()) {
+        case "U":
+            return GenerateScriptsObjectType.Table;
+        case "V":
+            return GenerateScriptsObjectType.View;
+        case "P":
+            return GenerateScriptsObjectType.StoredProcedure;
+        case "FN":
+        case "IF":
+        case "TF":
+            return GenerateScriptsObjectType.UserDefinedFunction;
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Gets the objects that are scripted with the options: the objects of the included types and
+ * schemas, or only the selected ones of them
+ */
+export function getScriptedObjects(
+    objects: GenerateScriptsObject[],
+    options: GenerateScriptsOptions,
+): GenerateScriptsObject[] {
+    return objects.filter(
+        (object, index) =>
+            options.includeTypes.includes(object.type) &&
+            options.includeSchemas.includes(object.schema) &&
+            (options.scriptEntireDatabase ||
+                options.selectedObjects.includes(index)),
+    );
+}
+
+/**
+ * Gets the compatibility option matching the major version of a server, such as 15 for SQL Server 2019
+ */
+export function getScriptCompatibilityOption(
+    serverMajorVersion: number | undefined,
+): ScriptCompatibilityOption {
+    const option = `Script${(serverMajorVersion ?? 0) * 10}Compat`;
+    return Object.values(ScriptCompatibilityOption).includes(
+        option as ScriptCompatibilityOption,
+    )
+        ? (option as ScriptCompatibilityOption)
+        : ScriptCompatibilityOption.Script140Compat;
+}
+
+/**
+ * Creates the params of a scripting request that writes the CREATE scripts, and or the data, of
+ * the objects to a file or to a folder with a file per object
+ * @param filePath The file, or the folder, the scripts are written to
+ */
+export function getGenerateScriptsParams(
+    objects: GenerateScriptsObject[],
+    options: GenerateScriptsOptions,
+    ownerUri: string,
+    filePath: string,
+): IScriptingParams {
+    const isAzure =
+        options.targetDatabaseEngineEdition ===
+            TargetDatabaseEngineEdition.SqlAzureDatabaseEdition ||
+        options.targetDatabaseEngineEdition ===
+            TargetDatabaseEngineEdition.SqlDatawarehouseEdition;
+    // the whole database is scripted with criteria, so that objects created after the wizard was
+    // opened are included as well
+    const scriptingObjects = options.scriptEntireDatabase
+        ? undefined
+        : getScriptedObjects(objects, options).map((object) => ({
+              type: object.type,
+              schema: object.schema,
+              name: object.name,
+          }));
+    return {
+        filePath: filePath,
+        scriptDestination: options.destination,
+        connectionString: undefined,
+        scriptingObjects: scriptingObjects,
+        includeObjectCriteria: undefined,
+        excludeObjectCriteria: undefined,
+        includeSchemas: options.scriptEntireDatabase
+            ? options.includeSchemas
+            : undefined,
+        excludeSchemas: undefined,
+        includeTypes: options.scriptEntireDatabase
+            ? options.includeTypes
+            : undefined,
+        excludeTypes: undefined,
+        scriptOptions: {
+            scriptCreateDrop: "ScriptCreate",
+            typeOfDataToScript: options.typeOfDataToScript,
+            scriptStatistics: "ScriptStatsNone",
+            targetDatabaseEngineEdition: options.targetDatabaseEngineEdition,
+            targetDatabaseEngineType: isAzure ? "SqlAzure" : "SingleInstance",
+            scriptCompatibilityOption: options.scriptCompatibilityOption,
+            includeDescriptiveHeaders: true,
+            schemaQualify: true,
+            continueScriptingOnError: false,
+        },
+        connectionDetails: undefined,
+        ownerURI: ownerUri,
+        selectScript: undefined,
+        operation: ScriptOperation.Create,
+    };
+}
@@ -0,0 +1,330 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { homedir } from "os";
+import * as vscode from "vscode";
+import * as LocalizedConstants from "../constants/locConstants";
+import ConnectionManager from "../controllers/connectionManager";
+import { ReactWebviewPanelController } from "../controllers/reactWebviewPanelController";
+import { SimpleExecuteRequest } from "../models/contracts/queryExecute";
+import { generateGuid } from "../models/utils";
+import { ObjectExplorerUtils } from "../objectExplorer/objectExplorerUtils";
+import { TreeNodeInfo } from "../objectExplorer/treeNodeInfo";
+import { Deferred } from "../protocol";
+import { ScriptingService } from "../scripting/scriptingService";
+import {
+    GenerateScriptsObject,
+    GenerateScriptsObjectType,
+    GenerateScriptsReducers,
+    GenerateScriptsWebviewState,
+    ScriptDataType,
+    ScriptDestination,
+    TargetDatabaseEngineEdition,
+} from "../sharedInterfaces/generateScripts";
+import {
+    TelemetryActions,
+    TelemetryViews,
+} from "../sharedInterfaces/telemetry";
+import { ApiStatus } from "../sharedInterfaces/webview";
+import { sendActionEvent } from "../telemetry/telemetry";
+import { getErrorMessage, getUniqueFilePath } from "../utils/utils";
+import {
+    getGenerateScriptsParams,
+    getObjectType,
+    getScriptCompatibilityOption,
+    getScriptedObjects,
+} from "./generateScriptsUtils";
+
+const connectionUriScheme = "generateScripts";
+
+const objectsQuery = `SELECT s.name, o.name, o.type
+FROM sys.objects o
+JOIN sys.schemas s ON s.schema_id = o.schema_id
+WHERE o.is_ms_shipped = 0 AND o.type IN ('U', 'V', 'P', 'FN', 'IF', 'TF')
+ORDER BY s.name, o.name`;
+
+/**
+ * Writes the scripts of the objects of a database, and or their data, to a file or to a file
+ * per object
+ */
+export class GenerateScriptsWebviewController extends ReactWebviewPanelController<
+    GenerateScriptsWebviewState,
+    GenerateScriptsReducers
+> {
+    private _connectionUri = `${connectionUriScheme}:${generateGuid()}`;
+    private _operationId: string | undefined;
+
+    constructor(
+        context: vscode.ExtensionContext,
+        private _connectionManager: ConnectionManager,
+        private _scriptingService: ScriptingService,
+        private _node: TreeNodeInfo,
+    ) {
+        super(
+            context,
+            "generateScripts",
+            {
+                loadStatus: ApiStatus.Loading,
+                databaseName: ObjectExplorerUtils.getDatabaseName(_node),
+                objects: [],
+                schemas: [],
+                options: {
+                    scriptEntireDatabase: false,
+                    includeTypes: Object.values(GenerateScriptsObjectType),
+                    includeSchemas: [],
+                    selectedObjects: [],
+                    typeOfDataToScript: ScriptDataType.SchemaOnly,
+                    targetDatabaseEngineEdition:
+                        TargetDatabaseEngineEdition.SqlServerEnterpriseEdition,
+                    scriptCompatibilityOption:
+                        getScriptCompatibilityOption(undefined),
+                    destination: ScriptDestination.ToSingleFile,
+                },
+                generateStatus: ApiStatus.NotStarted,
+                scriptedObjectCount: 0,
+                totalObjectCount: 0,
+            },
+            {
+                title: LocalizedConstants.generateScriptsTitle(
+                    ObjectExplorerUtils.getDatabaseName(_node),
+                ),
+                viewColumn: vscode.ViewColumn.Active,
+                iconPath: {
+                    dark: vscode.Uri.joinPath(
+                        context.extensionUri,
+                        "media",
+                        "generateScripts_dark.svg",
+                    ),
+                    light: vscode.Uri.joinPath(
+                        context.extensionUri,
+                        "media",
+                        "generateScripts_light.svg",
+                    ),
+                },
+            },
+        );
+        this.registerRpcHandlers();
+        this.registerDisposable({
+            dispose: () => {
+                void this._connectionManager.disconnect(this._connectionUri);
+            },
+        });
+        void this.initialize();
+    }
+
+    /**
+     * Connects to the database of the node and loads the objects that can be scripted
+     */
+    private async initialize(): Promise<void> {
+        const databaseName = this.state.databaseName;
+        try {
+            const connected = await this._connectionManager.connect(
+                this._connectionUri,
+                {
+                    ...this._node.connectionInfo,
+                    database: databaseName,
+                },
+                new Deferred<boolean>(),
+            );
+            if (!connected) {
+                throw new Error(
+                    LocalizedConstants.msgGenerateScriptsConnectionFailed(
+                        databaseName,
+                    ),
+                );
+            }
+            const result = await this._connectionManager.client.sendRequest(
+                SimpleExecuteRequest.type,
+                { ownerUri: this._connectionUri, queryString: objectsQuery },
+            );
+            const objects: GenerateScriptsObject[] = [];
+            for (const row of result.rows) {
+                const type = getObjectType(row[2].displayValue);
+                if (type) {
+                    objects.push({
+                        type: type,
+                        schema: row[0].displayValue,
+                        name: row[1].displayValue,
+                    });
+                }
+            }
+            const schemas = [...new Set(objects.map((o) => o.schema))];
+            const serverInfo = this._connectionManager.getServerInfo(
+                this._node.connectionInfo,
+            );
+            this.state = {
+                ...this.state,
+                loadStatus: ApiStatus.Loaded,
+                objects: objects,
+                schemas: schemas,
+                options: {
+                    ...this.state.options,
+                    includeSchemas: schemas,
+                    targetDatabaseEngineEdition:
+                        (this._scriptingService.targetDatabaseEngineEditionMap[
+                            serverInfo?.engineEditionId
+                        ] as TargetDatabaseEngineEdition) ??
+                        TargetDatabaseEngineEdition.SqlServerEnterpriseEdition,
+                    scriptCompatibilityOption: getScriptCompatibilityOption(
+                        serverInfo?.serverMajorVersion,
+                    ),
+                },
+            };
+        } catch (e) {
+            this.state = {
+                ...this.state,
+                loadStatus: ApiStatus.Error,
+                errorMessage: getErrorMessage(e),
+            };
+        }
+    }
+
+    private registerRpcHandlers() {
+        this.registerReducer("setOptions", async (state, payload) => {
+            return {
+                ...state,
+                options: { ...state.options, ...payload },
+            };
+        });
+        this.registerReducer("generateScripts", async (state) => {
+            return this.generateScripts(state);
+        });
+        this.registerReducer("cancelGenerateScripts", async (state) => {
+            if (this._operationId) {
+                await this._scriptingService.cancelScripting(this._operationId);
+            }
+            return state;
+        });
+        this.registerReducer("openOutput", async (state) => {
+            if (!state.outputPath) {
+                return state;
+            }
+            const outputUri = vscode.Uri.file(state.outputPath);
+            if (state.options.destination === ScriptDestination.ToSingleFile) {
+                const document =
+                    await vscode.workspace.openTextDocument(outputUri);
+                await vscode.window.showTextDocument(document);
+            } else {
+                await vscode.commands.executeCommand(
+                    "revealFileInOS",
+                    outputUri,
+                );
+            }
+            return state;
+        });
+    }
+
+    /**
+     * Asks for the file or the folder the scripts are written to, and waits for SQL Tools Service
+     * to write them
+     */
+    private async generateScripts(
+        state: GenerateScriptsWebviewState,
+    ): Promise<GenerateScriptsWebviewState> {
+        const outputUri = await this.getOutputUri(state);
+        if (!outputUri) {
+            return state;
+        }
+        const startTime = performance.now(); // timer for telemetry
+        this.state = {
+            ...state,
+            generateStatus: ApiStatus.Loading,
+            scriptedObjectCount: 0,
+            totalObjectCount: getScriptedObjects(state.objects, state.options)
+                .length,
+            outputPath: undefined,
+            errorMessage: undefined,
+        };
+
+        let generateStatus: ApiStatus;
+        let isCanceled = false;
+        let errorMessage: string | undefined;
+        try {
+            const operation = await this._scriptingService.scriptToFiles(
+                getGenerateScriptsParams(
+                    state.objects,
+                    state.options,
+                    this._connectionUri,
+                    outputUri.fsPath,
+                ),
+                (progress) => {
+                    this.state = {
+                        ...this.state,
+                        scriptedObjectCount: progress.completedCount,
+                        totalObjectCount: progress.totalCount,
+                    };
+                },
+            );
+            this._operationId = operation.operationId;
+            const result = await operation.completion;
+            if (result.canceled) {
+                generateStatus = ApiStatus.NotStarted;
+                isCanceled = true;
+            } else if (result.hasError || !result.success) {
+                generateStatus = ApiStatus.Error;
+                errorMessage =
+                    result.errorMessage ||
+                    LocalizedConstants.msgGenerateScriptsFailed;
+            } else {
+                generateStatus = ApiStatus.Loaded;
+            }
+        } catch (e) {
+            generateStatus = ApiStatus.Error;
+            errorMessage = getErrorMessage(e);
+        } finally {
+            this._operationId = undefined;
+        }
+
+        sendActionEvent(
+            TelemetryViews.GenerateScripts,
+            TelemetryActions.GenerateScripts,
+            {
+                status: isCanceled ? "canceled" : generateStatus,
+                scriptEntireDatabase: state.options.scriptEntireDatabase
+                    ? "true"
+                    : "false",
+                typeOfDataToScript: state.options.typeOfDataToScript,
+                destination: state.options.destination,
+            },
+            {
+                objectCount: this.state.totalObjectCount,
+                generateTimeInMs: performance.now() - startTime,
+            },
+        );
+        return {
+            ...this.state,
+            generateStatus: generateStatus,
+            outputPath:
+                generateStatus === ApiStatus.Loaded
+                    ? outputUri.fsPath
+                    : undefined,
+            errorMessage: errorMessage,
+        };
+    }
+
+    private async getOutputUri(
+        state: GenerateScriptsWebviewState,
+    ): Promise<vscode.Uri | undefined> {
+        if (state.options.destination === ScriptDestination.ToSingleFile) {
+            return vscode.window.showSaveDialog({
+                defaultUri: await getUniqueFilePath(
+                    vscode.Uri.file(homedir()),
+                    state.databaseName,
+                    "sql",
+                ),
+                filters: {
+                    [LocalizedConstants.sqlScriptFileFilter]: ["sql"],
+                },
+            });
+        }
+        const folderUris = await vscode.window.showOpenDialog({
+            canSelectFiles: false,
+            canSelectFolders: true,
+            canSelectMany: false,
+            openLabel: LocalizedConstants.selectScriptsFolder,
+        });
+        return folderUris?.[0];
+    }
+}
@@ -0,0 +1,639 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { IConnectionInfo } from "vscode-mssql";
+import { IConnectionDialogProfile } from "../sharedInterfaces/connectionDialog";
+import { AuthenticationTypes, EncryptOptions } from "./interfaces";
+import * as utils from "./utils";
+
+export enum ConnectionStringFormat {
+    AdoNet = "ADO.NET",
+    Jdbc = "JDBC",
+    Odbc = "ODBC",
+    Uri = "URI",
+    Go = "Go",
+    Node = "Node.js mssql",
+}
+
+/**
+ * Formats that connection strings can be copied as
+ */
+export const exportFormats = [
+    ConnectionStringFormat.AdoNet,
+    ConnectionStringFormat.Jdbc,
+    ConnectionStringFormat.Odbc,
+    ConnectionStringFormat.Go,
+    ConnectionStringFormat.Node,
+];
+
+/**
+ * Placeholder written instead of the password, which is never copied
+ */
+export const passwordPlaceholder = "{your_password}";
+
+const odbcDriver = "{ODBC Driver 18 for SQL Server}";
+
+/**
+ * Detects the format of a connection string. Anything that isn't recognized is assumed to be ADO.NET.
+ */
+export function getConnectionStringFormat(
+    connectionString: string,
+): ConnectionStringFormat {
+    const value = connectionString.trim();
+    if (/^jdbc:sqlserver:\/\//i.test(value)) {
+        return ConnectionStringFormat.Jdbc;
+    }
+    if (/^(sqlserver|mssql):\/\//i.test(value)) {
+        return ConnectionStringFormat.Uri;
+    }
+    const keys = parseKeyValuePairs(value);
+    if (keys.has("driver") || keys.has("dsn")) {
+        return ConnectionStringFormat.Odbc;
+    }
+    return ConnectionStringFormat.AdoNet;
+}
+
+/**
+ * Parses a JDBC, ODBC or URI connection string into the properties of a connection profile.
+ * @returns the properties of the connection, or undefined for ADO.NET connection strings,
+ * which the tools service accepts as they are
+ * @throws if the connection string is a malformed URI
+ */
+export function parseConnectionString(
+    connectionString: string,
+): IConnectionDialogProfile | undefined {
+    const value = connectionString.trim();
+    switch (getConnectionStringFormat(value)) {
+        case ConnectionStringFormat.Jdbc:
+            return parseJdbc(value);
+        case ConnectionStringFormat.Odbc:
+            return parseOdbc(value);
+        case ConnectionStringFormat.Uri:
+            return parseUri(value);
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Builds a connection string for a connection. The password is replaced with a placeholder.
+ */
+export function buildConnectionString(
+    connection: IConnectionInfo,
+    format: ConnectionStringFormat,
+): string {
+    switch (format) {
+        case ConnectionStringFormat.Jdbc:
+            return buildJdbc(connection);
+        case ConnectionStringFormat.Odbc:
+            return buildOdbc(connection);
+        case ConnectionStringFormat.Uri:
+        case ConnectionStringFormat.Go:
+            return buildUri(connection);
+        case ConnectionStringFormat.Node:
+            return buildNodeConfig(connection);
+        default:
+            return buildAdoNet(connection);
+    }
+}
+
+//#region Parsing
+
+/**
+ * Splits "key=value;key=value" pairs, allowing values to be wrapped in braces
+ * @returns the values by lowercase key
+ */
+function parseKeyValuePairs(value: string): Map<string, string> {
+    const pairs = new Map<string, string>();
+    const regex = /\s*([^=;]+?)\s*=\s*(\{(?:[^}]|\}\})*\}|[^;]*)\s*(?:;|$)/g;
+    let match = regex.exec(value);
+    while (match && match[0] !== "") {
+        let pairValue = match[2].trim();
+        if (pairValue.startsWith("{") && pairValue.endsWith("}")) {
+            pairValue = pairValue.slice(1, -1).replace(/\}\}/g, "}");
+        }
+        pairs.set(match[1].toLowerCase(), pairValue);
+        match = regex.exec(value);
+    }
+    return pairs;
+}
+
+function getFirst(
+    pairs: Map<string, string>,
+    ...keys: string[]
+): string | undefined {
+    for (const key of keys) {
+        const value = pairs.get(key);
+        if (value !== undefined && value !== "") {
+            return value;
+        }
+    }
+    return undefined;
+}
+
+function parseBoolean(value: string | undefined): boolean | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+    return ["true", "yes", "1"].includes(value.toLowerCase());
+}
+
+function parseEncrypt(value: string | undefined): string | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+    switch (value.toLowerCase()) {
+        case "strict":
+            return EncryptOptions.Strict;
+        case "true":
+        case "yes":
+        case "mandatory":
+            return EncryptOptions.Mandatory;
+        default:
+            return EncryptOptions.Optional;
+    }
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+    const result = Number(value);
+    return value === undefined || isNaN(result) ? undefined : result;
+}
+
+function getAuthenticationType(
+    authentication: string | undefined,
+    integratedSecurity: boolean | undefined,
+): string {
+    if (integratedSecurity) {
+        return utils.authTypeToString(AuthenticationTypes.Integrated);
+    }
+    if (
+        authentication &&
+        /^active\s*directory/i.test(authentication) &&
+        !/integrated/i.test(authentication)
+    ) {
+        return utils.authTypeToString(AuthenticationTypes.AzureMFA);
+    }
+    if (authentication && /integrated/i.test(authentication)) {
+        return utils.authTypeToString(AuthenticationTypes.Integrated);
+    }
+    return utils.authTypeToString(AuthenticationTypes.SqlLogin);
+}
+
+function getServer(
+    host: string,
+    instance: string | undefined,
+    port: string | undefined,
+): string {
+    const server = instance ? `${host}\\${instance}` : host;
+    return port ? `${server},${port}` : server;
+}
+
+function removeUndefined(
+    profile: IConnectionDialogProfile,
+): IConnectionDialogProfile {
+    Object.keys(profile).forEach((key) => {
+        if (profile[key] === undefined) {
+            delete profile[key];
+        }
+    });
+    return profile;
+}
+
+/**
+ * Parses "jdbc:sqlserver://host[\instance][:port][;property=value]*"
+ */
+function parseJdbc(value: string): IConnectionDialogProfile {
+    const body = value.replace(/^jdbc:sqlserver:\/\//i, "");
+    const separator = body.indexOf(";");
+    const address = separator === -1 ? body : body.substring(0, separator);
+    const pairs = parseKeyValuePairs(
+        separator === -1 ? "" : body.substring(separator + 1),
+    );
+
+    const addressMatch = /^([^\\:]*)(?:\\([^:]*))?(?::(\d+))?$/.exec(address);
+    const host = addressMatch?.[1] || getFirst(pairs, "servername") || "";
+    const instance = addressMatch?.[2] || getFirst(pairs, "instancename");
+    const port = addressMatch?.[3] || getFirst(pairs, "portnumber", "port");
+    const user = getFirst(pairs, "user", "username");
+    const password = getFirst(pairs, "password");
+
+    return removeUndefined({
+        server: getServer(host, instance, port),
+        database: getFirst(pairs, "databasename", "database"),
+        user: user,
+        password: password,
+        savePassword: password ? true : undefined,
+        authenticationType: getAuthenticationType(
+            getFirst(pairs, "authentication"),
+            parseBoolean(getFirst(pairs, "integratedsecurity")),
+        ),
+        encrypt: parseEncrypt(getFirst(pairs, "encrypt")),
+        trustServerCertificate: parseBoolean(
+            getFirst(pairs, "trustservercertificate"),
+        ),
+        hostNameInCertificate: getFirst(pairs, "hostnameincertificate"),
+        connectTimeout: parseNumber(getFirst(pairs, "logintimeout")),
+        applicationName: getFirst(pairs, "applicationname"),
+    } as IConnectionDialogProfile);
+}
+
+/**
+ * Parses "Driver={...};Server=host[,port];Database=...;Uid=...;Pwd=...;..."
+ */
+function parseOdbc(value: string): IConnectionDialogProfile {
+    const pairs = parseKeyValuePairs(value);
+    const server = (getFirst(pairs, "server", "address", "addr") ?? "").replace(
+        /^tcp:/i,
+        "",
+    );
+    const password = getFirst(pairs, "pwd", "password");
+
+    return removeUndefined({
+        server: server,
+        database: getFirst(pairs, "database", "initial catalog"),
+        user: getFirst(pairs, "uid", "user id", "user"),
+        password: password,
+        savePassword: password ? true : undefined,
+        authenticationType: getAuthenticationType(
+            getFirst(pairs, "authentication"),
+            parseBoolean(getFirst(pairs, "trusted_connection")),
+        ),
+        encrypt: parseEncrypt(getFirst(pairs, "encrypt")),
+        trustServerCertificate: parseBoolean(
+            getFirst(pairs, "trustservercertificate"),
+        ),
+        hostNameInCertificate: getFirst(pairs, "hostnameincertificate"),
+        connectTimeout: parseNumber(
+            getFirst(pairs, "connection timeout", "logintimeout", "timeout"),
+        ),
+        applicationName: getFirst(pairs, "app", "application name"),
+    } as IConnectionDialogProfile);
+}
+
+/**
+ * Parses "sqlserver://[user[:password]@]host[:port][/instance][?param=value&...]", as used by
+ * sqlcmd (go-sqlcmd) and the Go driver
+ */
+function parseUri(value: string): IConnectionDialogProfile {
+    const url = new URL(value.replace(/^mssql:/i, "sqlserver:"));
+    const pairs = new Map<string, string>();
+    url.searchParams.forEach((paramValue, key) =>
+        pairs.set(key.toLowerCase(), paramValue),
+    );
+    const instance = decodeURIComponent(url.pathname.replace(/^\/+/, ""));
+    const user = url.username ? decodeURIComponent(url.username) : undefined;
+    const password = url.password
+        ? decodeURIComponent(url.password)
+        : undefined;
+
+    return removeUndefined({
+        server: getServer(url.hostname, instance || undefined, url.port),
+        database: getFirst(pairs, "database", "initial catalog"),
+        user: user,
+        password: password,
+        savePassword: password ? true : undefined,
+        authenticationType: getAuthenticationType(
+            getFirst(pairs, "fedauth", "authentication"),
+            user === undefined && !getFirst(pairs, "fedauth", "authentication"),
+        ),
+        encrypt: parseEncrypt(getFirst(pairs, "encrypt")),
+        trustServerCertificate: parseBoolean(
+            getFirst(pairs, "trustservercertificate"),
+        ),
+        hostNameInCertificate: getFirst(pairs, "hostnameincertificate"),
+        connectTimeout: parseNumber(
+            getFirst(pairs, "connection timeout", "dial timeout"),
+        ),
+        applicationName: getFirst(pairs, "app name"),
+    } as IConnectionDialogProfile);
+}
+
+//#endregion
+
+//#region Building
+
+interface ServerAddress {
+    host: string;
+    instance?: string;
+    port?: number;
+}
+
+/**
+ * Splits a server name such as "tcp:host\instance,port" into its parts
+ */
+function getServerAddress(connection: IConnectionInfo): ServerAddress {
+    const match = /^(?:tcp:)?([^\\,]*)(?:\\([^,]*))?(?:,(\d+))?$/i.exec(
+        (connection.server ?? "").trim(),
+    );
+    const port = match?.[3] ? Number(match[3]) : connection.port || undefined;
+    return {
+        host: match?.[1] ?? connection.server,
+        instance: match?.[2] || undefined,
+        port: port,
+    };
+}
+
+function getAuthenticationTypeOf(
+    connection: IConnectionInfo,
+): AuthenticationTypes {
+    switch (connection.authenticationType) {
+        case utils.authTypeToString(AuthenticationTypes.Integrated):
+            return AuthenticationTypes.Integrated;
+        case utils.authTypeToString(AuthenticationTypes.AzureMFA):
+            return AuthenticationTypes.AzureMFA;
+        default:
+            return AuthenticationTypes.SqlLogin;
+    }
+}
+
+/**
+ * Gets the encryption of the connection as "true", "false" or "strict"
+ */
+function getEncrypt(connection: IConnectionInfo): string {
+    if (
+        connection.encrypt === true ||
+        connection.encrypt === EncryptOptions.Mandatory
+    ) {
+        return "true";
+    }
+    if (connection.encrypt === EncryptOptions.Strict) {
+        return "strict";
+    }
+    return "false";
+}
+
+function joinPairs(pairs: [string, string | number | undefined][]): string {
+    return pairs
+        .filter(([, value]) => value !== undefined && value !== "")
+        .map(([key, value]) => `${key}=${value};`)
+        .join("");
+}
+
+function buildAdoNet(connection: IConnectionInfo): string {
+    const address = getServerAddress(connection);
+    const authenticationType = getAuthenticationTypeOf(connection);
+    const encrypt = getEncrypt(connection);
+    let server = address.instance
+        ? `${address.host}\\${address.instance}`
+        : address.host;
+    if (address.port) {
+        server = `tcp:${server},${address.port}`;
+    }
+    return joinPairs([
+        ["Server", server],
+        ["Initial Catalog", connection.database],
+        [
+            "User ID",
+            authenticationType === AuthenticationTypes.Integrated
+                ? undefined
+                : connection.user,
+        ],
+        [
+            "Password",
+            authenticationType === AuthenticationTypes.SqlLogin
+                ? passwordPlaceholder
+                : undefined,
+        ],
+        [
+            "Integrated Security",
+            authenticationType === AuthenticationTypes.Integrated
+                ? "True"
+                : undefined,
+        ],
+        [
+            "Authentication",
+            authenticationType === AuthenticationTypes.AzureMFA
+                ? "Active Directory Interactive"
+                : undefined,
+        ],
+        [
+            "Encrypt",
+            encrypt === "strict"
+                ? "Strict"
+                : encrypt === "true"
+                  ? "True"
+                  : "False",
+        ],
+        [
+            "TrustServerCertificate",
+            connection.trustServerCertificate ? "True" : "False",
+        ],
+        ["HostNameInCertificate", connection.hostNameInCertificate],
+        ["Connection Timeout", connection.connectTimeout],
+        ["Application Name", connection.applicationName],
+    ]);
+}
+
+function buildJdbc(connection: IConnectionInfo): string {
+    const address = getServerAddress(connection);
+    const authenticationType = getAuthenticationTypeOf(connection);
+    let server = address.host;
+    if (address.instance) {
+        server += `\\${address.instance}`;
+    }
+    if (address.port) {
+        server += `:${address.port}`;
+    }
+    return `jdbc:sqlserver://${server};${joinPairs([
+        ["databaseName", connection.database],
+        [
+            "user",
+            authenticationType === AuthenticationTypes.Integrated
+                ? undefined
+                : connection.user,
+        ],
+        [
+            "password",
+            authenticationType === AuthenticationTypes.SqlLogin
+                ? passwordPlaceholder
+                : undefined,
+        ],
+        [
+            "integratedSecurity",
+            authenticationType === AuthenticationTypes.Integrated
+                ? "true"
+                : undefined,
+        ],
+        [
+            "authentication",
+            authenticationType === AuthenticationTypes.AzureMFA
+                ? "ActiveDirectoryInteractive"
+                : undefined,
+        ],
+        ["encrypt", getEncrypt(connection)],
+        [
+            "trustServerCertificate",
+            connection.trustServerCertificate ? "true" : "false",
+        ],
+        ["hostNameInCertificate", connection.hostNameInCertificate],
+        ["loginTimeout", connection.connectTimeout],
+        ["applicationName", connection.applicationName],
+    ])}`;
+}
+
+function buildOdbc(connection: IConnectionInfo): string {
+    const address = getServerAddress(connection);
+    const authenticationType = getAuthenticationTypeOf(connection);
+    const encrypt = getEncrypt(connection);
+    let server = address.instance
+        ? `${address.host}\\${address.instance}`
+        : address.host;
+    if (address.port) {
+        server = `tcp:${server},${address.port}`;
+    }
+    return joinPairs([
+        ["Driver", odbcDriver],
+        ["Server", server],
+        ["Database", connection.database],
+        [
+            "Uid",
+            authenticationType === AuthenticationTypes.Integrated
+                ? undefined
+                : connection.user,
+        ],
+        [
+            "Pwd",
+            authenticationType === AuthenticationTypes.SqlLogin
+                ? passwordPlaceholder
+                : undefined,
+        ],
+        [
+            "Trusted_Connection",
+            authenticationType === AuthenticationTypes.Integrated
+                ? "yes"
+                : undefined,
+        ],
+        [
+            "Authentication",
+            authenticationType === AuthenticationTypes.AzureMFA
+                ? "ActiveDirectoryInteractive"
+                : undefined,
+        ],
+        [
+            "Encrypt",
+            encrypt === "strict" ? "strict" : encrypt === "true" ? "yes" : "no",
+        ],
+        [
+            "TrustServerCertificate",
+            connection.trustServerCertificate ? "yes" : "no",
+        ],
+        ["HostNameInCertificate", connection.hostNameInCertificate],
+        ["Connection Timeout", connection.connectTimeout],
+        ["APP", connection.applicationName],
+    ]);
+}
+
+function buildUri(connection: IConnectionInfo): string {
+    const address = getServerAddress(connection);
+    const authenticationType = getAuthenticationTypeOf(connection);
+    let userInfo = "";
+    if (authenticationType === AuthenticationTypes.SqlLogin) {
+        userInfo = `${encodeURIComponent(connection.user ?? "")}:${passwordPlaceholder}@`;
+    } else if (
+        authenticationType === AuthenticationTypes.AzureMFA &&
+        connection.user
+    ) {
+        userInfo = `${encodeURIComponent(connection.user)}@`;
+    }
+
+    const params: [string, string | number | undefined][] = [
+        ["database", connection.database],
+        [
+            "fedauth",
+            authenticationType === AuthenticationTypes.AzureMFA
+                ? "ActiveDirectoryInteractive"
+                : undefined,
+        ],
+        ["encrypt", getEncrypt(connection)],
+        [
+            "TrustServerCertificate",
+            connection.trustServerCertificate ? "true" : "false",
+        ],
+        ["hostNameInCertificate", connection.hostNameInCertificate],
+        ["connection timeout", connection.connectTimeout],
+        ["app name", connection.applicationName],
+    ];
+    const query = params
+        .filter(([, value]) => value !== undefined && value !== "")
+        .map(
+            ([key, value]) =>
+                `${encodeURIComponent(key)}=${encodeURIComponent(value)}`,
+        )
+        .join("&");
+
+    const port = address.port ? `:${address.port}` : "";
+    const instance = address.instance
+        ? `/${encodeURIComponent(address.instance)}`
+        : "";
+    return `sqlserver://${userInfo}${address.host}${port}${instance}?${query}`;
+}
+
+/**
+ * The config object of the mssql package for Node.js
+ */
+interface NodeConfig {
+    server: string;
+    port?: number;
+    database?: string;
+    user?: string;
+    password?: string;
+    authentication?: {
+        type: string;
+    };
+    driver?: string;
+    options?: {
+        instanceName?: string;
+        encrypt: boolean | "strict";
+        trustServerCertificate: boolean;
+        trustedConnection?: boolean;
+        appName?: string;
+    };
+    connectionTimeout?: number;
+}
+
+/**
+ * Builds the config object of the mssql package for Node.js
+ */
+function buildNodeConfig(connection: IConnectionInfo): string {
+    const address = getServerAddress(connection);
+    const authenticationType = getAuthenticationTypeOf(connection);
+    const encrypt = getEncrypt(connection);
+    const config: NodeConfig = {
+        server: address.host,
+        port: address.port,
+        database: connection.database,
+    };
+    switch (authenticationType) {
+        case AuthenticationTypes.SqlLogin:
+            config.user = connection.user;
+            config.password = passwordPlaceholder;
+            break;
+        case AuthenticationTypes.AzureMFA:
+            config.authentication = {
+                type: "azure-active-directory-default",
+            };
+            break;
+        case AuthenticationTypes.Integrated:
+            // Windows authentication needs the msnodesqlv8 driver
+            config.driver = "msnodesqlv8";
+            break;
+    }
+    config.options = {
+        instanceName: address.instance,
+        encrypt: encrypt === "strict" ? "strict" : encrypt === "true",
+        trustServerCertificate: connection.trustServerCertificate ?? false,
+        trustedConnection:
+            authenticationType === AuthenticationTypes.Integrated
+                ? true
+                : undefined,
+        appName: connection.applicationName,
+    };
+    if (connection.connectTimeout) {
+        config.connectionTimeout = connection.connectTimeout * 1000;
+    }
+    return `const config = ${JSON.stringify(config, undefined, 4)};`;
+}
+
+//#endregion
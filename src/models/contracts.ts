@@ -78,6 +78,17 @@ export class SaveResultsAsExcelRequestParams extends SaveResultsRequestParams {
     includeHeaders: boolean = true;
 }
 
+export class SaveResultsAsMarkdownRequestParams extends SaveResultsRequestParams {
+    includeHeaders: boolean = true;
+    lineSeparator: string = undefined;
+    encoding: string = "utf-8";
+}
+
+export class SaveResultsAsXmlRequestParams extends SaveResultsRequestParams {
+    formatted: boolean = true;
+    encoding: string = "utf-8";
+}
+
 export class SaveResultRequestResult {
     messages: string;
 }
@@ -117,3 +128,27 @@ export namespace SaveResultsAsExcelRequest {
     >("query/saveExcel");
 }
 // --------------------------------- </ Save Results as Excel Request > ------------------------------------------
+
+// --------------------------------- < Save Results as Markdown Request > ------------------------------------------
+// save results in Markdown table format
+export namespace SaveResultsAsMarkdownRequest {
+    export const type = new RequestType<
+        SaveResultsAsMarkdownRequestParams,
+        SaveResultRequestResult,
+        void,
+        void
+    >("query/saveMarkdown");
+}
+// --------------------------------- </ Save Results as Markdown Request > ------------------------------------------
+
+// --------------------------------- < Save Results as XML Request > ------------------------------------------
+// save results in XML format
+export namespace SaveResultsAsXmlRequest {
+    export const type = new RequestType<
+        SaveResultsAsXmlRequestParams,
+        SaveResultRequestResult,
+        void,
+        void
+    >("query/saveXml");
+}
+// --------------------------------- </ Save Results as XML Request > ------------------------------------------
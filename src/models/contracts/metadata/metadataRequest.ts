@@ -13,6 +13,17 @@ export class MetadataQueryParams {
     public ownerUri: string;
 }
 
+/**
+ * The types of objects returned by the metadata request, the same values as the
+ * MetadataType of the vscode-mssql API
+ */
+export enum MetadataType {
+    Table = 0,
+    View = 1,
+    SProc = 2,
+    Function = 3,
+}
+
 export class MetadataQueryResult {
     public metadata: vscodeMssql.ObjectMetadata[];
 }
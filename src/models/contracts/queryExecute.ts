@@ -102,12 +102,52 @@ export namespace QueryExecuteStatementRequest {
     >("query/executedocumentstatement");
 }
 
+export namespace QueryExecuteStringRequest {
+    export const type = new RequestType<
+        QueryExecuteStringParams,
+        QueryExecuteResult,
+        void,
+        void
+    >("query/executeString");
+}
+
+// ------------------------------- < Simple Execute Request > ------------------------------------
+/**
+ * Executes a query on a new connection with the same connection details as the owner uri,
+ * without affecting the results shown for the owner uri
+ */
+export namespace SimpleExecuteRequest {
+    export const type = new RequestType<
+        SimpleExecuteParams,
+        SimpleExecuteResult,
+        void,
+        void
+    >("query/simpleexecute");
+}
+
+export class SimpleExecuteParams {
+    ownerUri: string;
+    queryString: string;
+}
+
+export class SimpleExecuteResult {
+    rowCount: number;
+    columnInfo: IDbColumn[];
+    rows: DbCellValue[][];
+}
+
 export class QueryExecuteParams {
     ownerUri: string;
     executionPlanOptions?: ExecutionPlanOptions;
     querySelection: ISelectionData;
 }
 
+export class QueryExecuteStringParams {
+    ownerUri: string;
+    executionPlanOptions?: ExecutionPlanOptions;
+    query: string;
+}
+
 export class QueryExecuteStatementParams {
     ownerUri: string;
     line: number;
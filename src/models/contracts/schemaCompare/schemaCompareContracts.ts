@@ -14,3 +14,57 @@ export namespace SchemaCompareGetDefaultOptionsRequest {
         void
     >("schemaCompare/getDefaultOptions");
 }
+
+export namespace SchemaCompareRequest {
+    export const type = new RequestType<
+        mssql.SchemaCompareParams,
+        mssql.SchemaCompareResult,
+        void,
+        void
+    >("schemaCompare/compare");
+}
+
+export namespace SchemaCompareGenerateScriptRequest {
+    export const type = new RequestType<
+        mssql.SchemaCompareGenerateScriptParams,
+        mssql.ResultStatus,
+        void,
+        void
+    >("schemaCompare/generateScript");
+}
+
+export namespace SchemaComparePublishDatabaseChangesRequest {
+    export const type = new RequestType<
+        mssql.SchemaComparePublishDatabaseChangesParams,
+        mssql.ResultStatus,
+        void,
+        void
+    >("schemaCompare/publishDatabase");
+}
+
+export namespace SchemaComparePublishProjectChangesRequest {
+    export const type = new RequestType<
+        mssql.SchemaComparePublishProjectChangesParams,
+        mssql.SchemaComparePublishProjectResult,
+        void,
+        void
+    >("schemaCompare/publishProject");
+}
+
+export namespace SchemaCompareIncludeExcludeNodeRequest {
+    export const type = new RequestType<
+        mssql.SchemaCompareNodeParams,
+        mssql.SchemaCompareIncludeExcludeResult,
+        void,
+        void
+    >("schemaCompare/includeExcludeNode");
+}
+
+export namespace SchemaCompareCancellationRequest {
+    export const type = new RequestType<
+        mssql.SchemaCompareCancelParams,
+        mssql.ResultStatus,
+        void,
+        void
+    >("schemaCompare/cancel");
+}
@@ -3,7 +3,7 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { RequestType } from "vscode-jsonrpc";
+import { NotificationType, RequestType } from "vscode-jsonrpc";
 
 export interface IConnectionInfo {
     options: { [name: string]: any };
@@ -301,6 +301,52 @@ export interface IScriptingResult {
     script: string;
 }
 
+export interface IScriptingProgressNotificationParams {
+    operationId: string;
+
+    /**
+     * The object that was scripted, or that failed to be scripted
+     */
+    scriptingObject: IScriptingObject;
+
+    /**
+     * Scripting status of the object, such as Completed or Error
+     */
+    status: string;
+
+    /**
+     * Number of objects scripted so far
+     */
+    completedCount: number;
+
+    /**
+     * Total number of objects to script
+     */
+    totalCount: number;
+
+    errorMessage?: string;
+
+    errorDetails?: string;
+}
+
+export interface IScriptingCompleteParams {
+    operationId: string;
+
+    errorDetails?: string;
+
+    errorMessage?: string;
+
+    hasError: boolean;
+
+    canceled: boolean;
+
+    success: boolean;
+}
+
+export interface IScriptingCancelParams {
+    operationId: string;
+}
+
 // ------------------------------- < Scripting Request > ----------------------------------------------
 
 export namespace ScriptingRequest {
@@ -314,3 +360,35 @@ export namespace ScriptingRequest {
         void
     >("scripting/script");
 }
+
+// ------------------------------- < Scripting Notifications > ----------------------------------------
+
+export namespace ScriptingProgressNotification {
+    /**
+     * Sent when an object is scripted by an operation that writes the scripts to files
+     */
+    export const type = new NotificationType<
+        IScriptingProgressNotificationParams,
+        void
+    >("scripting/scriptProgress");
+}
+
+export namespace ScriptingCompleteNotification {
+    /**
+     * Sent when an operation that writes the scripts to files completes, fails or is canceled
+     */
+    export const type = new NotificationType<IScriptingCompleteParams, void>(
+        "scripting/scriptComplete",
+    );
+}
+
+// ------------------------------- < Scripting Cancel Request > ---------------------------------------
+
+export namespace ScriptingCancelRequest {
+    /**
+     * Cancels an operation that writes the scripts to files
+     */
+    export const type = new RequestType<IScriptingCancelParams, {}, void, void>(
+        "scripting/scriptCancel",
+    );
+}
@@ -62,10 +62,32 @@ export interface IConnectionProfile extends vscodeMssql.IConnectionInfo {
     emptyPasswordInput: boolean;
     azureAuthType: AzureAuthType;
     accountStore: AccountStore;
+    /** Id of the connection group the profile is shown in, the profile is shown at the root when not set */
+    groupId?: string;
+    /** The kind of environment the connection is used in, production connections are guarded against destructive queries */
+    environment?: ConnectionEnvironment;
     isValidProfile(): boolean;
     isAzureActiveDirectory(): boolean;
 }
 
+export enum ConnectionEnvironment {
+    Development = "dev",
+    Test = "test",
+    Production = "prod",
+}
+
+/**
+ * A named folder that connection profiles are organized in. Groups can be nested in other groups.
+ */
+export interface IConnectionGroup {
+    id: string;
+    name: string;
+    /** Id of the group this group is nested in, the group is shown at the root when not set */
+    parentId?: string;
+    /** Name of the color the group's icon is shown in, one of Constants.connectionGroupColors */
+    color?: string;
+}
+
 export enum CredentialsQuickPickItemType {
     Profile,
     Mru,
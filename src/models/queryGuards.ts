@@ -0,0 +1,220 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+/**
+ * Statements that require confirmation before they are run against a production connection
+ */
+export enum GuardedStatementType {
+    UpdateWithoutWhere = "updateWithoutWhere",
+    DeleteWithoutWhere = "deleteWithoutWhere",
+    Drop = "drop",
+    Truncate = "truncate",
+}
+
+// keywords that start a new statement, T-SQL does not require statements to end with a semicolon
+const statementKeywords = new Set([
+    "ALTER",
+    "BEGIN",
+    "BREAK",
+    "COMMIT",
+    "CONTINUE",
+    "CREATE",
+    "DECLARE",
+    "DELETE",
+    "DENY",
+    "DROP",
+    "ELSE",
+    "END",
+    "EXEC",
+    "EXECUTE",
+    "GO",
+    "GOTO",
+    "GRANT",
+    "IF",
+    "INSERT",
+    "MERGE",
+    "PRINT",
+    "RAISERROR",
+    "RETURN",
+    "REVOKE",
+    "ROLLBACK",
+    "SAVE",
+    "SELECT",
+    "SET",
+    "THROW",
+    "TRUNCATE",
+    "UPDATE",
+    "USE",
+    "WAITFOR",
+    "WHILE",
+]);
+
+// keywords after which UPDATE and DELETE are not statements, as in triggers, foreign keys and permissions
+const nonStatementPredecessors = new Set([
+    ",",
+    "AFTER",
+    "DENY",
+    "FOR",
+    "GRANT",
+    "OF",
+    "ON",
+    "REVOKE",
+]);
+
+interface Token {
+    text: string;
+    depth: number;
+}
+
+/**
+ * Finds the statements in a query that should be confirmed before running it against a production
+ * connection. The query is not parsed, so this errs on the side of reporting a statement.
+ * @returns the types of the statements that were found, in the order of the enum
+ */
+export function findGuardedStatements(query: string): GuardedStatementType[] {
+    const tokens = tokenize(query);
+    const found = new Set<GuardedStatementType>();
+    tokens.forEach((token, index) => {
+        const previous = tokens[index - 1]?.text;
+        const next = tokens[index + 1]?.text;
+        switch (token.text) {
+            case "DROP":
+                found.add(GuardedStatementType.Drop);
+                break;
+            case "TRUNCATE":
+                if (next === "TABLE") {
+                    found.add(GuardedStatementType.Truncate);
+                }
+                break;
+            case "UPDATE":
+            case "DELETE":
+                if (
+                    nonStatementPredecessors.has(previous) ||
+                    // the UPDATE() function of triggers
+                    next === "(" ||
+                    next === "," ||
+                    next === "ON" ||
+                    next === "STATISTICS" ||
+                    hasWhereClause(tokens, index)
+                ) {
+                    break;
+                }
+                found.add(
+                    token.text === "UPDATE"
+                        ? GuardedStatementType.UpdateWithoutWhere
+                        : GuardedStatementType.DeleteWithoutWhere,
+                );
+                break;
+        }
+    });
+    return Object.values(GuardedStatementType).filter((type) =>
+        found.has(type),
+    );
+}
+
+/**
+ * Whether the UPDATE or DELETE statement starting at the token has a WHERE clause of its own
+ */
+function hasWhereClause(tokens: Token[], start: number): boolean {
+    const depth = tokens[start].depth;
+    // the SET clause of an UPDATE statement does not start a new statement
+    let allowSet = tokens[start].text === "UPDATE";
+    for (let i = start + 1; i < tokens.length; i++) {
+        const token = tokens[i];
+        if (token.depth < depth || token.text === ";") {
+            return false;
+        }
+        if (token.depth > depth) {
+            continue;
+        }
+        if (token.text === "WHERE") {
+            return true;
+        }
+        if (token.text === "SET" && allowSet) {
+            allowSet = false;
+            continue;
+        }
+        if (statementKeywords.has(token.text)) {
+            return false;
+        }
+    }
+    return false;
+}
+
+/**
+ * Splits a query into upper case words and punctuation, skipping comments, string literals and
+ * quoted identifiers. Each token records how deeply it is nested in parentheses.
+ */
+function tokenize(query: string): Token[] {
+    const tokens: Token[] = [];
+    let depth = 0;
+    let i = 0;
+    while (i < query.length) {
+        const char = query[i];
+        if (char === "-" && query[i + 1] === "-") {
+            const end = query.indexOf("\n", i);
+            i = end < 0 ? query.length : end + 1;
+        } else if (char === "/" && query[i + 1] === "*") {
+            i = skipBlockComment(query, i);
+        } else if (char === "'" || char === '"' || char === "[") {
+            i = skipQuoted(query, i, char === "[" ? "]" : char);
+            tokens.push({ text: "", depth: depth });
+        } else if (/[A-Za-z_@#]/.test(char)) {
+            const match = /^[A-Za-z0-9_@#$]+/.exec(query.substring(i));
+            tokens.push({ text: match[0].toUpperCase(), depth: depth });
+            i += match[0].length;
+        } else if (char === "(") {
+            tokens.push({ text: "(", depth: depth });
+            depth++;
+            i++;
+        } else if (char === ")") {
+            depth = Math.max(0, depth - 1);
+            tokens.push({ text: ")", depth: depth });
+            i++;
+        } else if (char === ";" || char === ",") {
+            tokens.push({ text: char, depth: depth });
+            i++;
+        } else {
+            i++;
+        }
+    }
+    return tokens;
+}
+
+function skipBlockComment(query: string, start: number): number {
+    // block comments can be nested
+    let nesting = 0;
+    let i = start;
+    while (i < query.length) {
+        if (query.startsWith("/*", i)) {
+            nesting++;
+            i += 2;
+        } else if (query.startsWith("*/", i)) {
+            nesting--;
+            i += 2;
+            if (nesting === 0) {
+                return i;
+            }
+        } else {
+            i++;
+        }
+    }
+    return i;
+}
+
+function skipQuoted(query: string, start: number, closingChar: string): number {
+    let i = start + 1;
+    while (i < query.length) {
+        if (query[i] === closingChar) {
+            // a doubled closing character is an escaped one
+            if (query[i + 1] !== closingChar) {
+                return i + 1;
+            }
+            i++;
+        }
+        i++;
+    }
+    return i;
+}
@@ -0,0 +1,292 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+/**
+ * The kind of placeholder a query parameter was found as
+ */
+export enum QueryParameterKind {
+    /** A $(name) reference without a matching :setvar */
+    SqlCmdVariable = "sqlCmdVariable",
+    /** An @name reference that is never declared in the script */
+    Variable = "variable",
+}
+
+/**
+ * A value the user has to provide before the query can be executed
+ */
+export interface IQueryParameter {
+    kind: QueryParameterKind;
+    /** Name as it is written in the script, including the $() or @ */
+    displayName: string;
+    /** Case-insensitive key used to match references and remember values */
+    key: string;
+}
+
+const sqlCmdReferenceRegex = /\$\(([A-Za-z_][\w-]*)\)/g;
+const setVarRegex =
+    /^[ \t]*:setvar[ \t]+([A-Za-z_][\w-]*)(?:[ \t]+(\S.*))?$/gim;
+// the leading group keeps @@ system functions and names like a@b from matching
+const variableRegex = /(^|[^\w@$#])(@(?!@)([A-Za-z_#$][\w@$#]*))/g;
+const declareRegex = /\bDECLARE\b/gi;
+const routineHeaderRegex =
+    /\b(?:CREATE|ALTER)\s+(?:OR\s+ALTER\s+)?(?:PROC|PROCEDURE|FUNCTION|TRIGGER)\b[\s\S]*?\bAS\b/gi;
+const executeRegex = /\bEXEC(?:UTE)?\b[^;\n]*/gi;
+const namedArgumentRegex = /(^|[^\w@$#])(@(?!@)[A-Za-z_#$][\w@$#]*)(?=\s*=)/g;
+export const numericLiteralRegex = /^[+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?$/;
+export const binaryLiteralRegex = /^0x[0-9a-f]*$/i;
+const stringLiteralRegex = /^N?'(?:[^']|'')*'$/i;
+
+/**
+ * Replaces comments, and optionally string literals and delimited identifiers, with
+ * spaces so that the remaining text can be searched without false matches.
+ * Line breaks and offsets are preserved.
+ */
+export function maskQueryText(query: string, maskLiterals: boolean): string {
+    const chars = query.split("");
+    const blank = (start: number, end: number) => {
+        for (let i = start; i < end && i < chars.length; i++) {
+            if (chars[i] !== "\n" && chars[i] !== "\r") {
+                chars[i] = " ";
+            }
+        }
+    };
+    let i = 0;
+    while (i < query.length) {
+        const char = query[i];
+        const next = query[i + 1];
+        if (char === "-" && next === "-") {
+            const end = query.indexOf("\n", i);
+            const stop = end === -1 ? query.length : end;
+            blank(i, stop);
+            i = stop;
+        } else if (char === "/" && next === "*") {
+            // block comments can be nested in T-SQL
+            let depth = 0;
+            let j = i;
+            while (j < query.length) {
+                if (query[j] === "/" && query[j + 1] === "*") {
+                    depth++;
+                    j += 2;
+                } else if (query[j] === "*" && query[j + 1] === "/") {
+                    depth--;
+                    j += 2;
+                    if (depth === 0) {
+                        break;
+                    }
+                } else {
+                    j++;
+                }
+            }
+            blank(i, j);
+            i = j;
+        } else if (char === "'" || char === '"' || char === "[") {
+            // literals are always skipped so that comment markers inside them are ignored
+            const closing = char === "[" ? "]" : char;
+            let j = i + 1;
+            while (j < query.length) {
+                if (query[j] === closing) {
+                    // a doubled closing character is an escaped one
+                    if (query[j + 1] === closing) {
+                        j += 2;
+                        continue;
+                    }
+                    j++;
+                    break;
+                }
+                j++;
+            }
+            if (maskLiterals) {
+                blank(i, j);
+            }
+            i = j;
+        } else {
+            i++;
+        }
+    }
+    return chars.join("");
+}
+
+/**
+ * Finds the SQLCMD variables and @ variables in a script that have no value assigned to them,
+ * in the order they first appear
+ */
+export function findQueryParameters(query: string): IQueryParameter[] {
+    const parameters = new Map<string, IQueryParameter & { index: number }>();
+    const add = (
+        kind: QueryParameterKind,
+        displayName: string,
+        index: number,
+    ) => {
+        const key = displayName.toLowerCase();
+        if (!parameters.has(key)) {
+            parameters.set(key, { kind, displayName, key, index });
+        }
+    };
+
+    // SQLCMD substitutes variables inside string literals and identifiers, so only comments are skipped
+    const withoutComments = maskQueryText(query, false);
+    const setVariables = new Set<string>();
+    for (const match of withoutComments.matchAll(setVarRegex)) {
+        if (match[2] !== undefined) {
+            setVariables.add(match[1].toLowerCase());
+        }
+    }
+    for (const match of withoutComments.matchAll(sqlCmdReferenceRegex)) {
+        if (!setVariables.has(match[1].toLowerCase())) {
+            add(QueryParameterKind.SqlCmdVariable, match[0], match.index);
+        }
+    }
+
+    const masked = maskQueryText(withoutComments, true);
+    const declared = getDeclaredVariables(masked);
+    const namedArguments = getNamedArgumentOffsets(masked);
+    for (const match of masked.matchAll(variableRegex)) {
+        const index = match.index + match[1].length;
+        if (
+            !declared.has(match[3].toLowerCase()) &&
+            !namedArguments.has(index)
+        ) {
+            add(QueryParameterKind.Variable, match[2], index);
+        }
+    }
+
+    return Array.from(parameters.values())
+        .sort((a, b) => a.index - b.index)
+        .map(({ kind, displayName, key }) => ({ kind, displayName, key }));
+}
+
+/**
+ * Replaces the references to the given parameters with their values. SQLCMD variables are
+ * substituted as plain text, @ variables are replaced with a T-SQL literal.
+ * @param values values keyed by the parameter key
+ */
+export function substituteQueryParameters(
+    query: string,
+    values: { [key: string]: string },
+): string {
+    const withoutComments = maskQueryText(query, false);
+    const replacements: { index: number; length: number; value: string }[] = [];
+    for (const match of withoutComments.matchAll(sqlCmdReferenceRegex)) {
+        const value = values[match[0].toLowerCase()];
+        if (value !== undefined) {
+            replacements.push({
+                index: match.index,
+                length: match[0].length,
+                value: value,
+            });
+        }
+    }
+
+    const masked = maskQueryText(withoutComments, true);
+    const namedArguments = getNamedArgumentOffsets(masked);
+    for (const match of masked.matchAll(variableRegex)) {
+        const index = match.index + match[1].length;
+        const value = values[match[2].toLowerCase()];
+        if (value !== undefined && !namedArguments.has(index)) {
+            replacements.push({
+                index: index,
+                length: match[2].length,
+                value: formatParameterValue(value),
+            });
+        }
+    }
+
+    // replace from the end so earlier offsets stay valid
+    let result = query;
+    for (const r of replacements.sort((a, b) => b.index - a.index)) {
+        result =
+            result.substring(0, r.index) +
+            r.value +
+            result.substring(r.index + r.length);
+    }
+    return result;
+}
+
+/**
+ * Converts a value entered by the user to a T-SQL literal. Numbers, NULL, binary values and
+ * values that are already quoted are used as-is, everything else becomes a Unicode string.
+ */
+export function formatParameterValue(value: string): string {
+    const trimmed = value.trim();
+    if (
+        /^NULL$/i.test(trimmed) ||
+        numericLiteralRegex.test(trimmed) ||
+        binaryLiteralRegex.test(trimmed) ||
+        stringLiteralRegex.test(trimmed)
+    ) {
+        return trimmed;
+    }
+    return `N'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Gets the names of the variables declared with DECLARE or as routine parameters.
+ * Expects the comments and literals to be masked already.
+ */
+function getDeclaredVariables(masked: string): Set<string> {
+    const declared = new Set<string>();
+
+    for (const match of masked.matchAll(declareRegex)) {
+        let i = match.index + match[0].length;
+        let depth = 0;
+        let expectName = true;
+        let lastNonSpace = "";
+        while (i < masked.length) {
+            const char = masked[i];
+            if (expectName) {
+                const name = /^\s*@([A-Za-z_#$][\w@$#]*)/.exec(
+                    masked.substring(i),
+                );
+                if (!name) {
+                    break;
+                }
+                declared.add(name[1].toLowerCase());
+                i += name[0].length;
+                expectName = false;
+                continue;
+            }
+            if (char === "(") {
+                depth++;
+            } else if (char === ")") {
+                depth--;
+            } else if (depth === 0 && char === ",") {
+                expectName = true;
+            } else if (depth === 0 && char === ";") {
+                break;
+            } else if (depth === 0 && char === "\n") {
+                // the declaration only continues on the next line after a trailing or leading comma
+                const nextNonSpace = /\S/.exec(masked.substring(i))?.[0];
+                if (lastNonSpace !== "," && nextNonSpace !== ",") {
+                    break;
+                }
+            }
+            if (!/\s/.test(char)) {
+                lastNonSpace = char;
+            }
+            i++;
+        }
+    }
+
+    for (const match of masked.matchAll(routineHeaderRegex)) {
+        for (const variable of match[0].matchAll(variableRegex)) {
+            declared.add(variable[3].toLowerCase());
+        }
+    }
+    return declared;
+}
+
+/**
+ * Gets the offsets of the @name = value arguments passed to EXECUTE, which name
+ * procedure parameters rather than reference variables
+ */
+function getNamedArgumentOffsets(masked: string): Set<number> {
+    const offsets = new Set<number>();
+    for (const statement of masked.matchAll(executeRegex)) {
+        for (const argument of statement[0].matchAll(namedArgumentRegex)) {
+            offsets.add(statement.index + argument.index + argument[1].length);
+        }
+    }
+    return offsets;
+}
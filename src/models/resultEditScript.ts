@@ -0,0 +1,212 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as os from "os";
+import { DbCellValue, IDbColumn } from "./interfaces";
+import { formatSqlLiteral, quoteIdentifier } from "./resultsFormatter";
+import { binaryLiteralRegex, numericLiteralRegex } from "./queryParameters";
+import {
+    getEditableBaseTable,
+    isEditableColumn,
+    ResultRowEdit,
+    ResultRowEditType,
+} from "../sharedInterfaces/queryResult";
+
+/**
+ * Options used when generating the script for the edits made to a result set
+ */
+export interface IEditScriptOptions {
+    /**
+     * Wraps the statements in a transaction that is rolled back if any of them fails or does
+     * not change exactly one row, and returns the number of changed rows
+     */
+    useTransaction: boolean;
+}
+
+// the order the statements are generated in, deletes run first so that added rows can reuse their keys
+const editTypeOrder = [
+    ResultRowEditType.Delete,
+    ResultRowEditType.Update,
+    ResultRowEditType.Insert,
+];
+
+// rolls back all the changes when a statement did not change exactly one row, which happens when
+// the row was changed or deleted since the results were loaded
+const rowCountCheck = [
+    "IF @@ROWCOUNT <> 1",
+    "BEGIN",
+    "    ROLLBACK TRANSACTION;",
+    "    THROW 50000, N'The row was not found or is not unique in the table.', 1;",
+    "END",
+    "SET @RowCount += 1;",
+];
+
+/**
+ * Gets the table the rows of a result set can be edited in. Results can only be edited when
+ * all of their columns come from a single base table and the key of that table is included.
+ * @returns the quoted name of the table, or undefined if the results are read-only
+ */
+export function getEditTargetTable(columns: IDbColumn[]): string | undefined {
+    const table = getEditableBaseTable(columns);
+    if (!table) {
+        return undefined;
+    }
+    return table.schema
+        ? `${quoteIdentifier(table.schema)}.${quoteIdentifier(table.name)}`
+        : quoteIdentifier(table.name);
+}
+
+/**
+ * Gets the query that returns the columns of the primary key and unique indexes of a table, as
+ * rows of index id and column name
+ * @param tableName The quoted name of the table
+ */
+export function getUniqueKeysQuery(tableName: string): string {
+    return `SELECT i.index_id, c.name
+FROM sys.indexes i
+JOIN sys.index_columns ic ON ic.object_id = i.object_id AND ic.index_id = i.index_id
+JOIN sys.columns c ON c.object_id = ic.object_id AND c.column_id = ic.column_id
+WHERE i.object_id = OBJECT_ID(N'${tableName.replace(/'/g, "''")}')
+    AND i.is_unique = 1 AND i.has_filter = 0 AND ic.is_included_column = 0
+ORDER BY i.index_id, ic.key_ordinal`;
+}
+
+/**
+ * Whether the key columns of a result set identify a single row of its table, which is the case
+ * when they include all the columns of the primary key or of a unique index of the table
+ * @param uniqueKeys The column names of each unique key of the table
+ */
+export function hasCompleteKey(
+    columns: IDbColumn[],
+    uniqueKeys: string[][],
+): boolean {
+    const keyColumns = new Set(
+        columns
+            .filter((c) => c.isKey)
+            .map((c) => getColumnName(c).toLowerCase()),
+    );
+    return uniqueKeys.some(
+        (key) =>
+            key.length > 0 &&
+            key.every((column) =>
+                keyColumns.has(quoteIdentifier(column).toLowerCase()),
+            ),
+    );
+}
+
+/**
+ * Generates the UPDATE, DELETE and INSERT statements that apply the edits made to a result set.
+ * Rows are found by the values their key columns had when the results were loaded.
+ */
+export function generateEditScript(
+    tableName: string,
+    columns: IDbColumn[],
+    edits: ResultRowEdit[],
+    options: IEditScriptOptions,
+): string {
+    const statements: string[] = [];
+    for (const type of editTypeOrder) {
+        for (const edit of edits.filter((e) => e.type === type)) {
+            const statement = generateEditStatement(tableName, columns, edit);
+            if (statement) {
+                statements.push(statement);
+                if (options.useTransaction) {
+                    statements.push(...rowCountCheck);
+                }
+            }
+        }
+    }
+
+    if (options.useTransaction && statements.length > 0) {
+        statements.unshift(
+            "SET XACT_ABORT ON;",
+            "BEGIN TRANSACTION;",
+            "DECLARE @RowCount int = 0;",
+        );
+        statements.push(
+            "COMMIT TRANSACTION;",
+            "SELECT @RowCount AS [RowCount];",
+        );
+    }
+    return statements.join(os.EOL) + os.EOL;
+}
+
+function generateEditStatement(
+    tableName: string,
+    columns: IDbColumn[],
+    edit: ResultRowEdit,
+): string | undefined {
+    const changedColumns = Object.keys(edit.newValues)
+        .map((index) => Number(index))
+        .filter((index) => columns[index] && isEditableColumn(columns[index]))
+        .sort((a, b) => a - b);
+
+    switch (edit.type) {
+        case ResultRowEditType.Update: {
+            if (changedColumns.length === 0) {
+                return undefined;
+            }
+            const assignments = changedColumns.map(
+                (index) =>
+                    `${getColumnName(columns[index])} = ${formatNewValue(edit.newValues[index], columns[index])}`,
+            );
+            return `UPDATE ${tableName}${os.EOL}SET ${assignments.join(`,${os.EOL}    `)}${os.EOL}${getKeyPredicate(columns, edit.originalValues)};`;
+        }
+        case ResultRowEditType.Delete:
+            return `DELETE FROM ${tableName}${os.EOL}${getKeyPredicate(columns, edit.originalValues)};`;
+        case ResultRowEditType.Insert: {
+            if (changedColumns.length === 0) {
+                return `INSERT INTO ${tableName} DEFAULT VALUES;`;
+            }
+            const columnList = changedColumns
+                .map((index) => getColumnName(columns[index]))
+                .join(", ");
+            const values = changedColumns
+                .map((index) =>
+                    formatNewValue(edit.newValues[index], columns[index]),
+                )
+                .join(", ");
+            return `INSERT INTO ${tableName} (${columnList})${os.EOL}VALUES (${values});`;
+        }
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Formats a value entered in the grid as a T-SQL literal. Unlike the values loaded from the
+ * server, they are only left unquoted when they are valid numbers or binary values.
+ */
+function formatNewValue(cell: DbCellValue, column: IDbColumn): string {
+    const literal = formatSqlLiteral(cell, column);
+    if (
+        cell.isNull ||
+        literal.startsWith("N'") ||
+        numericLiteralRegex.test(literal) ||
+        binaryLiteralRegex.test(literal)
+    ) {
+        return literal;
+    }
+    return `N'${cell.displayValue.replace(/'/g, "''")}'`;
+}
+
+function getColumnName(column: IDbColumn): string {
+    return quoteIdentifier(column.baseColumnName || column.columnName);
+}
+
+function getKeyPredicate(
+    columns: IDbColumn[],
+    originalValues: DbCellValue[],
+): string {
+    const conditions = columns
+        .map((column, index) => ({ column, value: originalValues[index] }))
+        .filter(({ column }) => column.isKey)
+        .map(({ column, value }) =>
+            value.isNull
+                ? `${getColumnName(column)} IS NULL`
+                : `${getColumnName(column)} = ${formatSqlLiteral(value, column)}`,
+        );
+    return `WHERE ${conditions.join(" AND ")}`;
+}
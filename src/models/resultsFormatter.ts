@@ -0,0 +1,204 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as os from "os";
+import { DbCellValue, IDbColumn } from "./interfaces";
+
+/**
+ * Options used when formatting results as an HTML table
+ */
+export interface IHtmlFormatOptions {
+    includeHeaders: boolean;
+    title?: string;
+}
+
+/**
+ * Options used when formatting results as INSERT statements
+ */
+export interface IInsertFormatOptions {
+    /** Table to insert into when the results do not come from a single base table */
+    tableName: string;
+    /** Maximum number of rows in the VALUES clause of a single INSERT statement */
+    rowsPerStatement: number;
+}
+
+// SQL Server allows at most 1000 row value expressions in a single VALUES clause
+const maxRowsPerInsertStatement = 1000;
+
+const unquotedDataTypes = new Set<string>([
+    "bigint",
+    "int",
+    "smallint",
+    "tinyint",
+    "bit",
+    "decimal",
+    "numeric",
+    "float",
+    "real",
+    "money",
+    "smallmoney",
+]);
+
+const binaryDataTypes = new Set<string>([
+    "binary",
+    "varbinary",
+    "image",
+    "timestamp",
+    "rowversion",
+]);
+
+/**
+ * Escapes a value for use in HTML text
+ */
+export function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&#39;");
+}
+
+/**
+ * Formats a result set as a standalone HTML document containing a single table
+ */
+export function formatResultsAsHtml(
+    columns: IDbColumn[],
+    rows: DbCellValue[][],
+    options: IHtmlFormatOptions,
+): string {
+    const lines: string[] = [
+        "<!DOCTYPE html>",
+        "<html>",
+        "<head>",
+        '<meta charset="utf-8">',
+        `<title>${escapeHtml(options.title ?? "")}</title>`,
+        "<style>",
+        "table { border-collapse: collapse; font-family: sans-serif; }",
+        "th, td { border: 1px solid #999; padding: 4px 8px; text-align: left; }",
+        "td.null { color: #888; font-style: italic; }",
+        "</style>",
+        "</head>",
+        "<body>",
+        "<table>",
+    ];
+    if (options.includeHeaders) {
+        lines.push("<thead>");
+        lines.push(
+            `<tr>${columns.map((c) => `<th>${escapeHtml(c.columnName)}</th>`).join("")}</tr>`,
+        );
+        lines.push("</thead>");
+    }
+    lines.push("<tbody>");
+    for (const row of rows) {
+        lines.push(
+            `<tr>${row
+                .map((cell) =>
+                    cell.isNull
+                        ? '<td class="null">NULL</td>'
+                        : `<td>${escapeHtml(cell.displayValue)}</td>`,
+                )
+                .join("")}</tr>`,
+        );
+    }
+    lines.push("</tbody>", "</table>", "</body>", "</html>");
+    return lines.join(os.EOL) + os.EOL;
+}
+
+/**
+ * Quotes an identifier with square brackets, escaping any closing brackets
+ */
+export function quoteIdentifier(identifier: string): string {
+    return `[${identifier.replace(/]/g, "]]")}]`;
+}
+
+/**
+ * Gets the table the INSERT statements target. Results that come from a single
+ * base table are inserted back into it, everything else uses the configured name.
+ */
+export function getInsertTargetTable(
+    columns: IDbColumn[],
+    fallbackTableName: string,
+): string {
+    const tables = new Set(
+        columns.map((c) =>
+            c.baseTableName
+                ? `${c.baseSchemaName ?? ""}.${c.baseTableName}`
+                : undefined,
+        ),
+    );
+    if (tables.size === 1) {
+        const column = columns[0];
+        if (column?.baseTableName) {
+            return column.baseSchemaName
+                ? `${quoteIdentifier(column.baseSchemaName)}.${quoteIdentifier(column.baseTableName)}`
+                : quoteIdentifier(column.baseTableName);
+        }
+    }
+    return fallbackTableName;
+}
+
+/**
+ * Formats a single cell as a T-SQL literal based on its column type
+ */
+export function formatSqlLiteral(cell: DbCellValue, column: IDbColumn): string {
+    if (cell.isNull) {
+        return "NULL";
+    }
+    const dataType = (column.dataTypeName ?? "").toLowerCase();
+    const value = cell.displayValue;
+    if (dataType === "bit") {
+        if (value.toLowerCase() === "true") {
+            return "1";
+        } else if (value.toLowerCase() === "false") {
+            return "0";
+        }
+    }
+    if (unquotedDataTypes.has(dataType) && value !== "") {
+        return value;
+    }
+    if (binaryDataTypes.has(dataType) && /^0x[0-9a-f]*$/i.test(value)) {
+        return value;
+    }
+    return `N'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Formats a result set as a script of INSERT INTO ... VALUES statements
+ */
+export function formatResultsAsInsertStatements(
+    columns: IDbColumn[],
+    rows: DbCellValue[][],
+    options: IInsertFormatOptions,
+): string {
+    const tableName = getInsertTargetTable(columns, options.tableName);
+    const columnList = columns
+        .map((c) => quoteIdentifier(c.baseColumnName || c.columnName))
+        .join(", ");
+    const rowsPerStatement = Math.min(
+        Math.max(options.rowsPerStatement || 1, 1),
+        maxRowsPerInsertStatement,
+    );
+    const hasIdentity = columns.some((c) => c.isIdentity);
+    const statements: string[] = [];
+    if (hasIdentity) {
+        statements.push(`SET IDENTITY_INSERT ${tableName} ON;`);
+    }
+    for (let i = 0; i < rows.length; i += rowsPerStatement) {
+        const values = rows
+            .slice(i, i + rowsPerStatement)
+            .map(
+                (row) =>
+                    `    (${row.map((cell, index) => formatSqlLiteral(cell, columns[index])).join(", ")})`,
+            );
+        statements.push(
+            `INSERT INTO ${tableName} (${columnList})${os.EOL}VALUES${os.EOL}${values.join(`,${os.EOL}`)};`,
+        );
+    }
+    if (hasIdentity) {
+        statements.push(`SET IDENTITY_INSERT ${tableName} OFF;`);
+    }
+    return statements.join(os.EOL) + os.EOL;
+}
@@ -14,11 +14,30 @@ import SqlToolsServerClient from "../languageservice/serviceclient";
 import * as Contracts from "../models/contracts";
 import * as Utils from "../models/utils";
 import * as opener from "opener";
+import { promises as fs } from "fs";
+import {
+    QueryExecuteSubsetRequest,
+    ResultSetSummary,
+} from "./contracts/queryExecute";
+import {
+    formatResultsAsHtml,
+    formatResultsAsInsertStatements,
+    IHtmlFormatOptions,
+    IInsertFormatOptions,
+} from "./resultsFormatter";
 
 type SaveAsRequestParams =
     | Contracts.SaveResultsAsCsvRequestParams
     | Contracts.SaveResultsAsJsonRequestParams
-    | Contracts.SaveResultsAsExcelRequestParams;
+    | Contracts.SaveResultsAsExcelRequestParams
+    | Contracts.SaveResultsAsMarkdownRequestParams
+    | Contracts.SaveResultsAsXmlRequestParams;
+
+// Formats that are generated by the extension instead of the tools service
+const clientFormats = ["html", "insert"];
+
+// Number of rows fetched per request when generating client formats
+const rowsPerFetch = 500;
 
 /**
  *  Handles save results request from the context menu of slickGrid
@@ -28,6 +47,7 @@ export default class ResultsSerializer {
     private _vscodeWrapper: VscodeWrapper;
     private _uri: string;
     private _filePath: string;
+    private _resultSetSummary: ResultSetSummary;
 
     constructor(client?: SqlToolsServerClient, vscodeWrapper?: VscodeWrapper) {
         if (client) {
@@ -56,6 +76,17 @@ export default class ResultsSerializer {
             fileTypeFilter[LocalizedConstants.fileTypeJSONLabel] = ["json"];
         } else if (format === "excel") {
             fileTypeFilter[LocalizedConstants.fileTypeExcelLabel] = ["xlsx"];
+        } else if (format === "markdown") {
+            fileTypeFilter[LocalizedConstants.fileTypeMarkdownLabel] = ["md"];
+        } else if (format === "xml") {
+            fileTypeFilter[LocalizedConstants.fileTypeXMLLabel] = ["xml"];
+        } else if (format === "html") {
+            fileTypeFilter[LocalizedConstants.fileTypeHTMLLabel] = [
+                "html",
+                "htm",
+            ];
+        } else if (format === "insert") {
+            fileTypeFilter[LocalizedConstants.fileTypeSQLLabel] = ["sql"];
         }
         let options = <vscode.SaveDialogOptions>{
             defaultUri: defaultUri,
@@ -134,6 +165,52 @@ export default class ResultsSerializer {
         return saveResultsParams;
     }
 
+    private getConfigForMarkdown(): Contracts.SaveResultsAsMarkdownRequestParams {
+        // get save results config from vscode config
+        let config = this._vscodeWrapper.getConfiguration(
+            Constants.extensionConfigSectionName,
+            this._uri,
+        );
+        let saveConfig = config[Constants.configSaveAsMarkdown];
+        let saveResultsParams =
+            new Contracts.SaveResultsAsMarkdownRequestParams();
+
+        // if user entered config, set options
+        if (saveConfig) {
+            if (saveConfig.includeHeaders !== undefined) {
+                saveResultsParams.includeHeaders = saveConfig.includeHeaders;
+            }
+            if (saveConfig.lineSeparator !== undefined) {
+                saveResultsParams.lineSeparator = saveConfig.lineSeparator;
+            }
+            if (saveConfig.encoding !== undefined) {
+                saveResultsParams.encoding = saveConfig.encoding;
+            }
+        }
+        return saveResultsParams;
+    }
+
+    private getConfigForXml(): Contracts.SaveResultsAsXmlRequestParams {
+        // get save results config from vscode config
+        let config = this._vscodeWrapper.getConfiguration(
+            Constants.extensionConfigSectionName,
+            this._uri,
+        );
+        let saveConfig = config[Constants.configSaveAsXml];
+        let saveResultsParams = new Contracts.SaveResultsAsXmlRequestParams();
+
+        // if user entered config, set options
+        if (saveConfig) {
+            if (saveConfig.formatted !== undefined) {
+                saveResultsParams.formatted = saveConfig.formatted;
+            }
+            if (saveConfig.encoding !== undefined) {
+                saveResultsParams.encoding = saveConfig.encoding;
+            }
+        }
+        return saveResultsParams;
+    }
+
     private getParameters(
         filePath: string,
         batchIndex: number,
@@ -151,6 +228,10 @@ export default class ResultsSerializer {
             saveResultsParams = self.getConfigForJson();
         } else if (format === "excel") {
             saveResultsParams = self.getConfigForExcel();
+        } else if (format === "markdown") {
+            saveResultsParams = self.getConfigForMarkdown();
+        } else if (format === "xml") {
+            saveResultsParams = self.getConfigForXml();
         }
 
         saveResultsParams.filePath = this._filePath;
@@ -190,6 +271,15 @@ export default class ResultsSerializer {
         selection: Interfaces.ISlickRange,
     ): Thenable<void> {
         const self = this;
+        if (clientFormats.includes(format)) {
+            return this.saveFormattedResults(
+                filePath,
+                batchIndex,
+                resultSetNo,
+                format,
+                selection,
+            );
+        }
         let saveResultsParams = self.getParameters(
             filePath,
             batchIndex,
@@ -209,6 +299,10 @@ export default class ResultsSerializer {
             type = Contracts.SaveResultsAsJsonRequest.type;
         } else if (format === "excel") {
             type = Contracts.SaveResultsAsExcelRequest.type;
+        } else if (format === "markdown") {
+            type = Contracts.SaveResultsAsMarkdownRequest.type;
+        } else if (format === "xml") {
+            type = Contracts.SaveResultsAsXmlRequest.type;
         }
 
         self._vscodeWrapper.logToOutputChannel(
@@ -246,6 +340,111 @@ export default class ResultsSerializer {
         );
     }
 
+    /**
+     * Generate the file contents for formats the tools service does not support
+     * from the result set rows, and write them to the file path
+     */
+    private async saveFormattedResults(
+        filePath: string,
+        batchIndex: number,
+        resultSetNo: number,
+        format: string,
+        selection: Interfaces.ISlickRange,
+    ): Promise<void> {
+        this._filePath = filePath;
+        this._vscodeWrapper.logToOutputChannel(
+            LocalizedConstants.msgSaveStarted + filePath,
+        );
+        try {
+            if (!this._resultSetSummary) {
+                throw new Error(LocalizedConstants.msgResultSetNotAvailable);
+            }
+            let columns = this._resultSetSummary.columnInfo;
+            let rowStart = 0;
+            let rowEnd = this._resultSetSummary.rowCount - 1;
+            if (this.isSelected(selection)) {
+                columns = columns.slice(
+                    selection.fromCell,
+                    selection.toCell + 1,
+                );
+                rowStart = selection.fromRow;
+                rowEnd = selection.toRow;
+            }
+            let rows: Interfaces.DbCellValue[][] = [];
+            for (let start = rowStart; start <= rowEnd; start += rowsPerFetch) {
+                const result = await this._client.sendRequest(
+                    QueryExecuteSubsetRequest.type,
+                    {
+                        ownerUri: this._uri,
+                        batchIndex: batchIndex,
+                        resultSetIndex: resultSetNo,
+                        rowsStartIndex: start,
+                        rowsCount: Math.min(rowsPerFetch, rowEnd - start + 1),
+                    },
+                );
+                for (const row of result.resultSubset.rows) {
+                    rows.push(
+                        this.isSelected(selection)
+                            ? row.slice(
+                                  selection.fromCell,
+                                  selection.toCell + 1,
+                              )
+                            : row,
+                    );
+                }
+            }
+            let contents: string;
+            if (format === "html") {
+                const saveConfig = this.getSaveConfig(
+                    Constants.configSaveAsHtml,
+                );
+                contents = formatResultsAsHtml(columns, rows, {
+                    includeHeaders: saveConfig?.includeHeaders ?? true,
+                    title: path.basename(filePath),
+                });
+            } else {
+                const saveConfig = this.getSaveConfig(
+                    Constants.configSaveAsInsert,
+                );
+                contents = formatResultsAsInsertStatements(columns, rows, {
+                    tableName: saveConfig?.tableName || "#Results",
+                    rowsPerStatement: saveConfig?.rowsPerStatement ?? 1000,
+                });
+            }
+            await fs.writeFile(filePath, contents, "utf8");
+            this._vscodeWrapper.showInformationMessage(
+                LocalizedConstants.msgSaveSucceeded + filePath,
+            );
+            this._vscodeWrapper.logToOutputChannel(
+                LocalizedConstants.msgSaveSucceeded + filePath,
+            );
+            this.openSavedFile(filePath, format);
+        } catch (error) {
+            this._vscodeWrapper.showErrorMessage(
+                LocalizedConstants.msgSaveFailed + error.message,
+            );
+            this._vscodeWrapper.logToOutputChannel(
+                LocalizedConstants.msgSaveFailed + error.message,
+            );
+        }
+    }
+
+    private getSaveConfig(
+        configName: typeof Constants.configSaveAsHtml,
+    ): Partial<IHtmlFormatOptions> | undefined;
+    private getSaveConfig(
+        configName: typeof Constants.configSaveAsInsert,
+    ): Partial<IInsertFormatOptions> | undefined;
+    private getSaveConfig(
+        configName: string,
+    ): Partial<IHtmlFormatOptions> | Partial<IInsertFormatOptions> | undefined {
+        let config = this._vscodeWrapper.getConfiguration(
+            Constants.extensionConfigSectionName,
+            this._uri,
+        );
+        return config[configName];
+    }
+
     /**
      * Handle save request by getting filename from user and sending request to service
      */
@@ -255,9 +454,11 @@ export default class ResultsSerializer {
         resultSetNo: number,
         format: string,
         selection: Interfaces.ISlickRange[],
+        resultSetSummary?: ResultSetSummary,
     ): Thenable<void> {
         const self = this;
         this._uri = uri;
+        this._resultSetSummary = resultSetSummary;
 
         // prompt for filepath
         return self.promptForFilepath(format).then(
@@ -8,6 +8,7 @@ import * as Constants from "../constants/constants";
 import * as LocalizedConstants from "../constants/locConstants";
 import * as Interfaces from "./interfaces";
 import QueryRunner from "../controllers/queryRunner";
+import ConnectionManager from "../controllers/connectionManager";
 import ResultsSerializer from "../models/resultsSerializer";
 import StatusView from "../views/statusView";
 import VscodeWrapper from "./../controllers/vscodeWrapper";
@@ -21,7 +22,13 @@ import {
 } from "./contracts/queryExecute";
 import { sendActionEvent } from "../telemetry/telemetry";
 import { QueryResultWebviewController } from "../queryResult/queryResultWebViewController";
-import { IMessage, QueryResultPaneTabs } from "../sharedInterfaces/queryResult";
+import {
+    CommitResultEditsResult,
+    IMessage,
+    QueryResultPaneTabs,
+    ResultRowEdit,
+} from "../sharedInterfaces/queryResult";
+import { getErrorMessage } from "../utils/utils";
 import {
     TelemetryActions,
     TelemetryViews,
@@ -56,6 +63,7 @@ export class SqlOutputContentProvider {
     >();
     private _panels = new Map<string, WebviewPanelController>();
     private _queryResultWebviewController: QueryResultWebviewController;
+    private _connectionManager: ConnectionManager;
     private _executionPlanOptions: ExecutionPlanOptions = {};
     private _lastSendMessageTime: number;
 
@@ -70,6 +78,10 @@ export class SqlOutputContentProvider {
         }
     }
 
+    public setConnectionManager(connectionManager: ConnectionManager): void {
+        this._connectionManager = connectionManager;
+    }
+
     public setQueryResultWebviewController(
         queryResultWebviewController: QueryResultWebviewController,
     ): void {
@@ -112,7 +124,17 @@ export class SqlOutputContentProvider {
         selection: Interfaces.ISlickRange[],
     ): void {
         let saveResults = new ResultsSerializer();
-        saveResults.onSaveResults(uri, batchId, resultId, format, selection);
+        const resultSetSummary =
+            this._queryResultsMap.get(uri)?.queryRunner.batchSets[batchId]
+                ?.resultSetSummaries[resultId];
+        void saveResults.onSaveResults(
+            uri,
+            batchId,
+            resultId,
+            format,
+            selection,
+            resultSetSummary,
+        );
     }
 
     public openLinkRequestHandler(
@@ -151,6 +173,40 @@ export class SqlOutputContentProvider {
             );
     }
 
+    public editScriptRequestHandler(
+        uri: string,
+        batchId: number,
+        resultId: number,
+        edits: ResultRowEdit[],
+    ): Promise<string> {
+        return this._queryResultsMap
+            .get(uri)
+            .queryRunner.getEditScript(batchId, resultId, edits, true);
+    }
+
+    public async commitEditsRequestHandler(
+        uri: string,
+        batchId: number,
+        resultId: number,
+        edits: ResultRowEdit[],
+    ): Promise<CommitResultEditsResult> {
+        try {
+            const rowCount = await this._queryResultsMap
+                .get(uri)
+                .queryRunner.commitEdits(batchId, resultId, edits);
+            void this._vscodeWrapper.showInformationMessage(
+                LocalizedConstants.msgResultEditsCommitted(rowCount),
+            );
+            return { success: true };
+        } catch (error) {
+            const errorMessage = getErrorMessage(error);
+            void this._vscodeWrapper.showErrorMessage(
+                LocalizedConstants.msgCommitResultEditsFailed(errorMessage),
+            );
+            return { success: false, errorMessage: errorMessage };
+        }
+    }
+
     public editorSelectionRequestHandler(
         uri: string,
         selection: ISelectionData,
@@ -183,6 +239,7 @@ export class SqlOutputContentProvider {
         title: string,
         executionPlanOptions?: ExecutionPlanOptions,
         promise?: Deferred<boolean>,
+        substitutedQuery?: string,
     ): Promise<void> {
         // execute the query with a query runner
         await this.runQueryCallback(
@@ -201,6 +258,7 @@ export class SqlOutputContentProvider {
                         selection,
                         executionPlanOptions,
                         promise,
+                        substitutedQuery,
                     );
                 }
             },
@@ -424,6 +482,10 @@ export class SqlOutputContentProvider {
                 uri,
                 title,
                 statusView ? statusView : this._statusView,
+                undefined,
+                undefined,
+                undefined,
+                this._connectionManager,
             );
             queryRunner.eventEmitter.on("start", async (panelUri) => {
                 if (this.shouldUseOldResultPane) {
@@ -562,6 +624,7 @@ export class SqlOutputContentProvider {
                             Constants.cmdRefreshQueryHistory,
                             uri,
                             hasError,
+                            totalMilliseconds,
                         );
                     }
                     if (this.shouldUseOldResultPane) {
@@ -0,0 +1,38 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from "vscode";
+import * as Constants from "../constants/constants";
+import { IConnectionGroup } from "../models/interfaces";
+
+export class ConnectionGroupNode extends vscode.TreeItem {
+    constructor(
+        private _group: IConnectionGroup,
+        private _parentNode: ConnectionGroupNode | undefined,
+    ) {
+        super(_group.name, vscode.TreeItemCollapsibleState.Expanded);
+        // a stable id keeps the group expanded or collapsed when the tree is refreshed
+        this.id = `${Constants.connectionGroupLabel}:${_group.id}`;
+        this.contextValue = `type=${Constants.connectionGroupLabel}`;
+        this.iconPath = new vscode.ThemeIcon(
+            "folder",
+            _group.color
+                ? new vscode.ThemeColor(`charts.${_group.color}`)
+                : undefined,
+        );
+    }
+
+    public get group(): IConnectionGroup {
+        return this._group;
+    }
+
+    public get groupId(): string {
+        return this._group.id;
+    }
+
+    public get parentNode(): ConnectionGroupNode | undefined {
+        return this._parentNode;
+    }
+}
@@ -5,23 +5,38 @@
 
 import * as vscode from "vscode";
 
+import * as Constants from "../constants/constants";
 import { TreeNodeInfo } from "./treeNodeInfo";
+import { ConnectionGroupNode } from "./connectionGroupNode";
+import { ObjectExplorerProvider } from "./objectExplorerProvider";
+import { ObjectExplorerUtils } from "./objectExplorerUtils";
+import {
+    ObjectExplorerDragObject,
+    objectExplorerObjectsMimeType,
+} from "../sharedInterfaces/queryBuilder";
+
+// VS Code adds the dragged nodes to the data transfer with the mime type of the tree view
+const objectExplorerMimeType = `application/vnd.code.tree.${Constants.objectExplorerId.toLowerCase()}`;
+
+type ObjectExplorerDragNode = TreeNodeInfo | ConnectionGroupNode;
 
 export class ObjectExplorerDragAndDropController
-    implements vscode.TreeDragAndDropController<TreeNodeInfo>
+    implements vscode.TreeDragAndDropController<ObjectExplorerDragNode>
 {
     // Unique identifier for the drag-and-drop controller
-    readonly dropMimeTypes = ["text/plain"];
-    readonly dragMimeTypes = ["text/plain"];
+    readonly dropMimeTypes = ["text/plain", objectExplorerMimeType];
+    readonly dragMimeTypes = ["text/plain", objectExplorerObjectsMimeType];
+
+    constructor(private _objectExplorerProvider: ObjectExplorerProvider) {}
 
     handleDrag(
-        source: TreeNodeInfo[],
+        source: ObjectExplorerDragNode[],
         dataTransfer: vscode.DataTransfer,
         token: vscode.CancellationToken,
     ): void {
         const item = source[0]; // Handle only the first item for simplicity
         let objectString = "";
-        if (item.metadata) {
+        if (item instanceof TreeNodeInfo && item.metadata) {
             switch (item.metadata.metadataTypeName) {
                 case "Table":
                 case "StoredProcedure":
@@ -38,5 +53,97 @@ export class ObjectExplorerDragAndDropController
                 new vscode.DataTransferItem(objectString),
             );
         }
+
+        // all the dragged objects, for the webviews that tables and views can be dropped on
+        const objects: ObjectExplorerDragObject[] = source
+            .filter(
+                (node): node is TreeNodeInfo =>
+                    node instanceof TreeNodeInfo && !!node.metadata,
+            )
+            .map((node) => ({
+                type: node.metadata.metadataTypeName,
+                server: node.connectionInfo.server,
+                database: ObjectExplorerUtils.getDatabaseName(node),
+                schema: node.metadata.schema,
+                name: node.metadata.name,
+            }));
+        if (objects.length > 0) {
+            dataTransfer.set(
+                objectExplorerObjectsMimeType,
+                new vscode.DataTransferItem(JSON.stringify(objects)),
+            );
+        }
+    }
+
+    /**
+     * Moves connections and connection groups dropped on a group, or on a connection
+     * in a group, to that group. Items dropped on the empty space are moved to the root.
+     */
+    async handleDrop(
+        target: ObjectExplorerDragNode | undefined,
+        dataTransfer: vscode.DataTransfer,
+        token: vscode.CancellationToken,
+    ): Promise<void> {
+        const transferItem = dataTransfer.get(objectExplorerMimeType);
+        if (!transferItem) {
+            return;
+        }
+        const targetGroup = this.getTargetGroup(target);
+        if (target && !targetGroup && !this.isConnectionNode(target)) {
+            // only groups and connections at the root accept drops
+            return;
+        }
+
+        let moved = false;
+        for (const node of transferItem.value as ObjectExplorerDragNode[]) {
+            if (token.isCancellationRequested) {
+                break;
+            }
+            if (node instanceof ConnectionGroupNode) {
+                if (node.parentNode?.groupId !== targetGroup?.groupId) {
+                    await this._objectExplorerProvider.moveConnectionGroup(
+                        node,
+                        targetGroup,
+                    );
+                    moved = true;
+                }
+            } else if (
+                this.isConnectionNode(node) &&
+                this.getTargetGroup(node)?.groupId !== targetGroup?.groupId
+            ) {
+                await this._objectExplorerProvider.moveConnectionToGroup(
+                    node,
+                    targetGroup,
+                );
+                moved = true;
+            }
+        }
+        if (moved) {
+            this._objectExplorerProvider.refresh(undefined);
+        }
+    }
+
+    private getTargetGroup(
+        target: ObjectExplorerDragNode | undefined,
+    ): ConnectionGroupNode | undefined {
+        if (target instanceof ConnectionGroupNode) {
+            return target;
+        }
+        if (target && this.isConnectionNode(target)) {
+            const parent = this._objectExplorerProvider.getParent(target);
+            return parent instanceof ConnectionGroupNode ? parent : undefined;
+        }
+        return undefined;
+    }
+
+    private isConnectionNode(
+        node: ObjectExplorerDragNode,
+    ): node is TreeNodeInfo {
+        return (
+            node instanceof TreeNodeInfo &&
+            !node.parentNode &&
+            (node.nodeType === Constants.serverLabel ||
+                node.nodeType === Constants.disconnectedServerLabel)
+        );
     }
 }
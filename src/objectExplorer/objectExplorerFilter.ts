@@ -16,6 +16,7 @@ import {
 } from "../sharedInterfaces/telemetry";
 
 import { ReactWebviewPanelController } from "../controllers/reactWebviewPanelController";
+import { ObjectExplorerFilterStore } from "./objectExplorerFilterStore";
 import { TreeNodeInfo } from "./treeNodeInfo";
 import { randomUUID } from "crypto";
 import { sendActionEvent } from "../telemetry/telemetry";
@@ -35,6 +36,7 @@ export class ObjectExplorerFilterReactWebviewController extends ReactWebviewPane
 
     constructor(
         context: vscode.ExtensionContext,
+        private _filterStore: ObjectExplorerFilterStore,
         data?: ObjectExplorerFilterState,
     ) {
         super(
@@ -74,6 +76,36 @@ export class ObjectExplorerFilterReactWebviewController extends ReactWebviewPane
             this.panel.dispose();
             return state;
         });
+
+        this.registerReducer("savePreset", async (state, payload) => {
+            await this._filterStore.savePreset({
+                name: payload.name,
+                nodeType: state.nodeType,
+                filters: payload.filters,
+            });
+            sendActionEvent(
+                TelemetryViews.ObjectExplorerFilter,
+                TelemetryActions.SaveFilterPreset,
+                {
+                    nodeType: state.nodeType,
+                },
+                {
+                    filterCount: payload.filters.length,
+                },
+            );
+            return {
+                ...state,
+                presets: this._filterStore.getPresets(state.nodeType),
+            };
+        });
+
+        this.registerReducer("deletePreset", async (state, payload) => {
+            await this._filterStore.deletePreset(state.nodeType, payload.name);
+            return {
+                ...state,
+                presets: this._filterStore.getPresets(state.nodeType),
+            };
+        });
     }
 
     public loadData(data: ObjectExplorerFilterState): void {
@@ -87,11 +119,13 @@ export class ObjectExplorerFilter {
      * This method is used to get the filters from the user for the given treeNode.
      * @param context The extension context
      * @param treeNode The treeNode for which the filters are needed
+     * @param filterStore The store of the filter presets the user can apply and save
      * @returns The filters that the user has selected or undefined if the user has cancelled the operation.
      */
     public static async getFilters(
         context: vscode.ExtensionContext,
         treeNode: TreeNodeInfo,
+        filterStore: ObjectExplorerFilterStore,
     ): Promise<vscodeMssql.NodeFilter[] | undefined> {
         return await new Promise((resolve, _reject) => {
             const correlationId = randomUUID();
@@ -103,22 +137,26 @@ export class ObjectExplorerFilter {
                     correlationId,
                 },
             );
+            const nodeType = ObjectExplorerFilterStore.getNodeType(treeNode);
+            const data: ObjectExplorerFilterState = {
+                filterProperties: treeNode.filterableProperties,
+                existingFilters: treeNode.filters,
+                nodePath: treeNode.nodePath,
+                nodeType: nodeType,
+                presets: filterStore.getPresets(nodeType),
+            };
             if (
                 !this._filterWebviewController ||
                 this._filterWebviewController.isDisposed
             ) {
                 this._filterWebviewController =
-                    new ObjectExplorerFilterReactWebviewController(context, {
-                        filterProperties: treeNode.filterableProperties,
-                        existingFilters: treeNode.filters,
-                        nodePath: treeNode.nodePath,
-                    });
+                    new ObjectExplorerFilterReactWebviewController(
+                        context,
+                        filterStore,
+                        data,
+                    );
             } else {
-                this._filterWebviewController.loadData({
-                    filterProperties: treeNode.filterableProperties,
-                    existingFilters: treeNode.filters,
-                    nodePath: treeNode.nodePath,
-                });
+                this._filterWebviewController.loadData(data);
             }
             this._filterWebviewController.revealToForeground();
             this._filterWebviewController.onSubmit((e) => {
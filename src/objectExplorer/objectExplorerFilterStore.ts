@@ -0,0 +1,112 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from "vscode";
+import * as vscodeMssql from "vscode-mssql";
+import { IConnectionProfile } from "../models/interfaces";
+import { ObjectExplorerFilterPreset } from "../sharedInterfaces/objectExplorerFilter";
+import { ObjectExplorerUtils } from "./objectExplorerUtils";
+import { TreeNodeInfo } from "./treeNodeInfo";
+
+const filterPresetsKey = "mssql.objectExplorer.filterPresets";
+const nodeFiltersKey = "mssql.objectExplorer.nodeFilters";
+
+/**
+ * The filters applied to the nodes of one connection, by node path
+ */
+type ConnectionNodeFilters = { [nodePath: string]: vscodeMssql.NodeFilter[] };
+
+/**
+ * Saves the filters applied to Object Explorer nodes, so they are applied again when the node is
+ * loaded after a reconnect or a restart, and the named filter presets that can be applied to any
+ * node of the same type.
+ */
+export class ObjectExplorerFilterStore {
+    constructor(private _memento: vscode.Memento) {}
+
+    /**
+     * Gets the type presets are saved for, which is the type of objects in the folder for folder nodes
+     */
+    public static getNodeType(node: TreeNodeInfo): string {
+        return node.context.subType || node.nodeType;
+    }
+
+    public getPresets(nodeType: string): ObjectExplorerFilterPreset[] {
+        return this.getAllPresets()
+            .filter((preset) => preset.nodeType === nodeType)
+            .sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    /**
+     * Saves the preset, replacing the preset with the same name for the same type of node
+     */
+    public async savePreset(preset: ObjectExplorerFilterPreset): Promise<void> {
+        const presets = this.getAllPresets().filter(
+            (p) => p.nodeType !== preset.nodeType || p.name !== preset.name,
+        );
+        presets.push(preset);
+        await this._memento.update(filterPresetsKey, presets);
+    }
+
+    public async deletePreset(nodeType: string, name: string): Promise<void> {
+        await this._memento.update(
+            filterPresetsKey,
+            this.getAllPresets().filter(
+                (p) => p.nodeType !== nodeType || p.name !== name,
+            ),
+        );
+    }
+
+    public getNodeFilters(node: TreeNodeInfo): vscodeMssql.NodeFilter[] {
+        return this.getConnectionNodeFilters(node)[node.nodePath] ?? [];
+    }
+
+    public async setNodeFilters(
+        node: TreeNodeInfo,
+        filters: vscodeMssql.NodeFilter[],
+    ): Promise<void> {
+        const allFilters = {
+            ...this._memento.get<{
+                [connectionKey: string]: ConnectionNodeFilters;
+            }>(nodeFiltersKey, {}),
+        };
+        const connectionKey = this.getConnectionKey(node);
+        const connectionFilters = { ...allFilters[connectionKey] };
+        if (filters?.length > 0) {
+            connectionFilters[node.nodePath] = filters;
+        } else {
+            delete connectionFilters[node.nodePath];
+        }
+        if (Object.keys(connectionFilters).length > 0) {
+            allFilters[connectionKey] = connectionFilters;
+        } else {
+            delete allFilters[connectionKey];
+        }
+        await this._memento.update(nodeFiltersKey, allFilters);
+    }
+
+    private getAllPresets(): ObjectExplorerFilterPreset[] {
+        return this._memento.get<ObjectExplorerFilterPreset[]>(
+            filterPresetsKey,
+            [],
+        );
+    }
+
+    private getConnectionNodeFilters(
+        node: TreeNodeInfo,
+    ): ConnectionNodeFilters {
+        return (
+            this._memento.get<{
+                [connectionKey: string]: ConnectionNodeFilters;
+            }>(nodeFiltersKey, {})[this.getConnectionKey(node)] ?? {}
+        );
+    }
+
+    private getConnectionKey(node: TreeNodeInfo): string {
+        return ObjectExplorerUtils.getNodeUriFromProfile(
+            node.connectionInfo as IConnectionProfile,
+        );
+    }
+}
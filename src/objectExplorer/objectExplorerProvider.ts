@@ -7,8 +7,10 @@ import * as vscode from "vscode";
 import ConnectionManager from "../controllers/connectionManager";
 import { ObjectExplorerService } from "./objectExplorerService";
 import { TreeNodeInfo } from "./treeNodeInfo";
+import { ConnectionGroupNode } from "./connectionGroupNode";
 import { Deferred } from "../protocol";
 import { IConnectionInfo } from "vscode-mssql";
+import { ObjectExplorerFilterStore } from "./objectExplorerFilterStore";
 
 export class ObjectExplorerProvider implements vscode.TreeDataProvider<any> {
     private _onDidChangeTreeData: vscode.EventEmitter<any | undefined> =
@@ -19,15 +21,23 @@ export class ObjectExplorerProvider implements vscode.TreeDataProvider<any> {
     private _objectExplorerExists: boolean;
     private _objectExplorerService: ObjectExplorerService;
 
-    constructor(connectionManager: ConnectionManager) {
+    constructor(
+        connectionManager: ConnectionManager,
+        filterStore?: ObjectExplorerFilterStore,
+    ) {
         this._objectExplorerService = new ObjectExplorerService(
             connectionManager,
             this,
+            filterStore,
         );
     }
 
-    getParent(element: TreeNodeInfo) {
-        return element.parentNode;
+    getParent(element: TreeNodeInfo | ConnectionGroupNode) {
+        if (element instanceof ConnectionGroupNode || element.parentNode) {
+            return element.parentNode;
+        }
+        // connection nodes are shown in their group
+        return this._objectExplorerService.getConnectionGroupNode(element);
     }
 
     refresh(nodeInfo?: TreeNodeInfo): void {
@@ -38,7 +48,9 @@ export class ObjectExplorerProvider implements vscode.TreeDataProvider<any> {
         return node;
     }
 
-    async getChildren(element?: TreeNodeInfo): Promise<vscode.TreeItem[]> {
+    async getChildren(
+        element?: TreeNodeInfo | ConnectionGroupNode,
+    ): Promise<vscode.TreeItem[]> {
         const children = await this._objectExplorerService.getChildren(element);
         if (children) {
             return children;
@@ -106,6 +118,32 @@ export class ObjectExplorerProvider implements vscode.TreeDataProvider<any> {
         this._objectExplorerService.addDisconnectedNode(connectionCredentials);
     }
 
+    public getConnectionNodesInGroup(
+        groupNode: ConnectionGroupNode,
+    ): TreeNodeInfo[] {
+        return this._objectExplorerService.getConnectionNodesInGroup(groupNode);
+    }
+
+    public async moveConnectionToGroup(
+        node: TreeNodeInfo,
+        groupNode: ConnectionGroupNode | undefined,
+    ): Promise<void> {
+        return this._objectExplorerService.moveConnectionToGroup(
+            node,
+            groupNode,
+        );
+    }
+
+    public async moveConnectionGroup(
+        groupNode: ConnectionGroupNode,
+        parentNode: ConnectionGroupNode | undefined,
+    ): Promise<void> {
+        return this._objectExplorerService.moveConnectionGroup(
+            groupNode,
+            parentNode,
+        );
+    }
+
     /** Getters */
     public get currentNode(): TreeNodeInfo {
         return this._objectExplorerService.currentNode;
@@ -115,6 +153,10 @@ export class ObjectExplorerProvider implements vscode.TreeDataProvider<any> {
         return this._objectExplorerExists;
     }
 
+    public get rootTreeNodeArray(): TreeNodeInfo[] {
+        return this._objectExplorerService.rootTreeNodeArray;
+    }
+
     public get rootNodeConnections(): IConnectionInfo[] {
         return this._objectExplorerService.rootNodeConnections;
     }
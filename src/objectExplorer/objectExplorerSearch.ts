@@ -0,0 +1,330 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from "vscode";
+import * as Constants from "../constants/constants";
+import * as LocalizedConstants from "../constants/locConstants";
+import ConnectionManager from "../controllers/connectionManager";
+import { MetadataService } from "../metadata/metadataService";
+import { MetadataType } from "../models/contracts/metadata/metadataRequest";
+import { SimpleExecuteRequest } from "../models/contracts/queryExecute";
+import { Deferred } from "../protocol";
+import { ObjectExplorerProvider } from "./objectExplorerProvider";
+import { ObjectExplorerUtils } from "./objectExplorerUtils";
+import { TreeNodeInfo } from "./treeNodeInfo";
+
+export enum DatabaseObjectType {
+    Table = "Table",
+    View = "View",
+    StoredProcedure = "StoredProcedure",
+    Function = "Function",
+    Column = "Column",
+}
+
+export interface DatabaseObject {
+    type: DatabaseObjectType;
+    schema: string;
+    name: string;
+    /**
+     * The table or view of a column
+     */
+    parentName?: string;
+}
+
+interface DatabaseObjectQuickPickItem extends vscode.QuickPickItem {
+    object: DatabaseObject;
+}
+
+// the metadata request does not return columns, so they are queried separately
+const columnsQuery = `SELECT s.name, o.name, c.name
+FROM sys.columns c
+JOIN sys.objects o ON o.object_id = c.object_id
+JOIN sys.schemas s ON s.schema_id = o.schema_id
+WHERE o.type IN ('U', 'V') AND o.is_ms_shipped = 0
+ORDER BY s.name, o.name, c.column_id`;
+
+/**
+ * The sub types of the folders that contain each type of object, starting from the database node
+ */
+const objectFolders: { [type: string]: string[] } = {
+    [DatabaseObjectType.Table]: ["Tables"],
+    [DatabaseObjectType.View]: ["Views"],
+    [DatabaseObjectType.StoredProcedure]: [
+        "Programmability",
+        "StoredProcedures",
+    ],
+    [DatabaseObjectType.Function]: [
+        "Programmability",
+        "Functions",
+        "TableValuedFunctions",
+        "ScalarValuedFunctions",
+        "AggregateFunctions",
+    ],
+};
+
+const objectIcons: { [type: string]: string } = {
+    [DatabaseObjectType.Table]: "table",
+    [DatabaseObjectType.View]: "eye",
+    [DatabaseObjectType.StoredProcedure]: "symbol-method",
+    [DatabaseObjectType.Function]: "symbol-function",
+    [DatabaseObjectType.Column]: "symbol-field",
+};
+
+/**
+ * Finds tables, views, procedures, functions and columns of a database by name and the nodes
+ * that show them in Object Explorer
+ */
+export class ObjectExplorerSearch {
+    private _metadataService: MetadataService;
+
+    constructor(
+        private _connectionManager: ConnectionManager,
+        private _objectExplorerProvider: ObjectExplorerProvider,
+    ) {
+        this._metadataService = new MetadataService(_connectionManager);
+    }
+
+    /**
+     * Lets the user pick an object of the database of the node and finds its node in the tree
+     * @param node a server node or a node in the database to search
+     * @returns the node of the picked object, or undefined if the search was cancelled
+     */
+    public async findObject(node: TreeNodeInfo): Promise<TreeNodeInfo> {
+        const uri = ObjectExplorerUtils.getNodeUri(node);
+        let databaseName = this.getDatabaseNode(node)?.metadata.name;
+        if (!databaseName) {
+            await this.connect(uri, node, node.connectionInfo.database);
+            databaseName =
+                node.connectionInfo.database ||
+                (await vscode.window.showQuickPick(
+                    this._connectionManager.listDatabases(uri),
+                    {
+                        placeHolder:
+                            LocalizedConstants.findObjectDatabasePlaceholder,
+                    },
+                ));
+            if (!databaseName) {
+                return undefined;
+            }
+        }
+
+        const picked = await vscode.window.showQuickPick(
+            this.getObjectItems(uri, node, databaseName),
+            {
+                title: LocalizedConstants.findObjectTitle(databaseName),
+                placeHolder: LocalizedConstants.findObjectPlaceholder,
+                matchOnDescription: true,
+            },
+        );
+        if (!picked) {
+            return undefined;
+        }
+
+        const objectNode = await this.findObjectNode(
+            node,
+            databaseName,
+            picked.object,
+        );
+        if (!objectNode) {
+            void vscode.window.showWarningMessage(
+                LocalizedConstants.msgObjectNotFoundInObjectExplorer(
+                    picked.object.name,
+                ),
+            );
+        }
+        return objectNode;
+    }
+
+    /**
+     * Expands the nodes down to the node of an object, starting from a server node or a node in
+     * its database. Only the folders that can contain the object are expanded.
+     */
+    public async findObjectNode(
+        node: TreeNodeInfo,
+        databaseName: string,
+        object: DatabaseObject,
+    ): Promise<TreeNodeInfo | undefined> {
+        let databaseNode = this.getDatabaseNode(node);
+        if (!databaseNode) {
+            let serverNode = node;
+            while (serverNode.parentNode) {
+                serverNode = serverNode.parentNode;
+            }
+            databaseNode = await this.findChild(
+                serverNode,
+                ["Databases"],
+                (child) =>
+                    child.metadata?.metadataTypeName ===
+                        Constants.databaseString &&
+                    child.metadata.name === databaseName,
+            );
+        }
+        if (!databaseNode) {
+            return undefined;
+        }
+
+        const isColumn = object.type === DatabaseObjectType.Column;
+        const tableName = isColumn ? object.parentName : object.name;
+        const objectNode = await this.findChild(
+            databaseNode,
+            isColumn
+                ? [
+                      ...objectFolders[DatabaseObjectType.Table],
+                      ...objectFolders[DatabaseObjectType.View],
+                  ]
+                : objectFolders[object.type],
+            (child) =>
+                child.metadata?.schema === object.schema &&
+                child.metadata.name === tableName &&
+                child.nodeType !== Constants.folderLabel,
+            object.schema,
+        );
+        if (!objectNode || !isColumn) {
+            return objectNode;
+        }
+        // column labels also show the type of the column, as in "Id (PK, int, not null)"
+        return this.findChild(
+            objectNode,
+            ["Columns"],
+            (child) =>
+                child.metadata?.name === object.name ||
+                getNodeLabel(child).startsWith(`${object.name} (`),
+        );
+    }
+
+    private async getObjectItems(
+        uri: string,
+        node: TreeNodeInfo,
+        databaseName: string,
+    ): Promise<DatabaseObjectQuickPickItem[]> {
+        await this.connect(uri, node, databaseName);
+        const [metadata, columns] = await Promise.all([
+            this._metadataService.getMetadata(uri),
+            this._connectionManager.client.sendRequest(
+                SimpleExecuteRequest.type,
+                { ownerUri: uri, queryString: columnsQuery },
+            ),
+        ]);
+
+        const objects: DatabaseObject[] = metadata.map((m) => ({
+            type: toDatabaseObjectType(m.metadataType),
+            schema: m.schema,
+            name: m.name,
+        }));
+        for (const row of columns.rows) {
+            objects.push({
+                type: DatabaseObjectType.Column,
+                schema: row[0].displayValue,
+                parentName: row[1].displayValue,
+                name: row[2].displayValue,
+            });
+        }
+        return objects.map((object) => ({
+            label: `$(${objectIcons[object.type]}) ${object.name}`,
+            description: [
+                object.parentName
+                    ? `${object.schema}.${object.parentName}`
+                    : object.schema,
+                LocalizedConstants.databaseObjectTypeNames[object.type],
+            ].join(" · "),
+            object: object,
+        }));
+    }
+
+    /**
+     * Connects the Object Explorer uri of the node to the database, the same way scripting does
+     */
+    private async connect(
+        uri: string,
+        node: TreeNodeInfo,
+        databaseName: string,
+    ): Promise<void> {
+        if (
+            this._connectionManager.isConnected(uri) &&
+            this._connectionManager.getConnectionInfo(uri).credentials
+                .database === databaseName
+        ) {
+            return;
+        }
+        const connectionCreds = Object.assign({}, node.connectionInfo);
+        connectionCreds.database = databaseName;
+        if (!this._connectionManager.isConnecting(uri)) {
+            const promise = new Deferred<boolean>();
+            await this._connectionManager.connect(
+                uri,
+                connectionCreds,
+                promise,
+            );
+            await promise;
+        }
+    }
+
+    private getDatabaseNode(node: TreeNodeInfo): TreeNodeInfo | undefined {
+        while (node) {
+            if (node.metadata?.metadataTypeName === Constants.databaseString) {
+                return node;
+            }
+            node = node.parentNode;
+        }
+        return undefined;
+    }
+
+    /**
+     * Finds the first descendant of the node that matches, only expanding the folders with one
+     * of the sub types and the node of the schema when objects are grouped by schema
+     */
+    private async findChild(
+        node: TreeNodeInfo,
+        folderSubTypes: string[],
+        isMatch: (child: TreeNodeInfo) => boolean,
+        schema?: string,
+    ): Promise<TreeNodeInfo | undefined> {
+        const children = (
+            (await this._objectExplorerProvider.getChildren(node)) ?? []
+        ).filter((child) => child instanceof TreeNodeInfo) as TreeNodeInfo[];
+        const match = children.find(isMatch);
+        if (match) {
+            return match;
+        }
+        for (const child of children) {
+            const isFolder =
+                child.nodeType === Constants.folderLabel &&
+                folderSubTypes.includes(child.context.subType);
+            const isSchema =
+                schema !== undefined &&
+                child.metadata?.metadataTypeName === "Schema" &&
+                child.metadata.name === schema;
+            if (isFolder || isSchema) {
+                const found = await this.findChild(
+                    child,
+                    folderSubTypes,
+                    isMatch,
+                    schema,
+                );
+                if (found) {
+                    return found;
+                }
+            }
+        }
+        return undefined;
+    }
+}
+
+function toDatabaseObjectType(metadataType: number): DatabaseObjectType {
+    switch (metadataType) {
+        case MetadataType.Table:
+            return DatabaseObjectType.Table;
+        case MetadataType.View:
+            return DatabaseObjectType.View;
+        case MetadataType.SProc:
+            return DatabaseObjectType.StoredProcedure;
+        default:
+            return DatabaseObjectType.Function;
+    }
+}
+
+function getNodeLabel(node: TreeNodeInfo): string {
+    return typeof node.label === "string" ? node.label : node.label.label;
+}
@@ -31,11 +31,17 @@ import {
     CloseSessionResponse,
 } from "../models/contracts/objectExplorer/closeSessionRequest";
 import { TreeNodeInfo } from "./treeNodeInfo";
-import { AuthenticationTypes, IConnectionProfile } from "../models/interfaces";
+import {
+    AuthenticationTypes,
+    IConnectionGroup,
+    IConnectionProfile,
+} from "../models/interfaces";
 import * as LocalizedConstants from "../constants/locConstants";
 import { AddConnectionTreeNode } from "./addConnectionTreeNode";
 import { AccountSignInTreeNode } from "./accountSignInTreeNode";
 import { ConnectTreeNode, TreeNodeType } from "./connectTreeNode";
+import { ConnectionGroupNode } from "./connectionGroupNode";
+import { ObjectExplorerFilterStore } from "./objectExplorerFilterStore";
 import { Deferred } from "../protocol";
 import * as Constants from "../constants/constants";
 import { ObjectExplorerUtils } from "./objectExplorerUtils";
@@ -70,6 +76,7 @@ export class ObjectExplorerService {
     private _rootTreeNodeArray: Array<TreeNodeInfo>;
     private _sessionIdToConnectionCredentialsMap: Map<string, IConnectionInfo>;
     private _expandParamsToTreeNodeInfoMap: Map<ExpandParams, TreeNodeInfo>;
+    private _connectionGroupNodes: Map<string, ConnectionGroupNode>;
 
     // Deferred promise maps
     private _sessionIdToPromiseMap: Map<string, Deferred<vscode.TreeItem>>;
@@ -81,6 +88,7 @@ export class ObjectExplorerService {
     constructor(
         private _connectionManager: ConnectionManager,
         private _objectExplorerProvider: ObjectExplorerProvider,
+        private _filterStore?: ObjectExplorerFilterStore,
     ) {
         this._client = this._connectionManager.client;
         this._treeNodeToChildrenMap = new Map<
@@ -88,6 +96,7 @@ export class ObjectExplorerService {
             vscode.TreeItem[]
         >();
         this._rootTreeNodeArray = new Array<TreeNodeInfo>();
+        this._connectionGroupNodes = new Map<string, ConnectionGroupNode>();
         this._sessionIdToConnectionCredentialsMap = new Map<
             string,
             IConnectionInfo
@@ -378,6 +387,13 @@ export class ObjectExplorerService {
                         credentials,
                     ),
                 );
+                // apply the filters saved for the nodes before they are expanded
+                for (const child of children) {
+                    const filters = self._filterStore?.getNodeFilters(child);
+                    if (filters?.length > 0) {
+                        child.filters = filters;
+                    }
+                }
                 self._treeNodeToChildrenMap.set(parentNode, children);
                 for (let key of self._expandParamsToPromiseMap.keys()) {
                     if (
@@ -573,7 +589,12 @@ export class ObjectExplorerService {
         return [connectNode];
     }
 
-    async getChildren(element?: TreeNodeInfo): Promise<vscode.TreeItem[]> {
+    async getChildren(
+        element?: TreeNodeInfo | ConnectionGroupNode,
+    ): Promise<vscode.TreeItem[]> {
+        if (element instanceof ConnectionGroupNode) {
+            return this.getConnectionGroupChildren(element);
+        }
         if (element) {
             // set current node for very first expansion of disconnected node
             if (this._currentNode !== element) {
@@ -636,9 +657,16 @@ export class ObjectExplorerService {
             // for the first time
             let savedConnections =
                 this._connectionManager.connectionStore.loadAllConnections();
-            // if there are no saved connections
+            const connectionGroups =
+                this._connectionManager.connectionStore.connectionConfig.getConnectionGroups(
+                    true,
+                );
+            // if there are no saved connections or groups
             // show the add connection node
-            if (savedConnections.length === 0) {
+            if (
+                savedConnections.length === 0 &&
+                connectionGroups.length === 0
+            ) {
                 return this.getAddConnectionNode();
             }
             // if OE doesn't exist the first time
@@ -648,12 +676,158 @@ export class ObjectExplorerService {
                 this._rootTreeNodeArray = [];
                 this.getSavedConnections();
                 this._objectExplorerProvider.objectExplorerExists = true;
-                return this.sortByServerName(this._rootTreeNodeArray);
-            } else {
-                // otherwise returned the cached nodes
-                return this.sortByServerName(this._rootTreeNodeArray);
+            }
+            this.loadConnectionGroupNodes(connectionGroups);
+            this.updateConnectionGroupIds(
+                savedConnections.map((conn) => conn.connectionCreds),
+            );
+            return this.getConnectionGroupChildren(undefined);
+        }
+    }
+
+    /**
+     * Gets the group node a connection node is shown in
+     * @returns the group node, or undefined if the connection is shown at the root
+     */
+    public getConnectionGroupNode(
+        node: TreeNodeInfo,
+    ): ConnectionGroupNode | undefined {
+        const groupId = (<IConnectionProfile>node.connectionInfo)?.groupId;
+        return groupId ? this._connectionGroupNodes.get(groupId) : undefined;
+    }
+
+    /**
+     * Gets the connection nodes in a group and in all of the groups nested in it
+     */
+    public getConnectionNodesInGroup(
+        groupNode: ConnectionGroupNode,
+    ): TreeNodeInfo[] {
+        return this._rootTreeNodeArray.filter((node) => {
+            for (
+                let parent = this.getConnectionGroupNode(node);
+                parent;
+                parent = parent.parentNode
+            ) {
+                if (parent.groupId === groupNode.groupId) {
+                    return true;
+                }
+            }
+            return false;
+        });
+    }
+
+    /**
+     * Moves a connection to a group and saves the change to its profile
+     * @param groupNode the group to move the connection to, or undefined to move it to the root
+     */
+    public async moveConnectionToGroup(
+        node: TreeNodeInfo,
+        groupNode: ConnectionGroupNode | undefined,
+    ): Promise<void> {
+        const profile = <IConnectionProfile>node.connectionInfo;
+        await this._connectionManager.connectionStore.connectionConfig.setConnectionGroup(
+            profile,
+            groupNode?.groupId,
+        );
+        profile.groupId = groupNode?.groupId;
+    }
+
+    /**
+     * Moves a group into another group
+     * @param parentNode the group to move the group to, or undefined to move it to the root
+     */
+    public async moveConnectionGroup(
+        groupNode: ConnectionGroupNode,
+        parentNode: ConnectionGroupNode | undefined,
+    ): Promise<void> {
+        for (let parent = parentNode; parent; parent = parent.parentNode) {
+            if (parent.groupId === groupNode.groupId) {
+                vscode.window.showErrorMessage(
+                    LocalizedConstants.msgCannotMoveConnectionGroupIntoItself,
+                );
+                return;
             }
         }
+        await this._connectionManager.connectionStore.connectionConfig.updateConnectionGroup(
+            {
+                ...groupNode.group,
+                parentId: parentNode?.groupId,
+            },
+        );
+    }
+
+    /**
+     * Builds the nodes of the connection groups. Groups nested in a group that doesn't
+     * exist, or in one of their own subgroups, are shown at the root.
+     */
+    private loadConnectionGroupNodes(groups: IConnectionGroup[]): void {
+        const groupsById = new Map(groups.map((group) => [group.id, group]));
+        this._connectionGroupNodes = new Map<string, ConnectionGroupNode>();
+        const createNode = (
+            group: IConnectionGroup,
+            descendantIds: Set<string>,
+        ): ConnectionGroupNode => {
+            let node = this._connectionGroupNodes.get(group.id);
+            if (!node) {
+                const parent = group.parentId
+                    ? groupsById.get(group.parentId)
+                    : undefined;
+                const parentNode =
+                    parent && !descendantIds.has(parent.id)
+                        ? createNode(
+                              parent,
+                              new Set(descendantIds).add(group.id),
+                          )
+                        : undefined;
+                node = new ConnectionGroupNode(group, parentNode);
+                this._connectionGroupNodes.set(group.id, node);
+            }
+            return node;
+        };
+        for (const group of groups) {
+            createNode(group, new Set<string>());
+        }
+    }
+
+    /**
+     * Updates the groups of the connection nodes from the saved profiles,
+     * in case they were moved by editing the settings
+     */
+    private updateConnectionGroupIds(
+        savedConnections: IConnectionInfo[],
+    ): void {
+        for (const node of this._rootTreeNodeArray) {
+            const savedConnection = savedConnections.find((conn) =>
+                Utils.isSameConnection(conn, node.connectionInfo),
+            );
+            if (savedConnection) {
+                (<IConnectionProfile>node.connectionInfo).groupId = (<
+                    IConnectionProfile
+                >savedConnection).groupId;
+            }
+        }
+    }
+
+    /**
+     * Gets the groups and connections in a group, groups are shown first
+     * @param groupNode the group, or undefined to get the groups and connections at the root
+     */
+    private getConnectionGroupChildren(
+        groupNode: ConnectionGroupNode | undefined,
+    ): vscode.TreeItem[] {
+        const groupNodes = Array.from(this._connectionGroupNodes.values())
+            .filter((node) => node.parentNode?.groupId === groupNode?.groupId)
+            .sort((a, b) =>
+                a.group.name
+                    .toLowerCase()
+                    .localeCompare(b.group.name.toLowerCase()),
+            );
+        const connectionNodes = this._rootTreeNodeArray.filter(
+            (node) =>
+                this.getConnectionGroupNode(node)?.groupId ===
+                groupNode?.groupId,
+        );
+        return [...groupNodes, ...this.sortByServerName(connectionNodes)];
     }
 
     /**
@@ -0,0 +1,286 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as os from "os";
+import { formatParameterValue } from "../models/queryParameters";
+import { quoteIdentifier } from "../models/resultsFormatter";
+import {
+    QueryBuilderAggregate,
+    QueryBuilderColumnReference,
+    QueryBuilderFilter,
+    QueryBuilderForeignKey,
+    QueryBuilderJoinCondition,
+    QueryBuilderJoinType,
+    QueryBuilderOperator,
+    QueryBuilderQuery,
+    QueryBuilderSelectedColumn,
+    QueryBuilderTable,
+} from "../sharedInterfaces/queryBuilder";
+
+const indent = "    ";
+
+export function createEmptyQuery(): QueryBuilderQuery {
+    return {
+        tables: [],
+        columns: [],
+        distinct: false,
+        filters: [],
+        groupBy: [],
+        orderBy: [],
+    };
+}
+
+/**
+ * Gets an alias for a table that is not used by the tables of the query yet: the name of the
+ * table, followed by a number when the table is in the query more than once
+ */
+export function getUniqueAlias(
+    tables: QueryBuilderTable[],
+    name: string,
+): string {
+    const aliases = new Set(tables.map((t) => t.alias.toLowerCase()));
+    let alias = name;
+    for (let i = 2; aliases.has(alias.toLowerCase()); i++) {
+        alias = `${name}${i}`;
+    }
+    return alias;
+}
+
+/**
+ * Suggests how to join a table to the tables of a query from the foreign keys between them,
+ * using the first foreign key that references or is referenced by a table of the query
+ * @returns the join conditions, which are empty when there is no such foreign key
+ */
+export function suggestJoinConditions(
+    tables: QueryBuilderTable[],
+    schema: string,
+    name: string,
+    foreignKeys: QueryBuilderForeignKey[],
+): QueryBuilderJoinCondition[] {
+    const isTable = (fkSchema: string, fkTable: string, s: string, n: string) =>
+        fkSchema === s && fkTable === n;
+    for (const table of tables) {
+        for (const fk of foreignKeys) {
+            // the new table references the table of the query
+            if (
+                isTable(fk.schema, fk.table, schema, name) &&
+                isTable(
+                    fk.referencedSchema,
+                    fk.referencedTable,
+                    table.schema,
+                    table.name,
+                )
+            ) {
+                return fk.columns.map((column, i) => ({
+                    column: column,
+                    otherColumn: {
+                        alias: table.alias,
+                        column: fk.referencedColumns[i],
+                    },
+                }));
+            }
+            // the table of the query references the new table
+            if (
+                isTable(fk.schema, fk.table, table.schema, table.name) &&
+                isTable(fk.referencedSchema, fk.referencedTable, schema, name)
+            ) {
+                return fk.referencedColumns.map((column, i) => ({
+                    column: column,
+                    otherColumn: {
+                        alias: table.alias,
+                        column: fk.columns[i],
+                    },
+                }));
+            }
+        }
+    }
+    return [];
+}
+
+/**
+ * Adds a table to the end of a query, joined to the tables before it through a foreign key
+ * when there is one
+ */
+export function addTable(
+    query: QueryBuilderQuery,
+    schema: string,
+    name: string,
+    foreignKeys: QueryBuilderForeignKey[],
+): QueryBuilderQuery {
+    const table: QueryBuilderTable = {
+        schema: schema,
+        name: name,
+        alias: getUniqueAlias(query.tables, name),
+        joinType: QueryBuilderJoinType.Inner,
+        joinConditions: suggestJoinConditions(
+            query.tables,
+            schema,
+            name,
+            foreignKeys,
+        ),
+    };
+    return {
+        ...query,
+        tables: [...query.tables, table],
+    };
+}
+
+/**
+ * Removes a table from a query, along with the columns, filters, grouping, ordering and join
+ * conditions that refer to it
+ */
+export function removeTable(
+    query: QueryBuilderQuery,
+    alias: string,
+): QueryBuilderQuery {
+    const isOtherTable = (c: QueryBuilderColumnReference) => c.alias !== alias;
+    return {
+        ...query,
+        tables: query.tables
+            .filter((t) => t.alias !== alias)
+            .map((t) => ({
+                ...t,
+                joinConditions: t.joinConditions.filter((c) =>
+                    isOtherTable(c.otherColumn),
+                ),
+            })),
+        columns: query.columns.filter(isOtherTable),
+        filters: query.filters.filter(isOtherTable),
+        groupBy: query.groupBy.filter(isOtherTable),
+        orderBy: query.orderBy.filter(isOtherTable),
+    };
+}
+
+function formatColumn(column: QueryBuilderColumnReference): string {
+    return `${quoteIdentifier(column.alias)}.${quoteIdentifier(column.column)}`;
+}
+
+function formatSelectedColumn(column: QueryBuilderSelectedColumn): string {
+    let expression = formatColumn(column);
+    if (column.aggregate === QueryBuilderAggregate.CountDistinct) {
+        expression = `COUNT(DISTINCT ${expression})`;
+    } else if (column.aggregate) {
+        expression = `${column.aggregate}(${expression})`;
+    }
+    return column.outputName
+        ? `${expression} AS ${quoteIdentifier(column.outputName)}`
+        : expression;
+}
+
+function formatFilter(filter: QueryBuilderFilter): string {
+    const column = formatColumn(filter);
+    switch (filter.operator) {
+        case QueryBuilderOperator.IsNull:
+        case QueryBuilderOperator.IsNotNull:
+            return `${column} ${filter.operator}`;
+        case QueryBuilderOperator.In:
+        case QueryBuilderOperator.NotIn: {
+            const values = filter.value
+                .split(",")
+                .map((value) => formatParameterValue(value.trim()));
+            return `${column} ${filter.operator} (${values.join(", ")})`;
+        }
+        default:
+            return `${column} ${filter.operator} ${formatParameterValue(filter.value)}`;
+    }
+}
+
+function isSameColumn(
+    a: QueryBuilderColumnReference,
+    b: QueryBuilderColumnReference,
+): boolean {
+    return a.alias === b.alias && a.column === b.column;
+}
+
+/**
+ * Gets the columns of the GROUP BY clause. When the query is grouped or has aggregates, the
+ * selected columns that are not aggregated are grouped by as well, so that the query is valid.
+ */
+export function getGroupByColumns(
+    query: QueryBuilderQuery,
+): QueryBuilderColumnReference[] {
+    if (query.groupBy.length === 0 && !query.columns.some((c) => c.aggregate)) {
+        return [];
+    }
+    const columns = [...query.groupBy];
+    for (const column of query.columns) {
+        if (
+            !column.aggregate &&
+            !columns.some((c) => isSameColumn(c, column))
+        ) {
+            columns.push({ alias: column.alias, column: column.column });
+        }
+    }
+    return columns;
+}
+
+/**
+ * Generates the SELECT statement of a query
+ * @returns the statement, or an empty string when the query has no tables
+ */
+export function generateSql(query: QueryBuilderQuery): string {
+    if (query.tables.length === 0) {
+        return "";
+    }
+    const groupBy = getGroupByColumns(query);
+    // a grouped query without selected columns returns the columns it is grouped by
+    const columns: QueryBuilderSelectedColumn[] =
+        query.columns.length === 0 ? groupBy : query.columns;
+
+    let select = "SELECT";
+    if (query.distinct) {
+        select += " DISTINCT";
+    }
+    if (query.top !== undefined) {
+        select += ` TOP (${query.top})`;
+    }
+    const lines = [select];
+    if (columns.length === 0) {
+        lines.push(`${indent}*`);
+    } else {
+        lines.push(
+            ...columns.map(
+                (c, i) =>
+                    `${indent}${formatSelectedColumn(c)}${i < columns.length - 1 ? "," : ""}`,
+            ),
+        );
+    }
+
+    query.tables.forEach((table, i) => {
+        const source = `${quoteIdentifier(table.schema)}.${quoteIdentifier(table.name)} AS ${quoteIdentifier(table.alias)}`;
+        if (i === 0) {
+            lines.push(`FROM ${source}`);
+        } else if (table.joinConditions.length === 0) {
+            lines.push(`CROSS JOIN ${source}`);
+        } else {
+            lines.push(`${table.joinType} JOIN ${source}`);
+            table.joinConditions.forEach((condition, j) => {
+                lines.push(
+                    `${indent}${j === 0 ? "ON" : "AND"} ${formatColumn({ alias: table.alias, column: condition.column })} = ${formatColumn(condition.otherColumn)}`,
+                );
+            });
+        }
+    });
+
+    query.filters.forEach((filter, i) => {
+        lines.push(
+            `${i === 0 ? "WHERE" : `${indent}AND`} ${formatFilter(filter)}`,
+        );
+    });
+    if (groupBy.length > 0) {
+        lines.push(`GROUP BY ${groupBy.map(formatColumn).join(", ")}`);
+    }
+    if (query.orderBy.length > 0) {
+        lines.push(
+            `ORDER BY ${query.orderBy
+                .map(
+                    (o) =>
+                        `${formatColumn(o)} ${o.descending ? "DESC" : "ASC"}`,
+                )
+                .join(", ")}`,
+        );
+    }
+    return lines.join(os.EOL);
+}
@@ -0,0 +1,351 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from "vscode";
+import { IConnectionInfo } from "vscode-mssql";
+import * as Constants from "../constants/constants";
+import * as LocalizedConstants from "../constants/locConstants";
+import ConnectionManager from "../controllers/connectionManager";
+import { ReactWebviewPanelController } from "../controllers/reactWebviewPanelController";
+import UntitledSqlDocumentService from "../controllers/untitledSqlDocumentService";
+import { SimpleExecuteRequest } from "../models/contracts/queryExecute";
+import { generateGuid } from "../models/utils";
+import { Deferred } from "../protocol";
+import { getObjectKey } from "../schemaDocs/schemaDocsUtils";
+import {
+    QueryBuilderForeignKey,
+    QueryBuilderObject,
+    QueryBuilderReducers,
+    QueryBuilderWebviewState,
+} from "../sharedInterfaces/queryBuilder";
+import {
+    TelemetryActions,
+    TelemetryViews,
+} from "../sharedInterfaces/telemetry";
+import { ApiStatus } from "../sharedInterfaces/webview";
+import { sendActionEvent } from "../telemetry/telemetry";
+import { getErrorMessage } from "../utils/utils";
+import {
+    addTable,
+    createEmptyQuery,
+    generateSql,
+    removeTable,
+} from "./queryBuilderUtils";
+
+const connectionUriScheme = "queryBuilder";
+
+const objectsQuery = `SELECT s.name, o.name, o.type, c.name
+FROM sys.objects o
+JOIN sys.schemas s ON s.schema_id = o.schema_id
+JOIN sys.columns c ON c.object_id = o.object_id
+WHERE o.type IN ('U', 'V') AND o.is_ms_shipped = 0
+ORDER BY s.name, o.name, c.column_id`;
+
+const foreignKeysQuery = `SELECT s.name, t.name, fk.name, pc.name, rs.name, rt.name, rc.name
+FROM sys.foreign_keys fk
+JOIN sys.tables t ON t.object_id = fk.parent_object_id
+JOIN sys.schemas s ON s.schema_id = t.schema_id
+JOIN sys.tables rt ON rt.object_id = fk.referenced_object_id
+JOIN sys.schemas rs ON rs.schema_id = rt.schema_id
+JOIN sys.foreign_key_columns fkc ON fkc.constraint_object_id = fk.object_id
+JOIN sys.columns pc ON pc.object_id = fkc.parent_object_id AND pc.column_id = fkc.parent_column_id
+JOIN sys.columns rc ON rc.object_id = fkc.referenced_object_id AND rc.column_id = fkc.referenced_column_id
+WHERE t.is_ms_shipped = 0
+ORDER BY s.name, t.name, fk.name, fkc.constraint_column_id`;
+
+// the connection of a query editor may use the default database of the login
+const databaseNameQuery = "SELECT DB_NAME()";
+
+/**
+ * Builds a SELECT statement from the tables and views of a database, and opens it in a query
+ * editor or runs it
+ */
+export class QueryBuilderWebviewController extends ReactWebviewPanelController<
+    QueryBuilderWebviewState,
+    QueryBuilderReducers
+> {
+    private _connectionUri = `${connectionUriScheme}:${generateGuid()}`;
+
+    /**
+     * @param _connectionInfo The connection to the server, whose database is the database of
+     * the query, or the default database of the login when it is empty
+     * @param _initialTable The table or view the query starts with
+     */
+    constructor(
+        context: vscode.ExtensionContext,
+        private _connectionManager: ConnectionManager,
+        private _untitledSqlDocumentService: UntitledSqlDocumentService,
+        private _connectionInfo: IConnectionInfo,
+        private _initialTable?: { schema: string; name: string },
+    ) {
+        super(
+            context,
+            "queryBuilder",
+            {
+                loadStatus: ApiStatus.Loading,
+                serverName: _connectionInfo.server,
+                databaseName: _connectionInfo.database,
+                objects: [],
+                foreignKeys: [],
+                query: createEmptyQuery(),
+                sql: "",
+            },
+            {
+                title: LocalizedConstants.queryBuilderTitle(
+                    _connectionInfo.database || _connectionInfo.server,
+                ),
+                viewColumn: vscode.ViewColumn.Active,
+                iconPath: {
+                    dark: vscode.Uri.joinPath(
+                        context.extensionUri,
+                        "media",
+                        "queryBuilder_dark.svg",
+                    ),
+                    light: vscode.Uri.joinPath(
+                        context.extensionUri,
+                        "media",
+                        "queryBuilder_light.svg",
+                    ),
+                },
+            },
+        );
+        this.registerRpcHandlers();
+        this.registerDisposable({
+            dispose: () => {
+                void this._connectionManager.disconnect(this._connectionUri);
+            },
+        });
+        void this.loadObjects();
+    }
+
+    /**
+     * Loads the tables and views of the database with their columns, and the foreign keys the
+     * joins are suggested from
+     */
+    private async loadObjects(): Promise<void> {
+        try {
+            const connected = await this._connectionManager.connect(
+                this._connectionUri,
+                { ...this._connectionInfo },
+                new Deferred<boolean>(),
+            );
+            if (!connected) {
+                throw new Error(
+                    LocalizedConstants.msgQueryBuilderConnectionFailed(
+                        this._connectionInfo.database ||
+                            this._connectionInfo.server,
+                    ),
+                );
+            }
+            const [objectRows, foreignKeyRows, databaseNameRows] =
+                await Promise.all(
+                    [objectsQuery, foreignKeysQuery, databaseNameQuery].map(
+                        (query) =>
+                            this._connectionManager.client.sendRequest(
+                                SimpleExecuteRequest.type,
+                                {
+                                    ownerUri: this._connectionUri,
+                                    queryString: query,
+                                },
+                            ),
+                    ),
+                );
+
+            const objects = new Map<string, QueryBuilderObject>();
+            for (const row of objectRows.rows) {
+                const [schema, name, type, column] = row.map(
+                    (cell) => cell.displayValue,
+                );
+                const key = getObjectKey(schema, name);
+                if (!objects.has(key)) {
+                    objects.set(key, {
+                        schema: schema,
+                        name: name,
+                        isView: type.trim() === "V",
+                        columns: [],
+                    });
+                }
+                objects.get(key).columns.push(column);
+            }
+
+            const foreignKeys = new Map<string, QueryBuilderForeignKey>();
+            for (const row of foreignKeyRows.rows) {
+                const [schema, table, name, column] = row.map(
+                    (cell) => cell.displayValue,
+                );
+                const key = `${getObjectKey(schema, table)}.${name}`;
+                let foreignKey = foreignKeys.get(key);
+                if (!foreignKey) {
+                    foreignKey = {
+                        schema: schema,
+                        table: table,
+                        columns: [],
+                        referencedSchema: row[4].displayValue,
+                        referencedTable: row[5].displayValue,
+                        referencedColumns: [],
+                    };
+                    foreignKeys.set(key, foreignKey);
+                }
+                foreignKey.columns.push(column);
+                foreignKey.referencedColumns.push(row[6].displayValue);
+            }
+
+            const databaseName = databaseNameRows.rows[0][0].displayValue;
+            this.panel.title =
+                LocalizedConstants.queryBuilderTitle(databaseName);
+            let query = this.state.query;
+            if (this._initialTable) {
+                query = addTable(
+                    query,
+                    this._initialTable.schema,
+                    this._initialTable.name,
+                    [...foreignKeys.values()],
+                );
+            }
+            this.state = {
+                ...this.state,
+                loadStatus: ApiStatus.Loaded,
+                databaseName: databaseName,
+                objects: [...objects.values()],
+                foreignKeys: [...foreignKeys.values()],
+                query: query,
+                sql: generateSql(query),
+                errorMessage: undefined,
+            };
+            sendActionEvent(
+                TelemetryViews.QueryBuilder,
+                TelemetryActions.Load,
+                {
+                    hasInitialTable: (!!this._initialTable).toString(),
+                },
+                {
+                    objectCount: objects.size,
+                    foreignKeyCount: foreignKeys.size,
+                },
+            );
+        } catch (e) {
+            this.state = {
+                ...this.state,
+                loadStatus: ApiStatus.Error,
+                errorMessage: getErrorMessage(e),
+            };
+        }
+    }
+
+    /**
+     * Opens the query in a new query editor connected to the database, and runs it
+     */
+    private async openQuery(
+        state: QueryBuilderWebviewState,
+        execute: boolean,
+    ): Promise<void> {
+        const editor = await this._untitledSqlDocumentService.newQuery(
+            state.sql,
+        );
+        const uri = editor.document.uri.toString(true);
+        const connected = await this._connectionManager
+            .connect(
+                uri,
+                { ...this._connectionInfo, database: state.databaseName },
+                new Deferred<boolean>(),
+            )
+            .catch(() => false);
+        if (!connected) {
+            // the query is kept in the editor, but it can't be run without a connection
+            void vscode.window.showErrorMessage(
+                LocalizedConstants.msgQueryBuilderConnectionFailed(
+                    state.databaseName,
+                ),
+            );
+            return;
+        }
+        if (execute) {
+            await vscode.commands.executeCommand(Constants.cmdRunQuery);
+        }
+        sendActionEvent(
+            TelemetryViews.QueryBuilder,
+            TelemetryActions.OpenQueryBuilderQuery,
+            {
+                execute: execute.toString(),
+            },
+            {
+                tableCount: state.query.tables.length,
+                columnCount: state.query.columns.length,
+                filterCount: state.query.filters.length,
+            },
+        );
+    }
+
+    private registerRpcHandlers() {
+        this.registerReducer("addTable", async (state, payload) => {
+            const query = addTable(
+                state.query,
+                payload.schema,
+                payload.name,
+                state.foreignKeys,
+            );
+            return {
+                ...state,
+                query: query,
+                sql: generateSql(query),
+            };
+        });
+        this.registerReducer("dropObjects", async (state, payload) => {
+            let query = state.query;
+            for (const object of payload.objects) {
+                if (object.type !== "Table" && object.type !== "View") {
+                    continue;
+                }
+                const objectName = getObjectKey(object.schema, object.name);
+                if (
+                    object.server !== state.serverName ||
+                    object.database !== state.databaseName
+                ) {
+                    void vscode.window.showWarningMessage(
+                        LocalizedConstants.msgQueryBuilderOtherDatabase(
+                            objectName,
+                            state.databaseName,
+                        ),
+                    );
+                    continue;
+                }
+                query = addTable(
+                    query,
+                    object.schema,
+                    object.name,
+                    state.foreignKeys,
+                );
+            }
+            return {
+                ...state,
+                query: query,
+                sql: generateSql(query),
+            };
+        });
+        this.registerReducer("removeTable", async (state, payload) => {
+            const query = removeTable(state.query, payload.alias);
+            return {
+                ...state,
+                query: query,
+                sql: generateSql(query),
+            };
+        });
+        this.registerReducer("setQuery", async (state, payload) => {
+            return {
+                ...state,
+                query: payload.query,
+                sql: generateSql(payload.query),
+            };
+        });
+        this.registerReducer("openInEditor", async (state) => {
+            await this.openQuery(state, false);
+            return state;
+        });
+        this.registerReducer("runQuery", async (state) => {
+            await this.openQuery(state, true);
+            return state;
+        });
+    }
+}
@@ -7,6 +7,7 @@ import * as vscode from "vscode";
 import * as path from "path";
 import * as os from "os";
 import * as LocalizedConstants from "../constants/locConstants";
+import { IQueryHistoryEntry } from "./queryHistoryStore";
 
 /**
  * Empty Node shown when no queries are available
@@ -42,6 +43,7 @@ export class QueryHistoryNode extends vscode.TreeItem {
     private _isSuccess: boolean;
     private _queryString: string;
     private _connectionLabel: string;
+    private _entry: IQueryHistoryEntry;
 
     constructor(
         label: string,
@@ -51,8 +53,10 @@ export class QueryHistoryNode extends vscode.TreeItem {
         timeStamp: Date,
         connectionLabel: string,
         isSuccess: boolean,
+        entry?: IQueryHistoryEntry,
     ) {
         super(label, vscode.TreeItemCollapsibleState.None);
+        this._entry = entry;
         this._queryString = queryString;
         this._ownerUri = ownerUri;
         this._timeStamp = timeStamp;
@@ -63,6 +67,13 @@ export class QueryHistoryNode extends vscode.TreeItem {
             ? LocalizedConstants.querySuccess
             : LocalizedConstants.queryFailed;
         this.tooltip = `${tooltip}${os.EOL}${os.EOL}${queryStatusLabel}`;
+        if (entry) {
+            this.description = LocalizedConstants.queryHistoryEntryDetails(
+                entry.rowCount,
+                entry.durationMs,
+            );
+            this.tooltip = `${this.tooltip}${os.EOL}${this.description}`;
+        }
         this.contextValue = QueryHistoryNode.contextValue;
     }
 
@@ -88,4 +99,8 @@ export class QueryHistoryNode extends vscode.TreeItem {
     public get connectionLabel(): string {
         return this._connectionLabel;
     }
+
+    public get entry(): IQueryHistoryEntry {
+        return this._entry;
+    }
 }
@@ -12,12 +12,20 @@ import { SqlOutputContentProvider } from "../models/sqlOutputContentProvider";
 import { QueryHistoryNode, EmptyHistoryNode } from "./queryHistoryNode";
 import VscodeWrapper from "../controllers/vscodeWrapper";
 import * as Constants from "../constants/constants";
+import * as LocalizedConstants from "../constants/locConstants";
 import UntitledSqlDocumentService from "../controllers/untitledSqlDocumentService";
 import { Deferred } from "../protocol";
 import StatusView from "../views/statusView";
 import { IConnectionProfile } from "../models/interfaces";
 import { IPrompter } from "../prompts/question";
 import { QueryHistoryUI, QueryHistoryAction } from "../views/queryHistoryUI";
+import {
+    IQueryHistoryEntry,
+    IQueryHistoryFilter,
+    QueryHistoryStorageScope,
+    QueryHistoryStore,
+} from "./queryHistoryStore";
+import { IConnectionInfo } from "vscode-mssql";
 
 export class QueryHistoryProvider implements vscode.TreeDataProvider<any> {
     private _onDidChangeTreeData: vscode.EventEmitter<any | undefined> =
@@ -28,6 +36,10 @@ export class QueryHistoryProvider implements vscode.TreeDataProvider<any> {
     private _queryHistoryNodes: vscode.TreeItem[] = [new EmptyHistoryNode()];
     private _queryHistoryLimit: number;
     private _queryHistoryUI: QueryHistoryUI;
+    private _queryHistoryFilter: IQueryHistoryFilter | undefined;
+    private _onDidChangeFilter: vscode.EventEmitter<
+        IQueryHistoryFilter | undefined
+    > = new vscode.EventEmitter<IQueryHistoryFilter | undefined>();
 
     constructor(
         private _connectionManager: ConnectionManager,
@@ -36,56 +48,65 @@ export class QueryHistoryProvider implements vscode.TreeDataProvider<any> {
         private _untitledSqlDocumentService: UntitledSqlDocumentService,
         private _statusView: StatusView,
         private _prompter: IPrompter,
+        private _queryHistoryStore: QueryHistoryStore,
     ) {
         const config = this._vscodeWrapper.getConfiguration(
             Constants.extensionConfigSectionName,
         );
         this._queryHistoryLimit = config.get(Constants.configQueryHistoryLimit);
         this._queryHistoryUI = new QueryHistoryUI(this._prompter);
+        this.loadPersistedHistory();
     }
 
-    clearAll(): void {
+    /**
+     * Clears the query history shown in the view. Only the shown history is cleared, so
+     * clearing the history of a workspace keeps the history of all workspaces.
+     */
+    async clearAll(): Promise<void> {
         this._queryHistoryNodes = [new EmptyHistoryNode()];
         this._onDidChangeTreeData.fire(undefined);
+        if (this.storageScope !== QueryHistoryStorageScope.None) {
+            await this._queryHistoryStore.clear(this.storageScope);
+        }
     }
 
-    refresh(ownerUri: string, timeStamp: Date, hasError): void {
-        const timeStampString = timeStamp.toLocaleString();
-        const historyNodeLabel = this.createHistoryNodeLabel(ownerUri);
-        const tooltip = this.createHistoryNodeTooltip(
-            ownerUri,
-            timeStampString,
-        );
-        const queryString = this.getQueryString(ownerUri);
-        const connectionLabel = this.getConnectionLabel(ownerUri);
-        const node = new QueryHistoryNode(
-            historyNodeLabel,
-            tooltip,
-            queryString,
-            ownerUri,
-            timeStamp,
-            connectionLabel,
-            !hasError,
-        );
-        if (this._queryHistoryNodes.length === 1) {
-            if (this._queryHistoryNodes[0] instanceof EmptyHistoryNode) {
-                this._queryHistoryNodes = [];
-            }
-        }
-        this._queryHistoryNodes.push(node);
-        // sort the query history sorted by timestamp
-        this._queryHistoryNodes.sort((a, b) => {
-            return (
-                (b as QueryHistoryNode).timeStamp.getTime() -
-                (a as QueryHistoryNode).timeStamp.getTime()
+    /**
+     * Reloads the view from the persisted history, e.g. after the shown history was changed
+     */
+    public reloadPersistedHistory(): void {
+        this._queryHistoryNodes = [new EmptyHistoryNode()];
+        this.loadPersistedHistory();
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    async refresh(
+        ownerUri: string,
+        timeStamp: Date,
+        hasError,
+        durationMs: number = 0,
+    ): Promise<void> {
+        const entry: IQueryHistoryEntry = {
+            id: Utils.generateGuid(),
+            queryString: this.getQueryString(ownerUri),
+            connectionLabel: this.getConnectionLabel(ownerUri),
+            server: this.getCredentials(ownerUri).server,
+            database: this.getCredentials(ownerUri).database,
+            ownerUri: ownerUri,
+            timeStamp: timeStamp.getTime(),
+            durationMs: durationMs,
+            rowCount: this.getRowCount(ownerUri),
+            isSuccess: !hasError,
+            credentials: this.removeSecrets(this.getCredentials(ownerUri)),
+        };
+        this.addHistoryNode(this.createHistoryNode(entry));
+        this._onDidChangeTreeData.fire(undefined);
+        for (const scope of this.persistedScopes) {
+            await this._queryHistoryStore.addEntry(
+                entry,
+                scope,
+                this._queryHistoryLimit,
             );
-        });
-        // Push out the first listing if it crosses limit to maintain
-        // an LRU order
-        if (this._queryHistoryNodes.length > this._queryHistoryLimit) {
-            this._queryHistoryNodes.shift();
         }
-        this._onDidChangeTreeData.fire(undefined);
     }
 
     getTreeItem(node: QueryHistoryNode): QueryHistoryNode {
@@ -96,6 +117,12 @@ export class QueryHistoryProvider implements vscode.TreeDataProvider<any> {
         if (this._queryHistoryNodes.length === 0) {
             this._queryHistoryNodes.push(new EmptyHistoryNode());
         }
+        if (this._queryHistoryFilter) {
+            const filteredNodes = this.filteredHistoryNodes;
+            return filteredNodes.length > 0
+                ? filteredNodes
+                : [new EmptyHistoryNode()];
+        }
         return this._queryHistoryNodes;
     }
 
@@ -103,7 +130,62 @@ export class QueryHistoryProvider implements vscode.TreeDataProvider<any> {
      * Shows the Query History List on the command palette
      */
     public async showQueryHistoryCommandPalette(): Promise<void | undefined> {
-        const options = this._queryHistoryNodes.map((node) =>
+        await this.showQueryHistoryQuickPick(
+            this._queryHistoryNodes.filter(
+                (node) => node instanceof QueryHistoryNode,
+            ),
+        );
+        return undefined;
+    }
+
+    /**
+     * Prompts for search criteria, filters the Query History view and shows
+     * the matching entries on the command palette
+     */
+    public async searchQueryHistory(): Promise<void> {
+        const filter = await this._queryHistoryUI.promptForSearchFilter(
+            this._queryHistoryFilter,
+        );
+        if (!filter) {
+            return;
+        }
+        this.setFilter(filter);
+        const matchingNodes = this.filteredHistoryNodes;
+        if (matchingNodes.length === 0) {
+            this._vscodeWrapper.showInformationMessage(
+                LocalizedConstants.msgNoMatchingQueryHistory,
+            );
+            return;
+        }
+        await this.showQueryHistoryQuickPick(matchingNodes);
+    }
+
+    /**
+     * Removes the active search filter from the Query History view
+     */
+    public clearQueryHistorySearch(): void {
+        this.setFilter(undefined);
+    }
+
+    /**
+     * Event fired when the active search filter changes
+     */
+    public get onDidChangeFilter(): vscode.Event<
+        IQueryHistoryFilter | undefined
+    > {
+        return this._onDidChangeFilter.event;
+    }
+
+    private setFilter(filter: IQueryHistoryFilter | undefined): void {
+        this._queryHistoryFilter = filter;
+        this._onDidChangeFilter.fire(filter);
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    private async showQueryHistoryQuickPick(
+        nodes: vscode.TreeItem[],
+    ): Promise<void> {
+        const options = nodes.map((node) =>
             this._queryHistoryUI.convertToQuickPickItem(node),
         );
         let queryHistoryQuickPickItem =
@@ -115,7 +197,6 @@ export class QueryHistoryProvider implements vscode.TreeDataProvider<any> {
                     QueryHistoryAction.RunQueryHistoryAction,
             );
         }
-        return undefined;
     }
 
     /**
@@ -155,9 +236,7 @@ export class QueryHistoryProvider implements vscode.TreeDataProvider<any> {
         let uri = editor.document.uri.toString(true);
         let title = path.basename(editor.document.fileName);
         const queryUriPromise = new Deferred<boolean>();
-        let credentials = this._connectionManager.getConnectionInfo(
-            node.ownerUri,
-        ).credentials;
+        let credentials = await this.getCredentialsForNode(node);
         await this._connectionManager.connect(
             uri,
             credentials,
@@ -187,15 +266,23 @@ export class QueryHistoryProvider implements vscode.TreeDataProvider<any> {
     }
 
     /**
-     * Deletes a query history entry for a URI
+     * Deletes a query history entry for a URI from the shown history
      */
-    public deleteQueryHistoryEntry(node: QueryHistoryNode): void {
+    public async deleteQueryHistoryEntry(
+        node: QueryHistoryNode,
+    ): Promise<void> {
         let index = this._queryHistoryNodes.findIndex((n) => {
             let historyNode = n as QueryHistoryNode;
             return historyNode === node;
         });
         this._queryHistoryNodes.splice(index, 1);
         this._onDidChangeTreeData.fire(undefined);
+        if (node.entry && this.storageScope !== QueryHistoryStorageScope.None) {
+            await this._queryHistoryStore.removeEntry(
+                node.entry.id,
+                this.storageScope,
+            );
+        }
     }
 
     /**
@@ -205,17 +292,180 @@ export class QueryHistoryProvider implements vscode.TreeDataProvider<any> {
         return this._queryHistoryNodes;
     }
 
+    /**
+     * Gets the history nodes matching the active search filter
+     */
+    private get filteredHistoryNodes(): QueryHistoryNode[] {
+        return this._queryHistoryNodes.filter(
+            (node): node is QueryHistoryNode =>
+                node instanceof QueryHistoryNode &&
+                QueryHistoryStore.matchesFilter(
+                    node.entry,
+                    this._queryHistoryFilter,
+                ),
+        );
+    }
+
+    /**
+     * Gets the scope of the persisted query history shown in the view
+     */
+    private get storageScope(): QueryHistoryStorageScope {
+        return this._vscodeWrapper
+            .getConfiguration(Constants.extensionConfigSectionName)
+            .get(
+                Constants.configQueryHistoryStorage,
+                QueryHistoryStorageScope.Workspace,
+            );
+    }
+
+    /**
+     * Gets the scopes query history entries are persisted to. Entries are saved in both the
+     * history of the workspace and the history of all workspaces, so that changing the scope
+     * shown in the view doesn't lose any of them.
+     */
+    private get persistedScopes(): QueryHistoryStorageScope[] {
+        return this.storageScope === QueryHistoryStorageScope.None
+            ? []
+            : [
+                  QueryHistoryStorageScope.Workspace,
+                  QueryHistoryStorageScope.Global,
+              ];
+    }
+
+    /**
+     * Loads the entries persisted by previous sessions into the view
+     */
+    private loadPersistedHistory(): void {
+        const entries = this._queryHistoryStore
+            .getEntries(this.storageScope)
+            .slice(0, this._queryHistoryLimit);
+        if (entries.length > 0) {
+            this._queryHistoryNodes = entries.map((entry) =>
+                this.createHistoryNode(entry),
+            );
+        }
+    }
+
+    /**
+     * Adds a node to the history, keeping the newest entries within the limit
+     */
+    private addHistoryNode(node: QueryHistoryNode): void {
+        if (this._queryHistoryNodes.length === 1) {
+            if (this._queryHistoryNodes[0] instanceof EmptyHistoryNode) {
+                this._queryHistoryNodes = [];
+            }
+        }
+        this._queryHistoryNodes.push(node);
+        // sort the query history sorted by timestamp
+        this._queryHistoryNodes.sort((a, b) => {
+            return (
+                (b as QueryHistoryNode).timeStamp.getTime() -
+                (a as QueryHistoryNode).timeStamp.getTime()
+            );
+        });
+        // Drop the oldest listings if they cross the limit to maintain
+        // an LRU order
+        if (this._queryHistoryNodes.length > this._queryHistoryLimit) {
+            this._queryHistoryNodes = this._queryHistoryNodes.slice(
+                0,
+                this._queryHistoryLimit,
+            );
+        }
+    }
+
+    /**
+     * Creates a query history node for a history entry
+     */
+    private createHistoryNode(entry: IQueryHistoryEntry): QueryHistoryNode {
+        const timeStamp = new Date(entry.timeStamp);
+        return new QueryHistoryNode(
+            this.createHistoryNodeLabel(
+                entry.queryString,
+                entry.connectionLabel,
+            ),
+            this.createHistoryNodeTooltip(
+                entry.queryString,
+                entry.connectionLabel,
+                timeStamp.toLocaleString(),
+            ),
+            entry.queryString,
+            entry.ownerUri,
+            timeStamp,
+            entry.connectionLabel,
+            entry.isSuccess,
+            entry,
+        );
+    }
+
+    /**
+     * Gets the credentials to reconnect with when opening a history entry.
+     * Entries restored from a previous session no longer have a live connection,
+     * so the persisted credentials are used and the saved password looked up.
+     */
+    private async getCredentialsForNode(
+        node: QueryHistoryNode,
+    ): Promise<IConnectionInfo> {
+        const connectionInfo = this._connectionManager.getConnectionInfo(
+            node.ownerUri,
+        );
+        if (connectionInfo?.credentials || !node.entry) {
+            return connectionInfo.credentials;
+        }
+        const credentials: IConnectionInfo = { ...node.entry.credentials };
+        if (credentials.authenticationType === Constants.sqlAuthentication) {
+            credentials.password =
+                await this._connectionManager.connectionStore.lookupPassword(
+                    credentials,
+                );
+        }
+        return credentials;
+    }
+
+    /**
+     * Gets the credentials of the connection a query ran on
+     */
+    private getCredentials(ownerUri: string): IConnectionInfo {
+        return this._connectionManager.getConnectionInfo(ownerUri).credentials;
+    }
+
+    /**
+     * Returns a copy of the credentials that is safe to persist
+     */
+    private removeSecrets(credentials: IConnectionInfo): IConnectionInfo {
+        return {
+            ...credentials,
+            password: undefined,
+            azureAccountToken: undefined,
+            connectionString: undefined,
+        };
+    }
+
+    /**
+     * Gets the total number of rows returned by the last execution
+     */
+    private getRowCount(ownerUri: string): number {
+        const queryRunner =
+            this._outputContentProvider.getQueryRunner(ownerUri);
+        return (queryRunner?.batchSets ?? []).reduce(
+            (batchTotal, batch) =>
+                batchTotal +
+                (batch.resultSetSummaries ?? []).reduce(
+                    (resultSetTotal, resultSet) =>
+                        resultSetTotal + resultSet.rowCount,
+                    0,
+                ),
+            0,
+        );
+    }
+
     /**
      * Creates the node label for a query history node
      */
-    private createHistoryNodeLabel(ownerUri: string): string {
-        const queryString = Utils.limitStringSize(
-            this.getQueryString(ownerUri),
-        ).trim();
-        const connectionLabel = Utils.limitStringSize(
-            this.getConnectionLabel(ownerUri),
-        ).trim();
-        return `${queryString} : ${connectionLabel}`;
+    private createHistoryNodeLabel(
+        queryString: string,
+        connectionLabel: string,
+    ): string {
+        return `${Utils.limitStringSize(queryString).trim()} : ${Utils.limitStringSize(connectionLabel).trim()}`;
     }
 
     /**
@@ -244,11 +494,10 @@ export class QueryHistoryProvider implements vscode.TreeDataProvider<any> {
      * Creates a detailed tool tip when a node is hovered
      */
     private createHistoryNodeTooltip(
-        ownerUri: string,
+        queryString: string,
+        connectionLabel: string,
         timeStamp: string,
     ): string {
-        const queryString = this.getQueryString(ownerUri);
-        const connectionLabel = this.getConnectionLabel(ownerUri);
         return `${connectionLabel}${os.EOL}${os.EOL}${timeStamp}${os.EOL}${os.EOL}${queryString}`;
     }
 }
@@ -0,0 +1,158 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from "vscode";
+import { IConnectionInfo } from "vscode-mssql";
+
+/**
+ * Where query history entries are persisted between sessions
+ */
+export enum QueryHistoryStorageScope {
+    None = "none",
+    Workspace = "workspace",
+    Global = "global",
+}
+
+/**
+ * A single persisted query history entry
+ */
+export interface IQueryHistoryEntry {
+    id: string;
+    queryString: string;
+    connectionLabel: string;
+    server: string;
+    database: string;
+    ownerUri: string;
+    /** Time the query completed, in milliseconds since the epoch */
+    timeStamp: number;
+    durationMs: number;
+    rowCount: number;
+    isSuccess: boolean;
+    /** Connection used to run the query, with all secrets removed */
+    credentials: IConnectionInfo;
+}
+
+/**
+ * Criteria used to search the query history
+ */
+export interface IQueryHistoryFilter {
+    text?: string;
+    server?: string;
+    database?: string;
+    from?: Date;
+    to?: Date;
+}
+
+const QUERY_HISTORY_KEY = "mssql.queryHistory.entries";
+
+/**
+ * Persists query history entries in the workspace or global extension state
+ */
+export class QueryHistoryStore {
+    constructor(
+        private _globalState: vscode.Memento,
+        private _workspaceState: vscode.Memento,
+    ) {}
+
+    /**
+     * Gets the persisted entries for a scope, newest first
+     */
+    public getEntries(scope: QueryHistoryStorageScope): IQueryHistoryEntry[] {
+        const memento = this.getMemento(scope);
+        if (!memento) {
+            return [];
+        }
+        return memento
+            .get<IQueryHistoryEntry[]>(QUERY_HISTORY_KEY, [])
+            .slice()
+            .sort((a, b) => b.timeStamp - a.timeStamp);
+    }
+
+    /**
+     * Adds an entry, dropping the oldest entries once the limit is crossed
+     */
+    public async addEntry(
+        entry: IQueryHistoryEntry,
+        scope: QueryHistoryStorageScope,
+        limit: number,
+    ): Promise<void> {
+        const memento = this.getMemento(scope);
+        if (!memento) {
+            return;
+        }
+        const entries = [entry, ...this.getEntries(scope)];
+        await memento.update(QUERY_HISTORY_KEY, entries.slice(0, limit));
+    }
+
+    /**
+     * Removes the entry with the given id
+     */
+    public async removeEntry(
+        id: string,
+        scope: QueryHistoryStorageScope,
+    ): Promise<void> {
+        const memento = this.getMemento(scope);
+        if (!memento) {
+            return;
+        }
+        await memento.update(
+            QUERY_HISTORY_KEY,
+            this.getEntries(scope).filter((e) => e.id !== id),
+        );
+    }
+
+    /**
+     * Removes all entries persisted for a scope
+     */
+    public async clear(scope: QueryHistoryStorageScope): Promise<void> {
+        const memento = this.getMemento(scope);
+        if (memento) {
+            await memento.update(QUERY_HISTORY_KEY, []);
+        }
+    }
+
+    /**
+     * Returns true if the entry satisfies every criteria set on the filter.
+     * Text, server and database are matched case-insensitively as substrings.
+     */
+    public static matchesFilter(
+        entry: IQueryHistoryEntry,
+        filter: IQueryHistoryFilter,
+    ): boolean {
+        if (!filter) {
+            return true;
+        }
+        const contains = (value: string, search: string): boolean =>
+            !search ||
+            (value ?? "").toLowerCase().includes(search.toLowerCase());
+        if (
+            !contains(entry.queryString, filter.text) ||
+            !contains(entry.server, filter.server) ||
+            !contains(entry.database, filter.database)
+        ) {
+            return false;
+        }
+        if (filter.from && entry.timeStamp < filter.from.getTime()) {
+            return false;
+        }
+        if (filter.to && entry.timeStamp > filter.to.getTime()) {
+            return false;
+        }
+        return true;
+    }
+
+    private getMemento(
+        scope: QueryHistoryStorageScope,
+    ): vscode.Memento | undefined {
+        switch (scope) {
+            case QueryHistoryStorageScope.Workspace:
+                return this._workspaceState;
+            case QueryHistoryStorageScope.Global:
+                return this._globalState;
+            default:
+                return undefined;
+        }
+    }
+}
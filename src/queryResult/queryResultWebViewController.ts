@@ -39,6 +39,10 @@ export class QueryResultWebviewController extends ReactWebviewViewController<
     > = new Map<string, QueryResultWebviewPanelController>();
     private _sqlOutputContentProvider: SqlOutputContentProvider;
     private _correlationId: string = randomUUID();
+    private _executionPlanHistory: Map<string, string[]> = new Map<
+        string,
+        string[]
+    >();
     public actualPlanStatuses: string[] = [];
 
     constructor(
@@ -286,6 +290,21 @@ export class QueryResultWebviewController extends ReactWebviewViewController<
         return this._sqlOutputContentProvider;
     }
 
+    /**
+     * Records the xml plan of a query run, keeping the two most recent runs per editor
+     */
+    public addExecutionPlanToHistory(uri: string, xmlPlan: string): void {
+        const history = this._executionPlanHistory.get(uri) ?? [];
+        this._executionPlanHistory.set(uri, [...history, xmlPlan].slice(-2));
+    }
+
+    /**
+     * Gets the recorded xml plans of an editor, oldest first
+     */
+    public getExecutionPlanHistory(uri: string): string[] {
+        return this._executionPlanHistory.get(uri) ?? [];
+    }
+
     public setExecutionPlanService(service: ExecutionPlanService): void {
         this.executionPlanService = service;
     }
@@ -5,7 +5,9 @@
 
 import VscodeWrapper from "../controllers/vscodeWrapper";
 import * as Constants from "../constants/constants";
+import * as LocalizedConstants from "../constants/locConstants";
 import * as vscode from "vscode";
+import { homedir } from "os";
 import {
     TelemetryViews,
     TelemetryActions,
@@ -13,12 +15,14 @@ import {
 import { ApiStatus } from "../sharedInterfaces/webview";
 import {
     createExecutionPlanGraphs,
+    exportExecutionPlan,
     saveExecutionPlan,
     showPlanXml,
     showQuery,
     updateTotalCost,
 } from "../controllers/sharedExecutionPlanUtils";
 import { sendActionEvent } from "../telemetry/telemetry";
+import { getUniqueFilePath } from "../utils/utils";
 import * as qr from "../sharedInterfaces/queryResult";
 import { QueryResultWebviewPanelController } from "./queryResultWebviewPanelController";
 import { QueryResultWebviewController } from "./queryResultWebViewController";
@@ -91,6 +95,13 @@ export function registerCommonRequestHandlers(
             currentState.resultSetSummaries[message.batchId][message.resultId]
                 .columnInfo[0].columnName === Constants.showPlanXmlColumnName
         ) {
+            // the first plan of every run is kept so runs can be compared later
+            if (!recordLength(currentState.executionPlanState.xmlPlans)) {
+                webviewViewController.addExecutionPlanToHistory(
+                    message.uri,
+                    result.rows[0][0].displayValue,
+                );
+            }
             currentState.executionPlanState.xmlPlans[
                 `${message.batchId},${message.resultId}`
             ] = result.rows[0][0].displayValue;
@@ -217,6 +228,42 @@ export function registerCommonRequestHandlers(
                 message.selection,
             );
     });
+    webviewController.registerRequestHandler(
+        "previewEditScript",
+        async (message) => {
+            const script = await webviewViewController
+                .getSqlOutputContentProvider()
+                .editScriptRequestHandler(
+                    message.uri,
+                    message.batchId,
+                    message.resultId,
+                    message.edits,
+                );
+            await webviewViewController
+                .getUntitledDocumentService()
+                .newQuery(script);
+        },
+    );
+    webviewController.registerRequestHandler("commitEdits", async (message) => {
+        sendActionEvent(
+            TelemetryViews.QueryResult,
+            TelemetryActions.CommitResultEdits,
+            {
+                correlationId: correlationId,
+            },
+            {
+                editCount: message.edits.length,
+            },
+        );
+        return await webviewViewController
+            .getSqlOutputContentProvider()
+            .commitEditsRequestHandler(
+                message.uri,
+                message.batchId,
+                message.resultId,
+                message.edits,
+            );
+    });
     webviewController.registerReducer(
         "setResultTab",
         async (state, payload) => {
@@ -236,6 +283,48 @@ export function registerCommonRequestHandlers(
             return state;
         },
     );
+    webviewController.registerReducer(
+        "setChartOptions",
+        async (state, payload) => {
+            state.tabStates.chartOptions = payload.chartOptions;
+            return state;
+        },
+    );
+    webviewController.registerReducer("exportChart", async (state, payload) => {
+        const fileFilters = {
+            svg: LocalizedConstants.svgFileFilter,
+            png: LocalizedConstants.pngFileFilter,
+        };
+        const saveUri = await vscode.window.showSaveDialog({
+            defaultUri: await getUniqueFilePath(
+                vscode.Uri.file(homedir()),
+                "chart",
+                payload.format,
+            ),
+            filters: {
+                [fileFilters[payload.format]]: [payload.format],
+            },
+        });
+        if (saveUri) {
+            await vscode.workspace.fs.writeFile(
+                saveUri,
+                Buffer.from(
+                    payload.content,
+                    payload.format === "png" ? "base64" : "utf8",
+                ),
+            );
+            sendActionEvent(
+                TelemetryViews.QueryResult,
+                TelemetryActions.ExportChart,
+                {
+                    correlationId: correlationId,
+                    format: payload.format,
+                    chartType: state.tabStates?.chartOptions?.chartType,
+                },
+            );
+        }
+        return state;
+    });
     webviewController.registerReducer(
         "getExecutionPlan",
         async (state, payload) => {
@@ -320,6 +409,15 @@ export function registerCommonRequestHandlers(
             )) as qr.QueryResultWebviewState;
         },
     );
+    webviewController.registerReducer(
+        "exportExecutionPlan",
+        async (state, payload) => {
+            return (await exportExecutionPlan(
+                state,
+                payload,
+            )) as qr.QueryResultWebviewState;
+        },
+    );
 }
 
 export function recordLength(record: any): number {
@@ -98,6 +98,14 @@ export class LocConstants {
             operator: l10n.t("Operator"),
             value: l10n.t("Value"),
             clear: l10n.t("Clear"),
+            presets: l10n.t("Presets"),
+            selectPreset: l10n.t("Select a preset to apply"),
+            deletePreset: l10n.t("Delete Preset"),
+            presetName: l10n.t("Preset name"),
+            saveAsPreset: l10n.t("Save as Preset"),
+            presetsDescription: l10n.t(
+                "Presets are saved for this type of node and can be applied to any node of the same type",
+            ),
         };
     }
 
@@ -266,6 +274,324 @@ export class LocConstants {
             expandAll: l10n.t("Expand All"),
             collapseAll: l10n.t("Collapse All"),
             filterAnyField: l10n.t("Filter for any field..."),
+            missingIndexRecommendations: (count: number) =>
+                l10n.t({
+                    message: "Missing Index Recommendations ({0})",
+                    args: [count],
+                    comment: ["{0} is the number of recommendations"],
+                }),
+            impact: l10n.t("Impact"),
+            statements: l10n.t("Statements"),
+            index: l10n.t("Index"),
+            openScript: l10n.t("Open Script"),
+            export: l10n.t("Export"),
+            exportAsSvg: l10n.t("Export as SVG"),
+            exportAsPng: l10n.t("Export as PNG"),
+            exportHtmlReport: l10n.t("Export HTML Report"),
+            executionPlanReport: l10n.t("Execution Plan Report"),
+            topOperators: l10n.t("Top Operators"),
+            nodeProperties: l10n.t("Node Properties"),
+            operator: l10n.t("Operator"),
+            nodeId: l10n.t("Node ID"),
+            actualRows: l10n.t("Actual Rows"),
+            estimatedRows: l10n.t("Estimated Rows"),
+            elapsedTimeInMs: l10n.t("Elapsed Time (ms)"),
+            elapsedCpuTimeInMs: l10n.t("CPU Time (ms)"),
+            warnings: l10n.t("Warnings"),
+            rowCountSkews: l10n.t("Row Count Skews"),
+            skewFactor: l10n.t("Skew factor"),
+            skew: l10n.t("Skew"),
+            likelyCause: l10n.t("Likely Cause"),
+            noRowCountSkews: l10n.t(
+                "No operator has actual and estimated row counts that differ by more than this factor.",
+            ),
+            rowsUnderestimated: (factor: string) =>
+                l10n.t({
+                    message: "Actual rows are {0} times the estimated rows.",
+                    args: [factor],
+                    comment: ["{0} is the ratio between the row counts"],
+                }),
+            rowsOverestimated: (factor: string) =>
+                l10n.t({
+                    message: "Estimated rows are {0} times the actual rows.",
+                    args: [factor],
+                    comment: ["{0} is the ratio between the row counts"],
+                }),
+            underestimatedRowsCause: l10n.t(
+                "Statistics may be stale or missing, or the plan was compiled for parameter values that return fewer rows (parameter sniffing).",
+            ),
+            overestimatedRowsCause: l10n.t(
+                "Statistics may be stale, or the plan was compiled for parameter values that return more rows (parameter sniffing).",
+            ),
+        };
+    }
+
+    public get executionPlanComparison() {
+        return {
+            loadingComparison: l10n.t("Comparing execution plans..."),
+            swapPlans: l10n.t("Swap Plans"),
+            highlightMatchingRegions: l10n.t("Highlight Matching Regions"),
+            operatorCostDeltas: l10n.t("Operator Cost Differences"),
+            operator: l10n.t("Operator"),
+            costColumn: (planName: string) =>
+                l10n.t({
+                    message: "Cost ({0})",
+                    args: [planName],
+                    comment: ["{0} is the plan name"],
+                }),
+            costDelta: l10n.t("Cost Difference"),
+            subtreeCostDelta: l10n.t("Subtree Cost Difference"),
+            noMatch: l10n.t("No match"),
+            planCost: (cost: string) =>
+                l10n.t({
+                    message: "Estimated subtree cost: {0}",
+                    args: [cost],
+                    comment: ["{0} is the estimated subtree cost of the plan"],
+                }),
+        };
+    }
+
+    public get schemaCompare() {
+        return {
+            source: l10n.t("Source"),
+            target: l10n.t("Target"),
+            select: l10n.t("Select..."),
+            noEndpointSelected: l10n.t("Not selected"),
+            swap: l10n.t("Swap Source and Target"),
+            compare: l10n.t("Compare"),
+            stop: l10n.t("Stop"),
+            includeAll: l10n.t("Include All"),
+            excludeAll: l10n.t("Exclude All"),
+            generateScript: l10n.t("Generate Script"),
+            apply: l10n.t("Apply"),
+            comparing: l10n.t("Comparing schemas..."),
+            selectSourceAndTarget: l10n.t(
+                "Select a source and a target, then compare them to see the differences.",
+            ),
+            noDifferences: l10n.t("No schema differences were found."),
+            differences: l10n.t("Differences"),
+            include: l10n.t("Include"),
+            add: l10n.t("Add"),
+            change: l10n.t("Change"),
+            delete: l10n.t("Delete"),
+            sourceScript: l10n.t("Source Script"),
+            targetScript: l10n.t("Target Script"),
+        };
+    }
+
+    public get flatFileImport() {
+        return {
+            table: l10n.t("Table"),
+            selectTable: l10n.t("Select a table"),
+            file: l10n.t("File"),
+            selectFile: l10n.t("Select File..."),
+            noFileSelected: l10n.t("No file selected"),
+            importData: l10n.t("Import"),
+            loading: l10n.t("Loading..."),
+            columnMappings: l10n.t("Column Mappings"),
+            targetColumn: l10n.t("Table Column"),
+            dataType: l10n.t("Data Type"),
+            allowNulls: l10n.t("Allow Nulls"),
+            yes: l10n.t("Yes"),
+            no: l10n.t("No"),
+            fileColumn: l10n.t("File Column"),
+            doNotImport: l10n.t("(Do not import)"),
+            notInsertable: l10n.t("Computed"),
+            preview: l10n.t("Preview"),
+            previewRows: (previewRowCount: number, rowCount: number) =>
+                l10n.t({
+                    message: "The first {0} of {1} row(s)",
+                    args: [previewRowCount, rowCount],
+                    comment: [
+                        "{0} is the number of previewed rows",
+                        "{1} is the number of rows of the file",
+                    ],
+                }),
+            unmappedRequiredColumns: (columnNames: string) =>
+                l10n.t({
+                    message:
+                        "These columns do not allow NULL values and have no default, map them to file columns: {0}",
+                    args: [columnNames],
+                    comment: ["{0} is a comma separated list of column names"],
+                }),
+            validationErrors: (errorCount: number) =>
+                l10n.t({
+                    message:
+                        "{0} value(s) cannot be converted to the types of their columns",
+                    args: [errorCount],
+                    comment: ["{0} is the number of invalid values"],
+                }),
+            validationError: (row: number, column: string, message: string) =>
+                l10n.t({
+                    message: "Row {0}, {1}: {2}",
+                    args: [row, column, message],
+                    comment: [
+                        "{0} is the row number",
+                        "{1} is the column name",
+                        "{2} is the error message",
+                    ],
+                }),
+            importProgress: (importedRowCount: number, rowCount: number) =>
+                l10n.t({
+                    message: "{0} of {1} row(s) inserted",
+                    args: [importedRowCount, rowCount],
+                    comment: [
+                        "{0} is the number of inserted rows",
+                        "{1} is the number of rows of the file",
+                    ],
+                }),
+        };
+    }
+
+    public get generateScripts() {
+        return {
+            loading: l10n.t("Loading..."),
+            objectsToScript: l10n.t("Objects to Script"),
+            scriptEntireDatabase: l10n.t(
+                "Script the entire database and all its objects",
+            ),
+            selectObjects: l10n.t("Select specific objects"),
+            objectTypes: l10n.t("Object Types"),
+            tables: l10n.t("Tables"),
+            views: l10n.t("Views"),
+            storedProcedures: l10n.t("Stored Procedures"),
+            userDefinedFunctions: l10n.t("User-Defined Functions"),
+            schemas: l10n.t("Schemas"),
+            selectAll: l10n.t("Select All"),
+            name: l10n.t("Name"),
+            type: l10n.t("Type"),
+            noObjects: l10n.t(
+                "There are no objects of the selected types and schemas.",
+            ),
+            scriptingOptions: l10n.t("Scripting Options"),
+            typesOfDataToScript: l10n.t("Types of data to script"),
+            schemaOnly: l10n.t("Schema only"),
+            dataOnly: l10n.t("Data only"),
+            schemaAndData: l10n.t("Schema and data"),
+            targetEngineEdition: l10n.t("Target engine edition"),
+            sqlServerEnterpriseEdition: l10n.t("SQL Server Enterprise Edition"),
+            sqlServerStandardEdition: l10n.t("SQL Server Standard Edition"),
+            sqlServerPersonalEdition: l10n.t("SQL Server Personal Edition"),
+            sqlServerExpressEdition: l10n.t("SQL Server Express Edition"),
+            sqlAzureDatabaseEdition: l10n.t("Azure SQL Database"),
+            sqlDatawarehouseEdition: l10n.t("Azure Synapse Analytics"),
+            sqlServerStretchEdition: l10n.t("SQL Server Stretch Database"),
+            compatibilityLevel: l10n.t("Script for server version"),
+            sqlServerVersion: (version: string) =>
+                l10n.t({
+                    message: "SQL Server {0}",
+                    args: [version],
+                    comment: ["{0} is the version, such as 2019"],
+                }),
+            output: l10n.t("Output"),
+            singleFile: l10n.t("Save to a single file"),
+            filePerObject: l10n.t("Save to a file per object"),
+            generateScripts: l10n.t("Generate Scripts"),
+            cancel: l10n.t("Cancel"),
+            selectedObjectCount: (count: number) =>
+                l10n.t({
+                    message: "{0} object(s) selected",
+                    args: [count],
+                    comment: ["{0} is the number of selected objects"],
+                }),
+            progress: (scriptedCount: number, totalCount: number) =>
+                l10n.t({
+                    message: "{0} of {1} object(s) scripted",
+                    args: [scriptedCount, totalCount],
+                    comment: [
+                        "{0} is the number of scripted objects",
+                        "{1} is the number of objects to script",
+                    ],
+                }),
+            scriptsSaved: (path: string) =>
+                l10n.t({
+                    message: "The scripts were saved to {0}",
+                    args: [path],
+                    comment: ["{0} is the file or folder path"],
+                }),
+            open: l10n.t("Open"),
+        };
+    }
+
+    public get erDiagram() {
+        return {
+            loading: l10n.t("Loading..."),
+            schemas: l10n.t("Schemas"),
+            allSchemas: l10n.t("All schemas"),
+            selectedSchemaCount: (count: number) =>
+                l10n.t({
+                    message: "{0} schemas",
+                    args: [count],
+                    comment: ["{0} is the number of selected schemas"],
+                }),
+            searchTables: l10n.t("Search tables and columns"),
+            zoomIn: l10n.t("Zoom In"),
+            zoomOut: l10n.t("Zoom Out"),
+            zoomToFit: l10n.t("Zoom to Fit"),
+            saveAsSvg: l10n.t("Save as SVG"),
+            saveAsPng: l10n.t("Save as PNG"),
+            refresh: l10n.t("Refresh"),
+            noTables: l10n.t("There are no tables in the selected schemas."),
+            openTableHint: l10n.t(
+                "Double-click to open the table in the Table Designer",
+            ),
+            tableCount: (count: number) =>
+                l10n.t({
+                    message: "{0} tables",
+                    args: [count],
+                    comment: ["{0} is the number of tables in the diagram"],
+                }),
+            primaryKey: l10n.t("Primary key"),
+            foreignKey: l10n.t("Foreign key"),
+        };
+    }
+
+    public get queryBuilder() {
+        return {
+            loading: l10n.t("Loading..."),
+            tablesAndViews: l10n.t("Tables and Views"),
+            searchTables: l10n.t("Search tables and views"),
+            addTable: l10n.t("Add to Query"),
+            removeTable: l10n.t("Remove from Query"),
+            dropHint: l10n.t(
+                "Add tables from the list, or hold Shift and drag them from Object Explorer",
+            ),
+            join: l10n.t("Join"),
+            crossJoin: l10n.t("Cross join"),
+            innerJoin: l10n.t("Inner join"),
+            leftJoin: l10n.t("Left outer join"),
+            rightJoin: l10n.t("Right outer join"),
+            fullJoin: l10n.t("Full outer join"),
+            addJoinCondition: l10n.t("Add Join Condition"),
+            columns: l10n.t("Columns"),
+            allColumns: l10n.t(
+                "All columns are returned when none are selected.",
+            ),
+            column: l10n.t("Column"),
+            aggregate: l10n.t("Aggregate"),
+            noAggregate: l10n.t("None"),
+            outputName: l10n.t("Output name"),
+            distinct: l10n.t("Distinct rows only"),
+            top: l10n.t("Maximum number of rows"),
+            filters: l10n.t("Filters"),
+            addFilter: l10n.t("Add Filter"),
+            operator: l10n.t("Operator"),
+            value: l10n.t("Value"),
+            inValuesHint: l10n.t("Separate the values with commas"),
+            groupBy: l10n.t("Group By"),
+            addGroupBy: l10n.t("Add Grouping"),
+            groupByHint: l10n.t(
+                "When the query is grouped or has aggregates, the other selected columns are grouped by as well.",
+            ),
+            orderBy: l10n.t("Order By"),
+            addOrderBy: l10n.t("Add Ordering"),
+            ascending: l10n.t("Ascending"),
+            descending: l10n.t("Descending"),
+            remove: l10n.t("Remove"),
+            sql: l10n.t("SQL"),
+            openInEditor: l10n.t("Open in Editor"),
+            runQuery: l10n.t("Run Query"),
+            view: l10n.t("View"),
         };
     }
 
@@ -302,6 +628,11 @@ export class LocConstants {
             saveAsCsv: l10n.t("Save as CSV"),
             saveAsExcel: l10n.t("Save as Excel"),
             saveAsJson: l10n.t("Save as JSON"),
+            saveAsMarkdown: l10n.t("Save as Markdown"),
+            saveAsXml: l10n.t("Save as XML"),
+            saveAsHtml: l10n.t("Save as HTML"),
+            saveAsInsert: l10n.t("Save as INSERT Script"),
+            moreSaveFormats: l10n.t("More Save Formats"),
             noResultMessage: l10n.t(
                 "No result found for the active editor; please run a query or switch to another editor.",
             ),
@@ -311,6 +642,14 @@ export class LocConstants {
             copy: l10n.t("Copy"),
             copyWithHeaders: l10n.t("Copy with Headers"),
             copyHeaders: l10n.t("Copy Headers"),
+            setToNull: l10n.t("Set to NULL"),
+            addRow: l10n.t("Add Row"),
+            deleteRow: l10n.t("Delete Row"),
+            revertCell: l10n.t("Revert Cell"),
+            revertRow: l10n.t("Revert Row"),
+            revertAllChanges: l10n.t("Revert All Changes"),
+            previewScript: l10n.t("Preview Script"),
+            commitChanges: l10n.t("Commit Changes"),
             null: l10n.t("NULL"),
             blankString: l10n.t("Blanks"),
             apply: l10n.t("Apply"),
@@ -319,6 +658,35 @@ export class LocConstants {
             close: l10n.t("Close"),
             maximize: l10n.t("Maximize"),
             restore: l10n.t("Restore"),
+            chart: l10n.t("Chart"),
+            chartType: l10n.t("Chart Type"),
+            barChart: l10n.t("Bar"),
+            lineChart: l10n.t("Line"),
+            pieChart: l10n.t("Pie"),
+            scatterChart: l10n.t("Scatter"),
+            timeSeriesChart: l10n.t("Time Series"),
+            resultSet: (resultSetNumber: number) =>
+                l10n.t({
+                    message: "Result Set {0}",
+                    args: [resultSetNumber],
+                    comment: ["{0} is the number of the result set"],
+                }),
+            xColumn: l10n.t("X Axis"),
+            yColumns: l10n.t("Y Axis"),
+            saveChartAsPng: l10n.t("Save as PNG"),
+            saveChartAsSvg: l10n.t("Save as SVG"),
+            noChartData: l10n.t(
+                "The selected columns have no values that can be charted.",
+            ),
+            chartRowLimit: (maxRowCount: number, rowCount: number) =>
+                l10n.t({
+                    message: "Only the first {0} of {1} rows are charted.",
+                    args: [maxRowCount, rowCount],
+                    comment: [
+                        "{0} is the maximum number of charted rows",
+                        "{1} is the number of rows of the result set",
+                    ],
+                }),
         };
     }
 }
@@ -0,0 +1,46 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+/**
+ * Gets a rendered svg element as a standalone svg, with the theme colors resolved since the
+ * css variables of VS Code are not available outside of the webview
+ */
+export function getSvg(svgElement: SVGSVGElement): string {
+    const clone = svgElement.cloneNode(true) as SVGSVGElement;
+    clone.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+    const rootStyle = getComputedStyle(document.documentElement);
+    return new XMLSerializer()
+        .serializeToString(clone)
+        .replace(
+            /var\((--[\w-]+)\)/g,
+            (_match, variable: string) =>
+                rootStyle.getPropertyValue(variable).trim() || "black",
+        );
+}
+
+/**
+ * Gets a rendered svg element as a png image
+ * @param width The width of the image, which is the width of the element by default
+ * @param height The height of the image, which is the height of the element by default
+ * @returns the base64 encoded content of the image
+ */
+export async function getPng(
+    svgElement: SVGSVGElement,
+    width: number = svgElement.clientWidth,
+    height: number = svgElement.clientHeight,
+): Promise<string> {
+    const svg = getSvg(svgElement);
+    const image = new Image();
+    await new Promise((resolve, reject) => {
+        image.onload = resolve;
+        image.onerror = reject;
+        image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+    });
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext("2d")!.drawImage(image, 0, 0);
+    return canvas.toDataURL("image/png").split(",")[1];
+}
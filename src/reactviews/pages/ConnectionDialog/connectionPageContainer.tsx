@@ -101,6 +101,17 @@ export const ConnectionInfoFormContainer = () => {
                     props={{ orientation: "horizontal" }}
                 />
 
+                <FormField
+                    context={context}
+                    component={
+                        context.state.connectionComponents.components[
+                            "environment"
+                        ] as FormItemSpec<IConnectionDialogProfile>
+                    }
+                    idx={1}
+                    props={{ orientation: "horizontal" }}
+                />
+
                 <div className={formStyles.formComponentDiv}>
                     <Field label="Input type" orientation="horizontal">
                         <RadioGroup
@@ -0,0 +1,279 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import {
+    ErDiagramForeignKey,
+    ErDiagramTable,
+} from "../../../sharedInterfaces/erDiagram";
+
+export const headerHeight = 28;
+export const rowHeight = 20;
+export const charWidth = 7;
+const minTableWidth = 160;
+const maxTableWidth = 360;
+const tablePadding = 16;
+const horizontalGap = 80;
+const verticalGap = 32;
+const componentGap = 64;
+const minRowWidth = 2000;
+const edgeOffset = 40;
+
+export interface TableLayout {
+    table: ErDiagramTable;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface EdgeLayout {
+    foreignKey: ErDiagramForeignKey;
+    /**
+     * The svg path from the first column of the foreign key to the referenced column
+     */
+    path: string;
+}
+
+export interface DiagramLayout {
+    tables: TableLayout[];
+    edges: EdgeLayout[];
+    width: number;
+    height: number;
+}
+
+export function getTableKey(schema: string, name: string): string {
+    return `${schema}.${name}`;
+}
+
+/**
+ * Estimates the width of a table from the length of its name and of its columns and their types
+ */
+export function getTableWidth(table: ErDiagramTable): number {
+    const nameLength = getTableKey(table.schema, table.name).length;
+    // the columns are drawn as the key marker, the name and the type, which is right aligned
+    const columnLength = Math.max(
+        0,
+        ...table.columns.map((c) => c.name.length + c.dataType.length + 6),
+    );
+    return Math.min(
+        maxTableWidth,
+        Math.max(
+            minTableWidth,
+            Math.max(nameLength, columnLength) * charWidth + tablePadding,
+        ),
+    );
+}
+
+/**
+ * Lays out the tables in columns, with the tables they reference to their left so that most
+ * foreign keys point from right to left. Tables that are related through foreign keys are kept
+ * together, and the groups of related tables are placed in rows, the largest groups first.
+ * @param foreignKeys The foreign keys of the diagram, of which those between tables that are not
+ * in the diagram are left out
+ */
+export function layoutDiagram(
+    tables: ErDiagramTable[],
+    foreignKeys: ErDiagramForeignKey[],
+): DiagramLayout {
+    const tablesByKey = new Map(
+        tables.map((table) => [getTableKey(table.schema, table.name), table]),
+    );
+    const edges = foreignKeys.filter(
+        (fk) =>
+            tablesByKey.has(getTableKey(fk.schema, fk.table)) &&
+            tablesByKey.has(
+                getTableKey(fk.referencedSchema, fk.referencedTable),
+            ),
+    );
+
+    // the referenced tables of each table, and the related tables in both directions
+    const references = new Map<string, Set<string>>();
+    const neighbors = new Map<string, Set<string>>();
+    for (const key of tablesByKey.keys()) {
+        references.set(key, new Set());
+        neighbors.set(key, new Set());
+    }
+    for (const fk of edges) {
+        const source = getTableKey(fk.schema, fk.table);
+        const target = getTableKey(fk.referencedSchema, fk.referencedTable);
+        if (source !== target) {
+            references.get(source)!.add(target);
+            neighbors.get(source)!.add(target);
+            neighbors.get(target)!.add(source);
+        }
+    }
+
+    // the level of a table is the length of the longest chain of references from it, ignoring
+    // the reference that closes a cycle
+    const levels = new Map<string, number>();
+    const visiting = new Set<string>();
+    const getLevel = (key: string): number => {
+        if (levels.has(key)) {
+            return levels.get(key)!;
+        }
+        if (visiting.has(key)) {
+            return -1;
+        }
+        visiting.add(key);
+        let level = 0;
+        for (const target of references.get(key)!) {
+            level = Math.max(level, getLevel(target) + 1);
+        }
+        visiting.delete(key);
+        levels.set(key, level);
+        return level;
+    };
+
+    const components: string[][] = [];
+    const visited = new Set<string>();
+    for (const key of [...tablesByKey.keys()].sort()) {
+        if (visited.has(key)) {
+            continue;
+        }
+        const component: string[] = [];
+        const stack = [key];
+        visited.add(key);
+        while (stack.length > 0) {
+            const current = stack.pop()!;
+            component.push(current);
+            for (const neighbor of neighbors.get(current)!) {
+                if (!visited.has(neighbor)) {
+                    visited.add(neighbor);
+                    stack.push(neighbor);
+                }
+            }
+        }
+        components.push(component);
+    }
+    components.sort((a, b) => b.length - a.length);
+
+    const layouts = new Map<string, TableLayout>();
+    const componentSizes = components.map((component) => {
+        const columns: string[][] = [];
+        for (const key of component.sort()) {
+            const level = getLevel(key);
+            (columns[level] = columns[level] ?? []).push(key);
+        }
+        let x = 0;
+        let height = 0;
+        for (const column of columns.filter((c) => c)) {
+            let y = 0;
+            let width = 0;
+            for (const key of column) {
+                const table = tablesByKey.get(key)!;
+                const layout: TableLayout = {
+                    table: table,
+                    x: x,
+                    y: y,
+                    width: getTableWidth(table),
+                    height: headerHeight + table.columns.length * rowHeight,
+                };
+                layouts.set(key, layout);
+                y += layout.height + verticalGap;
+                width = Math.max(width, layout.width);
+            }
+            x += width + horizontalGap;
+            height = Math.max(height, y - verticalGap);
+        }
+        return { keys: component, width: x - horizontalGap, height: height };
+    });
+
+    // places the groups in rows, starting a new row when a row is wider than the widest group
+    const rowWidth = Math.max(
+        minRowWidth,
+        ...componentSizes.map((c) => c.width),
+    );
+    let x = 0;
+    let y = 0;
+    let rowHeightMax = 0;
+    let width = 0;
+    for (const component of componentSizes) {
+        if (x > 0 && x + component.width > rowWidth) {
+            x = 0;
+            y += rowHeightMax + componentGap;
+            rowHeightMax = 0;
+        }
+        for (const key of component.keys) {
+            layouts.get(key)!.x += x;
+            layouts.get(key)!.y += y;
+        }
+        width = Math.max(width, x + component.width);
+        x += component.width + componentGap;
+        rowHeightMax = Math.max(rowHeightMax, component.height);
+    }
+
+    return {
+        tables: tables.map(
+            (table) => layouts.get(getTableKey(table.schema, table.name))!,
+        ),
+        edges: edges.map((fk) => {
+            const source = layouts.get(getTableKey(fk.schema, fk.table))!;
+            const target = layouts.get(
+                getTableKey(fk.referencedSchema, fk.referencedTable),
+            )!;
+            return {
+                foreignKey: fk,
+                path: getEdgePath(
+                    source,
+                    source.table.columns.findIndex(
+                        (c) => c.name === fk.columns[0],
+                    ),
+                    target,
+                    target.table.columns.findIndex(
+                        (c) => c.name === fk.referencedColumns[0],
+                    ),
+                ),
+            };
+        }),
+        width: width,
+        height: y + rowHeightMax,
+    };
+}
+
+/**
+ * Gets the y coordinate of the middle of a column of a table, or of its header when the column
+ * is not found
+ */
+function getRowY(layout: TableLayout, rowIndex: number): number {
+    return rowIndex < 0
+        ? layout.y + headerHeight / 2
+        : layout.y + headerHeight + (rowIndex + 0.5) * rowHeight;
+}
+
+/**
+ * Gets the svg path of a curve from a column of a table to a column of the table it references.
+ * The curve leaves and enters the tables from the sides that face each other, and loops on the
+ * right side of tables that are above each other or that reference themselves.
+ */
+export function getEdgePath(
+    source: TableLayout,
+    sourceRowIndex: number,
+    target: TableLayout,
+    targetRowIndex: number,
+): string {
+    const sourceY = getRowY(source, sourceRowIndex);
+    const targetY = getRowY(target, targetRowIndex);
+    let sourceX: number;
+    let targetX: number;
+    let sourceOffset: number;
+    let targetOffset: number;
+    if (target.x >= source.x + source.width) {
+        sourceX = source.x + source.width;
+        targetX = target.x;
+        sourceOffset = Math.max(edgeOffset, (targetX - sourceX) / 2);
+        targetOffset = -sourceOffset;
+    } else if (target.x + target.width <= source.x) {
+        sourceX = source.x;
+        targetX = target.x + target.width;
+        targetOffset = Math.max(edgeOffset, (sourceX - targetX) / 2);
+        sourceOffset = -targetOffset;
+    } else {
+        sourceX = source.x + source.width;
+        targetX = target.x + target.width;
+        sourceOffset = Math.max(edgeOffset, targetX - sourceX + edgeOffset);
+        targetOffset = Math.max(edgeOffset, sourceX - targetX + edgeOffset);
+    }
+    return `M ${sourceX} ${sourceY} C ${sourceX + sourceOffset} ${sourceY}, ${targetX + targetOffset} ${targetY}, ${targetX} ${targetY}`;
+}
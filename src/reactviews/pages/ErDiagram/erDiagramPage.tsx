@@ -0,0 +1,636 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import {
+    Dropdown,
+    Input,
+    Option,
+    Spinner,
+    Text,
+    Toolbar,
+    ToolbarButton,
+    ToolbarDivider,
+    makeStyles,
+    tokens,
+} from "@fluentui/react-components";
+import {
+    ArrowClockwiseRegular,
+    ArrowDownloadRegular,
+    ErrorCircleRegular,
+    SearchRegular,
+    ZoomFitRegular,
+    ZoomInRegular,
+    ZoomOutRegular,
+} from "@fluentui/react-icons";
+import { useContext, useEffect, useMemo, useRef, useState } from "react";
+
+import {
+    ErDiagramExportFormat,
+    ErDiagramTable,
+} from "../../../sharedInterfaces/erDiagram";
+import { ApiStatus } from "../../../sharedInterfaces/webview";
+import { locConstants } from "../../common/locConstants";
+import { getPng, getSvg } from "../../common/svgUtils";
+import { ErDiagramContext } from "./erDiagramStateProvider";
+import {
+    TableLayout,
+    charWidth,
+    getTableKey,
+    headerHeight,
+    layoutDiagram,
+    rowHeight,
+} from "./erDiagramLayout";
+
+const useStyles = makeStyles({
+    outerDiv: {
+        height: "100%",
+        width: "100%",
+        display: "flex",
+        flexDirection: "column",
+        fontFamily: tokens.fontFamilyBase,
+    },
+    toolbar: {
+        display: "flex",
+        flexDirection: "row",
+        alignItems: "center",
+        flexWrap: "wrap",
+        gap: "8px",
+        padding: "4px 8px",
+        borderBottom: `1px solid ${tokens.colorNeutralStroke2}`,
+    },
+    dropdown: {
+        minWidth: "160px",
+    },
+    search: {
+        width: "220px",
+    },
+    diagramContainer: {
+        flexGrow: 1,
+        minHeight: 0,
+        position: "relative",
+        overflow: "hidden",
+    },
+    diagram: {
+        width: "100%",
+        height: "100%",
+        cursor: "grab",
+        userSelect: "none",
+        ":active": {
+            cursor: "grabbing",
+        },
+    },
+    message: {
+        padding: "8px",
+    },
+    spinnerDiv: {
+        height: "100%",
+        width: "100%",
+        display: "flex",
+        justifyContent: "center",
+        alignItems: "center",
+        flexDirection: "column",
+        padding: "20px",
+    },
+    errorIcon: {
+        fontSize: "100px",
+        opacity: 0.5,
+    },
+});
+
+const textColor = "var(--vscode-editor-foreground)";
+const secondaryTextColor = "var(--vscode-descriptionForeground)";
+const tableColor = "var(--vscode-editorWidget-background)";
+const headerColor = "var(--vscode-sideBarSectionHeader-background)";
+const borderColor = "var(--vscode-editorWidget-border)";
+const highlightColor = "var(--vscode-focusBorder)";
+const matchColor = "var(--vscode-editor-findMatchHighlightBackground)";
+const edgeColor = "var(--vscode-charts-blue)";
+const backgroundColor = "var(--vscode-editor-background)";
+const fontFamily = "var(--vscode-font-family)";
+
+const minScale = 0.1;
+const maxScale = 3;
+const zoomFactor = 1.2;
+const fitPadding = 20;
+
+interface DiagramView {
+    x: number;
+    y: number;
+    scale: number;
+}
+
+function truncateText(text: string, width: number): string {
+    const maxLength = Math.floor(width / charWidth);
+    return text.length > maxLength
+        ? `${text.substring(0, maxLength - 1)}…`
+        : text;
+}
+
+/**
+ * Whether a table, or one of its columns, contains the search text
+ */
+function getMatchedColumns(
+    table: ErDiagramTable,
+    searchText: string,
+): { isMatch: boolean; columns: Set<string> } {
+    if (!searchText) {
+        return { isMatch: false, columns: new Set() };
+    }
+    const text = searchText.toLowerCase();
+    const columns = new Set(
+        table.columns
+            .filter((c) => c.name.toLowerCase().includes(text))
+            .map((c) => c.name),
+    );
+    return {
+        isMatch:
+            getTableKey(table.schema, table.name)
+                .toLowerCase()
+                .includes(text) || columns.size > 0,
+        columns: columns,
+    };
+}
+
+const TableNode = ({
+    layout,
+    searchText,
+    isDimmed,
+    onOpen,
+}: {
+    layout: TableLayout;
+    searchText: string;
+    isDimmed: boolean;
+    onOpen: () => void;
+}) => {
+    const { table, x, y, width, height } = layout;
+    const matched = getMatchedColumns(table, searchText);
+    return (
+        <g
+            transform={`translate(${x}, ${y})`}
+            opacity={isDimmed ? 0.3 : 1}
+            style={{ cursor: "pointer" }}
+            onDoubleClick={onOpen}
+        >
+            <title>{locConstants.erDiagram.openTableHint}</title>
+            <rect
+                width={width}
+                height={height}
+                rx={4}
+                fill={tableColor}
+                stroke={matched.isMatch ? highlightColor : borderColor}
+                strokeWidth={matched.isMatch ? 2 : 1}
+            />
+            <rect
+                width={width}
+                height={headerHeight}
+                rx={4}
+                fill={headerColor}
+            />
+            <text
+                x={8}
+                y={headerHeight / 2}
+                dominantBaseline="central"
+                fill={textColor}
+                fontFamily={fontFamily}
+                fontSize={12}
+                fontWeight="bold"
+            >
+                {truncateText(
+                    getTableKey(table.schema, table.name),
+                    width - 16,
+                )}
+            </text>
+            {table.columns.map((column, index) => {
+                const rowY = headerHeight + index * rowHeight;
+                const keyMarker = column.isPrimaryKey
+                    ? "PK"
+                    : column.isForeignKey
+                      ? "FK"
+                      : "";
+                return (
+                    <g key={column.name}>
+                        {matched.columns.has(column.name) && (
+                            <rect
+                                y={rowY}
+                                width={width}
+                                height={rowHeight}
+                                fill={matchColor}
+                            />
+                        )}
+                        {keyMarker && (
+                            <text
+                                x={8}
+                                y={rowY + rowHeight / 2}
+                                dominantBaseline="central"
+                                fill={secondaryTextColor}
+                                fontFamily={fontFamily}
+                                fontSize={9}
+                            >
+                                <title>
+                                    {column.isPrimaryKey
+                                        ? locConstants.erDiagram.primaryKey
+                                        : locConstants.erDiagram.foreignKey}
+                                </title>
+                                {keyMarker}
+                            </text>
+                        )}
+                        <text
+                            x={28}
+                            y={rowY + rowHeight / 2}
+                            dominantBaseline="central"
+                            fill={textColor}
+                            fontFamily={fontFamily}
+                            fontSize={12}
+                            fontWeight={column.isPrimaryKey ? "bold" : "normal"}
+                        >
+                            {truncateText(column.name, width / 2)}
+                        </text>
+                        <text
+                            x={width - 8}
+                            y={rowY + rowHeight / 2}
+                            dominantBaseline="central"
+                            textAnchor="end"
+                            fill={secondaryTextColor}
+                            fontFamily={fontFamily}
+                            fontSize={11}
+                        >
+                            {`${column.dataType}${column.isNullable ? "?" : ""}`}
+                        </text>
+                    </g>
+                );
+            })}
+        </g>
+    );
+};
+
+export const ErDiagramPage = () => {
+    const classes = useStyles();
+    const context = useContext(ErDiagramContext);
+    const state = context?.state;
+    const loc = locConstants.erDiagram;
+
+    const containerRef = useRef<HTMLDivElement>(null);
+    const svgRef = useRef<SVGSVGElement>(null);
+    const dragRef = useRef<
+        { x: number; y: number; viewX: number; viewY: number } | undefined
+    >(undefined);
+    const [size, setSize] = useState({ width: 0, height: 0 });
+    const [view, setView] = useState<DiagramView>({ x: 0, y: 0, scale: 1 });
+    const [searchText, setSearchText] = useState("");
+
+    const layout = useMemo(() => {
+        if (!state || state.loadStatus !== ApiStatus.Loaded) {
+            return undefined;
+        }
+        return layoutDiagram(
+            state.tables.filter((t) =>
+                state.selectedSchemas.includes(t.schema),
+            ),
+            state.foreignKeys,
+        );
+    }, [
+        state?.loadStatus,
+        state?.tables,
+        state?.foreignKeys,
+        state?.selectedSchemas,
+    ]);
+
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) {
+            return;
+        }
+        const observer = new ResizeObserver(() => {
+            setSize({
+                width: container.clientWidth,
+                height: container.clientHeight,
+            });
+        });
+        observer.observe(container);
+        return () => observer.disconnect();
+    }, [state?.loadStatus]);
+
+    const fitToView = () => {
+        if (!layout || layout.width === 0 || size.width === 0) {
+            return;
+        }
+        const scale = Math.max(
+            minScale,
+            Math.min(
+                1,
+                (size.width - 2 * fitPadding) / layout.width,
+                (size.height - 2 * fitPadding) / layout.height,
+            ),
+        );
+        setView({
+            scale: scale,
+            x: Math.max(fitPadding, (size.width - layout.width * scale) / 2),
+            y: Math.max(fitPadding, (size.height - layout.height * scale) / 2),
+        });
+    };
+
+    // the whole diagram is shown when it is loaded and when the schemas change
+    useEffect(() => {
+        fitToView();
+    }, [layout, size.width === 0]);
+
+    const matchedTables = useMemo(
+        () =>
+            layout?.tables.filter(
+                (t) => getMatchedColumns(t.table, searchText).isMatch,
+            ) ?? [],
+        [layout, searchText],
+    );
+
+    // the first table found by the search is moved to the center of the view
+    useEffect(() => {
+        const first = matchedTables[0];
+        if (first) {
+            setView((v) => ({
+                ...v,
+                x: size.width / 2 - (first.x + first.width / 2) * v.scale,
+                y: size.height / 2 - (first.y + first.height / 2) * v.scale,
+            }));
+        }
+    }, [searchText]);
+
+    if (!context || !state) {
+        return undefined;
+    }
+
+    if (state.loadStatus === ApiStatus.Loading) {
+        return (
+            <div className={classes.spinnerDiv}>
+                <Spinner label={loc.loading} />
+            </div>
+        );
+    }
+
+    if (state.loadStatus === ApiStatus.Error) {
+        return (
+            <div className={classes.spinnerDiv}>
+                <ErrorCircleRegular className={classes.errorIcon} />
+                <Text size={400}>{state.errorMessage ?? ""}</Text>
+            </div>
+        );
+    }
+
+    /**
+     * Zooms around a point of the view, keeping the point in place
+     */
+    const zoom = (factor: number, centerX: number, centerY: number) => {
+        setView((v) => {
+            const scale = Math.min(
+                maxScale,
+                Math.max(minScale, v.scale * factor),
+            );
+            const ratio = scale / v.scale;
+            return {
+                scale: scale,
+                x: centerX - (centerX - v.x) * ratio,
+                y: centerY - (centerY - v.y) * ratio,
+            };
+        });
+    };
+
+    const exportDiagram = async (format: ErDiagramExportFormat) => {
+        if (!svgRef.current || !layout) {
+            return;
+        }
+        // the whole diagram is exported, not only the part that is in view
+        const width = layout.width + 2 * fitPadding;
+        const height = layout.height + 2 * fitPadding;
+        const clone = svgRef.current.cloneNode(true) as SVGSVGElement;
+        clone.setAttribute("width", width.toString());
+        clone.setAttribute("height", height.toString());
+        clone.setAttribute(
+            "viewBox",
+            `${-fitPadding} ${-fitPadding} ${width} ${height}`,
+        );
+        clone
+            .querySelector("[data-diagram-content]")
+            ?.removeAttribute("transform");
+        const background = document.createElementNS(
+            "http://www.w3.org/2000/svg",
+            "rect",
+        );
+        background.setAttribute("x", (-fitPadding).toString());
+        background.setAttribute("y", (-fitPadding).toString());
+        background.setAttribute("width", width.toString());
+        background.setAttribute("height", height.toString());
+        background.setAttribute("fill", backgroundColor);
+        clone.insertBefore(background, clone.firstChild);
+        context.exportDiagram(
+            format,
+            format === "png"
+                ? await getPng(clone, width, height)
+                : getSvg(clone),
+        );
+    };
+
+    const matchedKeys = new Set(
+        matchedTables.map((t) => getTableKey(t.table.schema, t.table.name)),
+    );
+    const isDimmed = (schema: string, name: string) =>
+        !!searchText && !matchedKeys.has(getTableKey(schema, name));
+
+    return (
+        <div className={classes.outerDiv}>
+            <div className={classes.toolbar}>
+                <Dropdown
+                    size="small"
+                    multiselect
+                    className={classes.dropdown}
+                    aria-label={loc.schemas}
+                    value={
+                        state.selectedSchemas.length === state.schemas.length
+                            ? loc.allSchemas
+                            : state.selectedSchemas.length === 1
+                              ? state.selectedSchemas[0]
+                              : loc.selectedSchemaCount(
+                                    state.selectedSchemas.length,
+                                )
+                    }
+                    selectedOptions={state.selectedSchemas}
+                    onOptionSelect={(_event, data) =>
+                        context.setSelectedSchemas(data.selectedOptions)
+                    }
+                >
+                    {state.schemas.map((schema) => (
+                        <Option key={schema} value={schema}>
+                            {schema}
+                        </Option>
+                    ))}
+                </Dropdown>
+                <Input
+                    size="small"
+                    className={classes.search}
+                    contentBefore={<SearchRegular />}
+                    placeholder={loc.searchTables}
+                    aria-label={loc.searchTables}
+                    value={searchText}
+                    onChange={(_event, data) => setSearchText(data.value)}
+                />
+                <Toolbar size="small">
+                    <ToolbarButton
+                        aria-label={loc.zoomIn}
+                        title={loc.zoomIn}
+                        icon={<ZoomInRegular />}
+                        onClick={() =>
+                            zoom(zoomFactor, size.width / 2, size.height / 2)
+                        }
+                    />
+                    <ToolbarButton
+                        aria-label={loc.zoomOut}
+                        title={loc.zoomOut}
+                        icon={<ZoomOutRegular />}
+                        onClick={() =>
+                            zoom(
+                                1 / zoomFactor,
+                                size.width / 2,
+                                size.height / 2,
+                            )
+                        }
+                    />
+                    <ToolbarButton
+                        aria-label={loc.zoomToFit}
+                        title={loc.zoomToFit}
+                        icon={<ZoomFitRegular />}
+                        onClick={fitToView}
+                    />
+                    <ToolbarDivider />
+                    <ToolbarButton
+                        icon={<ArrowDownloadRegular />}
+                        disabled={!layout?.tables.length}
+                        onClick={() => void exportDiagram("svg")}
+                    >
+                        {loc.saveAsSvg}
+                    </ToolbarButton>
+                    <ToolbarButton
+                        icon={<ArrowDownloadRegular />}
+                        disabled={!layout?.tables.length}
+                        onClick={() => void exportDiagram("png")}
+                    >
+                        {loc.saveAsPng}
+                    </ToolbarButton>
+                    <ToolbarDivider />
+                    <ToolbarButton
+                        aria-label={loc.refresh}
+                        title={loc.refresh}
+                        icon={<ArrowClockwiseRegular />}
+                        onClick={() => context.refresh()}
+                    />
+                </Toolbar>
+                <Text size={200}>
+                    {loc.tableCount(layout?.tables.length ?? 0)}
+                </Text>
+            </div>
+            {layout?.tables.length === 0 && (
+                <Text italic className={classes.message}>
+                    {loc.noTables}
+                </Text>
+            )}
+            <div className={classes.diagramContainer} ref={containerRef}>
+                <svg
+                    ref={svgRef}
+                    className={classes.diagram}
+                    onWheel={(event) => {
+                        const rect = svgRef.current!.getBoundingClientRect();
+                        zoom(
+                            event.deltaY < 0 ? zoomFactor : 1 / zoomFactor,
+                            event.clientX - rect.left,
+                            event.clientY - rect.top,
+                        );
+                    }}
+                    onPointerDown={(event) => {
+                        if (event.button === 0) {
+                            dragRef.current = {
+                                x: event.clientX,
+                                y: event.clientY,
+                                viewX: view.x,
+                                viewY: view.y,
+                            };
+                        }
+                    }}
+                    onPointerMove={(event) => {
+                        const drag = dragRef.current;
+                        if (drag) {
+                            setView((v) => ({
+                                ...v,
+                                x: drag.viewX + event.clientX - drag.x,
+                                y: drag.viewY + event.clientY - drag.y,
+                            }));
+                        }
+                    }}
+                    onPointerUp={() => (dragRef.current = undefined)}
+                    onPointerLeave={() => (dragRef.current = undefined)}
+                >
+                    <defs>
+                        <marker
+                            id="erDiagramArrow"
+                            viewBox="0 0 10 10"
+                            refX={10}
+                            refY={5}
+                            markerWidth={8}
+                            markerHeight={8}
+                            orient="auto-start-reverse"
+                        >
+                            <path d="M 0 0 L 10 5 L 0 10 z" fill={edgeColor} />
+                        </marker>
+                    </defs>
+                    <g
+                        data-diagram-content
+                        transform={`translate(${view.x}, ${view.y}) scale(${view.scale})`}
+                    >
+                        {layout?.edges.map((edge, index) => (
+                            <path
+                                key={index}
+                                d={edge.path}
+                                fill="none"
+                                stroke={edgeColor}
+                                strokeWidth={1.5}
+                                markerEnd="url(#erDiagramArrow)"
+                                opacity={
+                                    isDimmed(
+                                        edge.foreignKey.schema,
+                                        edge.foreignKey.table,
+                                    ) &&
+                                    isDimmed(
+                                        edge.foreignKey.referencedSchema,
+                                        edge.foreignKey.referencedTable,
+                                    )
+                                        ? 0.3
+                                        : 1
+                                }
+                            >
+                                <title>{edge.foreignKey.name}</title>
+                            </path>
+                        ))}
+                        {layout?.tables.map((tableLayout) => (
+                            <TableNode
+                                key={getTableKey(
+                                    tableLayout.table.schema,
+                                    tableLayout.table.name,
+                                )}
+                                layout={tableLayout}
+                                searchText={searchText}
+                                isDimmed={isDimmed(
+                                    tableLayout.table.schema,
+                                    tableLayout.table.name,
+                                )}
+                                onOpen={() =>
+                                    context.openTable(
+                                        tableLayout.table.schema,
+                                        tableLayout.table.name,
+                                    )
+                                }
+                            />
+                        ))}
+                    </g>
+                </svg>
+            </div>
+        </div>
+    );
+};
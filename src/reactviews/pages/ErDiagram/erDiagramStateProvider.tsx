@@ -0,0 +1,76 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import {
+    ColorThemeKind,
+    useVscodeWebview,
+} from "../../common/vscodeWebviewProvider";
+import { ReactNode, createContext } from "react";
+import {
+    ErDiagramExportFormat,
+    ErDiagramReducers,
+    ErDiagramWebviewState,
+} from "../../../sharedInterfaces/erDiagram";
+
+export interface ErDiagramContextProps {
+    state: ErDiagramWebviewState;
+    themeKind: ColorThemeKind;
+    setSelectedSchemas(schemas: string[]): void;
+    openTable(schema: string, name: string): void;
+    exportDiagram(format: ErDiagramExportFormat, content: string): void;
+    refresh(): void;
+}
+
+const ErDiagramContext = createContext<ErDiagramContextProps | undefined>(
+    undefined,
+);
+
+interface ErDiagramProviderProps {
+    children: ReactNode;
+}
+
+const ErDiagramStateProvider: React.FC<ErDiagramProviderProps> = ({
+    children,
+}) => {
+    const webviewState = useVscodeWebview<
+        ErDiagramWebviewState,
+        ErDiagramReducers
+    >();
+    return (
+        <ErDiagramContext.Provider
+            value={{
+                state: webviewState?.state,
+                themeKind: webviewState?.themeKind,
+                setSelectedSchemas: function (schemas: string[]): void {
+                    webviewState?.extensionRpc.action("setSelectedSchemas", {
+                        schemas: schemas,
+                    });
+                },
+                openTable: function (schema: string, name: string): void {
+                    webviewState?.extensionRpc.action("openTable", {
+                        schema: schema,
+                        name: name,
+                    });
+                },
+                exportDiagram: function (
+                    format: ErDiagramExportFormat,
+                    content: string,
+                ): void {
+                    webviewState?.extensionRpc.action("exportDiagram", {
+                        format: format,
+                        content: content,
+                    });
+                },
+                refresh: function (): void {
+                    webviewState?.extensionRpc.action("refresh", {});
+                },
+            }}
+        >
+            {children}
+        </ErDiagramContext.Provider>
+    );
+};
+
+export { ErDiagramContext, ErDiagramStateProvider };
@@ -26,6 +26,8 @@ import { FindNode } from "./findNodes";
 import { HighlightExpensiveOperations } from "./highlightExpensiveOperations";
 import { IconStack } from "./iconMenu";
 import { PropertiesPane } from "./properties";
+import { RowCountSkews } from "./rowCountSkews";
+import { TopOperators } from "./topOperators";
 import { locConstants } from "../../common/locConstants";
 
 const useStyles = makeStyles({
@@ -89,6 +91,11 @@ const useStyles = makeStyles({
     spacer: {
         padding: "1px",
     },
+    bottomPanelContainer: {
+        height: "40%",
+        minHeight: "150px",
+        flexShrink: 0,
+    },
 });
 
 interface ExecutionPlanGraphProps {
@@ -113,6 +120,8 @@ export const ExecutionPlanGraph: React.FC<ExecutionPlanGraphProps> = ({
     const [findNodeOptions, setFindNodeOptions] = useState<string[]>([]);
     const [highlightOpsClicked, setHighlightOpsClicked] = useState(false);
     const [propertiesClicked, setPropertiesClicked] = useState(false);
+    const [topOperatorsClicked, setTopOperatorsClicked] = useState(false);
+    const [rowCountSkewsClicked, setRowCountSkewsClicked] = useState(false);
     const [propertiesWidth, setPropertiesWidth] = useState(400);
     const [containerHeight, setContainerHeight] = useState("100%");
     const resizableRef = useRef<HTMLDivElement>(null);
@@ -355,6 +364,33 @@ export const ExecutionPlanGraph: React.FC<ExecutionPlanGraphProps> = ({
                         </Popover>
                     </div>
                 )}
+                {(topOperatorsClicked || rowCountSkewsClicked) && (
+                    <div
+                        className={classes.bottomPanelContainer}
+                        style={{
+                            width: propertiesClicked
+                                ? `calc(100% - ${propertiesWidth}px - 35px)`
+                                : "calc(100% - 35px)",
+                        }}
+                    >
+                        {topOperatorsClicked && (
+                            <TopOperators
+                                // guaranteed to be non-null
+                                executionPlanView={executionPlanView!}
+                                setTopOperatorsClicked={setTopOperatorsClicked}
+                            />
+                        )}
+                        {rowCountSkewsClicked && (
+                            <RowCountSkews
+                                // guaranteed to be non-null
+                                executionPlanView={executionPlanView!}
+                                setRowCountSkewsClicked={
+                                    setRowCountSkewsClicked
+                                }
+                            />
+                        )}
+                    </div>
+                )}
             </div>
             <IconStack
                 executionPlanView={executionPlanView!}
@@ -364,6 +400,8 @@ export const ExecutionPlanGraph: React.FC<ExecutionPlanGraphProps> = ({
                 setFindNodeClicked={setFindNodeClicked}
                 setHighlightOpsClicked={setHighlightOpsClicked}
                 setPropertiesClicked={setPropertiesClicked}
+                setTopOperatorsClicked={setTopOperatorsClicked}
+                setRowCountSkewsClicked={setRowCountSkewsClicked}
                 query={query}
                 xml={xml}
             />
@@ -59,8 +59,19 @@ export interface ExecutionPlanReducers {
     updateTotalCost: {
         addedCost: number;
     };
+    /**
+     * Saves an export of the execution plan to a file chosen by the user
+     * @param format the format of the export
+     * @param content the content of the export, base64 encoded for png images
+     */
+    exportExecutionPlan: {
+        format: ExecutionPlanExportFormat;
+        content: string;
+    };
 }
 
+export type ExecutionPlanExportFormat = "svg" | "png" | "html";
+
 export interface ExecutionPlanProvider {
     /**
      * Gets the execution plan graph from the provider
@@ -90,6 +101,16 @@ export interface ExecutionPlanProvider {
      * @param addedCost the cost of the current execution plan graph
      */
     updateTotalCost(addedCost: number): void;
+
+    /**
+     * Saves an export of the execution plan to a file
+     * @param format the format of the export
+     * @param content the content of the export, base64 encoded for png images
+     */
+    exportExecutionPlan(
+        format: ExecutionPlanExportFormat,
+        content: string,
+    ): void;
 }
 
 export interface ExecutionPlanGraph {
@@ -361,12 +382,15 @@ export interface ExecutionPlanService {
         planFile: ExecutionPlanGraphInfo,
     ): Thenable<GetExecutionPlanResult>;
 
-    // /**
-    //  * Compares two execution plans and identifies matching regions in both execution plans.
-    //  * @param firstPlanFile file that contains the first execution plan.
-    //  * @param secondPlanFile file that contains the second execution plan.
-    //  */
-    // compareExecutionPlanGraph(firstPlanFile: ExecutionPlanGraphInfo, secondPlanFile: ExecutionPlanGraphInfo): Thenable<ExecutionPlanComparisonResult>;
+    /**
+     * Compares two execution plans and identifies matching regions in both execution plans.
+     * @param firstPlanFile file that contains the first execution plan.
+     * @param secondPlanFile file that contains the second execution plan.
+     */
+    compareExecutionPlanGraph(
+        firstPlanFile: ExecutionPlanGraphInfo,
+        secondPlanFile: ExecutionPlanGraphInfo,
+    ): Thenable<ExecutionPlanComparisonResult>;
     /**
      * Determines if the provided value is an execution plan and returns the appropriate file extension.
      * @param value String that needs to be checked.
@@ -530,6 +554,38 @@ export enum ExpensiveMetricType {
     NumberOfRowsRead = "numberOfRowsRead",
 }
 
+export interface ExpensiveOperator {
+    node: ExecutionPlanNode;
+    /**
+     * Value of the metric the operator is expensive for
+     */
+    value: number;
+}
+
+export interface TopOperationsDataItem {
+    node: ExecutionPlanNode;
+    cost?: number;
+    subtreeCost?: number;
+    actualRows?: number;
+    estimatedRows?: number;
+    elapsedTimeInMs?: number;
+    elapsedCpuTimeInMs?: number;
+}
+
+export interface RowCountSkew {
+    node: ExecutionPlanNode;
+    actualRows: number;
+    estimatedRows: number;
+    /**
+     * Ratio between the larger and the smaller of the row counts
+     */
+    factor: number;
+    /**
+     * Whether the optimizer expected fewer rows than the operator returned
+     */
+    isUnderestimated: boolean;
+}
+
 export interface SearchQuery {
     /**
      * property name to be searched
@@ -9,6 +9,7 @@ import { makeStyles, Spinner, Text } from "@fluentui/react-components";
 import { ExecutionPlanGraph } from "./executionPlanGraph";
 import { ErrorCircleRegular } from "@fluentui/react-icons";
 import { ApiStatus } from "../../../sharedInterfaces/webview";
+import { RecommendationsPanel } from "./recommendationsPanel";
 
 const useStyles = makeStyles({
     outerDiv: {
@@ -65,9 +66,17 @@ export const ExecutionPlanPage = () => {
             case ApiStatus.Loaded:
                 const executionPlanGraphs =
                     executionPlanState?.executionPlanGraphs ?? [];
-                return executionPlanGraphs?.map((_: any, index: number) => (
-                    <ExecutionPlanGraph key={index} graphIndex={index} />
-                ));
+                return (
+                    <>
+                        <RecommendationsPanel />
+                        {executionPlanGraphs?.map((_: any, index: number) => (
+                            <ExecutionPlanGraph
+                                key={index}
+                                graphIndex={index}
+                            />
+                        ))}
+                    </>
+                );
             case ApiStatus.Error:
                 return (
                     <div className={classes.spinnerDiv}>
@@ -0,0 +1,141 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as ep from "./executionPlanInterfaces";
+
+import { ExecutionPlanView } from "./executionPlanView";
+import { locConstants } from "../../common/locConstants";
+
+/**
+ * Number of operators listed for each metric of the report
+ */
+const topOperatorsCount = 10;
+
+const reportStyle = `
+body { font-family: Segoe UI, Helvetica, Arial, sans-serif; font-size: 13px; margin: 20px; color: #1e1e1e; }
+h1 { font-size: 20px; }
+h2 { font-size: 16px; margin-top: 24px; }
+pre { background: #f3f3f3; padding: 8px; white-space: pre-wrap; }
+table { border-collapse: collapse; margin: 4px 0 12px 0; }
+th, td { border: 1px solid #d4d4d4; padding: 2px 8px; text-align: left; vertical-align: top; }
+th { background: #f3f3f3; }
+details { margin: 4px 0; }
+summary { cursor: pointer; }
+.graph { overflow: auto; border: 1px solid #d4d4d4; }
+`;
+
+const escapeHtml = (value: string): string =>
+    (value ?? "")
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&#39;");
+
+const getMetricName = (metric: ep.ExpensiveMetricType): string => {
+    switch (metric) {
+        case ep.ExpensiveMetricType.ActualElapsedTime:
+            return locConstants.executionPlan.actualElapsedTime;
+        case ep.ExpensiveMetricType.ActualElapsedCpuTime:
+            return locConstants.executionPlan.actualElapsedCpuTime;
+        case ep.ExpensiveMetricType.Cost:
+            return locConstants.executionPlan.cost;
+        case ep.ExpensiveMetricType.SubtreeCost:
+            return locConstants.executionPlan.subtreeCost;
+        case ep.ExpensiveMetricType.ActualNumberOfRowsForAllExecutions:
+            return locConstants.executionPlan
+                .actualNumberOfRowsForAllExecutions;
+        case ep.ExpensiveMetricType.NumberOfRowsRead:
+            return locConstants.executionPlan.numberOfRowsRead;
+        default:
+            return metric;
+    }
+};
+
+const getPropertiesTable = (
+    properties: ep.ExecutionPlanGraphElementProperty[],
+): string => {
+    const rows = [...properties]
+        .sort((a, b) => a.displayOrder - b.displayOrder)
+        .map((property) => {
+            const value =
+                typeof property.value === "string"
+                    ? escapeHtml(property.displayValue ?? property.value)
+                    : getPropertiesTable(property.value);
+            return `<tr><td>${escapeHtml(property.name)}</td><td>${value}</td></tr>`;
+        });
+    return `<table><tr><th>${escapeHtml(locConstants.executionPlan.name)}</th><th>${escapeHtml(locConstants.executionPlan.value)}</th></tr>${rows.join("")}</table>`;
+};
+
+const getTopOperatorsSection = (
+    executionPlanView: ExecutionPlanView,
+    metric: ep.ExpensiveMetricType,
+): string => {
+    const operators = executionPlanView.getExpensiveOperators(
+        metric,
+        topOperatorsCount,
+    );
+    if (!operators.length) {
+        return "";
+    }
+    const rows = operators.map(
+        (operator) =>
+            `<tr><td>${escapeHtml(operator.node.name)}</td><td>${escapeHtml(operator.node.id)}</td><td>${operator.value}</td></tr>`,
+    );
+    return `<h3>${escapeHtml(getMetricName(metric))}</h3><table><tr><th>${escapeHtml(locConstants.executionPlan.operator)}</th><th>${escapeHtml(locConstants.executionPlan.nodeId)}</th><th>${escapeHtml(locConstants.executionPlan.value)}</th></tr>${rows.join("")}</table>`;
+};
+
+const getNodes = (root: ep.ExecutionPlanNode): ep.ExecutionPlanNode[] => {
+    const nodes: ep.ExecutionPlanNode[] = [];
+    const stack = [root];
+    while (stack.length) {
+        const node = stack.pop()!;
+        nodes.push(node);
+        stack.push(...[...(node.children ?? [])].reverse());
+    }
+    return nodes;
+};
+
+/**
+ * Builds a self-contained html report of an execution plan, with the graph, the most expensive
+ * operators for each metric and the properties of every node.
+ * @param executionPlanView the view of the execution plan
+ * @param query the query of the execution plan
+ * @param svg the standalone svg of the graph
+ */
+export function getExecutionPlanReport(
+    executionPlanView: ExecutionPlanView,
+    query: string,
+    svg: string,
+): string {
+    const title = locConstants.executionPlan.executionPlanReport;
+    const topOperators = Object.values(ep.ExpensiveMetricType)
+        .filter((metric) => metric !== ep.ExpensiveMetricType.Off)
+        .map((metric) => getTopOperatorsSection(executionPlanView, metric))
+        .join("");
+    const nodes = getNodes(executionPlanView.getRoot()).map(
+        (node) =>
+            `<details><summary>${escapeHtml(`${node.name} (${node.id})`)}</summary>${getPropertiesTable(node.properties ?? [])}</details>`,
+    );
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${reportStyle}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<pre>${escapeHtml(query)}</pre>
+<div class="graph">${svg}</div>
+<h2>${escapeHtml(locConstants.executionPlan.topOperators)}</h2>
+${topOperators}
+<h2>${escapeHtml(locConstants.executionPlan.nodeProperties)}</h2>
+${nodes.join("\n")}
+</body>
+</html>
+`;
+}
@@ -62,6 +62,18 @@ const ExecutionPlanStateProvider: React.FC<ExecutionPlanContextProps> = ({
                             addedCost: addedCost,
                         });
                     },
+                    exportExecutionPlan: function (
+                        format: ep.ExecutionPlanExportFormat,
+                        content: string,
+                    ): void {
+                        webviewState?.extensionRpc.action(
+                            "exportExecutionPlan",
+                            {
+                                format: format,
+                                content: content,
+                            },
+                        );
+                    },
                 },
                 state: webviewState?.state as ep.ExecutionPlanWebviewState,
                 themeKind: webviewState?.themeKind,
@@ -4,11 +4,17 @@
  *--------------------------------------------------------------------------------------------*/
 
 import * as ep from "./executionPlanInterfaces";
+import { getPng, getSvg } from "../../common/svgUtils";
 
 export class ExecutionPlanView {
     private _diagram: any;
     public expensiveMetricTypes: Set<ep.ExpensiveMetricType> = new Set();
     private _graphElementPropertiesSet: Set<string> = new Set();
+    private _cells: ep.AzDataGraphCell[] = [];
+    private _rowCountSkewBadges: Map<
+        ep.AzDataGraphCell,
+        ep.AzDataGraphNodeBadge
+    > = new Map();
     private _executionPlanRootNode: ep.ExecutionPlanNode;
 
     constructor(node: ep.ExecutionPlanNode) {
@@ -96,6 +102,7 @@ export class ExecutionPlanView {
         }
         diagramNode.costMetrics = costMetrics;
 
+        this._cells.push(diagramNode);
         return diagramNode;
     }
 
@@ -474,6 +481,205 @@ export class ExecutionPlanView {
         return undefined;
     }
 
+    /**
+     * Gets the nodes with the highest values of a metric, most expensive first
+     * @param metric the metric to sort the nodes by
+     * @param count the maximum number of nodes to return
+     */
+    public getExpensiveOperators(
+        metric: ep.ExpensiveMetricType,
+        count: number,
+    ): ep.ExpensiveOperator[] {
+        const getMetricValue = getExpensiveOperationDelegate(metric);
+        return this._cells
+            .map((cell) => ({
+                node: this.getElementById(cell.id) as ep.ExecutionPlanNode,
+                value: getMetricValue(cell),
+            }))
+            .filter((operator) => operator.value !== undefined && operator.node)
+            .sort((a, b) => b.value! - a.value!)
+            .slice(0, count) as ep.ExpensiveOperator[];
+    }
+
+    /**
+     * Gets the metrics of every operator of the plan, in the order of the nodes of the plan
+     */
+    public getTopOperationsData(): ep.TopOperationsDataItem[] {
+        const getCost = getExpensiveOperationDelegate(
+            ep.ExpensiveMetricType.Cost,
+        );
+        const getSubtreeCost = getExpensiveOperationDelegate(
+            ep.ExpensiveMetricType.SubtreeCost,
+        );
+        const getElapsedTime = getExpensiveOperationDelegate(
+            ep.ExpensiveMetricType.ActualElapsedTime,
+        );
+        const getElapsedCpuTime = getExpensiveOperationDelegate(
+            ep.ExpensiveMetricType.ActualElapsedCpuTime,
+        );
+        const getMetric = (cell: ep.AzDataGraphCell, name: string) => {
+            const metric = cell.costMetrics.find((m) => m.name === name);
+            const value = Number(metric?.value);
+            return metric === undefined || isNaN(value) ? undefined : value;
+        };
+
+        const cells = new Map(this._cells.map((cell) => [cell.id, cell]));
+        const items: ep.TopOperationsDataItem[] = [];
+        const addItems = (node: ep.ExecutionPlanNode) => {
+            const cell = cells.get(node.id);
+            if (cell) {
+                items.push({
+                    node: node,
+                    cost: getCost(cell),
+                    subtreeCost: getSubtreeCost(cell),
+                    actualRows: getMetric(cell, "ActualRows"),
+                    estimatedRows: getMetric(cell, "EstimateRowsAllExecs"),
+                    elapsedTimeInMs: getElapsedTime(cell),
+                    elapsedCpuTimeInMs: getElapsedCpuTime(cell),
+                });
+            }
+            node.children?.forEach(addItems);
+        };
+        addItems(this._executionPlanRootNode);
+        return items;
+    }
+
+    /**
+     * Gets the operators whose actual and estimated row counts differ by more than a factor,
+     * from the most skewed to the least skewed
+     * @param skewFactor the minimum ratio between the row counts
+     */
+    public getRowCountSkews(skewFactor: number): ep.RowCountSkew[] {
+        const skews: ep.RowCountSkew[] = [];
+        for (const item of this.getTopOperationsData()) {
+            if (
+                item.actualRows === undefined ||
+                item.estimatedRows === undefined
+            ) {
+                continue;
+            }
+            // row counts under one are compared as one, to avoid dividing by zero
+            const actualRows = Math.max(item.actualRows, 1);
+            const estimatedRows = Math.max(item.estimatedRows, 1);
+            const factor =
+                Math.max(actualRows, estimatedRows) /
+                Math.min(actualRows, estimatedRows);
+            if (factor > skewFactor) {
+                skews.push({
+                    node: item.node,
+                    actualRows: item.actualRows,
+                    estimatedRows: item.estimatedRows,
+                    factor: factor,
+                    isUnderestimated: actualRows > estimatedRows,
+                });
+            }
+        }
+        return skews.sort((a, b) => b.factor - a.factor);
+    }
+
+    /**
+     * Adds a warning badge to the nodes of the graph that have a row count skew
+     * @param skews the row count skews to show, replacing the ones shown before
+     * @param getTooltip gets the tooltip of the badge of a skew
+     */
+    public showRowCountSkewBadges(
+        skews: ep.RowCountSkew[],
+        getTooltip: (skew: ep.RowCountSkew) => string,
+    ): void {
+        this.clearRowCountSkewBadges(false);
+        for (const skew of skews) {
+            const cell = this._cells.find((c) => c.id === skew.node.id);
+            if (cell) {
+                const badge = {
+                    type: "warning",
+                    tooltip: getTooltip(skew),
+                };
+                cell.badges.push(badge);
+                this._rowCountSkewBadges.set(cell, badge);
+            }
+        }
+        this._diagram.graph.refresh();
+    }
+
+    public clearRowCountSkewBadges(refresh: boolean = true): void {
+        for (const [cell, badge] of this._rowCountSkewBadges) {
+            cell.badges = cell.badges.filter((b) => b !== badge);
+        }
+        this._rowCountSkewBadges.clear();
+        if (refresh) {
+            this._diagram.graph.refresh();
+        }
+    }
+
+    /**
+     * Gets the rendered graph as a standalone svg document. The images are embedded and the
+     * theme colors are resolved, so the document shows the same outside of the webview.
+     */
+    public async getSvg(): Promise<string> {
+        const { element } = await this.getExportedSvgElement();
+        return getSvg(element);
+    }
+
+    /**
+     * Gets the rendered graph as a png image
+     * @returns the base64 encoded content of the image
+     */
+    public async getPng(): Promise<string> {
+        const { element, width, height } = await this.getExportedSvgElement();
+        return getPng(element, width, height);
+    }
+
+    /**
+     * Gets a copy of the svg element of the graph that is cropped to the graph, with a background
+     * and the images embedded
+     */
+    private async getExportedSvgElement(): Promise<{
+        element: SVGSVGElement;
+        width: number;
+        height: number;
+    }> {
+        const graph = this._diagram.graph;
+        const svg = (graph.container as HTMLElement).querySelector("svg");
+        if (!svg) {
+            throw new Error("The execution plan graph is not rendered");
+        }
+        const bounds = graph.getGraphBounds();
+        const padding = 10;
+        const width = Math.ceil(bounds.width + padding * 2);
+        const height = Math.ceil(bounds.height + padding * 2);
+
+        const clone = svg.cloneNode(true) as SVGSVGElement;
+        clone.removeAttribute("style");
+        clone.setAttribute("xmlns:xlink", "http://www.w3.org/1999/xlink");
+        clone.setAttribute("width", width.toString());
+        clone.setAttribute("height", height.toString());
+        clone.setAttribute(
+            "viewBox",
+            `${bounds.x - padding} ${bounds.y - padding} ${width} ${height}`,
+        );
+
+        const background = document.createElementNS(
+            "http://www.w3.org/2000/svg",
+            "rect",
+        );
+        background.setAttribute("x", (bounds.x - padding).toString());
+        background.setAttribute("y", (bounds.y - padding).toString());
+        background.setAttribute("width", width.toString());
+        background.setAttribute("height", height.toString());
+        background.setAttribute("fill", "var(--vscode-editor-background)");
+        clone.insertBefore(background, clone.firstChild);
+
+        for (const image of Array.from(clone.querySelectorAll("image"))) {
+            const href =
+                image.getAttribute("href") ?? image.getAttribute("xlink:href");
+            if (href && !href.startsWith("data:")) {
+                image.setAttribute("href", await toDataUrl(href));
+                image.removeAttribute("xlink:href");
+            }
+        }
+        return { element: clone, width: width, height: height };
+    }
+
     public calculateRelativeQueryCost(): number {
         return (
             this._executionPlanRootNode.subTreeCost +
@@ -481,3 +687,120 @@ export class ExecutionPlanView {
         );
     }
 }
+
+async function toDataUrl(url: string): Promise<string> {
+    const blob = await (await fetch(url)).blob();
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+}
+
+/**
+ * Gets the function that returns the value of a metric for a node of the graph
+ */
+export function getExpensiveOperationDelegate(
+    selectedExpensiveOperationType: ep.ExpensiveMetricType,
+): (cell: ep.AzDataGraphCell) => number | undefined {
+    const getElapsedTimeInMs = (cell: ep.AzDataGraphCell): number | undefined =>
+        cell.elapsedTimeInMs;
+
+    const getElapsedCpuTimeInMs = (
+        cell: ep.AzDataGraphCell,
+    ): number | undefined => {
+        const elapsedCpuMetric = cell.costMetrics.find(
+            (m) => m.name === "ElapsedCpuTime",
+        );
+
+        if (elapsedCpuMetric === undefined) {
+            return undefined;
+        } else {
+            return Number(elapsedCpuMetric.value);
+        }
+    };
+
+    const getCost = (cell: ep.AzDataGraphCell): number | undefined => cell.cost;
+    const getSubtreeCost = (cell: ep.AzDataGraphCell): number | undefined =>
+        cell.subTreeCost;
+
+    const getRowsForAllExecutions = (
+        cell: ep.AzDataGraphCell,
+    ): number | undefined => {
+        const actualRowsMetric = cell.costMetrics.find(
+            (m) => m.name === "ActualRows",
+        );
+        const estimateRowsForAllExecutionsMetric = cell.costMetrics.find(
+            (m) => m.name === "EstimateRowsAllExecs",
+        );
+
+        if (
+            actualRowsMetric === undefined &&
+            estimateRowsForAllExecutionsMetric === undefined
+        ) {
+            return undefined;
+        }
+
+        let result = Number(actualRowsMetric?.value);
+        if (!result) {
+            result = Number(estimateRowsForAllExecutionsMetric?.value);
+        }
+
+        if (isNaN(result)) {
+            return undefined;
+        }
+
+        return result;
+    };
+
+    const getNumberOfRowsRead = (
+        cell: ep.AzDataGraphCell,
+    ): number | undefined => {
+        const actualRowsReadMetric = cell.costMetrics.find(
+            (m) => m.name === "ActualRowsRead",
+        );
+        const estimatedRowsReadMetric = cell.costMetrics.find(
+            (m) => m.name === "EstimatedRowsRead",
+        );
+
+        if (
+            actualRowsReadMetric === undefined &&
+            estimatedRowsReadMetric === undefined
+        ) {
+            return undefined;
+        }
+
+        let result = Number(actualRowsReadMetric?.value);
+        if (!result) {
+            result = Number(estimatedRowsReadMetric?.value);
+        }
+
+        if (isNaN(result)) {
+            return undefined;
+        }
+
+        return result;
+    };
+
+    let expensiveOperationDelegate = getCost;
+    switch (selectedExpensiveOperationType) {
+        case ep.ExpensiveMetricType.ActualElapsedTime:
+            expensiveOperationDelegate = getElapsedTimeInMs;
+            break;
+        case ep.ExpensiveMetricType.ActualElapsedCpuTime:
+            expensiveOperationDelegate = getElapsedCpuTimeInMs;
+            break;
+        case ep.ExpensiveMetricType.SubtreeCost:
+            expensiveOperationDelegate = getSubtreeCost;
+            break;
+        case ep.ExpensiveMetricType.ActualNumberOfRowsForAllExecutions:
+            expensiveOperationDelegate = getRowsForAllExecutions;
+            break;
+        case ep.ExpensiveMetricType.NumberOfRowsRead:
+            expensiveOperationDelegate = getNumberOfRowsRead;
+            break;
+    }
+
+    return expensiveOperationDelegate;
+}
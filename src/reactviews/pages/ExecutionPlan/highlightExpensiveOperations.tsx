@@ -16,7 +16,10 @@ import {
 } from "@fluentui/react-components";
 import { Checkmark20Regular, Dismiss20Regular } from "@fluentui/react-icons";
 
-import { ExecutionPlanView } from "./executionPlanView";
+import {
+    ExecutionPlanView,
+    getExpensiveOperationDelegate,
+} from "./executionPlanView";
 import { locConstants } from "../../common/locConstants";
 import { useState } from "react";
 
@@ -143,107 +146,3 @@ export const HighlightExpensiveOperations: React.FC<
         </div>
     );
 };
-
-function getExpensiveOperationDelegate(
-    selectedExpensiveOperationType: ep.ExpensiveMetricType,
-): (cell: ep.AzDataGraphCell) => number | undefined {
-    const getElapsedTimeInMs = (cell: ep.AzDataGraphCell): number | undefined =>
-        cell.elapsedTimeInMs;
-
-    const getElapsedCpuTimeInMs = (
-        cell: ep.AzDataGraphCell,
-    ): number | undefined => {
-        const elapsedCpuMetric = cell.costMetrics.find(
-            (m) => m.name === "ElapsedCpuTime",
-        );
-
-        if (elapsedCpuMetric === undefined) {
-            return undefined;
-        } else {
-            return Number(elapsedCpuMetric.value);
-        }
-    };
-
-    const getCost = (cell: ep.AzDataGraphCell): number | undefined => cell.cost;
-    const getSubtreeCost = (cell: ep.AzDataGraphCell): number | undefined =>
-        cell.subTreeCost;
-
-    const getRowsForAllExecutions = (
-        cell: ep.AzDataGraphCell,
-    ): number | undefined => {
-        const actualRowsMetric = cell.costMetrics.find(
-            (m) => m.name === "ActualRows",
-        );
-        const estimateRowsForAllExecutionsMetric = cell.costMetrics.find(
-            (m) => m.name === "EstimateRowsAllExecs",
-        );
-
-        if (
-            actualRowsMetric === undefined &&
-            estimateRowsForAllExecutionsMetric === undefined
-        ) {
-            return undefined;
-        }
-
-        let result = Number(actualRowsMetric?.value);
-        if (!result) {
-            result = Number(estimateRowsForAllExecutionsMetric?.value);
-        }
-
-        if (isNaN(result)) {
-            return undefined;
-        }
-
-        return result;
-    };
-
-    const getNumberOfRowsRead = (
-        cell: ep.AzDataGraphCell,
-    ): number | undefined => {
-        const actualRowsReadMetric = cell.costMetrics.find(
-            (m) => m.name === "ActualRowsRead",
-        );
-        const estimatedRowsReadMetric = cell.costMetrics.find(
-            (m) => m.name === "EstimatedRowsRead",
-        );
-
-        if (
-            actualRowsReadMetric === undefined &&
-            estimatedRowsReadMetric === undefined
-        ) {
-            return undefined;
-        }
-
-        let result = Number(actualRowsReadMetric?.value);
-        if (!result) {
-            result = Number(estimatedRowsReadMetric?.value);
-        }
-
-        if (isNaN(result)) {
-            return undefined;
-        }
-
-        return result;
-    };
-
-    let expensiveOperationDelegate = getCost;
-    switch (selectedExpensiveOperationType) {
-        case ep.ExpensiveMetricType.ActualElapsedTime:
-            expensiveOperationDelegate = getElapsedTimeInMs;
-            break;
-        case ep.ExpensiveMetricType.ActualElapsedCpuTime:
-            expensiveOperationDelegate = getElapsedCpuTimeInMs;
-            break;
-        case ep.ExpensiveMetricType.SubtreeCost:
-            expensiveOperationDelegate = getSubtreeCost;
-            break;
-        case ep.ExpensiveMetricType.ActualNumberOfRowsForAllExecutions:
-            expensiveOperationDelegate = getRowsForAllExecutions;
-            break;
-        case ep.ExpensiveMetricType.NumberOfRowsRead:
-            expensiveOperationDelegate = getNumberOfRowsRead;
-            break;
-    }
-
-    return expensiveOperationDelegate;
-}
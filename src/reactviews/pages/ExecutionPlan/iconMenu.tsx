@@ -8,6 +8,11 @@ import "./executionPlan.css";
 import * as utils from "./queryPlanSetup";
 
 import {
+    Menu,
+    MenuItem,
+    MenuList,
+    MenuPopover,
+    MenuTrigger,
     Toolbar,
     ToolbarButton,
     makeStyles,
@@ -15,8 +20,14 @@ import {
 } from "@fluentui/react-components";
 import { useContext, useState } from "react";
 
+import {
+    ArrowExportLtr16Regular,
+    Table16Regular,
+    Warning16Regular,
+} from "@fluentui/react-icons";
 import { ExecutionPlanContext } from "./executionPlanStateProvider";
 import { ExecutionPlanView } from "./executionPlanView";
+import { getExecutionPlanReport } from "./executionPlanReport";
 import { locConstants } from "../../common/locConstants";
 
 const useStyles = makeStyles({
@@ -54,6 +65,8 @@ interface IconStackProps {
     setFindNodeClicked: any;
     setHighlightOpsClicked: any;
     setPropertiesClicked: any;
+    setTopOperatorsClicked: any;
+    setRowCountSkewsClicked: any;
     query: string;
     xml: string;
 }
@@ -66,6 +79,8 @@ export const IconStack: React.FC<IconStackProps> = ({
     setFindNodeClicked,
     setHighlightOpsClicked,
     setPropertiesClicked,
+    setTopOperatorsClicked,
+    setRowCountSkewsClicked,
     query,
     xml,
 }) => {
@@ -83,6 +98,7 @@ export const IconStack: React.FC<IconStackProps> = ({
     const SAVE_PLAN = locConstants.executionPlan.savePlan;
     const OPEN_XML = locConstants.executionPlan.openXml;
     const OPEN_QUERY = locConstants.executionPlan.openQuery;
+    const EXPORT = locConstants.executionPlan.export;
     const ZOOM_IN = locConstants.executionPlan.zoomIn;
     const ZOOM_OUT = locConstants.executionPlan.zoomOut;
     const ZOOM_TO_FIT = locConstants.executionPlan.zoomToFit;
@@ -92,6 +108,8 @@ export const IconStack: React.FC<IconStackProps> = ({
     const HIGHLIGHT_OPS =
         locConstants.executionPlan.highlightExpensiveOperation;
     const TOGGLE_TOOLTIPS = locConstants.executionPlan.toggleTooltips;
+    const TOP_OPERATORS = locConstants.executionPlan.topOperators;
+    const ROW_COUNT_SKEWS = locConstants.executionPlan.rowCountSkews;
 
     const handleSavePlan = async () => {
         await state!.provider.saveExecutionPlan(xml);
@@ -105,6 +123,34 @@ export const IconStack: React.FC<IconStackProps> = ({
         await state!.provider.showQuery(query);
     };
 
+    const handleExportSvg = async () => {
+        if (executionPlanView) {
+            state!.provider.exportExecutionPlan(
+                "svg",
+                await executionPlanView.getSvg(),
+            );
+        }
+    };
+
+    const handleExportPng = async () => {
+        if (executionPlanView) {
+            state!.provider.exportExecutionPlan(
+                "png",
+                await executionPlanView.getPng(),
+            );
+        }
+    };
+
+    const handleExportHtmlReport = async () => {
+        if (executionPlanView) {
+            const svg = await executionPlanView.getSvg();
+            state!.provider.exportExecutionPlan(
+                "html",
+                getExecutionPlanReport(executionPlanView, query, svg),
+            );
+        }
+    };
+
     const handleZoomIn = async () => {
         if (executionPlanView) {
             executionPlanView.zoomIn();
@@ -212,6 +258,30 @@ export const IconStack: React.FC<IconStackProps> = ({
                 title={OPEN_QUERY}
                 aria-label={OPEN_QUERY}
             />
+            <Menu>
+                <MenuTrigger disableButtonEnhancement>
+                    <ToolbarButton
+                        className={classes.button}
+                        tabIndex={0}
+                        icon={<ArrowExportLtr16Regular />}
+                        title={EXPORT}
+                        aria-label={EXPORT}
+                    />
+                </MenuTrigger>
+                <MenuPopover>
+                    <MenuList>
+                        <MenuItem onClick={handleExportSvg}>
+                            {locConstants.executionPlan.exportAsSvg}
+                        </MenuItem>
+                        <MenuItem onClick={handleExportPng}>
+                            {locConstants.executionPlan.exportAsPng}
+                        </MenuItem>
+                        <MenuItem onClick={handleExportHtmlReport}>
+                            {locConstants.executionPlan.exportHtmlReport}
+                        </MenuItem>
+                    </MenuList>
+                </MenuPopover>
+            </Menu>
             <hr
                 className={classes.seperator}
                 style={{
@@ -308,6 +378,28 @@ export const IconStack: React.FC<IconStackProps> = ({
                 title={PROPERTIES}
                 aria-label={PROPERTIES}
             />
+            <ToolbarButton
+                className={classes.button}
+                tabIndex={0}
+                icon={<Table16Regular />}
+                onClick={() => {
+                    setRowCountSkewsClicked(false);
+                    setTopOperatorsClicked(true);
+                }}
+                title={TOP_OPERATORS}
+                aria-label={TOP_OPERATORS}
+            />
+            <ToolbarButton
+                className={classes.button}
+                tabIndex={0}
+                icon={<Warning16Regular />}
+                onClick={() => {
+                    setTopOperatorsClicked(false);
+                    setRowCountSkewsClicked(true);
+                }}
+                title={ROW_COUNT_SKEWS}
+                aria-label={ROW_COUNT_SKEWS}
+            />
             <ToolbarButton
                 className={classes.button}
                 tabIndex={0}
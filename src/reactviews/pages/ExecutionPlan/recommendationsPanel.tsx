@@ -0,0 +1,220 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as ep from "./executionPlanInterfaces";
+
+import {
+    Accordion,
+    AccordionHeader,
+    AccordionItem,
+    AccordionPanel,
+    Button,
+    Table,
+    TableBody,
+    TableCell,
+    TableHeader,
+    TableHeaderCell,
+    TableRow,
+    makeStyles,
+    tokens,
+} from "@fluentui/react-components";
+import { DocumentAdd16Regular, Warning16Filled } from "@fluentui/react-icons";
+import { useContext } from "react";
+
+import { ExecutionPlanContext } from "./executionPlanStateProvider";
+import { locConstants } from "../../common/locConstants";
+
+const useStyles = makeStyles({
+    panel: {
+        margin: "5px",
+        border: `1px solid ${tokens.colorNeutralStroke2}`,
+    },
+    headerIcon: {
+        color: tokens.colorPaletteYellowForeground1,
+    },
+    tableContainer: {
+        maxHeight: "200px",
+        overflow: "auto",
+    },
+    impactColumn: {
+        width: "80px",
+    },
+    statementsColumn: {
+        width: "100px",
+    },
+    actionColumn: {
+        width: "120px",
+    },
+    queryText: {
+        fontFamily: tokens.fontFamilyMonospace,
+        whiteSpace: "nowrap",
+        overflow: "hidden",
+        textOverflow: "ellipsis",
+    },
+});
+
+/**
+ * A recommendation along with the statements of the plan it was made for
+ */
+interface AggregatedRecommendation {
+    recommendation: ep.ExecutionPlanRecommendations;
+    /**
+     * Estimated improvement of the query cost in percent, if the recommendation has one
+     */
+    impact?: number;
+    /**
+     * One-based numbers of the statements the recommendation was made for
+     */
+    statements: number[];
+}
+
+/**
+ * Gets the estimated impact from the display string of a missing index recommendation,
+ * as in "Missing Index (Impact 98.2514): CREATE NONCLUSTERED INDEX ..."
+ */
+const getImpact = (displayString: string): number | undefined => {
+    const match = /\(\D*(\d+(?:\.\d+)?)\)/.exec(displayString ?? "");
+    return match ? parseFloat(match[1]) : undefined;
+};
+
+/**
+ * Merges the recommendations of all the statements, since the same index is often recommended
+ * for several statements of a batch. The highest impact is kept.
+ */
+const aggregateRecommendations = (
+    graphs: ep.ExecutionPlanGraph[],
+): AggregatedRecommendation[] => {
+    const aggregated = new Map<string, AggregatedRecommendation>();
+    graphs.forEach((graph, graphIndex) => {
+        for (const recommendation of graph.recommendations ?? []) {
+            const impact = getImpact(recommendation.displayString);
+            const existing = aggregated.get(recommendation.queryText);
+            if (!existing) {
+                aggregated.set(recommendation.queryText, {
+                    recommendation: recommendation,
+                    impact: impact,
+                    statements: [graphIndex + 1],
+                });
+                continue;
+            }
+            if (!existing.statements.includes(graphIndex + 1)) {
+                existing.statements.push(graphIndex + 1);
+            }
+            if (impact !== undefined && impact > (existing.impact ?? -1)) {
+                existing.recommendation = recommendation;
+                existing.impact = impact;
+            }
+        }
+    });
+    return [...aggregated.values()].sort(
+        (a, b) => (b.impact ?? -1) - (a.impact ?? -1),
+    );
+};
+
+/**
+ * Lists the missing index recommendations of all the statements of the plan
+ */
+export const RecommendationsPanel = () => {
+    const classes = useStyles();
+    const context = useContext(ExecutionPlanContext);
+    const graphs =
+        context?.state?.executionPlanState?.executionPlanGraphs ?? [];
+    const recommendations = aggregateRecommendations(graphs);
+
+    if (!recommendations.length) {
+        return undefined;
+    }
+
+    return (
+        <Accordion collapsible className={classes.panel}>
+            <AccordionItem value="recommendations">
+                <AccordionHeader
+                    size="small"
+                    icon={<Warning16Filled className={classes.headerIcon} />}
+                >
+                    {locConstants.executionPlan.missingIndexRecommendations(
+                        recommendations.length,
+                    )}
+                </AccordionHeader>
+                <AccordionPanel>
+                    <div className={classes.tableContainer}>
+                        <Table
+                            size="extra-small"
+                            aria-label={locConstants.executionPlan.missingIndexRecommendations(
+                                recommendations.length,
+                            )}
+                        >
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHeaderCell
+                                        className={classes.impactColumn}
+                                    >
+                                        {locConstants.executionPlan.impact}
+                                    </TableHeaderCell>
+                                    <TableHeaderCell
+                                        className={classes.statementsColumn}
+                                    >
+                                        {locConstants.executionPlan.statements}
+                                    </TableHeaderCell>
+                                    <TableHeaderCell>
+                                        {locConstants.executionPlan.index}
+                                    </TableHeaderCell>
+                                    <TableHeaderCell
+                                        className={classes.actionColumn}
+                                    />
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {recommendations.map((r) => (
+                                    <TableRow key={r.recommendation.queryText}>
+                                        <TableCell
+                                            className={classes.impactColumn}
+                                        >
+                                            {r.impact === undefined
+                                                ? ""
+                                                : `${r.impact.toFixed(2)}%`}
+                                        </TableCell>
+                                        <TableCell
+                                            className={classes.statementsColumn}
+                                        >
+                                            {r.statements.join(", ")}
+                                        </TableCell>
+                                        <TableCell
+                                            title={r.recommendation.queryText}
+                                        >
+                                            <div className={classes.queryText}>
+                                                {r.recommendation.queryText}
+                                            </div>
+                                        </TableCell>
+                                        <TableCell
+                                            className={classes.actionColumn}
+                                        >
+                                            <Button
+                                                size="small"
+                                                appearance="subtle"
+                                                icon={<DocumentAdd16Regular />}
+                                                onClick={() =>
+                                                    context?.provider.showQuery(
+                                                        r.recommendation
+                                                            .queryWithDescription,
+                                                    )
+                                                }
+                                            >
+                                                {
+                                                    locConstants.executionPlan
+                                                        .openScript
+                                                }
+                                            </Button>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </div>
+                </AccordionPanel>
+            </AccordionItem>
+        </Accordion>
+    );
+};
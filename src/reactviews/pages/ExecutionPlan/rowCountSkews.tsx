@@ -0,0 +1,234 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import "./executionPlan.css";
+
+import * as ep from "./executionPlanInterfaces";
+
+import {
+    Button,
+    Input,
+    Table,
+    TableBody,
+    TableCell,
+    TableHeader,
+    TableHeaderCell,
+    TableRow,
+    makeStyles,
+    tokens,
+} from "@fluentui/react-components";
+import { Dismiss12Regular } from "@fluentui/react-icons";
+import { useEffect, useMemo, useState } from "react";
+
+import { ExecutionPlanView } from "./executionPlanView";
+import { locConstants } from "../../common/locConstants";
+
+const useStyles = makeStyles({
+    paneContainer: {
+        height: "100%",
+        width: "100%",
+        overflow: "auto",
+    },
+    header: {
+        fontWeight: "bold",
+        fontSize: "12px",
+        padding: "4px",
+        display: "flex",
+        justifyContent: "space-between",
+        alignItems: "center",
+        position: "sticky",
+        top: 0,
+        zIndex: 1,
+    },
+    factorContainer: {
+        display: "flex",
+        alignItems: "center",
+        gap: "4px",
+        padding: "0 4px 4px 4px",
+        fontSize: "12px",
+    },
+    factorInput: {
+        width: "80px",
+    },
+    tableRow: {
+        cursor: "pointer",
+    },
+    selectedRow: {
+        backgroundColor: tokens.colorNeutralBackground1Selected,
+    },
+    tableCell: {
+        fontSize: "12px",
+    },
+    message: {
+        padding: "4px",
+        fontSize: "12px",
+    },
+    dismissButton: {
+        width: "12px",
+        height: "12px",
+        border: "none",
+        outline: "none",
+        marginRight: "4px",
+    },
+});
+
+/**
+ * Row count ratio above which operators are flagged when the panel opens
+ */
+const defaultSkewFactor = 10;
+
+const getSkewDescription = (skew: ep.RowCountSkew): string =>
+    skew.isUnderestimated
+        ? locConstants.executionPlan.rowsUnderestimated(skew.factor.toFixed(1))
+        : locConstants.executionPlan.rowsOverestimated(skew.factor.toFixed(1));
+
+const getLikelyCause = (skew: ep.RowCountSkew): string =>
+    skew.isUnderestimated
+        ? locConstants.executionPlan.underestimatedRowsCause
+        : locConstants.executionPlan.overestimatedRowsCause;
+
+interface RowCountSkewsProps {
+    executionPlanView: ExecutionPlanView;
+    setRowCountSkewsClicked: (clicked: boolean) => void;
+}
+
+/**
+ * Flags the operators whose actual row counts differ from the estimated ones, both in the graph
+ * and in a list with the likely causes
+ */
+export const RowCountSkews: React.FC<RowCountSkewsProps> = ({
+    executionPlanView,
+    setRowCountSkewsClicked,
+}) => {
+    const classes = useStyles();
+    const [skewFactor, setSkewFactor] = useState(defaultSkewFactor);
+    const [selectedNodeId, setSelectedNodeId] = useState<string | undefined>(
+        undefined,
+    );
+    const skews = useMemo(
+        () => executionPlanView.getRowCountSkews(skewFactor),
+        [executionPlanView, skewFactor],
+    );
+
+    useEffect(() => {
+        executionPlanView.showRowCountSkewBadges(
+            skews,
+            (skew) => `${getSkewDescription(skew)} ${getLikelyCause(skew)}`,
+        );
+        return () => executionPlanView.clearRowCountSkewBadges();
+    }, [skews]);
+
+    return (
+        <div
+            className={classes.paneContainer}
+            style={{
+                background: tokens.colorNeutralBackground2,
+                borderTop: `0.5px solid ${tokens.colorNeutralStroke1}`,
+            }}
+        >
+            <div
+                className={classes.header}
+                style={{
+                    background: tokens.colorNeutralBackground2,
+                }}
+            >
+                <div>{locConstants.executionPlan.rowCountSkews}</div>
+                <Button
+                    className={classes.dismissButton}
+                    style={{
+                        background: tokens.colorNeutralBackground2,
+                    }}
+                    onClick={() => setRowCountSkewsClicked(false)}
+                    icon={<Dismiss12Regular />}
+                    aria-label={locConstants.common.close}
+                />
+            </div>
+            <div className={classes.factorContainer}>
+                <label htmlFor="skewFactorInput">
+                    {locConstants.executionPlan.skewFactor}
+                </label>
+                <Input
+                    id="skewFactorInput"
+                    className={classes.factorInput}
+                    type="number"
+                    size="small"
+                    min={1}
+                    defaultValue={defaultSkewFactor.toString()}
+                    onChange={(_e, data) => {
+                        const factor = Number(data.value);
+                        if (factor >= 1) {
+                            setSkewFactor(factor);
+                        }
+                    }}
+                />
+            </div>
+            {skews.length === 0 ? (
+                <div className={classes.message}>
+                    {locConstants.executionPlan.noRowCountSkews}
+                </div>
+            ) : (
+                <Table
+                    size="extra-small"
+                    aria-label={locConstants.executionPlan.rowCountSkews}
+                >
+                    <TableHeader>
+                        <TableRow>
+                            <TableHeaderCell>
+                                {locConstants.executionPlan.operator}
+                            </TableHeaderCell>
+                            <TableHeaderCell>
+                                {locConstants.executionPlan.actualRows}
+                            </TableHeaderCell>
+                            <TableHeaderCell>
+                                {locConstants.executionPlan.estimatedRows}
+                            </TableHeaderCell>
+                            <TableHeaderCell>
+                                {locConstants.executionPlan.skew}
+                            </TableHeaderCell>
+                            <TableHeaderCell>
+                                {locConstants.executionPlan.likelyCause}
+                            </TableHeaderCell>
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {skews.map((skew) => (
+                            <TableRow
+                                key={skew.node.id}
+                                className={
+                                    skew.node.id === selectedNodeId
+                                        ? `${classes.tableRow} ${classes.selectedRow}`
+                                        : classes.tableRow
+                                }
+                                onClick={() => {
+                                    setSelectedNodeId(skew.node.id);
+                                    executionPlanView.selectElement(
+                                        skew.node,
+                                        true,
+                                    );
+                                }}
+                            >
+                                <TableCell className={classes.tableCell}>
+                                    {skew.node.name}
+                                </TableCell>
+                                <TableCell className={classes.tableCell}>
+                                    {skew.actualRows.toLocaleString()}
+                                </TableCell>
+                                <TableCell className={classes.tableCell}>
+                                    {skew.estimatedRows.toLocaleString()}
+                                </TableCell>
+                                <TableCell className={classes.tableCell}>
+                                    {getSkewDescription(skew)}
+                                </TableCell>
+                                <TableCell className={classes.tableCell}>
+                                    {getLikelyCause(skew)}
+                                </TableCell>
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,258 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import "./executionPlan.css";
+
+import * as ep from "./executionPlanInterfaces";
+import * as utils from "./queryPlanSetup";
+
+import {
+    Button,
+    DataGrid,
+    DataGridBody,
+    DataGridCell,
+    DataGridHeader,
+    DataGridHeaderCell,
+    DataGridRow,
+    TableCellLayout,
+    TableColumnDefinition,
+    createTableColumn,
+    makeStyles,
+    tokens,
+} from "@fluentui/react-components";
+import { Dismiss12Regular } from "@fluentui/react-icons";
+import { useMemo, useState } from "react";
+
+import { ExecutionPlanView } from "./executionPlanView";
+import { locConstants } from "../../common/locConstants";
+
+const useStyles = makeStyles({
+    paneContainer: {
+        height: "100%",
+        width: "100%",
+        overflow: "auto",
+    },
+    header: {
+        fontWeight: "bold",
+        fontSize: "12px",
+        padding: "4px",
+        display: "flex",
+        justifyContent: "space-between",
+        alignItems: "center",
+        position: "sticky",
+        top: 0,
+        zIndex: 1,
+    },
+    tableHeader: {
+        fontWeight: "bold",
+        fontSize: "12px",
+    },
+    tableRow: {
+        height: "25px",
+        cursor: "pointer",
+    },
+    selectedRow: {
+        backgroundColor: tokens.colorNeutralBackground1Selected,
+    },
+    tableCell: {
+        overflow: "hidden",
+        fontSize: "12px",
+    },
+    textContainer: {
+        whiteSpace: "nowrap",
+    },
+    badge: {
+        height: "12px",
+        width: "12px",
+        marginRight: "2px",
+    },
+    dismissButton: {
+        width: "12px",
+        height: "12px",
+        border: "none",
+        outline: "none",
+        marginRight: "4px",
+    },
+});
+
+const badgePaths = utils.getBadgePaths();
+
+const getBadgePath = (badge: ep.ExecutionPlanBadge): string => {
+    switch (badge.type) {
+        case ep.BadgeType.Warning:
+            return badgePaths.warning;
+        case ep.BadgeType.CriticalWarning:
+            return badgePaths.criticalWarning;
+        default:
+            return badgePaths.parallelism;
+    }
+};
+
+/**
+ * Sorts the undefined values of a metric before the others
+ */
+const compareMetric = (a: number | undefined, b: number | undefined) =>
+    (a ?? -1) - (b ?? -1);
+
+interface TopOperatorsProps {
+    executionPlanView: ExecutionPlanView;
+    setTopOperatorsClicked: (clicked: boolean) => void;
+}
+
+/**
+ * Lists the operators of the plan with their metrics in a sortable grid
+ */
+export const TopOperators: React.FC<TopOperatorsProps> = ({
+    executionPlanView,
+    setTopOperatorsClicked,
+}) => {
+    const classes = useStyles();
+    const [selectedNodeId, setSelectedNodeId] = useState<string | undefined>(
+        undefined,
+    );
+    const items = useMemo(
+        () => executionPlanView.getTopOperationsData(),
+        [executionPlanView],
+    );
+
+    const metricColumn = (
+        columnId: keyof ep.TopOperationsDataItem,
+        header: string,
+    ) =>
+        createTableColumn<ep.TopOperationsDataItem>({
+            columnId: columnId,
+            compare: (a, b) =>
+                compareMetric(
+                    a[columnId] as number | undefined,
+                    b[columnId] as number | undefined,
+                ),
+            renderHeaderCell: () => header,
+            renderCell: (item) => (
+                <TableCellLayout truncate className={classes.textContainer}>
+                    {item[columnId]?.toLocaleString() ?? ""}
+                </TableCellLayout>
+            ),
+        });
+
+    const columns: TableColumnDefinition<ep.TopOperationsDataItem>[] = [
+        createTableColumn<ep.TopOperationsDataItem>({
+            columnId: "operator",
+            compare: (a, b) => a.node.name.localeCompare(b.node.name),
+            renderHeaderCell: () => locConstants.executionPlan.operator,
+            renderCell: (item) => (
+                <TableCellLayout
+                    truncate
+                    className={classes.textContainer}
+                    title={item.node.subtext?.join(" ")}
+                >
+                    {item.node.name}
+                </TableCellLayout>
+            ),
+        }),
+        metricColumn("cost", locConstants.executionPlan.cost),
+        metricColumn("subtreeCost", locConstants.executionPlan.subtreeCost),
+        metricColumn("actualRows", locConstants.executionPlan.actualRows),
+        metricColumn("estimatedRows", locConstants.executionPlan.estimatedRows),
+        metricColumn(
+            "elapsedTimeInMs",
+            locConstants.executionPlan.elapsedTimeInMs,
+        ),
+        metricColumn(
+            "elapsedCpuTimeInMs",
+            locConstants.executionPlan.elapsedCpuTimeInMs,
+        ),
+        createTableColumn<ep.TopOperationsDataItem>({
+            columnId: "warnings",
+            compare: (a, b) =>
+                (a.node.badges?.length ?? 0) - (b.node.badges?.length ?? 0),
+            renderHeaderCell: () => locConstants.executionPlan.warnings,
+            renderCell: (item) => (
+                <TableCellLayout truncate className={classes.textContainer}>
+                    {item.node.badges?.map((badge, index) => (
+                        <img
+                            key={index}
+                            className={classes.badge}
+                            src={getBadgePath(badge)}
+                            title={badge.tooltip}
+                            alt={badge.tooltip}
+                        />
+                    ))}
+                </TableCellLayout>
+            ),
+        }),
+    ];
+
+    return (
+        <div
+            className={classes.paneContainer}
+            style={{
+                background: tokens.colorNeutralBackground2,
+                borderTop: `0.5px solid ${tokens.colorNeutralStroke1}`,
+            }}
+        >
+            <div
+                className={classes.header}
+                style={{
+                    background: tokens.colorNeutralBackground2,
+                }}
+            >
+                <div>{locConstants.executionPlan.topOperators}</div>
+                <Button
+                    className={classes.dismissButton}
+                    style={{
+                        background: tokens.colorNeutralBackground2,
+                    }}
+                    onClick={() => setTopOperatorsClicked(false)}
+                    icon={<Dismiss12Regular />}
+                    aria-label={locConstants.common.close}
+                />
+            </div>
+            <DataGrid
+                items={items}
+                columns={columns}
+                getRowId={(item) => item.node.id}
+                sortable
+                focusMode="composite"
+                resizableColumns={true}
+                size="small"
+            >
+                <DataGridHeader>
+                    <DataGridRow>
+                        {({ renderHeaderCell }) => (
+                            <DataGridHeaderCell className={classes.tableHeader}>
+                                {renderHeaderCell()}
+                            </DataGridHeaderCell>
+                        )}
+                    </DataGridRow>
+                </DataGridHeader>
+                <DataGridBody<ep.TopOperationsDataItem>>
+                    {({ item, rowId }) => (
+                        <DataGridRow<ep.TopOperationsDataItem>
+                            key={rowId}
+                            className={
+                                item.node.id === selectedNodeId
+                                    ? `${classes.tableRow} ${classes.selectedRow}`
+                                    : classes.tableRow
+                            }
+                            onClick={() => {
+                                setSelectedNodeId(item.node.id);
+                                executionPlanView.selectElement(
+                                    item.node,
+                                    true,
+                                );
+                            }}
+                        >
+                            {({ renderCell }) => (
+                                <DataGridCell className={classes.tableCell}>
+                                    {renderCell(item)}
+                                </DataGridCell>
+                            )}
+                        </DataGridRow>
+                    )}
+                </DataGridBody>
+            </DataGrid>
+        </div>
+    );
+};
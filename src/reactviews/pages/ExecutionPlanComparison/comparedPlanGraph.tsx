@@ -0,0 +1,172 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import "azdataGraph/src/css/common.css";
+import "azdataGraph/src/css/explorer.css";
+import "../ExecutionPlan/executionPlan.css";
+
+import * as azdataGraph from "azdataGraph";
+import * as utils from "../ExecutionPlan/queryPlanSetup";
+
+import { Text, makeStyles, tokens } from "@fluentui/react-components";
+import { useContext, useEffect, useState } from "react";
+
+import { ComparedExecutionPlan } from "../../../sharedInterfaces/executionPlanComparison";
+import { ExecutionPlanComparisonContext } from "./executionPlanComparisonStateProvider";
+import { ExecutionPlanView } from "../ExecutionPlan/executionPlanView";
+import { locConstants } from "../../common/locConstants";
+
+// colors used to outline the matching regions, indexed by the region's group index
+const regionColors = [
+    { fill: "rgba(0, 122, 204, 0.15)", border: "#007acc" },
+    { fill: "rgba(104, 33, 122, 0.15)", border: "#68217a" },
+    { fill: "rgba(22, 130, 93, 0.15)", border: "#16825d" },
+    { fill: "rgba(202, 80, 16, 0.15)", border: "#ca5010" },
+    { fill: "rgba(197, 15, 31, 0.15)", border: "#c50f1f" },
+    { fill: "rgba(152, 111, 11, 0.15)", border: "#986f0b" },
+];
+
+const useStyles = makeStyles({
+    planContainer: {
+        display: "flex",
+        flexDirection: "column",
+        height: "100%",
+        width: "100%",
+        minWidth: 0,
+    },
+    planHeader: {
+        display: "flex",
+        flexDirection: "column",
+        padding: "5px",
+    },
+    queryPlanParent: {
+        flexGrow: 1,
+        width: "100%",
+        overflow: "auto",
+    },
+});
+
+interface ComparedPlanGraphProps {
+    plan: ComparedExecutionPlan;
+    /**
+     * Position of the plan in the comparison, used to build unique element ids
+     */
+    planIndex: number;
+    /**
+     * Id of the node selected in the operator cost table
+     */
+    selectedNodeId?: string;
+}
+
+export const ComparedPlanGraph: React.FC<ComparedPlanGraphProps> = ({
+    plan,
+    planIndex,
+    selectedNodeId,
+}) => {
+    const classes = useStyles();
+    const context = useContext(ExecutionPlanComparisonContext);
+    const highlightMatchingRegions =
+        context?.state?.highlightMatchingRegions ?? false;
+    const [executionPlanView, setExecutionPlanView] = useState<
+        ExecutionPlanView | undefined
+    >(undefined);
+    const containerId = `comparedPlanParent${planIndex + 1}`;
+
+    useEffect(() => {
+        if (!plan.graph) {
+            return;
+        }
+
+        // @ts-ignore
+        window["mxLoadResources"] = false;
+        // @ts-ignore
+        window["mxForceIncludes"] = false;
+        // @ts-ignore
+        window["mxResourceExtension"] = ".txt";
+        // @ts-ignore
+        window["mxLoadStylesheets"] = false;
+        // @ts-ignore
+        window["mxBasePath"] = "./src/reactviews/pages/ExecutionPlan/mxgraph";
+
+        const mxClient = azdataGraph.default();
+
+        const div = document.getElementById(containerId)!;
+        // the plans are swapped in place, so remove the previously drawn plan
+        div.innerHTML = "";
+
+        const view = new ExecutionPlanView(plan.graph.root);
+        const pen = new mxClient.azdataQueryPlan({
+            container: div,
+            queryPlanGraph: view.populate(plan.graph.root),
+            iconPaths: utils.getIconPaths(),
+            badgeIconPaths: utils.getBadgePaths(),
+            expandCollapsePaths: utils.getCollapseExpandPaths(
+                context!.themeKind,
+            ),
+            showTooltipOnClick: true,
+        });
+        pen.setTextFontColor("var(--vscode-editor-foreground)");
+        pen.setEdgeColor("var(--vscode-editor-foreground)");
+        // collapsing nodes would hide the drawn regions
+        pen.disableNodeCollapse(true);
+
+        view.setDiagram(pen);
+        setExecutionPlanView(view);
+    }, [plan.graph]);
+
+    useEffect(() => {
+        if (!executionPlanView) {
+            return;
+        }
+        executionPlanView.clearSubtreePolygon();
+        if (!highlightMatchingRegions) {
+            return;
+        }
+        for (const region of plan.matchingRegions) {
+            const color = regionColors[region.groupIndex % regionColors.length];
+            executionPlanView.drawSubtreePolygon(
+                region.nodeId,
+                color.fill,
+                color.border,
+            );
+        }
+    }, [executionPlanView, highlightMatchingRegions, plan.matchingRegions]);
+
+    useEffect(() => {
+        if (!executionPlanView || selectedNodeId === undefined) {
+            return;
+        }
+        const element = executionPlanView.getElementById(
+            `element-${selectedNodeId}`,
+        );
+        if (element) {
+            executionPlanView.selectElement(element, true);
+        }
+    }, [executionPlanView, selectedNodeId]);
+
+    const planCost = plan.graph
+        ? plan.graph.root.cost + plan.graph.root.subTreeCost
+        : 0;
+
+    return (
+        <div className={classes.planContainer}>
+            <div
+                className={classes.planHeader}
+                style={{ background: tokens.colorNeutralBackground2 }}
+            >
+                <Text weight="semibold">{plan.title}</Text>
+                <Text size={200}>
+                    {locConstants.executionPlanComparison.planCost(
+                        planCost.toFixed(4),
+                    )}
+                </Text>
+                <Text size={200} truncate wrap={false}>
+                    {plan.graph?.query}
+                </Text>
+            </div>
+            <div id={containerId} className={classes.queryPlanParent}></div>
+        </div>
+    );
+};
@@ -0,0 +1,160 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import {
+    Spinner,
+    Text,
+    Toolbar,
+    ToolbarButton,
+    makeStyles,
+    tokens,
+} from "@fluentui/react-components";
+import {
+    ArrowSwap20Regular,
+    ErrorCircleRegular,
+    Highlight20Regular,
+} from "@fluentui/react-icons";
+import { useContext, useEffect, useState } from "react";
+
+import { ApiStatus } from "../../../sharedInterfaces/webview";
+import { ComparedPlanGraph } from "./comparedPlanGraph";
+import { ExecutionPlanComparisonContext } from "./executionPlanComparisonStateProvider";
+import { OperatorCostDelta } from "../../../sharedInterfaces/executionPlanComparison";
+import { OperatorCostTable } from "./operatorCostTable";
+import { locConstants } from "../../common/locConstants";
+
+const useStyles = makeStyles({
+    outerDiv: {
+        height: "100%",
+        width: "100%",
+        display: "flex",
+        flexDirection: "column",
+        fontFamily: tokens.fontFamilyBase,
+    },
+    plansContainer: {
+        display: "flex",
+        flexDirection: "row",
+        flexGrow: 1,
+        minHeight: "300px",
+        gap: "4px",
+    },
+    costTableContainer: {
+        height: "35%",
+        borderTop: `1px solid ${tokens.colorNeutralStroke2}`,
+    },
+    spinnerDiv: {
+        height: "100%",
+        width: "100%",
+        display: "flex",
+        justifyContent: "center",
+        alignItems: "center",
+        flexDirection: "column",
+        padding: "20px",
+    },
+    errorIcon: {
+        fontSize: "100px",
+        opacity: 0.5,
+    },
+});
+
+export const ExecutionPlanComparisonPage = () => {
+    const classes = useStyles();
+    const context = useContext(ExecutionPlanComparisonContext);
+    const state = context?.state;
+    const loadState = state?.loadState ?? ApiStatus.Loading;
+    const [selectedDelta, setSelectedDelta] = useState<
+        OperatorCostDelta | undefined
+    >(undefined);
+
+    useEffect(() => {
+        if (
+            context &&
+            state &&
+            // checks if the plans have already been compared
+            state.loadState === ApiStatus.Loading &&
+            !state.firstPlan?.graph
+        ) {
+            context.compareExecutionPlans();
+        }
+    }, [state]);
+
+    useEffect(() => {
+        setSelectedDelta(undefined);
+    }, [state?.operatorDeltas]);
+
+    const renderMainContent = () => {
+        switch (loadState) {
+            case ApiStatus.Loading:
+                return (
+                    <div className={classes.spinnerDiv}>
+                        <Spinner
+                            label={
+                                locConstants.executionPlanComparison
+                                    .loadingComparison
+                            }
+                            labelPosition="below"
+                        />
+                    </div>
+                );
+            case ApiStatus.Loaded:
+                return (
+                    <>
+                        <Toolbar size="small">
+                            <ToolbarButton
+                                icon={<ArrowSwap20Regular />}
+                                onClick={() => context?.swapPlans()}
+                            >
+                                {locConstants.executionPlanComparison.swapPlans}
+                            </ToolbarButton>
+                            <ToolbarButton
+                                icon={<Highlight20Regular />}
+                                appearance={
+                                    state!.highlightMatchingRegions
+                                        ? "primary"
+                                        : "subtle"
+                                }
+                                onClick={() => context?.toggleMatchingRegions()}
+                            >
+                                {
+                                    locConstants.executionPlanComparison
+                                        .highlightMatchingRegions
+                                }
+                            </ToolbarButton>
+                        </Toolbar>
+                        <div className={classes.plansContainer}>
+                            <ComparedPlanGraph
+                                plan={state!.firstPlan!}
+                                planIndex={0}
+                                selectedNodeId={selectedDelta?.firstNodeId}
+                            />
+                            <ComparedPlanGraph
+                                plan={state!.secondPlan!}
+                                planIndex={1}
+                                selectedNodeId={selectedDelta?.secondNodeId}
+                            />
+                        </div>
+                        <div className={classes.costTableContainer}>
+                            <OperatorCostTable
+                                deltas={state!.operatorDeltas}
+                                firstPlanTitle={state!.firstPlan!.title}
+                                secondPlanTitle={state!.secondPlan!.title}
+                                selectedDelta={selectedDelta}
+                                onSelect={setSelectedDelta}
+                            />
+                        </div>
+                    </>
+                );
+            case ApiStatus.Error:
+                return (
+                    <div className={classes.spinnerDiv}>
+                        <ErrorCircleRegular className={classes.errorIcon} />
+                        <Text size={400}>{state?.errorMessage ?? ""}</Text>
+                    </div>
+                );
+        }
+    };
+
+    return <div className={classes.outerDiv}>{renderMainContent()}</div>;
+};
@@ -0,0 +1,75 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import {
+    ColorThemeKind,
+    useVscodeWebview,
+} from "../../common/vscodeWebviewProvider";
+import { ReactNode, createContext } from "react";
+import {
+    ExecutionPlanComparisonReducers,
+    ExecutionPlanComparisonWebviewState,
+} from "../../../sharedInterfaces/executionPlanComparison";
+
+export interface ExecutionPlanComparisonContextProps {
+    state: ExecutionPlanComparisonWebviewState;
+    themeKind: ColorThemeKind;
+    /**
+     * Loads both plans and compares them
+     */
+    compareExecutionPlans(): void;
+    /**
+     * Swaps the left and right plans
+     */
+    swapPlans(): void;
+    /**
+     * Shows or hides the highlighting of the matching regions
+     */
+    toggleMatchingRegions(): void;
+}
+
+const ExecutionPlanComparisonContext = createContext<
+    ExecutionPlanComparisonContextProps | undefined
+>(undefined);
+
+interface ExecutionPlanComparisonProviderProps {
+    children: ReactNode;
+}
+
+const ExecutionPlanComparisonStateProvider: React.FC<
+    ExecutionPlanComparisonProviderProps
+> = ({ children }) => {
+    const webviewState = useVscodeWebview<
+        ExecutionPlanComparisonWebviewState,
+        ExecutionPlanComparisonReducers
+    >();
+    return (
+        <ExecutionPlanComparisonContext.Provider
+            value={{
+                state: webviewState?.state,
+                themeKind: webviewState?.themeKind,
+                compareExecutionPlans: function (): void {
+                    webviewState?.extensionRpc.action(
+                        "compareExecutionPlans",
+                        {},
+                    );
+                },
+                swapPlans: function (): void {
+                    webviewState?.extensionRpc.action("swapPlans", {});
+                },
+                toggleMatchingRegions: function (): void {
+                    webviewState?.extensionRpc.action(
+                        "toggleMatchingRegions",
+                        {},
+                    );
+                },
+            }}
+        >
+            {children}
+        </ExecutionPlanComparisonContext.Provider>
+    );
+};
+
+export { ExecutionPlanComparisonContext, ExecutionPlanComparisonStateProvider };
@@ -0,0 +1,148 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHeader,
+    TableHeaderCell,
+    TableRow,
+    makeStyles,
+    tokens,
+} from "@fluentui/react-components";
+
+import { OperatorCostDelta } from "../../../sharedInterfaces/executionPlanComparison";
+import { locConstants } from "../../common/locConstants";
+
+const useStyles = makeStyles({
+    tableContainer: {
+        overflow: "auto",
+        height: "100%",
+    },
+    row: {
+        cursor: "pointer",
+    },
+});
+
+interface OperatorCostTableProps {
+    deltas: OperatorCostDelta[];
+    firstPlanTitle: string;
+    secondPlanTitle: string;
+    selectedDelta?: OperatorCostDelta;
+    onSelect: (delta: OperatorCostDelta) => void;
+}
+
+const formatCost = (cost: number | undefined): string =>
+    cost === undefined ? "" : cost.toFixed(4);
+
+const formatDelta = (delta: number | undefined): string => {
+    if (delta === undefined) {
+        return locConstants.executionPlanComparison.noMatch;
+    }
+    return `${delta > 0 ? "+" : ""}${delta.toFixed(4)}`;
+};
+
+const getDeltaColor = (delta: number | undefined): string | undefined => {
+    if (!delta) {
+        return undefined;
+    }
+    return delta > 0
+        ? tokens.colorPaletteRedForeground1
+        : tokens.colorPaletteGreenForeground1;
+};
+
+export const OperatorCostTable: React.FC<OperatorCostTableProps> = ({
+    deltas,
+    firstPlanTitle,
+    secondPlanTitle,
+    selectedDelta,
+    onSelect,
+}) => {
+    const classes = useStyles();
+
+    // largest changes first, operators without a match last
+    const sortedDeltas = [...deltas].sort((a, b) => {
+        if (a.costDelta === undefined || b.costDelta === undefined) {
+            return (
+                Number(a.costDelta === undefined) -
+                Number(b.costDelta === undefined)
+            );
+        }
+        return Math.abs(b.costDelta) - Math.abs(a.costDelta);
+    });
+
+    return (
+        <div className={classes.tableContainer}>
+            <Table
+                size="extra-small"
+                aria-label={
+                    locConstants.executionPlanComparison.operatorCostDeltas
+                }
+            >
+                <TableHeader>
+                    <TableRow>
+                        <TableHeaderCell>
+                            {locConstants.executionPlanComparison.operator}
+                        </TableHeaderCell>
+                        <TableHeaderCell>
+                            {locConstants.executionPlanComparison.costColumn(
+                                firstPlanTitle,
+                            )}
+                        </TableHeaderCell>
+                        <TableHeaderCell>
+                            {locConstants.executionPlanComparison.costColumn(
+                                secondPlanTitle,
+                            )}
+                        </TableHeaderCell>
+                        <TableHeaderCell>
+                            {locConstants.executionPlanComparison.costDelta}
+                        </TableHeaderCell>
+                        <TableHeaderCell>
+                            {
+                                locConstants.executionPlanComparison
+                                    .subtreeCostDelta
+                            }
+                        </TableHeaderCell>
+                    </TableRow>
+                </TableHeader>
+                <TableBody>
+                    {sortedDeltas.map((delta) => (
+                        <TableRow
+                            key={`${delta.firstNodeId ?? ""}-${delta.secondNodeId ?? ""}`}
+                            className={classes.row}
+                            onClick={() => onSelect(delta)}
+                            appearance={
+                                delta === selectedDelta ? "brand" : "none"
+                            }
+                        >
+                            <TableCell>{delta.operator}</TableCell>
+                            <TableCell>{formatCost(delta.firstCost)}</TableCell>
+                            <TableCell>
+                                {formatCost(delta.secondCost)}
+                            </TableCell>
+                            <TableCell
+                                style={{
+                                    color: getDeltaColor(delta.costDelta),
+                                }}
+                            >
+                                {formatDelta(delta.costDelta)}
+                            </TableCell>
+                            <TableCell
+                                style={{
+                                    color: getDeltaColor(
+                                        delta.subtreeCostDelta,
+                                    ),
+                                }}
+                            >
+                                {formatDelta(delta.subtreeCostDelta)}
+                            </TableCell>
+                        </TableRow>
+                    ))}
+                </TableBody>
+            </Table>
+        </div>
+    );
+};
@@ -0,0 +1,444 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import {
+    Button,
+    Dropdown,
+    Field,
+    MessageBar,
+    MessageBarBody,
+    MessageBarTitle,
+    Option,
+    Spinner,
+    Table,
+    TableBody,
+    TableCell,
+    TableHeader,
+    TableHeaderCell,
+    TableRow,
+    Text,
+    makeStyles,
+    tokens,
+} from "@fluentui/react-components";
+import {
+    ArrowImport20Regular,
+    DocumentArrowUp20Regular,
+    ErrorCircleRegular,
+} from "@fluentui/react-icons";
+import { useContext } from "react";
+
+import { ApiStatus } from "../../../sharedInterfaces/webview";
+import { FlatFileImportContext } from "./flatFileImportStateProvider";
+import { locConstants } from "../../common/locConstants";
+
+const useStyles = makeStyles({
+    outerDiv: {
+        height: "100%",
+        width: "100%",
+        display: "flex",
+        flexDirection: "column",
+        gap: "8px",
+        padding: "8px",
+        boxSizing: "border-box",
+        fontFamily: tokens.fontFamilyBase,
+    },
+    header: {
+        display: "flex",
+        flexDirection: "row",
+        alignItems: "flex-end",
+        gap: "16px",
+    },
+    fileField: {
+        display: "flex",
+        flexDirection: "row",
+        alignItems: "center",
+        gap: "8px",
+    },
+    section: {
+        display: "flex",
+        flexDirection: "column",
+        gap: "4px",
+        minHeight: 0,
+    },
+    mappingsSection: {
+        maxHeight: "40%",
+    },
+    previewSection: {
+        flexGrow: 1,
+    },
+    tableContainer: {
+        overflow: "auto",
+        border: `1px solid ${tokens.colorNeutralStroke2}`,
+    },
+    previewCell: {
+        whiteSpace: "nowrap",
+        maxWidth: "300px",
+        overflow: "hidden",
+        textOverflow: "ellipsis",
+    },
+    invalidCell: {
+        color: tokens.colorPaletteRedForeground1,
+        fontWeight: tokens.fontWeightSemibold,
+    },
+    nullValue: {
+        fontStyle: "italic",
+        opacity: 0.6,
+    },
+    spinnerDiv: {
+        height: "100%",
+        width: "100%",
+        display: "flex",
+        justifyContent: "center",
+        alignItems: "center",
+        flexDirection: "column",
+        padding: "20px",
+    },
+    errorIcon: {
+        fontSize: "100px",
+        opacity: 0.5,
+    },
+});
+
+const doNotImportValue = "-1";
+
+export const FlatFileImportPage = () => {
+    const classes = useStyles();
+    const context = useContext(FlatFileImportContext);
+    const state = context?.state;
+
+    if (!context || !state) {
+        return undefined;
+    }
+
+    if (state.loadStatus === ApiStatus.Error && !state.tables.length) {
+        return (
+            <div className={classes.spinnerDiv}>
+                <ErrorCircleRegular className={classes.errorIcon} />
+                <Text size={400}>{state.errorMessage ?? ""}</Text>
+            </div>
+        );
+    }
+
+    const isImporting = state.importStatus === ApiStatus.Loading;
+    const isLoading = state.loadStatus === ApiStatus.Loading;
+    const hasMappings = state.mappings.some((m) => m.fileColumn !== undefined);
+    const canImport =
+        !!state.table &&
+        state.rowCount > 0 &&
+        hasMappings &&
+        !isLoading &&
+        !isImporting &&
+        state.unmappedRequiredColumns.length === 0 &&
+        state.validationErrorCount === 0;
+    const tableKey = (schema: string, name: string) => `${schema}.${name}`;
+    const selectedTable = state.table
+        ? tableKey(state.table.schema, state.table.name)
+        : "";
+    // highlights the invalid values of the previewed rows
+    const invalidCells = new Set(
+        state.validationErrors.map((e) => `${e.row}:${e.fileColumn}`),
+    );
+
+    return (
+        <div className={classes.outerDiv}>
+            <div className={classes.header}>
+                <Field label={locConstants.flatFileImport.table} size="small">
+                    <Dropdown
+                        size="small"
+                        placeholder={locConstants.flatFileImport.selectTable}
+                        value={selectedTable}
+                        selectedOptions={selectedTable ? [selectedTable] : []}
+                        disabled={isImporting}
+                        onOptionSelect={(_event, data) => {
+                            const table = state.tables.find(
+                                (t) =>
+                                    tableKey(t.schema, t.name) ===
+                                    data.optionValue,
+                            );
+                            if (table) {
+                                context.selectTable(table);
+                            }
+                        }}
+                    >
+                        {state.tables.map((t) => (
+                            <Option
+                                key={tableKey(t.schema, t.name)}
+                                value={tableKey(t.schema, t.name)}
+                            >
+                                {tableKey(t.schema, t.name)}
+                            </Option>
+                        ))}
+                    </Dropdown>
+                </Field>
+                <Field label={locConstants.flatFileImport.file} size="small">
+                    <div className={classes.fileField}>
+                        <Button
+                            size="small"
+                            icon={<DocumentArrowUp20Regular />}
+                            disabled={isImporting}
+                            onClick={() => context.selectFile()}
+                        >
+                            {locConstants.flatFileImport.selectFile}
+                        </Button>
+                        <Text truncate wrap={false}>
+                            {state.fileName ??
+                                locConstants.flatFileImport.noFileSelected}
+                        </Text>
+                    </div>
+                </Field>
+                <Button
+                    size="small"
+                    appearance="primary"
+                    icon={<ArrowImport20Regular />}
+                    disabled={!canImport}
+                    onClick={() => context.importData()}
+                >
+                    {locConstants.flatFileImport.importData}
+                </Button>
+                {(isLoading || isImporting) && (
+                    <Spinner
+                        size="extra-tiny"
+                        label={
+                            isImporting
+                                ? locConstants.flatFileImport.importProgress(
+                                      state.importedRowCount,
+                                      state.rowCount,
+                                  )
+                                : locConstants.flatFileImport.loading
+                        }
+                    />
+                )}
+            </div>
+            {state.errorMessage && (
+                <MessageBar intent="error">
+                    <MessageBarBody>{state.errorMessage}</MessageBarBody>
+                </MessageBar>
+            )}
+            {state.importStatus === ApiStatus.Loaded && (
+                <MessageBar intent="success">
+                    <MessageBarBody>
+                        {locConstants.flatFileImport.importProgress(
+                            state.importedRowCount,
+                            state.rowCount,
+                        )}
+                    </MessageBarBody>
+                </MessageBar>
+            )}
+            {state.fileName && state.unmappedRequiredColumns.length > 0 && (
+                <MessageBar intent="warning">
+                    <MessageBarBody>
+                        {locConstants.flatFileImport.unmappedRequiredColumns(
+                            state.unmappedRequiredColumns.join(", "),
+                        )}
+                    </MessageBarBody>
+                </MessageBar>
+            )}
+            {state.validationErrorCount > 0 && (
+                <MessageBar intent="error" layout="multiline">
+                    <MessageBarBody>
+                        <MessageBarTitle>
+                            {locConstants.flatFileImport.validationErrors(
+                                state.validationErrorCount,
+                            )}
+                        </MessageBarTitle>
+                        {state.validationErrors.slice(0, 5).map((e) => (
+                            <div key={`${e.row}:${e.fileColumn}`}>
+                                {locConstants.flatFileImport.validationError(
+                                    e.row + 1,
+                                    e.targetColumn,
+                                    e.message,
+                                )}
+                            </div>
+                        ))}
+                    </MessageBarBody>
+                </MessageBar>
+            )}
+            {state.table && (
+                <div
+                    className={`${classes.section} ${classes.mappingsSection}`}
+                >
+                    <Text weight="semibold">
+                        {locConstants.flatFileImport.columnMappings}
+                    </Text>
+                    <div className={classes.tableContainer}>
+                        <Table size="extra-small">
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHeaderCell>
+                                        {
+                                            locConstants.flatFileImport
+                                                .targetColumn
+                                        }
+                                    </TableHeaderCell>
+                                    <TableHeaderCell>
+                                        {locConstants.flatFileImport.dataType}
+                                    </TableHeaderCell>
+                                    <TableHeaderCell>
+                                        {locConstants.flatFileImport.allowNulls}
+                                    </TableHeaderCell>
+                                    <TableHeaderCell>
+                                        {locConstants.flatFileImport.fileColumn}
+                                    </TableHeaderCell>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {state.targetColumns.map((column, index) => {
+                                    const fileColumn =
+                                        state.mappings[index]?.fileColumn;
+                                    const value =
+                                        fileColumn === undefined
+                                            ? doNotImportValue
+                                            : fileColumn.toString();
+                                    return (
+                                        <TableRow key={column.name}>
+                                            <TableCell>{column.name}</TableCell>
+                                            <TableCell>
+                                                {column.dataType}
+                                            </TableCell>
+                                            <TableCell>
+                                                {column.allowNulls
+                                                    ? locConstants
+                                                          .flatFileImport.yes
+                                                    : locConstants
+                                                          .flatFileImport.no}
+                                            </TableCell>
+                                            <TableCell>
+                                                {column.isInsertable ? (
+                                                    <Dropdown
+                                                        size="small"
+                                                        value={
+                                                            fileColumn ===
+                                                            undefined
+                                                                ? locConstants
+                                                                      .flatFileImport
+                                                                      .doNotImport
+                                                                : state
+                                                                      .fileColumns[
+                                                                      fileColumn
+                                                                  ]
+                                                        }
+                                                        selectedOptions={[
+                                                            value,
+                                                        ]}
+                                                        disabled={
+                                                            isImporting ||
+                                                            !state.fileName
+                                                        }
+                                                        onOptionSelect={(
+                                                            _event,
+                                                            data,
+                                                        ) =>
+                                                            context.setColumnMapping(
+                                                                column.name,
+                                                                data.optionValue ===
+                                                                    doNotImportValue
+                                                                    ? undefined
+                                                                    : Number(
+                                                                          data.optionValue,
+                                                                      ),
+                                                            )
+                                                        }
+                                                    >
+                                                        <Option
+                                                            value={
+                                                                doNotImportValue
+                                                            }
+                                                        >
+                                                            {
+                                                                locConstants
+                                                                    .flatFileImport
+                                                                    .doNotImport
+                                                            }
+                                                        </Option>
+                                                        {state.fileColumns.map(
+                                                            (name, i) => (
+                                                                <Option
+                                                                    key={i}
+                                                                    value={i.toString()}
+                                                                >
+                                                                    {name}
+                                                                </Option>
+                                                            ),
+                                                        )}
+                                                    </Dropdown>
+                                                ) : (
+                                                    <Text italic>
+                                                        {
+                                                            locConstants
+                                                                .flatFileImport
+                                                                .notInsertable
+                                                        }
+                                                    </Text>
+                                                )}
+                                            </TableCell>
+                                        </TableRow>
+                                    );
+                                })}
+                            </TableBody>
+                        </Table>
+                    </div>
+                </div>
+            )}
+            {state.fileName && (
+                <div className={`${classes.section} ${classes.previewSection}`}>
+                    <Text weight="semibold">
+                        {`${locConstants.flatFileImport.preview} - ${locConstants.flatFileImport.previewRows(
+                            state.previewRows.length,
+                            state.rowCount,
+                        )}`}
+                    </Text>
+                    <div className={classes.tableContainer}>
+                        <Table size="extra-small">
+                            <TableHeader>
+                                <TableRow>
+                                    {state.fileColumns.map((name, i) => (
+                                        <TableHeaderCell key={i}>
+                                            {name}
+                                        </TableHeaderCell>
+                                    ))}
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {state.previewRows.map((row, rowIndex) => (
+                                    <TableRow key={rowIndex}>
+                                        {state.fileColumns.map((_name, i) => (
+                                            <TableCell
+                                                key={i}
+                                                className={`${classes.previewCell} ${
+                                                    invalidCells.has(
+                                                        `${rowIndex}:${i}`,
+                                                    )
+                                                        ? classes.invalidCell
+                                                        : ""
+                                                }`}
+                                                title={row[i] ?? ""}
+                                            >
+                                                {row[i] === undefined ? (
+                                                    <span
+                                                        className={
+                                                            classes.nullValue
+                                                        }
+                                                    >
+                                                        {
+                                                            locConstants
+                                                                .queryResult
+                                                                .null
+                                                        }
+                                                    </span>
+                                                ) : (
+                                                    row[i]
+                                                )}
+                                            </TableCell>
+                                        ))}
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,75 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import {
+    ColorThemeKind,
+    useVscodeWebview,
+} from "../../common/vscodeWebviewProvider";
+import { ReactNode, createContext } from "react";
+import {
+    FlatFileImportReducers,
+    FlatFileImportTable,
+    FlatFileImportWebviewState,
+} from "../../../sharedInterfaces/flatFileImport";
+
+export interface FlatFileImportContextProps {
+    state: FlatFileImportWebviewState;
+    themeKind: ColorThemeKind;
+    selectTable(table: FlatFileImportTable): void;
+    selectFile(): void;
+    /**
+     * Sets the file column the values of a table column are imported from, or leaves the
+     * table column out of the import when the file column is undefined
+     */
+    setColumnMapping(targetColumn: string, fileColumn?: number): void;
+    importData(): void;
+}
+
+const FlatFileImportContext = createContext<
+    FlatFileImportContextProps | undefined
+>(undefined);
+
+interface FlatFileImportProviderProps {
+    children: ReactNode;
+}
+
+const FlatFileImportStateProvider: React.FC<FlatFileImportProviderProps> = ({
+    children,
+}) => {
+    const webviewState = useVscodeWebview<
+        FlatFileImportWebviewState,
+        FlatFileImportReducers
+    >();
+    return (
+        <FlatFileImportContext.Provider
+            value={{
+                state: webviewState?.state,
+                themeKind: webviewState?.themeKind,
+                selectTable: function (table: FlatFileImportTable): void {
+                    webviewState?.extensionRpc.action("selectTable", table);
+                },
+                selectFile: function (): void {
+                    webviewState?.extensionRpc.action("selectFile", {});
+                },
+                setColumnMapping: function (
+                    targetColumn: string,
+                    fileColumn?: number,
+                ): void {
+                    webviewState?.extensionRpc.action("setColumnMapping", {
+                        targetColumn: targetColumn,
+                        fileColumn: fileColumn,
+                    });
+                },
+                importData: function (): void {
+                    webviewState?.extensionRpc.action("importData", {});
+                },
+            }}
+        >
+            {children}
+        </FlatFileImportContext.Provider>
+    );
+};
+
+export { FlatFileImportContext, FlatFileImportStateProvider };
@@ -0,0 +1,518 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import {
+    Button,
+    Checkbox,
+    Dropdown,
+    Field,
+    Link,
+    MessageBar,
+    MessageBarBody,
+    Option,
+    Radio,
+    RadioGroup,
+    Spinner,
+    Table,
+    TableBody,
+    TableCell,
+    TableHeader,
+    TableHeaderCell,
+    TableRow,
+    Text,
+    makeStyles,
+    tokens,
+} from "@fluentui/react-components";
+import {
+    DocumentArrowDown20Regular,
+    ErrorCircleRegular,
+} from "@fluentui/react-icons";
+import { useContext } from "react";
+
+import {
+    GenerateScriptsObjectType,
+    ScriptCompatibilityOption,
+    ScriptDataType,
+    ScriptDestination,
+    TargetDatabaseEngineEdition,
+} from "../../../sharedInterfaces/generateScripts";
+import { ApiStatus } from "../../../sharedInterfaces/webview";
+import { GenerateScriptsContext } from "./generateScriptsStateProvider";
+import { locConstants } from "../../common/locConstants";
+
+const useStyles = makeStyles({
+    outerDiv: {
+        height: "100%",
+        width: "100%",
+        display: "flex",
+        flexDirection: "column",
+        gap: "8px",
+        padding: "8px",
+        boxSizing: "border-box",
+        fontFamily: tokens.fontFamilyBase,
+    },
+    content: {
+        display: "flex",
+        flexDirection: "row",
+        gap: "16px",
+        flexGrow: 1,
+        minHeight: 0,
+    },
+    objectsSection: {
+        display: "flex",
+        flexDirection: "column",
+        gap: "8px",
+        flexGrow: 1,
+        minWidth: 0,
+    },
+    optionsSection: {
+        display: "flex",
+        flexDirection: "column",
+        gap: "8px",
+        width: "300px",
+        flexShrink: 0,
+    },
+    filters: {
+        display: "flex",
+        flexDirection: "row",
+        flexWrap: "wrap",
+        alignItems: "flex-start",
+        gap: "16px",
+    },
+    tableContainer: {
+        overflow: "auto",
+        flexGrow: 1,
+        border: `1px solid ${tokens.colorNeutralStroke2}`,
+    },
+    checkboxCell: {
+        width: "32px",
+    },
+    footer: {
+        display: "flex",
+        flexDirection: "row",
+        alignItems: "center",
+        gap: "8px",
+    },
+    spinnerDiv: {
+        height: "100%",
+        width: "100%",
+        display: "flex",
+        justifyContent: "center",
+        alignItems: "center",
+        flexDirection: "column",
+        padding: "20px",
+    },
+    errorIcon: {
+        fontSize: "100px",
+        opacity: 0.5,
+    },
+});
+
+const compatibilityVersions: Record<ScriptCompatibilityOption, string> = {
+    [ScriptCompatibilityOption.Script90Compat]: "2005",
+    [ScriptCompatibilityOption.Script100Compat]: "2008",
+    [ScriptCompatibilityOption.Script105Compat]: "2008 R2",
+    [ScriptCompatibilityOption.Script110Compat]: "2012",
+    [ScriptCompatibilityOption.Script120Compat]: "2014",
+    [ScriptCompatibilityOption.Script130Compat]: "2016",
+    [ScriptCompatibilityOption.Script140Compat]: "2017",
+    [ScriptCompatibilityOption.Script150Compat]: "2019",
+    [ScriptCompatibilityOption.Script160Compat]: "2022",
+};
+
+export const GenerateScriptsPage = () => {
+    const classes = useStyles();
+    const context = useContext(GenerateScriptsContext);
+    const state = context?.state;
+
+    if (!context || !state) {
+        return undefined;
+    }
+
+    if (state.loadStatus === ApiStatus.Loading) {
+        return (
+            <div className={classes.spinnerDiv}>
+                <Spinner label={locConstants.generateScripts.loading} />
+            </div>
+        );
+    }
+
+    if (state.loadStatus === ApiStatus.Error) {
+        return (
+            <div className={classes.spinnerDiv}>
+                <ErrorCircleRegular className={classes.errorIcon} />
+                <Text size={400}>{state.errorMessage ?? ""}</Text>
+            </div>
+        );
+    }
+
+    const loc = locConstants.generateScripts;
+    const options = state.options;
+    const isGenerating = state.generateStatus === ApiStatus.Loading;
+    const typeNames: Record<GenerateScriptsObjectType, string> = {
+        [GenerateScriptsObjectType.Table]: loc.tables,
+        [GenerateScriptsObjectType.View]: loc.views,
+        [GenerateScriptsObjectType.StoredProcedure]: loc.storedProcedures,
+        [GenerateScriptsObjectType.UserDefinedFunction]:
+            loc.userDefinedFunctions,
+    };
+    const editionNames: Record<TargetDatabaseEngineEdition, string> = {
+        [TargetDatabaseEngineEdition.SqlServerEnterpriseEdition]:
+            loc.sqlServerEnterpriseEdition,
+        [TargetDatabaseEngineEdition.SqlServerStandardEdition]:
+            loc.sqlServerStandardEdition,
+        [TargetDatabaseEngineEdition.SqlServerPersonalEdition]:
+            loc.sqlServerPersonalEdition,
+        [TargetDatabaseEngineEdition.SqlServerExpressEdition]:
+            loc.sqlServerExpressEdition,
+        [TargetDatabaseEngineEdition.SqlAzureDatabaseEdition]:
+            loc.sqlAzureDatabaseEdition,
+        [TargetDatabaseEngineEdition.SqlDatawarehouseEdition]:
+            loc.sqlDatawarehouseEdition,
+        [TargetDatabaseEngineEdition.SqlServerStretchEdition]:
+            loc.sqlServerStretchEdition,
+    };
+
+    // the objects of the included types and schemas, with their indexes in the objects of the database
+    const visibleObjects = state.objects
+        .map((object, index) => ({ object, index }))
+        .filter(
+            ({ object }) =>
+                options.includeTypes.includes(object.type) &&
+                options.includeSchemas.includes(object.schema),
+        );
+    const selectedCount = options.scriptEntireDatabase
+        ? visibleObjects.length
+        : visibleObjects.filter(({ index }) =>
+              options.selectedObjects.includes(index),
+          ).length;
+    const allSelected =
+        visibleObjects.length > 0 && selectedCount === visibleObjects.length;
+
+    const setObjectSelected = (index: number, selected: boolean) => {
+        context.setOptions({
+            selectedObjects: selected
+                ? [...options.selectedObjects, index]
+                : options.selectedObjects.filter((i) => i !== index),
+        });
+    };
+
+    const setAllSelected = (selected: boolean) => {
+        const visibleIndexes = visibleObjects.map(({ index }) => index);
+        context.setOptions({
+            selectedObjects: selected
+                ? [
+                      ...options.selectedObjects.filter(
+                          (i) => !visibleIndexes.includes(i),
+                      ),
+                      ...visibleIndexes,
+                  ]
+                : options.selectedObjects.filter(
+                      (i) => !visibleIndexes.includes(i),
+                  ),
+        });
+    };
+
+    return (
+        <div className={classes.outerDiv}>
+            <div className={classes.content}>
+                <div className={classes.objectsSection}>
+                    <Text weight="semibold">{loc.objectsToScript}</Text>
+                    <RadioGroup
+                        value={
+                            options.scriptEntireDatabase
+                                ? "database"
+                                : "objects"
+                        }
+                        disabled={isGenerating}
+                        onChange={(_event, data) =>
+                            context.setOptions({
+                                scriptEntireDatabase: data.value === "database",
+                            })
+                        }
+                    >
+                        <Radio
+                            value="database"
+                            label={loc.scriptEntireDatabase}
+                        />
+                        <Radio value="objects" label={loc.selectObjects} />
+                    </RadioGroup>
+                    <div className={classes.filters}>
+                        <Field label={loc.objectTypes} size="small">
+                            {Object.values(GenerateScriptsObjectType).map(
+                                (type) => (
+                                    <Checkbox
+                                        key={type}
+                                        label={typeNames[type]}
+                                        disabled={isGenerating}
+                                        checked={options.includeTypes.includes(
+                                            type,
+                                        )}
+                                        onChange={(_event, data) =>
+                                            context.setOptions({
+                                                includeTypes: data.checked
+                                                    ? [
+                                                          ...options.includeTypes,
+                                                          type,
+                                                      ]
+                                                    : options.includeTypes.filter(
+                                                          (t) => t !== type,
+                                                      ),
+                                            })
+                                        }
+                                    />
+                                ),
+                            )}
+                        </Field>
+                        <Field label={loc.schemas} size="small">
+                            <Dropdown
+                                size="small"
+                                multiselect
+                                disabled={isGenerating}
+                                value={options.includeSchemas.join(", ")}
+                                selectedOptions={options.includeSchemas}
+                                onOptionSelect={(_event, data) =>
+                                    context.setOptions({
+                                        includeSchemas: data.selectedOptions,
+                                    })
+                                }
+                            >
+                                {state.schemas.map((schema) => (
+                                    <Option key={schema} value={schema}>
+                                        {schema}
+                                    </Option>
+                                ))}
+                            </Dropdown>
+                        </Field>
+                    </div>
+                    {visibleObjects.length === 0 ? (
+                        <Text italic>{loc.noObjects}</Text>
+                    ) : (
+                        <div className={classes.tableContainer}>
+                            <Table size="extra-small">
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHeaderCell
+                                            className={classes.checkboxCell}
+                                        >
+                                            <Checkbox
+                                                aria-label={loc.selectAll}
+                                                disabled={
+                                                    isGenerating ||
+                                                    options.scriptEntireDatabase
+                                                }
+                                                checked={
+                                                    allSelected
+                                                        ? true
+                                                        : selectedCount > 0
+                                                          ? "mixed"
+                                                          : false
+                                                }
+                                                onChange={() =>
+                                                    setAllSelected(!allSelected)
+                                                }
+                                            />
+                                        </TableHeaderCell>
+                                        <TableHeaderCell>
+                                            {loc.name}
+                                        </TableHeaderCell>
+                                        <TableHeaderCell>
+                                            {loc.type}
+                                        </TableHeaderCell>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {visibleObjects.map(({ object, index }) => (
+                                        <TableRow key={index}>
+                                            <TableCell
+                                                className={classes.checkboxCell}
+                                            >
+                                                <Checkbox
+                                                    aria-label={`${object.schema}.${object.name}`}
+                                                    disabled={
+                                                        isGenerating ||
+                                                        options.scriptEntireDatabase
+                                                    }
+                                                    checked={
+                                                        options.scriptEntireDatabase ||
+                                                        options.selectedObjects.includes(
+                                                            index,
+                                                        )
+                                                    }
+                                                    onChange={(_event, data) =>
+                                                        setObjectSelected(
+                                                            index,
+                                                            !!data.checked,
+                                                        )
+                                                    }
+                                                />
+                                            </TableCell>
+                                            <TableCell>{`${object.schema}.${object.name}`}</TableCell>
+                                            <TableCell>
+                                                {typeNames[object.type]}
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </div>
+                    )}
+                </div>
+                <div className={classes.optionsSection}>
+                    <Text weight="semibold">{loc.scriptingOptions}</Text>
+                    <Field label={loc.typesOfDataToScript} size="small">
+                        <RadioGroup
+                            value={options.typeOfDataToScript}
+                            disabled={isGenerating}
+                            onChange={(_event, data) =>
+                                context.setOptions({
+                                    typeOfDataToScript:
+                                        data.value as ScriptDataType,
+                                })
+                            }
+                        >
+                            <Radio
+                                value={ScriptDataType.SchemaOnly}
+                                label={loc.schemaOnly}
+                            />
+                            <Radio
+                                value={ScriptDataType.DataOnly}
+                                label={loc.dataOnly}
+                            />
+                            <Radio
+                                value={ScriptDataType.SchemaAndData}
+                                label={loc.schemaAndData}
+                            />
+                        </RadioGroup>
+                    </Field>
+                    <Field label={loc.targetEngineEdition} size="small">
+                        <Dropdown
+                            size="small"
+                            disabled={isGenerating}
+                            value={
+                                editionNames[
+                                    options.targetDatabaseEngineEdition
+                                ]
+                            }
+                            selectedOptions={[
+                                options.targetDatabaseEngineEdition,
+                            ]}
+                            onOptionSelect={(_event, data) =>
+                                context.setOptions({
+                                    targetDatabaseEngineEdition:
+                                        data.optionValue as TargetDatabaseEngineEdition,
+                                })
+                            }
+                        >
+                            {Object.values(TargetDatabaseEngineEdition).map(
+                                (edition) => (
+                                    <Option key={edition} value={edition}>
+                                        {editionNames[edition]}
+                                    </Option>
+                                ),
+                            )}
+                        </Dropdown>
+                    </Field>
+                    <Field label={loc.compatibilityLevel} size="small">
+                        <Dropdown
+                            size="small"
+                            disabled={isGenerating}
+                            value={loc.sqlServerVersion(
+                                compatibilityVersions[
+                                    options.scriptCompatibilityOption
+                                ],
+                            )}
+                            selectedOptions={[
+                                options.scriptCompatibilityOption,
+                            ]}
+                            onOptionSelect={(_event, data) =>
+                                context.setOptions({
+                                    scriptCompatibilityOption:
+                                        data.optionValue as ScriptCompatibilityOption,
+                                })
+                            }
+                        >
+                            {Object.values(ScriptCompatibilityOption).map(
+                                (option) => (
+                                    <Option key={option} value={option}>
+                                        {loc.sqlServerVersion(
+                                            compatibilityVersions[option],
+                                        )}
+                                    </Option>
+                                ),
+                            )}
+                        </Dropdown>
+                    </Field>
+                    <Field label={loc.output} size="small">
+                        <RadioGroup
+                            value={options.destination}
+                            disabled={isGenerating}
+                            onChange={(_event, data) =>
+                                context.setOptions({
+                                    destination:
+                                        data.value as ScriptDestination,
+                                })
+                            }
+                        >
+                            <Radio
+                                value={ScriptDestination.ToSingleFile}
+                                label={loc.singleFile}
+                            />
+                            <Radio
+                                value={ScriptDestination.ToFilePerObject}
+                                label={loc.filePerObject}
+                            />
+                        </RadioGroup>
+                    </Field>
+                </div>
+            </div>
+            {state.generateStatus === ApiStatus.Error && (
+                <MessageBar intent="error">
+                    <MessageBarBody>{state.errorMessage ?? ""}</MessageBarBody>
+                </MessageBar>
+            )}
+            {state.generateStatus === ApiStatus.Loaded && state.outputPath && (
+                <MessageBar intent="success">
+                    <MessageBarBody>
+                        {loc.scriptsSaved(state.outputPath)}{" "}
+                        <Link onClick={() => context.openOutput()}>
+                            {loc.open}
+                        </Link>
+                    </MessageBarBody>
+                </MessageBar>
+            )}
+            <div className={classes.footer}>
+                <Button
+                    size="small"
+                    appearance="primary"
+                    icon={<DocumentArrowDown20Regular />}
+                    disabled={isGenerating || selectedCount === 0}
+                    onClick={() => context.generateScripts()}
+                >
+                    {loc.generateScripts}
+                </Button>
+                {isGenerating ? (
+                    <>
+                        <Button
+                            size="small"
+                            onClick={() => context.cancelGenerateScripts()}
+                        >
+                            {loc.cancel}
+                        </Button>
+                        <Spinner
+                            size="extra-tiny"
+                            label={loc.progress(
+                                state.scriptedObjectCount,
+                                state.totalObjectCount,
+                            )}
+                        />
+                    </>
+                ) : (
+                    <Text>{loc.selectedObjectCount(selectedCount)}</Text>
+                )}
+            </div>
+        </div>
+    );
+};
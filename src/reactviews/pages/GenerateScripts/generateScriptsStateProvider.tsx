@@ -0,0 +1,70 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import {
+    ColorThemeKind,
+    useVscodeWebview,
+} from "../../common/vscodeWebviewProvider";
+import { ReactNode, createContext } from "react";
+import {
+    GenerateScriptsOptions,
+    GenerateScriptsReducers,
+    GenerateScriptsWebviewState,
+} from "../../../sharedInterfaces/generateScripts";
+
+export interface GenerateScriptsContextProps {
+    state: GenerateScriptsWebviewState;
+    themeKind: ColorThemeKind;
+    setOptions(options: Partial<GenerateScriptsOptions>): void;
+    generateScripts(): void;
+    cancelGenerateScripts(): void;
+    openOutput(): void;
+}
+
+const GenerateScriptsContext = createContext<
+    GenerateScriptsContextProps | undefined
+>(undefined);
+
+interface GenerateScriptsProviderProps {
+    children: ReactNode;
+}
+
+const GenerateScriptsStateProvider: React.FC<GenerateScriptsProviderProps> = ({
+    children,
+}) => {
+    const webviewState = useVscodeWebview<
+        GenerateScriptsWebviewState,
+        GenerateScriptsReducers
+    >();
+    return (
+        <GenerateScriptsContext.Provider
+            value={{
+                state: webviewState?.state,
+                themeKind: webviewState?.themeKind,
+                setOptions: function (
+                    options: Partial<GenerateScriptsOptions>,
+                ): void {
+                    webviewState?.extensionRpc.action("setOptions", options);
+                },
+                generateScripts: function (): void {
+                    webviewState?.extensionRpc.action("generateScripts", {});
+                },
+                cancelGenerateScripts: function (): void {
+                    webviewState?.extensionRpc.action(
+                        "cancelGenerateScripts",
+                        {},
+                    );
+                },
+                openOutput: function (): void {
+                    webviewState?.extensionRpc.action("openOutput", {});
+                },
+            }}
+        >
+            {children}
+        </GenerateScriptsContext.Provider>
+    );
+};
+
+export { GenerateScriptsContext, GenerateScriptsStateProvider };
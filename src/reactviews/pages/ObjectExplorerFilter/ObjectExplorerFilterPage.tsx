@@ -32,7 +32,7 @@ import {
 import { useContext, useEffect, useState } from "react";
 import { ObjectExplorerFilterContext } from "./ObjectExplorerFilterStateProvider";
 import * as vscodeMssql from "vscode-mssql";
-import { EraserRegular } from "@fluentui/react-icons";
+import { DeleteRegular, EraserRegular } from "@fluentui/react-icons";
 import {
     NodeFilterOperator,
     NodeFilterPropertyDataType,
@@ -73,6 +73,12 @@ export const useStyles = makeStyles({
     andOrText: {
         marginLeft: "10px",
     },
+    presets: {
+        display: "flex",
+        flexDirection: "row",
+        alignItems: "center",
+        gap: "5px",
+    },
 });
 
 export const ObjectExplorerFilterPage = () => {
@@ -82,6 +88,10 @@ export const ObjectExplorerFilterPage = () => {
         undefined,
     );
     const [uiFilters, setUiFilters] = useState<ObjectExplorerPageFilter[]>([]);
+    const [selectedPreset, setSelectedPreset] = useState<string | undefined>(
+        undefined,
+    );
+    const [presetName, setPresetName] = useState<string>("");
 
     const AND = locConstants.objectExplorerFiltering.and;
     const CONTAINS = locConstants.objectExplorerFiltering.contains;
@@ -258,6 +268,130 @@ export const ObjectExplorerFilterPage = () => {
         }
     }
 
+    function getUiFilters(
+        filters: vscodeMssql.NodeFilter[] | undefined,
+    ): ObjectExplorerPageFilter[] {
+        return (
+            provider?.state?.filterProperties?.map((value, index) => {
+                const filter = filters?.find((f) => f.name === value.name);
+                return {
+                    index: index,
+                    name: value.name,
+                    displayName: value.displayName,
+                    value: filter?.value ?? "",
+                    type: value.type,
+                    choices: getFilterChoices(value) ?? [],
+                    operatorOptions: getFilterOperators(value),
+                    selectedOperator:
+                        filter === undefined
+                            ? getFilterOperators(value)[0]
+                            : (getFilterOperatorString(filter?.operator) ?? ""),
+                    description: value.description,
+                };
+            }) ?? []
+        );
+    }
+
+    /**
+     * Converts the filters in the UI to node filters, leaving out the filters without a value
+     * @returns the node filters, or undefined if a filter is not valid
+     */
+    function getNodeFilters(): vscodeMssql.NodeFilter[] | undefined {
+        const filters: vscodeMssql.NodeFilter[] = uiFilters
+            .map((f) => {
+                let value = undefined;
+                switch (f.type) {
+                    case NodeFilterPropertyDataType.Boolean:
+                        if (f.value === "" || f.value === undefined) {
+                            value = undefined;
+                        } else {
+                            value =
+                                f.choices?.find(
+                                    (c) => c.displayName === f.value,
+                                )?.name ?? undefined;
+                        }
+                        break;
+                    case NodeFilterPropertyDataType.Number:
+                        if (
+                            f.selectedOperator === BETWEEN ||
+                            f.selectedOperator === NOT_BETWEEN
+                        ) {
+                            value = (f.value as string[]).map((v) => Number(v));
+                        } else {
+                            value = Number(f.value);
+                        }
+                        break;
+                    case NodeFilterPropertyDataType.String:
+                    case NodeFilterPropertyDataType.Date:
+                        value = f.value;
+                        break;
+                    case NodeFilterPropertyDataType.Choice:
+                        if (f.value === "" || f.value === undefined) {
+                            value = undefined;
+                        } else {
+                            value =
+                                f.choices?.find(
+                                    (c) => c.displayName === f.value,
+                                )?.name ?? undefined;
+                        }
+                        break;
+                }
+                return {
+                    name: f.name,
+                    value: value!,
+                    operator: getFilterOperatorEnum(f.selectedOperator),
+                };
+            })
+            .filter((f) => {
+                if (
+                    f.operator === NodeFilterOperator.Between ||
+                    f.operator === NodeFilterOperator.NotBetween
+                ) {
+                    return (
+                        (f.value as string[])[0] !== "" ||
+                        (f.value as string[])[1] !== ""
+                    );
+                }
+                return f.value !== "" && f.value !== undefined;
+            });
+
+        let errorText = "";
+        for (let filter of filters) {
+            if (
+                filter.operator === NodeFilterOperator.Between ||
+                filter.operator === NodeFilterOperator.NotBetween
+            ) {
+                let value1 = (filter.value as string[] | number[])[0];
+                let value2 = (filter.value as string[] | number[])[1];
+                if (!value1 && value2) {
+                    errorText =
+                        locConstants.objectExplorerFiltering.firstValueEmptyError(
+                            getFilterOperatorString(filter.operator)!,
+                            filter.name,
+                        );
+                } else if (!value2 && value1) {
+                    errorText =
+                        locConstants.objectExplorerFiltering.secondValueEmptyError(
+                            getFilterOperatorString(filter.operator)!,
+                            filter.name,
+                        );
+                } else if (value1 > value2) {
+                    errorText =
+                        locConstants.objectExplorerFiltering.firstValueLessThanSecondError(
+                            getFilterOperatorString(filter.operator)!,
+                            filter.name,
+                        );
+                }
+            }
+        }
+        if (errorText) {
+            setErrorMessage(errorText);
+            return undefined;
+        }
+        setErrorMessage(undefined);
+        return filters;
+    }
+
     useEffect(() => {
         function setIntialFocus() {
             const input = document.getElementById("input-0");
@@ -266,33 +400,10 @@ export const ObjectExplorerFilterPage = () => {
             }
         }
 
-        const loadUiFilters = () => {
-            setUiFilters(
-                provider?.state?.filterProperties?.map((value, index) => {
-                    const filter = provider?.state?.existingFilters?.find(
-                        (f) => f.name === value.name,
-                    );
-                    return {
-                        index: index,
-                        name: value.name,
-                        displayName: value.displayName,
-                        value: filter?.value ?? "",
-                        type: value.type,
-                        choices: getFilterChoices(value) ?? [],
-                        operatorOptions: getFilterOperators(value),
-                        selectedOperator:
-                            filter === undefined
-                                ? getFilterOperators(value)[0]
-                                : (getFilterOperatorString(filter?.operator) ??
-                                  ""),
-                        description: value.description,
-                    };
-                }) ?? [],
-            );
-        };
-
         setIntialFocus();
-        loadUiFilters();
+        setUiFilters(getUiFilters(provider?.state?.existingFilters));
+        setSelectedPreset(undefined);
+        setPresetName("");
         setErrorMessage(undefined);
     }, [provider?.state?.filterProperties]);
 
@@ -562,6 +673,87 @@ export const ObjectExplorerFilterPage = () => {
                     provider?.state?.nodePath!,
                 )}
             </Body1Strong>
+            <div className={classes.presets}>
+                <InfoLabel
+                    size="small"
+                    info={
+                        <>
+                            {
+                                locConstants.objectExplorerFiltering
+                                    .presetsDescription
+                            }
+                        </>
+                    }
+                >
+                    {locConstants.objectExplorerFiltering.presets}
+                </InfoLabel>
+                <Dropdown
+                    size="small"
+                    className={classes.operatorOptions}
+                    placeholder={
+                        locConstants.objectExplorerFiltering.selectPreset
+                    }
+                    value={selectedPreset ?? ""}
+                    selectedOptions={selectedPreset ? [selectedPreset] : []}
+                    onOptionSelect={(_e, d) => {
+                        const preset = provider.state?.presets?.find(
+                            (p) => p.name === d.optionValue,
+                        );
+                        if (preset) {
+                            setSelectedPreset(preset.name);
+                            setPresetName(preset.name);
+                            setUiFilters(getUiFilters(preset.filters));
+                            setErrorMessage(undefined);
+                        }
+                    }}
+                >
+                    {provider.state?.presets?.map((preset) => {
+                        return (
+                            <Option key={preset.name} value={preset.name}>
+                                {preset.name}
+                            </Option>
+                        );
+                    })}
+                </Dropdown>
+                <Tooltip
+                    content={locConstants.objectExplorerFiltering.deletePreset}
+                    relationship="label"
+                >
+                    <Button
+                        size="small"
+                        icon={<DeleteRegular />}
+                        disabled={!selectedPreset}
+                        onClick={() => {
+                            provider.deletePreset(selectedPreset!);
+                            setSelectedPreset(undefined);
+                        }}
+                    />
+                </Tooltip>
+                <Input
+                    size="small"
+                    className={classes.inputs}
+                    placeholder={
+                        locConstants.objectExplorerFiltering.presetName
+                    }
+                    value={presetName}
+                    onChange={(_e, d) => {
+                        setPresetName(d.value);
+                    }}
+                />
+                <Button
+                    size="small"
+                    disabled={!presetName.trim()}
+                    onClick={() => {
+                        const filters = getNodeFilters();
+                        if (filters) {
+                            provider.savePreset(presetName.trim(), filters);
+                            setSelectedPreset(presetName.trim());
+                        }
+                    }}
+                >
+                    {locConstants.objectExplorerFiltering.saveAsPreset}
+                </Button>
+            </div>
             {errorMessage && errorMessage !== "" && (
                 <MessageBar intent={"error"}>
                     <MessageBarBody>
@@ -656,121 +848,8 @@ export const ObjectExplorerFilterPage = () => {
                 <Button
                     appearance="primary"
                     onClick={() => {
-                        const filters: vscodeMssql.NodeFilter[] = uiFilters
-                            .map((f) => {
-                                let value = undefined;
-                                switch (f.type) {
-                                    case NodeFilterPropertyDataType.Boolean:
-                                        if (
-                                            f.value === "" ||
-                                            f.value === undefined
-                                        ) {
-                                            value = undefined;
-                                        } else {
-                                            value =
-                                                f.choices?.find(
-                                                    (c) =>
-                                                        c.displayName ===
-                                                        f.value,
-                                                )?.name ?? undefined;
-                                        }
-                                        break;
-                                    case NodeFilterPropertyDataType.Number:
-                                        if (
-                                            f.selectedOperator === BETWEEN ||
-                                            f.selectedOperator === NOT_BETWEEN
-                                        ) {
-                                            value = (f.value as string[]).map(
-                                                (v) => Number(v),
-                                            );
-                                        } else {
-                                            value = Number(f.value);
-                                        }
-                                        break;
-                                    case NodeFilterPropertyDataType.String:
-                                    case NodeFilterPropertyDataType.Date:
-                                        value = f.value;
-                                        break;
-                                    case NodeFilterPropertyDataType.Choice:
-                                        if (
-                                            f.value === "" ||
-                                            f.value === undefined
-                                        ) {
-                                            value = undefined;
-                                        } else {
-                                            value =
-                                                f.choices?.find(
-                                                    (c) =>
-                                                        c.displayName ===
-                                                        f.value,
-                                                )?.name ?? undefined;
-                                        }
-                                        break;
-                                }
-                                return {
-                                    name: f.name,
-                                    value: value!,
-                                    operator: getFilterOperatorEnum(
-                                        f.selectedOperator,
-                                    ),
-                                };
-                            })
-                            .filter((f) => {
-                                if (
-                                    f.operator === NodeFilterOperator.Between ||
-                                    f.operator === NodeFilterOperator.NotBetween
-                                ) {
-                                    return (
-                                        (f.value as string[])[0] !== "" ||
-                                        (f.value as string[])[1] !== ""
-                                    );
-                                }
-                                return f.value !== "" && f.value !== undefined;
-                            });
-
-                        let errorText = "";
-                        for (let filter of filters) {
-                            if (
-                                filter.operator ===
-                                    NodeFilterOperator.Between ||
-                                filter.operator ===
-                                    NodeFilterOperator.NotBetween
-                            ) {
-                                let value1 = (
-                                    filter.value as string[] | number[]
-                                )[0];
-                                let value2 = (
-                                    filter.value as string[] | number[]
-                                )[1];
-                                if (!value1 && value2) {
-                                    errorText =
-                                        locConstants.objectExplorerFiltering.firstValueEmptyError(
-                                            getFilterOperatorString(
-                                                filter.operator,
-                                            )!,
-                                            filter.name,
-                                        );
-                                } else if (!value2 && value1) {
-                                    errorText =
-                                        locConstants.objectExplorerFiltering.secondValueEmptyError(
-                                            getFilterOperatorString(
-                                                filter.operator,
-                                            )!,
-                                            filter.name,
-                                        );
-                                } else if (value1 > value2) {
-                                    errorText =
-                                        locConstants.objectExplorerFiltering.firstValueLessThanSecondError(
-                                            getFilterOperatorString(
-                                                filter.operator,
-                                            )!,
-                                            filter.name,
-                                        );
-                                }
-                            }
-                        }
-                        if (errorText) {
-                            setErrorMessage(errorText);
+                        const filters = getNodeFilters();
+                        if (!filters) {
                             return;
                         }
                         provider.submit(filters);
@@ -40,6 +40,17 @@ const ObjectExplorerFilterStateProvider: React.FC<
                         filters: filters,
                     });
                 },
+                savePreset: function (name, filters): void {
+                    webviewState?.extensionRpc.action("savePreset", {
+                        name: name,
+                        filters: filters,
+                    });
+                },
+                deletePreset: function (name): void {
+                    webviewState?.extensionRpc.action("deletePreset", {
+                        name: name,
+                    });
+                },
                 clearAllFilters: function (): void {},
                 cancel: function (): void {
                     webviewState?.extensionRpc.action("cancel", {});
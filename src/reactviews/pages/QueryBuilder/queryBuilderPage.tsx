@@ -0,0 +1,1023 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import {
+    Button,
+    Checkbox,
+    Dropdown,
+    Input,
+    Option,
+    Spinner,
+    Text,
+    makeStyles,
+    tokens,
+} from "@fluentui/react-components";
+import {
+    AddRegular,
+    DismissRegular,
+    ErrorCircleRegular,
+    EyeRegular,
+    OpenRegular,
+    PlayRegular,
+    SearchRegular,
+    TableRegular,
+} from "@fluentui/react-icons";
+import Editor from "@monaco-editor/react";
+import { DragEvent, useContext, useState } from "react";
+
+import {
+    ObjectExplorerDragObject,
+    QueryBuilderAggregate,
+    QueryBuilderColumnReference,
+    QueryBuilderJoinType,
+    QueryBuilderOperator,
+    QueryBuilderQuery,
+    QueryBuilderTable,
+    objectExplorerObjectsMimeType,
+} from "../../../sharedInterfaces/queryBuilder";
+import { ApiStatus } from "../../../sharedInterfaces/webview";
+import { locConstants } from "../../common/locConstants";
+import { resolveVscodeThemeType } from "../../common/utils";
+import { QueryBuilderContext } from "./queryBuilderStateProvider";
+
+const useStyles = makeStyles({
+    outerDiv: {
+        height: "100%",
+        width: "100%",
+        display: "flex",
+        flexDirection: "row",
+        fontFamily: tokens.fontFamilyBase,
+    },
+    objectsPane: {
+        width: "260px",
+        flexShrink: 0,
+        display: "flex",
+        flexDirection: "column",
+        gap: "8px",
+        padding: "8px",
+        boxSizing: "border-box",
+        borderRight: `1px solid ${tokens.colorNeutralStroke2}`,
+    },
+    objectList: {
+        flexGrow: 1,
+        minHeight: 0,
+        overflowY: "auto",
+    },
+    objectItem: {
+        display: "flex",
+        flexDirection: "row",
+        alignItems: "center",
+        gap: "4px",
+        padding: "2px 4px",
+        cursor: "pointer",
+        ":hover": {
+            backgroundColor: "var(--vscode-list-hoverBackground)",
+        },
+    },
+    objectName: {
+        flexGrow: 1,
+        overflow: "hidden",
+        textOverflow: "ellipsis",
+        whiteSpace: "nowrap",
+    },
+    mainPane: {
+        flexGrow: 1,
+        minWidth: 0,
+        display: "flex",
+        flexDirection: "column",
+    },
+    builder: {
+        flexGrow: 1,
+        minHeight: 0,
+        overflowY: "auto",
+        display: "flex",
+        flexDirection: "column",
+        gap: "16px",
+        padding: "8px",
+    },
+    section: {
+        display: "flex",
+        flexDirection: "column",
+        alignItems: "flex-start",
+        gap: "4px",
+    },
+    tables: {
+        display: "flex",
+        flexDirection: "row",
+        flexWrap: "wrap",
+        alignItems: "flex-start",
+        gap: "8px",
+    },
+    tableCard: {
+        display: "flex",
+        flexDirection: "column",
+        gap: "4px",
+        padding: "4px 8px 8px 8px",
+        minWidth: "200px",
+        maxWidth: "420px",
+        border: `1px solid ${tokens.colorNeutralStroke2}`,
+        borderRadius: tokens.borderRadiusMedium,
+    },
+    tableHeader: {
+        display: "flex",
+        flexDirection: "row",
+        alignItems: "center",
+        gap: "4px",
+    },
+    tableColumns: {
+        display: "flex",
+        flexDirection: "column",
+        maxHeight: "200px",
+        overflowY: "auto",
+    },
+    row: {
+        display: "flex",
+        flexDirection: "row",
+        flexWrap: "wrap",
+        alignItems: "center",
+        gap: "8px",
+    },
+    dropdown: {
+        minWidth: "120px",
+    },
+    hint: {
+        color: tokens.colorNeutralForeground3,
+    },
+    sqlPane: {
+        height: "35%",
+        minHeight: "120px",
+        display: "flex",
+        flexDirection: "column",
+        borderTop: `1px solid ${tokens.colorNeutralStroke2}`,
+    },
+    sqlToolbar: {
+        display: "flex",
+        flexDirection: "row",
+        alignItems: "center",
+        gap: "8px",
+        padding: "4px 8px",
+    },
+    sqlEditor: {
+        flexGrow: 1,
+        minHeight: 0,
+    },
+    spinnerDiv: {
+        height: "100%",
+        width: "100%",
+        display: "flex",
+        justifyContent: "center",
+        alignItems: "center",
+        flexDirection: "column",
+        padding: "20px",
+    },
+    errorIcon: {
+        fontSize: "100px",
+        opacity: 0.5,
+    },
+});
+
+// the values of the options of the column dropdowns, which can't be split on a separator
+// because the aliases and column names can contain any character
+function getColumnKey(column: QueryBuilderColumnReference): string {
+    return JSON.stringify([column.alias, column.column]);
+}
+
+function parseColumnKey(key: string): QueryBuilderColumnReference {
+    const [alias, column] = JSON.parse(key) as string[];
+    return { alias: alias, column: column };
+}
+
+function getColumnLabel(column: QueryBuilderColumnReference): string {
+    return `${column.alias}.${column.column}`;
+}
+
+function isSameColumn(
+    a: QueryBuilderColumnReference,
+    b: QueryBuilderColumnReference,
+): boolean {
+    return a.alias === b.alias && a.column === b.column;
+}
+
+/**
+ * Gets the tables dragged from Object Explorer, or from the names of the objects dropped as text
+ * when the data transfer has no Object Explorer objects
+ */
+function getDroppedObjects(
+    event: DragEvent,
+): ObjectExplorerDragObject[] | { schema: string; name: string }[] {
+    const objects = event.dataTransfer.getData(objectExplorerObjectsMimeType);
+    if (objects) {
+        return JSON.parse(objects) as ObjectExplorerDragObject[];
+    }
+    const match = /^\[(.+)\]\.\[(.+)\]$/.exec(
+        event.dataTransfer.getData("text/plain").trim(),
+    );
+    return match ? [{ schema: match[1], name: match[2] }] : [];
+}
+
+interface ColumnDropdownProps {
+    columns: QueryBuilderColumnReference[];
+    value: QueryBuilderColumnReference;
+    onChange(column: QueryBuilderColumnReference): void;
+}
+
+const ColumnDropdown = ({ columns, value, onChange }: ColumnDropdownProps) => {
+    const classes = useStyles();
+    return (
+        <Dropdown
+            size="small"
+            className={classes.dropdown}
+            aria-label={locConstants.queryBuilder.column}
+            value={getColumnLabel(value)}
+            selectedOptions={[getColumnKey(value)]}
+            onOptionSelect={(_event, data) =>
+                onChange(parseColumnKey(data.optionValue!))
+            }
+        >
+            {columns.map((column) => (
+                <Option key={getColumnKey(column)} value={getColumnKey(column)}>
+                    {getColumnLabel(column)}
+                </Option>
+            ))}
+        </Dropdown>
+    );
+};
+
+interface CommitInputProps {
+    value: string;
+    placeholder?: string;
+    ariaLabel: string;
+    type?: "text" | "number";
+    disabled?: boolean;
+    onCommit(value: string): void;
+}
+
+/**
+ * An input that updates the query when it loses focus or Enter is pressed rather than on every
+ * key stroke, since each update of the query goes through the extension
+ */
+const CommitInput = ({
+    value,
+    placeholder,
+    ariaLabel,
+    type,
+    disabled,
+    onCommit,
+}: CommitInputProps) => {
+    const [text, setText] = useState(value);
+    const [committedValue, setCommittedValue] = useState(value);
+    if (value !== committedValue) {
+        setCommittedValue(value);
+        setText(value);
+    }
+    const commit = () => {
+        if (text !== value) {
+            onCommit(text);
+        }
+    };
+    return (
+        <Input
+            size="small"
+            type={type}
+            value={text}
+            placeholder={placeholder}
+            aria-label={ariaLabel}
+            disabled={disabled}
+            onChange={(_event, data) => setText(data.value)}
+            onBlur={commit}
+            onKeyDown={(event) => {
+                if (event.key === "Enter") {
+                    commit();
+                }
+            }}
+        />
+    );
+};
+
+export const QueryBuilderPage = () => {
+    const classes = useStyles();
+    const context = useContext(QueryBuilderContext);
+    const state = context?.state;
+    const loc = locConstants.queryBuilder;
+    const [searchText, setSearchText] = useState("");
+
+    if (!context || !state) {
+        return undefined;
+    }
+
+    if (state.loadStatus === ApiStatus.Loading) {
+        return (
+            <div className={classes.spinnerDiv}>
+                <Spinner label={loc.loading} />
+            </div>
+        );
+    }
+
+    if (state.loadStatus === ApiStatus.Error) {
+        return (
+            <div className={classes.spinnerDiv}>
+                <ErrorCircleRegular className={classes.errorIcon} />
+                <Text size={400}>{state.errorMessage ?? ""}</Text>
+            </div>
+        );
+    }
+
+    const query = state.query;
+    const updateQuery = (changes: Partial<QueryBuilderQuery>) => {
+        context.setQuery({ ...query, ...changes });
+    };
+    const updateTable = (
+        index: number,
+        changes: Partial<QueryBuilderTable>,
+    ) => {
+        updateQuery({
+            tables: query.tables.map((t, i) =>
+                i === index ? { ...t, ...changes } : t,
+            ),
+        });
+    };
+
+    const getTableColumns = (table: QueryBuilderTable): string[] =>
+        state.objects.find(
+            (o) => o.schema === table.schema && o.name === table.name,
+        )?.columns ?? [];
+    const getColumnReferences = (
+        tables: QueryBuilderTable[],
+    ): QueryBuilderColumnReference[] =>
+        tables.flatMap((table) =>
+            getTableColumns(table).map((column) => ({
+                alias: table.alias,
+                column: column,
+            })),
+        );
+    const allColumns = getColumnReferences(query.tables);
+
+    const search = searchText.trim().toLowerCase();
+    const visibleObjects = state.objects.filter((o) =>
+        `${o.schema}.${o.name}`.toLowerCase().includes(search),
+    );
+
+    const joinTypeNames: Record<QueryBuilderJoinType, string> = {
+        [QueryBuilderJoinType.Inner]: loc.innerJoin,
+        [QueryBuilderJoinType.Left]: loc.leftJoin,
+        [QueryBuilderJoinType.Right]: loc.rightJoin,
+        [QueryBuilderJoinType.Full]: loc.fullJoin,
+    };
+    const isValueOperator = (operator: QueryBuilderOperator) =>
+        operator !== QueryBuilderOperator.IsNull &&
+        operator !== QueryBuilderOperator.IsNotNull;
+    const isListOperator = (operator: QueryBuilderOperator) =>
+        operator === QueryBuilderOperator.In ||
+        operator === QueryBuilderOperator.NotIn;
+
+    const onDrop = (event: DragEvent) => {
+        event.preventDefault();
+        const objects = getDroppedObjects(event);
+        if (objects.length === 0) {
+            return;
+        }
+        if ("database" in objects[0]) {
+            context.dropObjects(objects as ObjectExplorerDragObject[]);
+        } else {
+            for (const object of objects) {
+                if (
+                    state.objects.some(
+                        (o) =>
+                            o.schema === object.schema &&
+                            o.name === object.name,
+                    )
+                ) {
+                    context.addTable(object.schema, object.name);
+                }
+            }
+        }
+    };
+
+    const renderTable = (table: QueryBuilderTable, index: number) => {
+        const columns = getTableColumns(table);
+        const previousColumns = getColumnReferences(
+            query.tables.slice(0, index),
+        );
+        return (
+            <div className={classes.tableCard} key={table.alias}>
+                <div className={classes.tableHeader}>
+                    <TableRegular />
+                    <Text weight="semibold" className={classes.objectName}>
+                        {table.alias === table.name
+                            ? `${table.schema}.${table.name}`
+                            : `${table.schema}.${table.name} (${table.alias})`}
+                    </Text>
+                    <Button
+                        size="small"
+                        appearance="subtle"
+                        icon={<DismissRegular />}
+                        title={loc.removeTable}
+                        aria-label={loc.removeTable}
+                        onClick={() => context.removeTable(table.alias)}
+                    />
+                </div>
+                {index > 0 && (
+                    <div className={classes.section}>
+                        {table.joinConditions.length === 0 ? (
+                            <Text size={200} className={classes.hint}>
+                                {loc.crossJoin}
+                            </Text>
+                        ) : (
+                            <Dropdown
+                                size="small"
+                                className={classes.dropdown}
+                                aria-label={loc.join}
+                                value={joinTypeNames[table.joinType]}
+                                selectedOptions={[table.joinType]}
+                                onOptionSelect={(_event, data) =>
+                                    updateTable(index, {
+                                        joinType:
+                                            data.optionValue as QueryBuilderJoinType,
+                                    })
+                                }
+                            >
+                                {Object.values(QueryBuilderJoinType).map(
+                                    (joinType) => (
+                                        <Option key={joinType} value={joinType}>
+                                            {joinTypeNames[joinType]}
+                                        </Option>
+                                    ),
+                                )}
+                            </Dropdown>
+                        )}
+                        {table.joinConditions.map((condition, i) => (
+                            <div className={classes.row} key={i}>
+                                <ColumnDropdown
+                                    columns={columns.map((c) => ({
+                                        alias: table.alias,
+                                        column: c,
+                                    }))}
+                                    value={{
+                                        alias: table.alias,
+                                        column: condition.column,
+                                    }}
+                                    onChange={(column) =>
+                                        updateTable(index, {
+                                            joinConditions:
+                                                table.joinConditions.map(
+                                                    (c, j) =>
+                                                        j === i
+                                                            ? {
+                                                                  ...c,
+                                                                  column: column.column,
+                                                              }
+                                                            : c,
+                                                ),
+                                        })
+                                    }
+                                />
+                                <Text>=</Text>
+                                <ColumnDropdown
+                                    columns={previousColumns}
+                                    value={condition.otherColumn}
+                                    onChange={(column) =>
+                                        updateTable(index, {
+                                            joinConditions:
+                                                table.joinConditions.map(
+                                                    (c, j) =>
+                                                        j === i
+                                                            ? {
+                                                                  ...c,
+                                                                  otherColumn:
+                                                                      column,
+                                                              }
+                                                            : c,
+                                                ),
+                                        })
+                                    }
+                                />
+                                <Button
+                                    size="small"
+                                    appearance="subtle"
+                                    icon={<DismissRegular />}
+                                    title={loc.remove}
+                                    aria-label={loc.remove}
+                                    onClick={() =>
+                                        updateTable(index, {
+                                            joinConditions:
+                                                table.joinConditions.filter(
+                                                    (_c, j) => j !== i,
+                                                ),
+                                        })
+                                    }
+                                />
+                            </div>
+                        ))}
+                        <Button
+                            size="small"
+                            appearance="subtle"
+                            icon={<AddRegular />}
+                            disabled={
+                                columns.length === 0 ||
+                                previousColumns.length === 0
+                            }
+                            onClick={() =>
+                                updateTable(index, {
+                                    joinConditions: [
+                                        ...table.joinConditions,
+                                        {
+                                            column: columns[0],
+                                            otherColumn: previousColumns[0],
+                                        },
+                                    ],
+                                })
+                            }
+                        >
+                            {loc.addJoinCondition}
+                        </Button>
+                    </div>
+                )}
+                <div className={classes.tableColumns}>
+                    {columns.map((column) => {
+                        const reference = {
+                            alias: table.alias,
+                            column: column,
+                        };
+                        const isSelected = query.columns.some((c) =>
+                            isSameColumn(c, reference),
+                        );
+                        return (
+                            <Checkbox
+                                key={column}
+                                size="medium"
+                                label={column}
+                                checked={isSelected}
+                                onChange={() =>
+                                    updateQuery({
+                                        columns: isSelected
+                                            ? query.columns.filter(
+                                                  (c) =>
+                                                      !isSameColumn(
+                                                          c,
+                                                          reference,
+                                                      ),
+                                              )
+                                            : [...query.columns, reference],
+                                    })
+                                }
+                            />
+                        );
+                    })}
+                </div>
+            </div>
+        );
+    };
+
+    return (
+        <div
+            className={classes.outerDiv}
+            onDragOver={(event) => event.preventDefault()}
+            onDrop={onDrop}
+        >
+            <div className={classes.objectsPane}>
+                <Text weight="semibold">{loc.tablesAndViews}</Text>
+                <Input
+                    size="small"
+                    contentBefore={<SearchRegular />}
+                    placeholder={loc.searchTables}
+                    aria-label={loc.searchTables}
+                    value={searchText}
+                    onChange={(_event, data) => setSearchText(data.value)}
+                />
+                <div className={classes.objectList}>
+                    {visibleObjects.map((object) => (
+                        <div
+                            key={`${object.schema}.${object.name}`}
+                            className={classes.objectItem}
+                            title={loc.addTable}
+                            onDoubleClick={() =>
+                                context.addTable(object.schema, object.name)
+                            }
+                        >
+                            {object.isView ? (
+                                <EyeRegular aria-label={loc.view} />
+                            ) : (
+                                <TableRegular />
+                            )}
+                            <Text
+                                size={200}
+                                className={classes.objectName}
+                            >{`${object.schema}.${object.name}`}</Text>
+                            <Button
+                                size="small"
+                                appearance="subtle"
+                                icon={<AddRegular />}
+                                title={loc.addTable}
+                                aria-label={loc.addTable}
+                                onClick={() =>
+                                    context.addTable(object.schema, object.name)
+                                }
+                            />
+                        </div>
+                    ))}
+                </div>
+            </div>
+            <div className={classes.mainPane}>
+                <div className={classes.builder}>
+                    {query.tables.length === 0 ? (
+                        <Text className={classes.hint}>{loc.dropHint}</Text>
+                    ) : (
+                        <div className={classes.tables}>
+                            {query.tables.map(renderTable)}
+                        </div>
+                    )}
+
+                    <div className={classes.section}>
+                        <Text weight="semibold">{loc.columns}</Text>
+                        {query.columns.length === 0 && (
+                            <Text size={200} className={classes.hint}>
+                                {loc.allColumns}
+                            </Text>
+                        )}
+                        {query.columns.map((column, i) => (
+                            <div className={classes.row} key={i}>
+                                <Text className={classes.dropdown}>
+                                    {getColumnLabel(column)}
+                                </Text>
+                                <Dropdown
+                                    size="small"
+                                    className={classes.dropdown}
+                                    aria-label={loc.aggregate}
+                                    value={column.aggregate ?? loc.noAggregate}
+                                    selectedOptions={[column.aggregate ?? ""]}
+                                    onOptionSelect={(_event, data) =>
+                                        updateQuery({
+                                            columns: query.columns.map(
+                                                (c, j) =>
+                                                    j === i
+                                                        ? {
+                                                              ...c,
+                                                              aggregate:
+                                                                  (data.optionValue as QueryBuilderAggregate) ||
+                                                                  undefined,
+                                                          }
+                                                        : c,
+                                            ),
+                                        })
+                                    }
+                                >
+                                    <Option value="">{loc.noAggregate}</Option>
+                                    {Object.values(QueryBuilderAggregate).map(
+                                        (aggregate) => (
+                                            <Option
+                                                key={aggregate}
+                                                value={aggregate}
+                                            >
+                                                {aggregate}
+                                            </Option>
+                                        ),
+                                    )}
+                                </Dropdown>
+                                <CommitInput
+                                    value={column.outputName ?? ""}
+                                    placeholder={loc.outputName}
+                                    ariaLabel={loc.outputName}
+                                    onCommit={(value) =>
+                                        updateQuery({
+                                            columns: query.columns.map(
+                                                (c, j) =>
+                                                    j === i
+                                                        ? {
+                                                              ...c,
+                                                              outputName:
+                                                                  value.trim() ||
+                                                                  undefined,
+                                                          }
+                                                        : c,
+                                            ),
+                                        })
+                                    }
+                                />
+                                <Button
+                                    size="small"
+                                    appearance="subtle"
+                                    icon={<DismissRegular />}
+                                    title={loc.remove}
+                                    aria-label={loc.remove}
+                                    onClick={() =>
+                                        updateQuery({
+                                            columns: query.columns.filter(
+                                                (_c, j) => j !== i,
+                                            ),
+                                        })
+                                    }
+                                />
+                            </div>
+                        ))}
+                        <div className={classes.row}>
+                            <Checkbox
+                                label={loc.distinct}
+                                checked={query.distinct}
+                                onChange={(_event, data) =>
+                                    updateQuery({ distinct: !!data.checked })
+                                }
+                            />
+                            <Text>{loc.top}</Text>
+                            <CommitInput
+                                type="number"
+                                value={query.top?.toString() ?? ""}
+                                ariaLabel={loc.top}
+                                onCommit={(value) => {
+                                    const top = parseInt(value);
+                                    updateQuery({
+                                        top:
+                                            isNaN(top) || top < 0
+                                                ? undefined
+                                                : top,
+                                    });
+                                }}
+                            />
+                        </div>
+                    </div>
+
+                    <div className={classes.section}>
+                        <Text weight="semibold">{loc.filters}</Text>
+                        {query.filters.map((filter, i) => (
+                            <div className={classes.row} key={i}>
+                                <ColumnDropdown
+                                    columns={allColumns}
+                                    value={filter}
+                                    onChange={(column) =>
+                                        updateQuery({
+                                            filters: query.filters.map(
+                                                (f, j) =>
+                                                    j === i
+                                                        ? { ...f, ...column }
+                                                        : f,
+                                            ),
+                                        })
+                                    }
+                                />
+                                <Dropdown
+                                    size="small"
+                                    className={classes.dropdown}
+                                    aria-label={loc.operator}
+                                    value={filter.operator}
+                                    selectedOptions={[filter.operator]}
+                                    onOptionSelect={(_event, data) =>
+                                        updateQuery({
+                                            filters: query.filters.map(
+                                                (f, j) =>
+                                                    j === i
+                                                        ? {
+                                                              ...f,
+                                                              operator:
+                                                                  data.optionValue as QueryBuilderOperator,
+                                                          }
+                                                        : f,
+                                            ),
+                                        })
+                                    }
+                                >
+                                    {Object.values(QueryBuilderOperator).map(
+                                        (operator) => (
+                                            <Option
+                                                key={operator}
+                                                value={operator}
+                                            >
+                                                {operator}
+                                            </Option>
+                                        ),
+                                    )}
+                                </Dropdown>
+                                <CommitInput
+                                    value={filter.value}
+                                    placeholder={
+                                        isListOperator(filter.operator)
+                                            ? loc.inValuesHint
+                                            : loc.value
+                                    }
+                                    ariaLabel={loc.value}
+                                    disabled={!isValueOperator(filter.operator)}
+                                    onCommit={(value) =>
+                                        updateQuery({
+                                            filters: query.filters.map(
+                                                (f, j) =>
+                                                    j === i
+                                                        ? { ...f, value: value }
+                                                        : f,
+                                            ),
+                                        })
+                                    }
+                                />
+                                <Button
+                                    size="small"
+                                    appearance="subtle"
+                                    icon={<DismissRegular />}
+                                    title={loc.remove}
+                                    aria-label={loc.remove}
+                                    onClick={() =>
+                                        updateQuery({
+                                            filters: query.filters.filter(
+                                                (_f, j) => j !== i,
+                                            ),
+                                        })
+                                    }
+                                />
+                            </div>
+                        ))}
+                        <Button
+                            size="small"
+                            appearance="subtle"
+                            icon={<AddRegular />}
+                            disabled={allColumns.length === 0}
+                            onClick={() =>
+                                updateQuery({
+                                    filters: [
+                                        ...query.filters,
+                                        {
+                                            ...allColumns[0],
+                                            operator:
+                                                QueryBuilderOperator.Equal,
+                                            value: "",
+                                        },
+                                    ],
+                                })
+                            }
+                        >
+                            {loc.addFilter}
+                        </Button>
+                    </div>
+
+                    <div className={classes.section}>
+                        <Text weight="semibold">{loc.groupBy}</Text>
+                        <Text size={200} className={classes.hint}>
+                            {loc.groupByHint}
+                        </Text>
+                        {query.groupBy.map((column, i) => (
+                            <div className={classes.row} key={i}>
+                                <ColumnDropdown
+                                    columns={allColumns}
+                                    value={column}
+                                    onChange={(value) =>
+                                        updateQuery({
+                                            groupBy: query.groupBy.map(
+                                                (c, j) => (j === i ? value : c),
+                                            ),
+                                        })
+                                    }
+                                />
+                                <Button
+                                    size="small"
+                                    appearance="subtle"
+                                    icon={<DismissRegular />}
+                                    title={loc.remove}
+                                    aria-label={loc.remove}
+                                    onClick={() =>
+                                        updateQuery({
+                                            groupBy: query.groupBy.filter(
+                                                (_c, j) => j !== i,
+                                            ),
+                                        })
+                                    }
+                                />
+                            </div>
+                        ))}
+                        <Button
+                            size="small"
+                            appearance="subtle"
+                            icon={<AddRegular />}
+                            disabled={allColumns.length === 0}
+                            onClick={() =>
+                                updateQuery({
+                                    groupBy: [...query.groupBy, allColumns[0]],
+                                })
+                            }
+                        >
+                            {loc.addGroupBy}
+                        </Button>
+                    </div>
+
+                    <div className={classes.section}>
+                        <Text weight="semibold">{loc.orderBy}</Text>
+                        {query.orderBy.map((order, i) => (
+                            <div className={classes.row} key={i}>
+                                <ColumnDropdown
+                                    columns={allColumns}
+                                    value={order}
+                                    onChange={(column) =>
+                                        updateQuery({
+                                            orderBy: query.orderBy.map(
+                                                (o, j) =>
+                                                    j === i
+                                                        ? { ...o, ...column }
+                                                        : o,
+                                            ),
+                                        })
+                                    }
+                                />
+                                <Dropdown
+                                    size="small"
+                                    className={classes.dropdown}
+                                    value={
+                                        order.descending
+                                            ? loc.descending
+                                            : loc.ascending
+                                    }
+                                    selectedOptions={[
+                                        order.descending ? "desc" : "asc",
+                                    ]}
+                                    onOptionSelect={(_event, data) =>
+                                        updateQuery({
+                                            orderBy: query.orderBy.map(
+                                                (o, j) =>
+                                                    j === i
+                                                        ? {
+                                                              ...o,
+                                                              descending:
+                                                                  data.optionValue ===
+                                                                  "desc",
+                                                          }
+                                                        : o,
+                                            ),
+                                        })
+                                    }
+                                >
+                                    <Option value="asc">{loc.ascending}</Option>
+                                    <Option value="desc">
+                                        {loc.descending}
+                                    </Option>
+                                </Dropdown>
+                                <Button
+                                    size="small"
+                                    appearance="subtle"
+                                    icon={<DismissRegular />}
+                                    title={loc.remove}
+                                    aria-label={loc.remove}
+                                    onClick={() =>
+                                        updateQuery({
+                                            orderBy: query.orderBy.filter(
+                                                (_o, j) => j !== i,
+                                            ),
+                                        })
+                                    }
+                                />
+                            </div>
+                        ))}
+                        <Button
+                            size="small"
+                            appearance="subtle"
+                            icon={<AddRegular />}
+                            disabled={allColumns.length === 0}
+                            onClick={() =>
+                                updateQuery({
+                                    orderBy: [
+                                        ...query.orderBy,
+                                        { ...allColumns[0], descending: false },
+                                    ],
+                                })
+                            }
+                        >
+                            {loc.addOrderBy}
+                        </Button>
+                    </div>
+                </div>
+
+                <div className={classes.sqlPane}>
+                    <div className={classes.sqlToolbar}>
+                        <Text weight="semibold">{loc.sql}</Text>
+                        <Button
+                            size="small"
+                            appearance="outline"
+                            icon={<OpenRegular />}
+                            disabled={!state.sql}
+                            onClick={() => context.openInEditor()}
+                        >
+                            {loc.openInEditor}
+                        </Button>
+                        <Button
+                            size="small"
+                            appearance="primary"
+                            icon={<PlayRegular />}
+                            disabled={!state.sql}
+                            onClick={() => context.runQuery()}
+                        >
+                            {loc.runQuery}
+                        </Button>
+                    </div>
+                    <div className={classes.sqlEditor}>
+                        <Editor
+                            height={"100%"}
+                            width={"100%"}
+                            language="sql"
+                            theme={resolveVscodeThemeType(context.themeKind)}
+                            value={state.sql}
+                            options={{
+                                readOnly: true,
+                                minimap: { enabled: false },
+                                scrollBeyondLastLine: false,
+                            }}
+                        />
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,85 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import {
+    ColorThemeKind,
+    useVscodeWebview,
+} from "../../common/vscodeWebviewProvider";
+import { ReactNode, createContext } from "react";
+import {
+    ObjectExplorerDragObject,
+    QueryBuilderQuery,
+    QueryBuilderReducers,
+    QueryBuilderWebviewState,
+} from "../../../sharedInterfaces/queryBuilder";
+
+export interface QueryBuilderContextProps {
+    state: QueryBuilderWebviewState;
+    themeKind: ColorThemeKind;
+    addTable(schema: string, name: string): void;
+    dropObjects(objects: ObjectExplorerDragObject[]): void;
+    removeTable(alias: string): void;
+    setQuery(query: QueryBuilderQuery): void;
+    openInEditor(): void;
+    runQuery(): void;
+}
+
+const QueryBuilderContext = createContext<QueryBuilderContextProps | undefined>(
+    undefined,
+);
+
+interface QueryBuilderProviderProps {
+    children: ReactNode;
+}
+
+const QueryBuilderStateProvider: React.FC<QueryBuilderProviderProps> = ({
+    children,
+}) => {
+    const webviewState = useVscodeWebview<
+        QueryBuilderWebviewState,
+        QueryBuilderReducers
+    >();
+    return (
+        <QueryBuilderContext.Provider
+            value={{
+                state: webviewState?.state,
+                themeKind: webviewState?.themeKind,
+                addTable: function (schema: string, name: string): void {
+                    webviewState?.extensionRpc.action("addTable", {
+                        schema: schema,
+                        name: name,
+                    });
+                },
+                dropObjects: function (
+                    objects: ObjectExplorerDragObject[],
+                ): void {
+                    webviewState?.extensionRpc.action("dropObjects", {
+                        objects: objects,
+                    });
+                },
+                removeTable: function (alias: string): void {
+                    webviewState?.extensionRpc.action("removeTable", {
+                        alias: alias,
+                    });
+                },
+                setQuery: function (query: QueryBuilderQuery): void {
+                    webviewState?.extensionRpc.action("setQuery", {
+                        query: query,
+                    });
+                },
+                openInEditor: function (): void {
+                    webviewState?.extensionRpc.action("openInEditor", {});
+                },
+                runQuery: function (): void {
+                    webviewState?.extensionRpc.action("runQuery", {});
+                },
+            }}
+        >
+            {children}
+        </QueryBuilderContext.Provider>
+    );
+};
+
+export { QueryBuilderContext, QueryBuilderStateProvider };
@@ -0,0 +1,235 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import {
+    ChartOptions,
+    ChartType,
+    DbCellValue,
+    IDbColumn,
+    ResultSetSummary,
+} from "../../../sharedInterfaces/queryResult";
+
+/**
+ * Maximum number of rows of a result set that are charted
+ */
+export const maxChartRows = 5000;
+
+const numericTypes = [
+    "tinyint",
+    "smallint",
+    "int",
+    "bigint",
+    "decimal",
+    "numeric",
+    "money",
+    "smallmoney",
+    "float",
+    "real",
+];
+
+const dateTypes = [
+    "date",
+    "datetime",
+    "datetime2",
+    "smalldatetime",
+    "datetimeoffset",
+];
+
+export interface ChartPoint {
+    /**
+     * The category of bar, line and pie charts, or the x value of scatter charts and the
+     * time in milliseconds of time series charts
+     */
+    x: string | number;
+    y: number;
+}
+
+export interface ChartSeries {
+    name: string;
+    points: ChartPoint[];
+}
+
+export function isNumericColumn(column: IDbColumn): boolean {
+    return numericTypes.includes(column.dataTypeName?.toLowerCase());
+}
+
+export function isDateColumn(column: IDbColumn): boolean {
+    return dateTypes.includes(column.dataTypeName?.toLowerCase());
+}
+
+/**
+ * Whether the options still match the columns of the result set, which change when the query
+ * is run again
+ */
+export function isValidChartOptions(
+    options: ChartOptions | undefined,
+    summary: ResultSetSummary | undefined,
+): boolean {
+    const columnCount = summary?.columnInfo?.length ?? 0;
+    return (
+        !!options &&
+        !!summary &&
+        options.batchId === summary.batchId &&
+        options.resultId === summary.id &&
+        options.xColumn < columnCount &&
+        options.yColumns.length > 0 &&
+        options.yColumns.every((c) => c < columnCount)
+    );
+}
+
+/**
+ * Picks the columns of a chart: the first date column of time series charts, or the first
+ * text column of the other charts, is charted against the numeric columns
+ */
+export function getDefaultChartOptions(
+    summary: ResultSetSummary,
+    chartType: ChartType,
+): ChartOptions {
+    const columns = summary.columnInfo ?? [];
+    const numericColumns = columns
+        .map((column, index) => ({ column, index }))
+        .filter(({ column }) => isNumericColumn(column))
+        .map(({ index }) => index);
+    let xColumn: number;
+    switch (chartType) {
+        case ChartType.TimeSeries:
+            xColumn = columns.findIndex((c) => isDateColumn(c));
+            break;
+        case ChartType.Scatter:
+            xColumn = numericColumns.length > 1 ? numericColumns[0] : -1;
+            break;
+        default:
+            xColumn = columns.findIndex((c) => !isNumericColumn(c));
+    }
+    if (xColumn < 0) {
+        xColumn = 0;
+    }
+    let yColumns = numericColumns.filter((c) => c !== xColumn);
+    if (yColumns.length === 0) {
+        yColumns = [xColumn === 0 && columns.length > 1 ? 1 : 0];
+    }
+    return {
+        batchId: summary.batchId,
+        resultId: summary.id,
+        chartType: chartType,
+        xColumn: xColumn,
+        yColumns: chartType === ChartType.Pie ? yColumns.slice(0, 1) : yColumns,
+    };
+}
+
+/**
+ * Gets the series of a chart from the rows of a result set. Rows without a number for a
+ * series, or without a valid x value for scatter and time series charts, are left out.
+ */
+export function getChartSeries(
+    columns: IDbColumn[],
+    rows: DbCellValue[][],
+    options: ChartOptions,
+): ChartSeries[] {
+    const yColumns =
+        options.chartType === ChartType.Pie
+            ? options.yColumns.slice(0, 1)
+            : options.yColumns;
+    return yColumns.map((yColumn) => {
+        const points: ChartPoint[] = [];
+        for (const row of rows) {
+            const xCell = row[options.xColumn];
+            const yCell = row[yColumn];
+            if (!yCell || yCell.isNull || yCell.displayValue.trim() === "") {
+                continue;
+            }
+            const y = Number(yCell.displayValue);
+            if (!isFinite(y)) {
+                continue;
+            }
+            const x = toChartX(xCell, options.chartType);
+            if (x === undefined) {
+                continue;
+            }
+            if (options.chartType === ChartType.Pie && y <= 0) {
+                continue;
+            }
+            points.push({ x: x, y: y });
+        }
+        if (options.chartType === ChartType.TimeSeries) {
+            points.sort((a, b) => (a.x as number) - (b.x as number));
+        }
+        return {
+            name: columns[yColumn]?.columnName ?? "",
+            points: points,
+        };
+    });
+}
+
+/**
+ * Gets about count evenly spaced round values that cover the range from min to max
+ */
+export function getNiceTicks(
+    min: number,
+    max: number,
+    count: number,
+): number[] {
+    if (min === max) {
+        const padding = min === 0 ? 1 : Math.abs(min) / 2;
+        min -= padding;
+        max += padding;
+    }
+    const roughStep = (max - min) / Math.max(count, 1);
+    const magnitude = Math.pow(10, Math.floor(Math.log10(roughStep)));
+    const step =
+        [1, 2, 5, 10].find((m) => m * magnitude >= roughStep)! * magnitude;
+    const ticks: number[] = [];
+    for (
+        let tick = Math.floor(min / step) * step;
+        tick <= Math.ceil(max / step) * step + step / 2;
+        tick += step
+    ) {
+        // rounds away the floating point errors of the additions
+        ticks.push(Number(tick.toPrecision(12)));
+    }
+    return ticks;
+}
+
+/**
+ * Formats the values of the axes, using K, M and B suffixes for large values
+ */
+export function formatChartValue(value: number): string {
+    const abs = Math.abs(value);
+    const suffixes: [number, string][] = [
+        [1e9, "B"],
+        [1e6, "M"],
+        [1e3, "K"],
+    ];
+    for (const [size, suffix] of suffixes) {
+        if (abs >= size) {
+            return `${Number((value / size).toPrecision(3))}${suffix}`;
+        }
+    }
+    return Number(value.toPrecision(4)).toString();
+}
+
+function toChartX(
+    cell: DbCellValue | undefined,
+    chartType: ChartType,
+): string | number | undefined {
+    if (!cell || cell.isNull) {
+        return chartType === ChartType.Scatter ||
+            chartType === ChartType.TimeSeries
+            ? undefined
+            : "NULL";
+    }
+    switch (chartType) {
+        case ChartType.Scatter: {
+            const x = Number(cell.displayValue);
+            return isFinite(x) ? x : undefined;
+        }
+        case ChartType.TimeSeries: {
+            const time = Date.parse(cell.displayValue);
+            return isNaN(time) ? undefined : time;
+        }
+        default:
+            return cell.displayValue;
+    }
+}
@@ -3,7 +3,15 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { Button, makeStyles } from "@fluentui/react-components";
+import {
+    Button,
+    makeStyles,
+    Menu,
+    MenuItem,
+    MenuList,
+    MenuPopover,
+    MenuTrigger,
+} from "@fluentui/react-components";
 import { useContext, useState } from "react";
 import { QueryResultContext } from "./queryResultStateProvider";
 import { useVscodeWebview } from "../../common/vscodeWebviewProvider";
@@ -16,6 +24,7 @@ import {
 } from "./queryResultUtils";
 import { QueryResultSaveAsTrigger } from "../../../sharedInterfaces/queryResult";
 import {
+    ArrowDownload16Regular,
     ArrowMaximize16Filled,
     ArrowMinimize16Filled,
 } from "@fluentui/react-icons";
@@ -140,6 +149,35 @@ const CommandBar = (props: CommandBarProps) => {
                 className="codicon saveExcel"
                 title={locConstants.queryResult.saveAsExcel}
             />
+            <Menu positioning="before-top">
+                <MenuTrigger disableButtonEnhancement>
+                    <Button
+                        appearance="subtle"
+                        icon={
+                            <ArrowDownload16Regular
+                                className={classes.buttonImg}
+                            />
+                        }
+                        title={locConstants.queryResult.moreSaveFormats}
+                    />
+                </MenuTrigger>
+                <MenuPopover>
+                    <MenuList>
+                        <MenuItem onClick={() => saveResults("markdown")}>
+                            {locConstants.queryResult.saveAsMarkdown}
+                        </MenuItem>
+                        <MenuItem onClick={() => saveResults("xml")}>
+                            {locConstants.queryResult.saveAsXml}
+                        </MenuItem>
+                        <MenuItem onClick={() => saveResults("html")}>
+                            {locConstants.queryResult.saveAsHtml}
+                        </MenuItem>
+                        <MenuItem onClick={() => saveResults("insert")}>
+                            {locConstants.queryResult.saveAsInsert}
+                        </MenuItem>
+                    </MenuList>
+                </MenuPopover>
+            </Menu>
         </div>
     );
 };
@@ -6,7 +6,10 @@
 export enum Keys {
     ArrowDown = "ArrowDown",
     ArrowUp = "ArrowUp",
+    ArrowLeft = "ArrowLeft",
+    ArrowRight = "ArrowRight",
     Enter = "Enter",
     Space = " ",
     c = "c",
+    zero = "0",
 }
@@ -37,6 +37,7 @@ import {
 import { ExecutionPlanPage } from "../ExecutionPlan/executionPlanPage";
 import { ExecutionPlanStateProvider } from "../ExecutionPlan/executionPlanStateProvider";
 import { hasResultsOrMessages, splitMessages } from "./queryResultUtils";
+import { ResultChart } from "./resultChart";
 
 const useStyles = makeStyles({
     root: {
@@ -601,6 +602,14 @@ export const QueryResultPane = () => {
                                 {locConstants.queryResult.queryPlan}
                             </Tab>
                         )}
+                    {Object.keys(metadata.resultSetSummaries).length > 0 && (
+                        <Tab
+                            value={qr.QueryResultPaneTabs.Chart}
+                            key={qr.QueryResultPaneTabs.Chart}
+                        >
+                            {locConstants.queryResult.chart}
+                        </Tab>
+                    )}
                 </TabList>
                 {webviewLocation === "panel" && (
                     <Button
@@ -652,6 +661,16 @@ export const QueryResultPane = () => {
                             </ExecutionPlanStateProvider>
                         </div>
                     )}
+                {metadata.tabStates!.resultPaneTab ===
+                    qr.QueryResultPaneTabs.Chart &&
+                    Object.keys(metadata.resultSetSummaries).length > 0 && (
+                        <div
+                            className={classes.queryResultContainer}
+                            style={{ height: "100%", minHeight: "300px" }}
+                        >
+                            <ResultChart />
+                        </div>
+                    )}
             </div>
         </div>
     );
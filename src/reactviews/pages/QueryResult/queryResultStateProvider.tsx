@@ -11,6 +11,7 @@ import {
 } from "../../common/vscodeWebviewProvider";
 import { ReactNode, createContext } from "react";
 import { ColumnFilterState } from "./table/interfaces";
+import { ExecutionPlanExportFormat } from "../ExecutionPlan/executionPlanInterfaces";
 
 export interface QueryResultState {
     provider: qr.QueryResultReactProvider;
@@ -69,6 +70,22 @@ const QueryResultStateProvider: React.FC<QueryResultContextProps> = ({
                             },
                         );
                     },
+                    setChartOptions: function (
+                        chartOptions: qr.ChartOptions,
+                    ): void {
+                        webViewState?.extensionRpc.action("setChartOptions", {
+                            chartOptions: chartOptions,
+                        });
+                    },
+                    exportChart: function (
+                        format: qr.ChartExportFormat,
+                        content: string,
+                    ): void {
+                        webViewState?.extensionRpc.action("exportChart", {
+                            format: format,
+                            content: content,
+                        });
+                    },
                     saveExecutionPlan: function (sqlPlanContent: string): void {
                         webViewState?.extensionRpc.action("saveExecutionPlan", {
                             sqlPlanContent: sqlPlanContent,
@@ -89,6 +106,18 @@ const QueryResultStateProvider: React.FC<QueryResultContextProps> = ({
                             addedCost: addedCost,
                         });
                     },
+                    exportExecutionPlan: function (
+                        format: ExecutionPlanExportFormat,
+                        content: string,
+                    ): void {
+                        webViewState?.extensionRpc.action(
+                            "exportExecutionPlan",
+                            {
+                                format: format,
+                                content: content,
+                            },
+                        );
+                    },
                 },
 
                 state: webViewState?.state as qr.QueryResultWebviewState,
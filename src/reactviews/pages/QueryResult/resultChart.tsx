@@ -0,0 +1,695 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import {
+    Dropdown,
+    Field,
+    Option,
+    Text,
+    Toolbar,
+    ToolbarButton,
+    makeStyles,
+} from "@fluentui/react-components";
+import { ArrowDownloadRegular } from "@fluentui/react-icons";
+import { useContext, useEffect, useRef, useState } from "react";
+
+import * as qr from "../../../sharedInterfaces/queryResult";
+import { useVscodeWebview } from "../../common/vscodeWebviewProvider";
+import { locConstants } from "../../common/locConstants";
+import { getPng, getSvg } from "../../common/svgUtils";
+import { QueryResultContext } from "./queryResultStateProvider";
+import {
+    ChartSeries,
+    formatChartValue,
+    getChartSeries,
+    getDefaultChartOptions,
+    getNiceTicks,
+    isValidChartOptions,
+    maxChartRows,
+} from "./chartUtils";
+
+const useStyles = makeStyles({
+    root: {
+        width: "100%",
+        height: "100%",
+        display: "flex",
+        flexDirection: "column",
+    },
+    options: {
+        display: "flex",
+        flexDirection: "row",
+        alignItems: "flex-end",
+        flexWrap: "wrap",
+        gap: "8px",
+        padding: "4px 8px",
+    },
+    dropdown: {
+        minWidth: "140px",
+    },
+    chartContainer: {
+        flexGrow: 1,
+        minHeight: "200px",
+        position: "relative",
+        overflow: "hidden",
+    },
+    message: {
+        padding: "4px 8px",
+    },
+});
+
+const seriesColors = [
+    "var(--vscode-charts-blue)",
+    "var(--vscode-charts-orange)",
+    "var(--vscode-charts-green)",
+    "var(--vscode-charts-purple)",
+    "var(--vscode-charts-red)",
+    "var(--vscode-charts-yellow)",
+];
+const textColor = "var(--vscode-editor-foreground)";
+const gridColor = "var(--vscode-editorWidget-border)";
+const backgroundColor = "var(--vscode-editor-background)";
+const fontFamily = "var(--vscode-font-family)";
+
+const margin = { top: 32, right: 24, bottom: 56, left: 64 };
+const maxLabelLength = 14;
+const maxLegendItems = 12;
+
+interface ChartSize {
+    width: number;
+    height: number;
+}
+
+const chartTypeNames = () => ({
+    [qr.ChartType.Bar]: locConstants.queryResult.barChart,
+    [qr.ChartType.Line]: locConstants.queryResult.lineChart,
+    [qr.ChartType.Pie]: locConstants.queryResult.pieChart,
+    [qr.ChartType.Scatter]: locConstants.queryResult.scatterChart,
+    [qr.ChartType.TimeSeries]: locConstants.queryResult.timeSeriesChart,
+});
+
+function truncateLabel(label: string): string {
+    return label.length > maxLabelLength
+        ? `${label.substring(0, maxLabelLength - 1)}…`
+        : label;
+}
+
+function getColor(index: number): string {
+    return seriesColors[index % seriesColors.length];
+}
+
+const Legend = ({ names, width }: { names: string[]; width: number }) => {
+    let x = margin.left;
+    return (
+        <g>
+            {names.slice(0, maxLegendItems).map((name, index) => {
+                const label = truncateLabel(name);
+                const itemX = x;
+                x += 24 + label.length * 7;
+                if (itemX > width - margin.right) {
+                    return undefined;
+                }
+                return (
+                    <g key={index}>
+                        <rect
+                            x={itemX}
+                            y={10}
+                            width={10}
+                            height={10}
+                            style={{ fill: getColor(index) }}
+                        />
+                        <text
+                            x={itemX + 14}
+                            y={19}
+                            style={{ fill: textColor, fontFamily: fontFamily }}
+                            fontSize={11}
+                        >
+                            {label}
+                        </text>
+                    </g>
+                );
+            })}
+        </g>
+    );
+};
+
+const ValueAxis = ({
+    ticks,
+    toY,
+    size,
+}: {
+    ticks: number[];
+    toY: (value: number) => number;
+    size: ChartSize;
+}) => (
+    <g>
+        {ticks.map((tick) => (
+            <g key={tick}>
+                <line
+                    x1={margin.left}
+                    x2={size.width - margin.right}
+                    y1={toY(tick)}
+                    y2={toY(tick)}
+                    style={{ stroke: gridColor }}
+                    strokeWidth={tick === 0 ? 1 : 0.5}
+                />
+                <text
+                    x={margin.left - 6}
+                    y={toY(tick) + 4}
+                    textAnchor="end"
+                    style={{ fill: textColor, fontFamily: fontFamily }}
+                    fontSize={11}
+                >
+                    {formatChartValue(tick)}
+                </text>
+            </g>
+        ))}
+    </g>
+);
+
+function renderCategoryChart(
+    series: ChartSeries[],
+    chartType: qr.ChartType,
+    size: ChartSize,
+) {
+    const categories: string[] = [];
+    for (const s of series) {
+        for (const point of s.points) {
+            if (!categories.includes(point.x as string)) {
+                categories.push(point.x as string);
+            }
+        }
+    }
+    const values = series.flatMap((s) => s.points.map((p) => p.y));
+    const ticks = getNiceTicks(
+        Math.min(0, ...values),
+        Math.max(0, ...values),
+        5,
+    );
+    const plotWidth = size.width - margin.left - margin.right;
+    const plotHeight = size.height - margin.top - margin.bottom;
+    const min = ticks[0];
+    const max = ticks[ticks.length - 1];
+    const toY = (value: number) =>
+        margin.top + plotHeight - ((value - min) / (max - min)) * plotHeight;
+    const bandWidth = plotWidth / Math.max(categories.length, 1);
+    const toX = (category: string) =>
+        margin.left + categories.indexOf(category) * bandWidth + bandWidth / 2;
+    // skips labels so they don't overlap when there are many categories
+    const labelStep = Math.max(
+        1,
+        Math.ceil((categories.length * 60) / plotWidth),
+    );
+
+    return (
+        <>
+            <ValueAxis ticks={ticks} toY={toY} size={size} />
+            {categories.map((category, index) =>
+                index % labelStep === 0 ? (
+                    <text
+                        key={index}
+                        x={toX(category)}
+                        y={size.height - margin.bottom + 16}
+                        textAnchor="middle"
+                        style={{ fill: textColor, fontFamily: fontFamily }}
+                        fontSize={11}
+                    >
+                        <title>{category}</title>
+                        {truncateLabel(category)}
+                    </text>
+                ) : undefined,
+            )}
+            {series.map((s, seriesIndex) => {
+                if (chartType === qr.ChartType.Bar) {
+                    const barWidth = (bandWidth * 0.8) / series.length;
+                    return (
+                        <g key={seriesIndex}>
+                            {s.points.map((point, index) => (
+                                <rect
+                                    key={index}
+                                    x={
+                                        toX(point.x as string) -
+                                        bandWidth * 0.4 +
+                                        seriesIndex * barWidth
+                                    }
+                                    y={Math.min(toY(point.y), toY(0))}
+                                    width={Math.max(barWidth, 1)}
+                                    height={Math.abs(toY(point.y) - toY(0))}
+                                    style={{ fill: getColor(seriesIndex) }}
+                                >
+                                    <title>{`${point.x}: ${point.y}`}</title>
+                                </rect>
+                            ))}
+                        </g>
+                    );
+                }
+                return (
+                    <g key={seriesIndex}>
+                        <polyline
+                            points={s.points
+                                .map((p) => `${toX(p.x as string)},${toY(p.y)}`)
+                                .join(" ")}
+                            style={{
+                                fill: "none",
+                                stroke: getColor(seriesIndex),
+                            }}
+                            strokeWidth={2}
+                        />
+                        {s.points.length <= 100 &&
+                            s.points.map((point, index) => (
+                                <circle
+                                    key={index}
+                                    cx={toX(point.x as string)}
+                                    cy={toY(point.y)}
+                                    r={3}
+                                    style={{ fill: getColor(seriesIndex) }}
+                                >
+                                    <title>{`${point.x}: ${point.y}`}</title>
+                                </circle>
+                            ))}
+                    </g>
+                );
+            })}
+        </>
+    );
+}
+
+function renderXYChart(
+    series: ChartSeries[],
+    chartType: qr.ChartType,
+    size: ChartSize,
+) {
+    const points = series.flatMap((s) => s.points);
+    const xValues = points.map((p) => p.x as number);
+    const yTicks = getNiceTicks(
+        Math.min(...points.map((p) => p.y)),
+        Math.max(...points.map((p) => p.y)),
+        5,
+    );
+    const isTimeSeries = chartType === qr.ChartType.TimeSeries;
+    let xMin = Math.min(...xValues);
+    let xMax = Math.max(...xValues);
+    let xTicks: number[];
+    if (isTimeSeries) {
+        if (xMin === xMax) {
+            xMin -= 1;
+            xMax += 1;
+        }
+        xTicks = [0, 1, 2, 3, 4].map((i) => xMin + ((xMax - xMin) * i) / 4);
+    } else {
+        xTicks = getNiceTicks(xMin, xMax, 5);
+        xMin = xTicks[0];
+        xMax = xTicks[xTicks.length - 1];
+    }
+    const showTime = xMax - xMin < 2 * 24 * 60 * 60 * 1000;
+    const formatX = (value: number) =>
+        isTimeSeries
+            ? showTime
+                ? new Date(value).toLocaleString()
+                : new Date(value).toLocaleDateString()
+            : formatChartValue(value);
+
+    const plotWidth = size.width - margin.left - margin.right;
+    const plotHeight = size.height - margin.top - margin.bottom;
+    const yMin = yTicks[0];
+    const yMax = yTicks[yTicks.length - 1];
+    const toX = (value: number) =>
+        margin.left + ((value - xMin) / (xMax - xMin)) * plotWidth;
+    const toY = (value: number) =>
+        margin.top + plotHeight - ((value - yMin) / (yMax - yMin)) * plotHeight;
+
+    return (
+        <>
+            <ValueAxis ticks={yTicks} toY={toY} size={size} />
+            {xTicks.map((tick, index) => (
+                <text
+                    key={index}
+                    x={toX(tick)}
+                    y={size.height - margin.bottom + 16}
+                    textAnchor={
+                        isTimeSeries && index === 0
+                            ? "start"
+                            : isTimeSeries && index === xTicks.length - 1
+                              ? "end"
+                              : "middle"
+                    }
+                    style={{ fill: textColor, fontFamily: fontFamily }}
+                    fontSize={11}
+                >
+                    {formatX(tick)}
+                </text>
+            ))}
+            {series.map((s, seriesIndex) => (
+                <g key={seriesIndex}>
+                    {isTimeSeries && (
+                        <polyline
+                            points={s.points
+                                .map((p) => `${toX(p.x as number)},${toY(p.y)}`)
+                                .join(" ")}
+                            style={{
+                                fill: "none",
+                                stroke: getColor(seriesIndex),
+                            }}
+                            strokeWidth={2}
+                        />
+                    )}
+                    {(!isTimeSeries || s.points.length <= 100) &&
+                        s.points.map((point, index) => (
+                            <circle
+                                key={index}
+                                cx={toX(point.x as number)}
+                                cy={toY(point.y)}
+                                r={3}
+                                style={{ fill: getColor(seriesIndex) }}
+                            >
+                                <title>{`${formatX(point.x as number)}: ${point.y}`}</title>
+                            </circle>
+                        ))}
+                </g>
+            ))}
+        </>
+    );
+}
+
+function renderPieChart(series: ChartSeries, size: ChartSize) {
+    const total = series.points.reduce((sum, p) => sum + p.y, 0);
+    const radius = Math.max(
+        10,
+        Math.min(size.width, size.height - margin.top) / 2 - 16,
+    );
+    const centerX = size.width / 2;
+    const centerY = margin.top + (size.height - margin.top) / 2;
+    let angle = -Math.PI / 2;
+    return (
+        <g>
+            {series.points.map((point, index) => {
+                const sliceAngle = (point.y / total) * 2 * Math.PI;
+                const startX = centerX + radius * Math.cos(angle);
+                const startY = centerY + radius * Math.sin(angle);
+                angle += sliceAngle;
+                const endX = centerX + radius * Math.cos(angle);
+                const endY = centerY + radius * Math.sin(angle);
+                const title = `${point.x}: ${point.y} (${((point.y / total) * 100).toFixed(1)}%)`;
+                // a single slice is drawn as a circle since its arc would start and end at the same point
+                return series.points.length === 1 ? (
+                    <circle
+                        key={index}
+                        cx={centerX}
+                        cy={centerY}
+                        r={radius}
+                        style={{ fill: getColor(index) }}
+                    >
+                        <title>{title}</title>
+                    </circle>
+                ) : (
+                    <path
+                        key={index}
+                        d={`M ${centerX} ${centerY} L ${startX} ${startY} A ${radius} ${radius} 0 ${sliceAngle > Math.PI ? 1 : 0} 1 ${endX} ${endY} Z`}
+                        style={{
+                            fill: getColor(index),
+                            stroke: backgroundColor,
+                        }}
+                    >
+                        <title>{title}</title>
+                    </path>
+                );
+            })}
+        </g>
+    );
+}
+
+/**
+ * Charts the values of a result set of the query
+ */
+export const ResultChart = () => {
+    const classes = useStyles();
+    const context = useContext(QueryResultContext);
+    const webViewState = useVscodeWebview<
+        qr.QueryResultWebviewState,
+        qr.QueryResultReducers
+    >();
+    const metadata = context?.state;
+    const containerRef = useRef<HTMLDivElement>(null);
+    const svgRef = useRef<SVGSVGElement>(null);
+    const [size, setSize] = useState<ChartSize>({ width: 0, height: 0 });
+    const [rows, setRows] = useState<qr.DbCellValue[][]>([]);
+
+    const summaries: qr.ResultSetSummary[] = Object.values(
+        metadata?.resultSetSummaries ?? {},
+    ).flatMap((batch) => Object.values(batch));
+    const savedOptions = metadata?.tabStates?.chartOptions;
+    const summary =
+        summaries.find(
+            (s) =>
+                s.batchId === savedOptions?.batchId &&
+                s.id === savedOptions?.resultId,
+        ) ?? summaries[0];
+    const options: qr.ChartOptions | undefined = !summary
+        ? undefined
+        : isValidChartOptions(savedOptions, summary)
+          ? savedOptions
+          : getDefaultChartOptions(
+                summary,
+                savedOptions?.chartType ?? qr.ChartType.Bar,
+            );
+    const columns = summary?.columnInfo ?? [];
+
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) {
+            return;
+        }
+        const observer = new ResizeObserver(() => {
+            setSize({
+                width: container.clientWidth,
+                height: container.clientHeight,
+            });
+        });
+        observer.observe(container);
+        return () => observer.disconnect();
+    }, [containerRef.current]);
+
+    useEffect(() => {
+        if (!summary || !metadata?.uri) {
+            setRows([]);
+            return;
+        }
+        void webViewState.extensionRpc
+            .call("getRows", {
+                uri: metadata.uri,
+                batchId: summary.batchId,
+                resultId: summary.id,
+                rowStart: 0,
+                numberOfRows: Math.min(summary.rowCount, maxChartRows),
+            })
+            .then((response) => {
+                setRows((response as qr.ResultSetSubset)?.rows ?? []);
+            });
+    }, [metadata?.uri, summary?.batchId, summary?.id, summary?.rowCount]);
+
+    if (!context || !summary || !options) {
+        return undefined;
+    }
+
+    const setOptions = (changes: Partial<qr.ChartOptions>) => {
+        context.provider.setChartOptions({ ...options, ...changes });
+    };
+
+    const exportChart = async (format: qr.ChartExportFormat) => {
+        if (!svgRef.current) {
+            return;
+        }
+        context.provider.exportChart(
+            format,
+            format === "png"
+                ? await getPng(svgRef.current)
+                : getSvg(svgRef.current),
+        );
+    };
+
+    const series = getChartSeries(columns, rows, options);
+    const hasData = series.some((s) => s.points.length > 0);
+    const typeNames = chartTypeNames();
+    const isCategoryChart =
+        options.chartType === qr.ChartType.Bar ||
+        options.chartType === qr.ChartType.Line;
+
+    const renderChart = () => {
+        if (!hasData || size.width === 0 || size.height === 0) {
+            return undefined;
+        }
+        if (options.chartType === qr.ChartType.Pie) {
+            return (
+                <>
+                    <Legend
+                        names={series[0].points.map((p) => p.x as string)}
+                        width={size.width}
+                    />
+                    {renderPieChart(series[0], size)}
+                </>
+            );
+        }
+        return (
+            <>
+                <Legend names={series.map((s) => s.name)} width={size.width} />
+                {isCategoryChart
+                    ? renderCategoryChart(series, options.chartType, size)
+                    : renderXYChart(series, options.chartType, size)}
+            </>
+        );
+    };
+
+    return (
+        <div className={classes.root}>
+            <div className={classes.options}>
+                {summaries.length > 1 && (
+                    <Field size="small">
+                        <Dropdown
+                            size="small"
+                            className={classes.dropdown}
+                            value={locConstants.queryResult.resultSet(
+                                summaries.indexOf(summary) + 1,
+                            )}
+                            selectedOptions={[
+                                summaries.indexOf(summary).toString(),
+                            ]}
+                            onOptionSelect={(_event, data) => {
+                                const selected =
+                                    summaries[Number(data.optionValue)];
+                                context.provider.setChartOptions(
+                                    getDefaultChartOptions(
+                                        selected,
+                                        options.chartType,
+                                    ),
+                                );
+                            }}
+                        >
+                            {summaries.map((s, index) => (
+                                <Option
+                                    key={`${s.batchId}-${s.id}`}
+                                    value={index.toString()}
+                                >
+                                    {locConstants.queryResult.resultSet(
+                                        index + 1,
+                                    )}
+                                </Option>
+                            ))}
+                        </Dropdown>
+                    </Field>
+                )}
+                <Field label={locConstants.queryResult.chartType} size="small">
+                    <Dropdown
+                        size="small"
+                        className={classes.dropdown}
+                        value={typeNames[options.chartType]}
+                        selectedOptions={[options.chartType]}
+                        onOptionSelect={(_event, data) =>
+                            context.provider.setChartOptions(
+                                getDefaultChartOptions(
+                                    summary,
+                                    data.optionValue as qr.ChartType,
+                                ),
+                            )
+                        }
+                    >
+                        {Object.values(qr.ChartType).map((type) => (
+                            <Option key={type} value={type}>
+                                {typeNames[type]}
+                            </Option>
+                        ))}
+                    </Dropdown>
+                </Field>
+                <Field label={locConstants.queryResult.xColumn} size="small">
+                    <Dropdown
+                        size="small"
+                        className={classes.dropdown}
+                        value={columns[options.xColumn]?.columnName ?? ""}
+                        selectedOptions={[options.xColumn.toString()]}
+                        onOptionSelect={(_event, data) =>
+                            setOptions({ xColumn: Number(data.optionValue) })
+                        }
+                    >
+                        {columns.map((column, index) => (
+                            <Option key={index} value={index.toString()}>
+                                {column.columnName}
+                            </Option>
+                        ))}
+                    </Dropdown>
+                </Field>
+                <Field label={locConstants.queryResult.yColumns} size="small">
+                    <Dropdown
+                        size="small"
+                        className={classes.dropdown}
+                        multiselect={options.chartType !== qr.ChartType.Pie}
+                        value={options.yColumns
+                            .map((c) => columns[c]?.columnName)
+                            .join(", ")}
+                        selectedOptions={options.yColumns.map((c) =>
+                            c.toString(),
+                        )}
+                        onOptionSelect={(_event, data) => {
+                            const yColumns = data.selectedOptions
+                                .map(Number)
+                                .sort((a, b) => a - b);
+                            // keeps at least one column of values
+                            if (yColumns.length > 0) {
+                                setOptions({ yColumns: yColumns });
+                            }
+                        }}
+                    >
+                        {columns.map((column, index) => (
+                            <Option key={index} value={index.toString()}>
+                                {column.columnName}
+                            </Option>
+                        ))}
+                    </Dropdown>
+                </Field>
+                <Toolbar size="small">
+                    <ToolbarButton
+                        icon={<ArrowDownloadRegular />}
+                        disabled={!hasData}
+                        onClick={() => void exportChart("png")}
+                    >
+                        {locConstants.queryResult.saveChartAsPng}
+                    </ToolbarButton>
+                    <ToolbarButton
+                        icon={<ArrowDownloadRegular />}
+                        disabled={!hasData}
+                        onClick={() => void exportChart("svg")}
+                    >
+                        {locConstants.queryResult.saveChartAsSvg}
+                    </ToolbarButton>
+                </Toolbar>
+            </div>
+            {summary.rowCount > maxChartRows && (
+                <Text size={200} className={classes.message}>
+                    {locConstants.queryResult.chartRowLimit(
+                        maxChartRows,
+                        summary.rowCount,
+                    )}
+                </Text>
+            )}
+            {!hasData && rows.length > 0 && (
+                <Text className={classes.message}>
+                    {locConstants.queryResult.noChartData}
+                </Text>
+            )}
+            <div className={classes.chartContainer} ref={containerRef}>
+                <svg
+                    ref={svgRef}
+                    width={size.width}
+                    height={size.height}
+                    style={{ position: "absolute", left: 0, top: 0 }}
+                >
+                    <rect
+                        width={size.width}
+                        height={size.height}
+                        style={{ fill: backgroundColor }}
+                    />
+                    {renderChart()}
+                </svg>
+            </div>
+        </div>
+    );
+};
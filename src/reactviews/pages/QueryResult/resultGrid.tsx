@@ -25,6 +25,7 @@ import {
 } from "./table/formatters";
 import {
     DbCellValue,
+    isEditableColumn,
     QueryResultReducers,
     QueryResultWebviewState,
     ResultSetSummary,
@@ -33,6 +34,13 @@ import * as DOM from "./table/dom";
 import { locConstants } from "../../common/locConstants";
 import { VscodeWebviewContext } from "../../common/vscodeWebviewProvider";
 import { QueryResultState } from "./queryResultStateProvider";
+import { ResultEditing } from "./table/plugins/resultEditing.plugin";
+import { CellEditor } from "./table/cellEditor";
+import {
+    isEditableResultSet,
+    ResultSetEdits,
+    ROW_ID_FIELD,
+} from "./table/resultSetEdits";
 
 window.jQuery = $ as any;
 require("slickgrid/lib/jquery.event.drag-2.3.0.js");
@@ -141,10 +149,22 @@ const ResultGrid = forwardRef<ResultGridHandle, ResultGridProps>(
                 return;
             }
 
+            const resultEditing = isEditableResultSet(props.resultSetSummary)
+                ? new ResultEditing<Slick.SlickData>(
+                      props.uri!,
+                      props.resultSetSummary,
+                      props.webViewState!,
+                  )
+                : undefined;
+
             let columns: Slick.Column<Slick.SlickData>[] =
                 props.resultSetSummary.columnInfo.map((c, i) => {
                     return {
                         id: i.toString(),
+                        editor:
+                            resultEditing && isEditableColumn(c)
+                                ? CellEditor
+                                : undefined,
                         name:
                             c.columnName ===
                             "Microsoft SQL Server 2005 XML Showplan"
@@ -212,6 +232,15 @@ const ResultGrid = forwardRef<ResultGridHandle, ResultGridProps>(
                                   },
                     };
                 });
+            if (resultEditing) {
+                columns.forEach((column, i) => {
+                    column.formatter = pendingEditsFormatter(
+                        column.formatter!,
+                        i,
+                        resultEditing.edits,
+                    );
+                });
+            }
 
             let div = document.createElement("div");
             div.id = "grid";
@@ -223,23 +252,34 @@ const ResultGrid = forwardRef<ResultGridHandle, ResultGridProps>(
                 showRowNumber: true,
                 forceFitColumns: false,
                 defaultColumnWidth: 120,
+                editable: !!resultEditing,
+                autoEdit: false,
             };
             let rowNumberColumn = new RowNumberColumn<Slick.SlickData>({
                 autoCellSelection: false,
             });
             columns.unshift(rowNumberColumn.getColumnDefinition());
 
+            // rows are identified by their position in the result set, which is kept when they are filtered or sorted
+            const loadRows = (offset: number, count: number) =>
+                props.loadFunc(offset, count).then((rows) =>
+                    rows.map((row, index) => {
+                        row[ROW_ID_FIELD] = offset + index;
+                        return row;
+                    }),
+                );
+
             let collection = new VirtualizedCollection<any>(
                 50,
                 (_index) => {},
                 props.resultSetSummary?.rowCount ?? 0,
-                props.loadFunc,
+                loadRows,
             );
 
             let dataProvider = new HybridDataProvider(
                 collection,
                 (_startIndex, _count) => {
-                    return props.loadFunc(_startIndex, _count);
+                    return loadRows(_startIndex, _count);
                 },
                 (data: DbCellValue) => {
                     if (!data || data.isNull) {
@@ -268,6 +308,7 @@ const ResultGrid = forwardRef<ResultGridHandle, ResultGridProps>(
                 { dataProvider: dataProvider, columns: columns },
                 tableOptions,
                 props.gridParentRef,
+                resultEditing,
             );
             void filter();
             collection.setCollectionChangedCallback((startIndex, count) => {
@@ -302,6 +343,37 @@ const ResultGrid = forwardRef<ResultGridHandle, ResultGridProps>(
     },
 );
 
+/**
+ * Shows the pending changes of an editable result set on top of the values its rows were loaded with
+ * @param column index of the column in the result set
+ */
+function pendingEditsFormatter(
+    formatter: Slick.Formatter<Slick.SlickData>,
+    column: number,
+    edits: ResultSetEdits,
+): Slick.Formatter<Slick.SlickData> {
+    return (row, cell, value, columnDef, dataContext) => {
+        const rowId = dataContext?.[ROW_ID_FIELD];
+        const result = formatter(
+            row,
+            cell,
+            edits.getCellValue(rowId, column) ?? value,
+            columnDef,
+            dataContext,
+        );
+        const classes = edits.getCellCssClasses(rowId, column);
+        if (!classes) {
+            return result;
+        }
+        return typeof result === "object"
+            ? {
+                  text: result.text,
+                  addClasses: `${result.addClasses} ${classes}`,
+              }
+            : { text: result ?? "", addClasses: classes };
+    };
+}
+
 function isJsonCell(value: DbCellValue): boolean {
     return !!(value && !value.isNull && value.displayValue?.match(IsJsonRegex));
 }
@@ -0,0 +1,93 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { DbCellValue } from "../../../../sharedInterfaces/queryResult";
+import { locConstants } from "../../../common/locConstants";
+import { Keys } from "../keys";
+import { toGridCell } from "./resultSetEdits";
+
+interface CellEditorOptions<T extends Slick.SlickData>
+    extends Slick.Editors.EditorOptions<T> {
+    commitChanges: () => void;
+}
+
+/**
+ * Text editor for the cells of the result grid. Ctrl+0 sets the cell to NULL.
+ */
+export class CellEditor<T extends Slick.SlickData> {
+    private _input!: HTMLInputElement;
+    private _originalValue: DbCellValue | undefined;
+    private _isNull = false;
+
+    constructor(private _args: CellEditorOptions<T>) {
+        this.init();
+    }
+
+    public init(): void {
+        this._input = document.createElement("input");
+        this._input.type = "text";
+        this._input.className = "editor-text";
+        this._input.placeholder = locConstants.queryResult.null;
+        this._input.addEventListener("keydown", (e) => this.handleKeyDown(e));
+        this._input.addEventListener("input", () => {
+            this._isNull = false;
+        });
+        this._args.container.appendChild(this._input);
+        this._input.focus();
+    }
+
+    public destroy(): void {
+        this._input.remove();
+    }
+
+    public focus(): void {
+        this._input.focus();
+    }
+
+    public loadValue(item: T): void {
+        const cell = item[this._args.column.field!] as DbCellValue | undefined;
+        this._originalValue = cell;
+        this._isNull = cell?.isNull ?? true;
+        this._input.value = this._isNull ? "" : cell!.displayValue;
+        this._input.select();
+    }
+
+    public serializeValue(): DbCellValue {
+        return {
+            displayValue: this._isNull ? "" : this._input.value,
+            isNull: this._isNull,
+        };
+    }
+
+    public applyValue(item: T, state: DbCellValue): void {
+        (item as Slick.SlickData)[this._args.column.field!] = toGridCell(state);
+    }
+
+    public isValueChanged(): boolean {
+        const value = this.serializeValue();
+        return (
+            value.isNull !== (this._originalValue?.isNull ?? true) ||
+            (!value.isNull &&
+                value.displayValue !== this._originalValue?.displayValue)
+        );
+    }
+
+    public validate(): Slick.ValidateResults {
+        return { valid: true, msg: "" };
+    }
+
+    private handleKeyDown(e: KeyboardEvent): void {
+        if ((e.ctrlKey || e.metaKey) && e.key === Keys.zero) {
+            e.preventDefault();
+            e.stopPropagation();
+            this._isNull = true;
+            this._input.value = "";
+            this._args.commitChanges();
+        } else if (e.key === Keys.ArrowLeft || e.key === Keys.ArrowRight) {
+            // keep the arrow keys for moving the caret instead of the active cell
+            e.stopPropagation();
+        }
+    }
+}
@@ -28,6 +28,7 @@ export class HybridDataProvider<T extends Slick.SlickData>
     private _asyncDataProvider: AsyncDataProvider<T>;
     private _tableDataProvider: TableDataView<T>;
     private _dataCached: boolean = false;
+    private _addedRows: T[] = [];
 
     // private _onFilterStateChange = new vscode.EventEmitter<void>();
     // get onFilterStateChange(): vscode.Event<void> { return this._onFilterStateChange.event; }
@@ -86,12 +87,27 @@ export class HybridDataProvider<T extends Slick.SlickData>
         this._asyncDataProvider.dataRows = value;
     }
 
+    /**
+     * Rows added in the grid, they are shown after the rows of the result set and are not
+     * filtered or sorted
+     */
+    public get addedRows(): T[] {
+        return this._addedRows;
+    }
+
+    public set addedRows(value: T[]) {
+        this._addedRows = value;
+    }
+
     public getLength(): number {
-        return this.provider.getLength();
+        return this.provider.getLength() + this._addedRows.length;
     }
 
     public getItem(index: number): T {
-        return this.provider.getItem(index);
+        const length = this.provider.getLength();
+        return index < length
+            ? this.provider.getItem(index)
+            : this._addedRows[index - length];
     }
 
     public getItems(): T[] {
@@ -5,12 +5,14 @@
 
 import {
     QueryResultReducers,
+    QueryResultSaveAsTrigger,
     QueryResultWebviewState,
     ResultSetSummary,
 } from "../../../../../sharedInterfaces/queryResult";
 import { locConstants } from "../../../../common/locConstants";
 import { VscodeWebviewContext } from "../../../../common/vscodeWebviewProvider";
 import { HybridDataProvider } from "../hybridDataProvider";
+import { ResultEditing } from "./resultEditing.plugin";
 import { tryCombineSelectionsForResults } from "../utils";
 import "./contextMenu.css";
 
@@ -23,6 +25,7 @@ export class ContextMenu<T extends Slick.SlickData> {
         QueryResultWebviewState,
         QueryResultReducers
     >;
+    private resultEditing?: ResultEditing<T>;
     private activeContextMenu: JQuery<HTMLElement> | null = null;
 
     constructor(
@@ -32,10 +35,12 @@ export class ContextMenu<T extends Slick.SlickData> {
             QueryResultWebviewState,
             QueryResultReducers
         >,
+        resultEditing?: ResultEditing<T>,
     ) {
         this.uri = uri;
         this.resultSetSummary = resultSetSummary;
         this.webViewState = webViewState;
+        this.resultEditing = resultEditing;
     }
 
     public init(grid: Slick.Grid<T>): void {
@@ -69,6 +74,14 @@ export class ContextMenu<T extends Slick.SlickData> {
                 `<li data-action="copy" class="contextMenu">${locConstants.queryResult.copy}</li>` +
                 `<li data-action="copy-with-headers" class="contextMenu">${locConstants.queryResult.copyWithHeaders}</li>` +
                 `<li data-action="copy-headers" class="contextMenu">${locConstants.queryResult.copyHeaders}</li>` +
+                `<li data-action="save-as-csv" class="contextMenu">${locConstants.queryResult.saveAsCsv}</li>` +
+                `<li data-action="save-as-json" class="contextMenu">${locConstants.queryResult.saveAsJson}</li>` +
+                `<li data-action="save-as-excel" class="contextMenu">${locConstants.queryResult.saveAsExcel}</li>` +
+                `<li data-action="save-as-markdown" class="contextMenu">${locConstants.queryResult.saveAsMarkdown}</li>` +
+                `<li data-action="save-as-xml" class="contextMenu">${locConstants.queryResult.saveAsXml}</li>` +
+                `<li data-action="save-as-html" class="contextMenu">${locConstants.queryResult.saveAsHtml}</li>` +
+                `<li data-action="save-as-insert" class="contextMenu">${locConstants.queryResult.saveAsInsert}</li>` +
+                this.getEditMenuItems() +
                 `</ul>`,
         );
         // Remove any existing context menus to avoid duplication
@@ -80,6 +93,7 @@ export class ContextMenu<T extends Slick.SlickData> {
         let cell = this.grid.getCellFromEvent(e);
         $contextMenu
             .data("row", cell.row)
+            .data("cell", cell.cell)
             .css("top", mouseEvent.pageY)
             .css("left", mouseEvent.pageX)
             .show();
@@ -90,15 +104,51 @@ export class ContextMenu<T extends Slick.SlickData> {
             this.activeContextMenu = null;
         });
 
-        $contextMenu.on("click", "li", async (event) => {
+        $contextMenu.on("click", "li.contextMenu", async (event) => {
             const action = jQuery(event.target).data("action");
-            await this.handleMenuAction(action);
+            await this.handleMenuAction(action, cell);
             $contextMenu.hide(); // Hide the menu after an action is clicked
             this.activeContextMenu = null;
         });
     }
 
-    private async handleMenuAction(action: string): Promise<void> {
+    private getEditMenuItems(): string {
+        if (!this.resultEditing?.canEdit) {
+            return "";
+        }
+        let items =
+            `<li class="contextMenuSeparator" role="separator"></li>` +
+            `<li data-action="set-null" class="contextMenu">${locConstants.queryResult.setToNull}</li>` +
+            `<li data-action="add-row" class="contextMenu">${locConstants.queryResult.addRow}</li>` +
+            `<li data-action="delete-row" class="contextMenu">${locConstants.queryResult.deleteRow}</li>`;
+        if (this.resultEditing.edits.hasChanges) {
+            items +=
+                `<li data-action="revert-cell" class="contextMenu">${locConstants.queryResult.revertCell}</li>` +
+                `<li data-action="revert-row" class="contextMenu">${locConstants.queryResult.revertRow}</li>` +
+                `<li data-action="revert-all" class="contextMenu">${locConstants.queryResult.revertAllChanges}</li>` +
+                `<li data-action="preview-script" class="contextMenu">${locConstants.queryResult.previewScript}</li>` +
+                `<li data-action="commit-changes" class="contextMenu">${locConstants.queryResult.commitChanges}</li>`;
+        }
+        return items;
+    }
+
+    /**
+     * Gets the rows that are selected, or the clicked row if it is not part of the selection
+     */
+    private getSelectedRows(cell: Slick.Cell): number[] {
+        const rows = new Set<number>();
+        for (const range of this.grid.getSelectionModel().getSelectedRanges()) {
+            for (let row = range.fromRow; row <= range.toRow; row++) {
+                rows.add(row);
+            }
+        }
+        return rows.has(cell.row) ? Array.from(rows) : [cell.row];
+    }
+
+    private async handleMenuAction(
+        action: string,
+        cell: Slick.Cell,
+    ): Promise<void> {
         let selectedRanges = this.grid.getSelectionModel().getSelectedRanges();
         let selection = tryCombineSelectionsForResults(selectedRanges);
         switch (action) {
@@ -144,6 +194,46 @@ export class ContextMenu<T extends Slick.SlickData> {
                 });
                 console.log("Copy Headers action triggered");
                 break;
+            case "save-as-csv":
+            case "save-as-json":
+            case "save-as-excel":
+            case "save-as-markdown":
+            case "save-as-xml":
+            case "save-as-html":
+            case "save-as-insert":
+                await this.webViewState.extensionRpc.call("saveResults", {
+                    uri: this.uri,
+                    batchId: this.resultSetSummary.batchId,
+                    resultId: this.resultSetSummary.id,
+                    format: action.substring("save-as-".length),
+                    selection: selection,
+                    origin: QueryResultSaveAsTrigger.ContextMenu,
+                });
+                break;
+            case "set-null":
+                this.resultEditing?.setCellToNull(cell.row, cell.cell);
+                break;
+            case "add-row":
+                this.resultEditing?.addRow();
+                break;
+            case "delete-row":
+                this.resultEditing?.deleteRows(this.getSelectedRows(cell));
+                break;
+            case "revert-cell":
+                this.resultEditing?.revertCell(cell.row, cell.cell);
+                break;
+            case "revert-row":
+                this.resultEditing?.revertRows(this.getSelectedRows(cell));
+                break;
+            case "revert-all":
+                this.resultEditing?.revertAll();
+                break;
+            case "preview-script":
+                await this.resultEditing?.previewScript();
+                break;
+            case "commit-changes":
+                await this.resultEditing?.commit();
+                break;
             default:
                 console.warn("Unknown action:", action);
         }
@@ -0,0 +1,265 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import {
+    CommitResultEditsResult,
+    DbCellValue,
+    QueryResultReducers,
+    QueryResultWebviewState,
+    ResultSetSummary,
+} from "../../../../../sharedInterfaces/queryResult";
+import { VscodeWebviewContext } from "../../../../common/vscodeWebviewProvider";
+import { HybridDataProvider } from "../hybridDataProvider";
+import {
+    getRowValues,
+    ResultSetEdits,
+    ROW_ID_FIELD,
+    toGridCell,
+} from "../resultSetEdits";
+
+/**
+ * Lets the cells of a result set be edited in the grid and commits the changes to its base table
+ */
+export class ResultEditing<T extends Slick.SlickData>
+    implements Slick.Plugin<T>
+{
+    private grid!: Slick.Grid<T>;
+    private handler = new Slick.EventHandler();
+    private uri: string;
+    private resultSetSummary: ResultSetSummary;
+    private webViewState: VscodeWebviewContext<
+        QueryResultWebviewState,
+        QueryResultReducers
+    >;
+    private addedRowItems = new Map<number, T>();
+    private editedCell: { item: T; field: string; value: unknown } | undefined;
+    private refreshPending = false;
+    public readonly edits: ResultSetEdits;
+
+    constructor(
+        uri: string,
+        resultSetSummary: ResultSetSummary,
+        webViewState: VscodeWebviewContext<
+            QueryResultWebviewState,
+            QueryResultReducers
+        >,
+    ) {
+        this.uri = uri;
+        this.resultSetSummary = resultSetSummary;
+        this.webViewState = webViewState;
+        this.edits = new ResultSetEdits(resultSetSummary, () => this.refresh());
+    }
+
+    public init(grid: Slick.Grid<T>): void {
+        this.grid = grid;
+        this.handler
+            .subscribe(
+                this.grid.onBeforeEditCell,
+                (
+                    _e: Slick.DOMEvent,
+                    args: Slick.OnBeforeEditCellEventArgs<T>,
+                ) => this.handleBeforeEditCell(args),
+            )
+            .subscribe(
+                this.grid.onCellChange,
+                (_e: Slick.DOMEvent, args: Slick.OnCellChangeEventArgs<T>) =>
+                    this.handleCellChange(args),
+            )
+            .subscribe(this.grid.onBeforeCellEditorDestroy, () =>
+                this.handleBeforeCellEditorDestroy(),
+            );
+    }
+
+    public destroy(): void {
+        this.handler.unsubscribeAll();
+    }
+
+    /**
+     * Whether the results can still be edited, they become read-only once the changes are committed
+     */
+    public get canEdit(): boolean {
+        return !this.edits.isCommitted;
+    }
+
+    public setCellToNull(row: number, cell: number): void {
+        const item = this.grid.getDataItem(row);
+        const column = cell - 1;
+        if (!item || !this.edits.canEditCell(item[ROW_ID_FIELD], column)) {
+            return;
+        }
+        this.edits.updateCell(
+            item[ROW_ID_FIELD],
+            column,
+            this.getRowValues(item),
+            { displayValue: "", isNull: true },
+        );
+    }
+
+    public deleteRows(rows: number[]): void {
+        for (const row of rows) {
+            const item = this.grid.getDataItem(row);
+            if (item) {
+                this.edits.deleteRow(
+                    item[ROW_ID_FIELD],
+                    this.getRowValues(item),
+                );
+            }
+        }
+    }
+
+    public addRow(): void {
+        this.edits.addRow();
+        const row = this.grid.getDataLength() - 1;
+        this.grid.scrollRowIntoView(row, false);
+        this.grid.setActiveCell(row, 1);
+    }
+
+    public revertCell(row: number, cell: number): void {
+        const item = this.grid.getDataItem(row);
+        if (item) {
+            this.edits.revertCell(item[ROW_ID_FIELD], cell - 1);
+        }
+    }
+
+    public revertRows(rows: number[]): void {
+        // added rows are removed when reverted, so look up all the items first
+        const rowIds = rows
+            .map((row) => this.grid.getDataItem(row))
+            .filter((item) => !!item)
+            .map((item) => item[ROW_ID_FIELD]);
+        for (const rowId of rowIds) {
+            this.edits.revertRow(rowId);
+        }
+    }
+
+    public revertAll(): void {
+        this.edits.revertAll();
+    }
+
+    /**
+     * Opens the script that applies the pending changes in a new editor
+     */
+    public async previewScript(): Promise<void> {
+        this.grid.getEditorLock().commitCurrentEdit();
+        await this.webViewState.extensionRpc.call("previewEditScript", {
+            uri: this.uri,
+            batchId: this.resultSetSummary.batchId,
+            resultId: this.resultSetSummary.id,
+            edits: this.edits.getEdits(),
+        });
+    }
+
+    /**
+     * Commits the pending changes in a single transaction
+     */
+    public async commit(): Promise<void> {
+        if (!this.grid.getEditorLock().commitCurrentEdit()) {
+            return;
+        }
+        const result = (await this.webViewState.extensionRpc.call(
+            "commitEdits",
+            {
+                uri: this.uri,
+                batchId: this.resultSetSummary.batchId,
+                resultId: this.resultSetSummary.id,
+                edits: this.edits.getEdits(),
+            },
+        )) as CommitResultEditsResult;
+        if (result?.success) {
+            this.grid.setOptions({ editable: false });
+            this.edits.markCommitted();
+        }
+    }
+
+    private handleBeforeEditCell(
+        args: Slick.OnBeforeEditCellEventArgs<T>,
+    ): boolean {
+        const rowId = args.item?.[ROW_ID_FIELD];
+        if (
+            rowId === undefined ||
+            !this.edits.canEditCell(rowId, args.cell - 1)
+        ) {
+            return false;
+        }
+        // the editor reads and writes the data item, so it holds the pending value while the
+        // cell is edited and gets the value it was loaded with back afterwards
+        const field = args.column.field!;
+        this.editedCell = {
+            item: args.item,
+            field: field,
+            value: args.item[field],
+        };
+        const pendingValue = this.edits.getCellValue(rowId, args.cell - 1);
+        if (pendingValue) {
+            (args.item as Slick.SlickData)[field] = toGridCell(pendingValue);
+        }
+        return true;
+    }
+
+    private handleCellChange(args: Slick.OnCellChangeEventArgs<T>): void {
+        const field = this.grid.getColumns()[args.cell].field!;
+        const value: DbCellValue = args.item[field];
+        this.restoreEditedCell();
+        this.edits.updateCell(
+            args.item[ROW_ID_FIELD],
+            args.cell - 1,
+            this.getRowValues(args.item),
+            { displayValue: value.displayValue, isNull: value.isNull },
+        );
+    }
+
+    private handleBeforeCellEditorDestroy(): void {
+        this.restoreEditedCell();
+        if (this.refreshPending) {
+            this.refreshPending = false;
+            setTimeout(() => this.refresh());
+        }
+    }
+
+    private restoreEditedCell(): void {
+        if (this.editedCell) {
+            (this.editedCell.item as Slick.SlickData)[this.editedCell.field] =
+                this.editedCell.value;
+            this.editedCell = undefined;
+        }
+    }
+
+    /**
+     * Gets the values a row was loaded with
+     */
+    private getRowValues(item: T): DbCellValue[] {
+        return getRowValues(item, this.resultSetSummary.columnInfo.length);
+    }
+
+    private refresh(): void {
+        if (this.grid.getCellEditor()) {
+            // the rows cannot be redrawn while a cell is edited, wait until the editor is closed
+            this.refreshPending = true;
+            return;
+        }
+        const data = this.grid.getData() as HybridDataProvider<T>;
+        data.addedRows = this.edits.addedRowIds.map((rowId) => {
+            if (!this.addedRowItems.has(rowId)) {
+                this.addedRowItems.set(rowId, this.createEmptyRow(rowId));
+            }
+            return this.addedRowItems.get(rowId)!;
+        });
+        this.grid.updateRowCount();
+        this.grid.invalidate();
+    }
+
+    private createEmptyRow(rowId: number): T {
+        const row: Slick.SlickData = { [ROW_ID_FIELD]: rowId };
+        this.resultSetSummary.columnInfo.forEach((_column, index) => {
+            row[index.toString()] = {
+                displayValue: "",
+                ariaLabel: "",
+                isNull: true,
+                invariantCultureDisplayValue: "",
+            };
+        });
+        return row as T;
+    }
+}
@@ -0,0 +1,274 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import {
+    DbCellValue,
+    getEditableBaseTable,
+    isEditableColumn,
+    ResultRowEdit,
+    ResultRowEditType,
+    ResultSetSummary,
+} from "../../../../sharedInterfaces/queryResult";
+
+/**
+ * Name of the field that holds the id of a row in the grid's data items
+ */
+export const ROW_ID_FIELD = "rowId";
+
+export const DIRTY_CELL_CSS_CLASS = "cell-dirty";
+export const DELETED_ROW_CSS_CLASS = "row-deleted";
+export const ADDED_ROW_CSS_CLASS = "row-added";
+
+/**
+ * Whether the rows of a result set can be edited in the grid
+ */
+export function isEditableResultSet(
+    resultSetSummary: ResultSetSummary,
+): boolean {
+    return !!getEditableBaseTable(resultSetSummary.columnInfo);
+}
+
+/**
+ * Keeps track of the changes made to the rows of a result set in the grid until they are committed.
+ * The grid's data items are never changed, the pending values are shown on top of them instead.
+ * Rows are identified by their position in the result set, rows added in the grid are numbered
+ * after the last row of the result set.
+ */
+export class ResultSetEdits {
+    private _edits = new Map<number, ResultRowEdit>();
+    private _addedRowIds: number[] = [];
+    private _nextAddedRowId: number;
+    private _isCommitted = false;
+
+    constructor(
+        private _resultSetSummary: ResultSetSummary,
+        private _onChanged: () => void,
+    ) {
+        this._nextAddedRowId = _resultSetSummary.rowCount;
+    }
+
+    public get hasChanges(): boolean {
+        return this._edits.size > 0;
+    }
+
+    /**
+     * Whether the changes have been committed. The results cannot be edited any further
+     * until the query is run again.
+     */
+    public get isCommitted(): boolean {
+        return this._isCommitted;
+    }
+
+    /**
+     * The ids of the rows added in the grid, in the order they were added
+     */
+    public get addedRowIds(): number[] {
+        return this._addedRowIds;
+    }
+
+    public getEdits(): ResultRowEdit[] {
+        return Array.from(this._edits.values()).sort(
+            (a, b) => a.rowId - b.rowId,
+        );
+    }
+
+    public getRowEditType(rowId: number): ResultRowEditType | undefined {
+        return this._edits.get(rowId)?.type;
+    }
+
+    public canEditCell(rowId: number, column: number): boolean {
+        const columnInfo = this._resultSetSummary.columnInfo[column];
+        return (
+            !this._isCommitted &&
+            !!columnInfo &&
+            isEditableColumn(columnInfo) &&
+            this.getRowEditType(rowId) !== ResultRowEditType.Delete
+        );
+    }
+
+    public isCellDirty(rowId: number, column: number): boolean {
+        return (
+            !this._isCommitted &&
+            this._edits.get(rowId)?.newValues[column] !== undefined
+        );
+    }
+
+    /**
+     * Gets the css classes that show the pending changes of a cell
+     */
+    public getCellCssClasses(rowId: number, column: number): string {
+        const classes: string[] = [];
+        switch (this.getRowEditType(rowId)) {
+            case ResultRowEditType.Delete:
+                classes.push(DELETED_ROW_CSS_CLASS);
+                break;
+            case ResultRowEditType.Insert:
+                if (!this._isCommitted) {
+                    classes.push(ADDED_ROW_CSS_CLASS);
+                }
+                break;
+        }
+        if (this.isCellDirty(rowId, column)) {
+            classes.push(DIRTY_CELL_CSS_CLASS);
+        }
+        return classes.join(" ");
+    }
+
+    /**
+     * Gets the pending value of a cell
+     * @returns the new value, or undefined if the cell has not been changed
+     */
+    public getCellValue(
+        rowId: number,
+        column: number,
+    ): DbCellValue | undefined {
+        return this._edits.get(rowId)?.newValues[column];
+    }
+
+    /**
+     * Records the new value of a cell
+     * @param originalValues the values of the row before it was edited
+     */
+    public updateCell(
+        rowId: number,
+        column: number,
+        originalValues: DbCellValue[],
+        value: DbCellValue,
+    ): void {
+        let edit = this._edits.get(rowId);
+        if (!edit) {
+            edit = {
+                type: ResultRowEditType.Update,
+                rowId: rowId,
+                originalValues: originalValues,
+                newValues: {},
+            };
+            this._edits.set(rowId, edit);
+        }
+        const originalValue = edit.originalValues?.[column];
+        if (
+            edit.type === ResultRowEditType.Update &&
+            originalValue &&
+            originalValue.isNull === value.isNull &&
+            (value.isNull || originalValue.displayValue === value.displayValue)
+        ) {
+            // the cell was changed back to the value it was loaded with
+            this.revertCell(rowId, column);
+            return;
+        }
+        edit.newValues[column] = { ...value };
+        this._onChanged();
+    }
+
+    /**
+     * Marks a row to be deleted, discarding its pending changes. Rows added in the grid are removed.
+     * @param originalValues the values of the row before it was edited
+     */
+    public deleteRow(rowId: number, originalValues: DbCellValue[]): void {
+        const edit = this._edits.get(rowId);
+        if (edit?.type === ResultRowEditType.Insert) {
+            this.revertRow(rowId);
+            return;
+        }
+        this._edits.set(rowId, {
+            type: ResultRowEditType.Delete,
+            rowId: rowId,
+            originalValues: edit?.originalValues ?? originalValues,
+            newValues: {},
+        });
+        this._onChanged();
+    }
+
+    /**
+     * Adds an empty row to the end of the results
+     * @returns the id of the new row
+     */
+    public addRow(): number {
+        const rowId = this._nextAddedRowId++;
+        this._addedRowIds.push(rowId);
+        this._edits.set(rowId, {
+            type: ResultRowEditType.Insert,
+            rowId: rowId,
+            newValues: {},
+        });
+        this._onChanged();
+        return rowId;
+    }
+
+    /**
+     * Discards the pending change to a cell
+     */
+    public revertCell(rowId: number, column: number): void {
+        const edit = this._edits.get(rowId);
+        if (!edit) {
+            return;
+        }
+        delete edit.newValues[column];
+        if (
+            edit.type === ResultRowEditType.Update &&
+            Object.keys(edit.newValues).length === 0
+        ) {
+            this._edits.delete(rowId);
+        }
+        this._onChanged();
+    }
+
+    /**
+     * Discards the pending changes to a row. Rows added in the grid are removed.
+     */
+    public revertRow(rowId: number): void {
+        this._edits.delete(rowId);
+        this._addedRowIds = this._addedRowIds.filter((id) => id !== rowId);
+        this._onChanged();
+    }
+
+    /**
+     * Discards all pending changes
+     */
+    public revertAll(): void {
+        this._edits.clear();
+        this._addedRowIds = [];
+        this._onChanged();
+    }
+
+    /**
+     * Marks the pending changes as committed. The changed values stay visible, but the results
+     * cannot be edited any further.
+     */
+    public markCommitted(): void {
+        this._isCommitted = true;
+        this._onChanged();
+    }
+}
+
+/**
+ * Gets the cell values of a data item of the grid
+ */
+export function getRowValues(
+    row: Slick.SlickData,
+    columnCount: number,
+): DbCellValue[] {
+    const values: DbCellValue[] = [];
+    for (let i = 0; i < columnCount; i++) {
+        values.push({
+            displayValue: row[i.toString()]?.displayValue ?? "",
+            isNull: row[i.toString()]?.isNull ?? true,
+        });
+    }
+    return values;
+}
+
+/**
+ * Converts a cell value to the shape the grid's formatters and filters expect
+ */
+export function toGridCell(value: DbCellValue): Slick.SlickData {
+    const displayValue = value.isNull ? "" : value.displayValue;
+    return {
+        displayValue: displayValue,
+        ariaLabel: displayValue,
+        isNull: value.isNull,
+        invariantCultureDisplayValue: displayValue,
+    };
+}
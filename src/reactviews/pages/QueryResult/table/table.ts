@@ -30,6 +30,7 @@ import {
 import { VscodeWebviewContext } from "../../../common/vscodeWebviewProvider";
 import { QueryResultState } from "../queryResultStateProvider";
 import { CopyKeybind } from "./plugins/copyKeybind.plugin";
+import { ResultEditing } from "./plugins/resultEditing.plugin";
 // import { MouseWheelSupport } from './plugins/mousewheelTableScroll.plugin';
 
 function getDefaultOptions<T extends Slick.SlickData>(): Slick.GridOptions<T> {
@@ -83,6 +84,7 @@ export class Table<T extends Slick.SlickData> implements IThemable {
         configuration?: ITableConfiguration<T>,
         options?: Slick.GridOptions<T>,
         gridParentRef?: React.RefObject<HTMLDivElement>,
+        resultEditing?: ResultEditing<T>,
     ) {
         this.uri = uri;
         this.resultSetSummary = resultSetSummary;
@@ -157,8 +159,16 @@ export class Table<T extends Slick.SlickData> implements IThemable {
         this.registerPlugin(
             new HeaderFilter(webViewState.themeKind, this.queryResultState),
         );
+        if (resultEditing) {
+            this.registerPlugin(resultEditing);
+        }
         this.registerPlugin(
-            new ContextMenu(this.uri, this.resultSetSummary, this.webViewState),
+            new ContextMenu(
+                this.uri,
+                this.resultSetSummary,
+                this.webViewState,
+                resultEditing,
+            ),
         );
         this.registerPlugin(
             new CopyKeybind(this.uri, this.resultSetSummary, this.webViewState),
@@ -0,0 +1,196 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import {
+    Badge,
+    Checkbox,
+    Text,
+    Tree,
+    TreeItem,
+    TreeItemLayout,
+    makeStyles,
+    tokens,
+} from "@fluentui/react-components";
+
+import {
+    SchemaCompareDifference,
+    SchemaUpdateAction,
+} from "../../../sharedInterfaces/schemaCompare";
+import { locConstants } from "../../common/locConstants";
+
+const useStyles = makeStyles({
+    treeContainer: {
+        overflow: "auto",
+        height: "100%",
+    },
+    selected: {
+        backgroundColor: tokens.colorNeutralBackground1Selected,
+    },
+    names: {
+        display: "flex",
+        gap: "8px",
+        alignItems: "center",
+    },
+    targetName: {
+        color: tokens.colorNeutralForeground3,
+    },
+});
+
+interface DifferencesTreeProps {
+    differences: SchemaCompareDifference[];
+    selectedId?: number;
+    disabled: boolean;
+    onSelect: (difference: SchemaCompareDifference) => void;
+    onInclude: (difference: SchemaCompareDifference, included: boolean) => void;
+}
+
+const actionBadges: {
+    [action: number]: {
+        color: "success" | "warning" | "danger";
+        label: () => string;
+    };
+} = {
+    [SchemaUpdateAction.Add]: {
+        color: "success",
+        label: () => locConstants.schemaCompare.add,
+    },
+    [SchemaUpdateAction.Change]: {
+        color: "warning",
+        label: () => locConstants.schemaCompare.change,
+    },
+    [SchemaUpdateAction.Delete]: {
+        color: "danger",
+        label: () => locConstants.schemaCompare.delete,
+    },
+};
+
+/**
+ * Shows the differences grouped by the type of the objects
+ */
+export const DifferencesTree: React.FC<DifferencesTreeProps> = ({
+    differences,
+    selectedId,
+    disabled,
+    onSelect,
+    onInclude,
+}) => {
+    const classes = useStyles();
+
+    const groups = new Map<string, SchemaCompareDifference[]>();
+    for (const difference of differences) {
+        if (!groups.has(difference.objectType)) {
+            groups.set(difference.objectType, []);
+        }
+        groups.get(difference.objectType)!.push(difference);
+    }
+    const objectTypes = [...groups.keys()].sort((a, b) => a.localeCompare(b));
+
+    return (
+        <div className={classes.treeContainer}>
+            <Tree
+                aria-label={locConstants.schemaCompare.differences}
+                size="small"
+                defaultOpenItems={objectTypes}
+            >
+                {objectTypes.map((objectType) => {
+                    const group = groups.get(objectType)!;
+                    const includedCount = group.filter(
+                        (d) => d.included,
+                    ).length;
+                    return (
+                        <TreeItem
+                            key={objectType}
+                            value={objectType}
+                            itemType="branch"
+                        >
+                            <TreeItemLayout
+                                aside={
+                                    <Text size={200}>
+                                        {`${includedCount}/${group.length}`}
+                                    </Text>
+                                }
+                            >
+                                {objectType}
+                            </TreeItemLayout>
+                            <Tree>
+                                {group.map((difference) => {
+                                    const badge =
+                                        actionBadges[difference.updateAction];
+                                    return (
+                                        <TreeItem
+                                            key={difference.id}
+                                            value={difference.id}
+                                            itemType="leaf"
+                                            className={
+                                                difference.id === selectedId
+                                                    ? classes.selected
+                                                    : undefined
+                                            }
+                                            onClick={() => onSelect(difference)}
+                                        >
+                                            <TreeItemLayout
+                                                iconBefore={
+                                                    <Checkbox
+                                                        checked={
+                                                            difference.included
+                                                        }
+                                                        disabled={disabled}
+                                                        aria-label={
+                                                            locConstants
+                                                                .schemaCompare
+                                                                .include
+                                                        }
+                                                        onClick={(e) =>
+                                                            e.stopPropagation()
+                                                        }
+                                                        onChange={(_e, data) =>
+                                                            onInclude(
+                                                                difference,
+                                                                data.checked ===
+                                                                    true,
+                                                            )
+                                                        }
+                                                    />
+                                                }
+                                                aside={
+                                                    <Badge
+                                                        appearance="tint"
+                                                        color={badge?.color}
+                                                        size="small"
+                                                    >
+                                                        {badge?.label()}
+                                                    </Badge>
+                                                }
+                                            >
+                                                <span className={classes.names}>
+                                                    <span>
+                                                        {difference.sourceName ??
+                                                            difference.targetName}
+                                                    </span>
+                                                    {difference.sourceName &&
+                                                        difference.targetName &&
+                                                        difference.targetName !==
+                                                            difference.sourceName && (
+                                                            <span
+                                                                className={
+                                                                    classes.targetName
+                                                                }
+                                                            >
+                                                                {`→ ${difference.targetName}`}
+                                                            </span>
+                                                        )}
+                                                </span>
+                                            </TreeItemLayout>
+                                        </TreeItem>
+                                    );
+                                })}
+                            </Tree>
+                        </TreeItem>
+                    );
+                })}
+            </Tree>
+        </div>
+    );
+};
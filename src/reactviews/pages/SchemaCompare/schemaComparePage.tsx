@@ -0,0 +1,364 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import {
+    Button,
+    Card,
+    CardHeader,
+    MessageBar,
+    MessageBarBody,
+    Spinner,
+    Text,
+    Toolbar,
+    ToolbarButton,
+    ToolbarDivider,
+    makeStyles,
+    tokens,
+} from "@fluentui/react-components";
+import {
+    ArrowSwap20Regular,
+    CheckboxChecked20Regular,
+    CheckboxUnchecked20Regular,
+    Database20Regular,
+    DocumentText20Regular,
+    ErrorCircleRegular,
+    Folder20Regular,
+    Play20Regular,
+    Send20Regular,
+    Stop20Regular,
+} from "@fluentui/react-icons";
+import { DiffEditor } from "@monaco-editor/react";
+import { useContext, useEffect, useState } from "react";
+
+import { ApiStatus } from "../../../sharedInterfaces/webview";
+import {
+    SchemaCompareDifference,
+    SchemaCompareEndpoint,
+    SchemaCompareEndpointType,
+} from "../../../sharedInterfaces/schemaCompare";
+import { DifferencesTree } from "./differencesTree";
+import { SchemaCompareContext } from "./schemaCompareStateProvider";
+import { locConstants } from "../../common/locConstants";
+import { resolveVscodeThemeType } from "../../common/utils";
+
+const useStyles = makeStyles({
+    outerDiv: {
+        height: "100%",
+        width: "100%",
+        display: "flex",
+        flexDirection: "column",
+        fontFamily: tokens.fontFamilyBase,
+    },
+    endpointsContainer: {
+        display: "flex",
+        flexDirection: "row",
+        alignItems: "center",
+        gap: "8px",
+        padding: "8px",
+    },
+    endpointCard: {
+        flexGrow: 1,
+        flexBasis: 0,
+        minWidth: 0,
+    },
+    resultsContainer: {
+        display: "flex",
+        flexDirection: "column",
+        flexGrow: 1,
+        minHeight: 0,
+        borderTop: `1px solid ${tokens.colorNeutralStroke2}`,
+    },
+    treeContainer: {
+        height: "40%",
+        borderBottom: `1px solid ${tokens.colorNeutralStroke2}`,
+    },
+    scriptsHeader: {
+        display: "flex",
+        flexDirection: "row",
+        padding: "4px 8px",
+    },
+    scriptsHeaderTitle: {
+        flexGrow: 1,
+        flexBasis: 0,
+    },
+    diffEditorContainer: {
+        flexGrow: 1,
+        minHeight: 0,
+    },
+    spinnerDiv: {
+        height: "100%",
+        width: "100%",
+        display: "flex",
+        justifyContent: "center",
+        alignItems: "center",
+        flexDirection: "column",
+        padding: "20px",
+    },
+    errorIcon: {
+        fontSize: "100px",
+        opacity: 0.5,
+    },
+});
+
+const endpointIcons = {
+    [SchemaCompareEndpointType.Database]: <Database20Regular />,
+    [SchemaCompareEndpointType.Dacpac]: <DocumentText20Regular />,
+    [SchemaCompareEndpointType.Project]: <Folder20Regular />,
+};
+
+interface EndpointCardProps {
+    title: string;
+    endpoint?: SchemaCompareEndpoint;
+    disabled: boolean;
+    onSelect: () => void;
+}
+
+const EndpointCard: React.FC<EndpointCardProps> = ({
+    title,
+    endpoint,
+    disabled,
+    onSelect,
+}) => {
+    const classes = useStyles();
+    return (
+        <Card className={classes.endpointCard} size="small">
+            <CardHeader
+                image={
+                    endpoint ? endpointIcons[endpoint.endpointType] : undefined
+                }
+                header={
+                    <Text weight="semibold">
+                        {endpoint ? `${title}: ${endpoint.displayName}` : title}
+                    </Text>
+                }
+                description={
+                    <Text size={200} truncate wrap={false}>
+                        {endpoint?.detail ??
+                            locConstants.schemaCompare.noEndpointSelected}
+                    </Text>
+                }
+                action={
+                    <Button size="small" disabled={disabled} onClick={onSelect}>
+                        {locConstants.schemaCompare.select}
+                    </Button>
+                }
+            />
+        </Card>
+    );
+};
+
+export const SchemaComparePage = () => {
+    const classes = useStyles();
+    const context = useContext(SchemaCompareContext);
+    const state = context?.state;
+    const [selectedDifference, setSelectedDifference] = useState<
+        SchemaCompareDifference | undefined
+    >(undefined);
+
+    useEffect(() => {
+        // keeps the selection when the differences are included or excluded
+        setSelectedDifference(
+            state?.differences.find((d) => d.id === selectedDifference?.id),
+        );
+    }, [state?.differences]);
+
+    if (!context || !state) {
+        return undefined;
+    }
+
+    const isComparing = state.compareStatus === ApiStatus.Loading;
+    const hasDifferences =
+        state.compareStatus === ApiStatus.Loaded &&
+        state.differences.length > 0;
+    const hasIncludedDifferences = state.differences.some((d) => d.included);
+    const targetType = state.target?.endpointType;
+
+    const renderResults = () => {
+        switch (state.compareStatus) {
+            case ApiStatus.NotStarted:
+                return (
+                    <div className={classes.spinnerDiv}>
+                        <Text>
+                            {locConstants.schemaCompare.selectSourceAndTarget}
+                        </Text>
+                    </div>
+                );
+            case ApiStatus.Loading:
+                return (
+                    <div className={classes.spinnerDiv}>
+                        <Spinner
+                            label={locConstants.schemaCompare.comparing}
+                            labelPosition="below"
+                        />
+                    </div>
+                );
+            case ApiStatus.Error:
+                return (
+                    <div className={classes.spinnerDiv}>
+                        <ErrorCircleRegular className={classes.errorIcon} />
+                        <Text size={400}>{state.errorMessage ?? ""}</Text>
+                    </div>
+                );
+            case ApiStatus.Loaded:
+                if (state.differences.length === 0) {
+                    return (
+                        <div className={classes.spinnerDiv}>
+                            <Text>
+                                {locConstants.schemaCompare.noDifferences}
+                            </Text>
+                        </div>
+                    );
+                }
+                return (
+                    <>
+                        <div className={classes.treeContainer}>
+                            <DifferencesTree
+                                differences={state.differences}
+                                selectedId={selectedDifference?.id}
+                                disabled={state.isUpdating}
+                                onSelect={setSelectedDifference}
+                                onInclude={(difference, included) =>
+                                    context.includeDifference(
+                                        difference.id,
+                                        included,
+                                    )
+                                }
+                            />
+                        </div>
+                        <div className={classes.scriptsHeader}>
+                            <Text
+                                weight="semibold"
+                                className={classes.scriptsHeaderTitle}
+                            >
+                                {locConstants.schemaCompare.sourceScript}
+                            </Text>
+                            <Text
+                                weight="semibold"
+                                className={classes.scriptsHeaderTitle}
+                            >
+                                {locConstants.schemaCompare.targetScript}
+                            </Text>
+                        </div>
+                        <div className={classes.diffEditorContainer}>
+                            <DiffEditor
+                                height={"100%"}
+                                width={"100%"}
+                                language="sql"
+                                theme={resolveVscodeThemeType(
+                                    context.themeKind,
+                                )}
+                                original={
+                                    selectedDifference?.sourceScript ?? ""
+                                }
+                                modified={
+                                    selectedDifference?.targetScript ?? ""
+                                }
+                                options={{
+                                    readOnly: true,
+                                    originalEditable: false,
+                                    renderSideBySide: true,
+                                }}
+                            />
+                        </div>
+                    </>
+                );
+        }
+    };
+
+    return (
+        <div className={classes.outerDiv}>
+            <div className={classes.endpointsContainer}>
+                <EndpointCard
+                    title={locConstants.schemaCompare.source}
+                    endpoint={state.source}
+                    disabled={isComparing || state.isUpdating}
+                    onSelect={() => context.selectSource()}
+                />
+                <Button
+                    appearance="subtle"
+                    icon={<ArrowSwap20Regular />}
+                    title={locConstants.schemaCompare.swap}
+                    aria-label={locConstants.schemaCompare.swap}
+                    disabled={isComparing || state.isUpdating}
+                    onClick={() => context.swapEndpoints()}
+                />
+                <EndpointCard
+                    title={locConstants.schemaCompare.target}
+                    endpoint={state.target}
+                    disabled={isComparing || state.isUpdating}
+                    onSelect={() => context.selectTarget()}
+                />
+            </div>
+            <Toolbar size="small">
+                {isComparing ? (
+                    <ToolbarButton
+                        icon={<Stop20Regular />}
+                        onClick={() => context.cancelCompare()}
+                    >
+                        {locConstants.schemaCompare.stop}
+                    </ToolbarButton>
+                ) : (
+                    <ToolbarButton
+                        icon={<Play20Regular />}
+                        disabled={
+                            !state.source || !state.target || state.isUpdating
+                        }
+                        onClick={() => context.compare()}
+                    >
+                        {locConstants.schemaCompare.compare}
+                    </ToolbarButton>
+                )}
+                <ToolbarDivider />
+                <ToolbarButton
+                    icon={<CheckboxChecked20Regular />}
+                    disabled={!hasDifferences || state.isUpdating}
+                    onClick={() => context.includeAllDifferences(true)}
+                >
+                    {locConstants.schemaCompare.includeAll}
+                </ToolbarButton>
+                <ToolbarButton
+                    icon={<CheckboxUnchecked20Regular />}
+                    disabled={!hasDifferences || state.isUpdating}
+                    onClick={() => context.includeAllDifferences(false)}
+                >
+                    {locConstants.schemaCompare.excludeAll}
+                </ToolbarButton>
+                <ToolbarDivider />
+                <ToolbarButton
+                    icon={<DocumentText20Regular />}
+                    // the tools service only generates scripts for databases
+                    disabled={
+                        !hasIncludedDifferences ||
+                        !hasDifferences ||
+                        state.isUpdating ||
+                        targetType !== SchemaCompareEndpointType.Database
+                    }
+                    onClick={() => context.generateScript()}
+                >
+                    {locConstants.schemaCompare.generateScript}
+                </ToolbarButton>
+                <ToolbarButton
+                    icon={<Send20Regular />}
+                    disabled={
+                        !hasIncludedDifferences ||
+                        !hasDifferences ||
+                        state.isUpdating ||
+                        targetType === SchemaCompareEndpointType.Dacpac
+                    }
+                    onClick={() => context.applyChanges()}
+                >
+                    {locConstants.schemaCompare.apply}
+                </ToolbarButton>
+                {state.isUpdating && <Spinner size="extra-tiny" />}
+            </Toolbar>
+            {state.errorMessage && state.compareStatus !== ApiStatus.Error && (
+                <MessageBar intent="error">
+                    <MessageBarBody>{state.errorMessage}</MessageBarBody>
+                </MessageBar>
+            )}
+            <div className={classes.resultsContainer}>{renderResults()}</div>
+        </div>
+    );
+};
@@ -0,0 +1,95 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import {
+    ColorThemeKind,
+    useVscodeWebview,
+} from "../../common/vscodeWebviewProvider";
+import { ReactNode, createContext } from "react";
+import {
+    SchemaCompareReducers,
+    SchemaCompareWebviewState,
+} from "../../../sharedInterfaces/schemaCompare";
+
+export interface SchemaCompareContextProps {
+    state: SchemaCompareWebviewState;
+    themeKind: ColorThemeKind;
+    selectSource(): void;
+    selectTarget(): void;
+    swapEndpoints(): void;
+    compare(): void;
+    cancelCompare(): void;
+    /**
+     * Includes or excludes a difference from the update script
+     */
+    includeDifference(id: number, included: boolean): void;
+    includeAllDifferences(included: boolean): void;
+    generateScript(): void;
+    applyChanges(): void;
+}
+
+const SchemaCompareContext = createContext<
+    SchemaCompareContextProps | undefined
+>(undefined);
+
+interface SchemaCompareProviderProps {
+    children: ReactNode;
+}
+
+const SchemaCompareStateProvider: React.FC<SchemaCompareProviderProps> = ({
+    children,
+}) => {
+    const webviewState = useVscodeWebview<
+        SchemaCompareWebviewState,
+        SchemaCompareReducers
+    >();
+    return (
+        <SchemaCompareContext.Provider
+            value={{
+                state: webviewState?.state,
+                themeKind: webviewState?.themeKind,
+                selectSource: function (): void {
+                    webviewState?.extensionRpc.action("selectSource", {});
+                },
+                selectTarget: function (): void {
+                    webviewState?.extensionRpc.action("selectTarget", {});
+                },
+                swapEndpoints: function (): void {
+                    webviewState?.extensionRpc.action("swapEndpoints", {});
+                },
+                compare: function (): void {
+                    webviewState?.extensionRpc.action("compare", {});
+                },
+                cancelCompare: function (): void {
+                    webviewState?.extensionRpc.action("cancelCompare", {});
+                },
+                includeDifference: function (
+                    id: number,
+                    included: boolean,
+                ): void {
+                    webviewState?.extensionRpc.action("includeDifference", {
+                        id: id,
+                        included: included,
+                    });
+                },
+                includeAllDifferences: function (included: boolean): void {
+                    webviewState?.extensionRpc.action("includeAllDifferences", {
+                        included: included,
+                    });
+                },
+                generateScript: function (): void {
+                    webviewState?.extensionRpc.action("generateScript", {});
+                },
+                applyChanges: function (): void {
+                    webviewState?.extensionRpc.action("applyChanges", {});
+                },
+            }}
+        >
+            {children}
+        </SchemaCompareContext.Provider>
+    );
+};
+
+export { SchemaCompareContext, SchemaCompareStateProvider };
@@ -0,0 +1,72 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as mssql from "vscode-mssql";
+import { SchemaCompareDifference } from "../sharedInterfaces/schemaCompare";
+
+/**
+ * Gets the object level differences shown in the webview. Property level differences are
+ * part of the script of their object, so they are not shown separately.
+ */
+export function getDifferences(
+    diffEntries: mssql.DiffEntry[],
+): SchemaCompareDifference[] {
+    const differences: SchemaCompareDifference[] = [];
+    diffEntries.forEach((entry, index) => {
+        if (entry.differenceType !== mssql.SchemaDifferenceType.Object) {
+            return;
+        }
+        differences.push({
+            id: index,
+            // both enums have the same values
+            updateAction: entry.updateAction as number,
+            objectType: entry.name,
+            sourceName: getObjectName(entry.sourceValue),
+            targetName: getObjectName(entry.targetValue),
+            sourceScript: entry.sourceScript ?? undefined,
+            targetScript: entry.targetScript ?? undefined,
+            included: entry.included,
+        });
+    });
+    return differences;
+}
+
+/**
+ * Finds the entry of the compare result that the tools service returned as a dependency of
+ * an included or excluded entry
+ */
+export function findDiffEntry(
+    diffEntries: mssql.DiffEntry[],
+    dependency: mssql.DiffEntry,
+): mssql.DiffEntry | undefined {
+    return diffEntries.find(
+        (entry) =>
+            entry.name === dependency.name &&
+            entry.updateAction === dependency.updateAction &&
+            getObjectName(entry.sourceValue) ===
+                getObjectName(dependency.sourceValue) &&
+            getObjectName(entry.targetValue) ===
+                getObjectName(dependency.targetValue),
+    );
+}
+
+/**
+ * Gets the target platform the tools service expects for a project, from the database schema
+ * provider of the project properties
+ * @example "Microsoft.Data.Tools.Schema.Sql.Sql160DatabaseSchemaProvider" returns "160"
+ */
+export function getDataSchemaProvider(databaseSchemaProvider: string): string {
+    const match = /Sql(\w+)DatabaseSchemaProvider$/.exec(
+        databaseSchemaProvider ?? "",
+    );
+    return match ? match[1] : "";
+}
+
+/**
+ * Gets the display name of an object, as in "dbo.Orders"
+ */
+export function getObjectName(value: string[] | undefined): string | undefined {
+    return value?.length ? value.join(".") : undefined;
+}
@@ -0,0 +1,605 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from "path";
+import * as vscode from "vscode";
+import * as mssql from "vscode-mssql";
+import * as LocalizedConstants from "../constants/locConstants";
+import ConnectionManager from "../controllers/connectionManager";
+import { ReactWebviewPanelController } from "../controllers/reactWebviewPanelController";
+import { generateGuid } from "../models/utils";
+import { TreeNodeInfo } from "../objectExplorer/treeNodeInfo";
+import { Deferred } from "../protocol";
+import { SchemaCompareService } from "../services/schemaCompareService";
+import { SqlProjectsService } from "../services/sqlProjectsService";
+import {
+    SchemaCompareEndpoint,
+    SchemaCompareEndpointType,
+    SchemaCompareReducers,
+    SchemaCompareWebviewState,
+} from "../sharedInterfaces/schemaCompare";
+import {
+    TelemetryActions,
+    TelemetryViews,
+} from "../sharedInterfaces/telemetry";
+import { ApiStatus } from "../sharedInterfaces/webview";
+import { sendActionEvent } from "../telemetry/telemetry";
+import { getErrorMessage } from "../utils/utils";
+import {
+    findDiffEntry,
+    getDataSchemaProvider,
+    getDifferences,
+    getObjectName,
+} from "./schemaCompareUtils";
+
+const connectionUriScheme = "schemaCompare";
+
+interface EndpointTypeQuickPickItem extends vscode.QuickPickItem {
+    endpointType: SchemaCompareEndpointType;
+}
+
+/**
+ * Compares the schema of databases, .dacpac files and SQL projects, and updates the target
+ * database or project with the differences the user includes
+ */
+export class SchemaCompareWebviewController extends ReactWebviewPanelController<
+    SchemaCompareWebviewState,
+    SchemaCompareReducers
+> {
+    private _source: mssql.SchemaCompareEndpointInfo | undefined;
+    private _target: mssql.SchemaCompareEndpointInfo | undefined;
+    private _operationId: string | undefined;
+    private _diffEntries: mssql.DiffEntry[] = [];
+    private _deploymentOptions: mssql.DeploymentOptions | undefined;
+    private _connectionUris: string[] = [];
+
+    constructor(
+        context: vscode.ExtensionContext,
+        private _schemaCompareService: SchemaCompareService,
+        private _connectionManager: ConnectionManager,
+        private _sqlProjectsService: SqlProjectsService,
+        source?: TreeNodeInfo | vscode.Uri,
+    ) {
+        super(
+            context,
+            "schemaCompare",
+            {
+                compareStatus: ApiStatus.NotStarted,
+                differences: [],
+                isUpdating: false,
+            },
+            {
+                title: LocalizedConstants.schemaCompareTitle,
+                viewColumn: vscode.ViewColumn.Active,
+                iconPath: {
+                    dark: vscode.Uri.joinPath(
+                        context.extensionUri,
+                        "media",
+                        "schemaCompare_dark.svg",
+                    ),
+                    light: vscode.Uri.joinPath(
+                        context.extensionUri,
+                        "media",
+                        "schemaCompare_light.svg",
+                    ),
+                },
+            },
+        );
+        this.registerRpcHandlers();
+        this.registerDisposable({
+            dispose: () => {
+                for (const uri of this._connectionUris) {
+                    void this._connectionManager.disconnect(uri);
+                }
+            },
+        });
+        if (source) {
+            void this.initializeSource(source);
+        }
+    }
+
+    private async initializeSource(
+        source: TreeNodeInfo | vscode.Uri,
+    ): Promise<void> {
+        try {
+            if (source instanceof vscode.Uri) {
+                this._source =
+                    path.extname(source.fsPath).toLowerCase() === ".dacpac"
+                        ? this.createDacpacEndpoint(source.fsPath)
+                        : await this.createProjectEndpoint(source.fsPath);
+            } else {
+                this._source = await this.createDatabaseEndpoint(
+                    source.connectionInfo,
+                    source.metadata.name,
+                );
+            }
+            if (this._source) {
+                this.state = {
+                    ...this.state,
+                    source: toEndpoint(this._source),
+                };
+            }
+        } catch (e) {
+            this.state = {
+                ...this.state,
+                errorMessage: getErrorMessage(e),
+            };
+        }
+    }
+
+    private registerRpcHandlers() {
+        this.registerReducer("selectSource", async (state) => {
+            const source = await this.pickEndpoint(
+                LocalizedConstants.selectSchemaCompareSource,
+            );
+            if (!source) {
+                return state;
+            }
+            this._source = source;
+            return this.clearResults({
+                ...state,
+                source: toEndpoint(source),
+            });
+        });
+        this.registerReducer("selectTarget", async (state) => {
+            const target = await this.pickEndpoint(
+                LocalizedConstants.selectSchemaCompareTarget,
+            );
+            if (!target) {
+                return state;
+            }
+            this._target = target;
+            return this.clearResults({
+                ...state,
+                target: toEndpoint(target),
+            });
+        });
+        this.registerReducer("swapEndpoints", async (state) => {
+            [this._source, this._target] = [this._target, this._source];
+            return this.clearResults({
+                ...state,
+                source: state.target,
+                target: state.source,
+            });
+        });
+        this.registerReducer("compare", async (state) => {
+            return this.compare(state);
+        });
+        this.registerReducer("cancelCompare", async (state) => {
+            if (this._operationId) {
+                const operationId = this._operationId;
+                this._operationId = undefined;
+                await this._schemaCompareService.cancel(operationId);
+            }
+            return this.clearResults(state);
+        });
+        this.registerReducer("includeDifference", async (state, payload) => {
+            return this.includeDifferences(
+                state,
+                [payload.id],
+                payload.included,
+            );
+        });
+        this.registerReducer(
+            "includeAllDifferences",
+            async (state, payload) => {
+                return this.includeDifferences(
+                    state,
+                    state.differences
+                        .filter((d) => d.included !== payload.included)
+                        .map((d) => d.id),
+                    payload.included,
+                );
+            },
+        );
+        this.registerReducer("generateScript", async (state) => {
+            this.state = { ...state, isUpdating: true };
+            try {
+                const result = await this._schemaCompareService.generateScript(
+                    this._operationId,
+                    this._target.serverName,
+                    this._target.databaseName,
+                    mssql.TaskExecutionMode.script,
+                );
+                if (!result.success) {
+                    throw new Error(result.errorMessage);
+                }
+                sendActionEvent(
+                    TelemetryViews.SchemaCompare,
+                    TelemetryActions.GenerateScript,
+                );
+                return { ...this.state, isUpdating: false };
+            } catch (e) {
+                return {
+                    ...this.state,
+                    isUpdating: false,
+                    errorMessage: getErrorMessage(e),
+                };
+            }
+        });
+        this.registerReducer("applyChanges", async (state) => {
+            const confirmation = await vscode.window.showWarningMessage(
+                LocalizedConstants.msgSchemaCompareApplyConfirmation(
+                    state.target.displayName,
+                ),
+                { modal: true },
+                LocalizedConstants.schemaCompareApply,
+            );
+            if (confirmation !== LocalizedConstants.schemaCompareApply) {
+                return state;
+            }
+            this.state = { ...state, isUpdating: true };
+            try {
+                const result =
+                    this._target.endpointType ===
+                    mssql.SchemaCompareEndpointType.Project
+                        ? await this._schemaCompareService.publishProjectChanges(
+                              this._operationId,
+                              this._target.projectFilePath,
+                              this._target.extractTarget,
+                              mssql.TaskExecutionMode.execute,
+                          )
+                        : await this._schemaCompareService.publishDatabaseChanges(
+                              this._operationId,
+                              this._target.serverName,
+                              this._target.databaseName,
+                              mssql.TaskExecutionMode.execute,
+                          );
+                if (!result.success) {
+                    throw new Error(result.errorMessage);
+                }
+                sendActionEvent(
+                    TelemetryViews.SchemaCompare,
+                    TelemetryActions.Publish,
+                    {
+                        targetType:
+                            SchemaCompareEndpointType[
+                                state.target.endpointType
+                            ],
+                    },
+                );
+                void vscode.window.showInformationMessage(
+                    LocalizedConstants.msgSchemaCompareChangesApplied(
+                        state.target.displayName,
+                    ),
+                );
+            } catch (e) {
+                return {
+                    ...this.state,
+                    isUpdating: false,
+                    errorMessage: getErrorMessage(e),
+                };
+            }
+            // compares again so only the remaining differences are shown
+            return this.compare({ ...this.state, isUpdating: false });
+        });
+    }
+
+    private async compare(
+        state: SchemaCompareWebviewState,
+    ): Promise<SchemaCompareWebviewState> {
+        const startTime = performance.now(); // timer for telemetry
+        const operationId = generateGuid();
+        this._operationId = operationId;
+        this.state = {
+            ...this.clearResults(state),
+            compareStatus: ApiStatus.Loading,
+        };
+        try {
+            if (!this._deploymentOptions) {
+                const options =
+                    await this._schemaCompareService.schemaCompareGetDefaultOptions();
+                this._deploymentOptions = options.defaultDeploymentOptions;
+            }
+            const result = await this._schemaCompareService.compare(
+                operationId,
+                this._source,
+                this._target,
+                mssql.TaskExecutionMode.execute,
+                this._deploymentOptions,
+            );
+            if (this._operationId !== operationId) {
+                // the compare was cancelled or another compare was started
+                return this.state;
+            }
+            if (!result.success) {
+                throw new Error(result.errorMessage);
+            }
+            this._diffEntries = result.differences ?? [];
+            const differences = getDifferences(this._diffEntries);
+            sendActionEvent(
+                TelemetryViews.SchemaCompare,
+                TelemetryActions.CompareSchemas,
+                {
+                    sourceType:
+                        SchemaCompareEndpointType[state.source.endpointType],
+                    targetType:
+                        SchemaCompareEndpointType[state.target.endpointType],
+                },
+                {
+                    differenceCount: differences.length,
+                    compareTimeInMs: performance.now() - startTime,
+                },
+            );
+            return {
+                ...this.state,
+                compareStatus: ApiStatus.Loaded,
+                areEqual: result.areEqual,
+                differences: differences,
+            };
+        } catch (e) {
+            if (this._operationId !== operationId) {
+                return this.state;
+            }
+            return {
+                ...this.state,
+                compareStatus: ApiStatus.Error,
+                errorMessage: getErrorMessage(e),
+            };
+        }
+    }
+
+    /**
+     * Includes or excludes the differences one by one, since the tools service also includes
+     * or excludes the differences that depend on each one
+     */
+    private async includeDifferences(
+        state: SchemaCompareWebviewState,
+        ids: number[],
+        included: boolean,
+    ): Promise<SchemaCompareWebviewState> {
+        let errorMessage: string | undefined;
+        for (const id of ids) {
+            const entry = this._diffEntries[id];
+            if (!entry || entry.included === included) {
+                continue;
+            }
+            try {
+                const result =
+                    await this._schemaCompareService.includeExcludeNode(
+                        this._operationId,
+                        entry,
+                        included,
+                        mssql.TaskExecutionMode.execute,
+                    );
+                if (!result.success) {
+                    errorMessage = result.blockingDependencies?.length
+                        ? LocalizedConstants.msgSchemaCompareBlockingDependencies(
+                              result.blockingDependencies
+                                  .map(
+                                      (d) =>
+                                          getObjectName(d.sourceValue) ??
+                                          getObjectName(d.targetValue),
+                                  )
+                                  .join(", "),
+                          )
+                        : result.errorMessage;
+                    continue;
+                }
+                entry.included = included;
+                for (const dependency of result.affectedDependencies ?? []) {
+                    const dependencyEntry = findDiffEntry(
+                        this._diffEntries,
+                        dependency,
+                    );
+                    if (dependencyEntry) {
+                        dependencyEntry.included = dependency.included;
+                    }
+                }
+            } catch (e) {
+                errorMessage = getErrorMessage(e);
+            }
+        }
+        return {
+            ...state,
+            errorMessage: errorMessage,
+            differences: getDifferences(this._diffEntries),
+        };
+    }
+
+    private clearResults(
+        state: SchemaCompareWebviewState,
+    ): SchemaCompareWebviewState {
+        this._diffEntries = [];
+        return {
+            ...state,
+            compareStatus: ApiStatus.NotStarted,
+            errorMessage: undefined,
+            areEqual: undefined,
+            differences: [],
+        };
+    }
+
+    private async pickEndpoint(
+        title: string,
+    ): Promise<mssql.SchemaCompareEndpointInfo | undefined> {
+        const items: EndpointTypeQuickPickItem[] = [
+            {
+                label: `$(database) ${LocalizedConstants.schemaCompareDatabase}`,
+                endpointType: SchemaCompareEndpointType.Database,
+            },
+            {
+                label: `$(package) ${LocalizedConstants.schemaCompareDacpac}`,
+                endpointType: SchemaCompareEndpointType.Dacpac,
+            },
+            {
+                label: `$(project) ${LocalizedConstants.schemaCompareProject}`,
+                endpointType: SchemaCompareEndpointType.Project,
+            },
+        ];
+        const picked = await vscode.window.showQuickPick(items, {
+            title: title,
+        });
+        switch (picked?.endpointType) {
+            case SchemaCompareEndpointType.Database: {
+                const connection =
+                    await this._connectionManager.connectionUI.promptForConnection();
+                return connection
+                    ? this.createDatabaseEndpoint(connection)
+                    : undefined;
+            }
+            case SchemaCompareEndpointType.Dacpac: {
+                const filePath = await this.pickFile(title, {
+                    [LocalizedConstants.dacpacFileFilter]: ["dacpac"],
+                });
+                return filePath
+                    ? this.createDacpacEndpoint(filePath)
+                    : undefined;
+            }
+            case SchemaCompareEndpointType.Project: {
+                const filePath = await this.pickFile(title, {
+                    [LocalizedConstants.sqlProjectFileFilter]: ["sqlproj"],
+                });
+                return filePath
+                    ? this.createProjectEndpoint(filePath)
+                    : undefined;
+            }
+            default:
+                return undefined;
+        }
+    }
+
+    private async pickFile(
+        title: string,
+        filters: { [name: string]: string[] },
+    ): Promise<string | undefined> {
+        const uris = await vscode.window.showOpenDialog({
+            title: title,
+            canSelectMany: false,
+            filters: filters,
+        });
+        return uris?.length ? uris[0].fsPath : undefined;
+    }
+
+    /**
+     * Connects to the server of the connection, which the tools service uses to connect to the
+     * compared database
+     * @param databaseName the database to compare, picked by the user when it is not set
+     */
+    private async createDatabaseEndpoint(
+        connection: mssql.IConnectionInfo,
+        databaseName?: string,
+    ): Promise<mssql.SchemaCompareEndpointInfo | undefined> {
+        const uri = `${connectionUriScheme}:${generateGuid()}`;
+        const connectionCreds = Object.assign({}, connection);
+        const connected = await this._connectionManager.connect(
+            uri,
+            connectionCreds,
+            new Deferred<boolean>(),
+        );
+        if (!connected) {
+            return undefined;
+        }
+        this._connectionUris.push(uri);
+
+        databaseName =
+            databaseName ||
+            connection.database ||
+            (await vscode.window.showQuickPick(
+                this._connectionManager.listDatabases(uri),
+                {
+                    placeHolder:
+                        LocalizedConstants.schemaCompareDatabasePlaceholder,
+                },
+            ));
+        if (!databaseName) {
+            return undefined;
+        }
+        return {
+            endpointType: mssql.SchemaCompareEndpointType.Database,
+            projectFilePath: "",
+            targetScripts: [],
+            dataSchemaProvider: "",
+            packageFilePath: "",
+            serverDisplayName: connection.server,
+            serverName: connection.server,
+            databaseName: databaseName,
+            ownerUri: uri,
+            connectionDetails: this._connectionManager.createConnectionDetails({
+                ...connection,
+                database: databaseName,
+            }),
+        };
+    }
+
+    private createDacpacEndpoint(
+        filePath: string,
+    ): mssql.SchemaCompareEndpointInfo {
+        return {
+            endpointType: mssql.SchemaCompareEndpointType.Dacpac,
+            projectFilePath: "",
+            targetScripts: [],
+            dataSchemaProvider: "",
+            packageFilePath: filePath,
+            serverDisplayName: "",
+            serverName: "",
+            databaseName: "",
+            ownerUri: "",
+            connectionDetails: undefined,
+        };
+    }
+
+    /**
+     * Gets the scripts and the target platform of the project, which the tools service
+     * builds the model of the project from
+     */
+    private async createProjectEndpoint(
+        filePath: string,
+    ): Promise<mssql.SchemaCompareEndpointInfo> {
+        const [properties, scripts] = await Promise.all([
+            this._sqlProjectsService.getProjectProperties(filePath),
+            this._sqlProjectsService.getSqlObjectScripts(filePath),
+        ]);
+        if (!properties.success) {
+            throw new Error(properties.errorMessage);
+        }
+        if (!scripts.success) {
+            throw new Error(scripts.errorMessage);
+        }
+        const projectFolder = path.dirname(filePath);
+        return {
+            endpointType: mssql.SchemaCompareEndpointType.Project,
+            projectFilePath: filePath,
+            targetScripts: scripts.scripts.map((script) =>
+                path.join(projectFolder, script),
+            ),
+            extractTarget: mssql.ExtractTarget.schemaObjectType,
+            dataSchemaProvider: getDataSchemaProvider(
+                properties.databaseSchemaProvider,
+            ),
+            packageFilePath: "",
+            serverDisplayName: "",
+            serverName: "",
+            databaseName: "",
+            ownerUri: "",
+            connectionDetails: undefined,
+        };
+    }
+}
+
+function toEndpoint(
+    endpointInfo: mssql.SchemaCompareEndpointInfo,
+): SchemaCompareEndpoint {
+    switch (endpointInfo.endpointType) {
+        case mssql.SchemaCompareEndpointType.Database:
+            return {
+                endpointType: SchemaCompareEndpointType.Database,
+                displayName: endpointInfo.databaseName,
+                detail: endpointInfo.serverDisplayName,
+            };
+        case mssql.SchemaCompareEndpointType.Dacpac:
+            return {
+                endpointType: SchemaCompareEndpointType.Dacpac,
+                displayName: path.basename(endpointInfo.packageFilePath),
+                detail: endpointInfo.packageFilePath,
+            };
+        default:
+            return {
+                endpointType: SchemaCompareEndpointType.Project,
+                displayName: path.basename(endpointInfo.projectFilePath),
+                detail: endpointInfo.projectFilePath,
+            };
+    }
+}
@@ -0,0 +1,316 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { homedir } from "os";
+import * as path from "path";
+import * as vscode from "vscode";
+import * as LocalizedConstants from "../constants/locConstants";
+import ConnectionManager from "../controllers/connectionManager";
+import { MetadataService } from "../metadata/metadataService";
+import { MetadataType } from "../models/contracts/metadata/metadataRequest";
+import { SimpleExecuteRequest } from "../models/contracts/queryExecute";
+import { ScriptOperation } from "../models/contracts/scripting/scriptingRequest";
+import { generateGuid } from "../models/utils";
+import { ObjectExplorerUtils } from "../objectExplorer/objectExplorerUtils";
+import { TreeNodeInfo } from "../objectExplorer/treeNodeInfo";
+import { Deferred } from "../protocol";
+import { ScriptingService } from "../scripting/scriptingService";
+import { defaultScriptingSettings } from "../scripting/scriptingSettings";
+import {
+    TelemetryActions,
+    TelemetryViews,
+} from "../sharedInterfaces/telemetry";
+import { sendActionEvent } from "../telemetry/telemetry";
+import { getErrorMessage, getUniqueFilePath } from "../utils/utils";
+import {
+    DatabaseDocs,
+    SchemaDocsFormat,
+    buildDatabaseDocs,
+    getObjectKey,
+    toHtml,
+    toMarkdown,
+} from "./schemaDocsUtils";
+
+const connectionUriScheme = "schemaDocs";
+
+// the metadata request only returns the names of the objects, so the rest is queried from the
+// catalog views, in the order of the cells of SchemaDocsRows
+const columnsQuery = `SELECT s.name, o.name, c.name, ty.name, c.max_length, c.precision, c.scale,
+    c.is_nullable, c.is_identity, dc.definition, CAST(ep.value AS nvarchar(max))
+FROM sys.columns c
+JOIN sys.objects o ON o.object_id = c.object_id
+JOIN sys.schemas s ON s.schema_id = o.schema_id
+JOIN sys.types ty ON ty.user_type_id = c.user_type_id
+LEFT JOIN sys.default_constraints dc ON dc.object_id = c.default_object_id
+LEFT JOIN sys.extended_properties ep ON ep.class = 1 AND ep.major_id = c.object_id
+    AND ep.minor_id = c.column_id AND ep.name = 'MS_Description'
+WHERE o.type IN ('U', 'V') AND o.is_ms_shipped = 0
+ORDER BY s.name, o.name, c.column_id`;
+
+const descriptionsQuery = `SELECT s.name, o.name, CAST(ep.value AS nvarchar(max))
+FROM sys.extended_properties ep
+JOIN sys.objects o ON o.object_id = ep.major_id
+JOIN sys.schemas s ON s.schema_id = o.schema_id
+WHERE ep.class = 1 AND ep.minor_id = 0 AND ep.name = 'MS_Description' AND o.is_ms_shipped = 0`;
+
+const indexesQuery = `SELECT s.name, t.name, i.name, i.type_desc, i.is_primary_key, i.is_unique,
+    c.name, ic.is_included_column
+FROM sys.indexes i
+JOIN sys.tables t ON t.object_id = i.object_id
+JOIN sys.schemas s ON s.schema_id = t.schema_id
+JOIN sys.index_columns ic ON ic.object_id = i.object_id AND ic.index_id = i.index_id
+JOIN sys.columns c ON c.object_id = ic.object_id AND c.column_id = ic.column_id
+WHERE t.is_ms_shipped = 0 AND i.type > 0
+ORDER BY s.name, t.name, i.name, ic.is_included_column, ic.key_ordinal, ic.index_column_id`;
+
+const foreignKeysQuery = `SELECT s.name, t.name, fk.name, pc.name, rs.name, rt.name, rc.name,
+    fk.delete_referential_action_desc, fk.update_referential_action_desc
+FROM sys.foreign_keys fk
+JOIN sys.tables t ON t.object_id = fk.parent_object_id
+JOIN sys.schemas s ON s.schema_id = t.schema_id
+JOIN sys.tables rt ON rt.object_id = fk.referenced_object_id
+JOIN sys.schemas rs ON rs.schema_id = rt.schema_id
+JOIN sys.foreign_key_columns fkc ON fkc.constraint_object_id = fk.object_id
+JOIN sys.columns pc ON pc.object_id = fkc.parent_object_id AND pc.column_id = fkc.parent_column_id
+JOIN sys.columns rc ON rc.object_id = fkc.referenced_object_id AND rc.column_id = fkc.referenced_column_id
+WHERE t.is_ms_shipped = 0
+ORDER BY s.name, t.name, fk.name, fkc.constraint_column_id`;
+
+const parametersQuery = `SELECT s.name, o.name, p.name, ty.name, p.max_length, p.precision, p.scale,
+    p.is_output, CAST(ep.value AS nvarchar(max))
+FROM sys.parameters p
+JOIN sys.objects o ON o.object_id = p.object_id
+JOIN sys.schemas s ON s.schema_id = o.schema_id
+JOIN sys.types ty ON ty.user_type_id = p.user_type_id
+LEFT JOIN sys.extended_properties ep ON ep.class = 2 AND ep.major_id = p.object_id
+    AND ep.minor_id = p.parameter_id AND ep.name = 'MS_Description'
+WHERE o.is_ms_shipped = 0
+ORDER BY s.name, o.name, p.parameter_id`;
+
+interface SchemaDocsFormatQuickPickItem extends vscode.QuickPickItem {
+    format: SchemaDocsFormat;
+}
+
+/**
+ * Writes the documentation of the tables, views, procedures and functions of a database to a
+ * Markdown or HTML file
+ */
+export class SchemaDocsGenerator {
+    private _metadataService: MetadataService;
+
+    constructor(
+        private _connectionManager: ConnectionManager,
+        private _scriptingService: ScriptingService,
+    ) {
+        this._metadataService = new MetadataService(_connectionManager);
+    }
+
+    /**
+     * Asks for the format and the file of the documentation of the database of the node, and
+     * writes it
+     */
+    public async generate(node: TreeNodeInfo): Promise<void> {
+        const databaseName = ObjectExplorerUtils.getDatabaseName(node);
+        const formatItems: SchemaDocsFormatQuickPickItem[] = [
+            {
+                label: LocalizedConstants.fileTypeMarkdownLabel,
+                format: SchemaDocsFormat.Markdown,
+            },
+            {
+                label: LocalizedConstants.fileTypeHTMLLabel,
+                format: SchemaDocsFormat.Html,
+            },
+        ];
+        const formatItem = await vscode.window.showQuickPick(formatItems, {
+            placeHolder: LocalizedConstants.schemaDocsFormatPlaceholder,
+        });
+        if (!formatItem) {
+            return;
+        }
+        const saveUri = await vscode.window.showSaveDialog({
+            defaultUri: await getUniqueFilePath(
+                vscode.Uri.file(homedir()),
+                databaseName,
+                formatItem.format,
+            ),
+            filters: {
+                [formatItem.label]: [formatItem.format],
+            },
+        });
+        if (!saveUri) {
+            return;
+        }
+
+        const startTime = performance.now(); // timer for telemetry
+        let docs: DatabaseDocs | undefined;
+        try {
+            docs = await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: LocalizedConstants.schemaDocsProgressTitle(
+                        databaseName,
+                    ),
+                    cancellable: true,
+                },
+                (progress, token) =>
+                    this.getDatabaseDocs(node, databaseName, progress, token),
+            );
+        } catch (e) {
+            void vscode.window.showErrorMessage(
+                LocalizedConstants.msgSchemaDocsFailed(getErrorMessage(e)),
+            );
+            sendActionEvent(
+                TelemetryViews.ObjectExplorer,
+                TelemetryActions.GenerateSchemaDocs,
+                { status: "error", format: formatItem.format },
+            );
+            return;
+        }
+        if (!docs) {
+            sendActionEvent(
+                TelemetryViews.ObjectExplorer,
+                TelemetryActions.GenerateSchemaDocs,
+                { status: "canceled", format: formatItem.format },
+            );
+            return;
+        }
+
+        const content =
+            formatItem.format === SchemaDocsFormat.Markdown
+                ? toMarkdown(docs)
+                : toHtml(docs);
+        await vscode.workspace.fs.writeFile(
+            saveUri,
+            Buffer.from(content, "utf8"),
+        );
+        sendActionEvent(
+            TelemetryViews.ObjectExplorer,
+            TelemetryActions.GenerateSchemaDocs,
+            { status: "success", format: formatItem.format },
+            {
+                tableCount: docs.tables.length,
+                objectCount:
+                    docs.views.length +
+                    docs.procedures.length +
+                    docs.functions.length,
+                generateTimeInMs: performance.now() - startTime,
+            },
+        );
+
+        const choice = await vscode.window.showInformationMessage(
+            LocalizedConstants.msgSchemaDocsGenerated(
+                path.basename(saveUri.fsPath),
+            ),
+            LocalizedConstants.openSchemaDocs,
+        );
+        if (choice === LocalizedConstants.openSchemaDocs) {
+            if (formatItem.format === SchemaDocsFormat.Markdown) {
+                await vscode.window.showTextDocument(saveUri);
+            } else {
+                await vscode.env.openExternal(saveUri);
+            }
+        }
+    }
+
+    /**
+     * Reads the objects of the database with a connection of its own, and scripts the
+     * definitions of its views, procedures and functions
+     * @returns the documentation, or undefined when it was canceled
+     */
+    private async getDatabaseDocs(
+        node: TreeNodeInfo,
+        databaseName: string,
+        progress: vscode.Progress<{ message?: string; increment?: number }>,
+        token: vscode.CancellationToken,
+    ): Promise<DatabaseDocs | undefined> {
+        const uri = `${connectionUriScheme}:${generateGuid()}`;
+        try {
+            const connected = await this._connectionManager.connect(
+                uri,
+                { ...node.connectionInfo, database: databaseName },
+                new Deferred<boolean>(),
+            );
+            if (!connected) {
+                throw new Error(
+                    LocalizedConstants.msgSchemaDocsConnectionFailed(
+                        databaseName,
+                    ),
+                );
+            }
+            const metadata = await this._metadataService.getMetadata(uri);
+            const [columns, descriptions, indexes, foreignKeys, parameters] =
+                await Promise.all(
+                    [
+                        columnsQuery,
+                        descriptionsQuery,
+                        indexesQuery,
+                        foreignKeysQuery,
+                        parametersQuery,
+                    ].map((query) => this.query(uri, query)),
+                );
+
+            // the definitions are scripted the same way as Script as Create, without the
+            // options of the mssql.scripting settings
+            const definitions = new Map<string, string>();
+            const scriptedObjects = metadata.filter(
+                (m) => (m.metadataType as number) !== MetadataType.Table,
+            );
+            for (const object of scriptedObjects) {
+                if (token.isCancellationRequested) {
+                    return undefined;
+                }
+                const key = getObjectKey(object.schema, object.name);
+                progress.report({
+                    message: key,
+                    increment: 100 / scriptedObjects.length,
+                });
+                definitions.set(
+                    key,
+                    await this._scriptingService.scriptObject(
+                        {
+                            type: object.metadataTypeName,
+                            schema: object.schema,
+                            name: object.name,
+                        },
+                        node.connectionInfo,
+                        uri,
+                        ScriptOperation.Create,
+                        defaultScriptingSettings,
+                    ),
+                );
+            }
+            if (token.isCancellationRequested) {
+                return undefined;
+            }
+            return buildDatabaseDocs(
+                databaseName,
+                metadata,
+                {
+                    columns,
+                    descriptions,
+                    indexes,
+                    foreignKeys,
+                    parameters,
+                },
+                definitions,
+            );
+        } finally {
+            await this._connectionManager.disconnect(uri);
+        }
+    }
+
+    /**
+     * Runs a query and returns the display values of its rows, with undefined for NULL values
+     */
+    private async query(uri: string, queryString: string): Promise<string[][]> {
+        const result = await this._connectionManager.client.sendRequest(
+            SimpleExecuteRequest.type,
+            { ownerUri: uri, queryString: queryString },
+        );
+        return result.rows.map((row) =>
+            row.map((cell) => (cell.isNull ? undefined : cell.displayValue)),
+        );
+    }
+}
@@ -0,0 +1,758 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { ObjectMetadata } from "vscode-mssql";
+import * as LocalizedConstants from "../constants/locConstants";
+import { MetadataType } from "../models/contracts/metadata/metadataRequest";
+
+export enum SchemaDocsFormat {
+    Markdown = "md",
+    Html = "html",
+}
+
+export interface ColumnDocs {
+    name: string;
+    type: string;
+    isNullable: boolean;
+    isIdentity: boolean;
+    isPrimaryKey: boolean;
+    defaultValue?: string;
+    description?: string;
+}
+
+export interface IndexDocs {
+    name: string;
+    /**
+     * The type of the index, such as CLUSTERED or NONCLUSTERED
+     */
+    type: string;
+    isPrimaryKey: boolean;
+    isUnique: boolean;
+    columns: string[];
+    includedColumns: string[];
+}
+
+export interface ForeignKeyDocs {
+    name: string;
+    columns: string[];
+    referencedSchema: string;
+    referencedTable: string;
+    referencedColumns: string[];
+    onDelete: string;
+    onUpdate: string;
+}
+
+export interface ParameterDocs {
+    name: string;
+    type: string;
+    isOutput: boolean;
+    description?: string;
+}
+
+export interface ObjectDocs {
+    schema: string;
+    name: string;
+    description?: string;
+}
+
+export interface TableDocs extends ObjectDocs {
+    columns: ColumnDocs[];
+    indexes: IndexDocs[];
+    foreignKeys: ForeignKeyDocs[];
+    /**
+     * The tables with foreign keys that reference the table
+     */
+    referencedBy: { schema: string; name: string; foreignKey: string }[];
+}
+
+export interface ViewDocs extends ObjectDocs {
+    columns: ColumnDocs[];
+    definition?: string;
+}
+
+export interface RoutineDocs extends ObjectDocs {
+    parameters: ParameterDocs[];
+    /**
+     * The type of the value returned by a scalar function
+     */
+    returnType?: string;
+    definition?: string;
+}
+
+export interface DatabaseDocs {
+    databaseName: string;
+    tables: TableDocs[];
+    views: ViewDocs[];
+    procedures: RoutineDocs[];
+    functions: RoutineDocs[];
+}
+
+/**
+ * The rows of the catalog queries the documentation is built from, with undefined for NULL values
+ */
+export interface SchemaDocsRows {
+    /**
+     * schema, object, column, type, max_length, precision, scale, is_nullable, is_identity,
+     * default definition, description
+     */
+    columns: string[][];
+    /**
+     * schema, object, description
+     */
+    descriptions: string[][];
+    /**
+     * schema, table, index, type_desc, is_primary_key, is_unique, column, is_included_column,
+     * with a row per column of each index
+     */
+    indexes: string[][];
+    /**
+     * schema, table, foreign key, column, referenced schema, referenced table, referenced column,
+     * delete action, update action, with a row per column of each foreign key
+     */
+    foreignKeys: string[][];
+    /**
+     * schema, object, parameter, type, max_length, precision, scale, is_output, description, with
+     * an unnamed row for the return value of scalar functions
+     */
+    parameters: string[][];
+}
+
+export function getObjectKey(schema: string, name: string): string {
+    return `${schema}.${name}`;
+}
+
+/**
+ * Formats a type of sys.types with the length, precision and scale of a column or parameter,
+ * as in nvarchar(50), varchar(max) or decimal(10, 2)
+ * @param maxLength The length in bytes, or -1 for max types
+ */
+export function formatDataType(
+    type: string,
+    maxLength: number,
+    precision: number,
+    scale: number,
+): string {
+    switch (type.toLowerCase()) {
+        case "char":
+        case "varchar":
+        case "binary":
+        case "varbinary":
+            return `${type}(${maxLength === -1 ? "max" : maxLength})`;
+        case "nchar":
+        case "nvarchar":
+            return `${type}(${maxLength === -1 ? "max" : maxLength / 2})`;
+        case "decimal":
+        case "numeric":
+            return `${type}(${precision}, ${scale})`;
+        case "datetime2":
+        case "datetimeoffset":
+        case "time":
+            return `${type}(${scale})`;
+        default:
+            return type;
+    }
+}
+
+/**
+ * Builds the documentation of the objects of a database
+ * @param metadata The tables, views, procedures and functions of the database
+ * @param definitions The CREATE scripts of the views, procedures and functions, by object key
+ */
+export function buildDatabaseDocs(
+    databaseName: string,
+    metadata: ObjectMetadata[],
+    rows: SchemaDocsRows,
+    definitions: Map<string, string>,
+): DatabaseDocs {
+    const descriptions = new Map<string, string>();
+    for (const [schema, name, description] of rows.descriptions) {
+        descriptions.set(getObjectKey(schema, name), description);
+    }
+    const columns = groupRows(rows.columns);
+    const indexes = groupRows(rows.indexes);
+    const foreignKeys = groupRows(rows.foreignKeys);
+    const parameters = groupRows(rows.parameters);
+
+    const compare = (a: ObjectMetadata, b: ObjectMetadata) =>
+        a.schema.localeCompare(b.schema) || a.name.localeCompare(b.name);
+    const getObjects = (type: MetadataType) =>
+        metadata
+            .filter((m) => (m.metadataType as number) === type)
+            .sort(compare);
+    const getObjectDocs = (m: ObjectMetadata): ObjectDocs => ({
+        schema: m.schema,
+        name: m.name,
+        description: descriptions.get(getObjectKey(m.schema, m.name)),
+    });
+    const getRoutineDocs = (m: ObjectMetadata): RoutineDocs => {
+        const key = getObjectKey(m.schema, m.name);
+        const parameterRows = parameters.get(key) ?? [];
+        // the return value of a scalar function is the unnamed parameter 0
+        const returnValue = parameterRows.find((row) => !row[2]);
+        return {
+            ...getObjectDocs(m),
+            parameters: parameterRows
+                .filter((row) => row !== returnValue)
+                .map((row) => ({
+                    name: row[2],
+                    type: getDataType(row, 3),
+                    isOutput: row[7] === "1",
+                    description: row[8],
+                })),
+            returnType: returnValue ? getDataType(returnValue, 3) : undefined,
+            definition: definitions.get(key),
+        };
+    };
+
+    const tables: TableDocs[] = getObjects(MetadataType.Table).map((m) => {
+        const key = getObjectKey(m.schema, m.name);
+        const tableIndexes = getIndexDocs(indexes.get(key) ?? []);
+        const primaryKeyColumns =
+            tableIndexes.find((index) => index.isPrimaryKey)?.columns ?? [];
+        return {
+            ...getObjectDocs(m),
+            columns: getColumnDocs(columns.get(key) ?? [], primaryKeyColumns),
+            indexes: tableIndexes,
+            foreignKeys: getForeignKeyDocs(foreignKeys.get(key) ?? []),
+            referencedBy: [],
+        };
+    });
+    const tablesByKey = new Map(
+        tables.map((table) => [getObjectKey(table.schema, table.name), table]),
+    );
+    for (const table of tables) {
+        for (const foreignKey of table.foreignKeys) {
+            tablesByKey
+                .get(
+                    getObjectKey(
+                        foreignKey.referencedSchema,
+                        foreignKey.referencedTable,
+                    ),
+                )
+                ?.referencedBy.push({
+                    schema: table.schema,
+                    name: table.name,
+                    foreignKey: foreignKey.name,
+                });
+        }
+    }
+
+    return {
+        databaseName: databaseName,
+        tables: tables,
+        views: getObjects(MetadataType.View).map((m) => {
+            const key = getObjectKey(m.schema, m.name);
+            return {
+                ...getObjectDocs(m),
+                columns: getColumnDocs(columns.get(key) ?? [], []),
+                definition: definitions.get(key),
+            };
+        }),
+        procedures: getObjects(MetadataType.SProc).map(getRoutineDocs),
+        functions: getObjects(MetadataType.Function).map(getRoutineDocs),
+    };
+}
+
+/**
+ * Groups rows by the object key of their first two cells, keeping their order
+ */
+function groupRows(rows: string[][]): Map<string, string[][]> {
+    const groups = new Map<string, string[][]>();
+    for (const row of rows) {
+        const key = getObjectKey(row[0], row[1]);
+        if (!groups.has(key)) {
+            groups.set(key, []);
+        }
+        groups.get(key).push(row);
+    }
+    return groups;
+}
+
+/**
+ * Gets the formatted type of the type, max_length, precision and scale cells starting at an index
+ */
+function getDataType(row: string[], index: number): string {
+    return formatDataType(
+        row[index],
+        Number(row[index + 1]),
+        Number(row[index + 2]),
+        Number(row[index + 3]),
+    );
+}
+
+function getColumnDocs(
+    rows: string[][],
+    primaryKeyColumns: string[],
+): ColumnDocs[] {
+    return rows.map((row) => ({
+        name: row[2],
+        type: getDataType(row, 3),
+        isNullable: row[7] === "1",
+        isIdentity: row[8] === "1",
+        isPrimaryKey: primaryKeyColumns.includes(row[2]),
+        defaultValue: row[9],
+        description: row[10],
+    }));
+}
+
+function getIndexDocs(rows: string[][]): IndexDocs[] {
+    const indexes = new Map<string, IndexDocs>();
+    for (const row of rows) {
+        let index = indexes.get(row[2]);
+        if (!index) {
+            index = {
+                name: row[2],
+                type: row[3],
+                isPrimaryKey: row[4] === "1",
+                isUnique: row[5] === "1",
+                columns: [],
+                includedColumns: [],
+            };
+            indexes.set(index.name, index);
+        }
+        (row[7] === "1" ? index.includedColumns : index.columns).push(row[6]);
+    }
+    return [...indexes.values()];
+}
+
+function getForeignKeyDocs(rows: string[][]): ForeignKeyDocs[] {
+    const foreignKeys = new Map<string, ForeignKeyDocs>();
+    for (const row of rows) {
+        let foreignKey = foreignKeys.get(row[2]);
+        if (!foreignKey) {
+            foreignKey = {
+                name: row[2],
+                columns: [],
+                referencedSchema: row[4],
+                referencedTable: row[5],
+                referencedColumns: [],
+                onDelete: row[7],
+                onUpdate: row[8],
+            };
+            foreignKeys.set(foreignKey.name, foreignKey);
+        }
+        foreignKey.columns.push(row[3]);
+        foreignKey.referencedColumns.push(row[6]);
+    }
+    return [...foreignKeys.values()];
+}
+
+/**
+ * Gets the id of the heading of an object, which links to it in the documentation
+ */
+export function getObjectAnchor(schema: string, name: string): string {
+    return getObjectKey(schema, name)
+        .toLowerCase()
+        .replace(/[^a-z0-9_.]+/g, "-");
+}
+
+const escapeHtml = (value: string): string =>
+    (value ?? "")
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&#39;");
+
+/**
+ * Escapes the text of a cell of a Markdown table, which can't contain pipes or line breaks
+ */
+const escapeMarkdownCell = (value: string): string =>
+    escapeHtml(value).replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+
+const yesNo = (value: boolean) =>
+    value ? LocalizedConstants.msgYes : LocalizedConstants.msgNo;
+
+const getKeys = (column: ColumnDocs, table?: TableDocs): string =>
+    [
+        column.isPrimaryKey ? "PK" : undefined,
+        table?.foreignKeys.some((fk) => fk.columns.includes(column.name))
+            ? "FK"
+            : undefined,
+        column.isIdentity
+            ? LocalizedConstants.schemaDocsLabels.identity
+            : undefined,
+    ]
+        .filter((key) => key)
+        .join(", ");
+
+/**
+ * A table of the documentation, which is rendered as Markdown or as HTML
+ */
+interface DocsTable {
+    headers: string[];
+    rows: DocsCell[][];
+}
+
+/**
+ * The text of a cell, and the object it links to
+ */
+interface DocsCell {
+    text: string;
+    link?: string;
+}
+
+function getColumnsTable(columns: ColumnDocs[], table?: TableDocs): DocsTable {
+    const labels = LocalizedConstants.schemaDocsLabels;
+    return {
+        headers: [
+            labels.name,
+            labels.type,
+            labels.nullable,
+            labels.key,
+            labels.defaultValue,
+            labels.description,
+        ],
+        rows: columns.map((column) => [
+            { text: column.name },
+            { text: column.type },
+            { text: yesNo(column.isNullable) },
+            { text: getKeys(column, table) },
+            { text: column.defaultValue ?? "" },
+            { text: column.description ?? "" },
+        ]),
+    };
+}
+
+function getIndexesTable(indexes: IndexDocs[]): DocsTable {
+    const labels = LocalizedConstants.schemaDocsLabels;
+    return {
+        headers: [
+            labels.name,
+            labels.type,
+            labels.unique,
+            labels.columns,
+            labels.includedColumns,
+        ],
+        rows: indexes.map((index) => [
+            { text: index.name },
+            { text: index.type },
+            { text: yesNo(index.isUnique) },
+            { text: index.columns.join(", ") },
+            { text: index.includedColumns.join(", ") },
+        ]),
+    };
+}
+
+function getForeignKeysTable(foreignKeys: ForeignKeyDocs[]): DocsTable {
+    const labels = LocalizedConstants.schemaDocsLabels;
+    return {
+        headers: [
+            labels.name,
+            labels.columns,
+            labels.references,
+            labels.onDelete,
+            labels.onUpdate,
+        ],
+        rows: foreignKeys.map((fk) => [
+            { text: fk.name },
+            { text: fk.columns.join(", ") },
+            {
+                text: `${getObjectKey(fk.referencedSchema, fk.referencedTable)} (${fk.referencedColumns.join(", ")})`,
+                link: getObjectAnchor(fk.referencedSchema, fk.referencedTable),
+            },
+            { text: fk.onDelete },
+            { text: fk.onUpdate },
+        ]),
+    };
+}
+
+function getReferencedByTable(table: TableDocs): DocsTable {
+    const labels = LocalizedConstants.schemaDocsLabels;
+    return {
+        headers: [labels.table, labels.foreignKey],
+        rows: table.referencedBy.map((reference) => [
+            {
+                text: getObjectKey(reference.schema, reference.name),
+                link: getObjectAnchor(reference.schema, reference.name),
+            },
+            { text: reference.foreignKey },
+        ]),
+    };
+}
+
+function getParametersTable(parameters: ParameterDocs[]): DocsTable {
+    const labels = LocalizedConstants.schemaDocsLabels;
+    return {
+        headers: [labels.name, labels.type, labels.output, labels.description],
+        rows: parameters.map((parameter) => [
+            { text: parameter.name },
+            { text: parameter.type },
+            { text: yesNo(parameter.isOutput) },
+            { text: parameter.description ?? "" },
+        ]),
+    };
+}
+
+/**
+ * A part of the documentation of an object: a table, a paragraph or a SQL definition
+ */
+type DocsBlock =
+    | { heading: string; table: DocsTable }
+    | { paragraph: string }
+    | { heading: string; code: string };
+
+interface DocsSection {
+    title: string;
+    objects: { docs: ObjectDocs; blocks: DocsBlock[] }[];
+}
+
+function getRoutineBlocks(routine: RoutineDocs): DocsBlock[] {
+    const labels = LocalizedConstants.schemaDocsLabels;
+    const blocks: DocsBlock[] = [];
+    if (routine.parameters.length > 0) {
+        blocks.push({
+            heading: labels.parameters,
+            table: getParametersTable(routine.parameters),
+        });
+    }
+    if (routine.returnType) {
+        blocks.push({
+            paragraph: `${labels.returns}: ${routine.returnType}`,
+        });
+    }
+    if (routine.definition) {
+        blocks.push({ heading: labels.definition, code: routine.definition });
+    }
+    return blocks;
+}
+
+function getSections(docs: DatabaseDocs): DocsSection[] {
+    const labels = LocalizedConstants.schemaDocsLabels;
+    return [
+        {
+            title: labels.tables,
+            objects: docs.tables.map((table) => ({
+                docs: table,
+                blocks: [
+                    {
+                        heading: labels.columns,
+                        table: getColumnsTable(table.columns, table),
+                    },
+                    table.indexes.length > 0 && {
+                        heading: labels.indexes,
+                        table: getIndexesTable(table.indexes),
+                    },
+                    table.foreignKeys.length > 0 && {
+                        heading: labels.foreignKeys,
+                        table: getForeignKeysTable(table.foreignKeys),
+                    },
+                    table.referencedBy.length > 0 && {
+                        heading: labels.referencedBy,
+                        table: getReferencedByTable(table),
+                    },
+                ].filter((block) => block) as DocsBlock[],
+            })),
+        },
+        {
+            title: labels.views,
+            objects: docs.views.map((view) => ({
+                docs: view,
+                blocks: [
+                    {
+                        heading: labels.columns,
+                        table: getColumnsTable(view.columns),
+                    },
+                    view.definition && {
+                        heading: labels.definition,
+                        code: view.definition,
+                    },
+                ].filter((block) => block) as DocsBlock[],
+            })),
+        },
+        {
+            title: labels.storedProcedures,
+            objects: docs.procedures.map((procedure) => ({
+                docs: procedure,
+                blocks: getRoutineBlocks(procedure),
+            })),
+        },
+        {
+            title: labels.functions,
+            objects: docs.functions.map((func) => ({
+                docs: func,
+                blocks: getRoutineBlocks(func),
+            })),
+        },
+    ].filter((section) => section.objects.length > 0);
+}
+
+/**
+ * Renders the documentation as Markdown, with a table of contents and links between the tables
+ * of foreign keys
+ */
+export function toMarkdown(docs: DatabaseDocs): string {
+    const sections = getSections(docs);
+    const lines: string[] = [
+        `# ${LocalizedConstants.schemaDocsTitle(docs.databaseName)}`,
+        "",
+        `## ${LocalizedConstants.schemaDocsLabels.contents}`,
+        "",
+    ];
+    for (const section of sections) {
+        lines.push(`- ${section.title}`);
+        for (const object of section.objects) {
+            const key = getObjectKey(object.docs.schema, object.docs.name);
+            lines.push(
+                `  - [${escapeHtml(key)}](#${getObjectAnchor(object.docs.schema, object.docs.name)})`,
+            );
+        }
+    }
+    for (const section of sections) {
+        lines.push("", `## ${section.title}`);
+        for (const object of section.objects) {
+            const { schema, name, description } = object.docs;
+            lines.push(
+                "",
+                `<a id="${getObjectAnchor(schema, name)}"></a>`,
+                "",
+                `### ${escapeHtml(getObjectKey(schema, name))}`,
+            );
+            if (description) {
+                lines.push("", escapeHtml(description));
+            }
+            for (const block of object.blocks) {
+                if ("table" in block) {
+                    lines.push(
+                        "",
+                        `#### ${block.heading}`,
+                        "",
+                        ...getMarkdownTable(block.table),
+                    );
+                } else if ("code" in block) {
+                    // a longer fence lets the definition contain fences of its own
+                    const fence = block.code.includes("```") ? "````" : "```";
+                    lines.push(
+                        "",
+                        `#### ${block.heading}`,
+                        "",
+                        `${fence}sql`,
+                        block.code.trim(),
+                        fence,
+                    );
+                } else {
+                    lines.push("", escapeHtml(block.paragraph));
+                }
+            }
+        }
+    }
+    lines.push("");
+    return lines.join("\n");
+}
+
+function getMarkdownTable(table: DocsTable): string[] {
+    const toRow = (cells: string[]) => `| ${cells.join(" | ")} |`;
+    return [
+        toRow(table.headers),
+        toRow(table.headers.map(() => "---")),
+        ...table.rows.map((row) =>
+            toRow(
+                row.map((cell) =>
+                    cell.link
+                        ? `[${escapeMarkdownCell(cell.text)}](#${cell.link})`
+                        : escapeMarkdownCell(cell.text),
+                ),
+            ),
+        ),
+    ];
+}
+
+const htmlStyle = `
+body { font-family: Segoe UI, Helvetica, Arial, sans-serif; font-size: 13px; margin: 20px; color: #1e1e1e; }
+h1 { font-size: 22px; }
+h2 { font-size: 18px; margin-top: 32px; border-bottom: 1px solid #d4d4d4; }
+h3 { font-size: 15px; margin-top: 24px; }
+h4 { font-size: 13px; }
+pre { background: #f3f3f3; padding: 8px; white-space: pre-wrap; }
+table { border-collapse: collapse; margin: 4px 0 12px 0; }
+th, td { border: 1px solid #d4d4d4; padding: 2px 8px; text-align: left; vertical-align: top; }
+th { background: #f3f3f3; }
+`;
+
+/**
+ * Renders the documentation as a self-contained HTML page, with a table of contents and links
+ * between the tables of foreign keys
+ */
+export function toHtml(docs: DatabaseDocs): string {
+    const title = LocalizedConstants.schemaDocsTitle(docs.databaseName);
+    const sections = getSections(docs);
+    const contents = sections
+        .map(
+            (section) =>
+                `<li>${escapeHtml(section.title)}<ul>${section.objects
+                    .map(
+                        (object) =>
+                            `<li><a href="#${getObjectAnchor(object.docs.schema, object.docs.name)}">${escapeHtml(getObjectKey(object.docs.schema, object.docs.name))}</a></li>`,
+                    )
+                    .join("")}</ul></li>`,
+        )
+        .join("\n");
+    const body = sections.map(
+        (section) =>
+            `<h2>${escapeHtml(section.title)}</h2>\n${section.objects
+                .map((object) => getHtmlObject(object.docs, object.blocks))
+                .join("\n")}`,
+    );
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${htmlStyle}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<h2>${escapeHtml(LocalizedConstants.schemaDocsLabels.contents)}</h2>
+<ul>
+${contents}
+</ul>
+${body.join("\n")}
+</body>
+</html>
+`;
+}
+
+function getHtmlObject(docs: ObjectDocs, blocks: DocsBlock[]): string {
+    const parts = [
+        `<h3 id="${getObjectAnchor(docs.schema, docs.name)}">${escapeHtml(getObjectKey(docs.schema, docs.name))}</h3>`,
+    ];
+    if (docs.description) {
+        parts.push(`<p>${escapeHtml(docs.description)}</p>`);
+    }
+    for (const block of blocks) {
+        if ("table" in block) {
+            parts.push(
+                `<h4>${escapeHtml(block.heading)}</h4>`,
+                getHtmlTable(block.table),
+            );
+        } else if ("code" in block) {
+            parts.push(
+                `<h4>${escapeHtml(block.heading)}</h4>`,
+                `<pre><code>${escapeHtml(block.code.trim())}</code></pre>`,
+            );
+        } else {
+            parts.push(`<p>${escapeHtml(block.paragraph)}</p>`);
+        }
+    }
+    return parts.join("\n");
+}
+
+function getHtmlTable(table: DocsTable): string {
+    const headers = table.headers
+        .map((header) => `<th>${escapeHtml(header)}</th>`)
+        .join("");
+    const rows = table.rows.map(
+        (row) =>
+            `<tr>${row
+                .map((cell) =>
+                    cell.link
+                        ? `<td><a href="#${cell.link}">${escapeHtml(cell.text)}</a></td>`
+                        : `<td>${escapeHtml(cell.text)}</td>`,
+                )
+                .join("")}</tr>`,
+    );
+    return `<table>\n<tr>${headers}</tr>\n${rows.join("\n")}\n</table>`;
+}
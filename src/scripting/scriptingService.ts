@@ -3,6 +3,8 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
+import * as vscode from "vscode";
+import * as Constants from "../constants/constants";
 import SqlToolsServiceClient from "../languageservice/serviceclient";
 import ConnectionManager from "../controllers/connectionManager";
 import {
@@ -11,11 +13,33 @@ import {
     ScriptOperation,
     IScriptingObject,
     IScriptOptions,
+    IScriptingCompleteParams,
+    IScriptingProgressNotificationParams,
+    ScriptingCancelRequest,
+    ScriptingCompleteNotification,
+    ScriptingProgressNotification,
 } from "../models/contracts/scripting/scriptingRequest";
 import { TreeNodeInfo } from "../objectExplorer/treeNodeInfo";
+import { IConnectionInfo } from "vscode-mssql";
+import { Deferred } from "../protocol";
+import {
+    ScriptingSettings,
+    applyScriptingSettings,
+    defaultScriptingSettings,
+    toCreateOrAlter,
+} from "./scriptingSettings";
+
+interface ScriptingOperation {
+    completion: Deferred<IScriptingCompleteParams>;
+    onProgress?: (progress: IScriptingProgressNotificationParams) => void;
+}
 
 export class ScriptingService {
     private _client: SqlToolsServiceClient;
+    private _operations = new Map<string, ScriptingOperation>();
+    // completions that arrive before the response of the request that started the operation
+    private _completedOperations = new Map<string, IScriptingCompleteParams>();
+    private _notificationsRegistered = false;
 
     constructor(private _connectionManager: ConnectionManager) {
         this._client = this._connectionManager.client;
@@ -60,18 +84,52 @@ export class ScriptingService {
         return scriptingObject;
     }
 
+    /**
+     * Gets the mssql.scripting settings
+     */
+    public getScriptingSettings(): ScriptingSettings {
+        const config = vscode.workspace.getConfiguration(
+            Constants.extensionConfigSectionName,
+        );
+        return {
+            ...defaultScriptingSettings,
+            ...config.get<Partial<ScriptingSettings>>(
+                Constants.configScripting,
+            ),
+        };
+    }
+
     /**
      * Helper to create scripting params
+     * @param settings The scripting settings to use instead of the mssql.scripting settings
      */
     public createScriptingParams(
         node: TreeNodeInfo,
         uri: string,
         operation: ScriptOperation,
+        settings?: ScriptingSettings,
     ): IScriptingParams {
-        const scriptingObject = this.getObjectFromNode(node);
-        let serverInfo = this._connectionManager.getServerInfo(
+        return this.createObjectScriptingParams(
+            this.getObjectFromNode(node),
             node.connectionInfo,
+            uri,
+            operation,
+            settings,
         );
+    }
+
+    /**
+     * Helper to create the scripting params of an object of a connection
+     * @param settings The scripting settings to use instead of the mssql.scripting settings
+     */
+    public createObjectScriptingParams(
+        scriptingObject: IScriptingObject,
+        connectionInfo: IConnectionInfo,
+        uri: string,
+        operation: ScriptOperation,
+        settings?: ScriptingSettings,
+    ): IScriptingParams {
+        let serverInfo = this._connectionManager.getServerInfo(connectionInfo);
         let scriptCreateDropOption: string;
         switch (operation) {
             case ScriptOperation.Select:
@@ -82,6 +140,7 @@ export class ScriptingService {
                 break;
             case ScriptOperation.Create:
                 scriptCreateDropOption = "ScriptCreate";
+                break;
             default:
                 scriptCreateDropOption = "ScriptCreate";
         }
@@ -106,6 +165,10 @@ export class ScriptingService {
                       ]
                     : "Script140Compat",
         };
+        scriptOptions = applyScriptingSettings(
+            scriptOptions,
+            settings ?? this.getScriptingSettings(),
+        );
         let scriptingParams: IScriptingParams = {
             filePath: undefined,
             scriptDestination: "ToEditor",
@@ -126,16 +189,123 @@ export class ScriptingService {
         return scriptingParams;
     }
 
+    /**
+     * Scripts a node
+     * @param settings The scripting settings to use instead of the mssql.scripting settings
+     */
     public async script(
         node: TreeNodeInfo,
         uri: string,
         operation: ScriptOperation,
+        settings?: ScriptingSettings,
     ): Promise<string> {
-        let scriptingParams = this.createScriptingParams(node, uri, operation);
+        return this.scriptObject(
+            this.getObjectFromNode(node),
+            node.connectionInfo,
+            uri,
+            operation,
+            settings,
+        );
+    }
+
+    /**
+     * Scripts an object of the database the uri is connected to
+     * @param settings The scripting settings to use instead of the mssql.scripting settings
+     */
+    public async scriptObject(
+        scriptingObject: IScriptingObject,
+        connectionInfo: IConnectionInfo,
+        uri: string,
+        operation: ScriptOperation,
+        settings?: ScriptingSettings,
+    ): Promise<string> {
+        settings = settings ?? this.getScriptingSettings();
+        let scriptingParams = this.createObjectScriptingParams(
+            scriptingObject,
+            connectionInfo,
+            uri,
+            operation,
+            settings,
+        );
         const result = await this._client.sendRequest(
             ScriptingRequest.type,
             scriptingParams,
         );
-        return result.script;
+        return operation === ScriptOperation.Create &&
+            settings.createOrAlter &&
+            result.script
+            ? toCreateOrAlter(result.script)
+            : result.script;
+    }
+
+    /**
+     * Scripts the objects of the params to files, which is done in the background by SQL Tools Service
+     * @param params The scripting params, with a ToSingleFile or ToFilePerObject destination
+     * @param onProgress Called each time an object is scripted
+     * @returns The id of the operation, used to cancel it, and a promise that resolves when it completes
+     */
+    public async scriptToFiles(
+        params: IScriptingParams,
+        onProgress?: (progress: IScriptingProgressNotificationParams) => void,
+    ): Promise<{
+        operationId: string;
+        completion: Promise<IScriptingCompleteParams>;
+    }> {
+        this.registerNotifications();
+        const result = await this._client.sendRequest(
+            ScriptingRequest.type,
+            params,
+        );
+        const operation: ScriptingOperation = {
+            completion: new Deferred<IScriptingCompleteParams>(),
+            onProgress: onProgress,
+        };
+        const completed = this._completedOperations.get(result.operationId);
+        if (completed) {
+            this._completedOperations.delete(result.operationId);
+            operation.completion.resolve(completed);
+        } else {
+            this._operations.set(result.operationId, operation);
+        }
+        return {
+            operationId: result.operationId,
+            completion: operation.completion.promise,
+        };
+    }
+
+    public async cancelScripting(operationId: string): Promise<void> {
+        await this._client.sendRequest(ScriptingCancelRequest.type, {
+            operationId: operationId,
+        });
+    }
+
+    private registerNotifications(): void {
+        if (this._notificationsRegistered) {
+            return;
+        }
+        this._notificationsRegistered = true;
+        this._client.onNotification(
+            ScriptingProgressNotification.type,
+            (progress) => {
+                this._operations
+                    .get(progress.operationId)
+                    ?.onProgress?.(progress);
+            },
+        );
+        this._client.onNotification(
+            ScriptingCompleteNotification.type,
+            (complete) => {
+                const operation = this._operations.get(complete.operationId);
+                if (operation) {
+                    this._operations.delete(complete.operationId);
+                    operation.completion.resolve(complete);
+                } else {
+                    this._completedOperations.set(
+                        complete.operationId,
+                        complete,
+                    );
+                }
+            },
+        );
     }
 }
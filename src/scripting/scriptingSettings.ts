@@ -0,0 +1,99 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { IScriptOptions } from "../models/contracts/scripting/scriptingRequest";
+import { ScriptCompatibilityOption } from "../sharedInterfaces/generateScripts";
+
+/**
+ * The mssql.scripting settings, which are honored by the script commands of Object Explorer
+ */
+export interface ScriptingSettings {
+    includePermissions: boolean;
+    includeCollation: boolean;
+    includeIfNotExists: boolean;
+    includeExtendedProperties: boolean;
+    /**
+     * Whether CREATE scripts of views, procedures, functions and triggers use CREATE OR ALTER
+     */
+    createOrAlter: boolean;
+    scriptStatistics: string;
+    /**
+     * The scripting compatibility option, such as Script150Compat, or matchServer to target the
+     * version of the server of the object
+     */
+    targetCompatibility: string;
+}
+
+/**
+ * The settings that are turned on or off
+ */
+export type ScriptingSwitch = {
+    [K in keyof ScriptingSettings]: ScriptingSettings[K] extends boolean
+        ? K
+        : never;
+}[keyof ScriptingSettings];
+
+export const matchServerCompatibility = "matchServer";
+
+/**
+ * The versions of SQL Server of the scripting compatibility options
+ */
+export const scriptCompatibilityVersions: Record<
+    ScriptCompatibilityOption,
+    string
+> = {
+    [ScriptCompatibilityOption.Script90Compat]: "2005",
+    [ScriptCompatibilityOption.Script100Compat]: "2008",
+    [ScriptCompatibilityOption.Script105Compat]: "2008 R2",
+    [ScriptCompatibilityOption.Script110Compat]: "2012",
+    [ScriptCompatibilityOption.Script120Compat]: "2014",
+    [ScriptCompatibilityOption.Script130Compat]: "2016",
+    [ScriptCompatibilityOption.Script140Compat]: "2017",
+    [ScriptCompatibilityOption.Script150Compat]: "2019",
+    [ScriptCompatibilityOption.Script160Compat]: "2022",
+};
+
+export const defaultScriptingSettings: ScriptingSettings = {
+    includePermissions: false,
+    includeCollation: false,
+    includeIfNotExists: false,
+    includeExtendedProperties: false,
+    createOrAlter: false,
+    scriptStatistics: "ScriptStatsNone",
+    targetCompatibility: matchServerCompatibility,
+};
+
+/**
+ * Sets the scripting options that the settings control
+ */
+export function applyScriptingSettings(
+    options: IScriptOptions,
+    settings: ScriptingSettings,
+): IScriptOptions {
+    return {
+        ...options,
+        scriptObjectLevelPermissions: settings.includePermissions,
+        collation: settings.includeCollation,
+        includeIfNotExists: settings.includeIfNotExists,
+        scriptExtendedProperties: settings.includeExtendedProperties,
+        scriptStatistics: settings.scriptStatistics,
+        scriptCompatibilityOption:
+            settings.targetCompatibility === matchServerCompatibility
+                ? options.scriptCompatibilityOption
+                : settings.targetCompatibility,
+    };
+}
+
+/**
+ * Changes the CREATE statement of a view, procedure, function or trigger script to CREATE OR ALTER,
+ * so the script can be run whether the object exists or not. Scripts of other objects, which
+ * don't support CREATE OR ALTER, are returned as is.
+ */
+export function toCreateOrAlter(script: string): string {
+    return script.replace(
+        /^(\s*CREATE)(\s+(?:PROCEDURE|PROC|VIEW|FUNCTION|TRIGGER)\b)/im,
+        "$1 OR ALTER$2",
+    );
+}
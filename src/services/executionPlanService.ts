@@ -5,6 +5,8 @@
 
 import SqlToolsServiceClient from "../languageservice/serviceclient";
 import {
+    ExecutionPlanComparisonParams,
+    ExecutionPlanComparisonRequest,
     GetExecutionPlanRequest,
     GetExecutionPlanParams,
 } from "../models/contracts/executionPlan";
@@ -28,4 +30,23 @@ export class ExecutionPlanService implements ep.ExecutionPlanService {
             throw e;
         }
     }
+
+    async compareExecutionPlanGraph(
+        firstPlanFile: ep.ExecutionPlanGraphInfo,
+        secondPlanFile: ep.ExecutionPlanGraphInfo,
+    ): Promise<ep.ExecutionPlanComparisonResult> {
+        try {
+            let params: ExecutionPlanComparisonParams = {
+                firstExecutionPlanGraphInfo: firstPlanFile,
+                secondExecutionPlanGraphInfo: secondPlanFile,
+            };
+            return await this._sqlToolsClient.sendRequest(
+                ExecutionPlanComparisonRequest.type,
+                params,
+            );
+        } catch (e) {
+            this._sqlToolsClient.logger.error(e);
+            throw e;
+        }
+    }
 }
@@ -17,4 +17,108 @@ export class SchemaCompareService implements mssql.ISchemaCompareService {
             params,
         );
     }
+
+    public compare(
+        operationId: string,
+        sourceEndpointInfo: mssql.SchemaCompareEndpointInfo,
+        targetEndpointInfo: mssql.SchemaCompareEndpointInfo,
+        taskExecutionMode: mssql.TaskExecutionMode,
+        deploymentOptions: mssql.DeploymentOptions,
+    ): Thenable<mssql.SchemaCompareResult> {
+        const params: mssql.SchemaCompareParams = {
+            operationId: operationId,
+            sourceEndpointInfo: sourceEndpointInfo,
+            targetEndpointInfo: targetEndpointInfo,
+            taskExecutionMode: taskExecutionMode,
+            deploymentOptions: deploymentOptions,
+        };
+        return this._client.sendRequest(
+            schemaCompareContracts.SchemaCompareRequest.type,
+            params,
+        );
+    }
+
+    public generateScript(
+        operationId: string,
+        targetServerName: string,
+        targetDatabaseName: string,
+        taskExecutionMode: mssql.TaskExecutionMode,
+    ): Thenable<mssql.ResultStatus> {
+        const params: mssql.SchemaCompareGenerateScriptParams = {
+            operationId: operationId,
+            targetServerName: targetServerName,
+            targetDatabaseName: targetDatabaseName,
+            taskExecutionMode: taskExecutionMode,
+        };
+        return this._client.sendRequest(
+            schemaCompareContracts.SchemaCompareGenerateScriptRequest.type,
+            params,
+        );
+    }
+
+    public publishDatabaseChanges(
+        operationId: string,
+        targetServerName: string,
+        targetDatabaseName: string,
+        taskExecutionMode: mssql.TaskExecutionMode,
+    ): Thenable<mssql.ResultStatus> {
+        const params: mssql.SchemaComparePublishDatabaseChangesParams = {
+            operationId: operationId,
+            targetServerName: targetServerName,
+            targetDatabaseName: targetDatabaseName,
+            taskExecutionMode: taskExecutionMode,
+        };
+        return this._client.sendRequest(
+            schemaCompareContracts.SchemaComparePublishDatabaseChangesRequest
+                .type,
+            params,
+        );
+    }
+
+    public publishProjectChanges(
+        operationId: string,
+        targetProjectPath: string,
+        targetFolderStructure: mssql.ExtractTarget,
+        taskExecutionMode: mssql.TaskExecutionMode,
+    ): Thenable<mssql.SchemaComparePublishProjectResult> {
+        const params: mssql.SchemaComparePublishProjectChangesParams = {
+            operationId: operationId,
+            targetProjectPath: targetProjectPath,
+            targetFolderStructure: targetFolderStructure,
+            taskExecutionMode: taskExecutionMode,
+        };
+        return this._client.sendRequest(
+            schemaCompareContracts.SchemaComparePublishProjectChangesRequest
+                .type,
+            params,
+        );
+    }
+
+    public includeExcludeNode(
+        operationId: string,
+        diffEntry: mssql.DiffEntry,
+        includeRequest: boolean,
+        taskExecutionMode: mssql.TaskExecutionMode,
+    ): Thenable<mssql.SchemaCompareIncludeExcludeResult> {
+        const params: mssql.SchemaCompareNodeParams = {
+            operationId: operationId,
+            diffEntry: diffEntry,
+            includeRequest: includeRequest,
+            taskExecutionMode: taskExecutionMode,
+        };
+        return this._client.sendRequest(
+            schemaCompareContracts.SchemaCompareIncludeExcludeNodeRequest.type,
+            params,
+        );
+    }
+
+    public cancel(operationId: string): Thenable<mssql.ResultStatus> {
+        const params: mssql.SchemaCompareCancelParams = {
+            operationId: operationId,
+        };
+        return this._client.sendRequest(
+            schemaCompareContracts.SchemaCompareCancellationRequest.type,
+            params,
+        );
+    }
 }
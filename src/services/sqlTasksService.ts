@@ -10,6 +10,7 @@ import { TaskExecutionMode } from "vscode-mssql";
 import { Deferred } from "../protocol";
 import * as localizedConstants from "../constants/locConstants";
 import UntitledSqlDocumentService from "../controllers/untitledSqlDocumentService";
+import { generateGuid } from "../models/utils";
 
 export enum TaskStatus {
     NotStarted = 0,
@@ -80,6 +81,7 @@ type ProgressCallback = (value: {
  */
 export class SqlTasksService {
     private _activeTasks = new Map<string, ActiveTaskInfo>();
+    private _extensionTaskCancelHandlers = new Map<string, () => void>();
 
     constructor(
         private _client: SqlToolsServiceClient,
@@ -95,7 +97,68 @@ export class SqlTasksService {
         );
     }
 
+    /**
+     * Starts a task that runs in the extension rather than in SQL Tools Service, showing its progress the same way
+     * as the tasks of SQL Tools Service.
+     * @param name The name of the task, shown in the progress notification
+     * @param serverName The server the task runs against
+     * @param databaseName The database the task runs against
+     * @param onCancel Called when the user cancels the task, the task can only be canceled when this is set
+     * @returns The id of the task, used to report its status with updateTask
+     */
+    public createTask(
+        name: string,
+        serverName: string,
+        databaseName: string,
+        onCancel?: () => void,
+    ): string {
+        const taskId = generateGuid();
+        if (onCancel) {
+            this._extensionTaskCancelHandlers.set(taskId, onCancel);
+        }
+        this.handleTaskCreatedNotification({
+            taskId: taskId,
+            status: TaskStatus.NotStarted,
+            taskExecutionMode: TaskExecutionMode.execute,
+            serverName: serverName,
+            databaseName: databaseName,
+            name: name,
+            description: "",
+            providerName: "MSSQL",
+            isCancelable: onCancel !== undefined,
+        });
+        return taskId;
+    }
+
+    /**
+     * Reports the status of a task started with createTask. A completed status closes the progress notification
+     * and shows the final status of the task.
+     * @param taskId The id of the task
+     * @param status The status of the task
+     * @param message The message to show with the status
+     */
+    public async updateTask(
+        taskId: string,
+        status: TaskStatus,
+        message: string,
+    ): Promise<void> {
+        if (isTaskCompleted(status)) {
+            this._extensionTaskCancelHandlers.delete(taskId);
+        }
+        await this.handleTaskChangedNotification({
+            taskId: taskId,
+            status: status,
+            message: message,
+        });
+    }
+
     private cancelTask(taskId: string): Thenable<boolean> {
+        const cancelExtensionTask =
+            this._extensionTaskCancelHandlers.get(taskId);
+        if (cancelExtensionTask) {
+            cancelExtensionTask();
+            return Promise.resolve(true);
+        }
         const params: CancelTaskParams = {
             taskId,
         };
@@ -177,10 +240,11 @@ export class SqlTasksService {
 
             // Get the message to display, if the last status doesn't have a valid message then get the last valid one
             const lastMessage =
-                (taskProgressInfo.message &&
-                    taskProgressInfo.message.toLowerCase() !==
-                        taskStatusString.toLowerCase()) ??
-                taskInfo.lastMessage;
+                taskProgressInfo.message &&
+                taskProgressInfo.message.toLowerCase() !==
+                    taskStatusString.toLowerCase()
+                    ? taskProgressInfo.message
+                    : taskInfo.lastMessage;
             // Only include the message if it isn't the same as the task status string we already have - some (but not all) task status
             // notifications include this string as the message
             const taskMessage = lastMessage
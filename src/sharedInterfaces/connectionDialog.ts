@@ -142,6 +142,8 @@ export interface IConnectionDialogProfile extends vscodeMssql.IConnectionInfo {
     savePassword?: boolean;
     emptyPasswordInput?: boolean;
     azureAuthType?: vscodeMssql.AzureAuthType;
+    /** dev, test or prod; production connections are guarded against destructive queries */
+    environment?: string;
     /** display name for the MRU pane; should be set to the profileName if available, otherwise generated from connection details */
     displayName?: string;
 }
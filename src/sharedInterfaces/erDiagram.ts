@@ -0,0 +1,75 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { ApiStatus } from "./webview";
+
+export interface ErDiagramWebviewState {
+    /**
+     * Status of loading the tables of the database
+     */
+    loadStatus: ApiStatus;
+    databaseName: string;
+    tables: ErDiagramTable[];
+    foreignKeys: ErDiagramForeignKey[];
+    /**
+     * Names of the schemas of the tables
+     */
+    schemas: string[];
+    /**
+     * Names of the schemas whose tables are shown in the diagram
+     */
+    selectedSchemas: string[];
+    errorMessage?: string;
+}
+
+export interface ErDiagramColumn {
+    name: string;
+    /**
+     * The type of the column with its length, precision and scale, such as nvarchar(50)
+     */
+    dataType: string;
+    isNullable: boolean;
+    isPrimaryKey: boolean;
+    isForeignKey: boolean;
+}
+
+export interface ErDiagramTable {
+    schema: string;
+    name: string;
+    columns: ErDiagramColumn[];
+}
+
+export interface ErDiagramForeignKey {
+    name: string;
+    schema: string;
+    table: string;
+    columns: string[];
+    referencedSchema: string;
+    referencedTable: string;
+    referencedColumns: string[];
+}
+
+export type ErDiagramExportFormat = "svg" | "png";
+
+export interface ErDiagramReducers {
+    setSelectedSchemas: {
+        schemas: string[];
+    };
+    /**
+     * Opens a table of the diagram in the Table Designer
+     */
+    openTable: {
+        schema: string;
+        name: string;
+    };
+    exportDiagram: {
+        format: ErDiagramExportFormat;
+        /**
+         * The svg of the diagram, or the base64 encoded png image
+         */
+        content: string;
+    };
+    refresh: {};
+}
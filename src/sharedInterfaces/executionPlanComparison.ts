@@ -0,0 +1,96 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { ExecutionPlanGraph } from "../reactviews/pages/ExecutionPlan/executionPlanInterfaces";
+import { ApiStatus } from "./webview";
+
+export interface ExecutionPlanComparisonWebviewState {
+    loadState: ApiStatus;
+    errorMessage?: string;
+    /**
+     * The plan shown on the left side of the comparison
+     */
+    firstPlan?: ComparedExecutionPlan;
+    /**
+     * The plan shown on the right side of the comparison
+     */
+    secondPlan?: ComparedExecutionPlan;
+    /**
+     * Cost differences of the operators in both plans
+     */
+    operatorDeltas: OperatorCostDelta[];
+    /**
+     * Whether the matching regions are highlighted in both plans
+     */
+    highlightMatchingRegions: boolean;
+}
+
+export interface ComparedExecutionPlan {
+    /**
+     * Display name of the plan, usually the file name
+     */
+    title: string;
+    /**
+     * The xml content of the plan
+     */
+    xml: string;
+    /**
+     * The first statement graph of the plan
+     */
+    graph?: ExecutionPlanGraph;
+    /**
+     * Roots of the subtrees that have a match in the other plan
+     */
+    matchingRegions: ComparisonRegion[];
+}
+
+export interface ComparisonRegion {
+    /**
+     * Id of the node at the root of the matching subtree
+     */
+    nodeId: string;
+    /**
+     * Index shared by the matching subtrees in both plans
+     */
+    groupIndex: number;
+}
+
+export interface OperatorCostDelta {
+    /**
+     * Display name of the operator
+     */
+    operator: string;
+    /**
+     * Group index of the matching region, or -1 if the operator has no match
+     */
+    groupIndex: number;
+    firstNodeId?: string;
+    secondNodeId?: string;
+    firstCost?: number;
+    secondCost?: number;
+    /**
+     * Second plan cost minus the first plan cost. Undefined when the operator
+     * only exists in one of the plans.
+     */
+    costDelta?: number;
+    firstSubtreeCost?: number;
+    secondSubtreeCost?: number;
+    subtreeCostDelta?: number;
+}
+
+export interface ExecutionPlanComparisonReducers {
+    /**
+     * Loads both plans and compares them through the tools service
+     */
+    compareExecutionPlans: {};
+    /**
+     * Swaps the left and right plans
+     */
+    swapPlans: {};
+    /**
+     * Shows or hides the highlighting of the matching regions
+     */
+    toggleMatchingRegions: {};
+}
@@ -0,0 +1,113 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { ApiStatus } from "./webview";
+
+export interface FlatFileImportWebviewState {
+    /**
+     * Status of loading the tables of the database and the columns of the target table
+     */
+    loadStatus: ApiStatus;
+    tables: FlatFileImportTable[];
+    /**
+     * The table the rows are imported into
+     */
+    table?: FlatFileImportTable;
+    targetColumns: FlatFileTargetColumn[];
+    fileName?: string;
+    /**
+     * Names of the columns of the file
+     */
+    fileColumns: string[];
+    /**
+     * The first rows of the file, missing and empty values are undefined
+     */
+    previewRows: (string | undefined)[][];
+    rowCount: number;
+    /**
+     * The file column of each target column, in the order of the target columns
+     */
+    mappings: FlatFileColumnMapping[];
+    /**
+     * Names of the target columns that need a value but have no file column
+     */
+    unmappedRequiredColumns: string[];
+    /**
+     * The first values of the file that can't be converted to the types of the target columns
+     */
+    validationErrors: FlatFileValidationError[];
+    validationErrorCount: number;
+    importStatus: ApiStatus;
+    importedRowCount: number;
+    errorMessage?: string;
+}
+
+export interface FlatFileImportTable {
+    schema: string;
+    name: string;
+}
+
+export interface FlatFileTargetColumn {
+    name: string;
+    /**
+     * The system type name, such as nvarchar
+     */
+    type: string;
+    /**
+     * The type with its length, precision and scale, such as nvarchar(50)
+     */
+    dataType: string;
+    /**
+     * Maximum number of characters or bytes of the values, -1 for max
+     */
+    maxLength: number;
+    precision: number;
+    scale: number;
+    allowNulls: boolean;
+    hasDefault: boolean;
+    isIdentity: boolean;
+    /**
+     * Whether values can be inserted into the column, which isn't the case for computed
+     * and rowversion columns
+     */
+    isInsertable: boolean;
+}
+
+export interface FlatFileColumnMapping {
+    targetColumn: string;
+    /**
+     * Index of the file column, undefined when the column isn't imported
+     */
+    fileColumn?: number;
+}
+
+export interface FlatFileValidationError {
+    /**
+     * Index of the row in the file, without the header row
+     */
+    row: number;
+    fileColumn: number;
+    targetColumn: string;
+    message: string;
+}
+
+export interface FlatFileImportReducers {
+    /**
+     * Sets the table the rows are imported into and loads its columns
+     */
+    selectTable: FlatFileImportTable;
+    /**
+     * Lets the user pick the CSV, TSV or JSON file to import
+     */
+    selectFile: {};
+    /**
+     * Sets the file column the values of a target column are imported from
+     */
+    setColumnMapping: FlatFileColumnMapping;
+    /**
+     * Inserts the rows of the file into the table
+     */
+    importData: {};
+}
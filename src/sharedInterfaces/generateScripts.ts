@@ -0,0 +1,116 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { ApiStatus } from "./webview";
+
+export interface GenerateScriptsWebviewState {
+    /**
+     * Status of loading the objects of the database
+     */
+    loadStatus: ApiStatus;
+    databaseName: string;
+    objects: GenerateScriptsObject[];
+    /**
+     * Names of the schemas of the objects
+     */
+    schemas: string[];
+    options: GenerateScriptsOptions;
+    generateStatus: ApiStatus;
+    scriptedObjectCount: number;
+    totalObjectCount: number;
+    /**
+     * The file, or the folder of the files, the scripts were written to
+     */
+    outputPath?: string;
+    errorMessage?: string;
+}
+
+/**
+ * The types of objects that can be scripted, named as the scripting criteria of SQL Tools Service
+ * expect them
+ */
+export enum GenerateScriptsObjectType {
+    Table = "Table",
+    View = "View",
+    StoredProcedure = "StoredProcedure",
+    UserDefinedFunction = "UserDefinedFunction",
+}
+
+export interface GenerateScriptsObject {
+    type: GenerateScriptsObjectType;
+    schema: string;
+    name: string;
+}
+
+export enum ScriptDataType {
+    SchemaOnly = "SchemaOnly",
+    DataOnly = "DataOnly",
+    SchemaAndData = "SchemaAndData",
+}
+
+export enum ScriptDestination {
+    ToSingleFile = "ToSingleFile",
+    ToFilePerObject = "ToFilePerObject",
+}
+
+export interface GenerateScriptsOptions {
+    /**
+     * Whether all the objects of the included types and schemas are scripted, rather than the
+     * selected objects
+     */
+    scriptEntireDatabase: boolean;
+    includeTypes: GenerateScriptsObjectType[];
+    includeSchemas: string[];
+    /**
+     * Indexes of the selected objects in the objects of the database
+     */
+    selectedObjects: number[];
+    typeOfDataToScript: ScriptDataType;
+    targetDatabaseEngineEdition: TargetDatabaseEngineEdition;
+    scriptCompatibilityOption: ScriptCompatibilityOption;
+    destination: ScriptDestination;
+}
+
+export interface GenerateScriptsReducers {
+    setOptions: Partial<GenerateScriptsOptions>;
+    /**
+     * Asks for the file or folder to write the scripts to and scripts the objects
+     */
+    generateScripts: {};
+    cancelGenerateScripts: {};
+    /**
+     * Opens the file, or reveals the folder, the scripts were written to
+     */
+    openOutput: {};
+}
+
+/**
+ * Engine editions the scripts can target, named as the scripting options of SQL Tools Service
+ * expect them
+ */
+export enum TargetDatabaseEngineEdition {
+    SqlServerEnterpriseEdition = "SqlServerEnterpriseEdition",
+    SqlServerStandardEdition = "SqlServerStandardEdition",
+    SqlServerPersonalEdition = "SqlServerPersonalEdition",
+    SqlServerExpressEdition = "SqlServerExpressEdition",
+    SqlAzureDatabaseEdition = "SqlAzureDatabaseEdition",
+    SqlDatawarehouseEdition = "SqlDatawarehouseEdition",
+    SqlServerStretchEdition = "SqlServerStretchEdition",
+}
+
+/**
+ * Versions of SQL Server the scripts can be compatible with
+ */
+export enum ScriptCompatibilityOption {
+    Script90Compat = "Script90Compat",
+    Script100Compat = "Script100Compat",
+    Script105Compat = "Script105Compat",
+    Script110Compat = "Script110Compat",
+    Script120Compat = "Script120Compat",
+    Script130Compat = "Script130Compat",
+    Script140Compat = "Script140Compat",
+    Script150Compat = "Script150Compat",
+    Script160Compat = "Script160Compat",
+}
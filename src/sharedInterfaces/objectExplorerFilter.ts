@@ -11,6 +11,20 @@ export interface ObjectExplorerFilterState {
     filterProperties: vscodeMssql.NodeFilterProperty[];
     existingFilters: vscodeMssql.NodeFilter[];
     nodePath?: string;
+    /**
+     * The type of the node, presets can be applied to any node of the same type
+     */
+    nodeType?: string;
+    presets?: ObjectExplorerFilterPreset[];
+}
+
+/**
+ * Named filters that are saved to be applied to other nodes of the same type
+ */
+export interface ObjectExplorerFilterPreset {
+    name: string;
+    nodeType: string;
+    filters: vscodeMssql.NodeFilter[];
 }
 
 export interface ObjectExplorerReducers {
@@ -18,6 +32,13 @@ export interface ObjectExplorerReducers {
         filters: vscodeMssql.NodeFilter[];
     };
     cancel: {};
+    savePreset: {
+        name: string;
+        filters: vscodeMssql.NodeFilter[];
+    };
+    deletePreset: {
+        name: string;
+    };
 }
 
 export interface ObjectExplorerFilterContextProps {
@@ -25,6 +46,8 @@ export interface ObjectExplorerFilterContextProps {
     state: ObjectExplorerFilterState | undefined;
     themeKind: ColorThemeKind;
     submit: (filters: vscodeMssql.NodeFilter[]) => void;
+    savePreset: (name: string, filters: vscodeMssql.NodeFilter[]) => void;
+    deletePreset: (name: string) => void;
     clearAllFilters: () => void;
     cancel: () => void;
 }
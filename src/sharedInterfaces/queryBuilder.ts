@@ -0,0 +1,194 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { ApiStatus } from "./webview";
+
+/**
+ * The mime type of the tables, views and other objects dragged from Object Explorer, as a JSON
+ * array of ObjectExplorerDragObject
+ */
+export const objectExplorerObjectsMimeType =
+    "application/vnd.mssql.objectexplorer.objects";
+
+export interface ObjectExplorerDragObject {
+    /**
+     * The metadata type name of the node, such as Table or View
+     */
+    type: string;
+    server: string;
+    database: string;
+    schema: string;
+    name: string;
+}
+
+export interface QueryBuilderWebviewState {
+    /**
+     * Status of loading the tables and views of the database
+     */
+    loadStatus: ApiStatus;
+    serverName: string;
+    databaseName: string;
+    /**
+     * The tables and views that can be added to the query
+     */
+    objects: QueryBuilderObject[];
+    foreignKeys: QueryBuilderForeignKey[];
+    query: QueryBuilderQuery;
+    /**
+     * The SELECT statement generated from the query
+     */
+    sql: string;
+    errorMessage?: string;
+}
+
+export interface QueryBuilderObject {
+    schema: string;
+    name: string;
+    isView: boolean;
+    columns: string[];
+}
+
+export interface QueryBuilderForeignKey {
+    schema: string;
+    table: string;
+    columns: string[];
+    referencedSchema: string;
+    referencedTable: string;
+    referencedColumns: string[];
+}
+
+export enum QueryBuilderJoinType {
+    Inner = "INNER",
+    Left = "LEFT",
+    Right = "RIGHT",
+    Full = "FULL",
+}
+
+export enum QueryBuilderAggregate {
+    Count = "COUNT",
+    CountDistinct = "COUNT DISTINCT",
+    Sum = "SUM",
+    Average = "AVG",
+    Minimum = "MIN",
+    Maximum = "MAX",
+}
+
+export enum QueryBuilderOperator {
+    Equal = "=",
+    NotEqual = "<>",
+    LessThan = "<",
+    LessThanOrEqual = "<=",
+    GreaterThan = ">",
+    GreaterThanOrEqual = ">=",
+    Like = "LIKE",
+    NotLike = "NOT LIKE",
+    In = "IN",
+    NotIn = "NOT IN",
+    IsNull = "IS NULL",
+    IsNotNull = "IS NOT NULL",
+}
+
+/**
+ * A column of a table of the query, identified by the alias of the table
+ */
+export interface QueryBuilderColumnReference {
+    alias: string;
+    column: string;
+}
+
+export interface QueryBuilderTable {
+    schema: string;
+    name: string;
+    /**
+     * The unique name the columns of the table are referred to by in the query
+     */
+    alias: string;
+    /**
+     * How the table is joined to the tables before it. The first table of the query has no
+     * join, and the other ones are cross joined when the join has no conditions.
+     */
+    joinType: QueryBuilderJoinType;
+    joinConditions: QueryBuilderJoinCondition[];
+}
+
+export interface QueryBuilderJoinCondition {
+    /**
+     * The column of the joined table
+     */
+    column: string;
+    /**
+     * The column of a table before it that the column must be equal to
+     */
+    otherColumn: QueryBuilderColumnReference;
+}
+
+export interface QueryBuilderSelectedColumn
+    extends QueryBuilderColumnReference {
+    aggregate?: QueryBuilderAggregate;
+    /**
+     * The name of the column in the results, when it differs from the name of the column
+     */
+    outputName?: string;
+}
+
+export interface QueryBuilderFilter extends QueryBuilderColumnReference {
+    operator: QueryBuilderOperator;
+    /**
+     * The value the column is compared to as entered by the user, with the values of IN and
+     * NOT IN separated by commas
+     */
+    value: string;
+}
+
+export interface QueryBuilderOrderBy extends QueryBuilderColumnReference {
+    descending: boolean;
+}
+
+export interface QueryBuilderQuery {
+    tables: QueryBuilderTable[];
+    /**
+     * The columns of the results. All columns are returned when there are none.
+     */
+    columns: QueryBuilderSelectedColumn[];
+    distinct: boolean;
+    /**
+     * The maximum number of rows, or undefined for all rows
+     */
+    top?: number;
+    /**
+     * The filters of the WHERE clause, which must all be true
+     */
+    filters: QueryBuilderFilter[];
+    groupBy: QueryBuilderColumnReference[];
+    orderBy: QueryBuilderOrderBy[];
+}
+
+export interface QueryBuilderReducers {
+    /**
+     * Adds a table or view to the query, joined to the tables already in it through a foreign
+     * key when there is one
+     */
+    addTable: {
+        schema: string;
+        name: string;
+    };
+    /**
+     * Adds the tables and views dragged from Object Explorer to the query
+     */
+    dropObjects: {
+        objects: ObjectExplorerDragObject[];
+    };
+    /**
+     * Removes a table and everything in the query that refers to its columns
+     */
+    removeTable: {
+        alias: string;
+    };
+    setQuery: {
+        query: QueryBuilderQuery;
+    };
+    openInEditor: {};
+    runQuery: {};
+}
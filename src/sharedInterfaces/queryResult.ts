@@ -44,12 +44,50 @@ export interface QueryResultReactProvider
      * @param type the type of file to open
      */
     openFileThroughLink(content: string, type: string): void;
+
+    /**
+     * Sets the result set, type and columns of the chart in the chart tab
+     * @param chartOptions the options of the chart
+     */
+    setChartOptions(chartOptions: ChartOptions): void;
+
+    /**
+     * Saves the chart of the chart tab as an image
+     * @param format the format of the image
+     * @param content the svg markup, or the base64 encoded png image
+     */
+    exportChart(format: ChartExportFormat, content: string): void;
 }
 
 export enum QueryResultPaneTabs {
     Results = "results",
     Messages = "messages",
     ExecutionPlan = "executionPlan",
+    Chart = "chart",
+}
+
+export enum ChartType {
+    Bar = "bar",
+    Line = "line",
+    Pie = "pie",
+    Scatter = "scatter",
+    TimeSeries = "timeSeries",
+}
+
+export type ChartExportFormat = "svg" | "png";
+
+export interface ChartOptions {
+    batchId: number;
+    resultId: number;
+    chartType: ChartType;
+    /**
+     * Index of the column of the categories, or of the x values of scatter and time series charts
+     */
+    xColumn: number;
+    /**
+     * Indexes of the columns of the values, pie charts only show the first one
+     */
+    yColumns: number[];
 }
 
 export enum QueryResultWebviewLocation {
@@ -59,6 +97,7 @@ export enum QueryResultWebviewLocation {
 
 export interface QueryResultTabStates {
     resultPaneTab: QueryResultPaneTabs;
+    chartOptions?: ChartOptions;
 }
 
 export interface QueryResultWebviewState extends ExecutionPlanWebviewState {
@@ -98,6 +137,22 @@ export interface QueryResultReducers
         content: string;
         type: string;
     };
+    /**
+     * Sets the result set, type and columns of the chart in the chart tab
+     * @param chartOptions the options of the chart
+     */
+    setChartOptions: {
+        chartOptions: ChartOptions;
+    };
+    /**
+     * Saves the chart of the chart tab as an image
+     * @param format the format of the image
+     * @param content the svg markup, or the base64 encoded png image
+     */
+    exportChart: {
+        format: ChartExportFormat;
+        content: string;
+    };
 }
 
 export interface ISelectionData {
@@ -170,3 +225,78 @@ export interface ResultSetSubset {
     rowCount: number;
     rows: DbCellValue[][];
 }
+
+export enum ResultRowEditType {
+    Update = "update",
+    Delete = "delete",
+    Insert = "insert",
+}
+
+/**
+ * A pending change to a row of a result set that is edited in the grid
+ */
+export interface ResultRowEdit {
+    type: ResultRowEditType;
+    /**
+     * Id of the edited row. Rows added in the grid are numbered after the last row of the result set.
+     */
+    rowId: number;
+    /**
+     * The values the row had when it was loaded, used to find the row in its base table.
+     * Not set for added rows.
+     */
+    originalValues?: DbCellValue[];
+    /**
+     * The new values of the changed cells, keyed by column index
+     */
+    newValues: Record<number, DbCellValue>;
+}
+
+export interface CommitResultEditsResult {
+    success: boolean;
+    errorMessage?: string;
+}
+
+/**
+ * Gets the base table the rows of a result set can be edited in. Results can only be edited when
+ * all of their columns come from a single base table and the key of that table is included.
+ * @returns the unquoted schema and name of the table, or undefined if the results are read-only
+ */
+export function getEditableBaseTable(
+    columns: IDbColumn[],
+): { schema?: string; name: string } | undefined {
+    if (!columns.some((c) => c.isKey)) {
+        return undefined;
+    }
+    const tables = new Set(
+        columns.map((c) =>
+            c.baseTableName
+                ? `${c.baseSchemaName ?? ""}.${c.baseTableName}`
+                : undefined,
+        ),
+    );
+    if (tables.size !== 1 || !columns[0].baseTableName) {
+        return undefined;
+    }
+    return {
+        schema: columns[0].baseSchemaName || undefined,
+        name: columns[0].baseTableName,
+    };
+}
+
+/**
+ * Whether the values of a column can be changed, computed, identity and rowversion
+ * columns are generated by the server
+ */
+export function isEditableColumn(column: IDbColumn): boolean {
+    const dataType = (column.dataTypeName ?? "").toLowerCase();
+    return (
+        !column.isIdentity &&
+        !column.isAutoIncrement &&
+        !column.isExpression &&
+        !column.isReadOnly &&
+        !column.isHidden &&
+        dataType !== "timestamp" &&
+        dataType !== "rowversion"
+    );
+}
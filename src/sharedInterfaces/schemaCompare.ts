@@ -0,0 +1,117 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { ApiStatus } from "./webview";
+
+/**
+ * Same values as the SchemaCompareEndpointType of the tools service
+ */
+export enum SchemaCompareEndpointType {
+    Database = 0,
+    Dacpac = 1,
+    Project = 2,
+}
+
+/**
+ * Same values as the SchemaUpdateAction of the tools service
+ */
+export enum SchemaUpdateAction {
+    Delete = 0,
+    Change = 1,
+    Add = 2,
+}
+
+export interface SchemaCompareWebviewState {
+    source?: SchemaCompareEndpoint;
+    target?: SchemaCompareEndpoint;
+    compareStatus: ApiStatus;
+    errorMessage?: string;
+    /**
+     * Whether the last compare found no differences
+     */
+    areEqual?: boolean;
+    /**
+     * Object level differences found by the last compare
+     */
+    differences: SchemaCompareDifference[];
+    /**
+     * Whether the update script is being generated or applied to the target
+     */
+    isUpdating: boolean;
+}
+
+export interface SchemaCompareEndpoint {
+    endpointType: SchemaCompareEndpointType;
+    /**
+     * The database name, or the file name of the .dacpac or project
+     */
+    displayName: string;
+    /**
+     * The server name, or the full path of the .dacpac or project
+     */
+    detail: string;
+}
+
+export interface SchemaCompareDifference {
+    /**
+     * Index of the difference in the compare result
+     */
+    id: number;
+    updateAction: SchemaUpdateAction;
+    objectType: string;
+    sourceName?: string;
+    targetName?: string;
+    sourceScript?: string;
+    targetScript?: string;
+    /**
+     * Whether the difference is part of the update script
+     */
+    included: boolean;
+}
+
+export interface SchemaCompareReducers {
+    /**
+     * Lets the user pick the source database, .dacpac or project
+     */
+    selectSource: {};
+    /**
+     * Lets the user pick the target database, .dacpac or project
+     */
+    selectTarget: {};
+    /**
+     * Swaps the source and the target and clears the results
+     */
+    swapEndpoints: {};
+    /**
+     * Compares the source with the target
+     */
+    compare: {};
+    /**
+     * Cancels the compare that is running
+     */
+    cancelCompare: {};
+    /**
+     * Includes or excludes a difference from the update script, along with the differences
+     * that depend on it
+     */
+    includeDifference: {
+        id: number;
+        included: boolean;
+    };
+    /**
+     * Includes or excludes all the differences from the update script
+     */
+    includeAllDifferences: {
+        included: boolean;
+    };
+    /**
+     * Opens the script that updates the target database in a new editor
+     */
+    generateScript: {};
+    /**
+     * Applies the included differences to the target database or project
+     */
+    applyChanges: {};
+}
@@ -134,6 +134,12 @@ export enum TableProperty {
     PrimaryKeyName = "primaryKeyName",
     PrimaryKeyDescription = "primaryKeyDescription",
     PrimaryKeyColumns = "primaryKeyColumns",
+    IsSystemVersioningEnabled = "isSystemVersioningEnabled",
+    AutoCreateHistoryTable = "autoCreateHistoryTable",
+    NewHistoryTableName = "newHistoryTableName",
+    HistoryTable = "historyTable",
+    IsMemoryOptimized = "isMemoryOptimized",
+    Durability = "durability",
 }
 /**
  * Name of the common table column properties.
@@ -151,6 +157,13 @@ export enum TableColumnProperty {
     Precision = "precision",
     Scale = "scale",
     IsIdentity = "isIdentity",
+    IsComputed = "isComputed",
+    ComputedFormula = "computedFormula",
+    IsComputedPersisted = "isComputedPersisted",
+    IsComputedPersistedNullable = "isComputedPersistedNullable",
+    DefaultConstraintName = "defaultConstraintName",
+    GeneratedAlwaysAs = "generatedAlwaysAs",
+    IsHidden = "isHidden",
 }
 
 /**
@@ -677,6 +690,10 @@ export enum DesignerMainPaneTabs {
     ForeignKeys = "foreignKeys",
     Indexes = "indexes",
     CheckConstraints = "checkConstraints",
+    ComputedColumns = "computedColumns",
+    DefaultConstraints = "defaultConstraints",
+    TemporalTable = "temporalTable",
+    MemoryOptimized = "memoryOptimized",
 }
 
 export enum DesignerResultPaneTabs {
@@ -18,6 +18,11 @@ export enum TelemetryViews {
     General = "General",
     ConnectionDialog = "ConnectionDialog",
     ExecutionPlan = "ExecutionPlan",
+    SchemaCompare = "SchemaCompare",
+    FlatFileImport = "FlatFileImport",
+    GenerateScripts = "GenerateScripts",
+    ErDiagram = "ErDiagram",
+    QueryBuilder = "QueryBuilder",
 }
 
 export enum TelemetryActions {
@@ -33,6 +38,10 @@ export enum TelemetryActions {
     CreateConnection = "CreateConnection",
     CreateConnectionResult = "CreateConnectionResult",
     ExpandNode = "ExpandNode",
+    FindObject = "FindObject",
+    CopyConnectionString = "CopyConnectionString",
+    ExportConnections = "ExportConnections",
+    ImportConnections = "ImportConnections",
     ResultPaneAction = "ResultPaneAction",
     Load = "Load",
     WebviewRequest = "WebviewRequest",
@@ -43,12 +52,24 @@ export enum TelemetryActions {
     Edit = "Edit",
     Publish = "Publish",
     ContinueEditing = "ContinueEditing",
+    PopulateFromFile = "PopulateFromFile",
+    InsertFileRows = "InsertFileRows",
+    ImportFlatFile = "ImportFlatFile",
+    GenerateScripts = "GenerateScripts",
+    GenerateSchemaDocs = "GenerateSchemaDocs",
+    ExportErDiagram = "ExportErDiagram",
+    OpenQueryBuilderQuery = "OpenQueryBuilderQuery",
     Close = "Close",
     SurveySubmit = "SurveySubmit",
     SaveResults = "SaveResults",
     CopyResults = "CopyResults",
     CopyResultsHeaders = "CopyResultsHeaders",
     CopyHeaders = "CopyHeaders",
+    ExportChart = "ExportChart",
+    CommitResultEdits = "CommitResultEdits",
+    SaveFilterPreset = "SaveFilterPreset",
+    ApplyFilterPreset = "ApplyFilterPreset",
+    ConfirmProductionQuery = "ConfirmProductionQuery",
     EnableRichExperiencesPrompt = "EnableRichExperiencesPrompt",
     OpenQueryResultsInTabByDefaultPrompt = "OpenQueryResultsInTabByDefaultPrompt",
     OpenQueryResult = "OpenQueryResult",
@@ -59,6 +80,9 @@ export enum TelemetryActions {
     LoadRecentConnections = "LoadRecentConnections",
     LoadAzureSubscriptions = "LoadAzureSubscriptions",
     OpenExecutionPlan = "OpenExecutionPlan",
+    CompareExecutionPlans = "CompareExecutionPlans",
+    ExportExecutionPlan = "ExportExecutionPlan",
+    CompareSchemas = "CompareSchemas",
     LoadAzureAccountsForEntraAuth = "LoadAzureAccountsForEntraAuth",
     LoadAzureTenantsForEntraAuth = "LoadAzureTenantsForEntraAuth",
     LoadConnections = "LoadConnections",
@@ -7,6 +7,24 @@ import { TableDesigner } from "../constants/locConstants";
 import * as designer from "../sharedInterfaces/tableDesigner";
 import * as vscode from "vscode";
 
+/**
+ * Table properties that are shown in the Temporal Table tab instead of the Advanced Options tab
+ */
+const temporalTableProperties: string[] = [
+    designer.TableProperty.IsSystemVersioningEnabled,
+    designer.TableProperty.AutoCreateHistoryTable,
+    designer.TableProperty.NewHistoryTableName,
+    designer.TableProperty.HistoryTable,
+];
+
+/**
+ * Table properties that are shown in the Memory Optimized tab instead of the Advanced Options tab
+ */
+const memoryOptimizedTableProperties: string[] = [
+    designer.TableProperty.IsMemoryOptimized,
+    designer.TableProperty.Durability,
+];
+
 export function getAdvancedOptionsComponents(
     viewDefinition: designer.TableDesignerView | undefined,
 ): designer.DesignerDataPropertyInfo[] {
@@ -26,21 +44,21 @@ export function getAdvancedOptionsComponents(
     ];
 
     if (viewDefinition?.additionalTableProperties) {
-        tabComponents.push(...viewDefinition.additionalTableProperties);
+        tabComponents.push(
+            ...viewDefinition.additionalTableProperties.filter(
+                (p) =>
+                    !temporalTableProperties.includes(p.propertyName) &&
+                    !memoryOptimizedTableProperties.includes(p.propertyName),
+            ),
+        );
     }
 
     return tabComponents;
 }
 
-export function getColumnsTabComponents(
-    view: designer.TableDesignerView | undefined,
+function getColumnProperties(
+    columnTableOptions: designer.TableDesignerBuiltInTableViewOptions,
 ): designer.DesignerDataPropertyInfo[] {
-    if (!view || !view?.columnTableOptions) {
-        return [];
-    }
-
-    const columnTableOptions = view.columnTableOptions;
-
     const columnTableColumnDefinitions: designer.DesignerDataPropertyInfo[] = [
         {
             componentType: "input",
@@ -154,6 +172,21 @@ export function getColumnsTabComponents(
         },
     ];
 
+    return addAdditionalTableProperties(
+        columnTableOptions,
+        columnTableColumnDefinitions,
+    );
+}
+
+export function getColumnsTabComponents(
+    view: designer.TableDesignerView | undefined,
+): designer.DesignerDataPropertyInfo[] {
+    if (!view || !view?.columnTableOptions) {
+        return [];
+    }
+
+    const columnTableOptions = view.columnTableOptions;
+
     const displayProperties = getTableDisplayProperties(columnTableOptions, [
         designer.TableColumnProperty.Name,
         designer.TableColumnProperty.Type,
@@ -171,10 +204,7 @@ export function getColumnsTabComponents(
             componentProperties: {
                 ariaLabel: vscode.l10n.t("Columns"),
                 columns: displayProperties,
-                itemProperties: addAdditionalTableProperties(
-                    columnTableOptions,
-                    columnTableColumnDefinitions,
-                ),
+                itemProperties: getColumnProperties(columnTableOptions),
                 objectTypeDisplayName: vscode.l10n.t("Column"),
                 canAddRows: columnTableOptions.canAddRows,
                 canInsertRows: columnTableOptions.canInsertRows,
@@ -691,6 +721,86 @@ export function getCheckConstraintsTabComponents(
     return tabComponents;
 }
 
+export function getComputedColumnsTabComponents(
+    view: designer.TableDesignerView | undefined,
+): designer.DesignerDataPropertyInfo[] {
+    if (!view || !view.columnTableOptions) {
+        return [];
+    }
+    const columnsComponent = getColumnsViewComponent(
+        view.columnTableOptions,
+        vscode.l10n.t("Computed Columns"),
+        [
+            designer.TableColumnProperty.Name,
+            designer.TableColumnProperty.IsComputed,
+            designer.TableColumnProperty.ComputedFormula,
+            designer.TableColumnProperty.IsComputedPersisted,
+            designer.TableColumnProperty.IsComputedPersistedNullable,
+        ],
+    );
+    // the tab is only shown when the provider supports computed columns
+    return hasItemProperty(
+        columnsComponent,
+        designer.TableColumnProperty.ComputedFormula,
+    )
+        ? [columnsComponent]
+        : [];
+}
+
+export function getDefaultConstraintsTabComponents(
+    view: designer.TableDesignerView | undefined,
+): designer.DesignerDataPropertyInfo[] {
+    if (!view || !view.columnTableOptions) {
+        return [];
+    }
+    return [
+        getColumnsViewComponent(
+            view.columnTableOptions,
+            vscode.l10n.t("Default Constraints"),
+            [
+                designer.TableColumnProperty.Name,
+                designer.TableColumnProperty.DefaultConstraintName,
+                designer.TableColumnProperty.DefaultValue,
+            ],
+        ),
+    ];
+}
+
+export function getTemporalTableTabComponents(
+    view: designer.TableDesignerView | undefined,
+): designer.DesignerDataPropertyInfo[] {
+    const tabComponents = getTableProperties(view, temporalTableProperties);
+    if (tabComponents.length === 0) {
+        return [];
+    }
+    if (view!.columnTableOptions) {
+        const periodColumnsComponent = getColumnsViewComponent(
+            view!.columnTableOptions,
+            vscode.l10n.t("Period Columns"),
+            [
+                designer.TableColumnProperty.Name,
+                designer.TableColumnProperty.GeneratedAlwaysAs,
+                designer.TableColumnProperty.IsHidden,
+            ],
+        );
+        if (
+            hasItemProperty(
+                periodColumnsComponent,
+                designer.TableColumnProperty.GeneratedAlwaysAs,
+            )
+        ) {
+            tabComponents.push(periodColumnsComponent);
+        }
+    }
+    return tabComponents;
+}
+
+export function getMemoryOptimizedTabComponents(
+    view: designer.TableDesignerView | undefined,
+): designer.DesignerDataPropertyInfo[] {
+    return getTableProperties(view, memoryOptimizedTableProperties);
+}
+
 export function getDesignerView(
     view: designer.TableDesignerView | undefined,
 ): designer.DesignerView {
@@ -721,6 +831,7 @@ export function getDesignerView(
                 id: designer.DesignerMainPaneTabs.CheckConstraints,
                 components: getCheckConstraintsTabComponents(view),
             },
+            ...getOptionalTabs(view),
             {
                 title: vscode.l10n.t("Advanced Options"),
                 id: designer.DesignerMainPaneTabs.AboutTable,
@@ -730,6 +841,87 @@ export function getDesignerView(
     };
 }
 
+/**
+ * Gets the tabs that are only shown when the provider supports the features they edit
+ */
+function getOptionalTabs(
+    view: designer.TableDesignerView | undefined,
+): designer.DesignerTab[] {
+    const tabs: designer.DesignerTab[] = [
+        {
+            title: vscode.l10n.t("Computed Columns"),
+            id: designer.DesignerMainPaneTabs.ComputedColumns,
+            components: getComputedColumnsTabComponents(view),
+        },
+        {
+            title: vscode.l10n.t("Default Constraints"),
+            id: designer.DesignerMainPaneTabs.DefaultConstraints,
+            components: getDefaultConstraintsTabComponents(view),
+        },
+        {
+            title: vscode.l10n.t("Temporal Table"),
+            id: designer.DesignerMainPaneTabs.TemporalTable,
+            components: getTemporalTableTabComponents(view),
+        },
+        {
+            title: vscode.l10n.t("Memory Optimized"),
+            id: designer.DesignerMainPaneTabs.MemoryOptimized,
+            components: getMemoryOptimizedTabComponents(view),
+        },
+    ];
+    return tabs.filter((tab) => tab.components.length > 0);
+}
+
+/**
+ * Gets a table of the columns that only displays the column properties a tab edits. Columns
+ * are added and removed in the Columns tab.
+ */
+function getColumnsViewComponent(
+    columnTableOptions: designer.TableDesignerBuiltInTableViewOptions,
+    ariaLabel: string,
+    displayProperties: string[],
+): designer.DesignerDataPropertyInfo {
+    const itemProperties = getColumnProperties(columnTableOptions);
+    return {
+        componentType: "table",
+        propertyName: designer.TableProperty.Columns,
+        showInPropertiesView: false,
+        componentProperties: {
+            ariaLabel: ariaLabel,
+            columns: displayProperties.filter((property) =>
+                itemProperties.some((p) => p.propertyName === property),
+            ),
+            itemProperties: itemProperties,
+            objectTypeDisplayName: vscode.l10n.t("Column"),
+            canAddRows: false,
+            canInsertRows: false,
+            canMoveRows: false,
+            canRemoveRows: false,
+            expandedGroups: [TableDesigner.General],
+        } as designer.DesignerTableProperties,
+    };
+}
+
+function hasItemProperty(
+    tableComponent: designer.DesignerDataPropertyInfo,
+    propertyName: string,
+): boolean {
+    const tableProperties =
+        tableComponent.componentProperties as designer.DesignerTableProperties;
+    return !!tableProperties.columns?.includes(propertyName);
+}
+
+function getTableProperties(
+    view: designer.TableDesignerView | undefined,
+    propertyNames: string[],
+): designer.DesignerDataPropertyInfo[] {
+    return (
+        view?.additionalTableProperties?.filter((p) =>
+            propertyNames.includes(p.propertyName),
+        ) ?? []
+    );
+}
+
 function getTableDisplayProperties(
     options: designer.TableDesignerBuiltInTableViewOptions | undefined,
     defaultProperties: string[],
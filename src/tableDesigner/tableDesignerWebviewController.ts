@@ -17,10 +17,19 @@ import {
     TelemetryActions,
     TelemetryViews,
 } from "../sharedInterfaces/telemetry";
-import { copied, scriptCopiedToClipboard } from "../constants/locConstants";
+import {
+    copied,
+    insertRows,
+    msgInsertFileRows,
+    msgPopulateTableFromFileFailed,
+    scriptCopiedToClipboard,
+} from "../constants/locConstants";
 import { UserSurvey } from "../nps/userSurvey";
 import { ObjectExplorerProvider } from "../objectExplorer/objectExplorerProvider";
 import { getErrorMessage } from "../utils/utils";
+import { TableColumn, TableFileData, getInsertScript } from "./tableFromFile";
+import { Deferred } from "../protocol";
+import { cmdRunQuery } from "../constants/constants";
 
 export class TableDesignerWebviewController extends ReactWebviewPanelController<
     designer.TableDesignerWebviewState,
@@ -37,6 +46,7 @@ export class TableDesignerWebviewController extends ReactWebviewPanelController<
         private _targetNode?: TreeNodeInfo,
         private _objectExplorerProvider?: ObjectExplorerProvider,
         private _objectExplorerTree?: vscode.TreeView<TreeNodeInfo>,
+        private _tableFileData?: TableFileData,
     ) {
         super(
             context,
@@ -178,6 +188,9 @@ export class TableDesignerWebviewController extends ReactWebviewPanelController<
                     initializeState: designer.LoadState.Loaded,
                 },
             };
+            if (this._tableFileData) {
+                await this.populateColumnsFromFile(this._tableFileData);
+            }
         } catch (e) {
             endActivity.endFailed(e, false);
             this.state.apiState.initializeState = designer.LoadState.Error;
@@ -187,6 +200,176 @@ export class TableDesignerWebviewController extends ReactWebviewPanelController<
         this.registerRpcHandlers();
     }
 
+    /**
+     * Replaces the default columns of the new table with the columns inferred from a file
+     */
+    private async populateColumnsFromFile(data: TableFileData): Promise<void> {
+        const processEdit = (
+            type: designer.DesignerEditType,
+            path: designer.DesignerPropertyPath,
+            value?: unknown,
+        ) =>
+            this._tableDesignerService.processTableEdit(this.state.tableInfo, {
+                type: type,
+                path: path,
+                value: value,
+                source: "TabsView",
+            });
+        const columnsProperty = designer.TableProperty.Columns;
+        const initialColumnCount =
+            (
+                this.state.model[
+                    columnsProperty
+                ] as designer.DesignerTableProperties
+            ).data?.length ?? 0;
+
+        try {
+            let result = await processEdit(
+                designer.DesignerEditType.Update,
+                [designer.TableProperty.Name],
+                data.tableName,
+            );
+            let view = result.view;
+            for (let i = 0; i < initialColumnCount; i++) {
+                result = await processEdit(designer.DesignerEditType.Remove, [
+                    columnsProperty,
+                    0,
+                ]);
+            }
+            for (const [index, column] of data.columns.entries()) {
+                await processEdit(designer.DesignerEditType.Add, [
+                    columnsProperty,
+                    index,
+                ]);
+                const columnPath = [columnsProperty, index];
+                await processEdit(
+                    designer.DesignerEditType.Update,
+                    [...columnPath, designer.TableColumnProperty.Name],
+                    column.name,
+                );
+                await processEdit(
+                    designer.DesignerEditType.Update,
+                    [...columnPath, designer.TableColumnProperty.AdvancedType],
+                    column.dataType,
+                );
+                result = await processEdit(
+                    designer.DesignerEditType.Update,
+                    [...columnPath, designer.TableColumnProperty.AllowNulls],
+                    column.allowNulls,
+                );
+                view = result.view ?? view;
+            }
+            this.state = {
+                ...this.state,
+                view: view ? getDesignerView(view) : this.state.view,
+                model: result.viewModel,
+                issues: result.issues,
+                isValid: result.isValid,
+            };
+            sendActionEvent(
+                TelemetryViews.TableDesigner,
+                TelemetryActions.PopulateFromFile,
+                {
+                    correlationId: this._correlationId,
+                },
+                {
+                    columnCount: data.columns.length,
+                    rowCount: data.rows.length,
+                },
+            );
+        } catch (e) {
+            void vscode.window.showErrorMessage(
+                msgPopulateTableFromFileFailed(getErrorMessage(e)),
+            );
+        }
+    }
+
+    /**
+     * Offers to insert the rows of the file the table was designed from, once the table is published
+     */
+    private async offerToInsertFileRows(
+        model: designer.DesignerViewModel,
+    ): Promise<void> {
+        const data = this._tableFileData;
+        if (!data || data.rows.length === 0) {
+            return;
+        }
+        const schema = (
+            model[designer.TableProperty.Schema] as designer.DropDownProperties
+        ).value;
+        const name = (
+            model[designer.TableProperty.Name] as designer.InputBoxProperties
+        ).value;
+        // identity and computed columns are generated by the server
+        const tableColumns: TableColumn[] = (
+            (
+                model[
+                    designer.TableProperty.Columns
+                ] as designer.DesignerTableProperties
+            ).data ?? []
+        )
+            .filter(
+                (column) =>
+                    !(
+                        column[
+                            designer.TableColumnProperty.IsIdentity
+                        ] as designer.CheckBoxProperties
+                    )?.checked &&
+                    !(
+                        column[
+                            designer.TableColumnProperty.IsComputed
+                        ] as designer.CheckBoxProperties
+                    )?.checked,
+            )
+            .map((column) => ({
+                name: (
+                    column[
+                        designer.TableColumnProperty.Name
+                    ] as designer.InputBoxProperties
+                ).value,
+                type:
+                    (
+                        column[
+                            designer.TableColumnProperty.Type
+                        ] as designer.DropDownProperties
+                    )?.value ?? "",
+            }));
+        const script = getInsertScript(schema, name, data, tableColumns);
+        if (!script) {
+            return;
+        }
+        const choice = await vscode.window.showInformationMessage(
+            msgInsertFileRows(data.rows.length, `${schema}.${name}`),
+            insertRows,
+        );
+        if (choice !== insertRows) {
+            return;
+        }
+        // the rows are only inserted once, later changes to the table don't insert them again
+        this._tableFileData = undefined;
+
+        const editor = await this._untitledSqlDocumentService.newQuery(script);
+        const connectPromise = new Deferred<boolean>();
+        await this._connectionManager.connect(
+            editor.document.uri.toString(true),
+            this._targetNode.connectionInfo,
+            connectPromise,
+        );
+        if (await connectPromise) {
+            await vscode.commands.executeCommand(cmdRunQuery);
+        }
+        sendActionEvent(
+            TelemetryViews.TableDesigner,
+            TelemetryActions.InsertFileRows,
+            {
+                correlationId: this._correlationId,
+            },
+            {
+                rowCount: data.rows.length,
+            },
+        );
+    }
+
     private getDatabaseNameForNode(node: TreeNodeInfo): string {
         if (node.metadata?.metadataTypeName === "Database") {
             return node.metadata.name;
@@ -283,6 +466,7 @@ export class TableDesignerWebviewController extends ReactWebviewPanelController<
                 };
                 this.panel.title = state.tableInfo.title;
                 this.showRestorePromptAfterClose = false;
+                void this.offerToInsertFileRows(state.model);
                 await UserSurvey.getInstance().promptUserForNPSFeedback();
             } catch (e) {
                 state = {
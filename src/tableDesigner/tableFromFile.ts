@@ -0,0 +1,404 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as LocalizedConstants from "../constants/locConstants";
+import { numericLiteralRegex } from "../models/queryParameters";
+
+/**
+ * A column of a new table, inferred from the values of a file
+ */
+export interface InferredColumn {
+    name: string;
+    /**
+     * The SQL type name, such as nvarchar
+     */
+    type: string;
+    /**
+     * The SQL type with its length, precision and scale, such as nvarchar(50)
+     */
+    dataType: string;
+    allowNulls: boolean;
+}
+
+/**
+ * A column of the published table that values can be inserted into
+ */
+export interface TableColumn {
+    name: string;
+    /**
+     * The SQL type name, such as nvarchar
+     */
+    type: string;
+}
+
+/**
+ * The data of a CSV or JSON file that a new table is designed from.
+ * Missing and empty values are undefined.
+ */
+export interface TableFileData {
+    tableName: string;
+    columns: InferredColumn[];
+    rows: (string | undefined)[][];
+}
+
+/**
+ * Lengths the inferred lengths of the text columns are rounded up to
+ */
+const textLengths = [10, 50, 100, 255, 500, 1000, 4000];
+
+/**
+ * Maximum number of rows in a single INSERT ... VALUES statement
+ */
+const insertBatchSize = 1000;
+
+const numericTypes = [
+    "tinyint",
+    "smallint",
+    "int",
+    "bigint",
+    "decimal",
+    "numeric",
+    "float",
+    "real",
+    "money",
+    "smallmoney",
+];
+
+const csvDelimiters = [",", ";", "\t", "|"];
+
+/**
+ * Reads the data of a CSV or JSON file and infers the columns of a table for it
+ * @param content the content of the file
+ * @param fileName the name of the file, used for the table name and to tell JSON files apart
+ * @throws an error with a localized message when the file has no data
+ */
+export function readTableFile(
+    content: string,
+    fileName: string,
+): TableFileData {
+    content = content.replace(/^\uFEFF/, "");
+    const extensionIndex = fileName.lastIndexOf(".");
+    const extension =
+        extensionIndex >= 0
+            ? fileName.substring(extensionIndex + 1).toLowerCase()
+            : "";
+    const { headers, rows } =
+        extension === "json" ? parseJsonRows(content) : parseCsvRows(content);
+    if (headers.length === 0) {
+        throw new Error(LocalizedConstants.msgTableFileEmpty);
+    }
+
+    return {
+        tableName:
+            extensionIndex > 0
+                ? fileName.substring(0, extensionIndex)
+                : fileName,
+        columns: inferColumns(headers, rows),
+        rows: rows,
+    };
+}
+
+/**
+ * Infers the name, type and nullability of the columns from their values
+ * @param headers the names of the columns
+ * @param rows the values of the rows, in the order of the headers
+ */
+export function inferColumns(
+    headers: string[],
+    rows: (string | undefined)[][],
+): InferredColumn[] {
+    const names = new Set<string>();
+    return headers.map((header, index) => {
+        const baseName = header.trim() || `Column${index + 1}`;
+        let name = baseName;
+        for (let suffix = 2; names.has(name.toLowerCase()); suffix++) {
+            name = `${baseName}_${suffix}`;
+        }
+        names.add(name.toLowerCase());
+
+        const values = rows.map((row) => row[index]);
+        const nonEmptyValues = values.filter((v) => v !== undefined);
+        const { type, dataType } = inferType(nonEmptyValues);
+        return {
+            name: name,
+            type: type,
+            dataType: dataType,
+            allowNulls:
+                rows.length === 0 || nonEmptyValues.length < values.length,
+        };
+    });
+}
+
+/**
+ * Gets the INSERT statements that add the rows of a file to the table designed from it. The values
+ * of the file columns are inserted into the columns of the table with the same name, as the types
+ * of these columns, and the file columns that were removed from the table are left out.
+ * @param tableColumns the columns of the published table that values can be inserted into
+ * @returns the statements, or an empty string when no column of the table comes from the file
+ */
+export function getInsertScript(
+    schema: string,
+    table: string,
+    data: TableFileData,
+    tableColumns: TableColumn[],
+): string {
+    const columns = tableColumns
+        .map((column) => ({
+            column: column,
+            fileIndex: data.columns.findIndex(
+                (c) => c.name.toLowerCase() === column.name.toLowerCase(),
+            ),
+        }))
+        .filter((c) => c.fileIndex >= 0);
+    if (columns.length === 0) {
+        return "";
+    }
+    const tableName = `${quoteName(schema)}.${quoteName(table)}`;
+    const columnNames = columns.map((c) => quoteName(c.column.name)).join(", ");
+    const statements: string[] = [];
+    for (let start = 0; start < data.rows.length; start += insertBatchSize) {
+        const values = data.rows
+            .slice(start, start + insertBatchSize)
+            .map(
+                (row) =>
+                    `(${columns.map((c) => toSqlLiteral(row[c.fileIndex], c.column)).join(", ")})`,
+            );
+        statements.push(
+            `INSERT INTO ${tableName} (${columnNames})\nVALUES\n    ${values.join(",\n    ")};`,
+        );
+    }
+    return statements.join("\nGO\n\n");
+}
+
+function inferType(values: string[]): { type: string; dataType: string } {
+    const simpleType = (type: string) => ({ type: type, dataType: type });
+    if (values.length === 0) {
+        return { type: "nvarchar", dataType: "nvarchar(50)" };
+    }
+    if (values.every((v) => /^(true|false)$/i.test(v))) {
+        return simpleType("bit");
+    }
+    // numbers with leading zeros, such as zip codes, are kept as text
+    if (values.some((v) => /^-?0\d+(\.\d*)?$/.test(v))) {
+        return getTextType(values);
+    }
+    if (values.every((v) => /^-?\d+$/.test(v))) {
+        const maxDigits = Math.max(
+            ...values.map((v) => v.replace("-", "").length),
+        );
+        if (
+            maxDigits < 10 ||
+            (maxDigits === 10 &&
+                values.every((v) => Math.abs(Number(v)) <= 2147483647))
+        ) {
+            return simpleType("int");
+        }
+        if (maxDigits < 19) {
+            return simpleType("bigint");
+        }
+        if (maxDigits <= 38) {
+            return {
+                type: "decimal",
+                dataType: `decimal(${maxDigits}, 0)`,
+            };
+        }
+    }
+    if (
+        values.every((v) => /^-?(\d+\.\d*|\.\d+)$/.test(v) || /^-?\d+$/.test(v))
+    ) {
+        let integerDigits = 1;
+        let scale = 0;
+        for (const value of values) {
+            const [integerPart, fractionPart = ""] = value
+                .replace("-", "")
+                .split(".");
+            integerDigits = Math.max(integerDigits, integerPart.length);
+            scale = Math.max(scale, fractionPart.length);
+        }
+        if (integerDigits + scale <= 38) {
+            return {
+                type: "decimal",
+                dataType: `decimal(${integerDigits + scale}, ${scale})`,
+            };
+        }
+    }
+    if (values.every((v) => numericLiteralRegex.test(v))) {
+        return simpleType("float");
+    }
+    if (
+        values.every((v) =>
+            /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(
+                v,
+            ),
+        )
+    ) {
+        return simpleType("uniqueidentifier");
+    }
+    if (
+        values.every(
+            (v) => /^\d{4}-\d{2}-\d{2}$/.test(v) && !isNaN(Date.parse(v)),
+        )
+    ) {
+        return simpleType("date");
+    }
+    const dateTimePattern =
+        /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d{1,7})?)?(Z|[+-]\d{2}:\d{2})?$/;
+    if (values.every((v) => dateTimePattern.test(v))) {
+        return simpleType(
+            values.some((v) => /(Z|[+-]\d{2}:\d{2})$/.test(v))
+                ? "datetimeoffset"
+                : "datetime2",
+        );
+    }
+
+    return getTextType(values);
+}
+
+function getTextType(values: string[]): { type: string; dataType: string } {
+    const maxLength = Math.max(...values.map((v) => v.length));
+    const length = textLengths.find((l) => l >= maxLength);
+    return {
+        type: "nvarchar",
+        dataType: `nvarchar(${length ?? "max"})`,
+    };
+}
+
+function toSqlLiteral(value: string | undefined, column: TableColumn) {
+    if (value === undefined) {
+        return "NULL";
+    }
+    const type = column.type.toLowerCase();
+    // values that don't match the type of the column are quoted, and converted by the server
+    if (type === "bit" && /^(true|false)$/i.test(value)) {
+        return value.toLowerCase() === "true" ? "1" : "0";
+    }
+    if (numericTypes.includes(type) && numericLiteralRegex.test(value)) {
+        return value;
+    }
+    return `N'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Quotes a SQL identifier with brackets
+ */
+export function quoteName(name: string): string {
+    return `[${name.replace(/]/g, "]]")}]`;
+}
+
+/**
+ * Parses RFC 4180 CSV content, detecting the delimiter from the header line
+ */
+function parseCsvRows(content: string): {
+    headers: string[];
+    rows: (string | undefined)[][];
+} {
+    const headerLine = content.split(/\r?\n/, 1)[0];
+    const delimiter = csvDelimiters.reduce((best, candidate) =>
+        headerLine.split(candidate).length > headerLine.split(best).length
+            ? candidate
+            : best,
+    );
+
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = "";
+    let inQuotes = false;
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        if (inQuotes) {
+            if (char === '"' && content[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            record.push(field);
+            field = "";
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && content[i + 1] === "\n") {
+                i++;
+            }
+            record.push(field);
+            records.push(record);
+            record = [];
+            field = "";
+        } else {
+            field += char;
+        }
+    }
+    if (field !== "" || record.length > 0) {
+        record.push(field);
+        records.push(record);
+    }
+
+    const nonEmptyRecords = records.filter(
+        (r) => r.length > 1 || r[0].trim() !== "",
+    );
+    if (nonEmptyRecords.length === 0) {
+        return { headers: [], rows: [] };
+    }
+    const [headers, ...rows] = nonEmptyRecords;
+    return {
+        headers: headers,
+        rows: rows.map((row) =>
+            headers.map((_header, index) =>
+                row[index] === undefined || row[index] === ""
+                    ? undefined
+                    : row[index],
+            ),
+        ),
+    };
+}
+
+/**
+ * Parses a JSON array of objects, the columns are the properties of the objects
+ */
+function parseJsonRows(content: string): {
+    headers: string[];
+    rows: (string | undefined)[][];
+} {
+    let items: unknown;
+    try {
+        items = JSON.parse(content);
+    } catch {
+        throw new Error(LocalizedConstants.msgInvalidTableJsonFile);
+    }
+    if (
+        !Array.isArray(items) ||
+        items.some(
+            (item) => !item || typeof item !== "object" || Array.isArray(item),
+        )
+    ) {
+        throw new Error(LocalizedConstants.msgInvalidTableJsonFile);
+    }
+
+    const headers: string[] = [];
+    for (const item of items) {
+        for (const key of Object.keys(item)) {
+            if (!headers.includes(key)) {
+                headers.push(key);
+            }
+        }
+    }
+    return {
+        headers: headers,
+        rows: items.map((item: Record<string, unknown>) =>
+            headers.map((header) => {
+                const value = item[header];
+                if ((value ?? "") === "") {
+                    return undefined;
+                }
+                return typeof value === "object"
+                    ? JSON.stringify(value)
+                    : String(value);
+            }),
+        ),
+    };
+}
@@ -8,6 +8,9 @@ import * as Utils from "../models/utils";
 import { IPrompter, IQuestion, QuestionTypes } from "../prompts/question";
 import { QueryHistoryNode } from "../queryHistory/queryHistoryNode";
 import * as LocalizedConstants from "../constants/locConstants";
+import { IQueryHistoryFilter } from "../queryHistory/queryHistoryStore";
+
+const dateInputPattern = /^\d{4}-\d{2}-\d{2}$/;
 
 export enum QueryHistoryAction {
     OpenQueryHistoryAction = 1,
@@ -98,4 +101,99 @@ export class QueryHistoryUI {
                 return undefined;
             });
     }
+
+    /**
+     * Prompts for the criteria used to search the query history.
+     * Returns undefined if the user cancels the search.
+     */
+    public async promptForSearchFilter(
+        currentFilter?: IQueryHistoryFilter,
+    ): Promise<IQueryHistoryFilter | undefined> {
+        const validateDate = (value: string): string =>
+            !value || QueryHistoryUI.parseDate(value)
+                ? undefined
+                : LocalizedConstants.msgInvalidQueryHistoryDate;
+        const questions: IQuestion[] = [
+            {
+                type: QuestionTypes.input,
+                name: "text",
+                message: LocalizedConstants.msgSearchQueryHistoryText,
+                default: currentFilter?.text,
+            },
+            {
+                type: QuestionTypes.input,
+                name: "server",
+                message: LocalizedConstants.msgSearchQueryHistoryServer,
+                default: currentFilter?.server,
+            },
+            {
+                type: QuestionTypes.input,
+                name: "database",
+                message: LocalizedConstants.msgSearchQueryHistoryDatabase,
+                default: currentFilter?.database,
+            },
+            {
+                type: QuestionTypes.input,
+                name: "from",
+                message: LocalizedConstants.msgSearchQueryHistoryFrom,
+                validate: validateDate,
+            },
+            {
+                type: QuestionTypes.input,
+                name: "to",
+                message: LocalizedConstants.msgSearchQueryHistoryTo,
+                validate: validateDate,
+            },
+        ];
+        const answers = await this._prompter.prompt<string>(questions);
+        if (!answers) {
+            return undefined;
+        }
+        const to = QueryHistoryUI.parseDate(answers.to);
+        if (to) {
+            // Include every query run on the end date
+            to.setHours(23, 59, 59, 999);
+        }
+        return {
+            text: answers.text || undefined,
+            server: answers.server || undefined,
+            database: answers.database || undefined,
+            from: QueryHistoryUI.parseDate(answers.from),
+            to: to,
+        };
+    }
+
+    /**
+     * Creates a short description of a search filter for display in the view
+     */
+    public static describeFilter(filter: IQueryHistoryFilter): string {
+        const parts: string[] = [];
+        if (filter.text) {
+            parts.push(`"${filter.text}"`);
+        }
+        if (filter.server) {
+            parts.push(filter.server);
+        }
+        if (filter.database) {
+            parts.push(filter.database);
+        }
+        if (filter.from || filter.to) {
+            parts.push(
+                `${filter.from?.toLocaleDateString() ?? ""} - ${filter.to?.toLocaleDateString() ?? ""}`,
+            );
+        }
+        return parts.join(", ");
+    }
+
+    /**
+     * Parses a YYYY-MM-DD date as a local date
+     */
+    private static parseDate(value: string): Date | undefined {
+        if (!value || !dateInputPattern.test(value)) {
+            return undefined;
+        }
+        const [year, month, day] = value.split("-").map(Number);
+        const date = new Date(year, month - 1, day);
+        return date.getMonth() === month - 1 ? date : undefined;
+    }
 }
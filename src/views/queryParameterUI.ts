@@ -0,0 +1,102 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from "vscode";
+import { IPrompter, IQuestion, QuestionTypes } from "../prompts/question";
+import * as LocalizedConstants from "../constants/locConstants";
+import {
+    findQueryParameters,
+    QueryParameterKind,
+    substituteQueryParameters,
+} from "../models/queryParameters";
+
+const QUERY_PARAMETER_VALUES_KEY = "mssql.queryParameters.values";
+// number of files whose parameter values are remembered
+const MAX_REMEMBERED_FILES = 50;
+
+type ParameterValues = { [key: string]: string };
+
+/**
+ * Prompts for the values of the unassigned SQLCMD and @ variables of a query before it runs.
+ * The values entered are remembered per file and offered as defaults the next time.
+ */
+export class QueryParameterUI {
+    constructor(
+        private _prompter: IPrompter,
+        private _workspaceState: vscode.Memento,
+    ) {}
+
+    /**
+     * Prompts for the parameters of the query and substitutes the values entered
+     * @param ownerUri uri of the file the query belongs to
+     * @param query the query text that is about to run
+     * @returns the query with its parameters replaced, the unchanged query if it has no
+     * parameters, or undefined if the user canceled
+     */
+    public async promptForQueryParameters(
+        ownerUri: string,
+        query: string,
+    ): Promise<string | undefined> {
+        const parameters = findQueryParameters(query);
+        if (parameters.length === 0) {
+            return query;
+        }
+
+        const rememberedValues = this.getRememberedValues(ownerUri);
+        const questions: IQuestion[] = parameters.map((parameter) => ({
+            type: QuestionTypes.input,
+            name: parameter.key,
+            message:
+                parameter.kind === QueryParameterKind.SqlCmdVariable
+                    ? LocalizedConstants.msgEnterSqlCmdVariableValue(
+                          parameter.displayName,
+                      )
+                    : LocalizedConstants.msgEnterQueryParameterValue(
+                          parameter.displayName,
+                      ),
+            default: rememberedValues[parameter.key],
+        }));
+
+        const answers = await this._prompter.prompt<string>(questions, true);
+        if (!answers) {
+            return undefined;
+        }
+
+        await this.rememberValues(ownerUri, {
+            ...rememberedValues,
+            ...answers,
+        });
+        return substituteQueryParameters(query, answers);
+    }
+
+    private getRememberedValues(ownerUri: string): ParameterValues {
+        const values = this._workspaceState.get<{
+            [ownerUri: string]: ParameterValues;
+        }>(QUERY_PARAMETER_VALUES_KEY, {});
+        return values[ownerUri] ?? {};
+    }
+
+    private async rememberValues(
+        ownerUri: string,
+        parameterValues: ParameterValues,
+    ): Promise<void> {
+        const values = {
+            ...this._workspaceState.get<{
+                [ownerUri: string]: ParameterValues;
+            }>(QUERY_PARAMETER_VALUES_KEY, {}),
+        };
+        // re-insert the file so the most recently used files are kept when trimming
+        delete values[ownerUri];
+        values[ownerUri] = parameterValues;
+        const ownerUris = Object.keys(values);
+        for (const uri of ownerUris.slice(
+            0,
+            Math.max(ownerUris.length - MAX_REMEMBERED_FILES, 0),
+        )) {
+            delete values[uri];
+        }
+        await this._workspaceState.update(QUERY_PARAMETER_VALUES_KEY, values);
+    }
+}
@@ -11,6 +11,42 @@ import VscodeWrapper from "../controllers/vscodeWrapper";
 import * as ConnInfo from "../models/connectionInfo";
 import * as ConnectionContracts from "../models/contracts/connection";
 import * as Utils from "../models/utils";
+import {
+    ConnectionEnvironment,
+    IConnectionProfile,
+} from "../models/interfaces";
+
+// Tag, label and colors that set the status of connections in each environment apart
+const environmentStyles: {
+    [environment in ConnectionEnvironment]: {
+        tag: string;
+        label: string;
+        icon: string;
+        color?: vscode.ThemeColor;
+        backgroundColor?: vscode.ThemeColor;
+    };
+} = {
+    [ConnectionEnvironment.Development]: {
+        tag: "DEV",
+        label: LocalizedConstants.environmentDevelopment,
+        icon: "server-environment",
+        color: new vscode.ThemeColor("charts.green"),
+    },
+    [ConnectionEnvironment.Test]: {
+        tag: "TEST",
+        label: LocalizedConstants.environmentTest,
+        icon: "beaker",
+        backgroundColor: new vscode.ThemeColor(
+            "statusBarItem.warningBackground",
+        ),
+    },
+    [ConnectionEnvironment.Production]: {
+        tag: "PROD",
+        label: LocalizedConstants.environmentProduction,
+        icon: "warning",
+        backgroundColor: new vscode.ThemeColor("statusBarItem.errorBackground"),
+    },
+};
 
 // Status bar element for each file in the editor
 class FileStatusBar {
@@ -173,6 +209,7 @@ export default class StatusView implements vscode.Disposable {
         bar.statusConnection.text = LocalizedConstants.notConnectedLabel;
         bar.statusConnection.tooltip = LocalizedConstants.notConnectedTooltip;
         bar.statusConnection.command = Constants.cmdConnect;
+        this.setConnectionEnvironment(bar, undefined);
         this.showStatusBarItem(fileUri, bar.statusConnection);
         bar.statusLanguageService.text = "";
         this.showStatusBarItem(fileUri, bar.statusLanguageService);
@@ -186,6 +223,7 @@ export default class StatusView implements vscode.Disposable {
         bar.statusConnection.tooltip =
             LocalizedConstants.connectingTooltip +
             ConnInfo.getTooltip(connCreds);
+        this.setConnectionEnvironment(bar, undefined);
         this.showStatusBarItem(fileUri, bar.statusConnection);
         this.showProgress(
             fileUri,
@@ -207,6 +245,10 @@ export default class StatusView implements vscode.Disposable {
             connCreds,
             serverInfo,
         );
+        this.setConnectionEnvironment(
+            bar,
+            (<IConnectionProfile>connCreds).environment,
+        );
         this.showStatusBarItem(fileUri, bar.statusConnection);
         this.sqlCmdModeChanged(fileUri, false);
     }
@@ -219,6 +261,7 @@ export default class StatusView implements vscode.Disposable {
         let bar = this.getStatusBar(fileUri);
         bar.statusConnection.command = Constants.cmdConnect;
         bar.statusConnection.text = LocalizedConstants.connectErrorLabel;
+        this.setConnectionEnvironment(bar, undefined);
         if (
             error.errorNumber &&
             error.errorMessage &&
@@ -244,6 +287,24 @@ export default class StatusView implements vscode.Disposable {
         this.showStatusBarItem(fileUri, bar.statusConnection);
     }
 
+    /**
+     * Tags the connection status with the environment of the connection and shows it in
+     * the environment's colors
+     * @param environment the environment, or undefined to clear the tag
+     */
+    private setConnectionEnvironment(
+        bar: FileStatusBar,
+        environment: ConnectionEnvironment | undefined,
+    ): void {
+        const style = environment ? environmentStyles[environment] : undefined;
+        bar.statusConnection.color = style?.color;
+        bar.statusConnection.backgroundColor = style?.backgroundColor;
+        if (style) {
+            bar.statusConnection.text = `$(${style.icon}) ${style.tag} ${bar.statusConnection.text}`;
+            bar.statusConnection.tooltip = `${LocalizedConstants.connectionEnvironmentTooltip(style.label)}\n${bar.statusConnection.tooltip}`;
+        }
+    }
+
     public executingQuery(fileUri: string): void {
         let bar = this.getStatusBar(fileUri);
         bar.statusQuery.command = undefined;
@@ -0,0 +1,130 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from "assert";
+import {
+    formatChartValue,
+    getChartSeries,
+    getDefaultChartOptions,
+    getNiceTicks,
+    isValidChartOptions,
+} from "../../src/reactviews/pages/QueryResult/chartUtils";
+import {
+    ChartType,
+    DbCellValue,
+    IDbColumn,
+    ResultSetSummary,
+} from "../../src/sharedInterfaces/queryResult";
+
+function column(columnName: string, dataTypeName: string): IDbColumn {
+    return { columnName, dataTypeName } as IDbColumn;
+}
+
+function cell(value: string | undefined): DbCellValue {
+    return {
+        displayValue: value ?? "",
+        isNull: value === undefined,
+    } as DbCellValue;
+}
+
+suite("Chart Utils Tests", () => {
+    const columns = [
+        column("Region", "nvarchar"),
+        column("OrderDate", "datetime2"),
+        column("Sales", "decimal"),
+        column("Quantity", "int"),
+    ];
+    const summary = {
+        id: 0,
+        batchId: 1,
+        rowCount: 3,
+        columnInfo: columns,
+    } as ResultSetSummary;
+    const rows = [
+        ["West", "2024-03-01", "10.5", "2"],
+        [undefined, "2024-01-01", "-4", "1"],
+        ["East", "not a date", undefined, "3"],
+    ].map((row) => row.map(cell));
+
+    test("getDefaultChartOptions picks the columns of each chart type", () => {
+        const bar = getDefaultChartOptions(summary, ChartType.Bar);
+        assert.deepEqual(bar, {
+            batchId: 1,
+            resultId: 0,
+            chartType: ChartType.Bar,
+            xColumn: 0,
+            yColumns: [2, 3],
+        });
+        assert.ok(isValidChartOptions(bar, summary));
+        assert.ok(!isValidChartOptions({ ...bar, xColumn: 4 }, summary));
+        assert.ok(!isValidChartOptions({ ...bar, resultId: 1 }, summary));
+
+        assert.equal(
+            getDefaultChartOptions(summary, ChartType.TimeSeries).xColumn,
+            1,
+        );
+        const scatter = getDefaultChartOptions(summary, ChartType.Scatter);
+        assert.equal(scatter.xColumn, 2);
+        assert.deepEqual(scatter.yColumns, [3]);
+        assert.deepEqual(
+            getDefaultChartOptions(summary, ChartType.Pie).yColumns,
+            [2],
+        );
+    });
+
+    test("getChartSeries leaves out the values that can't be charted", () => {
+        const options = getDefaultChartOptions(summary, ChartType.Bar);
+        assert.deepEqual(getChartSeries(columns, rows, options), [
+            {
+                name: "Sales",
+                points: [
+                    { x: "West", y: 10.5 },
+                    { x: "NULL", y: -4 },
+                ],
+            },
+            {
+                name: "Quantity",
+                points: [
+                    { x: "West", y: 2 },
+                    { x: "NULL", y: 1 },
+                    { x: "East", y: 3 },
+                ],
+            },
+        ]);
+
+        assert.deepEqual(
+            getChartSeries(columns, rows, {
+                ...options,
+                chartType: ChartType.Pie,
+            })[0].points,
+            [{ x: "West", y: 10.5 }],
+        );
+
+        const timeSeries = getChartSeries(
+            columns,
+            rows,
+            getDefaultChartOptions(summary, ChartType.TimeSeries),
+        );
+        assert.deepEqual(timeSeries[1].points, [
+            { x: Date.parse("2024-01-01"), y: 1 },
+            { x: Date.parse("2024-03-01"), y: 2 },
+        ]);
+    });
+
+    test("getNiceTicks covers the range with round values", () => {
+        assert.deepEqual(getNiceTicks(0, 97, 5), [0, 20, 40, 60, 80, 100]);
+        assert.deepEqual(getNiceTicks(-4, 10.5, 5), [-5, 0, 5, 10, 15]);
+        assert.deepEqual(getNiceTicks(0.1, 0.3, 2), [0.1, 0.2, 0.3]);
+        assert.deepEqual(getNiceTicks(5, 5, 2), [0, 5, 10]);
+    });
+
+    test("formatChartValue shortens large values", () => {
+        assert.equal(formatChartValue(0), "0");
+        assert.equal(formatChartValue(12.34567), "12.35");
+        assert.equal(formatChartValue(1500), "1.5K");
+        assert.equal(formatChartValue(-2500000), "-2.5M");
+        assert.equal(formatChartValue(3000000000), "3B");
+    });
+});
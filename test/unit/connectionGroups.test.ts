@@ -0,0 +1,147 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from "assert";
+import * as TypeMoq from "typemoq";
+import * as Constants from "../../src/constants/constants";
+import * as stubs from "./stubs";
+import { ConnectionConfig } from "../../src/connectionconfig/connectionconfig";
+import VscodeWrapper from "../../src/controllers/vscodeWrapper";
+import {
+    IConnectionGroup,
+    IConnectionProfile,
+} from "../../src/models/interfaces";
+
+suite("Connection Groups Tests", () => {
+    let settings: { [key: string]: any };
+    let workspaceSettings: { [key: string]: any };
+    let connectionConfig: ConnectionConfig;
+
+    const createProfile = (server: string, groupId?: string) =>
+        ({
+            server: server,
+            database: "master",
+            authenticationType: "Integrated",
+            profileName: server,
+            groupId: groupId,
+        }) as IConnectionProfile;
+
+    setup(() => {
+        settings = {};
+        workspaceSettings = {};
+        const vscodeWrapper = TypeMoq.Mock.ofType(VscodeWrapper);
+        vscodeWrapper
+            .setup((x) =>
+                x.getConfiguration(TypeMoq.It.isAny(), TypeMoq.It.isAny()),
+            )
+            .returns(() =>
+                stubs.createWorkspaceConfiguration(settings, workspaceSettings),
+            );
+        vscodeWrapper
+            .setup((x) =>
+                x.setConfiguration(
+                    TypeMoq.It.isAny(),
+                    TypeMoq.It.isAny(),
+                    TypeMoq.It.isAny(),
+                ),
+            )
+            .returns((_extensionName: string, key: string, value: any) => {
+                settings[key] = value;
+                return Promise.resolve();
+            });
+        connectionConfig = new ConnectionConfig(vscodeWrapper.object);
+    });
+
+    test("getConnectionGroups sorts the groups and adds the workspace groups last", () => {
+        settings[Constants.connectionGroupsArrayName] = [
+            { id: "2", name: "Test" },
+            { id: "1", name: "Dev" },
+            { id: "3", name: "" },
+        ];
+        workspaceSettings[Constants.connectionGroupsArrayName] = [
+            { id: "1", name: "Duplicate" },
+            { id: "4", name: "Analytics" },
+        ];
+
+        assert.deepEqual(
+            connectionConfig.getConnectionGroups(false).map((g) => g.name),
+            ["Dev", "Test"],
+        );
+        assert.deepEqual(
+            connectionConfig.getConnectionGroups(true).map((g) => g.name),
+            ["Dev", "Test", "Analytics"],
+        );
+    });
+
+    test("setConnectionGroup moves a connection in and out of a group", async () => {
+        settings[Constants.connectionsArrayName] = [
+            createProfile("server1"),
+            createProfile("server2"),
+        ];
+
+        assert.equal(
+            await connectionConfig.setConnectionGroup(
+                createProfile("server1"),
+                "dev",
+            ),
+            true,
+        );
+        assert.equal(
+            settings[Constants.connectionsArrayName][0].groupId,
+            "dev",
+        );
+        assert.equal(
+            settings[Constants.connectionsArrayName][1].groupId,
+            undefined,
+        );
+
+        await connectionConfig.setConnectionGroup(
+            createProfile("server1"),
+            undefined,
+        );
+        assert.equal(
+            "groupId" in settings[Constants.connectionsArrayName][0],
+            false,
+        );
+
+        assert.equal(
+            await connectionConfig.setConnectionGroup(
+                createProfile("unknown"),
+                "dev",
+            ),
+            false,
+        );
+    });
+
+    test("removeConnectionGroup moves its connections and groups to the parent group", async () => {
+        settings[Constants.connectionGroupsArrayName] = [
+            { id: "prod", name: "Production" },
+            { id: "eu", name: "Europe", parentId: "prod", color: "red" },
+            { id: "west", name: "West", parentId: "eu" },
+        ] as IConnectionGroup[];
+        settings[Constants.connectionsArrayName] = [
+            createProfile("server1", "eu"),
+            createProfile("server2", "west"),
+            createProfile("server3"),
+        ];
+
+        assert.equal(await connectionConfig.removeConnectionGroup("eu"), true);
+
+        assert.deepEqual(settings[Constants.connectionGroupsArrayName], [
+            { id: "prod", name: "Production" },
+            { id: "west", name: "West", parentId: "prod" },
+        ]);
+        assert.deepEqual(
+            settings[Constants.connectionsArrayName].map(
+                (p: IConnectionProfile) => p.groupId,
+            ),
+            ["prod", "west", undefined],
+        );
+        assert.equal(
+            await connectionConfig.removeConnectionGroup("unknown"),
+            false,
+        );
+    });
+});
@@ -0,0 +1,159 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from "assert";
+import {
+    ImportConflictResolution,
+    createConnectionsFile,
+    hasImportConflicts,
+    parseConnectionsFile,
+    planConnectionsImport,
+} from "../../src/connectionconfig/connectionsFile";
+import {
+    IConnectionGroup,
+    IConnectionProfile,
+} from "../../src/models/interfaces";
+
+suite("Connections File Tests", () => {
+    const sqlProfile = {
+        profileName: "sales",
+        server: "sales-server",
+        database: "sales",
+        authenticationType: "SqlLogin",
+        user: "app",
+        password: "secret",
+        savePassword: true,
+        groupId: "group-prod",
+    } as IConnectionProfile;
+
+    const connectionStringProfile = {
+        profileName: "orders",
+        connectionString:
+            "Server=orders-server;Password={se;cret};User Id=app;Pwd=secret",
+    } as IConnectionProfile;
+
+    const groups: IConnectionGroup[] = [
+        { id: "group-team", name: "Team" },
+        { id: "group-prod", name: "Production", parentId: "group-team" },
+    ];
+
+    test("createConnectionsFile removes the secrets of the connections", () => {
+        const file = createConnectionsFile(
+            [
+                {
+                    ...sqlProfile,
+                    azureAccountToken: "token",
+                    expiresOn: 100,
+                } as IConnectionProfile,
+                connectionStringProfile,
+            ],
+            groups,
+        );
+
+        assert.equal(file.version, 1);
+        assert.deepEqual(file.groups, groups);
+        assert.equal(file.connections[0].password, undefined);
+        assert.equal(file.connections[0].azureAccountToken, undefined);
+        assert.equal(file.connections[0].expiresOn, undefined);
+        assert.equal(file.connections[0].savePassword, false);
+        assert.equal(file.connections[0].groupId, "group-prod");
+        assert.equal(
+            file.connections[1].connectionString,
+            "Server=orders-server;User Id=app;",
+        );
+        assert.equal(
+            sqlProfile.password,
+            "secret",
+            "should not change the profile",
+        );
+    });
+
+    test("createConnectionsFile leaves the groups out when they aren't exported", () => {
+        const file = createConnectionsFile([sqlProfile], undefined);
+        assert.equal(file.groups, undefined);
+        assert.equal(file.connections[0].groupId, undefined);
+    });
+
+    test("parseConnectionsFile rejects files that aren't connections files", () => {
+        assert.throws(() => parseConnectionsFile("not json"));
+        assert.throws(() => parseConnectionsFile('{"version": 1}'));
+        assert.throws(() =>
+            parseConnectionsFile('{"version": 99, "connections": []}'),
+        );
+
+        const file = parseConnectionsFile(
+            JSON.stringify({
+                version: 1,
+                connections: [sqlProfile, { profileName: "no server" }],
+                groups: groups,
+            }),
+        );
+        assert.equal(file.connections.length, 1);
+        assert.equal(file.groups.length, 2);
+    });
+
+    test("planConnectionsImport reuses existing groups and adds the missing ones", () => {
+        const file = createConnectionsFile([sqlProfile], groups);
+        const existingGroups: IConnectionGroup[] = [
+            { id: "local-team", name: "Team" },
+        ];
+
+        const plan = planConnectionsImport(
+            file,
+            [],
+            existingGroups,
+            ImportConflictResolution.Skip,
+        );
+
+        assert.deepEqual(plan.groups, [
+            { id: "group-prod", name: "Production", parentId: "local-team" },
+        ]);
+        assert.equal(plan.connections.length, 1);
+        assert.equal(plan.connections[0].profile.groupId, "group-prod");
+        assert.equal(plan.connections[0].replaces, undefined);
+    });
+
+    test("planConnectionsImport resolves conflicts with existing connections", () => {
+        const file = createConnectionsFile(
+            [sqlProfile, connectionStringProfile],
+            undefined,
+        );
+        const existingProfiles = [
+            sqlProfile,
+            { ...sqlProfile, profileName: "sales (2)" },
+        ];
+        assert.ok(hasImportConflicts(file, existingProfiles));
+
+        const skipped = planConnectionsImport(
+            file,
+            existingProfiles,
+            [],
+            ImportConflictResolution.Skip,
+        );
+        assert.equal(skipped.skippedCount, 1);
+        assert.deepEqual(
+            skipped.connections.map((c) => c.profile.profileName),
+            ["orders"],
+        );
+
+        const replaced = planConnectionsImport(
+            file,
+            existingProfiles,
+            [],
+            ImportConflictResolution.Replace,
+        );
+        assert.equal(replaced.skippedCount, 0);
+        assert.equal(replaced.connections[0].replaces, sqlProfile);
+
+        const copies = planConnectionsImport(
+            file,
+            existingProfiles,
+            [],
+            ImportConflictResolution.KeepBoth,
+        );
+        assert.equal(copies.connections[0].profile.profileName, "sales (3)");
+        assert.equal(copies.connections[0].replaces, undefined);
+    });
+});
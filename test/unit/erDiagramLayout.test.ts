@@ -0,0 +1,121 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from "assert";
+import {
+    getEdgePath,
+    getTableWidth,
+    headerHeight,
+    layoutDiagram,
+    rowHeight,
+} from "../../src/reactviews/pages/ErDiagram/erDiagramLayout";
+import {
+    ErDiagramForeignKey,
+    ErDiagramTable,
+} from "../../src/sharedInterfaces/erDiagram";
+
+suite("ER Diagram Layout Tests", () => {
+    const getTable = (name: string, columns: string[]): ErDiagramTable => ({
+        schema: "dbo",
+        name: name,
+        columns: columns.map((column) => ({
+            name: column,
+            dataType: "int",
+            isNullable: false,
+            isPrimaryKey: column === "Id",
+            isForeignKey: column !== "Id",
+        })),
+    });
+    const getForeignKey = (
+        table: string,
+        column: string,
+        referencedTable: string,
+    ): ErDiagramForeignKey => ({
+        name: `FK_${table}_${referencedTable}`,
+        schema: "dbo",
+        table: table,
+        columns: [column],
+        referencedSchema: "dbo",
+        referencedTable: referencedTable,
+        referencedColumns: ["Id"],
+    });
+    const tables = [
+        getTable("OrderLines", ["Id", "OrderId", "ProductId"]),
+        getTable("Orders", ["Id", "CustomerId"]),
+        getTable("Customers", ["Id"]),
+        getTable("Products", ["Id"]),
+        getTable("Settings", ["Id"]),
+    ];
+    const foreignKeys = [
+        getForeignKey("OrderLines", "OrderId", "Orders"),
+        getForeignKey("OrderLines", "ProductId", "Products"),
+        getForeignKey("Orders", "CustomerId", "Customers"),
+        getForeignKey("Audit", "OrderId", "Orders"),
+    ];
+
+    test("layoutDiagram places referenced tables to the left", () => {
+        const layout = layoutDiagram(tables, foreignKeys);
+        const getLayout = (name: string) =>
+            layout.tables.find((t) => t.table.name === name);
+
+        assert.equal(getLayout("Customers").x, 0);
+        assert.equal(getLayout("Products").x, 0);
+        assert.ok(getLayout("Orders").x > getLayout("Customers").width);
+        assert.ok(getLayout("OrderLines").x > getLayout("Orders").x);
+        assert.equal(
+            getLayout("OrderLines").height,
+            headerHeight + 3 * rowHeight,
+        );
+        // the table without relationships is placed after the related tables
+        assert.ok(getLayout("Settings").x > getLayout("OrderLines").x);
+        // the foreign key of a table that is not in the diagram is left out
+        assert.deepEqual(
+            layout.edges.map((e) => e.foreignKey.table),
+            ["OrderLines", "OrderLines", "Orders"],
+        );
+        assert.ok(
+            layout.width >=
+                getLayout("Settings").x + getLayout("Settings").width,
+        );
+    });
+
+    test("layoutDiagram handles tables that reference each other", () => {
+        const layout = layoutDiagram(
+            [getTable("A", ["Id", "BId"]), getTable("B", ["Id", "AId"])],
+            [getForeignKey("A", "BId", "B"), getForeignKey("B", "AId", "A")],
+        );
+
+        assert.equal(layout.tables.length, 2);
+        assert.notEqual(layout.tables[0].x, layout.tables[1].x);
+        assert.equal(layout.edges.length, 2);
+    });
+
+    test("getEdgePath connects the columns from the facing sides", () => {
+        const source = {
+            table: tables[1],
+            x: 300,
+            y: 0,
+            width: 200,
+            height: 68,
+        };
+        const target = {
+            table: tables[2],
+            x: 0,
+            y: 100,
+            width: 160,
+            height: 48,
+        };
+
+        assert.equal(
+            getEdgePath(source, 1, target, 0),
+            "M 300 58 C 230 58, 230 138, 160 138",
+        );
+        assert.equal(
+            getEdgePath(source, 0, source, -1),
+            "M 500 38 C 540 38, 540 14, 500 14",
+        );
+        assert.equal(getTableWidth(getTable("T", ["Id"])), 160);
+    });
+});
@@ -0,0 +1,152 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from "assert";
+import * as sinon from "sinon";
+import * as vscode from "vscode";
+import { ExecutionPlanComparisonWebviewController } from "../../src/controllers/executionPlanComparisonWebviewController";
+import { ExecutionPlanService } from "../../src/services/executionPlanService";
+import * as ep from "../../src/reactviews/pages/ExecutionPlan/executionPlanInterfaces";
+import { ExecutionPlanComparisonWebviewState } from "../../src/sharedInterfaces/executionPlanComparison";
+import { ApiStatus } from "../../src/sharedInterfaces/webview";
+
+suite("ExecutionPlanComparisonWebviewController", () => {
+    let sandbox: sinon.SinonSandbox;
+    let mockContext: vscode.ExtensionContext;
+    let mockExecutionPlanService: sinon.SinonStubbedInstance<ExecutionPlanService>;
+    let controller: ExecutionPlanComparisonWebviewController;
+
+    const firstPlan = { title: "before.sqlplan", xml: "<first />" };
+    const secondPlan = { title: "after.sqlplan", xml: "<second />" };
+
+    const createGraph = (id: string): ep.ExecutionPlanGraph =>
+        ({
+            root: { id: id, name: "Clustered Index Scan", cost: 1 },
+        }) as ep.ExecutionPlanGraph;
+
+    const createComparisonResult = (
+        id: string,
+        cost: number,
+        matchingNodesId: number[],
+    ): ep.ExecutionGraphComparisonResult => ({
+        baseNode: {
+            id: id,
+            name: "Clustered Index Scan",
+            cost: cost,
+            subTreeCost: cost,
+        } as ep.ExecutionPlanNode,
+        children: [],
+        groupIndex: 0,
+        hasMatch: true,
+        matchingNodesId: matchingNodesId,
+        parentNode: undefined,
+    });
+
+    setup(() => {
+        sandbox = sinon.createSandbox();
+        mockContext = {
+            extensionUri: vscode.Uri.parse("https://localhost"),
+            extensionPath: "path",
+        } as unknown as vscode.ExtensionContext;
+
+        mockExecutionPlanService =
+            sandbox.createStubInstance(ExecutionPlanService);
+        mockExecutionPlanService.getExecutionPlan.callsFake(
+            async (planFile: ep.ExecutionPlanGraphInfo) => ({
+                graphs: [
+                    createGraph(
+                        planFile.graphFileContent === firstPlan.xml ? "1" : "2",
+                    ),
+                ],
+                success: true,
+                errorMessage: "",
+            }),
+        );
+        mockExecutionPlanService.compareExecutionPlanGraph.resolves({
+            firstComparisonResult: createComparisonResult("1", 10, [2]),
+            secondComparisonResult: createComparisonResult("2", 4, [1]),
+            success: true,
+            errorMessage: "",
+        });
+
+        controller = new ExecutionPlanComparisonWebviewController(
+            mockContext,
+            mockExecutionPlanService,
+            firstPlan,
+            secondPlan,
+        );
+    });
+
+    teardown(() => {
+        sandbox.restore();
+    });
+
+    test("should initialize with both plans and a combined title", () => {
+        assert.strictEqual(controller.state.loadState, ApiStatus.Loading);
+        assert.strictEqual(controller.state.firstPlan.title, firstPlan.title);
+        assert.strictEqual(controller.state.secondPlan.title, secondPlan.title);
+        assert.strictEqual(
+            controller.panel.title,
+            "before.sqlplan vs. after.sqlplan",
+        );
+    });
+
+    test("compareExecutionPlans reducer should load the graphs, regions and cost deltas", async () => {
+        const result: ExecutionPlanComparisonWebviewState = await controller[
+            "_reducers"
+        ]["compareExecutionPlans"](controller.state, {});
+
+        assert.strictEqual(result.loadState, ApiStatus.Loaded);
+        assert.strictEqual(result.firstPlan.graph.root.id, "1");
+        assert.strictEqual(result.secondPlan.graph.root.id, "2");
+        assert.deepStrictEqual(result.firstPlan.matchingRegions, [
+            { nodeId: "1", groupIndex: 0 },
+        ]);
+        assert.strictEqual(result.operatorDeltas.length, 1);
+        assert.strictEqual(result.operatorDeltas[0].costDelta, -6);
+        assert.deepStrictEqual(
+            mockExecutionPlanService.compareExecutionPlanGraph.firstCall.args.map(
+                (planFile) => planFile.graphFileContent,
+            ),
+            [firstPlan.xml, secondPlan.xml],
+        );
+    });
+
+    test("swapPlans reducer should compare the plans in reverse order", async () => {
+        const result: ExecutionPlanComparisonWebviewState = await controller[
+            "_reducers"
+        ]["swapPlans"](controller.state, {});
+
+        assert.strictEqual(result.firstPlan.title, secondPlan.title);
+        assert.strictEqual(result.secondPlan.title, firstPlan.title);
+        assert.deepStrictEqual(
+            mockExecutionPlanService.compareExecutionPlanGraph.firstCall.args.map(
+                (planFile) => planFile.graphFileContent,
+            ),
+            [secondPlan.xml, firstPlan.xml],
+        );
+    });
+
+    test("compareExecutionPlans reducer should report errors from the service", async () => {
+        mockExecutionPlanService.compareExecutionPlanGraph.rejects(
+            new Error("Invalid plan"),
+        );
+
+        const result: ExecutionPlanComparisonWebviewState = await controller[
+            "_reducers"
+        ]["compareExecutionPlans"](controller.state, {});
+
+        assert.strictEqual(result.loadState, ApiStatus.Error);
+        assert.strictEqual(result.errorMessage, "Invalid plan");
+    });
+
+    test("toggleMatchingRegions reducer should flip the highlighting", async () => {
+        const result: ExecutionPlanComparisonWebviewState = await controller[
+            "_reducers"
+        ]["toggleMatchingRegions"](controller.state, {});
+
+        assert.strictEqual(result.highlightMatchingRegions, false);
+    });
+});
@@ -522,4 +522,100 @@ suite("Execution Plan Utilities", () => {
             "Xml input should not be changed if invalid format",
         );
     });
+
+    test("getMatchingRegions: should return the root of every matching subtree", () => {
+        const comparisonResult = createComparisonResult("1", 0, true, [
+            createComparisonResult("2", 0, true, []),
+            createComparisonResult("3", -1, false, [
+                createComparisonResult("4", 1, true, []),
+            ]),
+        ]);
+
+        const result = epUtils.getMatchingRegions(comparisonResult);
+
+        assert.deepStrictEqual(
+            result,
+            [
+                { nodeId: "1", groupIndex: 0 },
+                { nodeId: "4", groupIndex: 1 },
+            ],
+            "Only the roots of the matching subtrees should be returned",
+        );
+    });
+
+    test("getOperatorCostDeltas: should calculate the cost difference of matching operators", () => {
+        const first = createComparisonResult(
+            "1",
+            0,
+            true,
+            [createComparisonResult("2", -1, false, [], [], 5, 5)],
+            [10],
+            10,
+            20,
+        );
+        const second = createComparisonResult(
+            "10",
+            0,
+            true,
+            [createComparisonResult("11", -1, false, [], [], 1, 1)],
+            [1],
+            4,
+            6,
+        );
+
+        const result = epUtils.getOperatorCostDeltas(first, second);
+
+        assert.deepStrictEqual(result, [
+            {
+                operator: "Operator 1",
+                groupIndex: 0,
+                firstNodeId: "1",
+                firstCost: 10,
+                firstSubtreeCost: 20,
+                secondNodeId: "10",
+                secondCost: 4,
+                secondSubtreeCost: 6,
+                costDelta: -6,
+                subtreeCostDelta: -14,
+            },
+            {
+                operator: "Operator 2",
+                groupIndex: -1,
+                firstNodeId: "2",
+                firstCost: 5,
+                firstSubtreeCost: 5,
+            },
+            {
+                operator: "Operator 11",
+                groupIndex: -1,
+                secondNodeId: "11",
+                secondCost: 1,
+                secondSubtreeCost: 1,
+            },
+        ]);
+    });
 });
+
+function createComparisonResult(
+    id: string,
+    groupIndex: number,
+    hasMatch: boolean,
+    children: ep.ExecutionGraphComparisonResult[],
+    matchingNodesId: number[] = [],
+    cost: number = 0,
+    subTreeCost: number = 0,
+): ep.ExecutionGraphComparisonResult {
+    return {
+        baseNode: {
+            id: id,
+            name: `Operator ${id}`,
+            cost: cost,
+            subTreeCost: subTreeCost,
+        } as ep.ExecutionPlanNode,
+        children: children,
+        groupIndex: groupIndex,
+        hasMatch: hasMatch,
+        matchingNodesId: matchingNodesId,
+        parentNode: undefined,
+    };
+}
@@ -0,0 +1,172 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from "assert";
+import {
+    getDefaultMappings,
+    getImportBatches,
+    getUnmappedRequiredColumns,
+    validateRows,
+    validateValue,
+} from "../../src/flatFileImport/flatFileImportUtils";
+import { FlatFileTargetColumn } from "../../src/sharedInterfaces/flatFileImport";
+
+function column(
+    name: string,
+    type: string,
+    options: Partial<FlatFileTargetColumn> = {},
+): FlatFileTargetColumn {
+    return {
+        name: name,
+        type: type,
+        dataType: type,
+        maxLength: 0,
+        precision: 0,
+        scale: 0,
+        allowNulls: true,
+        hasDefault: false,
+        isIdentity: false,
+        isInsertable: true,
+        ...options,
+    };
+}
+
+suite("Flat File Import Utils Tests", () => {
+    const columns = [
+        column("Id", "int", { allowNulls: false, isIdentity: true }),
+        column("FirstName", "nvarchar", {
+            dataType: "nvarchar(5)",
+            maxLength: 5,
+            allowNulls: false,
+        }),
+        column("Score", "decimal", {
+            dataType: "decimal(4, 2)",
+            precision: 4,
+            scale: 2,
+        }),
+        column("IsActive", "bit", { allowNulls: false, hasDefault: true }),
+        column("FullName", "nvarchar", { isInsertable: false }),
+    ];
+
+    test("getDefaultMappings maps the columns with the same name", () => {
+        const mappings = getDefaultMappings(columns, [
+            "id",
+            "first_name",
+            "is active",
+            "full name",
+            "comment",
+        ]);
+
+        assert.deepEqual(mappings, [
+            { targetColumn: "Id", fileColumn: undefined },
+            { targetColumn: "FirstName", fileColumn: 1 },
+            { targetColumn: "Score", fileColumn: undefined },
+            { targetColumn: "IsActive", fileColumn: 2 },
+            { targetColumn: "FullName", fileColumn: undefined },
+        ]);
+        assert.deepEqual(getUnmappedRequiredColumns(columns, mappings), []);
+        assert.deepEqual(
+            getUnmappedRequiredColumns(columns, [
+                { targetColumn: "FirstName", fileColumn: undefined },
+            ]),
+            ["FirstName"],
+        );
+    });
+
+    test("validateValue checks the values against the types of the columns", () => {
+        assert.equal(validateValue(undefined, columns[2]), undefined);
+        assert.ok(validateValue(undefined, columns[1]));
+        assert.equal(validateValue("Anna", columns[1]), undefined);
+        assert.ok(validateValue("Annabel", columns[1]));
+        assert.equal(validateValue("-12.345", columns[2]), undefined);
+        assert.ok(validateValue("123.4", columns[2]));
+        assert.ok(validateValue("1.2.3", columns[2]));
+        assert.equal(validateValue("TRUE", columns[3]), undefined);
+        assert.ok(validateValue("yes", columns[3]));
+        assert.ok(validateValue("2147483648", column("Count", "int")));
+        assert.equal(
+            validateValue("-9223372036854775808", column("Count", "bigint")),
+            undefined,
+        );
+        assert.ok(
+            validateValue("9223372036854775808", column("Count", "bigint")),
+        );
+        assert.ok(validateValue("256", column("Count", "tinyint")));
+        assert.equal(
+            validateValue("2024-02-29 10:30", column("Created", "datetime2")),
+            undefined,
+        );
+        assert.ok(validateValue("yesterday", column("Created", "date")));
+        assert.ok(
+            validateValue("not-a-guid", column("Id", "uniqueidentifier")),
+        );
+    });
+
+    test("validateRows counts all the errors and returns the first ones", () => {
+        const mappings = [
+            { targetColumn: "FirstName", fileColumn: 0 },
+            { targetColumn: "Score", fileColumn: 1 },
+        ];
+        const { errors, errorCount } = validateRows(
+            columns,
+            mappings,
+            [
+                ["Anna", "1.5"],
+                [undefined, "abc"],
+                ["Bob", "100"],
+            ],
+            2,
+        );
+
+        assert.equal(errorCount, 3);
+        assert.deepEqual(
+            errors.map((e) => [e.row, e.fileColumn, e.targetColumn]),
+            [
+                [1, 0, "FirstName"],
+                [1, 1, "Score"],
+            ],
+        );
+    });
+
+    test("getImportBatches inserts the mapped columns in batches", () => {
+        const rows: (string | undefined)[][] = [];
+        for (let i = 0; i < 1001; i++) {
+            rows.push([
+                i.toString(),
+                i === 0 ? "O'Neil" : "Ann",
+                i === 0 ? undefined : " 1.5 ",
+                "true",
+            ]);
+        }
+        const mappings = [
+            { targetColumn: "Id", fileColumn: 0 },
+            { targetColumn: "FirstName", fileColumn: 1 },
+            { targetColumn: "Score", fileColumn: 2 },
+            { targetColumn: "IsActive", fileColumn: 3 },
+            { targetColumn: "FullName", fileColumn: 1 },
+        ];
+
+        const batches = getImportBatches(
+            { schema: "dbo", name: "Peo]ple" },
+            columns,
+            mappings,
+            rows,
+        );
+
+        assert.deepEqual(
+            batches.map((b) => b.rowCount),
+            [1000, 1],
+        );
+        assert.ok(
+            batches[0].script.startsWith(
+                "SET IDENTITY_INSERT [dbo].[Peo]]ple] ON;\nBEGIN TRY\nINSERT INTO [dbo].[Peo]]ple] ([Id], [FirstName], [Score], [IsActive])\nVALUES\n    (0, N'O''Neil', NULL, 1),\n    (1, N'Ann', 1.5, 1),",
+            ),
+        );
+        assert.equal(
+            batches[1].script,
+            "SET IDENTITY_INSERT [dbo].[Peo]]ple] ON;\nBEGIN TRY\nINSERT INTO [dbo].[Peo]]ple] ([Id], [FirstName], [Score], [IsActive])\nVALUES\n    (1000, N'Ann', 1.5, 1);\nSELECT @@ROWCOUNT AS [RowCount];\nEND TRY\nBEGIN CATCH\nSET IDENTITY_INSERT [dbo].[Peo]]ple] OFF;\nTHROW;\nEND CATCH\nSET IDENTITY_INSERT [dbo].[Peo]]ple] OFF;",
+        );
+    });
+});
@@ -0,0 +1,150 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from "assert";
+import {
+    getGenerateScriptsParams,
+    getObjectType,
+    getScriptCompatibilityOption,
+    getScriptedObjects,
+} from "../../src/generateScripts/generateScriptsUtils";
+import { ScriptOperation } from "../../src/models/contracts/scripting/scriptingRequest";
+import {
+    GenerateScriptsObjectType,
+    GenerateScriptsOptions,
+    ScriptCompatibilityOption,
+    ScriptDataType,
+    ScriptDestination,
+    TargetDatabaseEngineEdition,
+} from "../../src/sharedInterfaces/generateScripts";
+
+suite("Generate Scripts Utils Tests", () => {
+    const objects = [
+        {
+            type: GenerateScriptsObjectType.Table,
+            schema: "dbo",
+            name: "Orders",
+        },
+        { type: GenerateScriptsObjectType.View, schema: "dbo", name: "Sales" },
+        {
+            type: GenerateScriptsObjectType.StoredProcedure,
+            schema: "hr",
+            name: "AddEmployee",
+        },
+        {
+            type: GenerateScriptsObjectType.UserDefinedFunction,
+            schema: "hr",
+            name: "GetManager",
+        },
+    ];
+    const options: GenerateScriptsOptions = {
+        scriptEntireDatabase: false,
+        includeTypes: [
+            GenerateScriptsObjectType.Table,
+            GenerateScriptsObjectType.StoredProcedure,
+            GenerateScriptsObjectType.UserDefinedFunction,
+        ],
+        includeSchemas: ["dbo", "hr"],
+        selectedObjects: [0, 1, 3],
+        typeOfDataToScript: ScriptDataType.SchemaAndData,
+        targetDatabaseEngineEdition:
+            TargetDatabaseEngineEdition.SqlAzureDatabaseEdition,
+        scriptCompatibilityOption: ScriptCompatibilityOption.Script160Compat,
+        destination: ScriptDestination.ToFilePerObject,
+    };
+
+    test("getObjectType maps the types of sys.objects", () => {
+        assert.equal(getObjectType("U "), GenerateScriptsObjectType.Table);
+        assert.equal(getObjectType("V "), GenerateScriptsObjectType.View);
+        assert.equal(
+            getObjectType("P "),
+            GenerateScriptsObjectType.StoredProcedure,
+        );
+        assert.equal(
+            getObjectType("TF"),
+            GenerateScriptsObjectType.UserDefinedFunction,
+        );
+        assert.equal(getObjectType("TR"), undefined);
+    });
+
+    test("getScriptCompatibilityOption matches the server version", () => {
+        assert.equal(
+            getScriptCompatibilityOption(15),
+            ScriptCompatibilityOption.Script150Compat,
+        );
+        assert.equal(
+            getScriptCompatibilityOption(undefined),
+            ScriptCompatibilityOption.Script140Compat,
+        );
+        assert.equal(
+            getScriptCompatibilityOption(99),
+            ScriptCompatibilityOption.Script140Compat,
+        );
+    });
+
+    test("getGenerateScriptsParams scripts the selected objects of the included types", () => {
+        assert.deepEqual(
+            getScriptedObjects(objects, options).map((o) => o.name),
+            ["Orders", "GetManager"],
+        );
+
+        const params = getGenerateScriptsParams(
+            objects,
+            options,
+            "generateScripts:1",
+            "/scripts",
+        );
+
+        assert.deepEqual(params.scriptingObjects, [
+            { type: "Table", schema: "dbo", name: "Orders" },
+            { type: "UserDefinedFunction", schema: "hr", name: "GetManager" },
+        ]);
+        assert.equal(params.includeTypes, undefined);
+        assert.equal(params.includeSchemas, undefined);
+        assert.equal(params.filePath, "/scripts");
+        assert.equal(params.scriptDestination, "ToFilePerObject");
+        assert.equal(params.ownerURI, "generateScripts:1");
+        assert.equal(params.operation, ScriptOperation.Create);
+        assert.equal(params.scriptOptions.typeOfDataToScript, "SchemaAndData");
+        assert.equal(
+            params.scriptOptions.targetDatabaseEngineEdition,
+            "SqlAzureDatabaseEdition",
+        );
+        assert.equal(params.scriptOptions.targetDatabaseEngineType, "SqlAzure");
+        assert.equal(
+            params.scriptOptions.scriptCompatibilityOption,
+            "Script160Compat",
+        );
+    });
+
+    test("getGenerateScriptsParams scripts the entire database with criteria", () => {
+        const params = getGenerateScriptsParams(
+            objects,
+            {
+                ...options,
+                scriptEntireDatabase: true,
+                includeSchemas: ["hr"],
+                targetDatabaseEngineEdition:
+                    TargetDatabaseEngineEdition.SqlServerStandardEdition,
+                destination: ScriptDestination.ToSingleFile,
+            },
+            "generateScripts:1",
+            "/scripts/db.sql",
+        );
+
+        assert.equal(params.scriptingObjects, undefined);
+        assert.deepEqual(params.includeTypes, [
+            "Table",
+            "StoredProcedure",
+            "UserDefinedFunction",
+        ]);
+        assert.deepEqual(params.includeSchemas, ["hr"]);
+        assert.equal(params.scriptDestination, "ToSingleFile");
+        assert.equal(
+            params.scriptOptions.targetDatabaseEngineType,
+            "SingleInstance",
+        );
+    });
+});
@@ -0,0 +1,135 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { IConnectionInfo, NodeFilter } from "vscode-mssql";
+import { ObjectExplorerFilterStore } from "../../src/objectExplorer/objectExplorerFilterStore";
+import { TreeNodeInfo } from "../../src/objectExplorer/treeNodeInfo";
+import { NodeFilterOperator } from "../../src/sharedInterfaces/objectExplorerFilter";
+
+suite("Object Explorer Filter Store Tests", () => {
+    let values: { [key: string]: any };
+    let filterStore: ObjectExplorerFilterStore;
+
+    const createNode = (nodePath: string, server: string = "server1") =>
+        new TreeNodeInfo(
+            nodePath,
+            {
+                type: "Folder",
+                subType: "Tables",
+                filterable: true,
+                hasFilters: false,
+            },
+            vscode.TreeItemCollapsibleState.Collapsed,
+            nodePath,
+            undefined,
+            "Folder",
+            "session",
+            {
+                server: server,
+                database: "Sales",
+                authenticationType: "Integrated",
+            } as IConnectionInfo,
+            undefined,
+            [],
+        );
+
+    const schemaFilter: NodeFilter[] = [
+        { name: "Schema", operator: NodeFilterOperator.Equals, value: "dbo" },
+    ];
+
+    setup(() => {
+        values = {};
+        const memento = {
+            keys: () => Object.keys(values),
+            get: (key: string, defaultValue?: any) =>
+                key in values ? values[key] : defaultValue,
+            update: (key: string, value: any) => {
+                values[key] = value;
+                return Promise.resolve();
+            },
+        } as vscode.Memento;
+        filterStore = new ObjectExplorerFilterStore(memento);
+    });
+
+    test("setNodeFilters saves the filters per connection and node path", async () => {
+        await filterStore.setNodeFilters(
+            createNode("server1/Sales/Tables"),
+            schemaFilter,
+        );
+
+        assert.deepEqual(
+            filterStore.getNodeFilters(createNode("server1/Sales/Tables")),
+            schemaFilter,
+        );
+        assert.deepEqual(
+            filterStore.getNodeFilters(createNode("server1/Sales/Views")),
+            [],
+        );
+        assert.deepEqual(
+            filterStore.getNodeFilters(
+                createNode("server1/Sales/Tables", "server2"),
+            ),
+            [],
+        );
+
+        await filterStore.setNodeFilters(
+            createNode("server1/Sales/Tables"),
+            [],
+        );
+        assert.deepEqual(
+            filterStore.getNodeFilters(createNode("server1/Sales/Tables")),
+            [],
+        );
+        assert.deepEqual(values["mssql.objectExplorer.nodeFilters"], {});
+    });
+
+    test("savePreset replaces the preset with the same name and type", async () => {
+        await filterStore.savePreset({
+            name: "dbo",
+            nodeType: "Tables",
+            filters: [],
+        });
+        await filterStore.savePreset({
+            name: "dbo",
+            nodeType: "Views",
+            filters: schemaFilter,
+        });
+        await filterStore.savePreset({
+            name: "dbo",
+            nodeType: "Tables",
+            filters: schemaFilter,
+        });
+        await filterStore.savePreset({
+            name: "audit",
+            nodeType: "Tables",
+            filters: [],
+        });
+
+        assert.deepEqual(
+            filterStore.getPresets("Tables").map((p) => p.name),
+            ["audit", "dbo"],
+        );
+        assert.deepEqual(
+            filterStore.getPresets("Tables")[1].filters,
+            schemaFilter,
+        );
+
+        await filterStore.deletePreset("Tables", "dbo");
+        assert.deepEqual(
+            filterStore.getPresets("Tables").map((p) => p.name),
+            ["audit"],
+        );
+        assert.equal(filterStore.getPresets("Views").length, 1);
+    });
+
+    test("getNodeType uses the sub type of folders", () => {
+        assert.equal(
+            ObjectExplorerFilterStore.getNodeType(createNode("server1/Sales")),
+            "Tables",
+        );
+    });
+});
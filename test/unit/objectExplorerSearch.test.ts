@@ -0,0 +1,163 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from "assert";
+import * as TypeMoq from "typemoq";
+import * as vscode from "vscode";
+import { ObjectMetadata } from "vscode-mssql";
+import ConnectionManager from "../../src/controllers/connectionManager";
+import {
+    DatabaseObjectType,
+    ObjectExplorerSearch,
+} from "../../src/objectExplorer/objectExplorerSearch";
+import { ObjectExplorerProvider } from "../../src/objectExplorer/objectExplorerProvider";
+import { TreeNodeInfo } from "../../src/objectExplorer/treeNodeInfo";
+
+suite("Object Explorer Search Tests", () => {
+    let children: Map<string, TreeNodeInfo[]>;
+    let expanded: string[];
+    let search: ObjectExplorerSearch;
+
+    const createNode = (
+        label: string,
+        nodeType: string,
+        parentNode: TreeNodeInfo,
+        subType: string = "",
+        metadata?: Partial<ObjectMetadata>,
+    ) => {
+        const node = new TreeNodeInfo(
+            label,
+            {
+                type: nodeType,
+                subType: subType,
+                filterable: false,
+                hasFilters: false,
+            },
+            vscode.TreeItemCollapsibleState.Collapsed,
+            parentNode ? `${parentNode.nodePath}/${label}` : label,
+            undefined,
+            nodeType,
+            "session",
+            undefined,
+            parentNode,
+            [],
+            metadata as ObjectMetadata,
+        );
+        children.set(node.nodePath, []);
+        children.get(parentNode?.nodePath)?.push(node);
+        return node;
+    };
+
+    let server: TreeNodeInfo;
+
+    setup(() => {
+        children = new Map();
+        expanded = [];
+        server = createNode("server", "Server", undefined);
+        const databases = createNode(
+            "Databases",
+            "Folder",
+            server,
+            "Databases",
+        );
+        createNode("master", "Database", databases, "", {
+            metadataTypeName: "Database",
+            name: "master",
+        });
+        const sales = createNode("Sales", "Database", databases, "", {
+            metadataTypeName: "Database",
+            name: "Sales",
+        });
+        const tables = createNode("Tables", "Folder", sales, "Tables");
+        createNode("Views", "Folder", sales, "Views");
+        createNode("Security", "Folder", sales, "Security");
+        const orders = createNode("dbo.Orders", "Table", tables, "", {
+            metadataTypeName: "Table",
+            schema: "dbo",
+            name: "Orders",
+        });
+        const columns = createNode("Columns", "Folder", orders, "Columns");
+        createNode("Id (PK, int, not null)", "Column", columns);
+        createNode("Total (decimal(10,2), null)", "Column", columns);
+        const programmability = createNode(
+            "Programmability",
+            "Folder",
+            sales,
+            "Programmability",
+        );
+        const procedures = createNode(
+            "Stored Procedures",
+            "Folder",
+            programmability,
+            "StoredProcedures",
+        );
+        createNode("sales.GetOrders", "StoredProcedure", procedures, "", {
+            metadataTypeName: "StoredProcedure",
+            schema: "sales",
+            name: "GetOrders",
+        });
+
+        const provider = TypeMoq.Mock.ofType<ObjectExplorerProvider>();
+        provider
+            .setup((p) => p.getChildren(TypeMoq.It.isAny()))
+            .returns((node: TreeNodeInfo) => {
+                expanded.push(node.nodePath);
+                return Promise.resolve(children.get(node.nodePath));
+            });
+        search = new ObjectExplorerSearch(
+            TypeMoq.Mock.ofType<ConnectionManager>().object,
+            provider.object,
+        );
+    });
+
+    test("findObjectNode finds an object through the folders of its type", async () => {
+        const node = await search.findObjectNode(server, "Sales", {
+            type: DatabaseObjectType.StoredProcedure,
+            schema: "sales",
+            name: "GetOrders",
+        });
+
+        assert.equal(node.label, "sales.GetOrders");
+        assert.deepEqual(expanded, [
+            "server",
+            "server/Databases",
+            "server/Databases/Sales",
+            "server/Databases/Sales/Programmability",
+            "server/Databases/Sales/Programmability/Stored Procedures",
+        ]);
+    });
+
+    test("findObjectNode finds a column of a table from a node in the database", async () => {
+        const tables = children.get("server/Databases/Sales")[0];
+        const node = await search.findObjectNode(tables, "Sales", {
+            type: DatabaseObjectType.Column,
+            schema: "dbo",
+            parentName: "Orders",
+            name: "Total",
+        });
+
+        assert.equal(node.label, "Total (decimal(10,2), null)");
+        assert.equal(expanded.includes("server/Databases"), false);
+    });
+
+    test("findObjectNode returns undefined for objects that are not in the tree", async () => {
+        assert.equal(
+            await search.findObjectNode(server, "Sales", {
+                type: DatabaseObjectType.Table,
+                schema: "sales",
+                name: "Orders",
+            }),
+            undefined,
+        );
+        assert.equal(
+            await search.findObjectNode(server, "Inventory", {
+                type: DatabaseObjectType.Table,
+                schema: "dbo",
+                name: "Orders",
+            }),
+            undefined,
+        );
+    });
+});
@@ -0,0 +1,171 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from "assert";
+import * as os from "os";
+import {
+    addTable,
+    createEmptyQuery,
+    generateSql,
+    removeTable,
+} from "../../src/queryBuilder/queryBuilderUtils";
+import {
+    QueryBuilderAggregate,
+    QueryBuilderForeignKey,
+    QueryBuilderJoinType,
+    QueryBuilderOperator,
+} from "../../src/sharedInterfaces/queryBuilder";
+
+suite("Query Builder Utils Tests", () => {
+    const foreignKeys: QueryBuilderForeignKey[] = [
+        {
+            schema: "Sales",
+            table: "Orders",
+            columns: ["CustomerID"],
+            referencedSchema: "Sales",
+            referencedTable: "Customers",
+            referencedColumns: ["ID"],
+        },
+    ];
+
+    test("addTable suggests joins from foreign keys in both directions", () => {
+        let query = addTable(
+            createEmptyQuery(),
+            "Sales",
+            "Customers",
+            foreignKeys,
+        );
+        query = addTable(query, "Sales", "Orders", foreignKeys);
+        query = addTable(query, "Sales", "Customers", foreignKeys);
+
+        assert.deepStrictEqual(
+            query.tables.map((t) => t.alias),
+            ["Customers", "Orders", "Customers2"],
+        );
+        assert.deepStrictEqual(query.tables[0].joinConditions, []);
+        assert.deepStrictEqual(query.tables[1].joinConditions, [
+            {
+                column: "CustomerID",
+                otherColumn: { alias: "Customers", column: "ID" },
+            },
+        ]);
+        assert.deepStrictEqual(query.tables[2].joinConditions, [
+            {
+                column: "ID",
+                otherColumn: { alias: "Orders", column: "CustomerID" },
+            },
+        ]);
+    });
+
+    test("removeTable removes everything that refers to the table", () => {
+        let query = addTable(
+            createEmptyQuery(),
+            "Sales",
+            "Customers",
+            foreignKeys,
+        );
+        query = addTable(query, "Sales", "Orders", foreignKeys);
+        query = {
+            ...query,
+            columns: [
+                { alias: "Customers", column: "Name" },
+                { alias: "Orders", column: "Total" },
+            ],
+            filters: [
+                {
+                    alias: "Customers",
+                    column: "Country",
+                    operator: QueryBuilderOperator.Equal,
+                    value: "France",
+                },
+            ],
+            orderBy: [{ alias: "Orders", column: "Total", descending: true }],
+        };
+
+        const result = removeTable(query, "Customers");
+        assert.deepStrictEqual(
+            result.tables.map((t) => [t.alias, t.joinConditions.length]),
+            [["Orders", 0]],
+        );
+        assert.deepStrictEqual(result.columns, [
+            { alias: "Orders", column: "Total" },
+        ]);
+        assert.deepStrictEqual(result.filters, []);
+        assert.strictEqual(result.orderBy.length, 1);
+    });
+
+    test("generateSql returns an empty string for a query without tables", () => {
+        assert.strictEqual(generateSql(createEmptyQuery()), "");
+    });
+
+    test("generateSql selects all columns of a single table", () => {
+        const query = addTable(createEmptyQuery(), "dbo", "Orders", []);
+        assert.strictEqual(
+            generateSql({ ...query, top: 100 }),
+            [
+                "SELECT TOP (100)",
+                "    *",
+                "FROM [dbo].[Orders] AS [Orders]",
+            ].join(os.EOL),
+        );
+    });
+
+    test("generateSql generates joins, filters, grouping and ordering", () => {
+        let query = addTable(
+            createEmptyQuery(),
+            "Sales",
+            "Customers",
+            foreignKeys,
+        );
+        query = addTable(query, "Sales", "Orders", foreignKeys);
+        query = addTable(query, "dbo", "Regions", foreignKeys);
+        query.tables[1].joinType = QueryBuilderJoinType.Left;
+        query = {
+            ...query,
+            columns: [
+                { alias: "Customers", column: "Name" },
+                {
+                    alias: "Orders",
+                    column: "ID",
+                    aggregate: QueryBuilderAggregate.CountDistinct,
+                    outputName: "Order Count",
+                },
+            ],
+            filters: [
+                {
+                    alias: "Customers",
+                    column: "Country",
+                    operator: QueryBuilderOperator.In,
+                    value: "France, O'Brien,42",
+                },
+                {
+                    alias: "Orders",
+                    column: "ShippedDate",
+                    operator: QueryBuilderOperator.IsNotNull,
+                    value: "",
+                },
+            ],
+            groupBy: [{ alias: "Regions", column: "Name" }],
+            orderBy: [{ alias: "Customers", column: "Name", descending: true }],
+        };
+
+        assert.strictEqual(
+            generateSql(query),
+            [
+                "SELECT",
+                "    [Customers].[Name],",
+                "    COUNT(DISTINCT [Orders].[ID]) AS [Order Count]",
+                "FROM [Sales].[Customers] AS [Customers]",
+                "LEFT JOIN [Sales].[Orders] AS [Orders]",
+                "    ON [Orders].[CustomerID] = [Customers].[ID]",
+                "CROSS JOIN [dbo].[Regions] AS [Regions]",
+                "WHERE [Customers].[Country] IN (N'France', N'O''Brien', 42)",
+                "    AND [Orders].[ShippedDate] IS NOT NULL",
+                "GROUP BY [Regions].[Name], [Customers].[Name]",
+                "ORDER BY [Customers].[Name] DESC",
+            ].join(os.EOL),
+        );
+    });
+});
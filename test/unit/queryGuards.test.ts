@@ -0,0 +1,85 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { expect } from "chai";
+import {
+    findGuardedStatements,
+    GuardedStatementType,
+} from "../../src/models/queryGuards";
+
+suite("Query Guards Tests", () => {
+    test("findGuardedStatements finds UPDATE and DELETE statements without WHERE", () => {
+        expect(
+            findGuardedStatements(
+                "UPDATE dbo.Orders SET Status = 1\nDELETE FROM dbo.Orders",
+            ),
+        ).to.deep.equal([
+            GuardedStatementType.UpdateWithoutWhere,
+            GuardedStatementType.DeleteWithoutWhere,
+        ]);
+        expect(
+            findGuardedStatements(
+                "UPDATE o SET Status = 1 FROM dbo.Orders o JOIN dbo.Customers c ON c.Id = o.CustomerId",
+            ),
+        ).to.deep.equal([GuardedStatementType.UpdateWithoutWhere]);
+        // the WHERE clause of a subquery or of the next statement does not count
+        expect(
+            findGuardedStatements(
+                "DELETE FROM dbo.Orders OUTPUT deleted.Id INTO @ids SELECT * FROM t WHERE 1 = 1",
+            ),
+        ).to.deep.equal([GuardedStatementType.DeleteWithoutWhere]);
+        expect(
+            findGuardedStatements(
+                "UPDATE dbo.Orders SET Total = (SELECT SUM(x) FROM Lines WHERE Id = 1)",
+            ),
+        ).to.deep.equal([GuardedStatementType.UpdateWithoutWhere]);
+    });
+
+    test("findGuardedStatements allows UPDATE and DELETE statements with WHERE", () => {
+        expect(
+            findGuardedStatements(
+                [
+                    "UPDATE dbo.Orders SET Status = 1 WHERE Id = 5;",
+                    "DELETE FROM dbo.Orders WHERE Id IN (SELECT Id FROM #old)",
+                    "DELETE o FROM dbo.Orders o JOIN #old ON #old.Id = o.Id WHERE o.Status = 2",
+                    "UPDATE dbo.Orders SET Status = 1 WHERE CURRENT OF order_cursor",
+                ].join("\n"),
+            ),
+        ).to.deep.equal([]);
+    });
+
+    test("findGuardedStatements ignores comments, strings and keywords that are not statements", () => {
+        expect(
+            findGuardedStatements(
+                [
+                    "-- DROP TABLE dbo.Orders",
+                    "/* DELETE FROM dbo.Orders /* nested */ TRUNCATE TABLE t */",
+                    "SELECT 'DROP TABLE x', [delete] FROM dbo.Orders",
+                    "CREATE TRIGGER trg ON dbo.Orders AFTER INSERT, UPDATE, DELETE AS",
+                    "IF UPDATE(Status) PRINT 'changed'",
+                    "GO",
+                    "GRANT SELECT, UPDATE, DELETE ON dbo.Orders TO app",
+                    "ALTER TABLE dbo.Lines ADD CONSTRAINT fk FOREIGN KEY (OrderId) REFERENCES dbo.Orders (Id) ON DELETE CASCADE ON UPDATE NO ACTION",
+                    "UPDATE STATISTICS dbo.Orders",
+                    "CREATE INDEX ix ON dbo.Orders (Status) WITH (DROP_EXISTING = ON)",
+                ].join("\n"),
+            ),
+        ).to.deep.equal([]);
+    });
+
+    test("findGuardedStatements finds DROP and TRUNCATE TABLE statements", () => {
+        expect(
+            findGuardedStatements(
+                "TRUNCATE TABLE dbo.Lines;\ndrop table dbo.Orders",
+            ),
+        ).to.deep.equal([
+            GuardedStatementType.Drop,
+            GuardedStatementType.Truncate,
+        ]);
+        expect(
+            findGuardedStatements("ALTER TABLE dbo.Orders DROP COLUMN Notes"),
+        ).to.deep.equal([GuardedStatementType.Drop]);
+    });
+});
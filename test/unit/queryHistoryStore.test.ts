@@ -0,0 +1,175 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from "vscode";
+import { expect } from "chai";
+import {
+    IQueryHistoryEntry,
+    QueryHistoryStorageScope,
+    QueryHistoryStore,
+} from "../../src/queryHistory/queryHistoryStore";
+
+class InMemoryMemento implements vscode.Memento {
+    private _values: { [key: string]: any } = {};
+
+    public keys(): readonly string[] {
+        return Object.keys(this._values);
+    }
+
+    public get<T>(key: string, defaultValue?: T): T {
+        return key in this._values ? this._values[key] : defaultValue;
+    }
+
+    public update(key: string, value: any): Thenable<void> {
+        this._values[key] = value;
+        return Promise.resolve();
+    }
+}
+
+suite("Query History Store Tests", () => {
+    let globalState: InMemoryMemento;
+    let workspaceState: InMemoryMemento;
+    let store: QueryHistoryStore;
+
+    function createEntry(
+        id: string,
+        timeStamp: number,
+        overrides: Partial<IQueryHistoryEntry> = {},
+    ): IQueryHistoryEntry {
+        return {
+            id: id,
+            queryString: "SELECT * FROM sys.objects",
+            connectionLabel: "(localhost|master)",
+            server: "localhost",
+            database: "master",
+            ownerUri: "untitled:Untitled-1",
+            timeStamp: timeStamp,
+            durationMs: 10,
+            rowCount: 5,
+            isSuccess: true,
+            credentials: undefined,
+            ...overrides,
+        };
+    }
+
+    setup(() => {
+        globalState = new InMemoryMemento();
+        workspaceState = new InMemoryMemento();
+        store = new QueryHistoryStore(globalState, workspaceState);
+    });
+
+    test("Entries are returned newest first and trimmed to the limit", async () => {
+        await store.addEntry(
+            createEntry("1", 1000),
+            QueryHistoryStorageScope.Workspace,
+            2,
+        );
+        await store.addEntry(
+            createEntry("2", 3000),
+            QueryHistoryStorageScope.Workspace,
+            2,
+        );
+        await store.addEntry(
+            createEntry("3", 2000),
+            QueryHistoryStorageScope.Workspace,
+            2,
+        );
+
+        const entries = store.getEntries(QueryHistoryStorageScope.Workspace);
+        expect(entries.map((e) => e.id)).to.deep.equal(["2", "3"]);
+    });
+
+    test("Entries are kept separately per scope", async () => {
+        await store.addEntry(
+            createEntry("1", 1000),
+            QueryHistoryStorageScope.Global,
+            10,
+        );
+        await store.addEntry(
+            createEntry("2", 1000),
+            QueryHistoryStorageScope.None,
+            10,
+        );
+
+        expect(
+            store.getEntries(QueryHistoryStorageScope.Global),
+        ).to.have.length(1);
+        expect(
+            store.getEntries(QueryHistoryStorageScope.Workspace),
+        ).to.have.length(0);
+        expect(store.getEntries(QueryHistoryStorageScope.None)).to.have.length(
+            0,
+        );
+        expect(workspaceState.keys()).to.have.length(0);
+    });
+
+    test("Entries can be removed and cleared", async () => {
+        await store.addEntry(
+            createEntry("1", 1000),
+            QueryHistoryStorageScope.Workspace,
+            10,
+        );
+        await store.addEntry(
+            createEntry("2", 2000),
+            QueryHistoryStorageScope.Workspace,
+            10,
+        );
+
+        await store.removeEntry("1", QueryHistoryStorageScope.Workspace);
+        expect(
+            store
+                .getEntries(QueryHistoryStorageScope.Workspace)
+                .map((e) => e.id),
+        ).to.deep.equal(["2"]);
+
+        await store.clear(QueryHistoryStorageScope.Workspace);
+        expect(
+            store.getEntries(QueryHistoryStorageScope.Workspace),
+        ).to.have.length(0);
+    });
+
+    test("matchesFilter matches text, server and database case-insensitively", () => {
+        const entry = createEntry("1", 1000, {
+            queryString: "SELECT name FROM dbo.Customers",
+            server: "prod-sql01",
+            database: "Sales",
+        });
+
+        expect(QueryHistoryStore.matchesFilter(entry, undefined)).to.be.true;
+        expect(QueryHistoryStore.matchesFilter(entry, { text: "customers" })).to
+            .be.true;
+        expect(
+            QueryHistoryStore.matchesFilter(entry, {
+                server: "PROD",
+                database: "sales",
+            }),
+        ).to.be.true;
+        expect(QueryHistoryStore.matchesFilter(entry, { text: "orders" })).to.be
+            .false;
+        expect(QueryHistoryStore.matchesFilter(entry, { server: "dev" })).to.be
+            .false;
+    });
+
+    test("matchesFilter honors the date range", () => {
+        const entry = createEntry("1", new Date(2024, 5, 15).getTime());
+
+        expect(
+            QueryHistoryStore.matchesFilter(entry, {
+                from: new Date(2024, 5, 1),
+                to: new Date(2024, 5, 30),
+            }),
+        ).to.be.true;
+        expect(
+            QueryHistoryStore.matchesFilter(entry, {
+                from: new Date(2024, 5, 16),
+            }),
+        ).to.be.false;
+        expect(
+            QueryHistoryStore.matchesFilter(entry, {
+                to: new Date(2024, 5, 14),
+            }),
+        ).to.be.false;
+    });
+});
@@ -0,0 +1,92 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { expect } from "chai";
+import {
+    findQueryParameters,
+    formatParameterValue,
+    QueryParameterKind,
+    substituteQueryParameters,
+} from "../../src/models/queryParameters";
+
+suite("Query Parameters Tests", () => {
+    test("Finds SQLCMD variables that are not set with :setvar", () => {
+        const query = [
+            ":setvar Schema dbo",
+            ":setvar Unset",
+            "DECLARE @db sysname = N'$(DatabaseName)';",
+            "SELECT * FROM [$(Schema)].[Customers] WHERE Region = '$(Unset)'",
+            "-- $(Commented)",
+        ].join("\n");
+
+        expect(findQueryParameters(query)).to.deep.equal([
+            {
+                kind: QueryParameterKind.SqlCmdVariable,
+                displayName: "$(DatabaseName)",
+                key: "$(databasename)",
+            },
+            {
+                kind: QueryParameterKind.SqlCmdVariable,
+                displayName: "$(Unset)",
+                key: "$(unset)",
+            },
+        ]);
+    });
+
+    test("Finds @ variables that are never declared", () => {
+        const query = [
+            "DECLARE @a int = 1, @b TABLE (id int, name varchar(10)),",
+            "    @c int;",
+            "DECLARE @d int",
+            "SELECT @@ROWCOUNT, 'user@contoso.com', [col@name] /* @comment */",
+            "FROM t WHERE a = @a AND b = @CustomerId AND c = @customerid AND d = @Region",
+            "EXEC dbo.proc @Param1 = @d, @Param2 = @Missing",
+        ].join("\n");
+
+        expect(
+            findQueryParameters(query).map((p) => p.displayName),
+        ).to.deep.equal(["@CustomerId", "@Region", "@Missing"]);
+    });
+
+    test("Treats routine parameters as declared", () => {
+        const query = [
+            "CREATE OR ALTER PROCEDURE dbo.GetOrders @CustomerId int, @Top int = 10",
+            "AS",
+            "SELECT TOP (@Top) * FROM Orders WHERE CustomerId = @CustomerId",
+        ].join("\n");
+
+        expect(findQueryParameters(query)).to.be.empty;
+    });
+
+    test("Substitutes SQLCMD variables as text and @ variables as literals", () => {
+        const query = [
+            "USE [$(DatabaseName)];",
+            "SELECT * FROM t WHERE name = @Name AND id = @ID AND note = '@Name'",
+            "EXEC dbo.proc @Name = @name",
+        ].join("\n");
+
+        expect(
+            substituteQueryParameters(query, {
+                "$(databasename)": "Sales",
+                "@name": "O'Brien",
+                "@id": "42",
+            }),
+        ).to.equal(
+            [
+                "USE [Sales];",
+                "SELECT * FROM t WHERE name = N'O''Brien' AND id = 42 AND note = '@Name'",
+                "EXEC dbo.proc @Name = N'O''Brien'",
+            ].join("\n"),
+        );
+    });
+
+    test("formatParameterValue keeps numbers, NULL, binary and quoted values", () => {
+        expect(formatParameterValue("-1.5e3")).to.equal("-1.5e3");
+        expect(formatParameterValue("null")).to.equal("null");
+        expect(formatParameterValue("0x1F")).to.equal("0x1F");
+        expect(formatParameterValue("N'it''s'")).to.equal("N'it''s'");
+        expect(formatParameterValue("2024-01-01")).to.equal("N'2024-01-01'");
+    });
+});
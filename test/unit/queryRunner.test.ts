@@ -23,7 +23,15 @@ import StatusView from "../../src/views/statusView";
 import * as Constants from "../../src/constants/constants";
 import * as QueryExecuteContracts from "../../src/models/contracts/queryExecute";
 import * as QueryDisposeContracts from "../../src/models/contracts/queryDispose";
-import { ISlickRange, ISelectionData } from "../../src/models/interfaces";
+import {
+    ConnectionEnvironment,
+    IConnectionProfile,
+    ISlickRange,
+    ISelectionData,
+} from "../../src/models/interfaces";
+import ConnectionManager, {
+    ConnectionInfo,
+} from "../../src/controllers/connectionManager";
 import * as stubs from "./stubs";
 import * as vscode from "vscode";
 import { expect } from "chai";
@@ -380,6 +388,136 @@ suite("Query Runner tests", () => {
         );
     }
 
+    test("Notification - Batch Start of a substituted query is moved to the selection", async () => {
+        // Setup: Run the substituted text of a selection that starts in the middle of a line
+        testSqlToolsServerClient
+            .setup((x) =>
+                x.sendRequest(
+                    TypeMoq.It.isValue(
+                        QueryExecuteContracts.QueryExecuteStringRequest.type,
+                    ),
+                    TypeMoq.It.isAny(),
+                ),
+            )
+            .returns(() =>
+                Promise.resolve(new QueryExecuteContracts.QueryExecuteResult()),
+            );
+        let queryRunner = new QueryRunner(
+            standardUri,
+            standardTitle,
+            testStatusView.object,
+            testSqlToolsServerClient.object,
+            testQueryNotificationHandler.object,
+            testVscodeWrapper.object,
+        );
+        queryRunner.eventEmitter = TypeMoq.Mock.ofType(
+            EventEmitter,
+            TypeMoq.MockBehavior.Loose,
+        ).object;
+        await queryRunner.runQuery(
+            { startLine: 2, startColumn: 4, endLine: 3, endColumn: 10 },
+            undefined,
+            undefined,
+            "SELECT 1\nGO\nSELECT 2",
+        );
+
+        // If: I submit batch start notifications with selections in the substituted text
+        const batchSummary = (
+            id: number,
+            startLine: number,
+            endLine: number,
+            endColumn: number,
+        ) => ({
+            executionElapsed: undefined,
+            executionEnd: undefined,
+            executionStart: new Date().toISOString(),
+            hasError: false,
+            id: id,
+            selection: {
+                startLine: startLine,
+                endLine: endLine,
+                startColumn: 0,
+                endColumn: endColumn,
+            },
+            resultSetSummaries: undefined,
+        });
+        queryRunner.handleBatchStart({
+            ownerUri: standardUri,
+            batchSummary: batchSummary(0, 0, 0, 8),
+        });
+        queryRunner.handleBatchStart({
+            ownerUri: standardUri,
+            batchSummary: batchSummary(1, 2, 2, 8),
+        });
+
+        // Then: The selections should be moved to the lines and columns of the document
+        assert.deepEqual(queryRunner.batchSets[0].selection, {
+            startLine: 2,
+            endLine: 2,
+            startColumn: 4,
+            endColumn: 12,
+        });
+        assert.deepEqual(queryRunner.batchSets[1].selection, {
+            startLine: 4,
+            endLine: 4,
+            startColumn: 0,
+            endColumn: 8,
+        });
+    });
+
+    test("Does not run a destructive query on a production connection without confirmation", async () => {
+        // Setup: The editor is connected to a production connection and the warning is dismissed
+        let testConnectionManager = TypeMoq.Mock.ofType(
+            ConnectionManager,
+            TypeMoq.MockBehavior.Loose,
+            stubs.TestExtensionContext.object,
+        );
+        let connectionInfo = new ConnectionInfo();
+        connectionInfo.credentials = <IConnectionProfile>{
+            server: "prodServer",
+            environment: ConnectionEnvironment.Production,
+        };
+        testConnectionManager
+            .setup((x) => x.getConnectionInfo(TypeMoq.It.isValue(standardUri)))
+            .returns(() => connectionInfo);
+        testVscodeWrapper
+            .setup((x) => x.getConfiguration(TypeMoq.It.isAny()))
+            .returns(() => stubs.createWorkspaceConfiguration({}));
+        testVscodeWrapper
+            .setup((x) =>
+                x.showWarningMessageAdvanced(
+                    TypeMoq.It.isAnyString(),
+                    TypeMoq.It.isAny(),
+                    TypeMoq.It.isAny(),
+                ),
+            )
+            .returns(() => Promise.resolve(undefined));
+        let queryRunner = new QueryRunner(
+            standardUri,
+            standardTitle,
+            testStatusView.object,
+            testSqlToolsServerClient.object,
+            testQueryNotificationHandler.object,
+            testVscodeWrapper.object,
+            testConnectionManager.object,
+        );
+
+        // If: I run a destructive query without passing the connection
+        await queryRunner.runQuery(
+            standardSelection,
+            undefined,
+            undefined,
+            "DROP TABLE dbo.Orders",
+        );
+
+        // Then: The query should not have been sent to the service
+        testSqlToolsServerClient.verify(
+            (x) => x.sendRequest(TypeMoq.It.isAny(), TypeMoq.It.isAny()),
+            TypeMoq.Times.never(),
+        );
+        assert.equal(queryRunner.isExecutingQuery, false);
+    });
+
     test("Notification - Batch Complete no message", () => {
         testBatchCompleteNotification(false);
     });
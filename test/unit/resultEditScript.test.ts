@@ -0,0 +1,181 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as os from "os";
+import { expect } from "chai";
+import { IDbColumn } from "../../src/models/interfaces";
+import {
+    generateEditScript,
+    getEditTargetTable,
+    hasCompleteKey,
+} from "../../src/models/resultEditScript";
+import { ResultRowEditType } from "../../src/sharedInterfaces/queryResult";
+
+suite("Result Edit Script Tests", () => {
+    const createColumn = (
+        columnName: string,
+        dataTypeName: string,
+        properties: Partial<IDbColumn> = {},
+    ): IDbColumn =>
+        ({
+            columnName: columnName,
+            baseColumnName: columnName,
+            baseSchemaName: "dbo",
+            baseTableName: "Customers",
+            dataTypeName: dataTypeName,
+            ...properties,
+        }) as IDbColumn;
+
+    const columns = [
+        createColumn("Id", "int", { isKey: true }),
+        createColumn("Name", "nvarchar"),
+        createColumn("Total", "decimal", { isReadOnly: true }),
+    ];
+
+    const cell = (displayValue: string) => ({
+        displayValue: displayValue,
+        isNull: false,
+    });
+
+    test("getEditTargetTable requires a single base table with a key", () => {
+        expect(getEditTargetTable(columns)).to.equal("[dbo].[Customers]");
+        expect(getEditTargetTable(columns.map((c) => ({ ...c, isKey: false }))))
+            .to.be.undefined;
+        expect(
+            getEditTargetTable([
+                ...columns,
+                createColumn("City", "nvarchar", { baseTableName: "Cities" }),
+            ]),
+        ).to.be.undefined;
+        expect(
+            getEditTargetTable([
+                ...columns,
+                createColumn("Expr1", "int", { baseTableName: undefined }),
+            ]),
+        ).to.be.undefined;
+    });
+
+    test("hasCompleteKey requires all the columns of a unique key of the table", () => {
+        const orderLines = [
+            createColumn("OrderId", "int", { isKey: true }),
+            createColumn("LineNumber", "int", { isKey: true }),
+            createColumn("Quantity", "int"),
+        ];
+        const uniqueKeys = [["OrderId", "LineNumber"], ["LineId"]];
+        expect(hasCompleteKey(orderLines, uniqueKeys)).to.be.true;
+        expect(
+            hasCompleteKey(
+                orderLines.filter((c) => c.columnName !== "LineNumber"),
+                uniqueKeys,
+            ),
+        ).to.be.false;
+        expect(
+            hasCompleteKey(
+                [orderLines[0], createColumn("LineId", "int", { isKey: true })],
+                uniqueKeys,
+            ),
+        ).to.be.true;
+        expect(hasCompleteKey(orderLines, [])).to.be.false;
+    });
+
+    test("generateEditScript generates deletes, updates and inserts in a transaction", () => {
+        const script = generateEditScript(
+            "[dbo].[Customers]",
+            columns,
+            [
+                {
+                    type: ResultRowEditType.Update,
+                    rowId: 0,
+                    originalValues: [cell("1"), cell("Contoso"), cell("10")],
+                    newValues: {
+                        1: cell("O'Brien"),
+                        2: cell("20"),
+                    },
+                },
+                {
+                    type: ResultRowEditType.Insert,
+                    rowId: 5,
+                    newValues: {
+                        0: cell("7"),
+                        1: { displayValue: "", isNull: true },
+                    },
+                },
+                {
+                    type: ResultRowEditType.Delete,
+                    rowId: 2,
+                    originalValues: [cell("3"), cell("Fabrikam"), cell("0")],
+                    newValues: {},
+                },
+            ],
+            { useTransaction: true },
+        );
+
+        const rowCountCheck = [
+            "IF @@ROWCOUNT <> 1",
+            "BEGIN",
+            "    ROLLBACK TRANSACTION;",
+            "    THROW 50000, N'The row was not found or is not unique in the table.', 1;",
+            "END",
+            "SET @RowCount += 1;",
+        ];
+        expect(script).to.equal(
+            [
+                "SET XACT_ABORT ON;",
+                "BEGIN TRANSACTION;",
+                "DECLARE @RowCount int = 0;",
+                "DELETE FROM [dbo].[Customers]",
+                "WHERE [Id] = 3;",
+                ...rowCountCheck,
+                "UPDATE [dbo].[Customers]",
+                "SET [Name] = N'O''Brien'",
+                "WHERE [Id] = 1;",
+                ...rowCountCheck,
+                "INSERT INTO [dbo].[Customers] ([Id], [Name])",
+                "VALUES (7, NULL);",
+                ...rowCountCheck,
+                "COMMIT TRANSACTION;",
+                "SELECT @RowCount AS [RowCount];",
+                "",
+            ].join(os.EOL),
+        );
+    });
+
+    test("generateEditScript quotes invalid numbers and matches NULL keys", () => {
+        const script = generateEditScript(
+            "[dbo].[Customers]",
+            [
+                createColumn("Code", "nvarchar", { isKey: true }),
+                createColumn("Quantity", "int"),
+            ],
+            [
+                {
+                    type: ResultRowEditType.Update,
+                    rowId: 0,
+                    originalValues: [
+                        { displayValue: "", isNull: true },
+                        cell("1"),
+                    ],
+                    newValues: { 1: cell("1; DROP TABLE t") },
+                },
+                {
+                    type: ResultRowEditType.Insert,
+                    rowId: 1,
+                    newValues: {},
+                },
+            ],
+            { useTransaction: false },
+        );
+
+        expect(script).to.equal(
+            [
+                "UPDATE [dbo].[Customers]",
+                "SET [Quantity] = N'1; DROP TABLE t'",
+                "WHERE [Code] IS NULL;",
+                "INSERT INTO [dbo].[Customers] DEFAULT VALUES;",
+                "",
+            ].join(os.EOL),
+        );
+    });
+});
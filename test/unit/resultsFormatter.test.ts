@@ -0,0 +1,135 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from "assert";
+import * as os from "os";
+import { DbCellValue, IDbColumn } from "../../src/models/interfaces";
+import {
+    formatResultsAsHtml,
+    formatResultsAsInsertStatements,
+    formatSqlLiteral,
+    getInsertTargetTable,
+} from "../../src/models/resultsFormatter";
+
+suite("Results formatter tests", () => {
+    function column(
+        columnName: string,
+        dataTypeName: string,
+        overrides: Partial<IDbColumn> = {},
+    ): IDbColumn {
+        return {
+            baseCatalogName: "db",
+            baseColumnName: columnName,
+            baseSchemaName: "dbo",
+            baseServerName: "server",
+            baseTableName: "Customers",
+            columnName: columnName,
+            dataType: dataTypeName,
+            udtAssemblyQualifiedName: undefined,
+            dataTypeName: dataTypeName,
+            ...overrides,
+        };
+    }
+
+    function cell(displayValue: string, isNull: boolean = false): DbCellValue {
+        return { displayValue: displayValue, isNull: isNull };
+    }
+
+    test("formatSqlLiteral quotes values based on the column type", () => {
+        assert.equal(formatSqlLiteral(cell("42"), column("Id", "int")), "42");
+        assert.equal(
+            formatSqlLiteral(cell("true"), column("Active", "bit")),
+            "1",
+        );
+        assert.equal(
+            formatSqlLiteral(cell("0x0A1B"), column("Data", "varbinary")),
+            "0x0A1B",
+        );
+        assert.equal(
+            formatSqlLiteral(cell("O'Brien"), column("Name", "nvarchar")),
+            "N'O''Brien'",
+        );
+        assert.equal(
+            formatSqlLiteral(cell("NULL", true), column("Name", "nvarchar")),
+            "NULL",
+        );
+    });
+
+    test("getInsertTargetTable uses the base table only when all columns share it", () => {
+        assert.equal(
+            getInsertTargetTable(
+                [column("Id", "int"), column("Name", "nvarchar")],
+                "#Results",
+            ),
+            "[dbo].[Customers]",
+        );
+        assert.equal(
+            getInsertTargetTable(
+                [
+                    column("Id", "int"),
+                    column("Total", "int", { baseTableName: "Orders" }),
+                ],
+                "#Results",
+            ),
+            "#Results",
+        );
+    });
+
+    test("formatResultsAsInsertStatements splits rows across statements", () => {
+        const columns = [column("Id", "int"), column("Name", "nvarchar")];
+        const rows = [
+            [cell("1"), cell("a")],
+            [cell("2"), cell("b")],
+            [cell("3"), cell("c")],
+        ];
+        const script = formatResultsAsInsertStatements(columns, rows, {
+            tableName: "#Results",
+            rowsPerStatement: 2,
+        });
+        const expected = [
+            "INSERT INTO [dbo].[Customers] ([Id], [Name])",
+            "VALUES",
+            "    (1, N'a'),",
+            "    (2, N'b');",
+            "INSERT INTO [dbo].[Customers] ([Id], [Name])",
+            "VALUES",
+            "    (3, N'c');",
+            "",
+        ].join(os.EOL);
+        assert.equal(script, expected);
+    });
+
+    test("formatResultsAsInsertStatements enables identity insert for identity columns", () => {
+        const columns = [column("Id", "int", { isIdentity: true })];
+        const script = formatResultsAsInsertStatements(columns, [[cell("1")]], {
+            tableName: "#Results",
+            rowsPerStatement: 1000,
+        });
+        const lines = script.trim().split(os.EOL);
+        assert.equal(lines[0], "SET IDENTITY_INSERT [dbo].[Customers] ON;");
+        assert.equal(
+            lines[lines.length - 1],
+            "SET IDENTITY_INSERT [dbo].[Customers] OFF;",
+        );
+    });
+
+    test("formatResultsAsHtml escapes values and renders headers", () => {
+        const html = formatResultsAsHtml(
+            [column("Name", "nvarchar")],
+            [[cell("<b>&</b>")], [cell("NULL", true)]],
+            { includeHeaders: true, title: "results.html" },
+        );
+        assert.ok(html.includes("<th>Name</th>"));
+        assert.ok(html.includes("<td>&lt;b&gt;&amp;&lt;/b&gt;</td>"));
+        assert.ok(html.includes('<td class="null">NULL</td>'));
+
+        const withoutHeaders = formatResultsAsHtml(
+            [column("Name", "nvarchar")],
+            [],
+            { includeHeaders: false },
+        );
+        assert.ok(!withoutHeaders.includes("<th>"));
+    });
+});
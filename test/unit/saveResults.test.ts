@@ -179,6 +179,22 @@ suite("save results tests", () => {
         return testSaveFailure("excel");
     });
 
+    test("Save as Markdown - test if information message is displayed on success", () => {
+        return testSaveSuccess("markdown");
+    });
+
+    test("Save as Markdown - test if error message is displayed on failure to save", () => {
+        return testSaveFailure("markdown");
+    });
+
+    test("Save as XML - test if information message is displayed on success", () => {
+        return testSaveSuccess("xml");
+    });
+
+    test("Save as XML - test if error message is displayed on failure to save", () => {
+        return testSaveFailure("xml");
+    });
+
     test("Save as with selection - test if selected range is passed in parameters", () => {
         let selection: Interfaces.ISlickRange[] = [
             {
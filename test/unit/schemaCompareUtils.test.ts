@@ -0,0 +1,122 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from "assert";
+import * as mssql from "vscode-mssql";
+import {
+    findDiffEntry,
+    getDataSchemaProvider,
+    getDifferences,
+} from "../../src/schemaCompare/schemaCompareUtils";
+import { SchemaUpdateAction } from "../../src/sharedInterfaces/schemaCompare";
+
+suite("Schema Compare Utils Tests", () => {
+    const createEntry = (
+        updateAction: mssql.SchemaUpdateAction,
+        name: string,
+        sourceValue: string[],
+        targetValue: string[],
+        differenceType: mssql.SchemaDifferenceType = mssql.SchemaDifferenceType
+            .Object,
+    ) =>
+        ({
+            updateAction: updateAction,
+            differenceType: differenceType,
+            name: name,
+            sourceValue: sourceValue,
+            targetValue: targetValue,
+            sourceScript: sourceValue ? "CREATE TABLE ..." : undefined,
+            targetScript: targetValue ? "CREATE TABLE ..." : undefined,
+            included: true,
+        }) as mssql.DiffEntry;
+
+    const entries = [
+        createEntry(
+            mssql.SchemaUpdateAction.Add,
+            "Table",
+            ["dbo", "Orders"],
+            undefined,
+        ),
+        createEntry(
+            mssql.SchemaUpdateAction.Change,
+            "Column",
+            ["dbo", "Lines", "Total"],
+            ["dbo", "Lines", "Total"],
+            mssql.SchemaDifferenceType.Property,
+        ),
+        createEntry(mssql.SchemaUpdateAction.Delete, "View", undefined, [
+            "sales",
+            "Totals",
+        ]),
+    ];
+
+    test("getDifferences returns the object level differences with their index", () => {
+        assert.deepEqual(getDifferences(entries), [
+            {
+                id: 0,
+                updateAction: SchemaUpdateAction.Add,
+                objectType: "Table",
+                sourceName: "dbo.Orders",
+                targetName: undefined,
+                sourceScript: "CREATE TABLE ...",
+                targetScript: undefined,
+                included: true,
+            },
+            {
+                id: 2,
+                updateAction: SchemaUpdateAction.Delete,
+                objectType: "View",
+                sourceName: undefined,
+                targetName: "sales.Totals",
+                sourceScript: undefined,
+                targetScript: "CREATE TABLE ...",
+                included: true,
+            },
+        ]);
+    });
+
+    test("findDiffEntry matches dependencies by type, action and names", () => {
+        assert.equal(
+            findDiffEntry(
+                entries,
+                createEntry(
+                    mssql.SchemaUpdateAction.Delete,
+                    "View",
+                    [],
+                    ["sales", "Totals"],
+                ),
+            ),
+            entries[2],
+        );
+        assert.equal(
+            findDiffEntry(
+                entries,
+                createEntry(
+                    mssql.SchemaUpdateAction.Change,
+                    "Table",
+                    ["dbo", "Orders"],
+                    undefined,
+                ),
+            ),
+            undefined,
+        );
+    });
+
+    test("getDataSchemaProvider gets the target platform of the project", () => {
+        assert.equal(
+            getDataSchemaProvider(
+                "Microsoft.Data.Tools.Schema.Sql.Sql160DatabaseSchemaProvider",
+            ),
+            "160",
+        );
+        assert.equal(
+            getDataSchemaProvider(
+                "Microsoft.Data.Tools.Schema.Sql.SqlAzureV12DatabaseSchemaProvider",
+            ),
+            "AzureV12",
+        );
+        assert.equal(getDataSchemaProvider(undefined), "");
+    });
+});
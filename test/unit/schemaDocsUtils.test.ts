@@ -0,0 +1,231 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from "assert";
+import { ObjectMetadata } from "vscode-mssql";
+import { MetadataType } from "../../src/models/contracts/metadata/metadataRequest";
+import {
+    SchemaDocsRows,
+    buildDatabaseDocs,
+    formatDataType,
+    getObjectAnchor,
+    toHtml,
+    toMarkdown,
+} from "../../src/schemaDocs/schemaDocsUtils";
+
+suite("Schema Docs Utils Tests", () => {
+    const getMetadata = (
+        metadataType: MetadataType,
+        metadataTypeName: string,
+        schema: string,
+        name: string,
+    ) =>
+        ({
+            metadataType: metadataType as number,
+            metadataTypeName,
+            schema,
+            name,
+        }) as ObjectMetadata;
+    const metadata = [
+        getMetadata(MetadataType.Table, "Table", "sales", "Orders"),
+        getMetadata(MetadataType.Table, "Table", "dbo", "Customers"),
+        getMetadata(MetadataType.View, "View", "sales", "BigOrders"),
+        getMetadata(MetadataType.SProc, "StoredProcedure", "sales", "AddOrder"),
+        getMetadata(
+            MetadataType.Function,
+            "UserDefinedFunction",
+            "sales",
+            "GetTotal",
+        ),
+    ];
+    const rows: SchemaDocsRows = {
+        columns: [
+            ["dbo", "Customers", "Id", "int", "4", "10", "0", "0", "1"],
+            ["sales", "Orders", "Id", "int", "4", "10", "0", "0", "1"],
+            ["sales", "Orders", "CustomerId", "int", "4", "10", "0", "0", "0"],
+            [
+                "sales",
+                "Orders",
+                "Note",
+                "nvarchar",
+                "-1",
+                "0",
+                "0",
+                "1",
+                "0",
+                "('')",
+                "Notes | comments\nof the order",
+            ],
+            ["sales", "BigOrders", "Id", "int", "4", "10", "0", "0", "0"],
+        ],
+        descriptions: [["sales", "Orders", "The orders of the customers"]],
+        indexes: [
+            [
+                "dbo",
+                "Customers",
+                "PK_Customers",
+                "CLUSTERED",
+                "1",
+                "1",
+                "Id",
+                "0",
+            ],
+            ["sales", "Orders", "PK_Orders", "CLUSTERED", "1", "1", "Id", "0"],
+            [
+                "sales",
+                "Orders",
+                "IX_Orders_CustomerId",
+                "NONCLUSTERED",
+                "0",
+                "0",
+                "CustomerId",
+                "0",
+            ],
+            [
+                "sales",
+                "Orders",
+                "IX_Orders_CustomerId",
+                "NONCLUSTERED",
+                "0",
+                "0",
+                "Note",
+                "1",
+            ],
+        ],
+        foreignKeys: [
+            [
+                "sales",
+                "Orders",
+                "FK_Orders_Customers",
+                "CustomerId",
+                "dbo",
+                "Customers",
+                "Id",
+                "CASCADE",
+                "NO_ACTION",
+            ],
+        ],
+        parameters: [
+            ["sales", "AddOrder", "@CustomerId", "int", "4", "10", "0", "0"],
+            ["sales", "AddOrder", "@Id", "int", "4", "10", "0", "1", "The id"],
+            ["sales", "GetTotal", "", "decimal", "9", "18", "2", "1"],
+            ["sales", "GetTotal", "@OrderId", "int", "4", "10", "0", "0"],
+        ],
+    };
+    const definitions = new Map([
+        [
+            "sales.BigOrders",
+            "CREATE VIEW sales.BigOrders AS SELECT Id FROM sales.Orders",
+        ],
+        ["sales.AddOrder", "CREATE PROCEDURE sales.AddOrder AS RETURN"],
+    ]);
+
+    test("formatDataType adds the length, precision and scale", () => {
+        assert.equal(formatDataType("nvarchar", 100, 0, 0), "nvarchar(50)");
+        assert.equal(formatDataType("varbinary", -1, 0, 0), "varbinary(max)");
+        assert.equal(formatDataType("decimal", 9, 18, 2), "decimal(18, 2)");
+        assert.equal(formatDataType("datetime2", 8, 27, 7), "datetime2(7)");
+        assert.equal(formatDataType("int", 4, 10, 0), "int");
+    });
+
+    test("buildDatabaseDocs groups the rows by object", () => {
+        const docs = buildDatabaseDocs("Shop", metadata, rows, definitions);
+
+        assert.deepEqual(
+            docs.tables.map((t) => t.name),
+            ["Customers", "Orders"],
+        );
+        const orders = docs.tables[1];
+        assert.equal(orders.description, "The orders of the customers");
+        assert.deepEqual(
+            orders.columns.map((c) => [c.name, c.type, c.isPrimaryKey]),
+            [
+                ["Id", "int", true],
+                ["CustomerId", "int", false],
+                ["Note", "nvarchar(max)", false],
+            ],
+        );
+        assert.equal(orders.columns[0].isIdentity, true);
+        assert.equal(orders.columns[2].defaultValue, "('')");
+        assert.deepEqual(orders.indexes[1], {
+            name: "IX_Orders_CustomerId",
+            type: "NONCLUSTERED",
+            isPrimaryKey: false,
+            isUnique: false,
+            columns: ["CustomerId"],
+            includedColumns: ["Note"],
+        });
+        assert.deepEqual(orders.foreignKeys[0].referencedColumns, ["Id"]);
+        assert.deepEqual(docs.tables[0].referencedBy, [
+            {
+                schema: "sales",
+                name: "Orders",
+                foreignKey: "FK_Orders_Customers",
+            },
+        ]);
+
+        assert.equal(docs.views[0].columns.length, 1);
+        assert.equal(
+            docs.views[0].definition,
+            definitions.get("sales.BigOrders"),
+        );
+        assert.deepEqual(
+            docs.procedures[0].parameters.map((p) => [p.name, p.isOutput]),
+            [
+                ["@CustomerId", false],
+                ["@Id", true],
+            ],
+        );
+        assert.equal(docs.procedures[0].returnType, undefined);
+        assert.equal(docs.functions[0].returnType, "decimal(18, 2)");
+        assert.deepEqual(
+            docs.functions[0].parameters.map((p) => p.name),
+            ["@OrderId"],
+        );
+    });
+
+    test("toMarkdown links foreign keys and escapes table cells", () => {
+        const markdown = toMarkdown(
+            buildDatabaseDocs("Shop", metadata, rows, definitions),
+        );
+        const anchor = getObjectAnchor("dbo", "Customers");
+
+        assert.equal(anchor, "dbo.customers");
+        assert.ok(markdown.includes(`<a id="${anchor}"></a>`));
+        assert.ok(markdown.includes(`  - [dbo.Customers](#${anchor})`));
+        assert.ok(
+            markdown.includes(
+                `| FK_Orders_Customers | CustomerId | [dbo.Customers (Id)](#${anchor}) | CASCADE | NO_ACTION |`,
+            ),
+        );
+        assert.ok(markdown.includes("Notes \\| comments<br>of the order"));
+        assert.ok(
+            markdown.includes(
+                "```sql\nCREATE PROCEDURE sales.AddOrder AS RETURN\n```",
+            ),
+        );
+    });
+
+    test("toHtml escapes the documentation", () => {
+        const html = toHtml(
+            buildDatabaseDocs(
+                "Shop",
+                metadata,
+                {
+                    ...rows,
+                    descriptions: [["sales", "Orders", "<b>Orders</b>"]],
+                },
+                definitions,
+            ),
+        );
+
+        assert.ok(html.startsWith("<!DOCTYPE html>"));
+        assert.ok(html.includes('<h3 id="sales.orders">sales.Orders</h3>'));
+        assert.ok(html.includes("<p>&lt;b&gt;Orders&lt;/b&gt;</p>"));
+        assert.ok(
+            html.includes('<a href="#dbo.customers">dbo.Customers (Id)</a>'),
+        );
+    });
+});
@@ -16,6 +16,7 @@ import {
 } from "../../src/models/contracts/scripting/scriptingRequest";
 import { TreeNodeInfo } from "../../src/objectExplorer/treeNodeInfo";
 import { ScriptingService } from "../../src/scripting/scriptingService";
+import { defaultScriptingSettings } from "../../src/scripting/scriptingSettings";
 import { TestExtensionContext } from "./stubs";
 
 suite("Scripting Service Tests", () => {
@@ -290,4 +291,96 @@ suite("Scripting Service Tests", () => {
         );
         assert.notEqual(script, undefined);
     });
+
+    test("Test Create Scripting Params with scripting settings", () => {
+        const testNodeMetadata: ObjectMetadata = {
+            metadataType: MetadataType.SProc,
+            metadataTypeName: "StoredProcedure",
+            urn: undefined,
+            schema: "dbo",
+            name: "test_sproc",
+        };
+        const testNode = new TreeNodeInfo(
+            "test_sproc",
+            undefined,
+            undefined,
+            undefined,
+            undefined,
+            "StoredProcedure",
+            undefined,
+            undefined,
+            undefined,
+            undefined,
+            testNodeMetadata,
+        );
+        scriptingService = new ScriptingService(connectionManager.object);
+        const scriptingParams = scriptingService.createScriptingParams(
+            testNode,
+            "test_uri",
+            ScriptOperation.Create,
+            {
+                ...defaultScriptingSettings,
+                includePermissions: true,
+                includeIfNotExists: true,
+                scriptStatistics: "ScriptStatsDDL",
+                targetCompatibility: "Script150Compat",
+            },
+        );
+        const scriptOptions = scriptingParams.scriptOptions;
+        assert.equal(scriptOptions.scriptCreateDrop, "ScriptCreate");
+        assert.equal(scriptOptions.scriptObjectLevelPermissions, true);
+        assert.equal(scriptOptions.includeIfNotExists, true);
+        assert.equal(scriptOptions.collation, false);
+        assert.equal(scriptOptions.scriptStatistics, "ScriptStatsDDL");
+        assert.equal(
+            scriptOptions.scriptCompatibilityOption,
+            "Script150Compat",
+        );
+    });
+
+    test("Test Script Create function with CREATE OR ALTER", async () => {
+        // Drop the suite's default script so the procedure script below is used
+        client.reset();
+        client
+            .setup((c) =>
+                c.sendRequest(ScriptingRequest.type, TypeMoq.It.isAny()),
+            )
+            .returns(() =>
+                Promise.resolve({
+                    operationId: undefined,
+                    script: "SET ANSI_NULLS ON\nGO\nCREATE PROCEDURE [dbo].[test_sproc]\nAS\nSELECT 1\nGO",
+                }),
+            );
+        const testNodeMetadata: ObjectMetadata = {
+            metadataType: MetadataType.SProc,
+            metadataTypeName: "StoredProcedure",
+            urn: undefined,
+            schema: "dbo",
+            name: "test_sproc",
+        };
+        const testNode = new TreeNodeInfo(
+            "test_sproc",
+            undefined,
+            undefined,
+            undefined,
+            undefined,
+            "StoredProcedure",
+            undefined,
+            undefined,
+            undefined,
+            undefined,
+            testNodeMetadata,
+        );
+        scriptingService = new ScriptingService(connectionManager.object);
+        const script = await scriptingService.script(
+            testNode,
+            "test_uri",
+            ScriptOperation.Create,
+            { ...defaultScriptingSettings, createOrAlter: true },
+        );
+        assert.equal(
+            script,
+            "SET ANSI_NULLS ON\nGO\nCREATE OR ALTER PROCEDURE [dbo].[test_sproc]\nAS\nSELECT 1\nGO",
+        );
+    });
 });
@@ -0,0 +1,68 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from "assert";
+import { IScriptOptions } from "../../src/models/contracts/scripting/scriptingRequest";
+import {
+    applyScriptingSettings,
+    defaultScriptingSettings,
+    toCreateOrAlter,
+} from "../../src/scripting/scriptingSettings";
+
+suite("Scripting Settings Tests", () => {
+    const scriptOptions: IScriptOptions = {
+        scriptCreateDrop: "ScriptCreate",
+        typeOfDataToScript: "SchemaOnly",
+        scriptStatistics: "ScriptStatsNone",
+        targetDatabaseEngineEdition: "SqlServerEnterpriseEdition",
+        targetDatabaseEngineType: "SingleInstance",
+        scriptCompatibilityOption: "Script140Compat",
+    };
+
+    test("applyScriptingSettings sets the options of the settings", () => {
+        assert.deepEqual(
+            applyScriptingSettings(scriptOptions, {
+                includePermissions: true,
+                includeCollation: true,
+                includeIfNotExists: false,
+                includeExtendedProperties: true,
+                createOrAlter: true,
+                scriptStatistics: "ScriptStatsAll",
+                targetCompatibility: "Script110Compat",
+            }),
+            {
+                ...scriptOptions,
+                scriptObjectLevelPermissions: true,
+                collation: true,
+                includeIfNotExists: false,
+                scriptExtendedProperties: true,
+                scriptStatistics: "ScriptStatsAll",
+                scriptCompatibilityOption: "Script110Compat",
+            },
+        );
+        assert.equal(
+            applyScriptingSettings(scriptOptions, defaultScriptingSettings)
+                .scriptCompatibilityOption,
+            "Script140Compat",
+        );
+    });
+
+    test("toCreateOrAlter changes the CREATE statements of programmable objects", () => {
+        assert.equal(
+            toCreateOrAlter(
+                "/****** Object:  View [dbo].[Sales] ******/\nSET ANSI_NULLS ON\nGO\ncreate   view [dbo].[Sales] AS SELECT 1\nGO",
+            ),
+            "/****** Object:  View [dbo].[Sales] ******/\nSET ANSI_NULLS ON\nGO\ncreate OR ALTER   view [dbo].[Sales] AS SELECT 1\nGO",
+        );
+        assert.equal(
+            toCreateOrAlter(
+                "CREATE FUNCTION dbo.f() RETURNS int AS BEGIN RETURN 1 END",
+            ),
+            "CREATE OR ALTER FUNCTION dbo.f() RETURNS int AS BEGIN RETURN 1 END",
+        );
+        const tableScript = "CREATE TABLE [dbo].[Orders] ([Id] int)";
+        assert.equal(toCreateOrAlter(tableScript), tableScript);
+    });
+});
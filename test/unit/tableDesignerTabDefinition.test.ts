@@ -0,0 +1,218 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from "assert";
+import * as designer from "../../src/sharedInterfaces/tableDesigner";
+import {
+    getAdvancedOptionsComponents,
+    getComputedColumnsTabComponents,
+    getDefaultConstraintsTabComponents,
+    getDesignerView,
+    getMemoryOptimizedTabComponents,
+    getTemporalTableTabComponents,
+} from "../../src/tableDesigner/tableDesignerTabDefinition";
+
+function checkbox(propertyName: string): designer.DesignerDataPropertyInfo {
+    return {
+        componentType: "checkbox",
+        propertyName: propertyName,
+        componentProperties: { title: propertyName },
+    };
+}
+
+function input(propertyName: string): designer.DesignerDataPropertyInfo {
+    return {
+        componentType: "input",
+        propertyName: propertyName,
+        componentProperties: { title: propertyName },
+    };
+}
+
+function createView(
+    columnProperties: designer.DesignerDataPropertyInfo[],
+    tableProperties: designer.DesignerDataPropertyInfo[],
+): designer.TableDesignerView {
+    return {
+        columnTableOptions: {
+            showTable: true,
+            propertiesToDisplay: [],
+            additionalProperties: columnProperties,
+            canAddRows: true,
+            canRemoveRows: true,
+        },
+        additionalTableProperties: tableProperties,
+        useAdvancedSaveMode: false,
+    };
+}
+
+function getTableProperties(
+    components: designer.DesignerDataPropertyInfo[],
+): designer.DesignerTableProperties {
+    assert.equal(components.length, 1);
+    assert.equal(components[0].componentType, "table");
+    assert.equal(components[0].propertyName, designer.TableProperty.Columns);
+    return components[0]
+        .componentProperties as designer.DesignerTableProperties;
+}
+
+suite("Table Designer Tab Definition Tests", () => {
+    test("getComputedColumnsTabComponents shows the computed column properties", () => {
+        const view = createView(
+            [
+                checkbox(designer.TableColumnProperty.IsComputed),
+                input(designer.TableColumnProperty.ComputedFormula),
+                checkbox(designer.TableColumnProperty.IsComputedPersisted),
+            ],
+            [],
+        );
+
+        const table = getTableProperties(getComputedColumnsTabComponents(view));
+        assert.deepEqual(table.columns, [
+            designer.TableColumnProperty.Name,
+            designer.TableColumnProperty.IsComputed,
+            designer.TableColumnProperty.ComputedFormula,
+            designer.TableColumnProperty.IsComputedPersisted,
+        ]);
+        assert.equal(table.canAddRows, false);
+        assert.equal(table.canRemoveRows, false);
+
+        // without provider support for computed columns there is no tab
+        assert.deepEqual(
+            getComputedColumnsTabComponents(createView([], [])),
+            [],
+        );
+        assert.deepEqual(getComputedColumnsTabComponents(undefined), []);
+    });
+
+    test("getDefaultConstraintsTabComponents shows the default values of the columns", () => {
+        let table = getTableProperties(
+            getDefaultConstraintsTabComponents(createView([], [])),
+        );
+        assert.deepEqual(table.columns, [
+            designer.TableColumnProperty.Name,
+            designer.TableColumnProperty.DefaultValue,
+        ]);
+
+        table = getTableProperties(
+            getDefaultConstraintsTabComponents(
+                createView(
+                    [input(designer.TableColumnProperty.DefaultConstraintName)],
+                    [],
+                ),
+            ),
+        );
+        assert.deepEqual(table.columns, [
+            designer.TableColumnProperty.Name,
+            designer.TableColumnProperty.DefaultConstraintName,
+            designer.TableColumnProperty.DefaultValue,
+        ]);
+    });
+
+    test("getTemporalTableTabComponents shows the history table and period columns", () => {
+        const view = createView(
+            [
+                input(designer.TableColumnProperty.GeneratedAlwaysAs),
+                checkbox(designer.TableColumnProperty.IsHidden),
+            ],
+            [
+                checkbox(designer.TableProperty.IsSystemVersioningEnabled),
+                input(designer.TableProperty.HistoryTable),
+                checkbox(designer.TableProperty.IsMemoryOptimized),
+            ],
+        );
+
+        const components = getTemporalTableTabComponents(view);
+        assert.deepEqual(
+            components.map((c) => c.propertyName),
+            [
+                designer.TableProperty.IsSystemVersioningEnabled,
+                designer.TableProperty.HistoryTable,
+                designer.TableProperty.Columns,
+            ],
+        );
+        assert.deepEqual(getTableProperties(components.slice(2)).columns, [
+            designer.TableColumnProperty.Name,
+            designer.TableColumnProperty.GeneratedAlwaysAs,
+            designer.TableColumnProperty.IsHidden,
+        ]);
+
+        // the period columns are left out when the provider does not send them
+        assert.deepEqual(
+            getTemporalTableTabComponents(
+                createView(
+                    [],
+                    [
+                        checkbox(
+                            designer.TableProperty.IsSystemVersioningEnabled,
+                        ),
+                    ],
+                ),
+            ).map((c) => c.propertyName),
+            [designer.TableProperty.IsSystemVersioningEnabled],
+        );
+        assert.deepEqual(getTemporalTableTabComponents(createView([], [])), []);
+    });
+
+    test("getMemoryOptimizedTabComponents moves the memory-optimized options out of the Advanced Options tab", () => {
+        const view = createView(
+            [],
+            [
+                checkbox(designer.TableProperty.IsMemoryOptimized),
+                input(designer.TableProperty.Durability),
+                input("filegroup"),
+            ],
+        );
+
+        assert.deepEqual(
+            getMemoryOptimizedTabComponents(view).map((c) => c.propertyName),
+            [
+                designer.TableProperty.IsMemoryOptimized,
+                designer.TableProperty.Durability,
+            ],
+        );
+        assert.deepEqual(
+            getAdvancedOptionsComponents(view).map((c) => c.propertyName),
+            [designer.TableProperty.Description, "filegroup"],
+        );
+        assert.deepEqual(
+            getMemoryOptimizedTabComponents(createView([], [])),
+            [],
+        );
+    });
+
+    test("getDesignerView only adds the tabs the provider supports", () => {
+        const tabIds = (view: designer.TableDesignerView) =>
+            getDesignerView(view).tabs.map((t) => t.id);
+
+        assert.deepEqual(tabIds(createView([], [])), [
+            designer.DesignerMainPaneTabs.Columns,
+            designer.DesignerMainPaneTabs.PrimaryKey,
+            designer.DesignerMainPaneTabs.Indexes,
+            designer.DesignerMainPaneTabs.ForeignKeys,
+            designer.DesignerMainPaneTabs.CheckConstraints,
+            designer.DesignerMainPaneTabs.DefaultConstraints,
+            designer.DesignerMainPaneTabs.AboutTable,
+        ]);
+        assert.deepEqual(
+            tabIds(
+                createView(
+                    [input(designer.TableColumnProperty.ComputedFormula)],
+                    [checkbox(designer.TableProperty.IsMemoryOptimized)],
+                ),
+            ),
+            [
+                designer.DesignerMainPaneTabs.Columns,
+                designer.DesignerMainPaneTabs.PrimaryKey,
+                designer.DesignerMainPaneTabs.Indexes,
+                designer.DesignerMainPaneTabs.ForeignKeys,
+                designer.DesignerMainPaneTabs.CheckConstraints,
+                designer.DesignerMainPaneTabs.ComputedColumns,
+                designer.DesignerMainPaneTabs.DefaultConstraints,
+                designer.DesignerMainPaneTabs.MemoryOptimized,
+                designer.DesignerMainPaneTabs.AboutTable,
+            ],
+        );
+    });
+});
@@ -0,0 +1,190 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from "assert";
+import {
+    getInsertScript,
+    inferColumns,
+    readTableFile,
+} from "../../src/tableDesigner/tableFromFile";
+
+suite("Table From File Tests", () => {
+    test("readTableFile reads CSV files with quoted values", () => {
+        const data = readTableFile(
+            '\uFEFFid;name;note\r\n1;"Smith; John";"said ""hi""\nthen left"\r\n2;Jane;\r\n',
+            "customers.csv",
+        );
+
+        assert.equal(data.tableName, "customers");
+        assert.deepEqual(
+            data.columns.map((c) => c.name),
+            ["id", "name", "note"],
+        );
+        assert.deepEqual(data.rows, [
+            ["1", "Smith; John", 'said "hi"\nthen left'],
+            ["2", "Jane", undefined],
+        ]);
+    });
+
+    test("readTableFile reads JSON arrays of objects", () => {
+        const data = readTableFile(
+            '[{"id": 1, "active": true}, {"id": 2, "tags": ["a"], "active": null}]',
+            "items.json",
+        );
+
+        assert.deepEqual(
+            data.columns.map((c) => c.name),
+            ["id", "active", "tags"],
+        );
+        assert.deepEqual(data.rows, [
+            ["1", "true", undefined],
+            ["2", undefined, '["a"]'],
+        ]);
+        assert.throws(() => readTableFile('{"id": 1}', "item.json"));
+        assert.throws(() => readTableFile("", "empty.csv"));
+    });
+
+    test("inferColumns infers the types, lengths and nullability", () => {
+        const columns = inferColumns(
+            [
+                "count",
+                "total",
+                "big",
+                "price",
+                "ratio",
+                "flag",
+                "zip",
+                "day",
+                "created",
+                "id",
+                "name",
+                "",
+                "name",
+            ],
+            [
+                [
+                    "1",
+                    "2147483647",
+                    "3000000000",
+                    "12.5",
+                    "1e3",
+                    "true",
+                    "02134",
+                    "2024-01-31",
+                    "2024-01-31T10:00:00",
+                    "6f9619ff-8b86-d011-b42d-00c04fc964ff",
+                    "Anna",
+                    undefined,
+                    "x",
+                ],
+                [
+                    "-20",
+                    "0",
+                    "1",
+                    "-3.125",
+                    "0.5",
+                    "FALSE",
+                    "10001",
+                    "2024-02-01",
+                    "2024-02-01 11:30",
+                    "6F9619FF-8B86-D011-B42D-00C04FC964FF",
+                    undefined,
+                    undefined,
+                    "y",
+                ],
+            ],
+        );
+
+        assert.deepEqual(
+            columns.map((c) => [c.name, c.dataType, c.allowNulls]),
+            [
+                ["count", "int", false],
+                ["total", "int", false],
+                ["big", "bigint", false],
+                ["price", "decimal(5, 3)", false],
+                ["ratio", "float", false],
+                ["flag", "bit", false],
+                ["zip", "nvarchar(10)", false],
+                ["day", "date", false],
+                ["created", "datetime2", false],
+                ["id", "uniqueidentifier", false],
+                ["name", "nvarchar(10)", true],
+                ["Column12", "nvarchar(50)", true],
+                ["name_2", "nvarchar(10)", false],
+            ],
+        );
+    });
+
+    test("getInsertScript inserts the rows in batches", () => {
+        const rows: (string | undefined)[][] = [];
+        for (let i = 0; i < 1001; i++) {
+            rows.push([i.toString(), i === 0 ? "O'Brien" : undefined, "true"]);
+        }
+        const data = {
+            tableName: "people",
+            columns: inferColumns(["id", "name", "active"], rows),
+            rows: rows,
+        };
+
+        const script = getInsertScript("dbo", "peo]ple", data, data.columns);
+        const statements = script.split("\nGO\n\n");
+
+        assert.equal(statements.length, 2);
+        assert.ok(
+            statements[0].startsWith(
+                "INSERT INTO [dbo].[peo]]ple] ([id], [name], [active])\nVALUES\n    (0, N'O''Brien', 1),\n    (1, NULL, 1),",
+            ),
+        );
+        assert.equal(
+            statements[1],
+            "INSERT INTO [dbo].[peo]]ple] ([id], [name], [active])\nVALUES\n    (1000, NULL, 1);",
+        );
+    });
+
+    test("getInsertScript inserts into the columns of the published table", () => {
+        const rows = [
+            ["1", "Contoso", "12.5", "true"],
+            ["2", "Fabrikam", "n/a", "yes"],
+        ];
+        const data = {
+            tableName: "customers",
+            columns: inferColumns(["id", "name", "total", "active"], rows),
+            rows: rows,
+        };
+
+        const script = getInsertScript("dbo", "customers", data, [
+            { name: "Name", type: "nvarchar" },
+            { name: "Id", type: "int" },
+            { name: "total", type: "decimal" },
+            { name: "Active", type: "bit" },
+            { name: "Country", type: "nvarchar" },
+        ]);
+
+        assert.equal(
+            script,
+            "INSERT INTO [dbo].[customers] ([Name], [Id], [total], [Active])\nVALUES\n    (N'Contoso', 1, 12.5, 1),\n    (N'Fabrikam', 2, N'n/a', N'yes');",
+        );
+        assert.equal(
+            getInsertScript("dbo", "customers", data, [
+                { name: "Country", type: "nvarchar" },
+            ]),
+            "",
+        );
+    });
+
+    test("inferColumns only infers float for decimal numbers", () => {
+        const columns = inferColumns(
+            ["a", "b", "c"],
+            [
+                ["1.5e3", "Infinity", "0x1F"],
+                ["-2E-2", "1", " 1e5 "],
+            ],
+        );
+        assert.deepEqual(
+            columns.map((c) => c.dataType),
+            ["float", "nvarchar(10)", "nvarchar(10)"],
+        );
+    });
+});
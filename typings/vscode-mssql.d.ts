@@ -439,8 +439,31 @@ declare module 'vscode-mssql' {
 		schemaObjectType = 5
 	}
 
+	export const enum SchemaCompareEndpointType {
+		Database = 0,
+		Dacpac = 1,
+		Project = 2
+	}
+
+	export const enum SchemaUpdateAction {
+		Delete = 0,
+		Change = 1,
+		Add = 2
+	}
+
+	export const enum SchemaDifferenceType {
+		Object = 0,
+		Property = 1
+	}
+
 	export interface ISchemaCompareService {
 		schemaCompareGetDefaultOptions(): Thenable<SchemaCompareOptionsResult>;
+		compare(operationId: string, sourceEndpointInfo: SchemaCompareEndpointInfo, targetEndpointInfo: SchemaCompareEndpointInfo, taskExecutionMode: TaskExecutionMode, deploymentOptions: DeploymentOptions): Thenable<SchemaCompareResult>;
+		generateScript(operationId: string, targetServerName: string, targetDatabaseName: string, taskExecutionMode: TaskExecutionMode): Thenable<ResultStatus>;
+		publishDatabaseChanges(operationId: string, targetServerName: string, targetDatabaseName: string, taskExecutionMode: TaskExecutionMode): Thenable<ResultStatus>;
+		publishProjectChanges(operationId: string, targetProjectPath: string, targetFolderStructure: ExtractTarget, taskExecutionMode: TaskExecutionMode): Thenable<SchemaComparePublishProjectResult>;
+		includeExcludeNode(operationId: string, diffEntry: DiffEntry, includeRequest: boolean, taskExecutionMode: TaskExecutionMode): Thenable<SchemaCompareIncludeExcludeResult>;
+		cancel(operationId: string): Thenable<ResultStatus>;
 	}
 
 	export interface IDacFxService {
@@ -1161,6 +1184,93 @@ declare module 'vscode-mssql' {
 		defaultDeploymentOptions: DeploymentOptions;
 	}
 
+	export interface SchemaCompareEndpointInfo {
+		endpointType: SchemaCompareEndpointType;
+		projectFilePath: string;
+		targetScripts: string[];
+		extractTarget?: ExtractTarget;
+		dataSchemaProvider: string;
+		packageFilePath: string;
+		serverDisplayName: string;
+		serverName: string;
+		databaseName: string;
+		ownerUri: string;
+		connectionDetails: ConnectionDetails;
+		connectionName?: string;
+	}
+
+	export interface DiffEntry {
+		updateAction: SchemaUpdateAction;
+		differenceType: SchemaDifferenceType;
+		name: string;
+		sourceValue: string[];
+		targetValue: string[];
+		parent: DiffEntry;
+		children: DiffEntry[];
+		sourceScript: string;
+		targetScript: string;
+		sourceObjectType: string;
+		targetObjectType: string;
+		included: boolean;
+	}
+
+	export interface SchemaCompareParams {
+		operationId: string;
+		sourceEndpointInfo: SchemaCompareEndpointInfo;
+		targetEndpointInfo: SchemaCompareEndpointInfo;
+		taskExecutionMode: TaskExecutionMode;
+		deploymentOptions: DeploymentOptions;
+	}
+
+	export interface SchemaCompareResult extends ResultStatus {
+		operationId: string;
+		areEqual: boolean;
+		differences: DiffEntry[];
+	}
+
+	export interface SchemaCompareGenerateScriptParams {
+		operationId: string;
+		targetServerName: string;
+		targetDatabaseName: string;
+		taskExecutionMode: TaskExecutionMode;
+	}
+
+	export interface SchemaComparePublishDatabaseChangesParams {
+		operationId: string;
+		targetServerName: string;
+		targetDatabaseName: string;
+		taskExecutionMode: TaskExecutionMode;
+	}
+
+	export interface SchemaComparePublishProjectChangesParams {
+		operationId: string;
+		targetProjectPath: string;
+		targetFolderStructure: ExtractTarget;
+		taskExecutionMode: TaskExecutionMode;
+	}
+
+	export interface SchemaComparePublishProjectResult extends ResultStatus {
+		changedFiles: string[];
+		addedFiles: string[];
+		deletedFiles: string[];
+	}
+
+	export interface SchemaCompareNodeParams {
+		operationId: string;
+		diffEntry: DiffEntry;
+		includeRequest: boolean;
+		taskExecutionMode: TaskExecutionMode;
+	}
+
+	export interface SchemaCompareIncludeExcludeResult extends ResultStatus {
+		affectedDependencies: DiffEntry[];
+		blockingDependencies: DiffEntry[];
+	}
+
+	export interface SchemaCompareCancelParams {
+		operationId: string;
+	}
+
 	export interface SavePublishProfileParams {
 		profilePath: string;
 		databaseName: string;